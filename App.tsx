@@ -43,11 +43,15 @@ import * as Sentry from '@sentry/react-native';
 import UpdateService from './src/services/updateService';
 import { memoryMonitorService } from './src/services/memoryMonitorService';
 import { aiService } from './src/services/aiService';
+import { autoBackupService } from './src/services/autoBackupService';
+import { profileService } from './src/services/profileService';
+import ProfilePicker from './src/components/ProfilePicker';
 import { AccountProvider, useAccount } from './src/contexts/AccountContext';
 import { ToastProvider } from './src/contexts/ToastContext';
 import { mmkvStorage } from './src/services/mmkvStorage';
 import { CampaignManager } from './src/components/promotions/CampaignManager';
 import { isErrorReportingEnabledSync } from './src/services/telemetryService';
+import { logger } from './src/utils/logger';
 
 // Initialize Sentry with privacy-first defaults
 // Settings are loaded from telemetryService and can be controlled by user
@@ -119,6 +123,7 @@ const ThemedApp = () => {
   const { currentTheme } = useTheme();
   const [isAppReady, setIsAppReady] = useState(false);
   const [hasCompletedOnboarding, setHasCompletedOnboarding] = useState<boolean | null>(null);
+  const [showProfilePicker, setShowProfilePicker] = useState(false);
 
   // Update popup functionality
   const {
@@ -178,6 +183,8 @@ const ThemedApp = () => {
       try {
         // Check onboarding status
         const onboardingCompleted = await mmkvStorage.getItem('hasCompletedOnboarding');
+        // Ask who's watching when there are several profiles or a PIN lock
+        setShowProfilePicker(await profileService.shouldShowPickerAtLaunch());
         setHasCompletedOnboarding(onboardingCompleted === 'true');
 
         // Initialize update service
@@ -191,6 +198,9 @@ const ThemedApp = () => {
         await aiService.initialize();
         console.log('AI service initialized');
 
+        // Scheduled and on-background restore points
+        autoBackupService.initialize().catch(error => logger.error('[App] Auto backup init failed:', error));
+
       } catch (error) {
         console.error('Error initializing app:', error);
         // Default to showing onboarding if we can't check
@@ -225,11 +235,13 @@ const ThemedApp = () => {
     setIsAppReady(true);
   };
 
+  const handleProfilePicked = React.useCallback(() => setShowProfilePicker(false), []);
+
   // Navigation reference
   const navigationRef = React.useRef<any>(null);
 
   // Don't render anything until we know the onboarding status
-  const shouldShowApp = isAppReady && hasCompletedOnboarding !== null;
+  const shouldShowApp = isAppReady && hasCompletedOnboarding !== null && !showProfilePicker;
   const initialRouteName = hasCompletedOnboarding ? 'MainTabs' : 'Onboarding';
 
   return (
@@ -254,6 +266,7 @@ const ThemedApp = () => {
               <StatusBar style="light" />
               {!isAppReady && <SplashScreen onFinish={handleSplashComplete} />}
               {shouldShowApp && <AppNavigator initialRouteName={initialRouteName} />}
+              {isAppReady && showProfilePicker && <ProfilePicker onDone={handleProfilePicked} />}
               <UpdatePopup
                 visible={showUpdatePopup}
                 updateInfo={updateInfo}
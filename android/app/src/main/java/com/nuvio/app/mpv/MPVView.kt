@@ -2,6 +2,8 @@ package com.nuvio.app.mpv
 
 import android.content.Context
 import android.graphics.SurfaceTexture
+import android.os.Handler
+import android.os.Looper
 import android.util.AttributeSet
 import android.util.Log
 import android.view.Surface
@@ -42,6 +44,24 @@ class MPVView @JvmOverloads constructor(
     var onEndCallback: (() -> Unit)? = null
     var onErrorCallback: ((message: String) -> Unit)? = null
     var onTracksChangedCallback: ((audioTracks: List<Map<String, Any>>, subtitleTracks: List<Map<String, Any>>) -> Unit)? = null
+    var onStatsCallback: ((stats: Map<String, Any?>) -> Unit)? = null
+
+    // Playback statistics are polled only while the stats overlay is open
+    private val statsHandler = Handler(Looper.getMainLooper())
+    private var statsEnabled = false
+    private val statsRunnable = object : Runnable {
+        override fun run() {
+            if (!statsEnabled) return
+            if (isMpvInitialized) {
+                try {
+                    onStatsCallback?.invoke(collectStats())
+                } catch (e: Exception) {
+                    Log.w(TAG, "Failed to read playback stats", e)
+                }
+            }
+            statsHandler.postDelayed(this, 1000)
+        }
+    }
 
     private var resumeOnForeground = false
     private val lifeCycleListener = object : LifecycleEventListener {
@@ -102,6 +122,7 @@ class MPVView @JvmOverloads constructor(
     override fun onSurfaceTextureDestroyed(surfaceTexture: SurfaceTexture): Boolean {
         Log.d(TAG, "Surface texture destroyed")
         (context as? ReactContext)?.removeLifecycleEventListener(lifeCycleListener)
+        statsHandler.removeCallbacks(statsRunnable)
         if (isMpvInitialized) {
             MPVLib.removeObserver(this)
             MPVLib.detachSurface()
@@ -479,6 +500,35 @@ class MPVView @JvmOverloads constructor(
 
     // MPVLib.EventObserver implementation
 
+    fun setStatsEnabled(enabled: Boolean) {
+        if (statsEnabled == enabled) return
+        statsEnabled = enabled
+        statsHandler.removeCallbacks(statsRunnable)
+        if (enabled) statsHandler.post(statsRunnable)
+    }
+
+    private fun collectStats(): Map<String, Any?> {
+        return mapOf(
+            "videoCodec" to MPVLib.getPropertyString("video-codec"),
+            "width" to MPVLib.getPropertyInt("video-params/w"),
+            "height" to MPVLib.getPropertyInt("video-params/h"),
+            "fps" to MPVLib.getPropertyDouble("container-fps"),
+            "hwdec" to MPVLib.getPropertyString("hwdec-current"),
+            "droppedFrames" to MPVLib.getPropertyInt("frame-drop-count"),
+            "decoderDroppedFrames" to MPVLib.getPropertyInt("decoder-frame-drop-count"),
+            "cacheDuration" to MPVLib.getPropertyDouble("demuxer-cache-duration"),
+            "cacheSpeed" to MPVLib.getPropertyDouble("cache-speed"),
+            "videoBitrate" to MPVLib.getPropertyDouble("video-bitrate"),
+            "audioBitrate" to MPVLib.getPropertyDouble("audio-bitrate"),
+            "gamma" to MPVLib.getPropertyString("video-params/gamma"),
+            "primaries" to MPVLib.getPropertyString("video-params/primaries"),
+            "audioCodec" to MPVLib.getPropertyString("audio-codec-name"),
+            "audioChannels" to MPVLib.getPropertyString("audio-params/hr-channels"),
+            "audioSampleRate" to MPVLib.getPropertyInt("audio-params/samplerate"),
+            "fileFormat" to MPVLib.getPropertyString("file-format")
+        )
+    }
+
     override fun eventProperty(property: String) {
         Log.d(TAG, "Property changed: $property")
         when (property) {
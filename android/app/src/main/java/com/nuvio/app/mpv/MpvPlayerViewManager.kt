@@ -86,6 +86,19 @@ class MpvPlayerViewManager(
             }
             sendEvent(context, view.id, "onTracksChanged", event)
         }
+
+        view.onStatsCallback = { stats ->
+            val event = Arguments.createMap()
+            stats.forEach { (key, value) ->
+                when (value) {
+                    is Int -> event.putInt(key, value)
+                    is Double -> event.putDouble(key, value)
+                    is String -> event.putString(key, value)
+                    else -> event.putNull(key)
+                }
+            }
+            sendEvent(context, view.id, "onStats", event)
+        }
         
         return view
     }
@@ -102,6 +115,7 @@ class MpvPlayerViewManager(
             .put("onEnd", MapBuilder.of("phasedRegistrationNames", MapBuilder.of("bubbled", "onEnd")))
             .put("onError", MapBuilder.of("phasedRegistrationNames", MapBuilder.of("bubbled", "onError")))
             .put("onTracksChanged", MapBuilder.of("phasedRegistrationNames", MapBuilder.of("bubbled", "onTracksChanged")))
+            .put("onStats", MapBuilder.of("phasedRegistrationNames", MapBuilder.of("bubbled", "onStats")))
             .build()
     }
 
@@ -181,6 +195,11 @@ class MpvPlayerViewManager(
         }
     }
 
+    @ReactProp(name = "statsEnabled", defaultBoolean = false)
+    fun setStatsEnabled(view: MPVView, enabled: Boolean) {
+        view.setStatsEnabled(enabled)
+    }
+
     @ReactProp(name = "decoderMode")
     fun setDecoderMode(view: MPVView, decoderMode: String?) {
         view.decoderMode = decoderMode ?: "auto"
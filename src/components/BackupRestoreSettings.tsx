@@ -12,6 +12,7 @@ import * as DocumentPicker from 'expo-document-picker';
 import * as Sharing from 'expo-sharing';
 import * as Updates from 'expo-updates';
 import { backupService, BackupOptions } from '../services/backupService';
+import { autoBackupService } from '../services/autoBackupService';
 import { useTheme } from '../contexts/ThemeContext';
 import { logger } from '../utils/logger';
 import CustomAlert from './CustomAlert';
@@ -172,6 +173,7 @@ const BackupRestoreSettings: React.FC<BackupRestoreSettingsProps> = ({ isTablet
                   includeLocalScrapers: true,
                 };
                 
+                await autoBackupService.createRestorePointIfEnabled('before_restore', [fileUri]);
                 await backupService.restoreBackup(fileUri, restoreOptions);
                 
                 openAlert(
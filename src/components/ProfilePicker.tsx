@@ -0,0 +1,254 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useTheme } from '../contexts/ThemeContext';
+import { profileService, Profile } from '../services/profileService';
+import { logger } from '../utils/logger';
+
+export const ProfileAvatar: React.FC<{ profile: Pick<Profile, 'avatar' | 'color'>; size?: number }> = ({ profile, size = 72 }) => (
+  <View
+    style={[
+      styles.avatar,
+      { width: size, height: size, borderRadius: size * 0.22, backgroundColor: profile.color },
+    ]}
+  >
+    <Text style={{ fontSize: size * 0.5 }}>{profile.avatar}</Text>
+  </View>
+);
+
+interface PinPromptProps {
+  profile: Profile | null;
+  onCancel: () => void;
+  onVerified: (profile: Profile) => void;
+}
+
+export const PinPrompt: React.FC<PinPromptProps> = ({ profile, onCancel, onVerified }) => {
+  const { currentTheme } = useTheme();
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    setPin('');
+    setError(false);
+  }, [profile]);
+
+  const handleChange = (value: string) => {
+    const digits = value.replace(/\D/g, '').slice(0, 4);
+    setPin(digits);
+    setError(false);
+    if (digits.length === 4 && profile) {
+      if (profileService.verifyPin(profile, digits)) {
+        onVerified(profile);
+      } else {
+        setError(true);
+        setPin('');
+      }
+    }
+  };
+
+  return (
+    <Modal
+      visible={!!profile}
+      transparent
+      animationType="fade"
+      supportedOrientations={['portrait', 'landscape']}
+      onRequestClose={onCancel}
+    >
+      <View style={styles.modalOverlay}>
+        <View style={[styles.pinCard, { backgroundColor: currentTheme.colors.elevation2 }]}>
+          {profile && <ProfileAvatar profile={profile} size={56} />}
+          <Text style={[styles.pinTitle, { color: currentTheme.colors.text }]}>
+            Enter PIN for {profile?.name}
+          </Text>
+          <TextInput
+            style={[
+              styles.pinInput,
+              {
+                color: currentTheme.colors.text,
+                borderColor: error ? currentTheme.colors.error : currentTheme.colors.border,
+              },
+            ]}
+            value={pin}
+            onChangeText={handleChange}
+            keyboardType="number-pad"
+            secureTextEntry
+            maxLength={4}
+            autoFocus
+          />
+          {error && (
+            <Text style={[styles.pinError, { color: currentTheme.colors.error }]}>Wrong PIN</Text>
+          )}
+          <TouchableOpacity style={styles.pinCancel} onPress={onCancel}>
+            <Text style={{ color: currentTheme.colors.textMuted }}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+interface ProfilePickerProps {
+  // Called when the already-active profile is picked; other picks reload the app
+  onDone: () => void;
+}
+
+const ProfilePicker: React.FC<ProfilePickerProps> = ({ onDone }) => {
+  const { currentTheme } = useTheme();
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [pinProfile, setPinProfile] = useState<Profile | null>(null);
+  const [switching, setSwitching] = useState(false);
+
+  useEffect(() => {
+    Promise.all([profileService.getProfiles(), profileService.getActiveProfile()])
+      .then(([all, active]) => {
+        setProfiles(all);
+        setActiveId(active.id);
+      })
+      .catch(error => {
+        logger.error('[ProfilePicker] Failed to load profiles:', error);
+        onDone();
+      });
+  }, [onDone]);
+
+  const enterProfile = async (profile: Profile) => {
+    setPinProfile(null);
+    if (profile.id === activeId) {
+      onDone();
+      return;
+    }
+    setSwitching(true);
+    try {
+      await profileService.switchProfile(profile.id);
+    } catch (error) {
+      logger.error('[ProfilePicker] Failed to switch profile:', error);
+      setSwitching(false);
+    }
+  };
+
+  const handlePick = (profile: Profile) => {
+    if (profile.pinHash) {
+      setPinProfile(profile);
+    } else {
+      enterProfile(profile);
+    }
+  };
+
+  return (
+    <View style={[StyleSheet.absoluteFill, styles.container, { backgroundColor: currentTheme.colors.darkBackground }]}>
+      <Text style={[styles.title, { color: currentTheme.colors.text }]}>Who's watching?</Text>
+      {switching ? (
+        <ActivityIndicator size="large" color={currentTheme.colors.primary} />
+      ) : (
+        <ScrollView contentContainerStyle={styles.grid}>
+          {profiles.map(profile => (
+            <TouchableOpacity
+              key={profile.id}
+              style={styles.tile}
+              onPress={() => handlePick(profile)}
+              activeOpacity={0.7}
+            >
+              <ProfileAvatar profile={profile} size={88} />
+              <View style={styles.nameRow}>
+                <Text style={[styles.name, { color: currentTheme.colors.text }]} numberOfLines={1}>
+                  {profile.name}
+                </Text>
+                {profile.pinHash && (
+                  <MaterialIcons name="lock" size={14} color={currentTheme.colors.textMuted} />
+                )}
+              </View>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      )}
+      <PinPrompt profile={pinProfile} onCancel={() => setPinProfile(null)} onVerified={enterProfile} />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 24,
+  },
+  title: {
+    fontSize: 26,
+    fontWeight: '700',
+    marginBottom: 32,
+  },
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+  },
+  tile: {
+    width: 120,
+    alignItems: 'center',
+    margin: 12,
+  },
+  avatar: {
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  nameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  name: {
+    fontSize: 15,
+    fontWeight: '500',
+    marginRight: 4,
+    maxWidth: 100,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.7)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  pinCard: {
+    width: '100%',
+    maxWidth: 360,
+    borderRadius: 16,
+    padding: 24,
+    alignItems: 'center',
+  },
+  pinTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    marginTop: 16,
+    marginBottom: 20,
+    textAlign: 'center',
+  },
+  pinInput: {
+    width: 160,
+    height: 52,
+    borderRadius: 8,
+    borderWidth: 1,
+    fontSize: 24,
+    letterSpacing: 12,
+    textAlign: 'center',
+  },
+  pinError: {
+    marginTop: 10,
+    fontSize: 13,
+  },
+  pinCancel: {
+    marginTop: 20,
+    padding: 8,
+  },
+});
+
+export default ProfilePicker;
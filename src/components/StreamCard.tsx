@@ -13,6 +13,7 @@ import { MaterialIcons } from '@expo/vector-icons';
 import FastImage from '@d11/react-native-fast-image';
 import { Stream } from '../types/metadata';
 import QualityBadge from './metadata/QualityBadge';
+import { formatStreamSize, getParsedStreamInfo, getSourceTypeLabel } from '../utils/streamParser';
 import { useSettings } from '../hooks/useSettings';
 import { useDownloads } from '../contexts/DownloadsContext';
 import { useToast } from '../contexts/ToastContext';
@@ -93,35 +94,19 @@ const StreamCard = memo(({
   const streamInfo = useMemo(() => {
     const title = stream.title || '';
     const name = stream.name || '';
-
-    // Helper function to format size from bytes
-    const formatSize = (bytes: number): string => {
-      if (bytes === 0) return '0 Bytes';
-      const k = 1024;
-      const sizes = ['Bytes', 'KB', 'MB', 'GB', 'TB'];
-      const i = Math.floor(Math.log(bytes) / Math.log(k));
-      return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
-    };
-
-    // Get size from title (legacy format) or from stream.size field
-    let sizeDisplay = title.match(/💾\s*([\d.]+\s*[GM]B)/)?.[1];
-    if (!sizeDisplay && stream.size && typeof stream.size === 'number' && stream.size > 0) {
-      sizeDisplay = formatSize(stream.size);
-    }
-
-    // Extract quality for badge display
-    const basicQuality = title.match(/(\d+)p/)?.[1] || null;
+    const parsed = getParsedStreamInfo(stream);
 
     return {
-      quality: basicQuality,
-      isHDR: title.toLowerCase().includes('hdr'),
-      isDolby: title.toLowerCase().includes('dolby') || title.includes('DV'),
-      size: sizeDisplay,
-      isDebrid: stream.behaviorHints?.cached,
+      quality: parsed.resolution ? String(parsed.resolution) : null,
+      sourceType: parsed.sourceType ? getSourceTypeLabel(parsed.sourceType) : null,
+      isHDR: parsed.hdr.some(format => format !== 'dv'),
+      isDolby: parsed.hdr.includes('dv'),
+      size: parsed.sizeBytes ? formatStreamSize(parsed.sizeBytes) : null,
+      isDebrid: parsed.cacheStatus === 'cached',
       displayName: name || 'Unnamed Stream',
       subTitle: title && title !== name ? title : null
     };
-  }, [stream.name, stream.title, stream.behaviorHints, stream.size]);
+  }, [stream]);
 
   const handleDownload = useCallback(async () => {
     try {
@@ -245,6 +230,12 @@ const StreamCard = memo(({
             <QualityBadge type="VISION" />
           )}
 
+          {streamInfo.sourceType && (
+            <View style={[styles.chip, { backgroundColor: theme.colors.darkGray }]}>
+              <Text style={[styles.chipText, { color: theme.colors.white }]}>{streamInfo.sourceType}</Text>
+            </View>
+          )}
+
           {streamInfo.size && (
             <View style={[styles.chip, { backgroundColor: theme.colors.darkGray }]}>
               <Text style={[styles.chipText, { color: theme.colors.white }]}>💾 {streamInfo.size}</Text>
@@ -38,6 +38,7 @@ import { useTheme } from '../../contexts/ThemeContext';
 import { logger } from '../../utils/logger';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useSettings } from '../../hooks/useSettings';
+import { useParentalFilter } from '../../hooks/useParentalFilter';
 import { useTrailer } from '../../contexts/TrailerContext';
 import TrailerService from '../../services/trailerService';
 import TrailerPlayer from '../video/TrailerPlayer';
@@ -184,12 +185,13 @@ const AppleTVHero: React.FC<AppleTVHeroProps> = ({
   );
 
   // Determine items to display
-  const items = useMemo(() => {
+  const candidateItems = useMemo(() => {
     if (allFeaturedContent && allFeaturedContent.length > 0) {
       return allFeaturedContent.slice(0, 8); // Limit to 8 items for performance
     }
     return featuredContent ? [featuredContent] : [];
   }, [allFeaturedContent, featuredContent]);
+  const items = useParentalFilter(candidateItems);
 
   const [currentIndex, setCurrentIndex] = useState(0);
   const [bannerLoaded, setBannerLoaded] = useState<Record<number, boolean>>({});
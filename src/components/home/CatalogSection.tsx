@@ -10,6 +10,7 @@ import ContentItem from './ContentItem';
 import Animated, { FadeIn, Layout } from 'react-native-reanimated';
 import { RootStackParamList } from '../../navigation/AppNavigator';
 import { getFormattedCatalogName, getCatalogDisplayName } from '../../utils/catalogNameUtils';
+import { useParentalFilter } from '../../hooks/useParentalFilter';
 
 interface CatalogSectionProps {
   catalog: CatalogContent;
@@ -78,6 +79,7 @@ const CatalogSection = ({ catalog }: CatalogSectionProps) => {
   const { t, i18n } = useTranslation();
   const navigation = useNavigation<NavigationProp<RootStackParamList>>();
   const { currentTheme } = useTheme();
+  const items = useParentalFilter(catalog.items);
 
   // Use state for the display name to handle async custom name resolution
   const [displayName, setDisplayName] = React.useState(catalog.name);
@@ -133,7 +135,8 @@ const CatalogSection = ({ catalog }: CatalogSectionProps) => {
   // Memoize the keyExtractor to prevent re-creation
   const keyExtractor = useCallback((item: StreamingContent) => `${item.id}-${item.type}`, []);
 
-
+  // Everything in this row is restricted for the current profile
+  if (items.length === 0 && catalog.items.length > 0) return null;
 
   return (
     <View
@@ -201,7 +204,7 @@ const CatalogSection = ({ catalog }: CatalogSectionProps) => {
       </View>
 
       <FlatList
-        data={catalog.items}
+        data={items}
         renderItem={renderContentItem}
         keyExtractor={keyExtractor}
         horizontal
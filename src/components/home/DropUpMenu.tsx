@@ -37,9 +37,10 @@ interface DropUpMenuProps {
   onOptionSelect: (option: string) => void;
   isSaved?: boolean; // allow parent to pass saved status directly
   isWatched?: boolean; // allow parent to pass watched status directly
+  canOrganize?: boolean; // offer library collections and tags
 }
 
-export const DropUpMenu = ({ visible, onClose, item, onOptionSelect, isSaved: isSavedProp, isWatched: isWatchedProp }: DropUpMenuProps) => {
+export const DropUpMenu = ({ visible, onClose, item, onOptionSelect, isSaved: isSavedProp, isWatched: isWatchedProp, canOrganize }: DropUpMenuProps) => {
   const { t } = useTranslation();
   const translateY = useSharedValue(300);
   const opacity = useSharedValue(0);
@@ -119,6 +120,11 @@ export const DropUpMenu = ({ visible, onClose, item, onOptionSelect, isSaved: is
       action: 'playlist'
     },
     */
+    ...(canOrganize ? [{
+      icon: 'label',
+      label: t('library.organize'),
+      action: 'organize'
+    }] : []),
     {
       icon: 'share',
       label: t('library.share'),
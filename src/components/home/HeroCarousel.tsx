@@ -29,6 +29,7 @@ import { StreamingContent } from '../../services/catalogService';
 import { useTheme } from '../../contexts/ThemeContext';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useSettings } from '../../hooks/useSettings';
+import { useParentalFilter } from '../../hooks/useParentalFilter';
 
 interface HeroCarouselProps {
   items: StreamingContent[];
@@ -38,6 +39,8 @@ interface HeroCarouselProps {
 // Offset to keep cards below a top tab navigator
 const TOP_TABS_OFFSET = Platform.OS === 'ios' ? 44 : 48;
 
+const NO_ITEMS: StreamingContent[] = [];
+
 const HeroCarousel: React.FC<HeroCarouselProps> = ({ items, loading = false }) => {
   const { t } = useTranslation();
   const navigation = useNavigation<NavigationProp<RootStackParamList>>();
@@ -73,7 +76,8 @@ const HeroCarousel: React.FC<HeroCarouselProps> = ({ items, loading = false }) =
   // Reduce top padding on phones while keeping tablets unchanged
   const effectiveTopOffset = useMemo(() => (isTablet ? TOP_TABS_OFFSET : 8), [isTablet]);
 
-  const data = useMemo(() => (items && items.length ? items.slice(0, 10) : []), [items]);
+  const allowedItems = useParentalFilter(items || NO_ITEMS);
+  const data = useMemo(() => (allowedItems.length ? allowedItems.slice(0, 10) : []), [allowedItems]);
   const loopingEnabled = data.length > 1;
   // Duplicate head/tail for seamless looping
   const loopData = useMemo(() => {
@@ -0,0 +1,125 @@
+import React, { useCallback } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, FlatList } from 'react-native';
+import { NavigationProp, useNavigation } from '@react-navigation/native';
+import { useTranslation } from 'react-i18next';
+import { MaterialIcons } from '@expo/vector-icons';
+import { StreamingContent } from '../../services/catalogService';
+import { LibraryList } from '../../services/libraryListsService';
+import { useTheme } from '../../contexts/ThemeContext';
+import { RootStackParamList } from '../../navigation/AppNavigator';
+import { useParentalFilter } from '../../hooks/useParentalFilter';
+import ContentItem from './ContentItem';
+
+interface LibraryListSectionProps {
+  list: LibraryList;
+  items: StreamingContent[];
+}
+
+// Rows shown on Home are capped; "View all" opens the full list in Library
+const MAX_ROW_ITEMS = 20;
+
+// A library collection or smart list pinned to the home screen
+const LibraryListSection = ({ list, items }: LibraryListSectionProps) => {
+  const { t } = useTranslation();
+  const navigation = useNavigation<NavigationProp<RootStackParamList>>();
+  const { currentTheme } = useTheme();
+  const visibleItems = useParentalFilter(items);
+
+  const handleContentPress = useCallback((id: string, type: string) => {
+    navigation.navigate('Metadata', { id, type });
+  }, [navigation]);
+
+  const renderContentItem = useCallback(({ item }: { item: StreamingContent }) => (
+    <ContentItem item={item} onPress={handleContentPress} />
+  ), [handleContentPress]);
+
+  const ItemSeparator = useCallback(() => <View style={{ width: 8 }} />, []);
+
+  if (visibleItems.length === 0) return null;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <View style={styles.titleContainer}>
+          <Text style={[styles.title, { color: currentTheme.colors.text }]} numberOfLines={1}>
+            {list.name}
+          </Text>
+          <View style={[styles.titleUnderline, { backgroundColor: currentTheme.colors.primary }]} />
+        </View>
+        <TouchableOpacity
+          style={styles.viewAllButton}
+          onPress={() => navigation.navigate('Library', { listId: list.id })}
+        >
+          <Text style={[styles.viewAllText, { color: currentTheme.colors.textMuted }]}>{t('home.view_all')}</Text>
+          <MaterialIcons name="chevron-right" size={20} color={currentTheme.colors.textMuted} />
+        </TouchableOpacity>
+      </View>
+
+      <FlatList
+        data={visibleItems.slice(0, MAX_ROW_ITEMS)}
+        renderItem={renderContentItem}
+        keyExtractor={item => `${item.id}-${item.type}`}
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        nestedScrollEnabled={true}
+        contentContainerStyle={styles.list}
+        ItemSeparatorComponent={ItemSeparator}
+        removeClippedSubviews={true}
+        initialNumToRender={4}
+        maxToRenderPerBatch={3}
+        windowSize={3}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 28,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    marginBottom: 16,
+  },
+  titleContainer: {
+    position: 'relative',
+    flex: 1,
+    marginRight: 16,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '800',
+    letterSpacing: 0.5,
+    marginBottom: 4,
+  },
+  titleUnderline: {
+    position: 'absolute',
+    bottom: -2,
+    left: 0,
+    width: 40,
+    height: 3,
+    borderRadius: 2,
+    opacity: 0.8,
+  },
+  viewAllButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    paddingHorizontal: 10,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255,255,255,0.1)',
+  },
+  viewAllText: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginRight: 4,
+  },
+  list: {
+    paddingHorizontal: 16,
+  },
+});
+
+export default React.memo(LibraryListSection);
@@ -0,0 +1,254 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  Pressable,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+} from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useTheme } from '../../contexts/ThemeContext';
+import { StreamingContent } from '../../services/catalogService';
+import { libraryListsService, LibraryList } from '../../services/libraryListsService';
+import { logger } from '../../utils/logger';
+
+interface LibraryOrganizeModalProps {
+  visible: boolean;
+  item: StreamingContent | null;
+  onClose: () => void;
+}
+
+// Add a library title to collections and edit its tags
+const LibraryOrganizeModal = ({ visible, item, onClose }: LibraryOrganizeModalProps) => {
+  const { t } = useTranslation();
+  const { currentTheme } = useTheme();
+  const [collections, setCollections] = useState<LibraryList[]>([]);
+  const [tags, setTags] = useState<string[]>([]);
+  const [allTags, setAllTags] = useState<string[]>([]);
+  const [newTag, setNewTag] = useState('');
+  const [newCollection, setNewCollection] = useState('');
+
+  useEffect(() => {
+    if (!visible || !item) return;
+    const refresh = () => {
+      setCollections(libraryListsService.getLists().filter(list => list.kind === 'collection'));
+      setTags(libraryListsService.getTags(item));
+      setAllTags(libraryListsService.getAllTags());
+    };
+    refresh();
+    setNewTag('');
+    setNewCollection('');
+    return libraryListsService.subscribe(refresh);
+  }, [visible, item]);
+
+  if (!item) return null;
+
+  const run = (action: Promise<unknown>) => {
+    action.catch(error => logger.error('[LibraryOrganize] Failed to update lists:', error));
+  };
+
+  const addTag = (tag: string) => {
+    if (!tag.trim()) return;
+    run(libraryListsService.setTags(item, [...tags, tag]));
+    setNewTag('');
+  };
+
+  const createCollection = async () => {
+    if (!newCollection.trim()) return;
+    try {
+      const list = await libraryListsService.createList(newCollection, 'collection');
+      await libraryListsService.setInCollection(list.id, item, true);
+      setNewCollection('');
+    } catch (error) {
+      logger.error('[LibraryOrganize] Failed to create collection:', error);
+    }
+  };
+
+  const suggestions = allTags.filter(tag => !tags.includes(tag));
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      supportedOrientations={['portrait', 'landscape']}
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <Pressable style={styles.overlayPressable} onPress={onClose} />
+        <View style={[styles.sheet, { backgroundColor: currentTheme.colors.elevation2 }]}>
+          <View style={styles.dragHandle} />
+          <Text style={[styles.title, { color: currentTheme.colors.highEmphasis }]} numberOfLines={1}>
+            {item.name}
+          </Text>
+          <ScrollView showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+            <Text style={[styles.sectionTitle, { color: currentTheme.colors.mediumEmphasis }]}>
+              {t('library.collections')}
+            </Text>
+            {collections.map(list => {
+              const included = list.itemKeys.includes(`${item.type}:${item.id}`);
+              return (
+                <TouchableOpacity
+                  key={list.id}
+                  style={styles.row}
+                  onPress={() => run(libraryListsService.setInCollection(list.id, item, !included))}
+                >
+                  <MaterialIcons
+                    name={included ? 'check-box' : 'check-box-outline-blank'}
+                    size={22}
+                    color={included ? currentTheme.colors.primary : currentTheme.colors.mediumEmphasis}
+                  />
+                  <Text style={[styles.rowText, { color: currentTheme.colors.highEmphasis }]}>{list.name}</Text>
+                </TouchableOpacity>
+              );
+            })}
+            <View style={styles.inputRow}>
+              <TextInput
+                style={[styles.input, { color: currentTheme.colors.text, borderColor: currentTheme.colors.elevation1 }]}
+                value={newCollection}
+                onChangeText={setNewCollection}
+                placeholder={t('library.new_collection_placeholder')}
+                placeholderTextColor={currentTheme.colors.mediumEmphasis}
+                onSubmitEditing={createCollection}
+                returnKeyType="done"
+              />
+              <TouchableOpacity style={styles.inputButton} onPress={createCollection}>
+                <MaterialIcons name="add" size={24} color={currentTheme.colors.primary} />
+              </TouchableOpacity>
+            </View>
+
+            <Text style={[styles.sectionTitle, { color: currentTheme.colors.mediumEmphasis }]}>
+              {t('library.tags')}
+            </Text>
+            <View style={styles.chipRow}>
+              {tags.map(tag => (
+                <TouchableOpacity
+                  key={tag}
+                  style={[styles.chip, { borderColor: currentTheme.colors.primary, backgroundColor: `${currentTheme.colors.primary}20` }]}
+                  onPress={() => run(libraryListsService.setTags(item, tags.filter(existing => existing !== tag)))}
+                >
+                  <Text style={[styles.chipText, { color: currentTheme.colors.primary }]}>{tag}</Text>
+                  <MaterialIcons name="close" size={14} color={currentTheme.colors.primary} />
+                </TouchableOpacity>
+              ))}
+              {suggestions.map(tag => (
+                <TouchableOpacity
+                  key={tag}
+                  style={[styles.chip, { borderColor: currentTheme.colors.elevation1 }]}
+                  onPress={() => addTag(tag)}
+                >
+                  <Text style={[styles.chipText, { color: currentTheme.colors.mediumEmphasis }]}>{tag}</Text>
+                  <MaterialIcons name="add" size={14} color={currentTheme.colors.mediumEmphasis} />
+                </TouchableOpacity>
+              ))}
+            </View>
+            <View style={styles.inputRow}>
+              <TextInput
+                style={[styles.input, { color: currentTheme.colors.text, borderColor: currentTheme.colors.elevation1 }]}
+                value={newTag}
+                onChangeText={setNewTag}
+                placeholder={t('library.new_tag_placeholder')}
+                placeholderTextColor={currentTheme.colors.mediumEmphasis}
+                autoCapitalize="none"
+                onSubmitEditing={() => addTag(newTag)}
+                returnKeyType="done"
+              />
+              <TouchableOpacity style={styles.inputButton} onPress={() => addTag(newTag)}>
+                <MaterialIcons name="add" size={24} color={currentTheme.colors.primary} />
+              </TouchableOpacity>
+            </View>
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0,0,0,0.6)',
+  },
+  overlayPressable: {
+    flex: 1,
+  },
+  sheet: {
+    maxHeight: '75%',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    paddingHorizontal: 20,
+    paddingBottom: 32,
+  },
+  dragHandle: {
+    width: 40,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: 'rgba(255,255,255,0.3)',
+    alignSelf: 'center',
+    marginTop: 12,
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+    marginBottom: 8,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+  },
+  rowText: {
+    fontSize: 16,
+    marginLeft: 12,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  input: {
+    flex: 1,
+    height: 44,
+    borderRadius: 8,
+    borderWidth: 1,
+    paddingHorizontal: 12,
+    fontSize: 15,
+  },
+  inputButton: {
+    padding: 10,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+});
+
+export default LibraryOrganizeModal;
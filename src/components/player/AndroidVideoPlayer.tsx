@@ -12,7 +12,14 @@ import {
   useSpeedControl,
   useOpeningAnimation,
   useWatchProgress,
-  useSkipSegments
+  useSkipSegments,
+  useTorrentResolution,
+  useSecondarySubtitles,
+  useLocalSubtitles,
+  useBingeMode,
+  useShowPlaybackPrefs,
+  useWatchParty,
+  usePlayerStats
 } from './hooks';
 
 // Android-specific hooks
@@ -37,13 +44,19 @@ import { SubtitleModals } from './modals/SubtitleModals';
 import { SubtitleSyncModal } from './modals/SubtitleSyncModal';
 import SpeedModal from './modals/SpeedModal';
 import { SubmitIntroModal } from './modals/SubmitIntroModal';
+import { SkipSegmentEditorModal } from './modals/SkipSegmentEditorModal';
+import { WatchPartyModal } from './modals/WatchPartyModal';
 import { SourcesModal } from './modals/SourcesModal';
 import { EpisodesModal } from './modals/EpisodesModal';
 import { EpisodeStreamsModal } from './modals/EpisodeStreamsModal';
 import { ErrorModal } from './modals/ErrorModal';
 import { CustomSubtitles } from './subtitles/CustomSubtitles';
+import { SecondarySubtitles } from './subtitles/SecondarySubtitles';
 import ParentalGuideOverlay from './overlays/ParentalGuideOverlay';
 import SkipIntroButton from './overlays/SkipIntroButton';
+import StillWatchingOverlay from './overlays/StillWatchingOverlay';
+import PlayerStatsOverlay from './overlays/PlayerStatsOverlay';
+import RestrictedContentOverlay from './overlays/RestrictedContentOverlay';
 import UpNextButton from './common/UpNextButton';
 import { CustomAlert } from '../CustomAlert';
 
@@ -55,13 +68,18 @@ import { MpvPlayerRef } from './android/MpvPlayer';
 // Utils
 import { logger } from '../../utils/logger';
 import { styles } from './utils/playerStyles';
-import { formatTime, isHlsStream, getHlsHeaders, defaultAndroidHeaders, parseSRT } from './utils/playerUtils';
-import { storageService } from '../../services/storageService';
-import stremioService from '../../services/stremioService';
+import { formatTime, isHlsStream, getHlsHeaders, defaultAndroidHeaders } from './utils/playerUtils';
+import { parseSubtitle, getActiveCues, getBottomCueText, areSameCues } from './utils/subtitleParser';
+import { scaleSubtitleCues } from './utils/subtitleSync';
+import { readSubtitleContent, isLocalSubtitleUri } from './utils/localSubtitles';
+import { storageService, TitleSubtitleChoice } from '../../services/storageService';
+import subtitleAggregatorService from '../../services/subtitleAggregatorService';
+import { getTorrentSource, isTorrentStream } from '../../services/torrentStreamService';
+import { stremioService } from '../../services/stremioService';
+import { Episode, Stream } from '../../types/metadata';
 import { WyzieSubtitle, SubtitleCue } from './utils/playerTypes';
-import { findBestSubtitleTrack, findBestAudioTrack } from './utils/trackSelectionUtils';
+import { findBestSubtitleTrack, findBestAudioTrack, normalizeLanguageCode } from './utils/trackSelectionUtils';
 import { useTheme } from '../../contexts/ThemeContext';
-import axios from 'axios';
 
 const DEBUG_MODE = false;
 
@@ -82,7 +100,7 @@ const AndroidVideoPlayer: React.FC = () => {
   const playerState = usePlayerState();
   const modals = usePlayerModals();
   const speedControl = useSpeedControl();
-  const { settings } = useSettings();
+  const { settings, isLoaded: settingsLoaded } = useSettings();
 
   const videoRef = useRef<any>(null);
   const mpvPlayerRef = useRef<MpvPlayerRef>(null);
@@ -90,7 +108,29 @@ const AndroidVideoPlayer: React.FC = () => {
   const pinchRef = useRef(null);
   const tracksHook = usePlayerTracks();
 
-  const [currentStreamUrl, setCurrentStreamUrl] = useState<string>(uri);
+  // Torrent streams are resolved to an HTTP URL before the surface mounts
+  const torrentResolution = useTorrentResolution({
+    uri,
+    torrent: route.params.torrent,
+    mode: settings.torrentResolverMode,
+    serverUrl: settings.torrentServerUrl,
+    enabled: settingsLoaded,
+  });
+
+  const [currentStreamUrl, setCurrentStreamUrl] = useState<string>(torrentResolution.streamUri);
+
+  useEffect(() => {
+    if (torrentResolution.streamUri) {
+      setCurrentStreamUrl(torrentResolution.streamUri);
+    }
+  }, [torrentResolution.streamUri]);
+
+  useEffect(() => {
+    if (torrentResolution.error) {
+      modals.setErrorDetails(torrentResolution.error);
+      modals.setShowErrorModal(true);
+    }
+  }, [torrentResolution.error]);
   const [currentVideoType, setCurrentVideoType] = useState<string | undefined>((route.params as any).videoType);
 
   const [availableStreams, setAvailableStreams] = useState<any>(passedAvailableStreams || {});
@@ -126,7 +166,17 @@ const AndroidVideoPlayer: React.FC = () => {
   const [useCustomSubtitles, setUseCustomSubtitles] = useState(false);
   const [customSubtitles, setCustomSubtitles] = useState<SubtitleCue[]>([]);
   const [currentSubtitle, setCurrentSubtitle] = useState<string>('');
+  const [activeSubtitleCues, setActiveSubtitleCues] = useState<SubtitleCue[]>([]);
+  const secondarySubs = useSecondarySubtitles(playerState.currentTime);
+  const localSubs = useLocalSubtitles({ uri, id, type, episodeId });
+  const showPrefs = useShowPlaybackPrefs({ id, type });
   const [selectedExternalSubtitleId, setSelectedExternalSubtitleId] = useState<string | null>(null);
+  const selectedExternalSubtitleRef = useRef<WyzieSubtitle | null>(null);
+  // Device files first: they are all there is for offline downloads
+  const subtitleCandidates = useMemo(
+    () => [...localSubs.localSubtitles, ...availableSubtitles],
+    [localSubs.localSubtitles, availableSubtitles]
+  );
 
   // Subtitle customization state
   const [subtitleSize, setSubtitleSize] = useState(28);
@@ -142,6 +192,9 @@ const AndroidVideoPlayer: React.FC = () => {
   const [subtitleLetterSpacing, setSubtitleLetterSpacing] = useState(0);
   const [subtitleLineHeightMultiplier, setSubtitleLineHeightMultiplier] = useState(1.2);
   const [subtitleOffsetSec, setSubtitleOffsetSec] = useState(0);
+  const [subtitleScale, setSubtitleScale] = useState(1);
+  // Set once the remembered subtitle for this title was looked up, so it is not overwritten first
+  const subtitleMemoryReady = useRef(false);
 
   // Subtitle sync modal state
   const [showSyncModal, setShowSyncModal] = useState(false);
@@ -176,6 +229,32 @@ const AndroidVideoPlayer: React.FC = () => {
   const [volume, setVolume] = useState(1.0);
   const setupHook = usePlayerSetup(playerState.setScreenDimensions, setVolume, playerState.paused);
 
+  // Used when a stream has to be picked without the user: binge mode and following a watch party host
+  const autoStreamOptions = {
+    excludedQualities: settings.excludedQualities || [],
+    excludedLanguages: settings.excludedLanguages || [],
+    rankingRules: settings.streamRankingEnabled ? settings.streamRankingRules || [] : [],
+    addonOrder: stremioService.getInstalledAddons().map(addon => addon.id),
+    preferredAddonId: showPrefs.prefs?.preferredProvider,
+  };
+
+  const watchPartyMedia = useMemo(
+    () => (id && type ? { id, type, episodeId, season, episode, title } : null),
+    [id, type, episodeId, season, episode, title]
+  );
+  const watchParty = useWatchParty({
+    media: watchPartyMedia,
+    currentTime: playerState.currentTime,
+    duration: playerState.duration,
+    paused: playerState.paused,
+    setPaused: playerState.setPaused,
+    seekToTime: (seconds) => controlsHook.seekToTime(seconds),
+    groupedEpisodes: groupedEpisodes || metadataResult.groupedEpisodes,
+    streamOptions: autoStreamOptions,
+    onFollowEpisode: (ep, stream) => playEpisodeStream(ep, stream),
+    onFollowError: (message) => toast.error(message),
+  });
+
   const controlsHook = usePlayerControls(
     mpvPlayerRef,
     playerState.paused,
@@ -185,7 +264,8 @@ const AndroidVideoPlayer: React.FC = () => {
     playerState.isSeeking,
     playerState.isMounted,
     exoPlayerRef,
-    useExoPlayer
+    useExoPlayer,
+    watchParty.handlePlaybackEvent
   );
 
   const traktAutosync = useTraktAutosync({
@@ -202,6 +282,22 @@ const AndroidVideoPlayer: React.FC = () => {
     episodeId: episodeId
   });
 
+  const selectedAudioTrackName = tracksHook.ksAudioTracks.find(t => t.id === tracksHook.computedSelectedAudioTrack)?.name;
+  const playerStats = usePlayerStats({
+    backend: useExoPlayer ? 'ExoPlayer' : 'MPV',
+    decoderMode: useExoPlayer ? undefined : settings.decoderMode,
+    uri: currentStreamUrl,
+    headers,
+    currentTime: playerState.currentTime,
+    buffered: playerState.buffered,
+    title,
+    season,
+    episode,
+    streamProvider: currentStreamProvider,
+    streamName: currentStreamName,
+    audioTrackName: selectedAudioTrackName,
+  });
+
   const watchProgress = useWatchProgress(
     id, type, episodeId,
     playerState.currentTime,
@@ -223,16 +319,41 @@ const AndroidVideoPlayer: React.FC = () => {
 
   const nextEpisodeHook = useNextEpisode(type, season, episode, groupedEpisodes, (metadataResult as any)?.groupedEpisodes, episodeId);
 
-  const { segments: skipIntervals, outroSegment } = useSkipSegments({
+  const skipSegments = useSkipSegments({
     imdbId: imdbId || (id?.startsWith('tt') ? id : undefined),
     type,
     season,
     episode,
     malId: (metadata as any)?.mal_id || (metadata as any)?.external_ids?.mal_id,
     kitsuId: id?.startsWith('kitsu:') ? id.split(':')[1] : undefined,
+    showId: id,
+    duration: playerState.duration,
     enabled: settings.skipIntroEnabled
   });
 
+  const binge = useBingeMode({
+    enabled: settings.bingeModeEnabled && type === 'series',
+    id,
+    nextEpisode: nextEpisodeHook.nextEpisode,
+    currentTime: playerState.currentTime,
+    duration: playerState.duration,
+    paused: playerState.paused,
+    creditsStartTime: skipSegments.creditsStartTime,
+    outroSegment: skipSegments.outroSegment,
+    secondsBeforeEnd: settings.bingeTriggerSecondsBeforeEnd,
+    stillWatchingAfter: settings.bingeStillWatchingAfter,
+    unattendedEpisodes: route.params.bingeCount ?? 0,
+    streamOptions: autoStreamOptions,
+    onAdvance: (stream, ep, count) => playEpisodeStream(ep, stream, count),
+  });
+
+  // Hold playback until someone answers
+  useEffect(() => {
+    if (binge.phase === 'still_watching') playerState.setPaused(true);
+    else if (binge.phase === 'failed') toast.error('No stream found for the next episode');
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [binge.phase]);
+
   const fadeAnim = useRef(new Animated.Value(1)).current;
 
   useEffect(() => {
@@ -376,7 +497,7 @@ const AndroidVideoPlayer: React.FC = () => {
         name: t.title || t.name || `Track ${i + 1}`,
         language: t.language
       }));
-      const bestAudioTrack = findBestAudioTrack(formatted, settings.preferredAudioLanguage);
+      const bestAudioTrack = findBestAudioTrack(formatted, settings.preferredAudioLanguage, showPrefs.prefsRef.current);
       if (bestAudioTrack !== null) {
         logger.debug(`[AndroidVideoPlayer] Auto-selecting audio track ${bestAudioTrack} for language: ${settings.preferredAudioLanguage}`);
         tracksHook.setSelectedAudioTrack({ type: 'index', value: bestAudioTrack });
@@ -387,7 +508,7 @@ const AndroidVideoPlayer: React.FC = () => {
     // Only auto-select internal tracks here if preference is 'internal' or 'any'
     // If preference is 'external', we wait for the useEffect to handle selection after external subs load
     if (data.textTracks && data.textTracks.length > 0 && !hasAutoSelectedTracks.current && settings?.enableSubtitleAutoSelect) {
-      const sourcePreference = settings?.subtitleSourcePreference || 'internal';
+      const sourcePreference = showPrefs.prefsRef.current?.subtitleSource || settings?.subtitleSourcePreference || 'internal';
 
       // Only pre-select internal if preference is internal or any
       if (sourcePreference === 'internal' || sourcePreference === 'any') {
@@ -403,7 +524,8 @@ const AndroidVideoPlayer: React.FC = () => {
             preferredSubtitleLanguage: settings?.preferredSubtitleLanguage || 'en',
             subtitleSourcePreference: sourcePreference,
             enableSubtitleAutoSelect: true
-          }
+          },
+          showPrefs.prefsRef.current
         );
 
         if (subtitleSelection.type === 'internal' && subtitleSelection.internalTrackId !== undefined) {
@@ -451,12 +573,12 @@ const AndroidVideoPlayer: React.FC = () => {
   // Auto-select subtitles when both internal tracks and video are loaded
   // This ensures we wait for internal tracks before falling back to external
   useEffect(() => {
-    if (!playerState.isVideoLoaded || hasAutoSelectedTracks.current || !settings?.enableSubtitleAutoSelect) {
+    if (!playerState.isVideoLoaded || hasAutoSelectedTracks.current || !settings?.enableSubtitleAutoSelect || !showPrefs.isLoaded) {
       return;
     }
 
     const internalTracks = tracksHook.ksTextTracks;
-    const externalSubs = availableSubtitles;
+    const externalSubs = subtitleCandidates;
 
     // Wait a short delay to ensure tracks are fully populated
     const timeoutId = setTimeout(() => {
@@ -469,7 +591,8 @@ const AndroidVideoPlayer: React.FC = () => {
           preferredSubtitleLanguage: settings?.preferredSubtitleLanguage || 'en',
           subtitleSourcePreference: settings?.subtitleSourcePreference || 'internal',
           enableSubtitleAutoSelect: true
-        }
+        },
+        showPrefs.prefsRef.current
       );
 
       // Trust the findBestSubtitleTrack function's decision - it already implements priority logic
@@ -485,7 +608,7 @@ const AndroidVideoPlayer: React.FC = () => {
     }, 500); // Short delay to ensure tracks are populated
 
     return () => clearTimeout(timeoutId);
-  }, [playerState.isVideoLoaded, tracksHook.ksTextTracks, availableSubtitles, settings]);
+  }, [playerState.isVideoLoaded, tracksHook.ksTextTracks, subtitleCandidates, settings, showPrefs.isLoaded]);
 
   // Sync custom subtitle text with current playback time
   useEffect(() => {
@@ -493,16 +616,18 @@ const AndroidVideoPlayer: React.FC = () => {
 
     // Apply timing offset for custom/addon subtitles (ExoPlayer internal subtitles do not support offset)
     const adjustedTime = playerState.currentTime + (subtitleOffsetSec || 0);
-    const cueNow = customSubtitles.find(cue => adjustedTime >= cue.start && adjustedTime <= cue.end);
-    setCurrentSubtitle(cueNow ? cueNow.text : '');
+    const activeNow = getActiveCues(customSubtitles, adjustedTime);
+    setActiveSubtitleCues(prev => areSameCues(prev, activeNow) ? prev : activeNow);
+    setCurrentSubtitle(getBottomCueText(activeNow));
   }, [playerState.currentTime, subtitleOffsetSec, useCustomSubtitles, customSubtitles]);
 
   const toggleControls = useCallback(() => {
+    binge.markInteraction();
     playerState.setShowControls(prev => {
       // If we're showing controls, the useEffect will handle the auto-hide timer
       return !prev;
     });
-  }, []);
+  }, [binge.markInteraction]);
 
   const hideControls = useCallback(() => {
     if (playerState.isDragging.current) return;
@@ -557,12 +682,13 @@ const AndroidVideoPlayer: React.FC = () => {
 
 
   const handleSelectStream = async (newStream: any) => {
-    if (newStream.url === currentStreamUrl) {
+    if (newStream.url === currentStreamUrl || newStream.url === uri) {
       modals.setShowSourcesModal(false);
       return;
     }
     modals.setShowSourcesModal(false);
     playerState.setPaused(true);
+    if (newStream.addonId) showPrefs.updatePrefs({ preferredProvider: newStream.addonId });
 
     // Unmount VideoSurface first to ensure MPV is fully destroyed
     setIsTransitioningStream(true);
@@ -576,6 +702,7 @@ const AndroidVideoPlayer: React.FC = () => {
       (navigation as any).replace('PlayerAndroid', {
         ...route.params,
         uri: newStream.url,
+        torrent: isTorrentStream(newStream) ? getTorrentSource(newStream) || undefined : undefined,
         quality: newQuality,
         streamProvider: newProvider,
         streamName: newStreamName,
@@ -585,16 +712,13 @@ const AndroidVideoPlayer: React.FC = () => {
     }, 300);
   };
 
-  const handleEpisodeStreamSelect = async (stream: any) => {
-    if (!modals.selectedEpisodeForStreams) return;
-    modals.setShowEpisodeStreamsModal(false);
+  // bingeCount carries the unattended episode streak into the next player instance
+  const playEpisodeStream = (ep: Episode, stream: Stream, bingeCount = 0) => {
     playerState.setPaused(true);
 
     // Unmount VideoSurface first to ensure MPV is fully destroyed
     setIsTransitioningStream(true);
 
-    const ep = modals.selectedEpisodeForStreams;
-
     const newQuality = stream.quality || (stream.title?.match(/(\d+)p/)?.[0]);
     const newProvider = stream.addonName || stream.name || stream.addon || 'Unknown';
     const newStreamName = stream.name || stream.title || 'Unknown Stream';
@@ -603,6 +727,7 @@ const AndroidVideoPlayer: React.FC = () => {
     setTimeout(() => {
       (navigation as any).replace('PlayerAndroid', {
         uri: stream.url,
+        torrent: isTorrentStream(stream) ? getTorrentSource(stream) || undefined : undefined,
         title: title,
         episodeTitle: ep.name,
         season: ep.season_number,
@@ -619,10 +744,18 @@ const AndroidVideoPlayer: React.FC = () => {
         backdrop: backdrop || undefined,
         availableStreams: {},
         groupedEpisodes: groupedEpisodes,
+        bingeCount: bingeCount || undefined,
       });
     }, 300);
   };
 
+  const handleEpisodeStreamSelect = async (stream: any) => {
+    if (!modals.selectedEpisodeForStreams) return;
+    modals.setShowEpisodeStreamsModal(false);
+    if (stream.addonId) showPrefs.updatePrefs({ preferredProvider: stream.addonId });
+    playEpisodeStream(modals.selectedEpisodeForStreams, stream);
+  };
+
   // Subtitle addon fetching
   const fetchAvailableSubtitles = useCallback(async () => {
     const targetImdbId = imdbId;
@@ -633,56 +766,57 @@ const AndroidVideoPlayer: React.FC = () => {
 
     setIsLoadingSubtitleList(true);
     try {
-      const stremioType = type === 'series' ? 'series' : 'movie';
-      const stremioVideoId = stremioType === 'series' && season && episode
-        ? `series:${targetImdbId}:${season}:${episode}`
-        : undefined;
-      const results = await stremioService.getSubtitles(stremioType, targetImdbId, stremioVideoId);
-
-      const subs: WyzieSubtitle[] = (results || []).map((sub: any) => ({
-        id: sub.id || `${sub.lang}-${sub.url}`,
-        url: sub.url,
-        flagUrl: '',
-        format: 'srt',
-        encoding: 'utf-8',
-        media: sub.addonName || sub.addon || '',
-        display: sub.lang || 'Unknown',
-        language: (sub.lang || '').toLowerCase(),
-        isHearingImpaired: false,
-        source: sub.addonName || sub.addon || 'Addon',
-      }));
+      // Ranked best-first, so auto-select picks the closest release in the preferred language
+      const subs = await subtitleAggregatorService.searchSubtitles({
+        type: type || 'movie',
+        imdbId: targetImdbId,
+        season,
+        episode,
+        releaseName: route.params.releaseName || currentStreamName,
+        preferredLanguage: settings?.preferredSubtitleLanguage,
+        preferHearingImpaired: settings?.preferHearingImpairedSubtitles,
+        includeWyzie: settings?.enableWyzieSubtitles,
+      });
 
       setAvailableSubtitles(subs);
-      logger.info(`[AndroidVideoPlayer] Fetched ${subs.length} addon subtitles`);
+      logger.info(`[AndroidVideoPlayer] Fetched ${subs.length} subtitles`);
       // Auto-selection is now handled by useEffect that waits for internal tracks
     } catch (e) {
       logger.error('[AndroidVideoPlayer] Error fetching addon subtitles', e);
     } finally {
       setIsLoadingSubtitleList(false);
     }
-  }, [imdbId, type, season, episode]);
+  }, [imdbId, type, season, episode, route.params.releaseName, currentStreamName, settings?.preferredSubtitleLanguage, settings?.preferHearingImpairedSubtitles, settings?.enableWyzieSubtitles]);
+
+  // Fetch ranked candidates up front so auto-select can pick an external subtitle
+  useEffect(() => {
+    if (imdbId && settingsLoaded && settings?.enableSubtitleAutoSelect) {
+      fetchAvailableSubtitles();
+    }
+    // Only on title change, not on every settings/stream-name update
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [imdbId, season, episode, settingsLoaded]);
 
-  const loadWyzieSubtitle = useCallback(async (subtitle: WyzieSubtitle) => {
-    if (!subtitle.url) return;
+  // `remembered` restores the timing saved for this title along with the subtitle
+  const loadWyzieSubtitle = useCallback(async (subtitle: WyzieSubtitle, remembered?: TitleSubtitleChoice): Promise<boolean> => {
+    if (!subtitle.url) return false;
 
     modals.setShowSubtitleModal(false);
     setIsLoadingSubtitles(true);
     try {
-      // Download subtitle file
-      let srtContent = '';
-      try {
-        const resp = await axios.get(subtitle.url, { timeout: 10000 });
-        srtContent = typeof resp.data === 'string' ? resp.data : String(resp.data);
-      } catch {
-        const resp = await fetch(subtitle.url);
-        srtContent = await resp.text();
-      }
+      // Download subtitle file (or read it from device storage)
+      const srtContent = await readSubtitleContent(subtitle.url);
 
       // Parse subtitle file
-      const parsedCues = parseSRT(srtContent);
+      const scale = remembered?.scale || 1;
+      const parsedCues = scaleSubtitleCues(parseSubtitle(srtContent, subtitle.url), scale);
+      const offsetSec = remembered ? remembered.offsetSec : subtitleOffsetSec;
       setCustomSubtitles(parsedCues);
       setUseCustomSubtitles(true);
+      setSubtitleScale(scale);
+      if (remembered) setSubtitleOffsetSec(offsetSec);
       setSelectedExternalSubtitleId(subtitle.id); // Track the selected external subtitle
+      selectedExternalSubtitleRef.current = subtitle;
 
       // Disable MPV's built-in subtitle track when using custom subtitles
       tracksHook.setSelectedTextTrack(-1);
@@ -691,43 +825,104 @@ const AndroidVideoPlayer: React.FC = () => {
       }
 
       // Set initial subtitle based on current time (+ any timing offset)
-      const adjustedTime = playerState.currentTime + (subtitleOffsetSec || 0);
-      const cueNow = parsedCues.find(cue => adjustedTime >= cue.start && adjustedTime <= cue.end);
-      setCurrentSubtitle(cueNow ? cueNow.text : '');
+      const adjustedTime = playerState.currentTime + (offsetSec || 0);
+      const activeNow = getActiveCues(parsedCues, adjustedTime);
+      setActiveSubtitleCues(activeNow);
+      setCurrentSubtitle(getBottomCueText(activeNow));
 
       logger.info(`[AndroidVideoPlayer] Loaded addon subtitle: ${subtitle.display} (${parsedCues.length} cues)`);
       toast.success(`Subtitle loaded: ${subtitle.display}`);
+      return true;
     } catch (e) {
       logger.error('[AndroidVideoPlayer] Error loading subtitle', e);
       toast.error('Failed to load subtitle');
+      return false;
     } finally {
       setIsLoadingSubtitles(false);
     }
   }, [modals, playerState.currentTime, subtitleOffsetSec, tracksHook]);
 
+  // Reapply the subtitle picked for this title last time, ahead of auto-select
+  useEffect(() => {
+    let cancelled = false;
+    subtitleMemoryReady.current = false;
+    localSubs.getRememberedSubtitle().then(async remembered => {
+      if (cancelled) return;
+      if (remembered) {
+        hasAutoSelectedTracks.current = true;
+        const restored = await loadWyzieSubtitle(remembered.subtitle, remembered);
+        // A remote subtitle cannot be fetched offline; let auto-select pick something else
+        if (!restored) hasAutoSelectedTracks.current = false;
+        else if (isLocalSubtitleUri(remembered.subtitle.url)) localSubs.addLocalSubtitle(remembered.subtitle);
+      }
+      subtitleMemoryReady.current = true;
+    });
+    return () => { cancelled = true; };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [id, type, episodeId]);
+
+  // Remember the external subtitle and its timing for this title
+  useEffect(() => {
+    const subtitle = selectedExternalSubtitleRef.current;
+    if (!subtitleMemoryReady.current || !useCustomSubtitles || !subtitle) return;
+    const timeoutId = setTimeout(() => localSubs.rememberSubtitle(subtitle, subtitleOffsetSec, subtitleScale), 500);
+    return () => clearTimeout(timeoutId);
+  }, [selectedExternalSubtitleId, subtitleOffsetSec, subtitleScale, useCustomSubtitles, localSubs.rememberSubtitle]);
+
+  const importLocalSubtitle = useCallback(async () => {
+    try {
+      const subtitle = await localSubs.importFromDevice();
+      if (subtitle) await loadWyzieSubtitle(subtitle);
+    } catch (e: any) {
+      logger.error('[AndroidVideoPlayer] Error importing subtitle', e);
+      toast.error(e?.message || 'Failed to import subtitle');
+    }
+  }, [localSubs.importFromDevice, loadWyzieSubtitle]);
+
   const disableCustomSubtitles = useCallback(() => {
     setUseCustomSubtitles(false);
     setCustomSubtitles([]);
     setCurrentSubtitle('');
+    setActiveSubtitleCues([]);
     setSelectedExternalSubtitleId(null); // Clear external selection
-  }, []);
+    selectedExternalSubtitleRef.current = null;
+    setSubtitleScale(1);
+    localSubs.forgetSubtitle();
+    showPrefs.updatePrefs({ subtitleSource: 'off' });
+  }, [localSubs.forgetSubtitle, showPrefs.updatePrefs]);
+
+  // Speed, resize mode and subtitle timing chosen earlier for this show
+  useEffect(() => {
+    const prefs = showPrefs.prefsRef.current;
+    if (!showPrefs.isLoaded || !prefs) return;
+    if (prefs.playbackSpeed) speedControl.setPlaybackSpeed(prefs.playbackSpeed);
+    if (prefs.resizeMode) playerState.setResizeMode(prefs.resizeMode);
+    if (prefs.subtitleOffsetSec !== undefined) setSubtitleOffsetSec(prefs.subtitleOffsetSec);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [showPrefs.isLoaded]);
+
+  const selectSubtitleFromModal = useCallback((subtitle: WyzieSubtitle) => {
+    showPrefs.updatePrefs({ subtitleSource: 'external', subtitleLanguage: normalizeLanguageCode(subtitle.language) || undefined });
+    loadWyzieSubtitle(subtitle);
+  }, [showPrefs.updatePrefs, loadWyzieSubtitle]);
+
+  const changeSubtitleOffset = useCallback((offsetSec: number) => {
+    setSubtitleOffsetSec(offsetSec);
+    showPrefs.updatePrefs({ subtitleOffsetSec: offsetSec });
+  }, [showPrefs.updatePrefs]);
+
+  const changePlaybackSpeed = useCallback((speed: number) => {
+    speedControl.setPlaybackSpeed(speed);
+    showPrefs.updatePrefs({ playbackSpeed: speed });
+  }, [speedControl.setPlaybackSpeed, showPrefs.updatePrefs]);
 
   const cycleResizeMode = useCallback(() => {
     gestureControls.showResizeModeOverlayFn(() => {
-      switch (playerState.resizeMode) {
-        case 'contain':
-          playerState.setResizeMode('cover');
-          break;
-        case 'cover':
-          playerState.setResizeMode('stretch');
-          break;
-        case 'stretch':
-        default:
-          playerState.setResizeMode('contain');
-          break;
-      }
+      const next = playerState.resizeMode === 'contain' ? 'cover' : playerState.resizeMode === 'cover' ? 'stretch' : 'contain';
+      playerState.setResizeMode(next);
+      showPrefs.updatePrefs({ resizeMode: next });
     });
-  }, [playerState.resizeMode, gestureControls.showResizeModeOverlayFn]);
+  }, [playerState.resizeMode, gestureControls.showResizeModeOverlayFn, showPrefs.updatePrefs]);
 
   // Memoize selectedTextTrack to prevent unnecessary re-renders
   const memoizedSelectedTextTrack = useMemo(() => {
@@ -736,6 +931,11 @@ const AndroidVideoPlayer: React.FC = () => {
       : { type: 'index' as const, value: tracksHook.selectedTextTrack };
   }, [tracksHook.selectedTextTrack]);
 
+  // Dual subtitles stack above the primary only when it is rendered by CustomSubtitles
+  const stackSecondarySubtitles = secondarySubs.isDualActive
+    && secondarySubs.dualSubtitleLayout === 'stacked'
+    && useCustomSubtitles;
+
   return (
     <View style={[styles.container, {
       position: 'absolute', top: 0, left: 0
@@ -750,10 +950,11 @@ const AndroidVideoPlayer: React.FC = () => {
         onClose={handleClose}
         width={playerState.screenDimensions.width}
         height={playerState.screenDimensions.height}
+        torrentProgress={torrentResolution.progress}
       />
 
       <View style={{ flex: 1, backgroundColor: 'black' }}>
-        {!isTransitioningStream && (
+        {!isTransitioningStream && !!currentStreamUrl && (
           <VideoSurface
             processedStreamUrl={currentStreamUrl}
             videoType={currentVideoType}
@@ -824,6 +1025,8 @@ const AndroidVideoPlayer: React.FC = () => {
             onPinchHandlerStateChange={() => { }}
             screenDimensions={playerState.screenDimensions}
             decoderMode={settings.decoderMode}
+            statsEnabled={playerStats.visible}
+            onStats={playerStats.reportStats}
             gpuMode={settings.gpuMode}
             // Dual video engine props
             useExoPlayer={useExoPlayer}
@@ -865,9 +1068,30 @@ const AndroidVideoPlayer: React.FC = () => {
           bottomOffset={subtitleBottomOffset}
           letterSpacing={subtitleLetterSpacing}
           lineHeightMultiplier={subtitleLineHeightMultiplier}
+          activeCues={activeSubtitleCues}
+          currentTime={playerState.currentTime + (subtitleOffsetSec || 0)}
           controlsVisible={playerState.showControls}
           controlsExtraOffset={100}
+          stackedContent={stackSecondarySubtitles ? (
+            <SecondarySubtitles
+              secondary={secondarySubs}
+              inline
+              align={subtitleAlign}
+              letterSpacing={subtitleLetterSpacing}
+              lineHeightMultiplier={subtitleLineHeightMultiplier}
+            />
+          ) : undefined}
         />
+        {secondarySubs.isDualActive && !stackSecondarySubtitles && (
+          <SecondarySubtitles
+            secondary={secondarySubs}
+            align={subtitleAlign}
+            letterSpacing={subtitleLetterSpacing}
+            lineHeightMultiplier={subtitleLineHeightMultiplier}
+            controlsVisible={playerState.showControls}
+            controlsExtraOffset={60}
+          />
+        )}
         <GestureControls
           screenDimensions={playerState.screenDimensions}
           gestureControls={gestureControls}
@@ -923,13 +1147,18 @@ const AndroidVideoPlayer: React.FC = () => {
             const speeds = [0.5, 1, 1.25, 1.5, 2];
             const idx = speeds.indexOf(speedControl.playbackSpeed);
             const next = speeds[(idx + 1) % speeds.length];
-            speedControl.setPlaybackSpeed(next);
+            changePlaybackSpeed(next);
           }}
           currentPlaybackSpeed={speedControl.playbackSpeed}
           setShowAudioModal={modals.setShowAudioModal}
           setShowSubtitleModal={modals.setShowSubtitleModal}
           setShowSpeedModal={modals.setShowSpeedModal}
           setShowSubmitIntroModal={modals.setShowSubmitIntroModal}
+          setShowSkipEditorModal={modals.setShowSkipEditorModal}
+          setShowWatchPartyModal={modals.setShowWatchPartyModal}
+          isWatchPartyActive={watchParty.isActive}
+          onToggleStats={playerStats.toggle}
+          isStatsVisible={playerStats.visible}
           isSubtitleModalOpen={modals.showSubtitleModal}
           setShowSourcesModal={modals.setShowSourcesModal}
           setShowEpisodesModal={type === 'series' ? modals.setShowEpisodesModal : undefined}
@@ -986,7 +1215,7 @@ const AndroidVideoPlayer: React.FC = () => {
           episode={episode}
           malId={(metadata as any)?.mal_id || (metadata as any)?.external_ids?.mal_id}
           kitsuId={id?.startsWith('kitsu:') ? id.split(':')[1] : undefined}
-          skipIntervals={skipIntervals}
+          skipIntervals={skipSegments.segments}
           currentTime={playerState.currentTime}
           onSkip={(endTime) => controlsHook.seekToTime(endTime)}
           controlsVisible={playerState.showControls}
@@ -1000,11 +1229,15 @@ const AndroidVideoPlayer: React.FC = () => {
           currentTime={playerState.currentTime}
           duration={playerState.duration}
           insets={insets}
-          isLoading={false}
-          nextLoadingProvider={null}
+          isLoading={binge.isCountingDown}
+          nextLoadingProvider={binge.nextStream ? binge.nextStream.addonName || binge.nextStream.name || null : null}
           nextLoadingQuality={null}
           nextLoadingTitle={null}
           onPress={() => {
+            if (binge.isCountingDown) {
+              binge.playNow();
+              return;
+            }
             if (nextEpisodeHook.nextEpisode) {
               logger.log(`[AndroidVideoPlayer] Opening streams for next episode: S${nextEpisodeHook.nextEpisode.season_number}E${nextEpisodeHook.nextEpisode.episode_number}`);
               modals.setSelectedEpisodeForStreams(nextEpisodeHook.nextEpisode);
@@ -1014,8 +1247,40 @@ const AndroidVideoPlayer: React.FC = () => {
           metadata={metadataResult?.metadata ? { poster: metadataResult.metadata.poster, id: metadataResult.metadata.id } : undefined}
           controlsVisible={playerState.showControls}
           controlsFixedOffset={100}
-          outroSegment={outroSegment}
+          outroSegment={skipSegments.outroSegment}
+          creditsStartTime={skipSegments.creditsStartTime}
+          bingeCountdown={binge.isCountingDown ? binge.countdown : null}
+          onCancelBinge={binge.cancel}
+        />
+
+        <StillWatchingOverlay
+          visible={binge.phase === 'still_watching'}
+          episodesWatched={(route.params.bingeCount ?? 0) + 1}
+          onContinue={binge.continueWatching}
+          onStop={binge.cancel}
         />
+
+        <PlayerStatsOverlay
+          visible={playerStats.visible}
+          stats={playerStats.stats}
+          backend={useExoPlayer ? 'ExoPlayer' : 'MPV'}
+          decoderMode={useExoPlayer ? undefined : settings.decoderMode}
+          source={[currentStreamProvider, currentStreamName].filter(Boolean).join(' · ') || undefined}
+          audioTrackName={selectedAudioTrackName}
+          buildReport={playerStats.buildReport}
+          onClose={() => playerStats.setVisible(false)}
+        />
+
+        {id && type && (
+          <RestrictedContentOverlay
+            content={{ id, type, imdbId }}
+            season={season}
+            episode={episode}
+            onHold={() => playerState.setPaused(true)}
+            onRelease={() => playerState.setPaused(false)}
+            onExit={handleClose}
+          />
+        )}
       </View>
 
       <AudioTrackModal
@@ -1029,6 +1294,10 @@ const AndroidVideoPlayer: React.FC = () => {
           if (trackId !== null && mpvPlayerRef.current) {
             mpvPlayerRef.current.setAudioTrack(trackId);
           }
+          const track = tracksHook.ksAudioTracks.find(t => t.id === trackId);
+          if (track) {
+            showPrefs.updatePrefs({ audioLanguage: normalizeLanguageCode(track.language) || undefined, audioTrackName: track.name });
+          }
         }}
       />
 
@@ -1040,7 +1309,7 @@ const AndroidVideoPlayer: React.FC = () => {
         isLoadingSubtitleList={isLoadingSubtitleList}
         isLoadingSubtitles={isLoadingSubtitles}
         customSubtitles={[]}
-        availableSubtitles={availableSubtitles}
+        availableSubtitles={subtitleCandidates}
         ksTextTracks={tracksHook.ksTextTracks}
         selectedTextTrack={tracksHook.computedSelectedTextTrack}
         useCustomSubtitles={useCustomSubtitles}
@@ -1049,8 +1318,12 @@ const AndroidVideoPlayer: React.FC = () => {
         subtitleSize={subtitleSize}
         subtitleBackground={subtitleBackground}
         fetchAvailableSubtitles={fetchAvailableSubtitles}
-        loadWyzieSubtitle={loadWyzieSubtitle}
+        loadWyzieSubtitle={selectSubtitleFromModal}
         selectTextTrack={(trackId) => {
+          const track = tracksHook.ksTextTracks.find(t => t.id === trackId);
+          showPrefs.updatePrefs(track
+            ? { subtitleSource: 'internal', subtitleLanguage: normalizeLanguageCode(track.language) || undefined }
+            : { subtitleSource: 'off' });
           tracksHook.setSelectedTextTrack(trackId);
           // For MPV, manually switch the subtitle track
           if (!useExoPlayer && mpvPlayerRef.current) {
@@ -1060,6 +1333,7 @@ const AndroidVideoPlayer: React.FC = () => {
           // which triggers a re-render with the new track selection
           // Disable custom subtitles when selecting built-in track
           setUseCustomSubtitles(false);
+          localSubs.forgetSubtitle();
           modals.setShowSubtitleModal(false);
         }}
         disableCustomSubtitles={disableCustomSubtitles}
@@ -1087,19 +1361,31 @@ const AndroidVideoPlayer: React.FC = () => {
         subtitleLineHeightMultiplier={subtitleLineHeightMultiplier}
         setSubtitleLineHeightMultiplier={setSubtitleLineHeightMultiplier}
         subtitleOffsetSec={subtitleOffsetSec}
-        setSubtitleOffsetSec={setSubtitleOffsetSec}
+        setSubtitleOffsetSec={changeSubtitleOffset}
         selectedExternalSubtitleId={selectedExternalSubtitleId}
         onOpenSyncModal={() => setShowSyncModal(true)}
+        secondarySubtitles={secondarySubs}
+        onImportSubtitle={importLocalSubtitle}
+        isImportingSubtitle={localSubs.isImporting}
       />
 
       {/* Visual Subtitle Sync Modal */}
       <SubtitleSyncModal
         visible={showSyncModal}
         onClose={() => setShowSyncModal(false)}
-        onConfirm={(offset) => setSubtitleOffsetSec(offset)}
+        onConfirm={(offset, scale) => {
+          // Framerate correction is baked into the cues; the offset stays adjustable
+          if (scale !== 1) {
+            setCustomSubtitles(prev => scaleSubtitleCues(prev, scale));
+            setSubtitleScale(prev => prev * scale);
+          }
+          changeSubtitleOffset(offset);
+        }}
         currentOffset={subtitleOffsetSec}
         currentTime={playerState.currentTime}
         subtitles={customSubtitles}
+        referenceSubtitles={subtitleCandidates.filter(sub => sub.id !== selectedExternalSubtitleId)}
+        videoDuration={playerState.duration}
         primaryColor={currentTheme.colors.primary}
       />
 
@@ -1115,7 +1401,7 @@ const AndroidVideoPlayer: React.FC = () => {
         showSpeedModal={modals.showSpeedModal}
         setShowSpeedModal={modals.setShowSpeedModal}
         currentSpeed={speedControl.playbackSpeed}
-        setPlaybackSpeed={speedControl.setPlaybackSpeed}
+        setPlaybackSpeed={changePlaybackSpeed}
         holdToSpeedEnabled={speedControl.holdToSpeedEnabled}
         setHoldToSpeedEnabled={speedControl.setHoldToSpeedEnabled}
         holdToSpeedValue={speedControl.holdToSpeedValue}
@@ -1131,6 +1417,25 @@ const AndroidVideoPlayer: React.FC = () => {
         episode={episode}
       />
 
+      <SkipSegmentEditorModal
+        visible={modals.showSkipEditorModal}
+        onClose={() => modals.setShowSkipEditorModal(false)}
+        currentTime={playerState.currentTime}
+        duration={playerState.duration}
+        showId={id}
+        season={season}
+        episode={episode}
+        episodeSegments={skipSegments.episodeSegments}
+        showDefaults={skipSegments.showDefaults}
+        onChanged={skipSegments.refreshLocalSegments}
+      />
+
+      <WatchPartyModal
+        visible={modals.showWatchPartyModal}
+        onClose={() => modals.setShowWatchPartyModal(false)}
+        session={watchParty.session}
+      />
+
       <EpisodesModal
         showEpisodesModal={modals.showEpisodesModal}
         setShowEpisodesModal={modals.setShowEpisodesModal}
@@ -1,8 +1,8 @@
-import React, { useEffect, useRef, useState, useCallback } from 'react';
+import React, { useEffect, useRef, useState, useCallback, useMemo } from 'react';
 import { View, StatusBar, StyleSheet, Animated, Dimensions, ActivityIndicator } from 'react-native';
 import { useNavigation, useRoute } from '@react-navigation/native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
-import axios from 'axios';
+import { toast } from '@backpackapp-io/react-native-toast';
 
 // Shared Components
 import LoadingOverlay from './modals/LoadingOverlay';
@@ -11,6 +11,8 @@ import { PlayerControls } from './controls/PlayerControls';
 import AudioTrackModal from './modals/AudioTrackModal';
 import SpeedModal from './modals/SpeedModal';
 import { SubmitIntroModal } from './modals/SubmitIntroModal';
+import { SkipSegmentEditorModal } from './modals/SkipSegmentEditorModal';
+import { WatchPartyModal } from './modals/WatchPartyModal';
 import SubtitleModals from './modals/SubtitleModals';
 import { SubtitleSyncModal } from './modals/SubtitleSyncModal';
 import SourcesModal from './modals/SourcesModal';
@@ -18,9 +20,13 @@ import EpisodesModal from './modals/EpisodesModal';
 import { EpisodeStreamsModal } from './modals/EpisodeStreamsModal';
 import { ErrorModal } from './modals/ErrorModal';
 import CustomSubtitles from './subtitles/CustomSubtitles';
+import SecondarySubtitles from './subtitles/SecondarySubtitles';
 import ResumeOverlay from './modals/ResumeOverlay';
 import ParentalGuideOverlay from './overlays/ParentalGuideOverlay';
 import SkipIntroButton from './overlays/SkipIntroButton';
+import StillWatchingOverlay from './overlays/StillWatchingOverlay';
+import PlayerStatsOverlay from './overlays/PlayerStatsOverlay';
+import RestrictedContentOverlay from './overlays/RestrictedContentOverlay';
 import { SpeedActivatedOverlay, PauseOverlay, GestureControls } from './components';
 
 // Platform-specific components
@@ -33,11 +39,18 @@ import {
   useOpeningAnimation,
   usePlayerTracks,
   useCustomSubtitles,
+  useSecondarySubtitles,
+  useLocalSubtitles,
   usePlayerControls,
   usePlayerSetup,
   useWatchProgress,
   useNextEpisode,
-  useSkipSegments
+  useSkipSegments,
+  useTorrentResolution,
+  useBingeMode,
+  useShowPlaybackPrefs,
+  useWatchParty,
+  usePlayerStats
 } from './hooks';
 
 // Platform-specific hooks
@@ -47,14 +60,20 @@ import { useKSPlayer } from './ios/hooks/useKSPlayer';
 import { useTraktAutosync } from '../../hooks/useTraktAutosync';
 import { useMetadata } from '../../hooks/useMetadata';
 import { usePlayerGestureControls } from '../../hooks/usePlayerGestureControls';
-import stremioService from '../../services/stremioService';
+import subtitleAggregatorService from '../../services/subtitleAggregatorService';
+import { TitleSubtitleChoice } from '../../services/storageService';
+import { getTorrentSource, isTorrentStream, TorrentSource } from '../../services/torrentStreamService';
+import { stremioService } from '../../services/stremioService';
+import { Episode, Stream } from '../../types/metadata';
 import { logger } from '../../utils/logger';
 
 // Utils
 import { formatTime } from './utils/playerUtils';
 import { WyzieSubtitle } from './utils/playerTypes';
-import { parseSRT } from './utils/subtitleParser';
-import { findBestSubtitleTrack, autoSelectAudioTrack, findBestAudioTrack } from './utils/trackSelectionUtils';
+import { parseSubtitle, getActiveCues, getBottomCueText, areSameCues } from './utils/subtitleParser';
+import { scaleSubtitleCues } from './utils/subtitleSync';
+import { readSubtitleContent, isLocalSubtitleUri } from './utils/localSubtitles';
+import { findBestSubtitleTrack, autoSelectAudioTrack, findBestAudioTrack, normalizeLanguageCode } from './utils/trackSelectionUtils';
 import { useSettings } from '../../hooks/useSettings';
 import { useTheme } from '../../contexts/ThemeContext';
 
@@ -69,6 +88,7 @@ interface PlayerRouteParams {
   year?: number;
   streamProvider?: string;
   streamName?: string;
+  releaseName?: string;
   videoType?: string;
   id: string;
   type: string;
@@ -78,6 +98,8 @@ interface PlayerRouteParams {
   availableStreams?: { [providerId: string]: { streams: any[]; addonName: string } };
   headers?: Record<string, string>;
   initialPosition?: number;
+  torrent?: TorrentSource;
+  bingeCount?: number; // Episodes binge mode played in a row without interaction
 }
 
 const KSPlayerCore: React.FC = () => {
@@ -173,9 +195,37 @@ const KSPlayerCore: React.FC = () => {
   const tracks = usePlayerTracks();
   const { ksPlayerRef, seek } = useKSPlayer();
   const customSubs = useCustomSubtitles();
-  const { settings } = useSettings();
+  const secondarySubs = useSecondarySubtitles(currentTime);
+  const localSubs = useLocalSubtitles({ uri, id, type, episodeId });
+  const showPrefs = useShowPlaybackPrefs({ id, type });
+  const { settings, isLoaded: settingsLoaded } = useSettings();
+  // Device files first: they are all there is for offline downloads
+  const subtitleCandidates = useMemo(
+    () => [...localSubs.localSubtitles, ...customSubs.availableSubtitles],
+    [localSubs.localSubtitles, customSubs.availableSubtitles]
+  );
+  const selectedExternalSubtitleRef = useRef<WyzieSubtitle | null>(null);
+  const [subtitleScale, setSubtitleScale] = useState(1);
+  // Set once the remembered subtitle for this title was looked up, so it is not overwritten first
+  const subtitleMemoryReady = useRef(false);
   const { currentTheme } = useTheme();
 
+  // Torrent streams are resolved to an HTTP URL before the surface mounts
+  const torrentResolution = useTorrentResolution({
+    uri,
+    torrent: params.torrent,
+    mode: settings.torrentResolverMode,
+    serverUrl: settings.torrentServerUrl,
+    enabled: settingsLoaded,
+  });
+
+  useEffect(() => {
+    if (torrentResolution.error) {
+      modals.setErrorDetails(torrentResolution.error);
+      modals.setShowErrorModal(true);
+    }
+  }, [torrentResolution.error]);
+
   // Subtitle sync modal state
   const [showSyncModal, setShowSyncModal] = useState(false);
 
@@ -210,16 +260,67 @@ const KSPlayerCore: React.FC = () => {
     episodeId
   });
 
-  const { segments: skipIntervals, outroSegment } = useSkipSegments({
+  const skipSegments = useSkipSegments({
     imdbId: imdbId || (id?.startsWith('tt') ? id : undefined),
     type,
     season,
     episode,
     malId: (metadata as any)?.mal_id || (metadata as any)?.external_ids?.mal_id,
     kitsuId: id?.startsWith('kitsu:') ? id.split(':')[1] : undefined,
+    showId: id,
+    duration,
     enabled: settings.skipIntroEnabled
   });
 
+  // Used when a stream has to be picked without the user: binge mode and following a watch party host
+  const autoStreamOptions = {
+    excludedQualities: settings.excludedQualities || [],
+    excludedLanguages: settings.excludedLanguages || [],
+    rankingRules: settings.streamRankingEnabled ? settings.streamRankingRules || [] : [],
+    addonOrder: stremioService.getInstalledAddons().map(addon => addon.id),
+    preferredAddonId: showPrefs.prefs?.preferredProvider,
+  };
+
+  const binge = useBingeMode({
+    enabled: settings.bingeModeEnabled && type === 'series',
+    id,
+    nextEpisode,
+    currentTime,
+    duration,
+    paused,
+    creditsStartTime: skipSegments.creditsStartTime,
+    outroSegment: skipSegments.outroSegment,
+    secondsBeforeEnd: settings.bingeTriggerSecondsBeforeEnd,
+    stillWatchingAfter: settings.bingeStillWatchingAfter,
+    unattendedEpisodes: params.bingeCount ?? 0,
+    streamOptions: autoStreamOptions,
+    onAdvance: (stream, ep, count) => playEpisodeStream(ep, stream, count),
+  });
+
+  // Hold playback until someone answers
+  useEffect(() => {
+    if (binge.phase === 'still_watching') setPaused(true);
+    else if (binge.phase === 'failed') toast.error('No stream found for the next episode');
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [binge.phase]);
+
+  const watchPartyMedia = useMemo(
+    () => (id && type ? { id, type, episodeId, season, episode, title } : null),
+    [id, type, episodeId, season, episode, title]
+  );
+  const watchParty = useWatchParty({
+    media: watchPartyMedia,
+    currentTime,
+    duration,
+    paused,
+    setPaused,
+    seekToTime: (seconds) => controls.seekToTime(seconds),
+    groupedEpisodes: groupedEpisodes,
+    streamOptions: autoStreamOptions,
+    onFollowEpisode: (ep, stream) => playEpisodeStream(ep, stream),
+    onFollowError: (message) => toast.error(message),
+  });
+
   const controls = usePlayerControls({
     playerRef: ksPlayerRef,
     paused,
@@ -227,7 +328,23 @@ const KSPlayerCore: React.FC = () => {
     currentTime,
     duration,
     isSeeking,
-    isMounted
+    isMounted,
+    onPlaybackEvent: watchParty.handlePlaybackEvent
+  });
+
+  const selectedAudioTrackName = tracks.ksAudioTracks.find(t => t.id === tracks.selectedAudioTrack)?.name;
+  const playerStats = usePlayerStats({
+    backend: 'KSAVPlayer',
+    uri,
+    headers,
+    currentTime,
+    buffered,
+    title,
+    season,
+    episode,
+    streamProvider,
+    streamName,
+    audioTrackName: selectedAudioTrackName,
   });
 
   const watchProgress = useWatchProgress(
@@ -281,6 +398,7 @@ const KSPlayerCore: React.FC = () => {
 
   // Toggle controls wrapper
   const toggleControls = useCallback(() => {
+    binge.markInteraction();
     if (controlsTimeout.current) {
       clearTimeout(controlsTimeout.current);
       controlsTimeout.current = null;
@@ -298,7 +416,7 @@ const KSPlayerCore: React.FC = () => {
       }
       return next;
     });
-  }, [fadeAnim, hideControls, setShowControls, paused]);
+  }, [fadeAnim, hideControls, setShowControls, paused, binge.markInteraction]);
 
   // Auto-hide controls when playback resumes
   useEffect(() => {
@@ -329,22 +447,17 @@ const KSPlayerCore: React.FC = () => {
 
     customSubs.setIsLoadingSubtitleList(true);
     try {
-      const stremioType = type === 'series' ? 'series' : 'movie';
-      const stremioVideoId = stremioType === 'series' && season && episode ? `series:${targetImdbId}:${season}:${episode}` : undefined;
-      const results = await stremioService.getSubtitles(stremioType, targetImdbId, stremioVideoId);
-
-      const subs: WyzieSubtitle[] = (results || []).map((sub: any) => ({
-        id: sub.id || `${sub.lang}-${sub.url}`,
-        url: sub.url,
-        flagUrl: '',
-        format: 'srt',
-        encoding: 'utf-8',
-        media: sub.addonName || sub.addon || '',
-        display: sub.lang || 'Unknown',
-        language: (sub.lang || '').toLowerCase(),
-        isHearingImpaired: false,
-        source: sub.addonName || sub.addon || 'Addon',
-      }));
+      // Ranked best-first, so auto-select picks the closest release in the preferred language
+      const subs = await subtitleAggregatorService.searchSubtitles({
+        type,
+        imdbId: targetImdbId,
+        season,
+        episode,
+        releaseName: params.releaseName || streamName,
+        preferredLanguage: settings?.preferredSubtitleLanguage,
+        preferHearingImpaired: settings?.preferHearingImpairedSubtitles,
+        includeWyzie: settings?.enableWyzieSubtitles,
+      });
 
       customSubs.setAvailableSubtitles(subs);
       // Auto-selection is now handled by useEffect that waits for internal tracks
@@ -356,51 +469,114 @@ const KSPlayerCore: React.FC = () => {
     }
   };
 
-  const loadWyzieSubtitle = async (subtitle: WyzieSubtitle) => {
+  // `remembered` restores the timing saved for this title along with the subtitle
+  const loadWyzieSubtitle = async (subtitle: WyzieSubtitle, remembered?: TitleSubtitleChoice): Promise<boolean> => {
     modals.setShowSubtitleLanguageModal(false);
     customSubs.setIsLoadingSubtitles(true);
     try {
-      let srtContent = '';
-      try {
-        const resp = await axios.get(subtitle.url, { timeout: 10000 });
-        srtContent = typeof resp.data === 'string' ? resp.data : String(resp.data);
-      } catch {
-        const resp = await fetch(subtitle.url);
-        srtContent = await resp.text();
-      }
-      const parsedCues = parseSRT(srtContent);
+      const srtContent = await readSubtitleContent(subtitle.url);
+      const scale = remembered?.scale || 1;
+      const parsedCues = scaleSubtitleCues(parseSubtitle(srtContent, subtitle.url), scale);
+      const offsetSec = remembered ? remembered.offsetSec : customSubs.subtitleOffsetSec;
       customSubs.setCustomSubtitles(parsedCues);
       customSubs.setUseCustomSubtitles(true);
+      setSubtitleScale(scale);
+      if (remembered) customSubs.setSubtitleOffsetSec(offsetSec);
       customSubs.setSelectedExternalSubtitleId(subtitle.id); // Track the selected external subtitle
+      selectedExternalSubtitleRef.current = subtitle;
       tracks.selectTextTrack(-1);
 
-      const adjustedTime = currentTime + (customSubs.subtitleOffsetSec || 0);
-      const cueNow = parsedCues.find(cue => adjustedTime >= cue.start && adjustedTime <= cue.end);
-      customSubs.setCurrentSubtitle(cueNow ? cueNow.text : '');
-
+      const adjustedTime = currentTime + (offsetSec || 0);
+      const activeNow = getActiveCues(parsedCues, adjustedTime);
+      customSubs.setActiveCues(activeNow);
+      customSubs.setCurrentSubtitle(getBottomCueText(activeNow));
+      return true;
     } catch (e) {
       logger.error('[VideoPlayer] Error loading wyzie', e);
+      return false;
     } finally {
       customSubs.setIsLoadingSubtitles(false);
     }
   };
 
-  // Auto-fetch subtitles on load
+  // Reapply the subtitle picked for this title last time, ahead of auto-select
+  useEffect(() => {
+    let cancelled = false;
+    subtitleMemoryReady.current = false;
+    localSubs.getRememberedSubtitle().then(async remembered => {
+      if (cancelled) return;
+      if (remembered) {
+        hasAutoSelectedTracks.current = true;
+        const restored = await loadWyzieSubtitle(remembered.subtitle, remembered);
+        // A remote subtitle cannot be fetched offline; let auto-select pick something else
+        if (!restored) hasAutoSelectedTracks.current = false;
+        else if (isLocalSubtitleUri(remembered.subtitle.url)) localSubs.addLocalSubtitle(remembered.subtitle);
+      }
+      subtitleMemoryReady.current = true;
+    });
+    return () => { cancelled = true; };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [id, type, episodeId]);
+
+  // Remember the external subtitle and its timing for this title
+  useEffect(() => {
+    const subtitle = selectedExternalSubtitleRef.current;
+    if (!subtitleMemoryReady.current || !customSubs.useCustomSubtitles || !subtitle) return;
+    const timeoutId = setTimeout(() => localSubs.rememberSubtitle(subtitle, customSubs.subtitleOffsetSec, subtitleScale), 500);
+    return () => clearTimeout(timeoutId);
+  }, [customSubs.selectedExternalSubtitleId, customSubs.subtitleOffsetSec, subtitleScale, customSubs.useCustomSubtitles, localSubs.rememberSubtitle]);
+
+  // Speed, resize mode and subtitle timing chosen earlier for this show
   useEffect(() => {
-    if (imdbId) {
+    const prefs = showPrefs.prefsRef.current;
+    if (!showPrefs.isLoaded || !prefs) return;
+    if (prefs.playbackSpeed) speedControl.setPlaybackSpeed(prefs.playbackSpeed);
+    if (prefs.resizeMode) setResizeMode(prefs.resizeMode);
+    if (prefs.subtitleOffsetSec !== undefined) customSubs.setSubtitleOffsetSec(prefs.subtitleOffsetSec);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [showPrefs.isLoaded]);
+
+  const selectSubtitleFromModal = (subtitle: WyzieSubtitle) => {
+    showPrefs.updatePrefs({ subtitleSource: 'external', subtitleLanguage: normalizeLanguageCode(subtitle.language) || undefined });
+    loadWyzieSubtitle(subtitle);
+  };
+
+  const changeSubtitleOffset = (offsetSec: number) => {
+    customSubs.setSubtitleOffsetSec(offsetSec);
+    showPrefs.updatePrefs({ subtitleOffsetSec: offsetSec });
+  };
+
+  const changePlaybackSpeed = (speed: number) => {
+    speedControl.setPlaybackSpeed(speed);
+    showPrefs.updatePrefs({ playbackSpeed: speed });
+  };
+
+  const importLocalSubtitle = async () => {
+    try {
+      const subtitle = await localSubs.importFromDevice();
+      if (subtitle) await loadWyzieSubtitle(subtitle);
+    } catch (e: any) {
+      logger.error('[KSPlayerCore] Error importing subtitle', e);
+      toast.error(e?.message || 'Failed to import subtitle');
+    }
+  };
+
+  // Auto-fetch subtitles on load (after settings, which drive the ranking)
+  useEffect(() => {
+    if (imdbId && settingsLoaded) {
       fetchAvailableSubtitles(undefined, true);
     }
-  }, [imdbId]);
+  }, [imdbId, settingsLoaded]);
 
   // Auto-select subtitles when both internal tracks and video are loaded
   // This ensures we wait for internal tracks before falling back to external
   useEffect(() => {
-    if (!isVideoLoaded || hasAutoSelectedTracks.current || !settings?.enableSubtitleAutoSelect) {
+    if (!isVideoLoaded || hasAutoSelectedTracks.current || !settings?.enableSubtitleAutoSelect || !showPrefs.isLoaded) {
       return;
     }
 
     const internalTracks = tracks.ksTextTracks;
-    const externalSubs = customSubs.availableSubtitles;
+    const externalSubs = subtitleCandidates;
 
     // Wait a short delay to ensure tracks are fully populated
     const timeoutId = setTimeout(() => {
@@ -413,7 +589,8 @@ const KSPlayerCore: React.FC = () => {
           preferredSubtitleLanguage: settings?.preferredSubtitleLanguage || 'en',
           subtitleSourcePreference: settings?.subtitleSourcePreference || 'internal',
           enableSubtitleAutoSelect: true
-        }
+        },
+        showPrefs.prefsRef.current
       );
 
       // Trust the findBestSubtitleTrack function's decision - it already implements priority logic
@@ -429,17 +606,17 @@ const KSPlayerCore: React.FC = () => {
     }, 500); // Short delay to ensure tracks are populated
 
     return () => clearTimeout(timeoutId);
-  }, [isVideoLoaded, tracks.ksTextTracks, customSubs.availableSubtitles, settings]);
+  }, [isVideoLoaded, tracks.ksTextTracks, subtitleCandidates, settings, showPrefs.isLoaded]);
 
   // Sync custom subtitle text with current playback time
   useEffect(() => {
     if (!customSubs.useCustomSubtitles || customSubs.customSubtitles.length === 0) return;
 
     const adjustedTime = currentTime + (customSubs.subtitleOffsetSec || 0);
-    const cueNow = customSubs.customSubtitles.find(
-      cue => adjustedTime >= cue.start && adjustedTime <= cue.end
-    );
-    const newText = cueNow ? cueNow.text : '';
+    // ASS/TTML files can have several overlapping cues (signs, songs, dialogue)
+    const activeNow = getActiveCues(customSubs.customSubtitles, adjustedTime);
+    customSubs.setActiveCues(prev => areSameCues(prev, activeNow) ? prev : activeNow);
+    const newText = getBottomCueText(activeNow);
     // Only update state if the text has changed to avoid unnecessary re-renders
     if (newText !== customSubs.currentSubtitle) {
       customSubs.setCurrentSubtitle(newText);
@@ -460,6 +637,9 @@ const KSPlayerCore: React.FC = () => {
     }
 
     setDuration(data.duration);
+    if (data.naturalSize?.width && data.naturalSize?.height) {
+      playerStats.reportStats({ width: data.naturalSize.width, height: data.naturalSize.height });
+    }
     if (data.audioTracks) tracks.setKsAudioTracks(data.audioTracks);
     if (data.textTracks) tracks.setKsTextTracks(data.textTracks);
 
@@ -469,7 +649,7 @@ const KSPlayerCore: React.FC = () => {
 
     // Auto-select audio track based on preferences
     if (data.audioTracks && data.audioTracks.length > 0 && settings?.preferredAudioLanguage) {
-      const bestAudioTrack = findBestAudioTrack(data.audioTracks, settings.preferredAudioLanguage);
+      const bestAudioTrack = findBestAudioTrack(data.audioTracks, settings.preferredAudioLanguage, showPrefs.prefsRef.current);
       if (bestAudioTrack !== null) {
         logger.debug(`[KSPlayerCore] Auto-selecting audio track ${bestAudioTrack} for language: ${settings.preferredAudioLanguage}`);
         tracks.selectAudioTrack(bestAudioTrack);
@@ -483,7 +663,7 @@ const KSPlayerCore: React.FC = () => {
     // Only auto-select internal tracks here if preference is 'internal' or 'any'
     // If preference is 'external', we wait for the useEffect to handle selection after external subs load
     if (data.textTracks && data.textTracks.length > 0 && !hasAutoSelectedTracks.current && settings?.enableSubtitleAutoSelect) {
-      const sourcePreference = settings?.subtitleSourcePreference || 'internal';
+      const sourcePreference = showPrefs.prefsRef.current?.subtitleSource || settings?.subtitleSourcePreference || 'internal';
 
       // Only pre-select internal if preference is internal or any
       if (sourcePreference === 'internal' || sourcePreference === 'any') {
@@ -494,7 +674,8 @@ const KSPlayerCore: React.FC = () => {
             preferredSubtitleLanguage: settings?.preferredSubtitleLanguage || 'en',
             subtitleSourcePreference: sourcePreference,
             enableSubtitleAutoSelect: true
-          }
+          },
+          showPrefs.prefsRef.current
         );
 
         if (subtitleSelection.type === 'internal' && subtitleSelection.internalTrackId !== undefined) {
@@ -589,7 +770,11 @@ const KSPlayerCore: React.FC = () => {
     if (ksPlayerRef.current) {
       ksPlayerRef.current.setAudioTrack(trackId);
     }
-  }, [tracks, ksPlayerRef]);
+    const track = tracks.ksAudioTracks.find(t => t.id === trackId);
+    if (track) {
+      showPrefs.updatePrefs({ audioLanguage: normalizeLanguageCode(track.language) || undefined, audioTrackName: track.name });
+    }
+  }, [tracks, ksPlayerRef, showPrefs.updatePrefs]);
 
   // Stream selection handler
   const handleSelectStream = async (newStream: any) => {
@@ -610,6 +795,7 @@ const KSPlayerCore: React.FC = () => {
 
     modals.setShowSourcesModal(false);
     setPaused(true);
+    if (newStream.addonId) showPrefs.updatePrefs({ preferredProvider: newStream.addonId });
 
     const newQuality = newStream.quality || newStream.title?.match(/(\d+)p/)?.[0];
     const newProvider = newStream.addonName || newStream.name || newStream.addon || 'Unknown';
@@ -619,6 +805,7 @@ const KSPlayerCore: React.FC = () => {
       (navigation as any).replace('PlayerIOS', {
         ...params,
         uri: newStream.url,
+        torrent: isTorrentStream(newStream) ? getTorrentSource(newStream) || undefined : undefined,
         quality: newQuality,
         streamProvider: newProvider,
         streamName: newStreamName,
@@ -636,11 +823,9 @@ const KSPlayerCore: React.FC = () => {
   };
 
   // Episode stream selection handler - navigates to new episode with selected stream
-  const handleEpisodeStreamSelect = async (stream: any) => {
-    if (!modals.selectedEpisodeForStreams) return;
-    modals.setShowEpisodeStreamsModal(false);
+  // bingeCount carries the unattended episode streak into the next player instance
+  const playEpisodeStream = (ep: Episode, stream: Stream, bingeCount = 0) => {
     setPaused(true);
-    const ep = modals.selectedEpisodeForStreams;
 
     if (__DEV__) {
       logger.log('[KSPlayerCore] switching episode stream', {
@@ -662,6 +847,7 @@ const KSPlayerCore: React.FC = () => {
     setTimeout(() => {
       (navigation as any).replace('PlayerIOS', {
         uri: stream.url,
+        torrent: isTorrentStream(stream) ? getTorrentSource(stream) || undefined : undefined,
         title: title,
         episodeTitle: ep.name,
         season: ep.season_number,
@@ -676,10 +862,18 @@ const KSPlayerCore: React.FC = () => {
         episodeId: ep.stremioId || `${id}:${ep.season_number}:${ep.episode_number} `,
         imdbId: imdbId ?? undefined,
         backdrop: backdrop || undefined,
+        bingeCount: bingeCount || undefined,
       });
     }, 100);
   };
 
+  const handleEpisodeStreamSelect = async (stream: any) => {
+    if (!modals.selectedEpisodeForStreams) return;
+    modals.setShowEpisodeStreamsModal(false);
+    if (stream.addonId) showPrefs.updatePrefs({ preferredProvider: stream.addonId });
+    playEpisodeStream(modals.selectedEpisodeForStreams, stream);
+  };
+
   // Slider handlers
   const onSliderValueChange = (value: number) => {
     setCurrentTime(value);
@@ -708,6 +902,11 @@ const KSPlayerCore: React.FC = () => {
     });
   }, [isSliderDragging, setCurrentTime, setBuffered]);
 
+  // Dual subtitles stack above the primary only when it is rendered by CustomSubtitles
+  const stackSecondarySubtitles = secondarySubs.isDualActive
+    && secondarySubs.dualSubtitleLayout === 'stacked'
+    && customSubs.useCustomSubtitles;
+
   return (
     <View style={{ flex: 1, backgroundColor: '#000000' }}>
       <StatusBar hidden={true} />
@@ -723,6 +922,7 @@ const KSPlayerCore: React.FC = () => {
         onClose={handleClose}
         width={screenDimensions.width}
         height={screenDimensions.height}
+        torrentProgress={torrentResolution.progress}
       />
 
       {/* Video Surface & Pinch Zoom */}
@@ -730,60 +930,62 @@ const KSPlayerCore: React.FC = () => {
         For KSPlayer built-in subtitles (internal text tracks), we intentionally force background OFF.
         Background styling is only supported/used for custom (external/addon) subtitles overlay.
       */}
-      <KSPlayerSurface
-        ksPlayerRef={ksPlayerRef}
-        uri={uri}
-        headers={headers}
-        paused={paused}
-        volume={volume}
-        playbackSpeed={speedControl.playbackSpeed}
-        resizeMode={resizeMode}
-        zoomScale={zoomScale}
-        setZoomScale={setZoomScale}
-        lastZoomScale={lastZoomScale}
-        setLastZoomScale={setLastZoomScale}
-        audioTrack={tracks.selectedAudioTrack ?? undefined}
-        textTrack={customSubs.useCustomSubtitles ? -1 : tracks.selectedTextTrack}
-        onAudioTracks={(d) => tracks.setKsAudioTracks(d.audioTracks || [])}
-        onTextTracks={(d) => tracks.setKsTextTracks(d.textTracks || [])}
-        onLoad={onLoad}
-        onProgress={handleProgress}
-        onEnd={async () => {
-          setCurrentTime(duration);
-          await traktAutosync.handlePlaybackEnd(duration, duration, 'ended');
-        }}
-        onError={handleError}
-        onBuffer={(b) => {
-          setIsBuffering(b);
-        }}
-        onReadyForDisplay={() => setIsPlayerReady(true)}
-        onPlaybackStalled={() => {
-          setIsBuffering(true);
-        }}
-        onPlaybackResume={() => {
-          setIsBuffering(false);
-        }}
-        screenWidth={screenDimensions.width}
-        screenHeight={screenDimensions.height}
-        customVideoStyles={{ width: '100%', height: '100%' }}
-        subtitleTextColor={customSubs.subtitleTextColor}
-        subtitleBackgroundColor={
-          tracks.selectedTextTrack !== null &&
-            tracks.selectedTextTrack >= 0 &&
-            !customSubs.useCustomSubtitles
-            ? 'rgba(0,0,0,0)'
-            : (customSubs.subtitleBackground ? `rgba(0,0,0,${customSubs.subtitleBgOpacity})` : 'transparent')
-        }
-        subtitleOutlineEnabled={
-          tracks.selectedTextTrack !== null &&
-            tracks.selectedTextTrack >= 0 &&
-            !customSubs.useCustomSubtitles
-            ? customSubs.subtitleOutline
-            : false
-        }
-        subtitleFontSize={customSubs.subtitleSize}
-        subtitleBottomOffset={customSubs.subtitleBottomOffset}
-      />
+      {!!torrentResolution.streamUri && (
+        <KSPlayerSurface
+          ksPlayerRef={ksPlayerRef}
+          uri={torrentResolution.streamUri}
+          headers={headers}
+          paused={paused}
+          volume={volume}
+          playbackSpeed={speedControl.playbackSpeed}
+          resizeMode={resizeMode}
+          zoomScale={zoomScale}
+          setZoomScale={setZoomScale}
+          lastZoomScale={lastZoomScale}
+          setLastZoomScale={setLastZoomScale}
+          audioTrack={tracks.selectedAudioTrack ?? undefined}
+          textTrack={customSubs.useCustomSubtitles ? -1 : tracks.selectedTextTrack}
+          onAudioTracks={(d) => tracks.setKsAudioTracks(d.audioTracks || [])}
+          onTextTracks={(d) => tracks.setKsTextTracks(d.textTracks || [])}
+          onLoad={onLoad}
+          onProgress={handleProgress}
+          onEnd={async () => {
+            setCurrentTime(duration);
+            await traktAutosync.handlePlaybackEnd(duration, duration, 'ended');
+          }}
+          onError={handleError}
+          onBuffer={(b) => {
+            setIsBuffering(b);
+          }}
+          onReadyForDisplay={() => setIsPlayerReady(true)}
+          onPlaybackStalled={() => {
+            setIsBuffering(true);
+          }}
+          onPlaybackResume={() => {
+            setIsBuffering(false);
+          }}
+          screenWidth={screenDimensions.width}
+          screenHeight={screenDimensions.height}
+          customVideoStyles={{ width: '100%', height: '100%' }}
+          subtitleTextColor={customSubs.subtitleTextColor}
+          subtitleBackgroundColor={
+            tracks.selectedTextTrack !== null &&
+              tracks.selectedTextTrack >= 0 &&
+              !customSubs.useCustomSubtitles
+              ? 'rgba(0,0,0,0)'
+              : (customSubs.subtitleBackground ? `rgba(0,0,0,${customSubs.subtitleBgOpacity})` : 'transparent')
+          }
+          subtitleOutlineEnabled={
+            tracks.selectedTextTrack !== null &&
+              tracks.selectedTextTrack >= 0 &&
+              !customSubs.useCustomSubtitles
+              ? customSubs.subtitleOutline
+              : false
+          }
+          subtitleFontSize={customSubs.subtitleSize}
+          subtitleBottomOffset={customSubs.subtitleBottomOffset}
+        />
+      )}
 
       {/* Custom Subtitles Overlay */}
       <CustomSubtitles
@@ -803,9 +1005,32 @@ const KSPlayerCore: React.FC = () => {
         letterSpacing={customSubs.subtitleLetterSpacing}
         lineHeightMultiplier={customSubs.subtitleLineHeightMultiplier}
         formattedSegments={customSubs.currentFormattedSegments}
+        activeCues={customSubs.activeCues}
+        currentTime={currentTime + (customSubs.subtitleOffsetSec || 0)}
         controlsVisible={showControls}
         controlsFixedOffset={106}
+        stackedContent={stackSecondarySubtitles ? (
+          <SecondarySubtitles
+            secondary={secondarySubs}
+            inline
+            zoomScale={zoomScale}
+            align={customSubs.subtitleAlign}
+            letterSpacing={customSubs.subtitleLetterSpacing}
+            lineHeightMultiplier={customSubs.subtitleLineHeightMultiplier}
+          />
+        ) : undefined}
       />
+      {secondarySubs.isDualActive && !stackSecondarySubtitles && (
+        <SecondarySubtitles
+          secondary={secondarySubs}
+          zoomScale={zoomScale}
+          align={customSubs.subtitleAlign}
+          letterSpacing={customSubs.subtitleLetterSpacing}
+          lineHeightMultiplier={customSubs.subtitleLineHeightMultiplier}
+          controlsVisible={showControls}
+          controlsExtraOffset={60}
+        />
+      )}
 
       {/* Gesture Controls Overlay (Pan/Tap) */}
       <GestureControls
@@ -862,25 +1087,22 @@ const KSPlayerCore: React.FC = () => {
             handleClose={handleClose}
             cycleAspectRatio={() => {
               gestureControls.showResizeModeOverlayFn(() => {
-                setResizeMode(prev => {
-                  switch (prev) {
-                    case 'contain':
-                      return 'cover';
-                    case 'cover':
-                      return 'stretch';
-                    case 'stretch':
-                    default:
-                      return 'contain';
-                  }
-                });
+                const next = resizeMode === 'contain' ? 'cover' : resizeMode === 'cover' ? 'stretch' : 'contain';
+                setResizeMode(next);
+                showPrefs.updatePrefs({ resizeMode: next });
               });
             }}
-            cyclePlaybackSpeed={() => speedControl.setPlaybackSpeed(speedControl.playbackSpeed >= 2 ? 1 : speedControl.playbackSpeed + 0.25)}
+            cyclePlaybackSpeed={() => changePlaybackSpeed(speedControl.playbackSpeed >= 2 ? 1 : speedControl.playbackSpeed + 0.25)}
             currentPlaybackSpeed={speedControl.playbackSpeed}
             setShowAudioModal={modals.setShowAudioModal}
             setShowSubtitleModal={modals.setShowSubtitleModal}
             setShowSpeedModal={modals.setShowSpeedModal}
             setShowSubmitIntroModal={modals.setShowSubmitIntroModal}
+            setShowSkipEditorModal={modals.setShowSkipEditorModal}
+            setShowWatchPartyModal={modals.setShowWatchPartyModal}
+            isWatchPartyActive={watchParty.isActive}
+            onToggleStats={playerStats.toggle}
+            isStatsVisible={playerStats.visible}
             isSubtitleModalOpen={modals.showSubtitleModal}
             setShowSourcesModal={modals.setShowSourcesModal}
             setShowEpisodesModal={type === 'series' ? modals.setShowEpisodesModal : undefined}
@@ -956,7 +1178,7 @@ const KSPlayerCore: React.FC = () => {
         episode={episode}
         malId={(metadata as any)?.mal_id || (metadata as any)?.external_ids?.mal_id}
         kitsuId={id?.startsWith('kitsu:') ? id.split(':')[1] : undefined}
-        skipIntervals={skipIntervals}
+        skipIntervals={skipSegments.segments}
         currentTime={currentTime}
         onSkip={(endTime) => controls.seekToTime(endTime)}
         controlsVisible={showControls}
@@ -970,11 +1192,15 @@ const KSPlayerCore: React.FC = () => {
         currentTime={currentTime}
         duration={duration}
         insets={insets}
-        isLoading={false}
-        nextLoadingProvider={null}
+        isLoading={binge.isCountingDown}
+        nextLoadingProvider={binge.nextStream ? binge.nextStream.addonName || binge.nextStream.name || null : null}
         nextLoadingQuality={null}
         nextLoadingTitle={null}
         onPress={() => {
+          if (binge.isCountingDown) {
+            binge.playNow();
+            return;
+          }
           if (nextEpisode) {
             logger.log(`[KSPlayerCore] Opening streams for next episode: S${nextEpisode.season_number}E${nextEpisode.episode_number}`);
             modals.setSelectedEpisodeForStreams(nextEpisode);
@@ -984,7 +1210,36 @@ const KSPlayerCore: React.FC = () => {
         metadata={metadata ? { poster: metadata.poster, id: metadata.id } : undefined}
         controlsVisible={showControls}
         controlsFixedOffset={126}
-        outroSegment={outroSegment}
+        outroSegment={skipSegments.outroSegment}
+        creditsStartTime={skipSegments.creditsStartTime}
+        bingeCountdown={binge.isCountingDown ? binge.countdown : null}
+        onCancelBinge={binge.cancel}
+      />
+
+      <StillWatchingOverlay
+        visible={binge.phase === 'still_watching'}
+        episodesWatched={(params.bingeCount ?? 0) + 1}
+        onContinue={binge.continueWatching}
+        onStop={binge.cancel}
+      />
+
+      <PlayerStatsOverlay
+        visible={playerStats.visible}
+        stats={playerStats.stats}
+        backend="KSAVPlayer"
+        source={[streamProvider, streamName].filter(Boolean).join(' · ') || undefined}
+        audioTrackName={selectedAudioTrackName}
+        buildReport={playerStats.buildReport}
+        onClose={() => playerStats.setVisible(false)}
+      />
+
+      <RestrictedContentOverlay
+        content={{ id, type, imdbId }}
+        season={season}
+        episode={episode}
+        onHold={() => setPaused(true)}
+        onRelease={() => setPaused(false)}
+        onExit={handleClose}
       />
 
       {/* Modals */}
@@ -1007,7 +1262,7 @@ const KSPlayerCore: React.FC = () => {
         showSpeedModal={modals.showSpeedModal}
         setShowSpeedModal={modals.setShowSpeedModal}
         currentSpeed={speedControl.playbackSpeed}
-        setPlaybackSpeed={speedControl.setPlaybackSpeed}
+        setPlaybackSpeed={changePlaybackSpeed}
         holdToSpeedEnabled={speedControl.holdToSpeedEnabled}
         setHoldToSpeedEnabled={speedControl.setHoldToSpeedEnabled}
         holdToSpeedValue={speedControl.holdToSpeedValue}
@@ -1023,15 +1278,34 @@ const KSPlayerCore: React.FC = () => {
         episode={episode}
       />
 
+      <SkipSegmentEditorModal
+        visible={modals.showSkipEditorModal}
+        onClose={() => modals.setShowSkipEditorModal(false)}
+        currentTime={currentTime}
+        duration={duration}
+        showId={id}
+        season={season}
+        episode={episode}
+        episodeSegments={skipSegments.episodeSegments}
+        showDefaults={skipSegments.showDefaults}
+        onChanged={skipSegments.refreshLocalSegments}
+      />
+
+      <WatchPartyModal
+        visible={modals.showWatchPartyModal}
+        onClose={() => modals.setShowWatchPartyModal(false)}
+        session={watchParty.session}
+      />
+
       <SubtitleModals
         showSubtitleModal={modals.showSubtitleModal}
         setShowSubtitleModal={modals.setShowSubtitleModal}
         showSubtitleLanguageModal={modals.showSubtitleLanguageModal}
         setShowSubtitleLanguageModal={modals.setShowSubtitleLanguageModal}
         customSubtitles={customSubs.customSubtitles}
-        availableSubtitles={customSubs.availableSubtitles}
+        availableSubtitles={subtitleCandidates}
         fetchAvailableSubtitles={fetchAvailableSubtitles}
-        loadWyzieSubtitle={loadWyzieSubtitle}
+        loadWyzieSubtitle={selectSubtitleFromModal}
         subtitleSize={customSubs.subtitleSize}
         increaseSubtitleSize={() => customSubs.setSubtitleSize((s: number) => s + 2)}
         decreaseSubtitleSize={() => customSubs.setSubtitleSize((s: number) => Math.max(10, s - 2))}
@@ -1058,30 +1332,53 @@ const KSPlayerCore: React.FC = () => {
         subtitleLineHeightMultiplier={customSubs.subtitleLineHeightMultiplier}
         setSubtitleLineHeightMultiplier={customSubs.setSubtitleLineHeightMultiplier}
         subtitleOffsetSec={customSubs.subtitleOffsetSec}
-        setSubtitleOffsetSec={customSubs.setSubtitleOffsetSec}
+        setSubtitleOffsetSec={changeSubtitleOffset}
         isLoadingSubtitleList={customSubs.isLoadingSubtitleList}
         isLoadingSubtitles={customSubs.isLoadingSubtitles}
         ksTextTracks={tracks.ksTextTracks}
         selectedTextTrack={tracks.selectedTextTrack !== null ? tracks.selectedTextTrack : -1}
         useCustomSubtitles={customSubs.useCustomSubtitles}
-        selectTextTrack={handleSelectTextTrack}
+        selectTextTrack={(trackId) => {
+          localSubs.forgetSubtitle();
+          const track = tracks.ksTextTracks.find(t => t.id === trackId);
+          showPrefs.updatePrefs(track
+            ? { subtitleSource: 'internal', subtitleLanguage: normalizeLanguageCode(track.language) || undefined }
+            : { subtitleSource: 'off' });
+          handleSelectTextTrack(trackId);
+        }}
         disableCustomSubtitles={() => {
           customSubs.setUseCustomSubtitles(false);
           customSubs.setSelectedExternalSubtitleId(null); // Clear external selection
+          selectedExternalSubtitleRef.current = null;
+          setSubtitleScale(1);
+          localSubs.forgetSubtitle();
+          showPrefs.updatePrefs({ subtitleSource: 'off' });
           handleSelectTextTrack(-1);
         }}
         selectedExternalSubtitleId={customSubs.selectedExternalSubtitleId}
         onOpenSyncModal={() => setShowSyncModal(true)}
+        secondarySubtitles={secondarySubs}
+        onImportSubtitle={importLocalSubtitle}
+        isImportingSubtitle={localSubs.isImporting}
       />
 
       {/* Visual Subtitle Sync Modal */}
       <SubtitleSyncModal
         visible={showSyncModal}
         onClose={() => setShowSyncModal(false)}
-        onConfirm={(offset) => customSubs.setSubtitleOffsetSec(offset)}
+        onConfirm={(offset, scale) => {
+          // Framerate correction is baked into the cues; the offset stays adjustable
+          if (scale !== 1) {
+            customSubs.setCustomSubtitles(prev => scaleSubtitleCues(prev, scale));
+            setSubtitleScale(prev => prev * scale);
+          }
+          changeSubtitleOffset(offset);
+        }}
         currentOffset={customSubs.subtitleOffsetSec}
         currentTime={currentTime}
         subtitles={customSubs.customSubtitles}
+        referenceSubtitles={subtitleCandidates.filter(sub => sub.id !== customSubs.selectedExternalSubtitleId)}
+        videoDuration={duration}
         primaryColor={currentTheme.colors.primary}
       />
 
@@ -13,6 +13,27 @@ export interface MpvPlayerRef {
     setResizeMode: (mode: 'contain' | 'cover' | 'stretch') => void;
 }
 
+// Raw mpv properties, sent about once a second while statsEnabled is set
+export interface MpvStats {
+    videoCodec?: string | null;
+    width?: number | null;
+    height?: number | null;
+    fps?: number | null;
+    hwdec?: string | null;
+    droppedFrames?: number | null;
+    decoderDroppedFrames?: number | null;
+    cacheDuration?: number | null;
+    cacheSpeed?: number | null; // bytes per second
+    videoBitrate?: number | null;
+    audioBitrate?: number | null;
+    gamma?: string | null;
+    primaries?: string | null;
+    audioCodec?: string | null;
+    audioChannels?: string | null;
+    audioSampleRate?: number | null;
+    fileFormat?: string | null;
+}
+
 export interface MpvPlayerProps {
     source: string;
     headers?: { [key: string]: string };
@@ -28,6 +49,8 @@ export interface MpvPlayerProps {
     onTracksChanged?: (data: { audioTracks: any[]; subtitleTracks: any[] }) => void;
     decoderMode?: 'auto' | 'sw' | 'hw' | 'hw+';
     gpuMode?: 'gpu' | 'gpu-next';
+    statsEnabled?: boolean;
+    onStats?: (stats: MpvStats) => void;
     // Subtitle Styling
     subtitleSize?: number;
     subtitleColor?: string;
@@ -104,6 +127,10 @@ const MpvPlayer = forwardRef<MpvPlayerRef, MpvPlayerProps>((props, ref) => {
         props.onTracksChanged?.(event?.nativeEvent);
     };
 
+    const handleStats = (event: any) => {
+        props.onStats?.(event?.nativeEvent);
+    };
+
     return (
         <MpvPlayerNative
             ref={nativeRef}
@@ -121,6 +148,8 @@ const MpvPlayer = forwardRef<MpvPlayerRef, MpvPlayerProps>((props, ref) => {
             onTracksChanged={handleTracksChanged}
             decoderMode={props.decoderMode ?? 'auto'}
             gpuMode={props.gpuMode ?? 'gpu'}
+            statsEnabled={props.statsEnabled ?? false}
+            onStats={handleStats}
             // Subtitle Styling
             subtitleSize={props.subtitleSize ?? 48}
             subtitleColor={props.subtitleColor ?? '#FFFFFF'}
@@ -2,9 +2,9 @@ import React, { useCallback, useRef, forwardRef, useImperativeHandle, useEffect
 import { View, TouchableWithoutFeedback, StyleSheet } from 'react-native';
 import { PinchGestureHandler } from 'react-native-gesture-handler';
 import Video, { VideoRef, SelectedTrack, SelectedVideoTrack, ResizeMode } from 'react-native-video';
-import MpvPlayer, { MpvPlayerRef } from '../MpvPlayer';
+import MpvPlayer, { MpvPlayerRef, MpvStats } from '../MpvPlayer';
 import { styles } from '../../utils/playerStyles';
-import { ResizeModeType } from '../../utils/playerTypes';
+import { ResizeModeType, PlayerStats } from '../../utils/playerTypes';
 import { logger } from '../../../../utils/logger';
 
 
@@ -51,6 +51,10 @@ interface VideoSurfaceProps {
     decoderMode?: 'auto' | 'sw' | 'hw' | 'hw+';
     gpuMode?: 'gpu' | 'gpu-next';
 
+    // Stats overlay
+    statsEnabled?: boolean;
+    onStats?: (stats: PlayerStats) => void;
+
     // Dual Engine Props
     useExoPlayer?: boolean;
     onCodecError?: () => void;
@@ -105,6 +109,8 @@ export const VideoSurface: React.FC<VideoSurfaceProps> = ({
     selectedTextTrack,
     decoderMode,
     gpuMode,
+    statsEnabled = false,
+    onStats,
     // Dual Engine
     useExoPlayer = true,
     onCodecError,
@@ -221,7 +227,55 @@ export const VideoSurface: React.FC<VideoSurfaceProps> = ({
         onEnd();
     };
 
+    // ExoPlayer only describes the tracks once, on load; keep it for when the overlay opens later
+    const exoStatsRef = useRef<PlayerStats | null>(null);
+
+    useEffect(() => {
+        if (statsEnabled && useExoPlayer && exoStatsRef.current) onStats?.(exoStatsRef.current);
+    }, [statsEnabled, useExoPlayer]);
+
+    const handleMpvStats = (data: MpvStats) => {
+        const gamma = data.gamma || '';
+        onStats?.({
+            width: data.width ?? undefined,
+            height: data.height ?? undefined,
+            fps: data.fps ?? undefined,
+            videoCodec: data.videoCodec ?? undefined,
+            decoder: data.hwdec && data.hwdec !== 'no' ? `hardware (${data.hwdec})` : 'software',
+            droppedFrames: (data.droppedFrames ?? 0) + (data.decoderDroppedFrames ?? 0),
+            bufferSeconds: data.cacheDuration ?? undefined,
+            videoBitrate: data.videoBitrate ?? undefined,
+            throughput: data.cacheSpeed != null ? data.cacheSpeed * 8 : undefined,
+            hdr: gamma === 'pq' ? 'HDR10 (PQ)' : gamma === 'hlg' ? 'HLG' : gamma ? `SDR (${gamma})` : undefined,
+            audioCodec: data.audioCodec ?? undefined,
+            audioChannels: data.audioChannels ?? undefined,
+            audioSampleRate: data.audioSampleRate ?? undefined,
+            audioBitrate: data.audioBitrate ?? undefined,
+            container: data.fileFormat ?? undefined,
+        });
+    };
+
+    const handleExoBandwidth = (data: { bitrate: number }) => {
+        if (statsEnabled) onStats?.({ throughput: data.bitrate });
+    };
+
     const handleExoLoad = (data: any) => {
+        const videoTrack = data.videoTracks?.find((t: any) => t.selected) ?? data.videoTracks?.[0];
+        const audioTrack = data.audioTracks?.find((t: any) => t.selected) ?? data.audioTracks?.[0];
+        const videoCodecs: string = videoTrack?.codecs || '';
+        exoStatsRef.current = {
+            width: videoTrack?.width || data.naturalSize?.width,
+            height: videoTrack?.height || data.naturalSize?.height,
+            videoCodec: videoCodecs || undefined,
+            decoder: 'MediaCodec',
+            videoBitrate: videoTrack?.bitrate || undefined,
+            hdr: /^(dvh1|dvhe)/i.test(videoCodecs) ? 'Dolby Vision' : undefined,
+            audioCodec: audioTrack?.type || undefined,
+            audioBitrate: audioTrack?.bitrate || undefined,
+        };
+        if (statsEnabled) onStats?.(exoStatsRef.current);
+
+
         const audioTracks = data.audioTracks?.map((t: any, i: number) => ({
             id: i,
             name: t.title || t.language || `Track ${i + 1}`,
@@ -363,6 +417,8 @@ export const VideoSurface: React.FC<VideoSurfaceProps> = ({
                     onError={handleExoError}
                     onBuffer={handleExoBuffer}
                     onSeek={handleExoSeek}
+                    reportBandwidth={statsEnabled}
+                    onBandwidthUpdate={handleExoBandwidth}
                     progressUpdateInterval={500}
                     playInBackground={false}
                     playWhenInactive={false}
@@ -401,6 +457,8 @@ export const VideoSurface: React.FC<VideoSurfaceProps> = ({
                     onTracksChanged={onTracksChanged}
                     decoderMode={decoderMode}
                     gpuMode={gpuMode}
+                    statsEnabled={statsEnabled}
+                    onStats={handleMpvStats}
                     subtitleSize={subtitleSize}
                     subtitleColor={subtitleColor}
                     subtitleBackgroundOpacity={subtitleBackgroundOpacity}
@@ -2,6 +2,7 @@ import { useRef, useCallback } from 'react';
 import { Platform } from 'react-native';
 import { VideoRef } from 'react-native-video';
 import { logger } from '../../../../utils/logger';
+import { PlaybackControlEvent } from '../../hooks/usePlayerControls';
 
 const DEBUG_MODE = true; // Temporarily enable for debugging seek
 const END_EPSILON = 0.3;
@@ -16,14 +17,19 @@ export const usePlayerControls = (
     isMounted: React.MutableRefObject<boolean>,
     // Dual engine support
     exoPlayerRef?: React.RefObject<VideoRef>,
-    useExoPlayer?: boolean
+    useExoPlayer?: boolean,
+    onPlaybackEvent?: (event: PlaybackControlEvent) => void
 ) => {
     // iOS seeking helpers
     const iosWasPausedDuringSeekRef = useRef<boolean | null>(null);
 
+    const onPlaybackEventRef = useRef(onPlaybackEvent);
+    onPlaybackEventRef.current = onPlaybackEvent;
+
     const togglePlayback = useCallback(() => {
         setPaused(!paused);
-    }, [paused, setPaused]);
+        onPlaybackEventRef.current?.({ action: paused ? 'play' : 'pause', position: currentTime });
+    }, [paused, setPaused, currentTime]);
 
     const seekToTime = useCallback((rawSeconds: number) => {
         const timeInSeconds = Math.max(0, Math.min(rawSeconds, duration > 0 ? duration - END_EPSILON : rawSeconds));
@@ -44,6 +50,7 @@ export const usePlayerControls = (
 
             isSeeking.current = true;
             exoPlayerRef.current.seek(timeInSeconds);
+            onPlaybackEventRef.current?.({ action: 'seek', position: timeInSeconds });
 
             // Reset seeking flag after a delay
             setTimeout(() => {
@@ -60,6 +67,7 @@ export const usePlayerControls = (
 
             isSeeking.current = true;
             mpvPlayerRef.current.seek(timeInSeconds);
+            onPlaybackEventRef.current?.({ action: 'seek', position: timeInSeconds });
 
             // Reset seeking flag after a delay
             setTimeout(() => {
@@ -5,6 +5,7 @@ import { MaterialIcons } from '@expo/vector-icons';
 import { logger } from '../../../utils/logger';
 import { LinearGradient } from 'expo-linear-gradient';
 import { SkipInterval } from '../../../services/introService';
+import { useTranslation } from 'react-i18next';
 
 export interface Insets {
   top: number;
@@ -35,6 +36,9 @@ interface UpNextButtonProps {
   controlsVisible?: boolean;
   controlsFixedOffset?: number;
   outroSegment?: SkipInterval | null;
+  creditsStartTime?: number | null; // User-marked credits start; shows Up Next from there
+  bingeCountdown?: number | null; // Seconds until binge mode starts the next episode
+  onCancelBinge?: () => void;
 }
 
 const UpNextButton: React.FC<UpNextButtonProps> = ({
@@ -52,7 +56,11 @@ const UpNextButton: React.FC<UpNextButtonProps> = ({
   controlsVisible = false,
   controlsFixedOffset = 100,
   outroSegment,
+  creditsStartTime,
+  bingeCountdown,
+  onCancelBinge,
 }) => {
+  const { t } = useTranslation();
   const [visible, setVisible] = useState(false);
   const opacity = useRef(new Animated.Value(0)).current;
   const scale = useRef(new Animated.Value(0.8)).current;
@@ -79,6 +87,12 @@ const UpNextButton: React.FC<UpNextButtonProps> = ({
 
   const shouldShow = useMemo(() => {
     if (!nextEpisode || duration <= 0) return false;
+    if (bingeCountdown != null) return true;
+
+    // User-marked credits: show as soon as they start
+    if (creditsStartTime != null && creditsStartTime < duration) {
+      return currentTime >= creditsStartTime && currentTime < duration;
+    }
 
     // 1. Determine if we have a valid ending outro (within last 5 mins)
     const hasValidEndingOutro = outroSegment && (duration - outroSegment.endTime < 300);
@@ -92,7 +106,7 @@ const UpNextButton: React.FC<UpNextButtonProps> = ({
     // 2. Standard Fallback (only if no valid ending outro was found)
     const timeRemaining = duration - currentTime;
     return timeRemaining < 61 && timeRemaining > 0;
-  }, [nextEpisode, duration, currentTime, outroSegment]);
+  }, [nextEpisode, duration, currentTime, outroSegment, creditsStartTime, bingeCountdown]);
 
   // Debug logging removed to reduce console noise
   // The state is computed in shouldShow useMemo above
@@ -194,7 +208,9 @@ const UpNextButton: React.FC<UpNextButtonProps> = ({
               <MaterialIcons name="skip-next" size={18} color="#ffffff" style={{ marginRight: 6 }} />
             )}
             <Text style={{ color: '#ffffff', fontSize: 11, fontWeight: '700', opacity: 0.9 }} numberOfLines={1}>
-              {isLoading ? 'Loading next…' : 'Up next'}
+              {bingeCountdown != null
+                ? t('player_ui.binge_next_in', { count: Math.max(0, bingeCountdown) })
+                : isLoading ? 'Loading next…' : 'Up next'}
             </Text>
           </View>
           <Text style={{ color: '#ffffff', fontSize: 12, fontWeight: '700' }} numberOfLines={2}>
@@ -210,6 +226,25 @@ const UpNextButton: React.FC<UpNextButtonProps> = ({
           )}
         </LinearGradient>
       </TouchableOpacity>
+      {bingeCountdown != null && onCancelBinge && (
+        <TouchableOpacity
+          onPress={onCancelBinge}
+          hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+          style={{
+            position: 'absolute',
+            top: 8,
+            right: 8,
+            width: 26,
+            height: 26,
+            borderRadius: 13,
+            backgroundColor: 'rgba(0,0,0,0.6)',
+            justifyContent: 'center',
+            alignItems: 'center',
+          }}
+        >
+          <MaterialIcons name="close" size={16} color="#ffffff" />
+        </TouchableOpacity>
+      )}
     </Animated.View>
   );
 }
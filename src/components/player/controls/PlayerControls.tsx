@@ -42,6 +42,11 @@ interface PlayerControlsProps {
   setShowSubtitleModal: (show: boolean) => void;
   setShowSpeedModal: (show: boolean) => void;
   setShowSubmitIntroModal: (show: boolean) => void;
+  setShowSkipEditorModal?: (show: boolean) => void;
+  setShowWatchPartyModal?: (show: boolean) => void;
+  isWatchPartyActive?: boolean;
+  onToggleStats?: () => void;
+  isStatsVisible?: boolean;
   isSubtitleModalOpen?: boolean;
   setShowSourcesModal?: (show: boolean) => void;
   setShowEpisodesModal?: (show: boolean) => void;
@@ -92,6 +97,11 @@ export const PlayerControls: React.FC<PlayerControlsProps> = ({
   setShowSubtitleModal,
   setShowSpeedModal,
   setShowSubmitIntroModal,
+  setShowSkipEditorModal,
+  setShowWatchPartyModal,
+  isWatchPartyActive = false,
+  onToggleStats,
+  isStatsVisible = false,
   isSubtitleModalOpen,
   setShowSourcesModal,
   setShowEpisodesModal,
@@ -378,6 +388,19 @@ export const PlayerControls: React.FC<PlayerControlsProps> = ({
                   />
                 </TouchableOpacity>
               )}
+              {/* Stats for nerds */}
+              {onToggleStats && settings.showPlayerStatsButton && (
+                <TouchableOpacity
+                  style={{ padding: 8 }}
+                  onPress={onToggleStats}
+                >
+                  <Ionicons
+                    name="analytics-outline"
+                    size={closeIconSize}
+                    color={isStatsVisible ? currentTheme.colors.primary : 'white'}
+                  />
+                </TouchableOpacity>
+              )}
               {/* Switch to MPV Button - Android only, when using ExoPlayer */}
               {Platform.OS === 'android' && onSwitchToMPV && useExoPlayer && (
                 <TouchableOpacity
@@ -647,6 +670,34 @@ export const PlayerControls: React.FC<PlayerControlsProps> = ({
                 </TouchableOpacity>
               )}
 
+              {/* Local Skip Segments Button */}
+              {setShowSkipEditorModal && season !== undefined && episode !== undefined && settings.skipIntroEnabled && (
+                <TouchableOpacity
+                  style={styles.iconButton}
+                  onPress={() => setShowSkipEditorModal(true)}
+                >
+                  <Ionicons
+                    name="cut-outline"
+                    size={24}
+                    color="white"
+                  />
+                </TouchableOpacity>
+              )}
+
+              {/* Watch Party Button */}
+              {setShowWatchPartyModal && (settings.watchPartyRelayUrl || isWatchPartyActive) && (
+                <TouchableOpacity
+                  style={styles.iconButton}
+                  onPress={() => setShowWatchPartyModal(true)}
+                >
+                  <Ionicons
+                    name={isWatchPartyActive ? 'people' : 'people-outline'}
+                    size={24}
+                    color={isWatchPartyActive ? currentTheme.colors.primary : 'white'}
+                  />
+                </TouchableOpacity>
+              )}
+
               {/* Right Side: Episodes Button */}
               {setShowEpisodesModal && (
                 <TouchableOpacity
@@ -8,6 +8,9 @@ export { usePlayerState, type PlayerResizeMode } from './usePlayerState';
 export { usePlayerModals } from './usePlayerModals';
 export { usePlayerTracks } from './usePlayerTracks';
 export { useCustomSubtitles } from './useCustomSubtitles';
+export { useSecondarySubtitles, type SecondarySubtitlesState } from './useSecondarySubtitles';
+export { useLocalSubtitles } from './useLocalSubtitles';
+export { useShowPlaybackPrefs } from './useShowPlaybackPrefs';
 
 // Controls & Playback
 export { usePlayerControls } from './usePlayerControls';
@@ -21,3 +24,7 @@ export { usePlayerSetup } from './usePlayerSetup';
 export { useNextEpisode } from './useNextEpisode';
 export { useWatchProgress } from './useWatchProgress';
 export { useSkipSegments } from './useSkipSegments';
+export { useTorrentResolution } from './useTorrentResolution';
+export { useBingeMode, type BingePhase } from './useBingeMode';
+export { useWatchParty } from './useWatchParty';
+export { usePlayerStats } from './usePlayerStats';
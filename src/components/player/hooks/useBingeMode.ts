@@ -0,0 +1,195 @@
+/**
+ * Binge mode: auto-advance to the next episode when the credits start
+ * Used by both Android and iOS players; navigation stays with each player
+ */
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { SkipInterval } from '../../../services/introService';
+import { bingeService } from '../../../services/bingeService';
+import { BestStreamOptions } from '../../../screens/streams/utils';
+import { Episode, Stream } from '../../../types/metadata';
+import { logger } from '../../../utils/logger';
+
+export type BingePhase = 'idle' | 'countdown' | 'still_watching' | 'cancelled' | 'failed';
+
+interface UseBingeModeParams {
+    enabled: boolean;
+    id?: string;
+    nextEpisode: Episode | null | undefined;
+    currentTime: number;
+    duration: number;
+    paused: boolean;
+    creditsStartTime?: number | null;
+    outroSegment?: SkipInterval | null;
+    secondsBeforeEnd: number;
+    stillWatchingAfter: number; // 0 never asks
+    unattendedEpisodes: number; // Episodes watched in a row before this one without touching the player
+    streamOptions: BestStreamOptions;
+    onAdvance: (stream: Stream, episode: Episode, unattendedEpisodes: number) => void;
+}
+
+const COUNTDOWN_SECONDS = 10;
+const PRELOAD_LEAD_SECONDS = 60;
+
+const episodeIdOf = (id: string, ep: Episode): string =>
+    ep.stremioId || `${id}:${ep.season_number}:${ep.episode_number}`;
+
+export const useBingeMode = ({
+    enabled,
+    id,
+    nextEpisode,
+    currentTime,
+    duration,
+    paused,
+    creditsStartTime,
+    outroSegment,
+    secondsBeforeEnd,
+    stillWatchingAfter,
+    unattendedEpisodes,
+    streamOptions,
+    onAdvance,
+}: UseBingeModeParams) => {
+    const [phase, setPhase] = useState<BingePhase>('idle');
+    const [countdown, setCountdown] = useState<number>(COUNTDOWN_SECONDS);
+    const [nextStream, setNextStream] = useState<Stream | null>(null);
+    const [isResolving, setIsResolving] = useState<boolean>(false);
+
+    const resolvedForRef = useRef<string | null>(null);
+    const interactedRef = useRef<boolean>(false);
+    const onAdvanceRef = useRef(onAdvance);
+    onAdvanceRef.current = onAdvance;
+    const optionsRef = useRef(streamOptions);
+    optionsRef.current = streamOptions;
+
+    const nextEpisodeId = id && nextEpisode ? episodeIdOf(id, nextEpisode) : null;
+    const active = enabled && !!nextEpisodeId && duration > 0;
+
+    // Same precedence as Up Next: marked credits, then an outro near the end, then the fallback
+    const triggerTime = useMemo(() => {
+        if (duration <= 0) return Infinity;
+        if (creditsStartTime != null && creditsStartTime < duration) return creditsStartTime;
+        if (outroSegment && duration - outroSegment.endTime < 300) return outroSegment.startTime;
+        return Math.max(0, duration - secondsBeforeEnd);
+    }, [duration, creditsStartTime, outroSegment, secondsBeforeEnd]);
+
+    // New episode in the player
+    useEffect(() => {
+        setPhase('idle');
+        setNextStream(null);
+        setIsResolving(false);
+        setCountdown(COUNTDOWN_SECONDS);
+        resolvedForRef.current = null;
+        interactedRef.current = false;
+    }, [id, nextEpisodeId]);
+
+    // Resolve and warm up the next stream shortly before it is needed
+    useEffect(() => {
+        if (!active || !id || !nextEpisodeId) return;
+        if (resolvedForRef.current === nextEpisodeId) return;
+        if (currentTime < triggerTime - PRELOAD_LEAD_SECONDS) return;
+
+        const requestedFor = nextEpisodeId;
+        resolvedForRef.current = requestedFor;
+        // Results for an episode that is no longer next are dropped
+        const isCurrent = () => resolvedForRef.current === requestedFor;
+        setIsResolving(true);
+        logger.log(`[useBingeMode] Resolving stream for ${requestedFor}`);
+        bingeService.resolveEpisodeStream({ id, episodeId: requestedFor, options: optionsRef.current })
+            .then(stream => {
+                if (!isCurrent()) return;
+                setNextStream(stream);
+                if (stream) bingeService.warmUp(stream);
+            })
+            .catch(error => {
+                logger.warn('[useBingeMode] Could not resolve next episode stream', error);
+                if (isCurrent()) setNextStream(null);
+            })
+            .finally(() => {
+                if (isCurrent()) setIsResolving(false);
+            });
+    }, [active, id, nextEpisodeId, currentTime, triggerTime]);
+
+    // Start the countdown, or ask first after enough unattended episodes
+    useEffect(() => {
+        if (!active) return;
+        if (currentTime < triggerTime) {
+            // Seeking back before the credits re-arms binge mode
+            if (phase === 'countdown' || phase === 'cancelled' || phase === 'failed') {
+                setPhase('idle');
+                setCountdown(COUNTDOWN_SECONDS);
+            }
+            return;
+        }
+        if (phase !== 'idle') return;
+
+        const unattended = interactedRef.current ? 0 : unattendedEpisodes + 1;
+        if (stillWatchingAfter > 0 && unattended >= stillWatchingAfter) {
+            logger.log(`[useBingeMode] Asking after ${unattended} unattended episodes`);
+            setPhase('still_watching');
+        } else {
+            setCountdown(COUNTDOWN_SECONDS);
+            setPhase('countdown');
+        }
+    }, [active, currentTime, triggerTime, phase, unattendedEpisodes, stillWatchingAfter]);
+
+    useEffect(() => {
+        if (phase !== 'countdown' || paused || countdown <= 0) return;
+        const timer = setTimeout(() => setCountdown(prev => prev - 1), 1000);
+        return () => clearTimeout(timer);
+    }, [phase, paused, countdown]);
+
+    const advance = useCallback((count: number) => {
+        if (!nextStream || !nextEpisode) return;
+        logger.log(`[useBingeMode] Advancing to S${nextEpisode.season_number}E${nextEpisode.episode_number}`);
+        setPhase('cancelled');
+        onAdvanceRef.current(nextStream, nextEpisode, count);
+    }, [nextStream, nextEpisode]);
+
+    // Countdown done: go once the stream is known
+    useEffect(() => {
+        if (phase !== 'countdown' || countdown > 0 || isResolving) return;
+        if (!nextStream) {
+            logger.warn('[useBingeMode] No stream for the next episode, falling back to Up Next');
+            setPhase('failed');
+            return;
+        }
+        advance(interactedRef.current ? 0 : unattendedEpisodes + 1);
+    }, [phase, countdown, isResolving, nextStream, advance, unattendedEpisodes]);
+
+    // Any touch on the player counts as someone watching
+    const markInteraction = useCallback(() => {
+        interactedRef.current = true;
+    }, []);
+
+    const cancel = useCallback(() => {
+        interactedRef.current = true;
+        setPhase('cancelled');
+    }, []);
+
+    const playNow = useCallback(() => {
+        interactedRef.current = true;
+        if (nextStream) advance(0);
+        else setCountdown(0);
+    }, [nextStream, advance]);
+
+    const continueWatching = useCallback(() => {
+        interactedRef.current = true;
+        if (nextStream) {
+            advance(0);
+        } else {
+            setCountdown(0);
+            setPhase('countdown');
+        }
+    }, [nextStream, advance]);
+
+    return {
+        phase,
+        countdown,
+        nextStream,
+        isResolving,
+        isCountingDown: phase === 'countdown',
+        markInteraction,
+        cancel,
+        playNow,
+        continueWatching,
+    };
+};
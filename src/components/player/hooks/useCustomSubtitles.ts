@@ -16,6 +16,7 @@ export const useCustomSubtitles = () => {
     const [customSubtitles, setCustomSubtitles] = useState<SubtitleCue[]>([]);
     const [currentSubtitle, setCurrentSubtitle] = useState<string>('');
     const [currentFormattedSegments, setCurrentFormattedSegments] = useState<SubtitleSegment[][]>([]);
+    const [activeCues, setActiveCues] = useState<SubtitleCue[]>([]);
     const [availableSubtitles, setAvailableSubtitles] = useState<WyzieSubtitle[]>([]);
     const [useCustomSubtitles, setUseCustomSubtitles] = useState<boolean>(false);
     const [selectedExternalSubtitleId, setSelectedExternalSubtitleId] = useState<string | null>(null);
@@ -90,6 +91,7 @@ export const useCustomSubtitles = () => {
         customSubtitles, setCustomSubtitles,
         currentSubtitle, setCurrentSubtitle,
         currentFormattedSegments, setCurrentFormattedSegments,
+        activeCues, setActiveCues,
         availableSubtitles, setAvailableSubtitles,
         useCustomSubtitles, setUseCustomSubtitles,
         selectedExternalSubtitleId, setSelectedExternalSubtitleId,
@@ -0,0 +1,74 @@
+/**
+ * Device subtitle files and the per-title subtitle memory
+ * Used by both Android and iOS players; loading the cues stays with each player
+ */
+import { useState, useEffect, useCallback } from 'react';
+import { WyzieSubtitle } from '../utils/playerTypes';
+import { findSiblingSubtitles, importSubtitleFile } from '../utils/localSubtitles';
+import { storageService, TitleSubtitleChoice } from '../../../services/storageService';
+import { logger } from '../../../utils/logger';
+
+interface UseLocalSubtitlesParams {
+    uri: string;
+    id?: string;
+    type?: string;
+    episodeId?: string;
+}
+
+export const useLocalSubtitles = ({ uri, id, type, episodeId }: UseLocalSubtitlesParams) => {
+    const [localSubtitles, setLocalSubtitles] = useState<WyzieSubtitle[]>([]);
+    const [isImporting, setIsImporting] = useState<boolean>(false);
+
+    const addLocalSubtitle = useCallback((subtitle: WyzieSubtitle) => {
+        setLocalSubtitles(prev => prev.some(sub => sub.id === subtitle.id) ? prev : [subtitle, ...prev]);
+    }, []);
+
+    // Downloaded videos: pick up subtitle files stored next to them
+    useEffect(() => {
+        setLocalSubtitles([]);
+        if (!uri?.startsWith('file://')) return;
+        findSiblingSubtitles(uri)
+            .then(found => {
+                if (found.length > 0) logger.info(`[useLocalSubtitles] Found ${found.length} subtitle files next to the video`);
+                setLocalSubtitles(found);
+            })
+            .catch(error => logger.warn('[useLocalSubtitles] Could not list subtitle files next to the video', error));
+    }, [uri]);
+
+    // Resolves to null when cancelled; throws for unsupported files
+    const importFromDevice = useCallback(async (): Promise<WyzieSubtitle | null> => {
+        setIsImporting(true);
+        try {
+            const subtitle = await importSubtitleFile(uri);
+            if (subtitle) addLocalSubtitle(subtitle);
+            return subtitle;
+        } finally {
+            setIsImporting(false);
+        }
+    }, [uri, addLocalSubtitle]);
+
+    const getRememberedSubtitle = useCallback(async (): Promise<TitleSubtitleChoice | null> => {
+        if (!id || !type) return null;
+        return storageService.getTitleSubtitle(id, type, episodeId);
+    }, [id, type, episodeId]);
+
+    const rememberSubtitle = useCallback((subtitle: WyzieSubtitle, offsetSec: number, scale: number) => {
+        if (!id || !type) return;
+        storageService.setTitleSubtitle(id, type, { subtitle, offsetSec, scale, updatedAt: Date.now() }, episodeId);
+    }, [id, type, episodeId]);
+
+    const forgetSubtitle = useCallback(() => {
+        if (!id || !type) return;
+        storageService.removeTitleSubtitle(id, type, episodeId);
+    }, [id, type, episodeId]);
+
+    return {
+        localSubtitles,
+        addLocalSubtitle,
+        isImporting,
+        importFromDevice,
+        getRememberedSubtitle,
+        rememberSubtitle,
+        forgetSubtitle,
+    };
+};
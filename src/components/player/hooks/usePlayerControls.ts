@@ -9,6 +9,12 @@ import { logger } from '../../../utils/logger';
 const DEBUG_MODE = false;
 const END_EPSILON = 0.3;
 
+// Playback changes made through the controls, e.g. for watch party sync
+export interface PlaybackControlEvent {
+    action: 'play' | 'pause' | 'seek';
+    position: number;
+}
+
 interface PlayerControlsConfig {
     playerRef: MutableRefObject<any>;
     paused: boolean;
@@ -17,6 +23,7 @@ interface PlayerControlsConfig {
     duration: number;
     isSeeking: MutableRefObject<boolean>;
     isMounted: MutableRefObject<boolean>;
+    onPlaybackEvent?: (event: PlaybackControlEvent) => void;
 }
 
 export const usePlayerControls = (config: PlayerControlsConfig) => {
@@ -27,15 +34,20 @@ export const usePlayerControls = (config: PlayerControlsConfig) => {
         currentTime,
         duration,
         isSeeking,
-        isMounted
+        isMounted,
+        onPlaybackEvent
     } = config;
 
     // iOS seeking helpers
     const iosWasPausedDuringSeekRef = useRef<boolean | null>(null);
 
+    const onPlaybackEventRef = useRef(onPlaybackEvent);
+    onPlaybackEventRef.current = onPlaybackEvent;
+
     const togglePlayback = useCallback(() => {
         setPaused(!paused);
-    }, [paused, setPaused]);
+        onPlaybackEventRef.current?.({ action: paused ? 'play' : 'pause', position: currentTime });
+    }, [paused, setPaused, currentTime]);
 
     const seekTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
@@ -54,6 +66,7 @@ export const usePlayerControls = (config: PlayerControlsConfig) => {
 
             // Actually perform the seek
             playerRef.current.seek(timeInSeconds);
+            onPlaybackEventRef.current?.({ action: 'seek', position: timeInSeconds });
 
             // Debounce the seeking state reset
             seekTimeoutRef.current = setTimeout(() => {
@@ -16,6 +16,8 @@ export const usePlayerModals = () => {
     const [showSubtitleLanguageModal, setShowSubtitleLanguageModal] = useState(false);
     const [showCastDetails, setShowCastDetails] = useState(false);
     const [showSubmitIntroModal, setShowSubmitIntroModal] = useState(false);
+    const [showSkipEditorModal, setShowSkipEditorModal] = useState(false);
+    const [showWatchPartyModal, setShowWatchPartyModal] = useState(false);
 
     // Some modals have associated data
     const [selectedEpisodeForStreams, setSelectedEpisodeForStreams] = useState<Episode | null>(null);
@@ -33,6 +35,8 @@ export const usePlayerModals = () => {
         showSubtitleLanguageModal, setShowSubtitleLanguageModal,
         showCastDetails, setShowCastDetails,
         showSubmitIntroModal, setShowSubmitIntroModal,
+        showSkipEditorModal, setShowSkipEditorModal,
+        showWatchPartyModal, setShowWatchPartyModal,
         selectedEpisodeForStreams, setSelectedEpisodeForStreams,
         errorDetails, setErrorDetails,
         selectedCastMember, setSelectedCastMember
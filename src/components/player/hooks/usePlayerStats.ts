@@ -0,0 +1,113 @@
+/**
+ * Stats for nerds: collects what the active backend reports about the stream
+ * Used by both Android and iOS players; each surface reports what it can
+ */
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Platform } from 'react-native';
+import { detectMkvStream } from '../../../utils/mkvDetection';
+import { PlayerStats } from '../utils/playerTypes';
+import { formatBitrate } from '../utils/playerUtils';
+
+interface UsePlayerStatsParams {
+    backend: string;
+    decoderMode?: string;
+    uri?: string;
+    headers?: Record<string, string>;
+    currentTime: number;
+    buffered: number;
+    title?: string;
+    season?: number;
+    episode?: number;
+    streamProvider?: string;
+    streamName?: string;
+    audioTrackName?: string;
+}
+
+const containerFromUrl = (uri: string): string | undefined => {
+    const path = uri.toLowerCase().split('?')[0];
+    if (/\.m3u8$/.test(path)) return 'HLS';
+    if (/\.mpd$/.test(path)) return 'DASH';
+    if (/\.(mp4|m4v)$/.test(path)) return 'MP4';
+    if (/\.webm$/.test(path)) return 'WebM';
+    if (/\.ts$/.test(path)) return 'MPEG-TS';
+    return undefined;
+};
+
+// Only the host ends up in reports; stream URLs often carry account tokens
+const hostOf = (uri?: string): string | undefined => uri?.match(/^[a-z]+:\/\/([^/?#]+)/i)?.[1];
+
+export const usePlayerStats = ({
+    backend,
+    decoderMode,
+    uri,
+    headers,
+    currentTime,
+    buffered,
+    title,
+    season,
+    episode,
+    streamProvider,
+    streamName,
+    audioTrackName,
+}: UsePlayerStatsParams) => {
+    const [visible, setVisible] = useState(false);
+    const [reported, setReported] = useState<PlayerStats>({});
+
+    // New stream, nothing reported yet
+    useEffect(() => {
+        setReported({});
+    }, [uri]);
+
+    const reportStats = useCallback((stats: PlayerStats) => {
+        setReported(prev => ({ ...prev, ...stats }));
+    }, []);
+
+    const detectedContainer = useMemo(() => {
+        if (!uri) return undefined;
+        if (detectMkvStream(uri, headers).isMkv) return 'Matroska (MKV)';
+        return containerFromUrl(uri);
+    }, [uri, headers]);
+
+    const stats: PlayerStats = {
+        ...reported,
+        container: detectedContainer || reported.container,
+        bufferSeconds: reported.bufferSeconds ?? (buffered > currentTime ? buffered - currentTime : undefined),
+    };
+
+    const buildReport = useCallback((): string => {
+        const value = (v: string | number | undefined) => (v === undefined || v === '' ? 'n/a' : String(v));
+        const episodeLabel = season != null && episode != null ? ` S${season}E${episode}` : '';
+        return [
+            'Nuvio playback report',
+            `Generated: ${new Date().toISOString()}`,
+            `Platform: ${Platform.OS} ${Platform.Version}`,
+            `Player: ${backend}${decoderMode ? ` (decoder mode: ${decoderMode})` : ''}`,
+            `Title: ${value(title)}${episodeLabel}`,
+            `Source: ${value(streamProvider)} / ${value(streamName)}`,
+            `Stream host: ${value(hostOf(uri))}`,
+            `Container: ${value(stats.container)}`,
+            `Resolution: ${stats.width && stats.height ? `${stats.width}x${stats.height}` : 'n/a'}${stats.fps ? ` @ ${stats.fps.toFixed(3)} fps` : ''}`,
+            `Video codec: ${value(stats.videoCodec)}`,
+            `Decoder: ${value(stats.decoder)}`,
+            `HDR: ${value(stats.hdr)}`,
+            `Dropped frames: ${value(stats.droppedFrames)}`,
+            `Buffer: ${stats.bufferSeconds != null ? `${stats.bufferSeconds.toFixed(1)}s` : 'n/a'}`,
+            `Video bitrate: ${value(formatBitrate(stats.videoBitrate))}`,
+            `Throughput: ${value(formatBitrate(stats.throughput))}`,
+            `Audio: ${value(audioTrackName)} · ${value(stats.audioCodec)}${stats.audioChannels ? ` ${stats.audioChannels}` : ''}${stats.audioSampleRate ? ` ${stats.audioSampleRate} Hz` : ''}`,
+            `Audio bitrate: ${value(formatBitrate(stats.audioBitrate))}`,
+            `Position: ${currentTime.toFixed(1)}s`,
+        ].join('\n');
+    }, [stats, backend, decoderMode, title, season, episode, streamProvider, streamName, uri, audioTrackName, currentTime]);
+
+    const toggle = useCallback(() => setVisible(prev => !prev), []);
+
+    return {
+        visible,
+        setVisible,
+        toggle,
+        stats,
+        reportStats,
+        buildReport,
+    };
+};
@@ -0,0 +1,96 @@
+/**
+ * Secondary subtitle track for dual-subtitle mode
+ * Used by both Android and iOS players alongside their primary subtitle state
+ */
+import { useState, useEffect, useCallback, useRef } from 'react';
+import {
+    DEFAULT_SECONDARY_SUBTITLE_STYLE,
+    DualSubtitleLayout,
+    SecondarySubtitleStyle,
+    SubtitleCue,
+    WyzieSubtitle
+} from '../utils/playerTypes';
+import { getActiveCues, getBottomCueText } from '../utils/subtitleParser';
+import { loadSubtitleCues } from '../utils/subtitleSync';
+import { storageService } from '../../../services/storageService';
+import { logger } from '../../../utils/logger';
+
+export const useSecondarySubtitles = (currentTime: number) => {
+    const [secondaryCues, setSecondaryCues] = useState<SubtitleCue[]>([]);
+    const [secondarySubtitle, setSecondarySubtitle] = useState<string>('');
+    const [secondarySubtitleId, setSecondarySubtitleId] = useState<string | null>(null);
+    const [isLoadingSecondary, setIsLoadingSecondary] = useState<boolean>(false);
+    // Timing offset is independent from the primary track and, like it, per session
+    const [secondaryOffsetSec, setSecondaryOffsetSec] = useState<number>(0);
+    const [dualSubtitleLayout, setDualSubtitleLayout] = useState<DualSubtitleLayout>('stacked');
+    const [secondaryStyle, setSecondaryStyle] = useState<SecondarySubtitleStyle>(DEFAULT_SECONDARY_SUBTITLE_STYLE);
+    const settingsLoaded = useRef(false);
+
+    // Load dual subtitle preferences on mount
+    useEffect(() => {
+        const loadSettings = async () => {
+            const settings = await storageService.getSubtitleSettings();
+            if (settings?.dualSubtitleLayout) setDualSubtitleLayout(settings.dualSubtitleLayout);
+            if (settings?.secondarySubtitleStyle) {
+                setSecondaryStyle({ ...DEFAULT_SECONDARY_SUBTITLE_STYLE, ...settings.secondarySubtitleStyle });
+            }
+            settingsLoaded.current = true;
+        };
+        loadSettings();
+    }, []);
+
+    // Save dual subtitle preferences when they change (not before they were loaded)
+    useEffect(() => {
+        if (!settingsLoaded.current) return;
+        storageService.saveSubtitleSettings({
+            dualSubtitleLayout,
+            secondarySubtitleStyle: secondaryStyle,
+        });
+    }, [dualSubtitleLayout, secondaryStyle]);
+
+    // Sync secondary text with playback time
+    useEffect(() => {
+        if (secondaryCues.length === 0) return;
+        const text = getBottomCueText(getActiveCues(secondaryCues, currentTime + (secondaryOffsetSec || 0)));
+        setSecondarySubtitle(prev => prev === text ? prev : text);
+    }, [currentTime, secondaryCues, secondaryOffsetSec]);
+
+    const loadSecondarySubtitle = useCallback(async (subtitle: WyzieSubtitle) => {
+        setIsLoadingSecondary(true);
+        try {
+            const cues = await loadSubtitleCues(subtitle.url);
+            setSecondaryCues(cues);
+            setSecondarySubtitleId(subtitle.id);
+            logger.info(`[useSecondarySubtitles] Loaded secondary subtitle: ${subtitle.display} (${cues.length} cues)`);
+        } catch (error) {
+            logger.error('[useSecondarySubtitles] Failed to load secondary subtitle', error);
+        } finally {
+            setIsLoadingSecondary(false);
+        }
+    }, []);
+
+    const clearSecondarySubtitle = useCallback(() => {
+        setSecondaryCues([]);
+        setSecondarySubtitle('');
+        setSecondarySubtitleId(null);
+    }, []);
+
+    const updateSecondaryStyle = useCallback((updates: Partial<SecondarySubtitleStyle>) => {
+        setSecondaryStyle(prev => ({ ...prev, ...updates }));
+    }, []);
+
+    return {
+        secondaryCues,
+        secondarySubtitle,
+        secondarySubtitleId,
+        isLoadingSecondary,
+        isDualActive: secondarySubtitleId !== null,
+        secondaryOffsetSec, setSecondaryOffsetSec,
+        dualSubtitleLayout, setDualSubtitleLayout,
+        secondaryStyle, updateSecondaryStyle,
+        loadSecondarySubtitle,
+        clearSecondarySubtitle,
+    };
+};
+
+export type SecondarySubtitlesState = ReturnType<typeof useSecondarySubtitles>;
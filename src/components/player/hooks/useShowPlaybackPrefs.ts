@@ -0,0 +1,56 @@
+/**
+ * Per-series playback preferences (tracks, subtitle timing, speed, resize mode, provider)
+ * Used by both Android and iOS players; applying them stays with each player
+ */
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { storageService, ShowPlaybackPrefs } from '../../../services/storageService';
+import { logger } from '../../../utils/logger';
+
+interface UseShowPlaybackPrefsParams {
+    id?: string;
+    type?: string;
+}
+
+export const useShowPlaybackPrefs = ({ id, type }: UseShowPlaybackPrefsParams) => {
+    const [prefs, setPrefs] = useState<ShowPlaybackPrefs | null>(null);
+    const [isLoaded, setIsLoaded] = useState<boolean>(false);
+    // Auto-selection reads this inside callbacks that may hold a stale render
+    const prefsRef = useRef<ShowPlaybackPrefs | null>(null);
+
+    // Movies keep using the global settings only
+    const enabled = !!id && !!type && type !== 'movie';
+
+    useEffect(() => {
+        let cancelled = false;
+        setIsLoaded(false);
+        prefsRef.current = null;
+        setPrefs(null);
+        if (!enabled || !id) {
+            setIsLoaded(true);
+            return;
+        }
+        storageService.getShowPlaybackPrefs(id).then(stored => {
+            if (cancelled) return;
+            if (stored) logger.info(`[useShowPlaybackPrefs] Loaded playback preferences for ${id}`);
+            prefsRef.current = stored;
+            setPrefs(stored);
+            setIsLoaded(true);
+        });
+        return () => { cancelled = true; };
+    }, [id, enabled]);
+
+    const updatePrefs = useCallback((changes: Partial<Omit<ShowPlaybackPrefs, 'updatedAt'>>) => {
+        if (!enabled || !id) return;
+        const next: ShowPlaybackPrefs = { ...prefsRef.current, ...changes, updatedAt: Date.now() };
+        prefsRef.current = next;
+        setPrefs(next);
+        storageService.updateShowPlaybackPrefs(id, changes);
+    }, [id, enabled]);
+
+    return {
+        prefs,
+        prefsRef,
+        isLoaded,
+        updatePrefs,
+    };
+};
@@ -1,5 +1,12 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useMemo, useCallback } from 'react';
 import { introService, SkipInterval } from '../../../services/introService';
+import {
+    localSkipSegmentsService,
+    mergeSkipSegments,
+    kindOfSkipType,
+    LocalSkipSegment,
+    ShowSkipDefault
+} from '../../../services/localSkipSegmentsService';
 import { logger } from '../../../utils/logger';
 
 interface UseSkipSegmentsProps {
@@ -9,6 +16,8 @@ interface UseSkipSegmentsProps {
     episode?: number;
     malId?: string;
     kitsuId?: string;
+    showId?: string; // Base content id, keys the user's own segments
+    duration?: number; // Needed for show defaults measured from the end
     enabled: boolean;
 }
 
@@ -19,9 +28,14 @@ export const useSkipSegments = ({
     episode,
     malId,
     kitsuId,
+    showId,
+    duration = 0,
     enabled
 }: UseSkipSegmentsProps) => {
-    const [segments, setSegments] = useState<SkipInterval[]>([]);
+    const [remoteSegments, setRemoteSegments] = useState<SkipInterval[]>([]);
+    const [episodeSegments, setEpisodeSegments] = useState<LocalSkipSegment[]>([]);
+    const [showDefaults, setShowDefaults] = useState<ShowSkipDefault[]>([]);
+    const [localVersion, setLocalVersion] = useState(0);
     const [isLoading, setIsLoading] = useState(false);
     const fetchedRef = useRef(false);
     const lastKeyRef = useRef('');
@@ -30,7 +44,7 @@ export const useSkipSegments = ({
         const key = `${imdbId}-${season}-${episode}-${malId}-${kitsuId}`;
 
         if (!enabled || type !== 'series' || (!imdbId && !malId && !kitsuId) || !season || !episode) {
-            setSegments([]);
+            setRemoteSegments([]);
             setIsLoading(false);
             fetchedRef.current = false;
             lastKeyRef.current = '';
@@ -43,7 +57,7 @@ export const useSkipSegments = ({
 
         // Clear stale intervals while resolving a new episode/key.
         if (lastKeyRef.current !== key) {
-            setSegments([]);
+            setRemoteSegments([]);
             fetchedRef.current = false;
         }
 
@@ -57,12 +71,12 @@ export const useSkipSegments = ({
 
                 // Ignore stale responses from old requests.
                 if (cancelled || lastKeyRef.current !== key) return;
-                setSegments(intervals);
+                setRemoteSegments(intervals);
                 fetchedRef.current = true;
             } catch (error) {
                 if (cancelled || lastKeyRef.current !== key) return;
                 logger.error('[useSkipSegments] Error fetching skip data:', error);
-                setSegments([]);
+                setRemoteSegments([]);
                 // Keep this key retryable on transient failures.
                 fetchedRef.current = false;
             } finally {
@@ -78,6 +92,33 @@ export const useSkipSegments = ({
         };
     }, [imdbId, type, season, episode, malId, kitsuId, enabled]);
 
+    // Segments the user marked themselves; reloaded after edits via refreshLocalSegments
+    useEffect(() => {
+        if (!enabled || type !== 'series' || !showId || !season || !episode) {
+            setEpisodeSegments([]);
+            setShowDefaults([]);
+            return;
+        }
+        let cancelled = false;
+        localSkipSegmentsService.getSegments(showId, season, episode)
+            .then(local => {
+                if (cancelled) return;
+                setEpisodeSegments(local.episodeSegments);
+                setShowDefaults(local.showDefaults);
+            })
+            .catch(error => logger.error('[useSkipSegments] Error loading local segments:', error));
+        return () => {
+            cancelled = true;
+        };
+    }, [showId, type, season, episode, enabled, localVersion]);
+
+    const refreshLocalSegments = useCallback(() => setLocalVersion(v => v + 1), []);
+
+    const segments = useMemo(
+        () => mergeSkipSegments(remoteSegments, episodeSegments, showDefaults, duration),
+        [remoteSegments, episodeSegments, showDefaults, duration]
+    );
+
     const getActiveSegment = (currentTime: number) => {
         return segments.find(
             s => currentTime >= s.startTime && currentTime < (s.endTime - 0.5)
@@ -91,10 +132,19 @@ export const useSkipSegments = ({
             return latest;
         }, null);
 
+    // User-marked credits bring Up Next forward to where the credits start
+    const creditsStartTime = segments.find(
+        s => s.provider === 'local' && kindOfSkipType(s.type) === 'credits'
+    )?.startTime ?? null;
+
     return {
         segments,
         getActiveSegment,
         outroSegment,
+        creditsStartTime,
+        episodeSegments,
+        showDefaults,
+        refreshLocalSegments,
         isLoading
     };
 };
@@ -0,0 +1,81 @@
+import { useState, useEffect, useMemo } from 'react';
+import {
+    getTorrentSource,
+    resolveTorrent,
+    TorrentResolveProgress,
+    TorrentSource,
+    TorrentResolverMode,
+} from '../../../services/torrentStreamService';
+import { logger } from '../../../utils/logger';
+
+interface UseTorrentResolutionProps {
+    uri: string;
+    torrent?: TorrentSource;
+    mode: TorrentResolverMode;
+    serverUrl?: string;
+    enabled: boolean; // False until settings are loaded
+}
+
+const isHttpUri = (uri: string) => /^https?:\/\//i.test(uri);
+
+/**
+ * Resolves torrent streams (magnet URIs or an explicit torrent param) into a
+ * playable URL before the video surface mounts. Regular URLs pass through,
+ * even when the stream also carries an infoHash.
+ */
+export const useTorrentResolution = ({ uri, torrent, mode, serverUrl, enabled }: UseTorrentResolutionProps) => {
+    const source = useMemo(
+        () => (isHttpUri(uri) ? null : torrent || getTorrentSource({ url: uri })),
+        [torrent, uri]
+    );
+    const [resolvedUri, setResolvedUri] = useState<string | null>(source ? null : uri);
+    const [progress, setProgress] = useState<TorrentResolveProgress | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!source) {
+            setResolvedUri(uri);
+            setProgress(null);
+            setError(null);
+            return;
+        }
+        if (!enabled) return;
+
+        let cancelled = false;
+        setResolvedUri(null);
+        setError(null);
+
+        resolveTorrent(source, {
+            mode,
+            serverUrl,
+            onProgress: update => {
+                if (!cancelled) setProgress(update);
+            },
+            isCancelled: () => cancelled,
+        })
+            .then(result => {
+                if (cancelled) return;
+                logger.log(`[useTorrentResolution] Resolved ${source.infoHash} via ${result.via}${result.provider ? ` (${result.provider})` : ''}`);
+                setResolvedUri(result.url);
+            })
+            .catch(err => {
+                if (cancelled) return;
+                logger.error('[useTorrentResolution] Failed to resolve torrent:', err);
+                setError(err?.message || 'Failed to resolve torrent stream');
+            });
+
+        return () => {
+            cancelled = true;
+        };
+        // Settings changes mid-playback should not restart resolution
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [source?.infoHash, source?.fileIdx, uri, enabled]);
+
+    return {
+        isTorrent: !!source,
+        isResolving: !!source && !resolvedUri && !error,
+        streamUri: resolvedUri || '',
+        progress: resolvedUri ? null : progress,
+        error,
+    };
+};
@@ -0,0 +1,220 @@
+/**
+ * Watch party: keeps this player in step with the other members of a session
+ * Used by both Android and iOS players; navigation stays with each player
+ */
+import { useState, useEffect, useRef, useCallback } from 'react';
+import {
+    watchPartyService,
+    WatchPartyMedia,
+    WatchPartyPayload,
+    WatchPartySession,
+} from '../../../services/watchPartyService';
+import { bingeService } from '../../../services/bingeService';
+import { BestStreamOptions } from '../../../screens/streams/utils';
+import { Episode, GroupedEpisodes, Stream } from '../../../types/metadata';
+import { PlaybackControlEvent } from './usePlayerControls';
+import { logger } from '../../../utils/logger';
+
+interface UseWatchPartyParams {
+    media: WatchPartyMedia | null;
+    currentTime: number;
+    duration: number;
+    paused: boolean;
+    setPaused: (paused: boolean) => void;
+    seekToTime: (seconds: number) => void;
+    groupedEpisodes?: GroupedEpisodes | null;
+    streamOptions: BestStreamOptions;
+    onFollowEpisode: (episode: Episode, stream: Stream) => void;
+    onFollowError: (message: string) => void;
+}
+
+const HEARTBEAT_MS = 3000;
+// Followers only seek once they are further off than this
+const DRIFT_TOLERANCE_SECONDS = 2;
+// Give a correction seek time to land before judging drift again
+const CORRECTION_COOLDOWN_MS = 5000;
+
+const mediaKey = (media: WatchPartyMedia | null) =>
+    media ? `${media.id}:${media.season ?? ''}:${media.episode ?? ''}` : '';
+
+export const useWatchParty = ({
+    media,
+    currentTime,
+    duration,
+    paused,
+    setPaused,
+    seekToTime,
+    groupedEpisodes,
+    streamOptions,
+    onFollowEpisode,
+    onFollowError,
+}: UseWatchPartyParams) => {
+    const [session, setSession] = useState<WatchPartySession | null>(() => watchPartyService.getSession());
+
+    // Handlers below run from socket callbacks, so they read the latest render through refs
+    const stateRef = useRef({ media, currentTime, duration, paused, groupedEpisodes });
+    stateRef.current = { media, currentTime, duration, paused, groupedEpisodes };
+    const callbacksRef = useRef({ setPaused, seekToTime, onFollowEpisode, onFollowError, streamOptions });
+    callbacksRef.current = { setPaused, seekToTime, onFollowEpisode, onFollowError, streamOptions };
+    const sessionRef = useRef(session);
+    sessionRef.current = session;
+
+    // Set while applying a remote change so it is not sent straight back
+    const applyingRemoteRef = useRef(false);
+    // Followers stay quiet until they have caught up with the group once
+    const syncedRef = useRef(false);
+    const lastCorrectionRef = useRef(0);
+    const pendingRemoteRef = useRef<{ payload: WatchPartyPayload; serverTime: number } | null>(null);
+    const followingKeyRef = useRef<string | null>(null);
+
+    const currentKey = mediaKey(media);
+    const isHost = !!session?.isHost;
+
+    const sendState = useCallback(() => {
+        const { media: current, currentTime: position, duration: total, paused: isPaused } = stateRef.current;
+        // Before the video loads the position is meaningless and would pull everyone to the start
+        if (!current || total <= 0) return;
+        watchPartyService.send({ kind: 'state', position, paused: isPaused, media: current });
+    }, []);
+
+    const followHostMedia = useCallback((target: WatchPartyMedia) => {
+        const key = mediaKey(target);
+        if (followingKeyRef.current === key) return;
+        followingKeyRef.current = key;
+
+        const { media: current, groupedEpisodes: episodes } = stateRef.current;
+        const episode = target.season != null && target.episode != null
+            ? episodes?.[target.season]?.find(ep => ep.episode_number === target.episode)
+            : null;
+        if (!current || target.id !== current.id || !episode) {
+            callbacksRef.current.onFollowError(`The host is watching ${target.title || 'something else'}`);
+            return;
+        }
+
+        logger.log(`[useWatchParty] Following host to S${target.season}E${target.episode}`);
+        const episodeId = target.episodeId || episode.stremioId || `${target.id}:${target.season}:${target.episode}`;
+        bingeService.resolveEpisodeStream({ id: target.id, episodeId, options: callbacksRef.current.streamOptions })
+            .then(stream => {
+                if (followingKeyRef.current !== key) return;
+                if (stream) callbacksRef.current.onFollowEpisode(episode, stream);
+                else callbacksRef.current.onFollowError(`No stream found for S${target.season}E${target.episode}`);
+            })
+            .catch(error => {
+                logger.warn('[useWatchParty] Could not resolve the host episode stream', error);
+                callbacksRef.current.onFollowError('Could not load the host episode');
+            });
+    }, []);
+
+    const applyRemote = useCallback((payload: WatchPartyPayload, serverTime: number) => {
+        if (payload.kind === 'request_state') return;
+        const { currentTime: position, duration: total, paused: isPaused } = stateRef.current;
+        if (total <= 0) {
+            // Not loaded yet; apply once the duration is known
+            pendingRemoteRef.current = { payload, serverTime };
+            return;
+        }
+
+        const elapsed = payload.paused ? 0 : Math.max(0, watchPartyService.serverNow() - serverTime) / 1000;
+        const expected = payload.position + elapsed;
+        const drift = Math.abs(position - expected);
+        const now = Date.now();
+        const shouldSeek = payload.kind === 'control' && payload.action === 'seek'
+            ? true
+            : drift > DRIFT_TOLERANCE_SECONDS && now - lastCorrectionRef.current > CORRECTION_COOLDOWN_MS;
+
+        applyingRemoteRef.current = true;
+        try {
+            if (payload.paused !== isPaused) callbacksRef.current.setPaused(payload.paused);
+            if (shouldSeek) {
+                if (payload.kind === 'state') logger.log(`[useWatchParty] Correcting drift of ${drift.toFixed(1)}s`);
+                lastCorrectionRef.current = now;
+                callbacksRef.current.seekToTime(expected);
+            }
+        } finally {
+            applyingRemoteRef.current = false;
+        }
+        syncedRef.current = true;
+    }, []);
+
+    useEffect(() => {
+        return watchPartyService.subscribe(event => {
+            if (event.type === 'session') {
+                sessionRef.current = event.session;
+                setSession(event.session);
+                if (!event.session) syncedRef.current = false;
+                return;
+            }
+            if (event.type !== 'message') return;
+
+            const current = sessionRef.current;
+            const { payload, from, serverTime } = event;
+            if (!current) return;
+
+            if (payload.kind === 'request_state') {
+                if (current.isHost) sendState();
+                return;
+            }
+            const fromHost = from === current.hostId;
+            if (mediaKey(payload.media) !== mediaKey(stateRef.current.media)) {
+                // Only the host decides what everyone watches
+                if (fromHost && !current.isHost) followHostMedia(payload.media);
+                return;
+            }
+            // Heartbeats come from the host; anyone's play/pause/seek applies
+            if (payload.kind === 'state' && !fromHost) return;
+            applyRemote(payload, serverTime);
+        });
+    }, [sendState, followHostMedia, applyRemote]);
+
+    // New title or episode in this player
+    useEffect(() => {
+        syncedRef.current = false;
+        pendingRemoteRef.current = null;
+        followingKeyRef.current = null;
+    }, [currentKey]);
+
+    // Catch up on joining or after switching episodes
+    useEffect(() => {
+        if (!session?.code || !currentKey) return;
+        if (isHost) sendState();
+        else watchPartyService.send({ kind: 'request_state' });
+    }, [session?.code, isHost, currentKey, sendState]);
+
+    // Host heartbeat: position, pause state and what is playing
+    useEffect(() => {
+        if (!session?.code || !isHost || !currentKey) return;
+        const timer = setInterval(sendState, HEARTBEAT_MS);
+        return () => clearInterval(timer);
+    }, [session?.code, isHost, currentKey, sendState]);
+
+    // Someone joined: let them catch up right away
+    const memberCount = session?.members.length ?? 0;
+    useEffect(() => {
+        if (isHost && memberCount > 1) sendState();
+    }, [isHost, memberCount, sendState]);
+
+    useEffect(() => {
+        if (duration <= 0 || !pendingRemoteRef.current) return;
+        const { payload, serverTime } = pendingRemoteRef.current;
+        pendingRemoteRef.current = null;
+        applyRemote(payload, serverTime);
+    }, [duration, applyRemote]);
+
+    // Pass to usePlayerControls so local play/pause/seek reaches the others
+    const handlePlaybackEvent = useCallback((event: PlaybackControlEvent) => {
+        const current = sessionRef.current;
+        const playing = stateRef.current.media;
+        if (!current || !playing || applyingRemoteRef.current) return;
+        if (!current.isHost && !syncedRef.current) return;
+        const isPaused = event.action === 'seek' ? stateRef.current.paused : event.action === 'pause';
+        watchPartyService.send({ kind: 'control', action: event.action, position: event.position, paused: isPaused, media: playing });
+    }, []);
+
+    return {
+        session,
+        isActive: !!session,
+        isHost,
+        memberCount,
+        handlePlaybackEvent,
+    };
+};
@@ -10,6 +10,7 @@ import Animated, {
 import { useTranslation } from 'react-i18next';
 import { Episode } from '../../../types/metadata';
 import { Stream } from '../../../types/streams';
+import { getParsedStreamInfo } from '../../../utils/streamParser';
 import { stremioService } from '../../../services/stremioService';
 import { logger } from '../../../utils/logger';
 
@@ -131,12 +132,6 @@ export const EpisodeStreamsModal: React.FC<EpisodeStreamsModalProps> = ({
     }
   };
 
-  const getQualityFromTitle = (title?: string): string | null => {
-    if (!title) return null;
-    const match = title.match(/(\d+)p/);
-    return match ? match[1] : null;
-  };
-
   if (!visible) return null;
 
   const sortedProviders = Object.entries(availableStreams);
@@ -217,7 +212,8 @@ export const EpisodeStreamsModal: React.FC<EpisodeStreamsModalProps> = ({
 
               <View style={{ gap: 8 }}>
                 {providerData.streams.map((stream, index) => {
-                  const quality = getQualityFromTitle(stream.title) || stream.quality;
+                  const resolution = getParsedStreamInfo(stream).resolution;
+                  const quality = resolution ? String(resolution) : stream.quality;
 
                   return (
                     <TouchableOpacity
@@ -1,5 +1,5 @@
 import React, { useEffect } from 'react';
-import { View, TouchableOpacity, Animated, ActivityIndicator, StyleSheet, Image } from 'react-native';
+import { View, Text, TouchableOpacity, Animated, ActivityIndicator, StyleSheet, Image } from 'react-native';
 import { MaterialIcons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
 import Reanimated, {
@@ -11,7 +11,9 @@ import Reanimated, {
   Easing,
   withDelay
 } from 'react-native-reanimated';
+import { useTranslation } from 'react-i18next';
 import { styles } from '../utils/playerStyles';
+import { TorrentResolveProgress } from '../../../services/torrentStreamService';
 
 interface LoadingOverlayProps {
   visible: boolean;
@@ -23,8 +25,14 @@ interface LoadingOverlayProps {
   onClose: () => void;
   width: number | string;
   height: number | string;
+  torrentProgress?: TorrentResolveProgress | null;
 }
 
+const formatSpeed = (bytesPerSecond: number): string => {
+  if (bytesPerSecond >= 1024 * 1024) return `${(bytesPerSecond / (1024 * 1024)).toFixed(1)} MB/s`;
+  return `${Math.round(bytesPerSecond / 1024)} KB/s`;
+};
+
 const LoadingOverlay: React.FC<LoadingOverlayProps> = ({
   visible,
   backdrop,
@@ -35,7 +43,9 @@ const LoadingOverlay: React.FC<LoadingOverlayProps> = ({
   onClose,
   width,
   height,
+  torrentProgress,
 }) => {
+  const { t } = useTranslation();
   const logoOpacity = useSharedValue(0);
   const logoScale = useSharedValue(1);
 
@@ -145,6 +155,22 @@ const LoadingOverlay: React.FC<LoadingOverlayProps> = ({
         ) : (
           <ActivityIndicator size="large" color="#E50914" />
         )}
+        {torrentProgress && (
+          <View style={styles.torrentStatusContainer}>
+            <Text style={styles.torrentStatusText}>
+              {torrentProgress.via === 'debrid'
+                ? t('player_ui.torrent_resolving_debrid')
+                : t('player_ui.torrent_resolving_server')}
+            </Text>
+            <Text style={styles.torrentStatsText}>
+              {[
+                typeof torrentProgress.progress === 'number' ? `${torrentProgress.progress}%` : null,
+                typeof torrentProgress.peers === 'number' ? t('player_ui.torrent_peers', { count: torrentProgress.peers }) : null,
+                torrentProgress.speed ? formatSpeed(torrentProgress.speed) : null,
+              ].filter(Boolean).join(' · ') || t('player_ui.torrent_connecting')}
+            </Text>
+          </View>
+        )}
       </View>
     </Animated.View>
   );
@@ -0,0 +1,357 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, TouchableOpacity, useWindowDimensions, StyleSheet, TextInput, ScrollView, Switch } from 'react-native';
+import { Ionicons, MaterialIcons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import Animated, {
+  FadeIn,
+  FadeOut,
+  SlideInDown,
+  SlideOutDown,
+} from 'react-native-reanimated';
+import {
+  localSkipSegmentsService,
+  LocalSegmentKind,
+  LocalSkipSegment,
+  ShowSkipDefault,
+} from '../../../services/localSkipSegmentsService';
+import { toastService } from '../../../services/toastService';
+import { formatTime, parseTimeInput } from '../utils/playerUtils';
+
+interface SkipSegmentEditorModalProps {
+  visible: boolean;
+  onClose: () => void;
+  currentTime: number;
+  duration: number;
+  showId?: string;
+  season?: number;
+  episode?: number;
+  episodeSegments: LocalSkipSegment[];
+  showDefaults: ShowSkipDefault[];
+  onChanged: () => void; // Reload segments after a save or delete
+}
+
+// Marks intro/recap/credits ranges on the device, for this episode or the whole show
+export const SkipSegmentEditorModal: React.FC<SkipSegmentEditorModalProps> = ({
+  visible,
+  onClose,
+  currentTime,
+  duration,
+  showId,
+  season,
+  episode,
+  episodeSegments,
+  showDefaults,
+  onChanged,
+}) => {
+  const { t } = useTranslation();
+  const { width } = useWindowDimensions();
+
+  const [kind, setKind] = useState<LocalSegmentKind>('intro');
+  const [startTimeStr, setStartTimeStr] = useState('0:00');
+  const [endTimeStr, setEndTimeStr] = useState(formatTime(currentTime));
+  const [applyToShow, setApplyToShow] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    // Credits usually run to the end, so start from the current position instead
+    if (kind === 'credits') {
+      setStartTimeStr(formatTime(currentTime));
+      setEndTimeStr(formatTime(duration));
+    } else {
+      setEndTimeStr(formatTime(currentTime));
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [visible, kind]);
+
+  if (!visible) return null;
+
+  const kinds: { label: string; value: LocalSegmentKind; icon: any }[] = [
+    { label: t('player_ui.segment_intro'), value: 'intro', icon: 'play-circle-outline' },
+    { label: t('player_ui.segment_recap'), value: 'recap', icon: 'replay' },
+    { label: t('player_ui.segment_credits'), value: 'credits', icon: 'stop-circle' },
+  ];
+  const kindLabel = (value: LocalSegmentKind) => kinds.find(k => k.value === value)?.label || value;
+
+  const canSave = !!showId && season !== undefined && episode !== undefined;
+
+  const handleSave = async () => {
+    const startSec = parseTimeInput(startTimeStr);
+    const endSec = parseTimeInput(endTimeStr);
+    if (startSec === null || endSec === null) {
+      toastService.error(t('player_ui.segment_invalid_time'));
+      return;
+    }
+    if (endSec <= startSec) {
+      toastService.warning(t('player_ui.segment_end_before_start'));
+      return;
+    }
+    if (!canSave) return;
+
+    setIsSaving(true);
+    try {
+      const segment = { kind, startTime: startSec, endTime: endSec };
+      await localSkipSegmentsService.saveEpisodeSegment(showId!, season!, episode!, segment);
+      if (applyToShow) {
+        await localSkipSegmentsService.saveShowDefault(showId!, segment, duration);
+      }
+      toastService.success(t('player_ui.segment_saved'));
+      onChanged();
+    } catch (error: any) {
+      toastService.error(error?.message || t('player_ui.segment_save_failed'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const removeEpisodeSegment = async (segmentKind: LocalSegmentKind) => {
+    if (!canSave) return;
+    await localSkipSegmentsService.removeEpisodeSegment(showId!, season!, episode!, segmentKind);
+    onChanged();
+  };
+
+  const removeShowDefault = async (segmentKind: LocalSegmentKind) => {
+    if (!showId) return;
+    await localSkipSegmentsService.removeShowDefault(showId, segmentKind);
+    onChanged();
+  };
+
+  const describeDefault = (segment: ShowSkipDefault) => segment.anchor === 'end'
+    ? t('player_ui.segment_before_end', { start: formatTime(segment.startTime), end: formatTime(segment.endTime) })
+    : `${formatTime(segment.startTime)} – ${formatTime(segment.endTime)}`;
+
+  return (
+    <View style={[StyleSheet.absoluteFill, { zIndex: 10000 }]}>
+      <TouchableOpacity
+        style={StyleSheet.absoluteFill}
+        activeOpacity={1}
+        onPress={onClose}
+      >
+        <Animated.View entering={FadeIn} exiting={FadeOut} style={{ flex: 1, backgroundColor: 'rgba(0,0,0,0.4)' }} />
+      </TouchableOpacity>
+
+      <View pointerEvents="box-none" style={localStyles.centeredView}>
+        <Animated.View
+          entering={SlideInDown.duration(300)}
+          exiting={SlideOutDown.duration(250)}
+          style={[localStyles.modalContainer, { width: Math.min(width * 0.85, 400) }]}
+        >
+          <View style={localStyles.header}>
+            <Text style={localStyles.title}>{t('player_ui.skip_segments')}</Text>
+            <TouchableOpacity onPress={onClose} style={{ padding: 4 }}>
+              <Ionicons name="close" size={24} color="rgba(255,255,255,0.5)" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView showsVerticalScrollIndicator={false} contentContainerStyle={{ gap: 18 }}>
+            <View style={localStyles.typeRow}>
+              {kinds.map((k) => (
+                <TouchableOpacity
+                  key={k.value}
+                  onPress={() => setKind(k.value)}
+                  style={[localStyles.typeButton, kind === k.value && localStyles.typeButtonActive]}
+                >
+                  <MaterialIcons name={k.icon} size={18} color={kind === k.value ? 'black' : 'rgba(255,255,255,0.6)'} />
+                  <Text style={[localStyles.typeButtonText, kind === k.value && { color: 'black' }]}>{k.label}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {[
+              { label: t('player_ui.segment_start'), value: startTimeStr, onChange: setStartTimeStr },
+              { label: t('player_ui.segment_end'), value: endTimeStr, onChange: setEndTimeStr },
+            ].map((field) => (
+              <View key={field.label} style={localStyles.inputRow}>
+                <View style={{ flex: 1 }}>
+                  <Text style={localStyles.label}>{field.label}</Text>
+                  <TextInput
+                    style={localStyles.input}
+                    value={field.value}
+                    onChangeText={field.onChange}
+                    placeholder="0:00"
+                    placeholderTextColor="rgba(255,255,255,0.3)"
+                    keyboardType="numbers-and-punctuation"
+                  />
+                </View>
+                <TouchableOpacity onPress={() => field.onChange(formatTime(currentTime))} style={localStyles.captureBtn}>
+                  <MaterialIcons name="my-location" size={20} color="white" />
+                  <Text style={localStyles.captureText}>{t('player_ui.segment_capture')}</Text>
+                </TouchableOpacity>
+              </View>
+            ))}
+
+            <View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' }}>
+              <View style={{ flex: 1, marginRight: 12 }}>
+                <Text style={{ color: 'white', fontWeight: '600' }}>{t('player_ui.segment_apply_show')}</Text>
+                <Text style={{ color: 'rgba(255,255,255,0.5)', fontSize: 12, marginTop: 2 }}>{t('player_ui.segment_apply_show_hint')}</Text>
+              </View>
+              <Switch value={applyToShow} onValueChange={setApplyToShow} />
+            </View>
+
+            <TouchableOpacity
+              onPress={handleSave}
+              disabled={isSaving || !canSave}
+              style={[localStyles.saveBtn, (isSaving || !canSave) && { opacity: 0.5 }]}
+            >
+              <MaterialIcons name="save" size={18} color="black" />
+              <Text style={localStyles.saveBtnText}>{t('player_ui.segment_save')}</Text>
+            </TouchableOpacity>
+
+            {episodeSegments.length > 0 && (
+              <View style={{ gap: 8 }}>
+                <Text style={localStyles.label}>{t('player_ui.segment_this_episode')}</Text>
+                {episodeSegments.map((segment) => (
+                  <View key={`episode-${segment.kind}`} style={localStyles.savedRow}>
+                    <Text style={localStyles.savedText}>
+                      {kindLabel(segment.kind)} · {formatTime(segment.startTime)} – {formatTime(segment.endTime)}
+                    </Text>
+                    <TouchableOpacity onPress={() => removeEpisodeSegment(segment.kind)}>
+                      <MaterialIcons name="delete-outline" size={20} color="rgba(255,255,255,0.7)" />
+                    </TouchableOpacity>
+                  </View>
+                ))}
+              </View>
+            )}
+
+            {showDefaults.length > 0 && (
+              <View style={{ gap: 8 }}>
+                <Text style={localStyles.label}>{t('player_ui.segment_show_defaults')}</Text>
+                {showDefaults.map((segment) => (
+                  <View key={`show-${segment.kind}`} style={localStyles.savedRow}>
+                    <Text style={localStyles.savedText}>{kindLabel(segment.kind)} · {describeDefault(segment)}</Text>
+                    <TouchableOpacity onPress={() => removeShowDefault(segment.kind)}>
+                      <MaterialIcons name="delete-outline" size={20} color="rgba(255,255,255,0.7)" />
+                    </TouchableOpacity>
+                  </View>
+                ))}
+              </View>
+            )}
+          </ScrollView>
+        </Animated.View>
+      </View>
+    </View>
+  );
+};
+
+const localStyles = StyleSheet.create({
+  centeredView: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingBottom: 40,
+  },
+  modalContainer: {
+    backgroundColor: 'rgba(20, 20, 20, 0.98)',
+    borderRadius: 28,
+    padding: 24,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+    elevation: 20,
+    maxHeight: '85%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  title: {
+    color: 'white',
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  typeRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  typeButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    backgroundColor: 'rgba(255,255,255,0.05)',
+    borderRadius: 12,
+    paddingVertical: 10,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+  },
+  typeButtonActive: {
+    backgroundColor: 'white',
+    borderColor: 'white',
+  },
+  typeButtonText: {
+    color: 'rgba(255,255,255,0.6)',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 12,
+  },
+  label: {
+    color: 'rgba(255,255,255,0.6)',
+    fontSize: 12,
+    marginBottom: 8,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  input: {
+    backgroundColor: 'rgba(255,255,255,0.05)',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    color: 'white',
+    fontSize: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+  },
+  captureBtn: {
+    backgroundColor: 'rgba(255,255,255,0.1)',
+    height: 48,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+  },
+  captureText: {
+    color: 'white',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  saveBtn: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    height: 52,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 10,
+  },
+  saveBtnText: {
+    color: 'black',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  savedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: 'rgba(255,255,255,0.05)',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+  },
+  savedText: {
+    color: 'white',
+    fontSize: 14,
+    flex: 1,
+    marginRight: 8,
+  },
+});
+
+export default SkipSegmentEditorModal;
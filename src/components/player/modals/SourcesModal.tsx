@@ -9,6 +9,7 @@ import Animated, {
 } from 'react-native-reanimated';
 import { useTranslation } from 'react-i18next';
 import { Stream } from '../../../types/streams';
+import { getParsedStreamInfo } from '../../../utils/streamParser';
 
 interface SourcesModalProps {
   showSourcesModal: boolean;
@@ -76,12 +77,6 @@ export const SourcesModal: React.FC<SourcesModalProps> = ({
     }
   };
 
-  const getQualityFromTitle = (title?: string): string | null => {
-    if (!title) return null;
-    const match = title.match(/(\d+)p/);
-    return match ? match[1] : null;
-  };
-
   const isStreamSelected = (stream: Stream): boolean => {
     return stream.url === currentStreamUrl;
   };
@@ -167,7 +162,8 @@ export const SourcesModal: React.FC<SourcesModalProps> = ({
                 <View style={{ gap: 8 }}>
                   {providerData.streams.map((stream, index) => {
                     const isSelected = isStreamSelected(stream);
-                    const quality = getQualityFromTitle(stream.title) || stream.quality;
+                    const resolution = getParsedStreamInfo(stream).resolution;
+                    const quality = resolution ? String(resolution) : stream.quality;
 
                     return (
                       <TouchableOpacity
@@ -12,6 +12,7 @@ import Animated, {
 import { useTranslation } from 'react-i18next';
 import { WyzieSubtitle, SubtitleCue } from '../utils/playerTypes';
 import { getTrackDisplayName, formatLanguage } from '../utils/playerUtils';
+import type { SecondarySubtitlesState } from '../hooks/useSecondarySubtitles';
 
 interface SubtitleModalsProps {
   showSubtitleModal: boolean;
@@ -62,6 +63,9 @@ interface SubtitleModalsProps {
   setSubtitleOffsetSec: (n: number) => void;
   selectedExternalSubtitleId?: string | null; // ID of currently selected external/addon subtitle
   onOpenSyncModal?: () => void; // Callback to open the visual sync modal
+  secondarySubtitles?: SecondarySubtitlesState; // Dual-subtitle state; omit to hide the feature
+  onImportSubtitle?: () => void; // Pick a .srt/.vtt/.ass file from device storage
+  isImportingSubtitle?: boolean;
 }
 
 const MorphingTab = ({ label, isSelected, onPress }: any) => {
@@ -96,6 +100,9 @@ export const SubtitleModals: React.FC<SubtitleModalsProps> = ({
   setSubtitlesAutoSelect,
   selectedExternalSubtitleId,
   onOpenSyncModal,
+  secondarySubtitles,
+  onImportSubtitle,
+  isImportingSubtitle = false,
 }) => {
   const { t } = useTranslation();
   const { width, height } = useWindowDimensions();
@@ -200,13 +207,93 @@ export const SubtitleModals: React.FC<SubtitleModalsProps> = ({
 
               {activeTab === 'addon' && (
                 <View style={{ gap: 8 }}>
+                  {onImportSubtitle && (
+                    <TouchableOpacity
+                      onPress={onImportSubtitle}
+                      disabled={isImportingSubtitle}
+                      style={{ padding: 10, borderRadius: 12, backgroundColor: 'rgba(255,255,255,0.08)', borderWidth: 1, borderColor: 'rgba(255,255,255,0.15)', flexDirection: 'row', alignItems: 'center', justifyContent: 'center', opacity: isImportingSubtitle ? 0.5 : 1 }}
+                    >
+                      <MaterialIcons name="file-upload" size={18} color="white" />
+                      <Text style={{ color: 'white', fontWeight: '600', marginLeft: 8 }}>
+                        {isImportingSubtitle ? t('player_ui.importing_subtitle') : t('player_ui.import_subtitle')}
+                      </Text>
+                    </TouchableOpacity>
+                  )}
                   {availableSubtitles.length === 0 ? (
                     <TouchableOpacity onPress={fetchAvailableSubtitles} style={{ padding: 40, alignItems: 'center', opacity: 0.5 }}>
                       <MaterialIcons name="cloud-download" size={32} color="white" />
                       <Text style={{ color: 'white', marginTop: 10 }}>{t('player_ui.search_online_subtitles')}</Text>
                     </TouchableOpacity>
                   ) : (
-                    availableSubtitles.map((sub) => (
+                    <>
+                    {secondarySubtitles && (
+                      <View style={{ backgroundColor: 'rgba(255,255,255,0.05)', borderRadius: 16, padding: sectionPad, gap: isCompact ? 10 : 12, marginBottom: 4 }}>
+                        <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+                          <MaterialIcons name="translate" size={16} color="rgba(255,255,255,0.7)" />
+                          <Text style={{ color: 'rgba(255,255,255,0.7)', fontSize: 12, marginLeft: 6, fontWeight: '600' }}>{t('player_ui.dual_subtitles')}</Text>
+                        </View>
+                        <Text style={{ color: 'rgba(255,255,255,0.6)', fontSize: 11 }}>{t('player_ui.dual_hint')}</Text>
+                        <View style={{ flexDirection: 'row', gap: 8 }}>
+                          {([{ key: 'stacked', label: t('player_ui.layout_stacked') }, { key: 'top_bottom', label: t('player_ui.layout_top_bottom') }] as const).map(l => (
+                            <TouchableOpacity key={l.key} onPress={() => secondarySubtitles.setDualSubtitleLayout(l.key)} style={{ paddingHorizontal: chipPadH, paddingVertical: chipPadV, borderRadius: 20, backgroundColor: secondarySubtitles.dualSubtitleLayout === l.key ? 'rgba(255,255,255,0.18)' : 'rgba(255,255,255,0.08)', borderWidth: 1, borderColor: 'rgba(255,255,255,0.15)' }}>
+                              <Text style={{ color: '#fff', fontWeight: '600', fontSize: isCompact ? 11 : 12 }}>{l.label}</Text>
+                            </TouchableOpacity>
+                          ))}
+                        </View>
+                        {secondarySubtitles.isDualActive && (
+                          <>
+                            <View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' }}>
+                              <Text style={{ color: 'white', fontWeight: '600' }}>{t('player_ui.secondary_size')}</Text>
+                              <View style={{ flexDirection: 'row', gap: 8, alignItems: 'center' }}>
+                                <TouchableOpacity onPress={() => secondarySubtitles.updateSecondaryStyle({ size: Math.max(10, secondarySubtitles.secondaryStyle.size - 2) })} style={{ width: controlBtn.size, height: controlBtn.size, borderRadius: controlBtn.radius, backgroundColor: 'rgba(255,255,255,0.18)', alignItems: 'center', justifyContent: 'center' }}>
+                                  <MaterialIcons name="remove" color="#fff" size={18} />
+                                </TouchableOpacity>
+                                <View style={{ minWidth: 42, paddingHorizontal: 6, paddingVertical: 4, borderRadius: 10, backgroundColor: 'rgba(255,255,255,0.12)' }}>
+                                  <Text style={{ color: 'white', textAlign: 'center', fontWeight: '700' }}>{secondarySubtitles.secondaryStyle.size}</Text>
+                                </View>
+                                <TouchableOpacity onPress={() => secondarySubtitles.updateSecondaryStyle({ size: secondarySubtitles.secondaryStyle.size + 2 })} style={{ width: controlBtn.size, height: controlBtn.size, borderRadius: controlBtn.radius, backgroundColor: 'rgba(255,255,255,0.18)', alignItems: 'center', justifyContent: 'center' }}>
+                                  <MaterialIcons name="add" color="#fff" size={18} />
+                                </TouchableOpacity>
+                              </View>
+                            </View>
+                            <View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' }}>
+                              <Text style={{ color: 'white', fontWeight: '600' }}>{t('player_ui.text_color')}</Text>
+                              <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 8, justifyContent: 'flex-end' }}>
+                                {['#FFFFFF', '#FFD700', '#00E5FF', '#00FF88', '#f97316'].map(c => (
+                                  <TouchableOpacity key={c} onPress={() => secondarySubtitles.updateSecondaryStyle({ textColor: c })} style={{ width: 22, height: 22, borderRadius: 11, backgroundColor: c, borderWidth: 2, borderColor: secondarySubtitles.secondaryStyle.textColor === c ? '#fff' : 'rgba(255,255,255,0.3)' }} />
+                                ))}
+                              </View>
+                            </View>
+                            <View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' }}>
+                              <Text style={{ color: 'white', fontWeight: '600' }}>{t('player_ui.show_background')}</Text>
+                              <TouchableOpacity onPress={() => secondarySubtitles.updateSecondaryStyle({ background: !secondarySubtitles.secondaryStyle.background })} style={{ paddingHorizontal: 10, paddingVertical: 8, borderRadius: 10, backgroundColor: secondarySubtitles.secondaryStyle.background ? 'rgba(255,255,255,0.18)' : 'rgba(255,255,255,0.08)', borderWidth: 1, borderColor: 'rgba(255,255,255,0.15)', alignItems: 'center' }}>
+                                <Text style={{ color: '#fff', fontWeight: '700' }}>{secondarySubtitles.secondaryStyle.background ? t('player_ui.on') : t('player_ui.off')}</Text>
+                              </TouchableOpacity>
+                            </View>
+                            <View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' }}>
+                              <Text style={{ color: 'white', fontWeight: '600' }}>{t('player_ui.secondary_offset')}</Text>
+                              <View style={{ flexDirection: 'row', gap: 8, alignItems: 'center' }}>
+                                <TouchableOpacity onPress={() => secondarySubtitles.setSecondaryOffsetSec(+(secondarySubtitles.secondaryOffsetSec - 0.1).toFixed(1))} style={{ width: controlBtn.size, height: controlBtn.size, borderRadius: controlBtn.radius, backgroundColor: 'rgba(255,255,255,0.18)', alignItems: 'center', justifyContent: 'center' }}>
+                                  <MaterialIcons name="remove" color="#fff" size={18} />
+                                </TouchableOpacity>
+                                <View style={{ minWidth: 60, paddingHorizontal: 6, paddingVertical: 4, borderRadius: 10, backgroundColor: 'rgba(255,255,255,0.12)' }}>
+                                  <Text style={{ color: 'white', textAlign: 'center', fontWeight: '700' }}>{secondarySubtitles.secondaryOffsetSec.toFixed(1)}</Text>
+                                </View>
+                                <TouchableOpacity onPress={() => secondarySubtitles.setSecondaryOffsetSec(+(secondarySubtitles.secondaryOffsetSec + 0.1).toFixed(1))} style={{ width: controlBtn.size, height: controlBtn.size, borderRadius: controlBtn.radius, backgroundColor: 'rgba(255,255,255,0.18)', alignItems: 'center', justifyContent: 'center' }}>
+                                  <MaterialIcons name="add" color="#fff" size={18} />
+                                </TouchableOpacity>
+                              </View>
+                            </View>
+                            <View style={{ alignItems: 'flex-end' }}>
+                              <TouchableOpacity onPress={secondarySubtitles.clearSecondarySubtitle} style={{ paddingHorizontal: chipPadH, paddingVertical: chipPadV, borderRadius: 8, backgroundColor: 'rgba(255,255,255,0.1)', borderWidth: 1, borderColor: 'rgba(255,255,255,0.15)' }}>
+                                <Text style={{ color: '#fff', fontWeight: '600', fontSize: isCompact ? 12 : 14 }}>{t('player_ui.remove_secondary')}</Text>
+                              </TouchableOpacity>
+                            </View>
+                          </>
+                        )}
+                      </View>
+                    )}
+                    {availableSubtitles.map((sub) => (
                       <TouchableOpacity
                         key={sub.id}
                         onPress={() => {
@@ -217,13 +304,31 @@ export const SubtitleModals: React.FC<SubtitleModalsProps> = ({
                         }}
                         style={{ padding: 5, paddingLeft: 8, paddingRight: 10, borderRadius: 12, backgroundColor: selectedOnlineSubtitleId === sub.id ? 'white' : 'rgba(255,255,255,0.05)', flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' }}
                       >
-                        <View>
+                        <View style={{ flex: 1, marginRight: 8 }}>
                           <Text style={{ marginLeft: 5, color: selectedOnlineSubtitleId === sub.id ? 'black' : 'white', fontWeight: '600' }}>{sub.display}</Text>
-                          <Text style={{ marginLeft: 5, color: selectedOnlineSubtitleId === sub.id ? 'rgba(0,0,0,0.5)' : 'rgba(255,255,255,0.5)', fontSize: 11, paddingBottom: 3 }}>{formatLanguage(sub.language)}</Text>
+                          <Text style={{ marginLeft: 5, color: selectedOnlineSubtitleId === sub.id ? 'rgba(0,0,0,0.5)' : 'rgba(255,255,255,0.5)', fontSize: 11, paddingBottom: 3 }}>
+                            {[formatLanguage(sub.language), sub.isHearingImpaired ? 'SDH' : null, sub.source].filter(Boolean).join(' · ')}
+                          </Text>
+                          {!!sub.release && (
+                            <Text numberOfLines={1} style={{ marginLeft: 5, color: selectedOnlineSubtitleId === sub.id ? 'rgba(0,0,0,0.45)' : 'rgba(255,255,255,0.4)', fontSize: 10, paddingBottom: 3 }}>{sub.release}</Text>
+                          )}
+                        </View>
+                        <View style={{ flexDirection: 'row', alignItems: 'center', gap: 8 }}>
+                          {secondarySubtitles && selectedOnlineSubtitleId !== sub.id && (
+                            <TouchableOpacity
+                              onPress={() => secondarySubtitles.secondarySubtitleId === sub.id
+                                ? secondarySubtitles.clearSecondarySubtitle()
+                                : secondarySubtitles.loadSecondarySubtitle(sub)}
+                              style={{ paddingHorizontal: 8, paddingVertical: 4, borderRadius: 8, backgroundColor: secondarySubtitles.secondarySubtitleId === sub.id ? 'white' : 'rgba(255,255,255,0.1)', borderWidth: 1, borderColor: 'rgba(255,255,255,0.15)' }}
+                            >
+                              <Text style={{ color: secondarySubtitles.secondarySubtitleId === sub.id ? 'black' : 'white', fontWeight: '700', fontSize: 11 }}>{t('player_ui.secondary_label')}</Text>
+                            </TouchableOpacity>
+                          )}
+                          {selectedOnlineSubtitleId === sub.id && <MaterialIcons name="check" size={18} color="black" />}
                         </View>
-                        {selectedOnlineSubtitleId === sub.id && <MaterialIcons name="check" size={18} color="black" />}
                       </TouchableOpacity>
-                    ))
+                    ))}
+                    </>
                   )}
                 </View>
               )}
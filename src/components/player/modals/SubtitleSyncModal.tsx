@@ -13,6 +13,8 @@ import {
     StatusBar,
     BackHandler,
     Platform,
+    ScrollView,
+    ActivityIndicator,
 } from 'react-native';
 import { BlurView as ExpoBlurView } from 'expo-blur';
 
@@ -41,18 +43,32 @@ import Animated, {
     interpolateColor,
     Layout,
 } from 'react-native-reanimated';
-import { SubtitleCue } from '../utils/playerTypes';
+import { SubtitleCue, WyzieSubtitle } from '../utils/playerTypes';
+import {
+    computeSubtitleSync,
+    estimateFrameRateDrift,
+    loadSubtitleCues,
+    scaleSubtitleCues,
+    SubtitleSyncResult,
+} from '../utils/subtitleSync';
+import { logger } from '../../../utils/logger';
 
 interface SubtitleSyncModalProps {
     visible: boolean;
     onClose: () => void;
-    onConfirm: (offset: number) => void;
+    // scale is relative to the cues passed in; 1 when only the offset changed
+    onConfirm: (offset: number, scale: number) => void;
     currentOffset: number;
     currentTime: number;
     subtitles: SubtitleCue[];
+    // Other subtitles for this title that can serve as an in-sync reference
+    referenceSubtitles?: WyzieSubtitle[];
+    videoDuration?: number;
     primaryColor?: string;
 }
 
+type AutoSyncStatus = 'idle' | 'running' | 'done' | 'failed';
+
 // Safe haptic feedback
 const triggerHaptic = async (style: 'light' | 'medium' = 'medium') => {
     try {
@@ -174,6 +190,80 @@ const SubtitleRow = React.memo(({
     );
 });
 
+// Reference picker and auto-sync trigger shown above the reset button
+const AutoSyncSection = ({
+    references,
+    selectedReferenceId,
+    onSelectReference,
+    onRun,
+    status,
+    result,
+    primaryColor,
+    isLargeScreen,
+}: {
+    references: WyzieSubtitle[];
+    selectedReferenceId: string | null;
+    onSelectReference: (id: string | null) => void;
+    onRun: () => void;
+    status: AutoSyncStatus;
+    result: SubtitleSyncResult | null;
+    primaryColor: string;
+    isLargeScreen: boolean;
+}) => {
+    let statusText = references.length > 0
+        ? 'Pick a subtitle you know is in sync'
+        : 'No reference subtitles, checking framerate only';
+    if (status === 'running') statusText = 'Aligning…';
+    if (status === 'failed') statusText = 'Could not find a reliable match';
+    if (status === 'done' && result) {
+        const parts = [
+            result.method === 'reference' ? `${Math.round(result.confidence * 100)}% matched` : 'Runs past video end',
+            result.frameRateLabel,
+        ].filter(Boolean);
+        statusText = parts.join(' · ');
+    }
+
+    return (
+        <View style={styles.autoSyncContainer}>
+            {references.length > 0 && (
+                <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.referenceList}>
+                    {references.map(reference => {
+                        const selected = reference.id === selectedReferenceId;
+                        return (
+                            <TouchableOpacity
+                                key={reference.id}
+                                onPress={() => onSelectReference(selected ? null : reference.id)}
+                                style={[styles.referenceChip, selected && { borderColor: primaryColor, backgroundColor: 'rgba(255,255,255,0.16)' }]}
+                                activeOpacity={0.7}
+                            >
+                                <Text style={styles.referenceChipText} numberOfLines={1}>
+                                    {reference.display}
+                                </Text>
+                            </TouchableOpacity>
+                        );
+                    })}
+                </ScrollView>
+            )}
+            <View style={styles.autoSyncRow}>
+                <TouchableOpacity
+                    onPress={onRun}
+                    disabled={status === 'running'}
+                    style={[styles.resetBtn, isLargeScreen && styles.resetBtnLarge]}
+                    activeOpacity={0.7}
+                >
+                    {status === 'running' ? (
+                        <ActivityIndicator size="small" color="#fff" style={{ marginRight: 4 }} />
+                    ) : (
+                        <MaterialIcons name="auto-fix-high" size={isLargeScreen ? 16 : 14} color="#fff" style={{ marginRight: 4 }} />
+                    )}
+                    <Text style={[styles.resetBtnText, isLargeScreen && styles.resetBtnTextLarge]}>Auto Sync</Text>
+                </TouchableOpacity>
+                <Text style={styles.autoSyncStatus} numberOfLines={2}>{statusText}</Text>
+            </View>
+        </View>
+    );
+};
+
 export const SubtitleSyncModal: React.FC<SubtitleSyncModalProps> = ({
     visible,
     onClose,
@@ -181,6 +271,8 @@ export const SubtitleSyncModal: React.FC<SubtitleSyncModalProps> = ({
     currentOffset,
     currentTime,
     subtitles,
+    referenceSubtitles = [],
+    videoDuration,
     primaryColor = '#007AFF',
 }) => {
     const insets = useSafeAreaInsets();
@@ -190,17 +282,57 @@ export const SubtitleSyncModal: React.FC<SubtitleSyncModalProps> = ({
 
     const [tempOffset, setTempOffset] = useState(currentOffset);
     const [zeroHapticTriggered, setZeroHapticTriggered] = useState(false);
+    const [tempScale, setTempScale] = useState(1);
+    const [selectedReferenceId, setSelectedReferenceId] = useState<string | null>(null);
+    const [autoSyncStatus, setAutoSyncStatus] = useState<AutoSyncStatus>('idle');
+    const [autoSyncResult, setAutoSyncResult] = useState<SubtitleSyncResult | null>(null);
 
     useEffect(() => {
         if (visible) {
             setTempOffset(currentOffset);
+            setTempScale(1);
             setZeroHapticTriggered(false);
+            setAutoSyncStatus('idle');
+            setAutoSyncResult(null);
         }
     }, [visible, currentOffset]);
 
+    // Preview with the pending framerate correction applied
+    const previewSubtitles = useMemo(() => scaleSubtitleCues(subtitles, tempScale), [subtitles, tempScale]);
+
     const visibleSubtitles = useMemo(() => {
-        return getVisibleSubtitles(subtitles, currentTime, tempOffset, isLargeScreen ? 9 : 7);
-    }, [subtitles, currentTime, tempOffset, isLargeScreen]);
+        return getVisibleSubtitles(previewSubtitles, currentTime, tempOffset, isLargeScreen ? 9 : 7);
+    }, [previewSubtitles, currentTime, tempOffset, isLargeScreen]);
+
+    const handleAutoSync = useCallback(async () => {
+        setAutoSyncStatus('running');
+        setAutoSyncResult(null);
+        try {
+            const reference = referenceSubtitles.find(sub => sub.id === selectedReferenceId);
+            let result: SubtitleSyncResult | null = null;
+            if (reference) {
+                const referenceCues = await loadSubtitleCues(reference.url);
+                result = computeSubtitleSync(subtitles, referenceCues);
+            }
+            if (!result && videoDuration) {
+                result = estimateFrameRateDrift(subtitles, videoDuration);
+            }
+
+            if (!result) {
+                setAutoSyncStatus('failed');
+                return;
+            }
+            logger.info(`[SubtitleSyncModal] Auto sync (${result.method}): offset ${result.offset}s, scale ${result.scale.toFixed(4)}, confidence ${result.confidence.toFixed(2)}`);
+            triggerHaptic('medium');
+            setTempScale(result.scale);
+            setTempOffset(result.offset);
+            setAutoSyncResult(result);
+            setAutoSyncStatus('done');
+        } catch (error) {
+            logger.error('[SubtitleSyncModal] Auto sync failed:', error);
+            setAutoSyncStatus('failed');
+        }
+    }, [referenceSubtitles, selectedReferenceId, subtitles, videoDuration]);
 
     const handleSliderChange = useCallback((value: number) => {
         const rounded = Math.round(value * 10) / 10;
@@ -217,14 +349,17 @@ export const SubtitleSyncModal: React.FC<SubtitleSyncModalProps> = ({
     const handleReset = useCallback(() => {
         triggerHaptic('medium');
         setTempOffset(0);
+        setTempScale(1);
+        setAutoSyncStatus('idle');
+        setAutoSyncResult(null);
         setZeroHapticTriggered(false);
     }, []);
 
     const handleConfirm = useCallback(() => {
         triggerHaptic('light');
-        onConfirm(tempOffset);
+        onConfirm(tempOffset, tempScale);
         onClose();
-    }, [tempOffset, onConfirm, onClose]);
+    }, [tempOffset, tempScale, onConfirm, onClose]);
 
     const formatOffset = (value: number) => {
         if (value === 0) return '0.0s';
@@ -341,6 +476,17 @@ export const SubtitleSyncModal: React.FC<SubtitleSyncModalProps> = ({
                             </View>
                         </View>
 
+                        <AutoSyncSection
+                            references={referenceSubtitles}
+                            selectedReferenceId={selectedReferenceId}
+                            onSelectReference={setSelectedReferenceId}
+                            onRun={handleAutoSync}
+                            status={autoSyncStatus}
+                            result={autoSyncResult}
+                            primaryColor={primaryColor}
+                            isLargeScreen={isLargeScreen}
+                        />
+
                         {/* Reset Button */}
                         <View style={styles.resetBtnContainer}>
                             <TouchableOpacity
@@ -443,6 +589,17 @@ export const SubtitleSyncModal: React.FC<SubtitleSyncModalProps> = ({
                             </View>
                         </View>
 
+                        <AutoSyncSection
+                            references={referenceSubtitles}
+                            selectedReferenceId={selectedReferenceId}
+                            onSelectReference={setSelectedReferenceId}
+                            onRun={handleAutoSync}
+                            status={autoSyncStatus}
+                            result={autoSyncResult}
+                            primaryColor={primaryColor}
+                            isLargeScreen={isLargeScreen}
+                        />
+
                         {/* Reset Button */}
                         <View style={styles.resetBtnContainer}>
                             <TouchableOpacity
@@ -668,6 +825,37 @@ const styles = StyleSheet.create({
     resetBtnTextLarge: {
         fontSize: 14,
     },
+    autoSyncContainer: {
+        width: '100%',
+        marginBottom: 8,
+        gap: 8,
+    },
+    referenceList: {
+        gap: 6,
+    },
+    referenceChip: {
+        maxWidth: 160,
+        paddingHorizontal: 10,
+        paddingVertical: 5,
+        borderRadius: 8,
+        backgroundColor: 'rgba(255,255,255,0.08)',
+        borderWidth: 1,
+        borderColor: 'rgba(255,255,255,0.15)',
+    },
+    referenceChipText: {
+        color: 'rgba(255,255,255,0.85)',
+        fontSize: 11,
+    },
+    autoSyncRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 10,
+    },
+    autoSyncStatus: {
+        flex: 1,
+        color: 'rgba(255,255,255,0.5)',
+        fontSize: 11,
+    },
 });
 
 export default SubtitleSyncModal;
@@ -0,0 +1,278 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, TouchableOpacity, useWindowDimensions, StyleSheet, TextInput, ScrollView, ActivityIndicator } from 'react-native';
+import { Ionicons, MaterialIcons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import Animated, {
+  FadeIn,
+  FadeOut,
+  SlideInDown,
+  SlideOutDown,
+} from 'react-native-reanimated';
+import { watchPartyService, WatchPartySession } from '../../../services/watchPartyService';
+import { toastService } from '../../../services/toastService';
+import { useSettings } from '../../../hooks/useSettings';
+
+interface WatchPartyModalProps {
+  visible: boolean;
+  onClose: () => void;
+  session: WatchPartySession | null;
+}
+
+// Start or join a synced session on the relay configured in playback settings
+export const WatchPartyModal: React.FC<WatchPartyModalProps> = ({
+  visible,
+  onClose,
+  session,
+}) => {
+  const { t } = useTranslation();
+  const { width } = useWindowDimensions();
+  const { settings, updateSetting } = useSettings();
+
+  const [name, setName] = useState(settings.watchPartyDisplayName);
+  const [code, setCode] = useState('');
+  const [busy, setBusy] = useState<'host' | 'join' | null>(null);
+
+  useEffect(() => {
+    if (visible) setName(settings.watchPartyDisplayName);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [visible]);
+
+  if (!visible) return null;
+
+  const relayUrl = settings.watchPartyRelayUrl;
+
+  const start = async (mode: 'host' | 'join') => {
+    const displayName = name.trim();
+    if (displayName !== settings.watchPartyDisplayName) updateSetting('watchPartyDisplayName', displayName);
+    setBusy(mode);
+    try {
+      if (mode === 'host') await watchPartyService.host(relayUrl, displayName);
+      else await watchPartyService.join(relayUrl, code, displayName);
+    } catch (error: any) {
+      toastService.error(t('player_ui.watch_party_failed'), error?.message);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <View style={[StyleSheet.absoluteFill, { zIndex: 10000 }]}>
+      <TouchableOpacity
+        style={StyleSheet.absoluteFill}
+        activeOpacity={1}
+        onPress={onClose}
+      >
+        <Animated.View entering={FadeIn} exiting={FadeOut} style={{ flex: 1, backgroundColor: 'rgba(0,0,0,0.4)' }} />
+      </TouchableOpacity>
+
+      <View pointerEvents="box-none" style={localStyles.centeredView}>
+        <Animated.View
+          entering={SlideInDown.duration(300)}
+          exiting={SlideOutDown.duration(250)}
+          style={[localStyles.modalContainer, { width: Math.min(width * 0.85, 400) }]}
+        >
+          <View style={localStyles.header}>
+            <Text style={localStyles.title}>{t('player_ui.watch_party')}</Text>
+            <TouchableOpacity onPress={onClose} style={{ padding: 4 }}>
+              <Ionicons name="close" size={24} color="rgba(255,255,255,0.5)" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView showsVerticalScrollIndicator={false} contentContainerStyle={{ gap: 18 }}>
+            {session ? (
+              <>
+                <View style={{ alignItems: 'center', gap: 6 }}>
+                  <Text style={localStyles.label}>{t('player_ui.watch_party_code')}</Text>
+                  <Text selectable style={localStyles.code}>{session.code}</Text>
+                  <Text style={localStyles.hint}>{t('player_ui.watch_party_share_hint')}</Text>
+                </View>
+
+                <View style={{ gap: 8 }}>
+                  <Text style={localStyles.label}>
+                    {t('player_ui.watch_party_members', { count: session.members.length })}
+                  </Text>
+                  {session.members.map((member) => (
+                    <View key={member.id} style={localStyles.memberRow}>
+                      <Ionicons
+                        name={member.id === session.hostId ? 'star' : 'person-outline'}
+                        size={16}
+                        color="rgba(255,255,255,0.7)"
+                      />
+                      <Text style={localStyles.memberText}>
+                        {member.name}
+                        {member.id === session.memberId ? ` · ${t('player_ui.watch_party_you')}` : ''}
+                        {member.id === session.hostId ? ` · ${t('player_ui.watch_party_host_badge')}` : ''}
+                      </Text>
+                    </View>
+                  ))}
+                </View>
+
+                <TouchableOpacity onPress={() => watchPartyService.leave()} style={localStyles.secondaryBtn}>
+                  <MaterialIcons name="logout" size={18} color="white" />
+                  <Text style={localStyles.secondaryBtnText}>{t('player_ui.watch_party_leave')}</Text>
+                </TouchableOpacity>
+              </>
+            ) : !relayUrl ? (
+              <Text style={localStyles.hint}>{t('player_ui.watch_party_no_relay')}</Text>
+            ) : (
+              <>
+                <View>
+                  <Text style={localStyles.label}>{t('player_ui.watch_party_name')}</Text>
+                  <TextInput
+                    style={localStyles.input}
+                    value={name}
+                    onChangeText={setName}
+                    placeholder={t('player_ui.watch_party_name_placeholder')}
+                    placeholderTextColor="rgba(255,255,255,0.3)"
+                    maxLength={32}
+                  />
+                </View>
+
+                <TouchableOpacity
+                  onPress={() => start('host')}
+                  disabled={!!busy}
+                  style={[localStyles.primaryBtn, !!busy && { opacity: 0.5 }]}
+                >
+                  {busy === 'host' ? (
+                    <ActivityIndicator size="small" color="black" />
+                  ) : (
+                    <MaterialIcons name="groups" size={20} color="black" />
+                  )}
+                  <Text style={localStyles.primaryBtnText}>{t('player_ui.watch_party_start')}</Text>
+                </TouchableOpacity>
+
+                <View style={localStyles.joinRow}>
+                  <TextInput
+                    style={[localStyles.input, { flex: 1, letterSpacing: 4 }]}
+                    value={code}
+                    onChangeText={(value) => setCode(value.toUpperCase())}
+                    placeholder="ABC123"
+                    placeholderTextColor="rgba(255,255,255,0.3)"
+                    autoCapitalize="characters"
+                    autoCorrect={false}
+                    maxLength={6}
+                  />
+                  <TouchableOpacity
+                    onPress={() => start('join')}
+                    disabled={!!busy || code.trim().length < 6}
+                    style={[localStyles.secondaryBtn, { paddingHorizontal: 18 }, (!!busy || code.trim().length < 6) && { opacity: 0.5 }]}
+                  >
+                    {busy === 'join' && <ActivityIndicator size="small" color="white" />}
+                    <Text style={localStyles.secondaryBtnText}>{t('player_ui.watch_party_join')}</Text>
+                  </TouchableOpacity>
+                </View>
+              </>
+            )}
+          </ScrollView>
+        </Animated.View>
+      </View>
+    </View>
+  );
+};
+
+const localStyles = StyleSheet.create({
+  centeredView: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingBottom: 40,
+  },
+  modalContainer: {
+    backgroundColor: 'rgba(20, 20, 20, 0.98)',
+    borderRadius: 28,
+    padding: 24,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+    elevation: 20,
+    maxHeight: '85%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  title: {
+    color: 'white',
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  label: {
+    color: 'rgba(255,255,255,0.6)',
+    fontSize: 12,
+    marginBottom: 8,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  hint: {
+    color: 'rgba(255,255,255,0.5)',
+    fontSize: 13,
+    textAlign: 'center',
+  },
+  code: {
+    color: 'white',
+    fontSize: 34,
+    fontWeight: '800',
+    letterSpacing: 6,
+  },
+  input: {
+    backgroundColor: 'rgba(255,255,255,0.05)',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    color: 'white',
+    fontSize: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+  },
+  joinRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  primaryBtn: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    height: 52,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 10,
+  },
+  primaryBtnText: {
+    color: 'black',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  secondaryBtn: {
+    backgroundColor: 'rgba(255,255,255,0.1)',
+    borderRadius: 16,
+    height: 52,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+  },
+  secondaryBtnText: {
+    color: 'white',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  memberRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    backgroundColor: 'rgba(255,255,255,0.05)',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+  },
+  memberText: {
+    color: 'white',
+    fontSize: 14,
+    flex: 1,
+  },
+});
+
+export default WatchPartyModal;
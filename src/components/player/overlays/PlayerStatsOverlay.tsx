@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Platform } from 'react-native';
+import * as ExpoClipboard from 'expo-clipboard';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { PlayerStats } from '../utils/playerTypes';
+import { formatBitrate } from '../utils/playerUtils';
+
+interface PlayerStatsOverlayProps {
+  visible: boolean;
+  stats: PlayerStats;
+  backend: string;
+  decoderMode?: string;
+  source?: string;
+  audioTrackName?: string;
+  buildReport: () => string;
+  onClose: () => void;
+}
+
+// Live stream diagnostics; values the backend does not report show as a dash
+export const PlayerStatsOverlay: React.FC<PlayerStatsOverlayProps> = ({
+  visible,
+  stats,
+  backend,
+  decoderMode,
+  source,
+  audioTrackName,
+  buildReport,
+  onClose,
+}) => {
+  const { t } = useTranslation();
+  const insets = useSafeAreaInsets();
+  const [copied, setCopied] = useState(false);
+
+  if (!visible) return null;
+
+  const handleCopy = async () => {
+    await ExpoClipboard.setStringAsync(buildReport());
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const audio = [audioTrackName, stats.audioCodec, stats.audioChannels, stats.audioSampleRate ? `${stats.audioSampleRate} Hz` : undefined]
+    .filter(Boolean)
+    .join(' · ');
+
+  const rows: { label: string; value?: string }[] = [
+    { label: t('player_ui.stats_player'), value: decoderMode ? `${backend} · ${decoderMode}` : backend },
+    { label: t('player_ui.stats_source'), value: source },
+    { label: t('player_ui.stats_container'), value: stats.container },
+    {
+      label: t('player_ui.stats_resolution'),
+      value: stats.width && stats.height
+        ? `${stats.width}x${stats.height}${stats.fps ? ` @ ${stats.fps.toFixed(2)}` : ''}`
+        : undefined,
+    },
+    { label: t('player_ui.stats_video_codec'), value: stats.videoCodec },
+    { label: t('player_ui.stats_decoder'), value: stats.decoder },
+    { label: t('player_ui.stats_hdr'), value: stats.hdr },
+    { label: t('player_ui.stats_dropped_frames'), value: stats.droppedFrames != null ? String(stats.droppedFrames) : undefined },
+    { label: t('player_ui.stats_buffer'), value: stats.bufferSeconds != null ? `${stats.bufferSeconds.toFixed(1)}s` : undefined },
+    { label: t('player_ui.stats_bitrate'), value: formatBitrate(stats.videoBitrate) },
+    { label: t('player_ui.stats_throughput'), value: formatBitrate(stats.throughput) },
+    { label: t('player_ui.stats_audio'), value: audio || undefined },
+  ];
+
+  return (
+    <View style={[localStyles.container, { top: insets.top + 12, left: insets.left + 12 }]}>
+      <View style={localStyles.header}>
+        <Text style={localStyles.title}>{t('player_ui.stats_title')}</Text>
+        <View style={{ flexDirection: 'row', gap: 4 }}>
+          <TouchableOpacity onPress={handleCopy} style={localStyles.iconButton}>
+            <Ionicons name={copied ? 'checkmark' : 'copy-outline'} size={16} color="white" />
+          </TouchableOpacity>
+          <TouchableOpacity onPress={onClose} style={localStyles.iconButton}>
+            <Ionicons name="close" size={16} color="white" />
+          </TouchableOpacity>
+        </View>
+      </View>
+      {rows.map(row => (
+        <View key={row.label} style={localStyles.row}>
+          <Text style={localStyles.label}>{row.label}</Text>
+          <Text style={localStyles.value} numberOfLines={1}>{row.value || '—'}</Text>
+        </View>
+      ))}
+      {copied && <Text style={localStyles.copied}>{t('player_ui.stats_copied')}</Text>}
+    </View>
+  );
+};
+
+const MONOSPACE = Platform.OS === 'ios' ? 'Menlo' : 'monospace';
+
+const localStyles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    zIndex: 9000,
+    width: 320,
+    backgroundColor: 'rgba(0,0,0,0.75)',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  title: {
+    color: 'white',
+    fontSize: 13,
+    fontWeight: '700',
+  },
+  iconButton: {
+    padding: 4,
+  },
+  row: {
+    flexDirection: 'row',
+    paddingVertical: 1,
+  },
+  label: {
+    color: 'rgba(255,255,255,0.6)',
+    fontSize: 11,
+    fontFamily: MONOSPACE,
+    width: 110,
+  },
+  value: {
+    color: 'white',
+    fontSize: 11,
+    fontFamily: MONOSPACE,
+    flex: 1,
+  },
+  copied: {
+    color: 'rgba(255,255,255,0.6)',
+    fontSize: 11,
+    marginTop: 6,
+  },
+});
+
+export default PlayerStatsOverlay;
@@ -0,0 +1,136 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, TextInput, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useTranslation } from 'react-i18next';
+import { styles } from '../utils/playerStyles';
+import { parentalControlsService, ContentRef } from '../../../services/parentalControlsService';
+
+interface RestrictedContentOverlayProps {
+  content: ContentRef;
+  season?: number;
+  episode?: number;
+  // Playback is held while the title is checked and while it stays locked
+  onHold: () => void;
+  onRelease: () => void;
+  onExit: () => void;
+}
+
+// Parental controls gate: checks the title before playback and asks for the PIN if it's restricted
+export const RestrictedContentOverlay: React.FC<RestrictedContentOverlayProps> = ({
+  content,
+  season,
+  episode,
+  onHold,
+  onRelease,
+  onExit,
+}) => {
+  const { t } = useTranslation();
+  const [status, setStatus] = useState<'checking' | 'allowed' | 'blocked'>(
+    parentalControlsService.isEnabled() ? 'checking' : 'allowed'
+  );
+  const [reason, setReason] = useState<string | undefined>();
+  const [pin, setPin] = useState('');
+  const [wrongPin, setWrongPin] = useState(false);
+
+  useEffect(() => {
+    if (!parentalControlsService.isEnabled()) return;
+    let cancelled = false;
+    onHold();
+    parentalControlsService
+      .evaluate(content, season && episode ? { season, episode } : undefined)
+      .then(decision => {
+        if (cancelled) return;
+        if (decision.allowed) {
+          setStatus('allowed');
+          onRelease();
+        } else {
+          setReason(decision.reason);
+          setStatus('blocked');
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [content.id, content.type, season, episode]);
+
+  const handlePinChange = (value: string) => {
+    const digits = value.replace(/\D/g, '').slice(0, 4);
+    setPin(digits);
+    setWrongPin(false);
+    if (digits.length < 4) return;
+    if (parentalControlsService.verifyPin(digits)) {
+      parentalControlsService.grantOverride(content.id);
+      setStatus('allowed');
+      onRelease();
+    } else {
+      setWrongPin(true);
+      setPin('');
+    }
+  };
+
+  if (status === 'allowed') return null;
+
+  const hasPin = parentalControlsService.hasPin();
+
+  return (
+    <View style={[styles.resumeOverlay, { backgroundColor: '#000' }]}>
+      {status === 'checking' ? (
+        <ActivityIndicator size="large" color="#E50914" />
+      ) : (
+        <LinearGradient
+          colors={['rgba(0,0,0,0.9)', 'rgba(0,0,0,0.7)']}
+          style={styles.resumeContainer}
+        >
+          <View style={styles.resumeContent}>
+            <View style={styles.resumeIconContainer}>
+              <Ionicons name="lock-closed" size={40} color="#E50914" />
+            </View>
+            <View style={styles.resumeTextContainer}>
+              <Text style={styles.resumeTitle}>{t('player_ui.restricted_title')}</Text>
+              <Text style={styles.resumeInfo}>
+                {[reason, hasPin ? t('player_ui.restricted_enter_pin') : t('player_ui.restricted_no_pin')]
+                  .filter(Boolean)
+                  .join(' · ')}
+              </Text>
+            </View>
+          </View>
+
+          {hasPin && (
+            <TextInput
+              style={{
+                alignSelf: 'center',
+                width: 160,
+                height: 48,
+                marginBottom: 16,
+                borderRadius: 8,
+                borderWidth: 1,
+                borderColor: wrongPin ? '#E50914' : 'rgba(255,255,255,0.3)',
+                color: 'white',
+                fontSize: 22,
+                letterSpacing: 12,
+                textAlign: 'center',
+              }}
+              value={pin}
+              onChangeText={handlePinChange}
+              keyboardType="number-pad"
+              secureTextEntry
+              maxLength={4}
+              autoFocus
+            />
+          )}
+
+          <View style={styles.resumeButtons}>
+            <TouchableOpacity style={styles.resumeButton} onPress={onExit}>
+              <Ionicons name="arrow-back" size={16} color="white" style={styles.buttonIcon} />
+              <Text style={styles.resumeButtonText}>{t('player_ui.restricted_exit')}</Text>
+            </TouchableOpacity>
+          </View>
+        </LinearGradient>
+      )}
+    </View>
+  );
+};
+
+export default RestrictedContentOverlay;
@@ -0,0 +1,59 @@
+import React from 'react';
+import { View, Text, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useTranslation } from 'react-i18next';
+import { styles } from '../utils/playerStyles';
+
+interface StillWatchingOverlayProps {
+  visible: boolean;
+  episodesWatched: number;
+  onContinue: () => void;
+  onStop: () => void;
+}
+
+// Binge mode pauses here after several episodes nobody touched the player
+export const StillWatchingOverlay: React.FC<StillWatchingOverlayProps> = ({
+  visible,
+  episodesWatched,
+  onContinue,
+  onStop,
+}) => {
+  const { t } = useTranslation();
+
+  if (!visible) return null;
+
+  return (
+    <View style={styles.resumeOverlay}>
+      <LinearGradient
+        colors={['rgba(0,0,0,0.9)', 'rgba(0,0,0,0.7)']}
+        style={styles.resumeContainer}
+      >
+        <View style={styles.resumeContent}>
+          <View style={styles.resumeIconContainer}>
+            <Ionicons name="tv" size={40} color="#E50914" />
+          </View>
+          <View style={styles.resumeTextContainer}>
+            <Text style={styles.resumeTitle}>{t('player_ui.still_watching_title')}</Text>
+            <Text style={styles.resumeInfo}>
+              {t('player_ui.still_watching_desc', { count: episodesWatched })}
+            </Text>
+          </View>
+        </View>
+
+        <View style={styles.resumeButtons}>
+          <TouchableOpacity style={styles.resumeButton} onPress={onStop}>
+            <Ionicons name="stop" size={16} color="white" style={styles.buttonIcon} />
+            <Text style={styles.resumeButtonText}>{t('player_ui.still_watching_stop')}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={[styles.resumeButton, styles.resumeFromButton]} onPress={onContinue}>
+            <Ionicons name="play" size={16} color="white" style={styles.buttonIcon} />
+            <Text style={styles.resumeButtonText}>{t('player_ui.still_watching_continue')}</Text>
+          </TouchableOpacity>
+        </View>
+      </LinearGradient>
+    </View>
+  );
+};
+
+export default StillWatchingOverlay;
@@ -1,9 +1,10 @@
 import React from 'react';
-import { View, Text } from 'react-native';
+import { View, Text, StyleSheet } from 'react-native';
 import Svg, { Text as SvgText, TSpan } from 'react-native-svg';
 import { styles } from '../utils/playerStyles';
-import { SubtitleSegment } from '../utils/playerTypes';
+import { SubtitleCue, SubtitleSegment } from '../utils/playerTypes';
 import { detectRTL } from '../utils/playerUtils';
+import { hasRichFormatting, isPositionedCue, segmentsToLines } from '../utils/subtitleParser';
 
 interface CustomSubtitlesProps {
   useCustomSubtitles: boolean;
@@ -29,8 +30,20 @@ interface CustomSubtitlesProps {
   lineHeightMultiplier?: number; // multiplies subtitleSize
   // New: support for formatted subtitle segments
   formattedSegments?: SubtitleSegment[][]; // Segments per line
+  // Cues on screen right now; positioned ones (ASS \pos, top/middle placement) render outside the bottom block
+  activeCues?: SubtitleCue[];
+  currentTime?: number; // Subtitle-adjusted playback time, drives karaoke highlighting
+  // Dual subtitles: anchor to the top edge instead (bottomOffset then counts from the top)
+  placement?: 'bottom' | 'top';
+  // Render only the text block, for stacking inside another subtitle's container
+  inline?: boolean;
+  stackedContent?: React.ReactNode; // Rendered above this subtitle in the same container
 }
 
+// Size of the invisible box positioned cues are laid out in around their anchor point
+const POSITIONED_BOX_WIDTH = 900;
+const POSITIONED_BOX_HEIGHT = 400;
+
 export const CustomSubtitles: React.FC<CustomSubtitlesProps> = ({
   useCustomSubtitles,
   currentSubtitle,
@@ -52,8 +65,22 @@ export const CustomSubtitles: React.FC<CustomSubtitlesProps> = ({
   letterSpacing = 0,
   lineHeightMultiplier = 1.2,
   formattedSegments,
+  activeCues,
+  currentTime,
+  placement = 'bottom',
+  inline = false,
+  stackedContent,
 }) => {
-  if (!useCustomSubtitles || !currentSubtitle) return null;
+  const positionedCues = activeCues && !inline ? activeCues.filter(isPositionedCue) : [];
+  if (!useCustomSubtitles || (!currentSubtitle && positionedCues.length === 0 && !stackedContent)) return null;
+
+  // Derive per-line segments from the bottom cues when they carry real formatting
+  const bottomCues = activeCues ? activeCues.filter(cue => !isPositionedCue(cue)) : [];
+  const effectiveFormattedSegments = formattedSegments && formattedSegments.length > 0
+    ? formattedSegments
+    : bottomCues.some(cue => hasRichFormatting(cue.formattedSegments))
+      ? bottomCues.flatMap(cue => segmentsToLines(cue.formattedSegments || [{ text: cue.text }]))
+      : undefined;
 
   const inverseScale = 1 / zoomScale;
   const bgColor = subtitleBackground ? `rgba(0, 0, 0, ${Math.min(Math.max(backgroundOpacity, 0), 1)})` : 'transparent';
@@ -89,8 +116,23 @@ export const CustomSubtitles: React.FC<CustomSubtitlesProps> = ({
   const displayLineHeight = subtitleSize * lineHeightMultiplier * inverseScale;
   const svgHeight = lines.length * displayLineHeight;
 
+  // Karaoke syllables use their pre-highlight colour until they are sung
+  const segmentColor = (segment: SubtitleSegment): string | undefined => {
+    if (segment.karaoke && currentTime !== undefined && currentTime < segment.karaoke.start) {
+      return segment.karaoke.color || 'rgba(255, 255, 255, 0.5)';
+    }
+    return segment.color;
+  };
+
   // Helper to render formatted segments
-  const renderFormattedText = (segments: SubtitleSegment[], lineIndex: number, keyPrefix: string, isRTL?: boolean, customLetterSpacing?: number) => {
+  const renderFormattedText = (
+    segments: SubtitleSegment[],
+    lineIndex: number,
+    keyPrefix: string,
+    isRTL?: boolean,
+    customLetterSpacing?: number,
+    lineAlign: 'center' | 'left' | 'right' = align
+  ) => {
     if (!segments || segments.length === 0) return null;
 
     // For RTL, use a very small negative letter spacing to stretch words slightly
@@ -98,7 +140,7 @@ export const CustomSubtitles: React.FC<CustomSubtitlesProps> = ({
     const effectiveLetterSpacing = isRTL ? (displayFontSize * -0.02) : (customLetterSpacing ?? letterSpacing);
 
     // For RTL, adjust text alignment
-    const effectiveAlign = isRTL && align === 'left' ? 'right' : (isRTL && align === 'right' ? 'left' : align);
+    const effectiveAlign = isRTL && lineAlign === 'left' ? 'right' : (isRTL && lineAlign === 'right' ? 'left' : lineAlign);
 
     return (
       <Text key={`${keyPrefix}-line-${lineIndex}`} style={{
@@ -113,8 +155,13 @@ export const CustomSubtitles: React.FC<CustomSubtitlesProps> = ({
           const segmentStyle: any = {};
           if (segment.italic) segmentStyle.fontStyle = 'italic';
           if (segment.bold) segmentStyle.fontWeight = 'bold';
-          if (segment.underline) segmentStyle.textDecorationLine = 'underline';
-          if (segment.color) segmentStyle.color = segment.color;
+          if (segment.underline || segment.strikethrough) {
+            segmentStyle.textDecorationLine = segment.underline && segment.strikethrough
+              ? 'underline line-through'
+              : segment.underline ? 'underline' : 'line-through';
+          }
+          const color = segmentColor(segment);
+          if (color) segmentStyle.color = color;
 
           // Apply outline/shadow to individual segments if needed
           const mergedShadowStyle = (textShadow && !useCrispSvgOutline) ? shadowStyle : {};
@@ -129,14 +176,47 @@ export const CustomSubtitles: React.FC<CustomSubtitlesProps> = ({
     );
   };
 
-  return (
-    <View
-      style={[
-        styles.customSubtitleContainer,
-        { bottom: effectiveBottom },
-      ]}
-      pointerEvents="none"
-    >
+  // Positioned cues are anchored relative to the player surface (letterboxing is not accounted for)
+  const renderPositionedCue = (cue: SubtitleCue, cueIndex: number) => {
+    const position = cue.position || {};
+    const cueAlign: 'center' | 'left' | 'right' = position.align === 'left' ? 'left' : position.align === 'right' ? 'right' : 'center';
+    const vertical = position.vertical || 'bottom';
+    const anchorX = position.x ?? (cueAlign === 'left' ? 0.05 : cueAlign === 'right' ? 0.95 : 0.5);
+    const anchorY = position.y ?? (vertical === 'top' ? 0.05 : vertical === 'middle' ? 0.5 : 0.95);
+    const cueLines = segmentsToLines(cue.formattedSegments || [{ text: cue.text }]);
+
+    return (
+      <View
+        key={`positioned-${cueIndex}`}
+        style={{ position: 'absolute', left: `${anchorX * 100}%`, top: `${anchorY * 100}%`, width: 0, height: 0 }}
+      >
+        <View
+          style={{
+            position: 'absolute',
+            width: POSITIONED_BOX_WIDTH,
+            height: POSITIONED_BOX_HEIGHT,
+            left: cueAlign === 'left' ? 0 : cueAlign === 'right' ? -POSITIONED_BOX_WIDTH : -POSITIONED_BOX_WIDTH / 2,
+            top: vertical === 'top' ? 0 : vertical === 'bottom' ? -POSITIONED_BOX_HEIGHT : -POSITIONED_BOX_HEIGHT / 2,
+            justifyContent: vertical === 'top' ? 'flex-start' : vertical === 'bottom' ? 'flex-end' : 'center',
+            alignItems: cueAlign === 'left' ? 'flex-start' : cueAlign === 'right' ? 'flex-end' : 'center',
+          }}
+        >
+          <View style={[styles.customSubtitleWrapper, { backgroundColor: bgColor }]}>
+            {cueLines.map((lineSegments, lineIdx) =>
+              renderFormattedText(lineSegments, lineIdx, `positioned-${cueIndex}`, detectRTL(lineSegments.map(seg => seg.text).join('')), letterSpacing, cueAlign)
+            )}
+          </View>
+        </View>
+      </View>
+    );
+  };
+
+  // Per-line segments for the SVG fill layer, only when they line up with the text lines
+  const svgFormattedLines = effectiveFormattedSegments && effectiveFormattedSegments.length === lines.length
+    ? effectiveFormattedSegments
+    : undefined;
+
+  const subtitleBlock = currentSubtitle ? (
       <View style={[
         styles.customSubtitleWrapper,
         {
@@ -217,7 +297,19 @@ export const CustomSubtitles: React.FC<CustomSubtitlesProps> = ({
                   >
                     {lines.map((line, idx) => (
                       <TSpan key={idx} x={x} dy={idx === 0 ? 0 : lineHeightPx}>
-                        {line}
+                        {svgFormattedLines
+                          ? svgFormattedLines[idx].map((segment, segIdx) => (
+                            <TSpan
+                              key={segIdx}
+                              fill={segmentColor(segment) || textColor}
+                              fontWeight={segment.bold ? 'bold' : undefined}
+                              fontStyle={segment.italic ? 'italic' : undefined}
+                              textDecoration={segment.underline ? 'underline' : undefined}
+                            >
+                              {segment.text}
+                            </TSpan>
+                          ))
+                          : line}
                       </TSpan>
                     ))}
                   </SvgText>
@@ -227,9 +319,9 @@ export const CustomSubtitles: React.FC<CustomSubtitlesProps> = ({
           </Svg>
         ) : (
           // No outline: use RN Text with (optional) shadow
-          formattedSegments && formattedSegments.length > 0 ? (
+          effectiveFormattedSegments && effectiveFormattedSegments.length > 0 ? (
             // Render formatted segments if available
-            formattedSegments.map((lineSegments, lineIdx) => {
+            effectiveFormattedSegments.map((lineSegments, lineIdx) => {
               const isLineRTL = lineRTLStatus[lineIdx];
               return renderFormattedText(lineSegments, lineIdx, 'formatted', isLineRTL, letterSpacing);
             })
@@ -264,7 +356,28 @@ export const CustomSubtitles: React.FC<CustomSubtitlesProps> = ({
           )
         )}
       </View>
+  ) : null;
+
+  if (inline) return subtitleBlock;
+
+  return (
+    <>
+    {positionedCues.length > 0 && (
+      <View style={StyleSheet.absoluteFill} pointerEvents="none">
+        {positionedCues.map(renderPositionedCue)}
+      </View>
+    )}
+    <View
+      style={[
+        styles.customSubtitleContainer,
+        placement === 'top' ? { top: effectiveBottom, bottom: undefined } : { bottom: effectiveBottom },
+      ]}
+      pointerEvents="none"
+    >
+      {stackedContent}
+      {subtitleBlock}
     </View>
+    </>
   );
 };
 
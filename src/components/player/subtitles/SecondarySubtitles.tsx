@@ -0,0 +1,54 @@
+import React from 'react';
+import { CustomSubtitles } from './CustomSubtitles';
+import type { SecondarySubtitlesState } from '../hooks/useSecondarySubtitles';
+
+interface SecondarySubtitlesProps {
+  secondary: SecondarySubtitlesState;
+  // Stacked layout: rendered inside the primary subtitle's container
+  inline?: boolean;
+  zoomScale?: number;
+  align?: 'center' | 'left' | 'right';
+  letterSpacing?: number;
+  lineHeightMultiplier?: number;
+  controlsVisible?: boolean;
+  controlsExtraOffset?: number; // px to push down from the top when controls are visible
+}
+
+// Second language track for dual-subtitle mode, styled independently from the primary
+export const SecondarySubtitles: React.FC<SecondarySubtitlesProps> = ({
+  secondary,
+  inline = false,
+  zoomScale = 1,
+  align = 'center',
+  letterSpacing = 0,
+  lineHeightMultiplier = 1.2,
+  controlsVisible = false,
+  controlsExtraOffset = 0,
+}) => {
+  const style = secondary.secondaryStyle;
+  return (
+    <CustomSubtitles
+      useCustomSubtitles={secondary.isDualActive}
+      currentSubtitle={secondary.secondarySubtitle}
+      subtitleSize={style.size}
+      subtitleBackground={style.background}
+      zoomScale={zoomScale}
+      textColor={style.textColor}
+      backgroundOpacity={style.bgOpacity}
+      textShadow={style.textShadow}
+      outline={style.outline}
+      outlineColor={style.outlineColor}
+      outlineWidth={style.outlineWidth}
+      align={align}
+      bottomOffset={style.edgeOffset}
+      letterSpacing={letterSpacing}
+      lineHeightMultiplier={lineHeightMultiplier}
+      controlsVisible={controlsVisible}
+      controlsExtraOffset={controlsExtraOffset}
+      placement="top"
+      inline={inline}
+    />
+  );
+};
+
+export default SecondarySubtitles;
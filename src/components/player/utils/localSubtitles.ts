@@ -0,0 +1,122 @@
+import axios from 'axios';
+import * as FileSystem from 'expo-file-system/legacy';
+import * as DocumentPicker from 'expo-document-picker';
+import { WyzieSubtitle } from './playerTypes';
+
+/**
+ * Subtitle files that live on the device: imported through the document picker
+ * or sitting next to a downloaded video. Both work without any subtitle API,
+ * which is what offline playback of downloads needs.
+ */
+
+export const LOCAL_SUBTITLE_EXTENSIONS = ['srt', 'vtt', 'ass', 'ssa'];
+
+const IMPORTED_SUBTITLES_DIR = 'subtitles';
+
+export const isLocalSubtitleUri = (url: string): boolean =>
+  url.startsWith('file://') || url.startsWith('/') || url.startsWith('content://');
+
+const extensionOf = (name: string): string => (name.split('.').pop() || '').toLowerCase();
+
+const stripExtension = (name: string): string => name.replace(/\.[^./]+$/, '');
+
+const splitUri = (uri: string): { dir: string; name: string } => {
+  const idx = uri.lastIndexOf('/');
+  return { dir: uri.substring(0, idx + 1), name: uri.substring(idx + 1) };
+};
+
+// "Movie.en.srt" / "Movie.en.forced.srt" -> "en"
+const languageFromFileName = (name: string): string => {
+  const parts = stripExtension(name).split('.');
+  for (let i = parts.length - 1; i > 0 && i >= parts.length - 2; i--) {
+    const part = parts[i].toLowerCase();
+    if (/^[a-z]{2,3}(-[a-z]{2})?$/.test(part)) return part;
+  }
+  return '';
+};
+
+const toLocalSubtitle = (uri: string, name: string, source: string): WyzieSubtitle => {
+  const language = languageFromFileName(name);
+  return {
+    id: `local-${uri}`,
+    url: uri,
+    flagUrl: '',
+    format: extensionOf(name),
+    encoding: 'utf-8',
+    media: name,
+    display: stripExtension(name),
+    language,
+    isHearingImpaired: /\.(sdh|hi|cc)\./i.test(name),
+    source,
+    release: name,
+  };
+};
+
+// Reads a subtitle from a local file or downloads it
+export async function readSubtitleContent(url: string): Promise<string> {
+  if (isLocalSubtitleUri(url)) {
+    return FileSystem.readAsStringAsync(url.startsWith('/') ? `file://${url}` : url);
+  }
+  try {
+    const resp = await axios.get(url, { timeout: 10000 });
+    return typeof resp.data === 'string' ? resp.data : String(resp.data);
+  } catch {
+    const resp = await fetch(url);
+    return resp.text();
+  }
+}
+
+/**
+ * Subtitle files in the same directory as a downloaded video whose name starts
+ * with the video's name (e.g. "Movie.mkv" -> "Movie.en.srt").
+ */
+export async function findSiblingSubtitles(videoUri: string): Promise<WyzieSubtitle[]> {
+  if (!videoUri.startsWith('file://')) return [];
+  const { dir, name } = splitUri(videoUri);
+  const prefix = `${stripExtension(name).toLowerCase()}.`;
+
+  const files = await FileSystem.readDirectoryAsync(dir);
+  return files
+    .filter(file => LOCAL_SUBTITLE_EXTENSIONS.includes(extensionOf(file)) && file.toLowerCase().startsWith(prefix))
+    .sort()
+    .map(file => toLocalSubtitle(`${dir}${file}`, file, 'Download'));
+}
+
+/**
+ * Lets the user pick a subtitle file and copies it somewhere permanent. When a
+ * downloaded video is playing the copy goes next to it, so it is found again
+ * for that video and deleted along with it. Returns null if cancelled.
+ */
+export async function importSubtitleFile(videoUri?: string): Promise<WyzieSubtitle | null> {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: '*/*',
+    copyToCacheDirectory: true,
+  });
+  if (result.canceled || !result.assets?.[0]) return null;
+
+  const asset = result.assets[0];
+  const ext = extensionOf(asset.name || asset.uri);
+  if (!LOCAL_SUBTITLE_EXTENSIONS.includes(ext)) {
+    throw new Error(`Unsupported subtitle file type: .${ext || '?'}`);
+  }
+
+  let destination: string;
+  if (videoUri?.startsWith('file://')) {
+    const { dir, name } = splitUri(videoUri);
+    const label = stripExtension(asset.name || 'imported').replace(/[^A-Za-z0-9_-]+/g, '_');
+    destination = `${dir}${stripExtension(name)}.${label}.${ext}`;
+  } else {
+    const importDir = `${FileSystem.documentDirectory}${IMPORTED_SUBTITLES_DIR}/`;
+    await FileSystem.makeDirectoryAsync(importDir, { intermediates: true }).catch(() => { });
+    destination = `${importDir}${Date.now()}_${(asset.name || `imported.${ext}`).replace(/[^A-Za-z0-9._-]+/g, '_')}`;
+  }
+
+  await FileSystem.copyAsync({ from: asset.uri, to: destination });
+  return toLocalSubtitle(destination, asset.name || splitUri(destination).name, 'Device');
+}
+
+// Removes subtitles stored next to a downloaded video when the download is deleted
+export async function deleteSiblingSubtitles(videoUri: string): Promise<void> {
+  const siblings = await findSiblingSubtitles(videoUri).catch(() => []);
+  await Promise.all(siblings.map(sub => FileSystem.deleteAsync(sub.url, { idempotent: true }).catch(() => { })));
+}
@@ -707,6 +707,20 @@ export const styles = StyleSheet.create({
     fontWeight: 'bold',
     marginTop: 20,
   },
+  torrentStatusContainer: {
+    alignItems: 'center',
+    marginTop: 24,
+  },
+  torrentStatusText: {
+    color: 'rgba(255, 255, 255, 0.9)',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  torrentStatsText: {
+    color: 'rgba(255, 255, 255, 0.6)',
+    fontSize: 13,
+    marginTop: 6,
+  },
   videoPlayerContainer: {
     position: 'absolute',
     top: 0,
@@ -61,6 +61,25 @@ export interface TextTrack {
   type?: string | null; // Adjusting type based on linter error
 }
 
+// Playback diagnostics for the stats overlay; whatever a backend cannot report stays undefined
+export interface PlayerStats {
+  width?: number;
+  height?: number;
+  fps?: number;
+  videoCodec?: string;
+  decoder?: string;
+  droppedFrames?: number;
+  bufferSeconds?: number;
+  videoBitrate?: number; // bits per second
+  throughput?: number; // bits per second
+  hdr?: string;
+  audioCodec?: string;
+  audioChannels?: string;
+  audioSampleRate?: number;
+  audioBitrate?: number; // bits per second
+  container?: string;
+}
+
 // Define the possible resize modes
 export type ResizeModeType = 'contain' | 'cover' | 'stretch' | 'none';
 export const resizeModes: ResizeModeType[] = ['cover', 'contain', 'stretch'];
@@ -82,8 +101,18 @@ export interface SubtitleSegment {
   italic?: boolean;
   bold?: boolean;
   underline?: boolean;
+  strikethrough?: boolean;
   color?: string;
   fontName?: string;
+  // ASS karaoke syllable: absolute times in seconds, `color` is shown until the syllable starts
+  karaoke?: { start: number; end: number; color?: string };
+}
+
+export interface SubtitlePosition {
+  x?: number; // 0-1 fraction of the video width (ASS \pos)
+  y?: number; // 0-1 fraction of the video height
+  align?: string;
+  vertical?: 'top' | 'middle' | 'bottom';
 }
 
 export interface SubtitleCue {
@@ -91,12 +120,40 @@ export interface SubtitleCue {
   end: number;
   text: string;
   // New fields for advanced features
-  formattedSegments?: SubtitleSegment[]; // Rich text with formatting
-  position?: { x?: number; y?: number; align?: string }; // Position tags
+  formattedSegments?: SubtitleSegment[]; // Rich text with formatting, lines separated by '\n'
+  position?: SubtitlePosition; // Position tags
   rawText?: string; // Original text before processing
+  layer?: number; // ASS layer; higher layers draw on top
 }
 
 // Add interface for Wyzie subtitle API response
+// Dual subtitles: secondary stacked above the primary, or moved to the top edge
+export type DualSubtitleLayout = 'stacked' | 'top_bottom';
+
+export interface SecondarySubtitleStyle {
+  size: number;
+  textColor: string;
+  background: boolean;
+  bgOpacity: number;
+  textShadow: boolean;
+  outline: boolean;
+  outlineColor: string;
+  outlineWidth: number;
+  edgeOffset: number; // px from the top edge in top_bottom layout
+}
+
+export const DEFAULT_SECONDARY_SUBTITLE_STYLE: SecondarySubtitleStyle = {
+  size: 22,
+  textColor: '#FFD700',
+  background: false,
+  bgOpacity: 0.6,
+  textShadow: true,
+  outline: true,
+  outlineColor: '#000000',
+  outlineWidth: 3,
+  edgeOffset: 20,
+};
+
 export interface WyzieSubtitle {
   id: string;
   url: string;
@@ -108,4 +165,7 @@ export interface WyzieSubtitle {
   language: string;
   isHearingImpaired: boolean;
   source: string;
-} 
\ No newline at end of file
+  release?: string; // Release/file name the subtitle was made for, when the source reports it
+  hash?: string;
+  score?: number; // Ranking from subtitleAggregatorService, higher is better
+}
\ No newline at end of file
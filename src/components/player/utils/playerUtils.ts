@@ -167,6 +167,22 @@ export const formatTime = (seconds: number) => {
   }
 };
 
+// Bits per second as "12.4 Mbps" / "640 kbps" for the stats overlay
+export const formatBitrate = (bitsPerSecond?: number): string | undefined => {
+  if (bitsPerSecond == null || !isFinite(bitsPerSecond) || bitsPerSecond <= 0) return undefined;
+  if (bitsPerSecond >= 1000000) return `${(bitsPerSecond / 1000000).toFixed(1)} Mbps`;
+  return `${Math.round(bitsPerSecond / 1000)} kbps`;
+};
+
+// Parses "H:MM:SS", "MM:SS" or plain seconds typed by the user; null if invalid
+export const parseTimeInput = (input: string): number | null => {
+  const parts = input.trim().split(':');
+  if (parts.length === 0 || parts.length > 3 || parts.some(part => !/^\d+$/.test(part))) return null;
+  const values = parts.map(part => parseInt(part, 10));
+  if (values.slice(1).some(value => value >= 60)) return null;
+  return values.reduce((total, value) => total * 60 + value, 0);
+};
+
 // Enhanced SRT parser function - delegates to new parser with formatting support
 export const parseSRT = (srtContent: string): SubtitleCue[] => {
   // Use the new enhanced parser from subtitleParser.ts
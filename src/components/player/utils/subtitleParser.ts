@@ -1,17 +1,27 @@
 import { logger } from '../../../utils/logger';
-import { SubtitleCue, SubtitleSegment } from './playerTypes';
+import { SubtitleCue, SubtitlePosition, SubtitleSegment } from './playerTypes';
 
 const DEBUG_MODE = false;
 
+export type SubtitleFormat = 'srt' | 'vtt' | 'ass' | 'ttml' | 'microdvd' | 'unknown';
+
 /**
  * Detect subtitle format from content
  */
-export function detectSubtitleFormat(content: string, url?: string): 'srt' | 'vtt' | 'unknown' {
+export function detectSubtitleFormat(content: string, url?: string): SubtitleFormat {
+  // Content signatures are unambiguous, so they win over misleading URLs
+  const head = content.replace(/^\uFEFF/, '').trim().substring(0, 500);
+  if (/^\[Script Info\]/i.test(head) || /\[V4\+? Styles\]/i.test(head)) return 'ass';
+  if (/<tt[\s>:]/.test(head) || /<(\w+:)?tt\s/.test(head)) return 'ttml';
+  if (/^\{\d+\}\{\d*\}/.test(head)) return 'microdvd';
+
   // Check URL extension first
   if (url) {
     const urlLower = url.toLowerCase();
     if (urlLower.includes('.srt')) return 'srt';
     if (urlLower.includes('.vtt')) return 'vtt';
+    if (/\.(ass|ssa)(\?|$)/.test(urlLower)) return 'ass';
+    if (/\.(ttml|dfxp)(\?|$)/.test(urlLower)) return 'ttml';
   }
 
   // Check content patterns
@@ -51,12 +61,15 @@ function parseSRTTimestamp(timestamp: string): number {
  * 4=left, 5=center, 6=right
  * 1=bottom-left, 2=bottom, 3=bottom-right
  */
-function parseSRTPositionTag(text: string): { x?: number; y?: number; align?: string } | undefined {
-  const match = text.match(/\\{\\an([1-9])\\}/);
+function parseSRTPositionTag(text: string): SubtitlePosition | undefined {
+  const match = text.match(/\{\\an([1-9])\}/i);
   if (!match) return undefined;
 
-  const pos = parseInt(match[1]);
-  
+  return numpadToPosition(parseInt(match[1]));
+}
+
+// Map numpad alignment (ASS \an, SRT {\an}) to horizontal + vertical placement
+function numpadToPosition(pos: number): SubtitlePosition {
   // Map numpad to alignment
   const alignments: Record<number, string> = {
     1: 'left',     // bottom-left
@@ -70,11 +83,9 @@ function parseSRTPositionTag(text: string): { x?: number; y?: number; align?: st
     9: 'right',    // top-right
   };
 
-  const verticalPos = pos <= 3 ? 'bottom' : pos <= 6 ? 'middle' : 'top';
-  
   return {
     align: alignments[pos] || 'center',
-    // Could add x/y positioning here if needed
+    vertical: pos <= 3 ? 'bottom' : pos <= 6 ? 'middle' : 'top',
   };
 }
 
@@ -414,6 +425,616 @@ export function parseWebVTT(content: string): SubtitleCue[] {
   return cues;
 }
 
+/**
+ * Convert an ASS colour (&HAABBGGRR or &HBBGGRR&) to a CSS colour
+ */
+function parseASSColor(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const trimmed = value.trim();
+  if (!/^&H/i.test(trimmed)) {
+    // SSA v4 styles store colours as decimal BGR integers, without the &H prefix
+    if (!/^-?\d+$/.test(trimmed)) return undefined;
+    return parseASSColor(`&H${(parseInt(trimmed, 10) >>> 0).toString(16)}`);
+  }
+  const hex = trimmed.replace(/^&H/i, '').replace(/&$/, '');
+  if (!/^[0-9a-f]+$/i.test(hex)) return undefined;
+
+  const padded = hex.padStart(8, '0');
+  const alpha = parseInt(padded.substring(0, 2), 16);
+  const b = parseInt(padded.substring(2, 4), 16);
+  const g = parseInt(padded.substring(4, 6), 16);
+  const r = parseInt(padded.substring(6, 8), 16);
+
+  // ASS alpha is inverted: 00 is opaque, FF fully transparent
+  if (alpha > 0) {
+    return `rgba(${r}, ${g}, ${b}, ${((255 - alpha) / 255).toFixed(2)})`;
+  }
+  return `#${[r, g, b].map(c => c.toString(16).padStart(2, '0')).join('')}`.toUpperCase();
+}
+
+/**
+ * Parse ASS timestamp H:MM:SS.cc
+ */
+function parseASSTimestamp(timestamp: string): number {
+  const match = timestamp.trim().match(/(\d+):(\d{1,2}):(\d{1,2})(?:[.,](\d+))?/);
+  if (!match) return 0;
+
+  const fraction = match[4] ? parseInt(match[4]) / Math.pow(10, match[4].length) : 0;
+  return parseInt(match[1]) * 3600 + parseInt(match[2]) * 60 + parseInt(match[3]) + fraction;
+}
+
+// Legacy SSA \a alignment: 1-3 bottom, 5-7 top, 9-11 middle
+function legacyAlignmentToNumpad(value: number): number {
+  if (value >= 9) return value - 5;
+  if (value >= 5) return value + 2;
+  return value;
+}
+
+interface ASSStyle {
+  fontName?: string;
+  primaryColor?: string;
+  secondaryColor?: string;
+  bold: boolean;
+  italic: boolean;
+  underline: boolean;
+  strikethrough: boolean;
+  alignment: number; // Numpad
+}
+
+const DEFAULT_ASS_STYLE: ASSStyle = {
+  bold: false,
+  italic: false,
+  underline: false,
+  strikethrough: false,
+  alignment: 2,
+};
+
+function parseASSStyle(format: string[], values: string[], legacy: boolean): { name: string; style: ASSStyle } {
+  const field = (name: string) => {
+    const index = format.indexOf(name.toLowerCase());
+    return index >= 0 ? values[index]?.trim() : undefined;
+  };
+  // ASS booleans are -1 (true) or 0; some writers use 1
+  const flag = (name: string) => {
+    const value = field(name);
+    return value !== undefined && value !== '0' && value !== '';
+  };
+  const alignment = parseInt(field('alignment') || '2') || 2;
+
+  return {
+    name: field('name') || 'Default',
+    style: {
+      fontName: field('fontname'),
+      primaryColor: parseASSColor(field('primarycolour') || field('primarycolor')),
+      secondaryColor: parseASSColor(field('secondarycolour') || field('secondarycolor')),
+      bold: flag('bold'),
+      italic: flag('italic'),
+      underline: flag('underline'),
+      strikethrough: flag('strikeout'),
+      alignment: legacy ? legacyAlignmentToNumpad(alignment) : alignment,
+    },
+  };
+}
+
+/**
+ * Parse the text of one ASS Dialogue line: override blocks ({\b1\c&H..&}),
+ * line breaks, positioning and karaoke timing.
+ */
+function parseASSDialogueText(
+  text: string,
+  baseStyle: ASSStyle,
+  styles: Record<string, ASSStyle>,
+  cueStart: number,
+  playRes: { x: number; y: number }
+): { segments: SubtitleSegment[]; position?: SubtitlePosition } {
+  const segments: SubtitleSegment[] = [];
+  let style = { ...baseStyle };
+  let color = baseStyle.primaryColor;
+  let karaokeColor = baseStyle.secondaryColor;
+  let alignment: number | undefined;
+  let pos: { x: number; y: number } | undefined;
+  let karaokeOffset = 0;
+  let pendingKaraoke: { start: number; end: number } | undefined;
+  let drawing = false;
+
+  const pushText = (chunk: string) => {
+    if (!chunk || drawing) return;
+    const value = chunk
+      .replace(/\\N/g, '\n')
+      .replace(/\\n/g, ' ') // Soft break; the renderer wraps on its own
+      .replace(/\\h/g, ' ');
+
+    const segment: SubtitleSegment = { text: value };
+    if (style.italic) segment.italic = true;
+    if (style.bold) segment.bold = true;
+    if (style.underline) segment.underline = true;
+    if (style.strikethrough) segment.strikethrough = true;
+    // Plain white is left to the user's subtitle colour setting
+    if (color && color !== '#FFFFFF') segment.color = color;
+    if (style.fontName) segment.fontName = style.fontName;
+    if (pendingKaraoke) {
+      segment.karaoke = { ...pendingKaraoke, color: karaokeColor };
+      pendingKaraoke = undefined;
+    }
+    segments.push(segment);
+  };
+
+  const applyTag = (tag: string) => {
+    let m: RegExpMatchArray | null;
+    if ((m = tag.match(/^(?:1?c|1c)&?H?([0-9a-f]+)&?$/i))) {
+      color = parseASSColor(`&H${m[1]}`);
+    } else if ((m = tag.match(/^2c&?H?([0-9a-f]+)&?$/i))) {
+      karaokeColor = parseASSColor(`&H${m[1]}`);
+    } else if ((m = tag.match(/^an([1-9])$/))) {
+      if (alignment === undefined) alignment = parseInt(m[1]); // First \an wins
+    } else if ((m = tag.match(/^a(\d{1,2})$/))) {
+      if (alignment === undefined) alignment = legacyAlignmentToNumpad(parseInt(m[1]));
+    } else if ((m = tag.match(/^pos\(\s*([-\d.]+)\s*,\s*([-\d.]+)\s*\)$/))) {
+      pos = { x: parseFloat(m[1]), y: parseFloat(m[2]) };
+    } else if ((m = tag.match(/^move\(\s*([-\d.]+)\s*,\s*([-\d.]+)/))) {
+      // Animation is not supported; show at the start point
+      if (!pos) pos = { x: parseFloat(m[1]), y: parseFloat(m[2]) };
+    } else if ((m = tag.match(/^(?:k|K|kf|ko)(\d+)$/))) {
+      const duration = parseInt(m[1]) / 100;
+      pendingKaraoke = { start: cueStart + karaokeOffset, end: cueStart + karaokeOffset + duration };
+      karaokeOffset += duration;
+    } else if ((m = tag.match(/^b(\d+)$/))) {
+      style.bold = m[1] !== '0';
+    } else if ((m = tag.match(/^i([01])$/))) {
+      style.italic = m[1] === '1';
+    } else if ((m = tag.match(/^u([01])$/))) {
+      style.underline = m[1] === '1';
+    } else if ((m = tag.match(/^s([01])$/))) {
+      style.strikethrough = m[1] === '1';
+    } else if ((m = tag.match(/^fn(.+)$/))) {
+      style.fontName = m[1].trim();
+    } else if ((m = tag.match(/^p(\d+)$/))) {
+      drawing = m[1] !== '0';
+    } else if ((m = tag.match(/^r(.*)$/))) {
+      // \r resets to the line style, \rName to another style
+      style = { ...(styles[m[1].trim()] || baseStyle) };
+      color = style.primaryColor;
+      karaokeColor = style.secondaryColor;
+    }
+  };
+
+  const overrideRegex = /\{([^}]*)\}/g;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = overrideRegex.exec(text)) !== null) {
+    pushText(text.substring(lastIndex, match.index));
+    // Tags inside parentheses may contain backslashes (\t(...\c...)); skip transforms entirely
+    const block = match[1].replace(/\\t\([^)]*\)/g, '');
+    block.split('\\').slice(1).forEach(tag => applyTag(tag.trim()));
+    lastIndex = match.index + match[0].length;
+  }
+  pushText(text.substring(lastIndex));
+
+  const numpad = alignment ?? baseStyle.alignment;
+  let position: SubtitlePosition | undefined = numpad !== 2 ? numpadToPosition(numpad) : undefined;
+  if (pos) {
+    position = {
+      ...numpadToPosition(numpad),
+      x: Math.min(Math.max(pos.x / playRes.x, 0), 1),
+      y: Math.min(Math.max(pos.y / playRes.y, 0), 1),
+    };
+  }
+
+  return { segments, position };
+}
+
+/**
+ * Parse ASS/SSA format: styles, override tags, \pos/\an, colours and karaoke.
+ * Every Dialogue event becomes its own cue, so overlapping events show together.
+ */
+export function parseASS(content: string): SubtitleCue[] {
+  const cues: SubtitleCue[] = [];
+  if (!content || content.trim().length === 0) return cues;
+
+  const lines = content.replace(/^\uFEFF/, '').replace(/\r\n/g, '\n').replace(/\r/g, '\n').split('\n');
+  const styles: Record<string, ASSStyle> = {};
+  // Script resolution per the spec defaults when PlayRes is missing
+  const playRes = { x: 384, y: 288 };
+  let section = '';
+  let legacy = false;
+  let styleFormat: string[] = [];
+  let eventFormat: string[] = [];
+
+  for (const rawLine of lines) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith(';')) continue;
+
+    const sectionMatch = line.match(/^\[(.+)\]$/);
+    if (sectionMatch) {
+      section = sectionMatch[1].toLowerCase();
+      legacy = section === 'v4 styles';
+      continue;
+    }
+
+    const separator = line.indexOf(':');
+    if (separator < 0) continue;
+    const key = line.substring(0, separator).trim().toLowerCase();
+    const value = line.substring(separator + 1).trim();
+
+    if (section === 'script info') {
+      if (key === 'playresx') playRes.x = parseFloat(value) || playRes.x;
+      if (key === 'playresy') playRes.y = parseFloat(value) || playRes.y;
+    } else if (section.includes('styles')) {
+      if (key === 'format') {
+        styleFormat = value.split(',').map(f => f.trim().toLowerCase());
+      } else if (key === 'style' && styleFormat.length > 0) {
+        const { name, style } = parseASSStyle(styleFormat, value.split(','), legacy);
+        styles[name] = style;
+      }
+    } else if (section === 'events') {
+      if (key === 'format') {
+        eventFormat = value.split(',').map(f => f.trim().toLowerCase());
+      } else if (key === 'dialogue') {
+        const format = eventFormat.length > 0
+          ? eventFormat
+          : ['layer', 'start', 'end', 'style', 'name', 'marginl', 'marginr', 'marginv', 'effect', 'text'];
+        // Text is always the last field and may itself contain commas
+        const parts = value.split(',');
+        const fields = parts.slice(0, format.length - 1);
+        fields.push(parts.slice(format.length - 1).join(','));
+        const field = (name: string) => fields[format.indexOf(name)];
+
+        try {
+          const start = parseASSTimestamp(field('start') || '');
+          const end = parseASSTimestamp(field('end') || '');
+          if (end <= start) continue;
+
+          const styleName = (field('style') || 'Default').replace(/^\*/, '').trim();
+          const baseStyle = styles[styleName] || styles.Default || DEFAULT_ASS_STYLE;
+          const rawText = field('text') || '';
+          const { segments, position } = parseASSDialogueText(rawText, baseStyle, styles, start, playRes);
+          const plainText = segments.map(s => s.text).join('').trim();
+          if (!plainText) continue; // Pure drawing or empty events
+
+          cues.push({
+            start,
+            end,
+            text: plainText,
+            rawText,
+            formattedSegments: segments.length > 0 ? segments : undefined,
+            position,
+            layer: parseInt(field('layer') || '0') || 0,
+          });
+        } catch (error) {
+          if (DEBUG_MODE) logger.log(`[SubtitleParser] Error parsing ASS dialogue: ${error}`);
+        }
+      }
+    }
+  }
+
+  cues.sort((a, b) => a.start - b.start || (a.layer || 0) - (b.layer || 0));
+
+  if (DEBUG_MODE) {
+    logger.log(`[SubtitleParser] Parsed ${cues.length} ASS cues (${Object.keys(styles).length} styles, PlayRes ${playRes.x}x${playRes.y})`);
+  }
+
+  return cues;
+}
+
+/**
+ * Decode the XML entities that show up in TTML text
+ */
+function decodeXMLEntities(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCharCode(parseInt(dec, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&');
+}
+
+function parseXMLAttributes(attrString: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  const regex = /([\w:.-]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(attrString)) !== null) {
+    // Drop namespace prefixes (tts:color -> color, xml:id -> id)
+    const name = match[1].includes(':') ? match[1].split(':').pop()! : match[1];
+    attrs[name] = match[3] ?? match[4] ?? '';
+  }
+  return attrs;
+}
+
+/**
+ * Parse a TTML time expression: clock time (HH:MM:SS.fff or HH:MM:SS:FF) or
+ * offset time (12.5s, 500ms, 1.5m, 1h, 30f, 10000000t)
+ */
+function parseTTMLTime(value: string | undefined, frameRate: number, tickRate: number): number | undefined {
+  if (!value) return undefined;
+  const trimmed = value.trim();
+
+  const clock = trimmed.match(/^(\d+):(\d{2}):(\d{2})(?:\.(\d+)|:(\d+(?:\.\d+)?))?$/);
+  if (clock) {
+    const base = parseInt(clock[1]) * 3600 + parseInt(clock[2]) * 60 + parseInt(clock[3]);
+    if (clock[4]) return base + parseFloat(`0.${clock[4]}`);
+    if (clock[5]) return base + parseFloat(clock[5]) / frameRate;
+    return base;
+  }
+
+  const offset = trimmed.match(/^(\d+(?:\.\d+)?)(h|m|s|ms|f|t)$/);
+  if (offset) {
+    const amount = parseFloat(offset[1]);
+    switch (offset[2]) {
+      case 'h': return amount * 3600;
+      case 'm': return amount * 60;
+      case 's': return amount;
+      case 'ms': return amount / 1000;
+      case 'f': return amount / frameRate;
+      case 't': return amount / tickRate;
+    }
+  }
+  return undefined;
+}
+
+interface TTMLStyle {
+  color?: string;
+  italic?: boolean;
+  bold?: boolean;
+  underline?: boolean;
+  fontName?: string;
+  align?: string;
+  vertical?: 'top' | 'middle' | 'bottom';
+}
+
+function ttmlStyleFromAttributes(attrs: Record<string, string>, styles: Record<string, TTMLStyle>): TTMLStyle {
+  // Referenced styles first, then inline attributes override them
+  const style: TTMLStyle = {};
+  for (const ref of (attrs.style || '').split(/\s+/).filter(Boolean)) {
+    Object.assign(style, styles[ref]);
+  }
+  if (attrs.color) style.color = attrs.color;
+  if (attrs.fontStyle) style.italic = attrs.fontStyle === 'italic' || attrs.fontStyle === 'oblique';
+  if (attrs.fontWeight) style.bold = attrs.fontWeight === 'bold';
+  if (attrs.textDecoration) style.underline = attrs.textDecoration.includes('underline');
+  if (attrs.fontFamily) style.fontName = attrs.fontFamily.split(',')[0].trim();
+  if (attrs.textAlign) {
+    style.align = attrs.textAlign === 'start' || attrs.textAlign === 'left' ? 'left'
+      : attrs.textAlign === 'end' || attrs.textAlign === 'right' ? 'right' : 'center';
+  }
+  if (attrs.displayAlign) {
+    style.vertical = attrs.displayAlign === 'before' ? 'top' : attrs.displayAlign === 'center' ? 'middle' : 'bottom';
+  }
+  return style;
+}
+
+/**
+ * Parse TTML / DFXP. Handles styles, regions, <span> formatting and <br/>.
+ */
+export function parseTTML(content: string): SubtitleCue[] {
+  const cues: SubtitleCue[] = [];
+  if (!content || content.trim().length === 0) return cues;
+
+  const rootMatch = content.match(/<(?:\w+:)?tt\b([^>]*)>/);
+  const rootAttrs = rootMatch ? parseXMLAttributes(rootMatch[1]) : {};
+  const frameRate = (parseFloat(rootAttrs.frameRate || '') || 30) * (
+    rootAttrs.frameRateMultiplier
+      ? rootAttrs.frameRateMultiplier.split(/\s+/).map(Number).reduce((a, b) => a / b)
+      : 1
+  );
+  const tickRate = parseFloat(rootAttrs.tickRate || '') || (rootAttrs.frameRate ? frameRate : 1);
+
+  const styles: Record<string, TTMLStyle> = {};
+  const styleRegex = /<(?:\w+:)?style\b([^>]*?)\/?>/g;
+  let match: RegExpExecArray | null;
+  while ((match = styleRegex.exec(content)) !== null) {
+    const attrs = parseXMLAttributes(match[1]);
+    if (attrs.id) styles[attrs.id] = ttmlStyleFromAttributes(attrs, styles);
+  }
+
+  const regions: Record<string, TTMLStyle> = {};
+  const regionRegex = /<(?:\w+:)?region\b([^>]*?)(?:\/>|>([\s\S]*?)<\/(?:\w+:)?region>)/g;
+  while ((match = regionRegex.exec(content)) !== null) {
+    const attrs = parseXMLAttributes(match[1]);
+    if (!attrs.id) continue;
+    // Region styling may live in nested <style> children
+    const nested = match[2] ? parseXMLAttributes((match[2].match(/<(?:\w+:)?style\b([^>]*)/) || [])[1] || '') : {};
+    const region = ttmlStyleFromAttributes({ ...nested, ...attrs }, styles);
+    // Regions placed in the upper part of the frame without displayAlign still read as top
+    const origin = attrs.origin?.match(/([\d.]+)%\s+([\d.]+)%/);
+    if (!region.vertical && origin && parseFloat(origin[2]) < 40) region.vertical = 'top';
+    regions[attrs.id] = region;
+  }
+
+  const paragraphRegex = /<(?:\w+:)?p\b([^>]*)>([\s\S]*?)<\/(?:\w+:)?p>/g;
+  while ((match = paragraphRegex.exec(content)) !== null) {
+    const attrs = parseXMLAttributes(match[1]);
+    const start = parseTTMLTime(attrs.begin, frameRate, tickRate);
+    if (start === undefined) continue;
+    const end = parseTTMLTime(attrs.end, frameRate, tickRate)
+      ?? (attrs.dur ? start + (parseTTMLTime(attrs.dur, frameRate, tickRate) || 0) : undefined);
+    if (end === undefined || end <= start) continue;
+
+    const paragraphStyle: TTMLStyle = {
+      ...(attrs.region ? regions[attrs.region] : undefined),
+      ...ttmlStyleFromAttributes(attrs, styles),
+    };
+
+    // Walk spans/line breaks keeping a style stack
+    const segments: SubtitleSegment[] = [];
+    const stack: TTMLStyle[] = [paragraphStyle];
+    const tokenRegex = /<(\/)?(?:\w+:)?(span|br)\b([^>]*?)(\/)?>|([^<]+)/g;
+    let token: RegExpExecArray | null;
+    const body = match[2].replace(/<!--[\s\S]*?-->/g, '');
+    while ((token = tokenRegex.exec(body)) !== null) {
+      if (token[5] !== undefined) {
+        // XML whitespace (indentation/newlines) collapses to single spaces
+        const text = decodeXMLEntities(token[5].replace(/\s+/g, ' '));
+        if (!text.trim() && (segments.length === 0 || segments[segments.length - 1].text.endsWith('\n'))) continue;
+        const current = stack[stack.length - 1];
+        const segment: SubtitleSegment = { text };
+        if (current.italic) segment.italic = true;
+        if (current.bold) segment.bold = true;
+        if (current.underline) segment.underline = true;
+        if (current.color) segment.color = current.color;
+        if (current.fontName) segment.fontName = current.fontName;
+        segments.push(segment);
+      } else if (token[2] === 'br') {
+        if (segments.length > 0) {
+          segments[segments.length - 1].text = segments[segments.length - 1].text.replace(/ $/, '');
+        }
+        segments.push({ text: '\n' });
+      } else if (token[1]) {
+        if (stack.length > 1) stack.pop();
+      } else if (!token[4]) {
+        stack.push({ ...stack[stack.length - 1], ...ttmlStyleFromAttributes(parseXMLAttributes(token[3]), styles) });
+      }
+    }
+
+    // Merge stray newline segments into their neighbours and trim line edges
+    const merged: SubtitleSegment[] = [];
+    for (const segment of segments) {
+      const last = merged[merged.length - 1];
+      if (segment.text === '\n' && last) {
+        last.text += '\n';
+      } else if (last && last.text.endsWith('\n')) {
+        merged.push({ ...segment, text: segment.text.replace(/^ /, '') });
+      } else {
+        merged.push(segment);
+      }
+    }
+    const plainText = merged.map(s => s.text).join('').trim();
+    if (!plainText) continue;
+
+    const position: SubtitlePosition | undefined =
+      (paragraphStyle.vertical && paragraphStyle.vertical !== 'bottom') || (paragraphStyle.align && paragraphStyle.align !== 'center')
+        ? { align: paragraphStyle.align || 'center', vertical: paragraphStyle.vertical || 'bottom' }
+        : undefined;
+
+    cues.push({
+      start,
+      end,
+      text: plainText,
+      rawText: match[2],
+      formattedSegments: merged.length > 0 ? merged : undefined,
+      position,
+    });
+  }
+
+  return cues.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Parse SUB/MicroDVD: {startFrame}{endFrame}text with | line breaks and
+ * {y:i}/{c:$BBGGRR} control codes. Frame rate comes from a leading {1}{1}fps line.
+ */
+export function parseMicroDVD(content: string, defaultFrameRate = 23.976): SubtitleCue[] {
+  const cues: SubtitleCue[] = [];
+  if (!content || content.trim().length === 0) return cues;
+
+  const lines = content.replace(/^\uFEFF/, '').replace(/\r\n/g, '\n').replace(/\r/g, '\n').split('\n');
+  let frameRate = defaultFrameRate;
+
+  for (const rawLine of lines) {
+    const match = rawLine.trim().match(/^\{(\d+)\}\{(\d*)\}(.*)$/);
+    if (!match) continue;
+
+    const startFrame = parseInt(match[1]);
+    const endFrame = match[2] ? parseInt(match[2]) : startFrame;
+    const body = match[3];
+
+    // {1}{1}23.976 declares the frame rate rather than a subtitle
+    if (startFrame <= 1 && endFrame <= 1 && /^\d+(\.\d+)?$/.test(body.trim())) {
+      frameRate = parseFloat(body.trim()) || frameRate;
+      continue;
+    }
+
+    // Uppercase control codes apply to every line, lowercase ones to their own line
+    const cueStyle: Partial<SubtitleSegment> = {};
+    const applyCodes = (text: string, target: Partial<SubtitleSegment>, global: boolean) =>
+      text.replace(/\{([yYcCfF]):([^}]*)\}/g, (full: string, code: string, value: string) => {
+        if (global !== (code === code.toUpperCase())) return full;
+        if (code.toLowerCase() === 'y') {
+          if (value.includes('i')) target.italic = true;
+          if (value.includes('b')) target.bold = true;
+          if (value.includes('u')) target.underline = true;
+          if (value.includes('s')) target.strikethrough = true;
+        } else if (code.toLowerCase() === 'c') {
+          const hex = value.replace(/^\$/, '').padStart(6, '0');
+          target.color = `#${hex.substring(4, 6)}${hex.substring(2, 4)}${hex.substring(0, 2)}`.toUpperCase();
+        } else if (code.toLowerCase() === 'f') {
+          target.fontName = value.trim();
+        }
+        return '';
+      });
+
+    const withoutGlobal = applyCodes(body, cueStyle, true);
+    const segments: SubtitleSegment[] = withoutGlobal.split('|').map((line, index, all) => {
+      const lineStyle: Partial<SubtitleSegment> = { ...cueStyle };
+      const text = applyCodes(line, lineStyle, false).replace(/\{[^}]*\}/g, '');
+      return { ...lineStyle, text: index < all.length - 1 ? `${text}\n` : text };
+    });
+    const plainText = segments.map(s => s.text).join('').trim();
+    if (!plainText) continue;
+
+    cues.push({
+      start: startFrame / frameRate,
+      end: endFrame / frameRate,
+      text: plainText,
+      rawText: body,
+      formattedSegments: segments,
+    });
+  }
+
+  return cues;
+}
+
+/**
+ * Cues active at a given time, in draw order. Formats like ASS routinely have
+ * several events on screen at once.
+ */
+export function getActiveCues(cues: SubtitleCue[], time: number): SubtitleCue[] {
+  return cues
+    .filter(cue => time >= cue.start && time <= cue.end)
+    .sort((a, b) => (a.layer || 0) - (b.layer || 0));
+}
+
+// Cues with an explicit position or a non-bottom placement render outside the bottom block
+export function isPositionedCue(cue: SubtitleCue): boolean {
+  const position = cue.position;
+  if (!position) return false;
+  return position.x !== undefined || position.y !== undefined || (!!position.vertical && position.vertical !== 'bottom');
+}
+
+/**
+ * Split a cue's segments into lines for CustomSubtitles, which renders one
+ * <Text> per line.
+ */
+export function segmentsToLines(segments: SubtitleSegment[]): SubtitleSegment[][] {
+  const lines: SubtitleSegment[][] = [[]];
+  for (const segment of segments) {
+    const parts = segment.text.split('\n');
+    parts.forEach((part, index) => {
+      if (index > 0) lines.push([]);
+      if (part) lines[lines.length - 1].push({ ...segment, text: part });
+    });
+  }
+  return lines.filter(line => line.length > 0);
+}
+
+// Text of the cues shown in the regular bottom block, one cue per line group
+export function getBottomCueText(cues: SubtitleCue[]): string {
+  return cues.filter(cue => !isPositionedCue(cue)).map(cue => cue.text).join('\n');
+}
+
+// Lets playback-time effects skip state updates when the same cues stay on screen
+export function areSameCues(a: SubtitleCue[], b: SubtitleCue[]): boolean {
+  return a.length === b.length && a.every((cue, index) => cue === b[index]);
+}
+
+// True when segments carry styling worth rendering over plain text
+export function hasRichFormatting(segments: SubtitleSegment[] | undefined): boolean {
+  if (!segments || segments.length === 0) return false;
+  return segments.some(s => s.italic || s.bold || s.underline || s.strikethrough || s.color || s.karaoke);
+}
+
 /**
  * Auto-detect format and parse subtitle content
  */
@@ -427,6 +1048,12 @@ export function parseSubtitle(content: string, url?: string): SubtitleCue[] {
   switch (format) {
     case 'vtt':
       return parseWebVTT(content);
+    case 'ass':
+      return parseASS(content);
+    case 'ttml':
+      return parseTTML(content);
+    case 'microdvd':
+      return parseMicroDVD(content);
     case 'srt':
     default:
       return parseSRT(content);
@@ -0,0 +1,229 @@
+import { SubtitleCue } from './playerTypes';
+import { parseSubtitle } from './subtitleParser';
+import { readSubtitleContent } from './localSubtitles';
+
+/**
+ * Automatic subtitle alignment without audio analysis.
+ *
+ * A subtitle is aligned against a reference track that is known to be in sync by
+ * matching cue timing patterns (start times and durations), which works across
+ * languages. Candidate framerate ratios (23.976/24/25/29.97) are tried so a file
+ * made for a different release is corrected with linear scaling, not only an offset.
+ */
+
+export interface SubtitleSyncResult {
+    offset: number; // Seconds, same convention as subtitleOffsetSec (applied after scaling)
+    scale: number; // Factor to multiply cue times by; 1 means offset only
+    confidence: number; // 0-1 share of cues that line up after correction
+    matchedCues: number;
+    method: 'reference' | 'duration';
+    frameRateLabel?: string; // e.g. "25 → 23.976 fps" when the scale matches a known framerate pair
+}
+
+const FRAME_RATES = [23.976, 24, 25, 29.97];
+const MAX_OFFSET_SEC = 120;
+const BIN_SIZE_SEC = 0.1;
+const MATCH_TOLERANCE_SEC = 0.6;
+const MIN_MATCHED_CUES = 10;
+const MIN_CONFIDENCE = 0.2;
+
+const FRAME_RATE_PAIRS = FRAME_RATES.flatMap(from =>
+    FRAME_RATES.filter(to => to !== from).map(to => ({ from, to, ratio: from / to }))
+);
+
+const frameRateLabelFor = (scale: number): string | undefined => {
+    const pair = FRAME_RATE_PAIRS.find(p => Math.abs(p.ratio - scale) < 0.002);
+    return pair ? `${pair.from} → ${pair.to} fps` : undefined;
+};
+
+// Index of the first cue starting at or after `time`
+const lowerBound = (starts: number[], time: number): number => {
+    let lo = 0;
+    let hi = starts.length;
+    while (lo < hi) {
+        const mid = (lo + hi) >> 1;
+        if (starts[mid] < time) lo = mid + 1;
+        else hi = mid;
+    }
+    return lo;
+};
+
+const median = (values: number[]): number => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = sorted.length >> 1;
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// Speaker changes and effects make very short cues noisy anchors
+const usableCues = (cues: SubtitleCue[]): SubtitleCue[] =>
+    cues
+        .filter(cue => cue.end - cue.start >= 0.3 && cue.text.trim().length > 0)
+        .sort((a, b) => a.start - b.start);
+
+/**
+ * Histogram vote over all cue pairs within MAX_OFFSET_SEC; pairs whose durations
+ * agree count more. Returns the best intercept for the given scale.
+ */
+const voteOffset = (target: SubtitleCue[], reference: SubtitleCue[], refStarts: number[], scale: number): number => {
+    const binCount = Math.ceil((2 * MAX_OFFSET_SEC) / BIN_SIZE_SEC) + 1;
+    const bins = new Float64Array(binCount);
+
+    for (const cue of target) {
+        const start = cue.start * scale;
+        const duration = (cue.end - cue.start) * scale;
+        const from = lowerBound(refStarts, start - MAX_OFFSET_SEC);
+        for (let j = from; j < reference.length && refStarts[j] <= start + MAX_OFFSET_SEC; j++) {
+            const ref = reference[j];
+            const durationDiff = Math.abs((ref.end - ref.start) - duration);
+            const weight = durationDiff < 0.25 ? 1 : durationDiff < 0.75 ? 0.5 : 0.1;
+            bins[Math.round((ref.start - start + MAX_OFFSET_SEC) / BIN_SIZE_SEC)] += weight;
+        }
+    }
+
+    // Smooth over ±0.2s so a consistent but slightly jittery offset wins over noise
+    let bestBin = 0;
+    let bestScore = -1;
+    for (let i = 0; i < binCount; i++) {
+        let score = 0;
+        for (let k = Math.max(0, i - 2); k <= Math.min(binCount - 1, i + 2); k++) score += bins[k];
+        if (score > bestScore) {
+            bestScore = score;
+            bestBin = i;
+        }
+    }
+    return bestBin * BIN_SIZE_SEC - MAX_OFFSET_SEC;
+};
+
+// Pair each target cue with the nearest reference start under the mapping ref = scale * t + intercept
+const matchCues = (
+    target: SubtitleCue[],
+    refStarts: number[],
+    scale: number,
+    intercept: number,
+    tolerance: number
+): { t: number; r: number }[] => {
+    const pairs: { t: number; r: number }[] = [];
+    for (const cue of target) {
+        const expected = cue.start * scale + intercept;
+        const idx = lowerBound(refStarts, expected);
+        let best = -1;
+        for (const j of [idx - 1, idx]) {
+            if (j < 0 || j >= refStarts.length) continue;
+            if (best === -1 || Math.abs(refStarts[j] - expected) < Math.abs(refStarts[best] - expected)) best = j;
+        }
+        if (best !== -1 && Math.abs(refStarts[best] - expected) <= tolerance) {
+            pairs.push({ t: cue.start, r: refStarts[best] });
+        }
+    }
+    return pairs;
+};
+
+// Least squares fit of r = scale * t + intercept
+const fitLine = (pairs: { t: number; r: number }[]): { scale: number; intercept: number } => {
+    const n = pairs.length;
+    const meanT = pairs.reduce((sum, p) => sum + p.t, 0) / n;
+    const meanR = pairs.reduce((sum, p) => sum + p.r, 0) / n;
+    let covariance = 0;
+    let variance = 0;
+    for (const p of pairs) {
+        covariance += (p.t - meanT) * (p.r - meanR);
+        variance += (p.t - meanT) * (p.t - meanT);
+    }
+    const scale = variance > 0 ? covariance / variance : 1;
+    return { scale, intercept: meanR - scale * meanT };
+};
+
+/**
+ * Align `target` cues against `reference` cues that are in sync with the video.
+ * Returns null when the tracks do not line up well enough to trust the result.
+ */
+export function computeSubtitleSync(target: SubtitleCue[], reference: SubtitleCue[]): SubtitleSyncResult | null {
+    const targetCues = usableCues(target);
+    const referenceCues = usableCues(reference);
+    if (targetCues.length < MIN_MATCHED_CUES || referenceCues.length < MIN_MATCHED_CUES) return null;
+
+    const refStarts = referenceCues.map(cue => cue.start);
+    const candidateScales = [1, ...FRAME_RATE_PAIRS.map(pair => pair.ratio)];
+
+    let best: { scale: number; intercept: number; matched: number } | null = null;
+    for (const candidate of candidateScales) {
+        let scale = candidate;
+        let intercept = voteOffset(targetCues, referenceCues, refStarts, candidate);
+
+        // Two refinement passes: widen first, then tighten around the fitted line
+        let pairs = matchCues(targetCues, refStarts, scale, intercept, MATCH_TOLERANCE_SEC * 2);
+        if (pairs.length < MIN_MATCHED_CUES) continue;
+        ({ scale, intercept } = fitLine(pairs));
+        pairs = matchCues(targetCues, refStarts, scale, intercept, MATCH_TOLERANCE_SEC);
+        if (pairs.length < MIN_MATCHED_CUES) continue;
+        ({ scale, intercept } = fitLine(pairs));
+
+        // Treat tiny slopes as noise and fall back to a pure offset
+        if (Math.abs(scale - 1) < 0.001) {
+            scale = 1;
+            intercept = median(pairs.map(p => p.r - p.t));
+        }
+
+        const matched = matchCues(targetCues, refStarts, scale, intercept, MATCH_TOLERANCE_SEC).length;
+        if (!best || matched > best.matched) {
+            best = { scale, intercept, matched };
+        }
+    }
+
+    if (!best) return null;
+    const confidence = best.matched / Math.min(targetCues.length, referenceCues.length);
+    if (confidence < MIN_CONFIDENCE) return null;
+
+    return {
+        // Cues are shown when playback + offset falls inside them, so the offset is the negated intercept
+        offset: Math.round(-best.intercept * 100) / 100,
+        scale: best.scale,
+        confidence: Math.min(1, confidence),
+        matchedCues: best.matched,
+        method: 'reference',
+        frameRateLabel: best.scale === 1 ? undefined : frameRateLabelFor(best.scale),
+    };
+}
+
+/**
+ * Fallback without a reference: a subtitle that runs well past the end of the
+ * video was most likely timed for a slower framerate. Picks the framerate ratio
+ * that brings the last cue just inside the video.
+ */
+export function estimateFrameRateDrift(cues: SubtitleCue[], videoDuration: number): SubtitleSyncResult | null {
+    if (!cues.length || !videoDuration || videoDuration <= 0) return null;
+    const lastEnd = Math.max(...cues.map(cue => cue.end));
+    if (lastEnd <= videoDuration + 5) return null;
+
+    const candidates = FRAME_RATE_PAIRS
+        .filter(pair => pair.ratio < 1 && lastEnd * pair.ratio <= videoDuration)
+        .sort((a, b) => b.ratio - a.ratio);
+    const pair = candidates[0];
+    if (!pair) return null;
+
+    return {
+        offset: 0,
+        scale: pair.ratio,
+        confidence: 0.3,
+        matchedCues: 0,
+        method: 'duration',
+        frameRateLabel: `${pair.from} → ${pair.to} fps`,
+    };
+}
+
+export function scaleSubtitleCues(cues: SubtitleCue[], scale: number): SubtitleCue[] {
+    if (scale === 1) return cues;
+    return cues.map(cue => ({
+        ...cue,
+        start: cue.start * scale,
+        end: cue.end * scale,
+        formattedSegments: cue.formattedSegments?.map(segment => segment.karaoke
+            ? { ...segment, karaoke: { ...segment.karaoke, start: segment.karaoke.start * scale, end: segment.karaoke.end * scale } }
+            : segment),
+    }));
+}
+
+// Download (or read from disk) and parse a subtitle to use as a sync reference
+export async function loadSubtitleCues(url: string): Promise<SubtitleCue[]> {
+    return parseSubtitle(await readSubtitleContent(url), url);
+}
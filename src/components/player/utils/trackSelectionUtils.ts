@@ -4,6 +4,7 @@
  */
 
 import { AppSettings } from '../../../hooks/useSettings';
+import type { ShowPlaybackPrefs } from '../../../services/storageService';
 import { languageMap } from './playerUtils';
 import { WyzieSubtitle } from './playerTypes';
 
@@ -91,16 +92,41 @@ export const trackMatchesLanguage = (track: Track, preferredLang: string): boole
     return false;
 };
 
+/**
+ * Track picked for this show before: same name first (tells apart e.g. a
+ * commentary track from the main one), then same language
+ */
+const findShowAudioTrack = (tracks: Track[], showPrefs?: ShowPlaybackPrefs | null): Track | undefined => {
+    if (!showPrefs) return undefined;
+    const wantedName = showPrefs.audioTrackName?.toLowerCase().trim();
+    if (wantedName) {
+        const byName = tracks.find(track =>
+            (track.name || '').toLowerCase().trim() === wantedName &&
+            (!showPrefs.audioLanguage || trackMatchesLanguage(track, showPrefs.audioLanguage))
+        );
+        if (byName) return byName;
+    }
+    if (showPrefs.audioLanguage) {
+        return tracks.find(track => trackMatchesLanguage(track, showPrefs.audioLanguage!));
+    }
+    return undefined;
+};
+
 /**
  * Find the best matching audio track based on user preferences
  * Returns the track ID to select, or null if no preference match found
  */
 export const findBestAudioTrack = (
     tracks: Track[],
-    preferredLanguage: string
+    preferredLanguage: string,
+    showPrefs?: ShowPlaybackPrefs | null
 ): number | null => {
     if (!tracks || tracks.length === 0) return null;
 
+    // The choice made for this show wins over the global language
+    const showTrack = findShowAudioTrack(tracks, showPrefs);
+    if (showTrack) return showTrack.id;
+
     // Try to find a track matching the preferred language
     const matchingTrack = tracks.find(track => trackMatchesLanguage(track, preferredLanguage));
 
@@ -119,6 +145,7 @@ export const findBestAudioTrack = (
  * @param internalTracks - Embedded subtitle tracks from the video
  * @param externalSubtitles - Available external/addon subtitles
  * @param settings - User's subtitle preferences
+ * @param showPrefs - Choices made for this show, which override the language and source
  * @returns Object with selected track info
  */
 export const findBestSubtitleTrack = (
@@ -128,7 +155,8 @@ export const findBestSubtitleTrack = (
         preferredSubtitleLanguage: string;
         subtitleSourcePreference: 'internal' | 'external' | 'any';
         enableSubtitleAutoSelect: boolean;
-    }
+    },
+    showPrefs?: ShowPlaybackPrefs | null
 ): {
     type: 'internal' | 'external' | 'none';
     internalTrackId?: number;
@@ -139,8 +167,13 @@ export const findBestSubtitleTrack = (
         return { type: 'none' };
     }
 
-    const preferredLang = settings.preferredSubtitleLanguage || 'en';
-    const sourcePreference = settings.subtitleSourcePreference || 'internal';
+    // Subtitles were turned off while watching this show
+    if (showPrefs?.subtitleSource === 'off') {
+        return { type: 'none' };
+    }
+
+    const preferredLang = showPrefs?.subtitleLanguage || settings.preferredSubtitleLanguage || 'en';
+    const sourcePreference = showPrefs?.subtitleSource || settings.subtitleSourcePreference || 'internal';
 
     // Find matching internal track
     const matchingInternalTrack = internalTracks.find(track =>
@@ -216,10 +249,14 @@ export const findBestSubtitleTrack = (
  */
 export const autoSelectAudioTrack = (
     tracks: Track[],
-    preferredLanguage: string
+    preferredLanguage: string,
+    showPrefs?: ShowPlaybackPrefs | null
 ): number | null => {
     if (!tracks || tracks.length === 0) return null;
 
+    const showTrack = findShowAudioTrack(tracks, showPrefs);
+    if (showTrack) return showTrack.id;
+
     // Try to find a track matching the preferred language
     const matchingTrack = tracks.find(track => trackMatchesLanguage(track, preferredLanguage));
 
@@ -5,6 +5,7 @@ import { AddonSearchResults, StreamingContent } from '../../services/catalogServ
 import { SearchResultItem } from './SearchResultItem';
 import { isTablet, isLargeTablet, isTV } from './searchUtils';
 import { searchStyles as styles } from './searchStyles';
+import { useParentalFilter } from '../../hooks/useParentalFilter';
 
 interface AddonSectionProps {
     addonGroup: AddonSearchResults;
@@ -22,20 +23,23 @@ export const AddonSection = React.memo(({
     currentTheme,
 }: AddonSectionProps) => {
     const { t } = useTranslation();
+    const results = useParentalFilter(addonGroup.results);
 
     const movieResults = useMemo(() =>
-        addonGroup.results.filter(item => item.type === 'movie'),
-        [addonGroup.results]
+        results.filter(item => item.type === 'movie'),
+        [results]
     );
     const seriesResults = useMemo(() =>
-        addonGroup.results.filter(item => item.type === 'series'),
-        [addonGroup.results]
+        results.filter(item => item.type === 'series'),
+        [results]
     );
     const otherResults = useMemo(() =>
-        addonGroup.results.filter(item => item.type !== 'movie' && item.type !== 'series'),
-        [addonGroup.results]
+        results.filter(item => item.type !== 'movie' && item.type !== 'series'),
+        [results]
     );
 
+    if (results.length === 0) return null;
+
     return (
         <View>
             {/* Addon Header */}
@@ -45,7 +49,7 @@ export const AddonSection = React.memo(({
                 </Text>
                 <View style={[styles.addonHeaderBadge, { backgroundColor: currentTheme.colors.elevation2 }]}>
                     <Text style={[styles.addonHeaderBadgeText, { color: currentTheme.colors.lightGray }]}>
-                        {addonGroup.results.length}
+                        {results.length}
                     </Text>
                 </View>
             </View>
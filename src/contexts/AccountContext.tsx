@@ -1,5 +1,6 @@
 import React, { createContext, useContext, useEffect, useMemo, useState, useRef } from 'react';
 import accountService, { AuthUser } from '../services/AccountService';
+import { syncService } from '../services/syncService';
 
 type AccountContextValue = {
   user: AuthUser | null;
@@ -24,6 +25,7 @@ export const AccountProvider: React.FC<{ children: React.ReactNode }> = ({ child
       try {
         const u = await accountService.getCurrentUser();
         setUser(u);
+        if (u) syncService.start();
       } catch (error) {
         console.warn('[AccountContext] Failed to load user:', error);
       } finally {
@@ -38,14 +40,23 @@ export const AccountProvider: React.FC<{ children: React.ReactNode }> = ({ child
     user,
     loading,
     signIn: async (email: string, password: string) => {
-      const { error } = await accountService.signInWithEmail(email, password);
+      const { user: signedIn, error } = await accountService.signInWithEmail(email, password);
+      if (signedIn) {
+        setUser(signedIn);
+        syncService.start();
+      }
       return error || null;
     },
     signUp: async (email: string, password: string) => {
-      const { error } = await accountService.signUpWithEmail(email, password);
+      const { user: signedUp, error } = await accountService.signUpWithEmail(email, password);
+      if (signedUp) {
+        setUser(signedUp);
+        syncService.start();
+      }
       return error || null;
     },
     signOut: async () => {
+      syncService.stop();
       await accountService.signOut();
       setUser(null);
     },
@@ -10,6 +10,7 @@ import {
 import { mmkvStorage } from '../services/mmkvStorage';
 import { notificationService } from '../services/notificationService';
 import { startOrUpdateDownloadLiveActivity, stopDownloadLiveActivity } from '../services/liveActivityService';
+import { deleteSiblingSubtitles } from '../components/player/utils/localSubtitles';
 
 export type DownloadStatus = 'downloading' | 'completed' | 'paused' | 'error' | 'queued';
 
@@ -834,6 +835,8 @@ export const DownloadsProvider: React.FC<{ children: React.ReactNode }> = ({ chi
     await stopLiveActivityForDownload(id, { title: item?.title, subtitle: 'Removed', progressPercent: item?.progress });
     if (item?.fileUri && item.status === 'completed') {
       await FileSystem.deleteAsync(item.fileUri, { idempotent: true }).catch(() => { });
+      // Subtitle files imported for this download live next to it
+      await deleteSiblingSubtitles(item.fileUri);
     }
     setDownloads(prev => prev.filter(d => d.id !== id));
   }, [stopLiveActivityForDownload]);
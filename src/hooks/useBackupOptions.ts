@@ -13,6 +13,8 @@ interface BackupPreferences {
   includeApiKeys: boolean;
   includeCatalogSettings: boolean;
   includeUserPreferences: boolean;
+  encryptBackups: boolean;
+  incrementalBackups: boolean;
 }
 
 const DEFAULT_PREFERENCES: BackupPreferences = {
@@ -25,6 +27,8 @@ const DEFAULT_PREFERENCES: BackupPreferences = {
   includeApiKeys: true,
   includeCatalogSettings: true,
   includeUserPreferences: true,
+  encryptBackups: true, // Backups carry Trakt tokens and API keys
+  incrementalBackups: false,
 };
 
 const STORAGE_KEY = 'backup_preferences';
@@ -86,6 +90,7 @@ export const useBackupOptions = () => {
       includeApiKeys: preferences.includeApiKeys,
       includeCatalogSettings: preferences.includeCatalogSettings,
       includeUserPreferences: preferences.includeUserPreferences,
+      incremental: preferences.incrementalBackups,
     };
   }, [preferences]);
 
@@ -2,6 +2,7 @@ import { useState, useEffect, useCallback } from 'react';
 import { mmkvStorage } from '../services/mmkvStorage';
 import { StreamingContent } from '../services/catalogService';
 import { catalogService } from '../services/catalogService';
+import { isProfileScope } from '../services/profileService';
 
 const LEGACY_LIBRARY_STORAGE_KEY = 'stremio-library';
 
@@ -16,8 +17,8 @@ export const useLibrary = () => {
       const scope = (await mmkvStorage.getItem('@user:current')) || 'local';
       const scopedKey = `@user:${scope}:stremio-library`;
       let storedItems = await mmkvStorage.getItem(scopedKey);
-      if (!storedItems) {
-        // migrate legacy into scoped
+      if (!storedItems && !isProfileScope(scope)) {
+        // migrate legacy into scoped (added profiles start with an empty library)
         const legacy = await mmkvStorage.getItem(LEGACY_LIBRARY_STORAGE_KEY);
         if (legacy) {
           await mmkvStorage.setItem(scopedKey, legacy);
@@ -0,0 +1,57 @@
+import { useState, useEffect, useCallback } from 'react';
+import { DeviceEventEmitter } from 'react-native';
+import { catalogService, StreamingContent } from '../services/catalogService';
+import { libraryListsService, LibraryList, WatchState } from '../services/libraryListsService';
+import { logger } from '../utils/logger';
+
+/**
+ * Collections and smart lists for the active profile, together with the
+ * library and watch state needed to resolve them into titles.
+ */
+export const useLibraryLists = () => {
+  const [lists, setLists] = useState<LibraryList[]>(libraryListsService.getLists());
+  const [tags, setTags] = useState<string[]>(libraryListsService.getAllTags());
+  const [libraryItems, setLibraryItems] = useState<StreamingContent[]>([]);
+  const [watchStates, setWatchStates] = useState<Record<string, WatchState>>({});
+  // Bumped on every change, since item tags feed smart list rules
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => libraryListsService.subscribe(state => {
+    setLists(state.lists);
+    setTags(libraryListsService.getAllTags());
+    setVersion(prev => prev + 1);
+  }), []);
+
+  useEffect(() => {
+    let items: StreamingContent[] = [];
+    const refreshWatchStates = async () => {
+      setWatchStates(await libraryListsService.getWatchStates(items));
+    };
+    const applyItems = (next: StreamingContent[]) => {
+      items = [...next].sort((a, b) => (b.addedToLibraryAt || 0) - (a.addedToLibraryAt || 0));
+      setLibraryItems(items);
+      refreshWatchStates();
+    };
+
+    catalogService.getLibraryItems()
+      .then(applyItems)
+      .catch(error => logger.error('[useLibraryLists] Failed to load library:', error));
+    const unsubscribe = catalogService.subscribeToLibraryUpdates(applyItems);
+    const watchedSub = DeviceEventEmitter.addListener('watchedStatusChanged', refreshWatchStates);
+
+    return () => {
+      unsubscribe();
+      watchedSub.remove();
+    };
+  }, []);
+
+  const resolve = useCallback(
+    (list: LibraryList) => libraryListsService.resolveList(list, libraryItems, watchStates),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [libraryItems, watchStates, version]
+  );
+
+  return { lists, tags, libraryItems, resolve };
+};
+
+export default useLibraryLists;
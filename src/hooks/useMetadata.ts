@@ -12,6 +12,7 @@ import { usePersistentSeasons } from './usePersistentSeasons';
 import { mmkvStorage } from '../services/mmkvStorage';
 import { Stream } from '../types/metadata';
 import { storageService } from '../services/storageService';
+import { isProfileScope } from '../services/profileService';
 import { useSettings } from './useSettings';
 
 // Constants for timeouts and retries
@@ -1624,7 +1625,9 @@ export const useMetadata = ({ id, type, addonId }: UseMetadataProps): UseMetadat
         });
 
         // Add local scrapers if enabled
-        const currentSettings = await mmkvStorage.getItem('app_settings');
+        const settingsScope = (await mmkvStorage.getItem('@user:current')) || 'local';
+        const currentSettings = (await mmkvStorage.getItem(`@user:${settingsScope}:app_settings`))
+          || (isProfileScope(settingsScope) ? null : await mmkvStorage.getItem('app_settings'));
         const enableLocalScrapersNow = currentSettings ? JSON.parse(currentSettings).enableLocalScrapers !== false : true;
 
         if (enableLocalScrapersNow) {
@@ -1772,7 +1775,9 @@ export const useMetadata = ({ id, type, addonId }: UseMetadataProps): UseMetadat
         });
 
         // Add local scrapers if enabled (read from storage to avoid stale closure)
-        const currentSettings = await mmkvStorage.getItem('app_settings');
+        const settingsScope = (await mmkvStorage.getItem('@user:current')) || 'local';
+        const currentSettings = (await mmkvStorage.getItem(`@user:${settingsScope}:app_settings`))
+          || (isProfileScope(settingsScope) ? null : await mmkvStorage.getItem('app_settings'));
         const enableLocalScrapersNow = currentSettings ? JSON.parse(currentSettings).enableLocalScrapers !== false : true;
 
         if (enableLocalScrapersNow) {
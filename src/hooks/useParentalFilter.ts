@@ -0,0 +1,47 @@
+import { useEffect, useMemo, useState } from 'react';
+import { parentalControlsService, ContentRef } from '../services/parentalControlsService';
+
+const CHECK_BATCH_SIZE = 6;
+
+const itemKey = (item: ContentRef) => `${item.type}:${item.id}`;
+
+/**
+ * Drop items the active profile's parental controls restrict. Items stay
+ * hidden until they have been checked, so nothing restricted flashes by.
+ */
+export const useParentalFilter = <T extends ContentRef>(items: T[]): T[] => {
+  const [settings, setSettings] = useState(parentalControlsService.getSettings());
+  const [allowed, setAllowed] = useState<Set<string>>(new Set());
+
+  useEffect(() => parentalControlsService.subscribe(setSettings), []);
+
+  useEffect(() => {
+    if (!settings.enabled || items.length === 0) return;
+    let cancelled = false;
+
+    const check = async () => {
+      const next = new Set<string>();
+      for (let i = 0; i < items.length; i += CHECK_BATCH_SIZE) {
+        const batch = items.slice(i, i + CHECK_BATCH_SIZE);
+        const decisions = await Promise.all(batch.map(item => parentalControlsService.evaluate(item)));
+        if (cancelled) return;
+        decisions.forEach((decision, index) => {
+          if (decision.allowed) next.add(itemKey(batch[index]));
+        });
+        setAllowed(new Set(next));
+      }
+    };
+    check();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [items, settings]);
+
+  return useMemo(
+    () => (settings.enabled ? items.filter(item => allowed.has(itemKey(item))) : items),
+    [items, settings, allowed]
+  );
+};
+
+export default useParentalFilter;
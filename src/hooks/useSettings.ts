@@ -1,5 +1,8 @@
 import { useState, useEffect, useCallback } from 'react';
 import { mmkvStorage } from '../services/mmkvStorage';
+import { DEFAULT_STREAM_RANKING_RULES, StreamRankingRule } from '../utils/streamRanking';
+import type { TorrentResolverMode } from '../services/torrentStreamService';
+import { isProfileScope } from '../services/profileService';
 
 // Simple event emitter for settings changes
 class SettingsEventEmitter {
@@ -52,6 +55,11 @@ export interface AppSettings {
   streamDisplayMode: 'separate' | 'grouped'; // How to display streaming links - separately by provider or grouped under one name
   streamSortMode: 'scraper-then-quality' | 'quality-then-scraper'; // How to sort streams - by scraper first or quality first
   showScraperLogos: boolean; // Show scraper logos next to streaming links
+  // Stream ranking
+  streamRankingEnabled: boolean; // Order streams and pick the autoplay stream by weighted rules
+  streamRankingRules: StreamRankingRule[]; // User-editable weighted ranking rules
+  torrentResolverMode: TorrentResolverMode; // How infoHash streams are turned into playable URLs
+  torrentServerUrl: string; // Stremio server-compatible streaming server, e.g. http://192.168.1.10:11470
   // Quality filtering settings
   excludedQualities: string[]; // Array of quality strings to exclude (e.g., ['2160p', '4K', '1080p', '720p'])
   // Language filtering settings
@@ -61,6 +69,12 @@ export interface AppSettings {
   skipIntroEnabled: boolean; // Enable/disable Skip Intro overlay (IntroDB)
   introSubmitEnabled: boolean; // Enable/disable Intro Submission
   introDbApiKey: string; // API Key for IntroDB submission
+  bingeModeEnabled: boolean; // Start the next episode automatically when credits begin
+  bingeTriggerSecondsBeforeEnd: number; // Auto-advance point when no credits segment is known
+  bingeStillWatchingAfter: number; // Ask "Still watching?" after this many episodes without interaction
+  watchPartyRelayUrl: string; // ws(s):// URL of a self-hosted watch party relay
+  watchPartyDisplayName: string; // Name shown to the other members of a watch party
+  showPlayerStatsButton: boolean; // Stats for nerds button in the player top bar
   // Downloads
   enableDownloads: boolean; // Show Downloads tab and enable saving streams
   // Theme settings
@@ -115,6 +129,8 @@ export interface AppSettings {
   preferredAudioLanguage: string; // Preferred language for audio tracks (ISO 639-1 code)
   subtitleSourcePreference: 'internal' | 'external' | 'any'; // Prefer internal (embedded), external (addon), or any
   enableSubtitleAutoSelect: boolean; // Auto-select subtitles based on preferences
+  preferHearingImpairedSubtitles: boolean; // Rank SDH/hearing-impaired subtitles first
+  enableWyzieSubtitles: boolean; // Include Wyzie in the subtitle search alongside addons
 }
 
 export const DEFAULT_SETTINGS: AppSettings = {
@@ -142,6 +158,11 @@ export const DEFAULT_SETTINGS: AppSettings = {
   streamDisplayMode: 'separate', // Default to separate display by provider
   streamSortMode: 'scraper-then-quality', // Default to current behavior (scraper first, then quality)
   showScraperLogos: true, // Show scraper logos by default
+  // Stream ranking defaults
+  streamRankingEnabled: false, // Keep addon/scraper order unless the user opts in
+  streamRankingRules: DEFAULT_STREAM_RANKING_RULES,
+  torrentResolverMode: 'auto', // Debrid when linked, streaming server otherwise
+  torrentServerUrl: '',
   // Quality filtering defaults
   excludedQualities: [], // No qualities excluded by default
   // Language filtering defaults
@@ -151,6 +172,12 @@ export const DEFAULT_SETTINGS: AppSettings = {
   skipIntroEnabled: true,
   introSubmitEnabled: false,
   introDbApiKey: '',
+  bingeModeEnabled: false,
+  bingeTriggerSecondsBeforeEnd: 30,
+  bingeStillWatchingAfter: 3,
+  watchPartyRelayUrl: '',
+  watchPartyDisplayName: '',
+  showPlayerStatsButton: false,
   // Downloads
   enableDownloads: false,
   useExternalPlayerForDownloads: false,
@@ -203,6 +230,8 @@ export const DEFAULT_SETTINGS: AppSettings = {
   preferredAudioLanguage: 'en', // Default to English audio
   subtitleSourcePreference: 'internal', // Prefer internal/embedded subtitles first
   enableSubtitleAutoSelect: true, // Auto-select subtitles by default
+  preferHearingImpairedSubtitles: false,
+  enableWyzieSubtitles: true,
 };
 
 const SETTINGS_STORAGE_KEY = 'app_settings';
@@ -212,6 +241,12 @@ let cachedSettings: AppSettings | null = null;
 let settingsCacheTimestamp = 0;
 const SETTINGS_CACHE_TTL = 60000; // 1 minute
 
+// Settings were written to storage outside this hook (account sync)
+export const invalidateSettingsCache = () => {
+  cachedSettings = null;
+  settingsCacheTimestamp = 0;
+};
+
 export const useSettings = () => {
   const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
   const [isLoaded, setIsLoaded] = useState<boolean>(false);
@@ -241,9 +276,10 @@ export const useSettings = () => {
       const scopedKey = `@user:${scope}:${SETTINGS_STORAGE_KEY}`;
 
       // Use synchronous MMKV reads for better performance
+      // Profiles never inherit the original profile's legacy settings
       const [scopedJson, legacyJson] = await Promise.all([
         mmkvStorage.getItem(scopedKey),
-        mmkvStorage.getItem(SETTINGS_STORAGE_KEY),
+        isProfileScope(scope) ? Promise.resolve(null) : mmkvStorage.getItem(SETTINGS_STORAGE_KEY),
       ]);
 
       const parsedScoped = scopedJson ? JSON.parse(scopedJson) : null;
@@ -292,7 +328,7 @@ export const useSettings = () => {
       // Write to both scoped key (multi-user aware) and legacy key for backward compatibility
       await Promise.all([
         mmkvStorage.setItem(scopedKey, JSON.stringify(newSettings)),
-        mmkvStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(newSettings)),
+        ...(isProfileScope(scope) ? [] : [mmkvStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(newSettings))]),
       ]);
       // Ensure a current scope exists to avoid future loads missing the chosen scope
       await mmkvStorage.setItem('@user:current', scope);
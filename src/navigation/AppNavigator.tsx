@@ -4,6 +4,7 @@ import { createNativeStackNavigator, NativeStackNavigationOptions, NativeStackNa
 import { createBottomTabNavigator, BottomTabNavigationProp } from '@react-navigation/bottom-tabs';
 import { useColorScheme, Platform, Animated, StatusBar, TouchableOpacity, View, Text, AppState, Easing, Dimensions, DeviceEventEmitter } from 'react-native';
 import { mmkvStorage } from '../services/mmkvStorage';
+import type { TorrentSource } from '../services/torrentStreamService';
 import { PaperProvider, MD3DarkTheme, MD3LightTheme, adaptNavigationTheme } from 'react-native-paper';
 import type { MD3Theme } from 'react-native-paper';
 import type { BottomTabBarProps } from '@react-navigation/bottom-tabs';
@@ -62,6 +63,10 @@ import ThemeScreen from '../screens/ThemeScreen';
 import OnboardingScreen from '../screens/OnboardingScreen';
 import AuthScreen from '../screens/AuthScreen';
 import AccountManageScreen from '../screens/AccountManageScreen';
+import ProfilesScreen from '../screens/ProfilesScreen';
+import ParentalControlsScreen from '../screens/ParentalControlsScreen';
+import LibraryListEditorScreen from '../screens/LibraryListEditorScreen';
+import LibraryImportScreen from '../screens/LibraryImportScreen';
 import { useAccount } from '../contexts/AccountContext';
 import { LoadingProvider, useLoading } from '../contexts/LoadingContext';
 import PluginsScreen from '../screens/PluginsScreen';
@@ -80,6 +85,7 @@ import {
   AppearanceSettingsScreen,
   IntegrationsSettingsScreen,
   PlaybackSettingsScreen,
+  StreamRankingSettingsScreen,
   AboutSettingsScreen,
   DeveloperSettingsScreen,
   LegalScreen,
@@ -103,7 +109,7 @@ export type RootStackParamList = {
   MainTabs: undefined;
   Backup: undefined;
   Home: undefined;
-  Library: undefined;
+  Library: { listId?: string } | undefined;
   Settings: undefined;
   Update: undefined;
   Search: undefined;
@@ -142,6 +148,7 @@ export type RootStackParamList = {
     year?: number;
     streamProvider?: string;
     streamName?: string;
+    releaseName?: string; // behaviorHints.filename or stream title, for subtitle matching
     headers?: { [key: string]: string };
     id?: string;
     type?: string;
@@ -151,6 +158,8 @@ export type RootStackParamList = {
     backdrop?: string;
     videoType?: string;
     groupedEpisodes?: { [seasonNumber: number]: any[] };
+    torrent?: TorrentSource;
+    bingeCount?: number; // Episodes binge mode played in a row without interaction
   };
   PlayerAndroid: {
     uri: string;
@@ -162,6 +171,7 @@ export type RootStackParamList = {
     year?: number;
     streamProvider?: string;
     streamName?: string;
+    releaseName?: string;
     headers?: { [key: string]: string };
     id?: string;
     type?: string;
@@ -171,12 +181,18 @@ export type RootStackParamList = {
     backdrop?: string;
     videoType?: string;
     groupedEpisodes?: { [seasonNumber: number]: any[] };
+    torrent?: TorrentSource;
+    bingeCount?: number; // Episodes binge mode played in a row without interaction
   };
   Catalog: { id: string; type: string; addonId?: string; name?: string; genreFilter?: string };
   Credits: { mediaId: string; mediaType: string };
   ShowRatings: { showId: number };
   Account: undefined;
   AccountManage: undefined;
+  Profiles: undefined;
+  ParentalControls: undefined;
+  LibraryListEditor: { listId?: string; kind?: 'collection' | 'smart' };
+  LibraryImport: undefined;
   Payment: undefined;
   PrivacyPolicy: undefined;
   About: undefined;
@@ -222,6 +238,7 @@ export type RootStackParamList = {
   AppearanceSettings: undefined;
   IntegrationsSettings: undefined;
   PlaybackSettings: undefined;
+  StreamRankingSettings: undefined;
   AboutSettings: undefined;
   DeveloperSettings: undefined;
   PrivacySettings: undefined;
@@ -234,7 +251,7 @@ export type RootStackNavigationProp = NativeStackNavigationProp<RootStackParamLi
 // Tab navigator types
 export type MainTabParamList = {
   Home: undefined;
-  Library: undefined;
+  Library: { listId?: string } | undefined;
   Search: undefined;
   Downloads: undefined;
   Settings: undefined;
@@ -1308,6 +1325,63 @@ const InnerNavigator = ({ initialRouteName }: { initialRouteName?: keyof RootSta
                 },
               }}
             />
+            <Stack.Screen
+              name="Profiles"
+              component={ProfilesScreen}
+              options={{
+                headerShown: false,
+                animation: Platform.OS === 'android' ? 'default' : 'fade',
+                animationDuration: Platform.OS === 'android' ? 250 : 200,
+                contentStyle: {
+                  backgroundColor: currentTheme.colors.darkBackground,
+                },
+              }}
+            />
+            <Stack.Screen
+              name="ParentalControls"
+              component={ParentalControlsScreen}
+              options={{
+                animation: Platform.OS === 'android' ? 'default' : 'slide_from_right',
+                animationDuration: Platform.OS === 'android' ? 250 : 300,
+                presentation: 'card',
+                gestureEnabled: true,
+                gestureDirection: 'horizontal',
+                headerShown: false,
+                contentStyle: {
+                  backgroundColor: currentTheme.colors.darkBackground,
+                },
+              }}
+            />
+            <Stack.Screen
+              name="LibraryListEditor"
+              component={LibraryListEditorScreen}
+              options={{
+                animation: Platform.OS === 'android' ? 'default' : 'slide_from_right',
+                animationDuration: Platform.OS === 'android' ? 250 : 300,
+                presentation: 'card',
+                gestureEnabled: true,
+                gestureDirection: 'horizontal',
+                headerShown: false,
+                contentStyle: {
+                  backgroundColor: currentTheme.colors.darkBackground,
+                },
+              }}
+            />
+            <Stack.Screen
+              name="LibraryImport"
+              component={LibraryImportScreen}
+              options={{
+                animation: Platform.OS === 'android' ? 'default' : 'slide_from_right',
+                animationDuration: Platform.OS === 'android' ? 250 : 300,
+                presentation: 'card',
+                gestureEnabled: true,
+                gestureDirection: 'horizontal',
+                headerShown: false,
+                contentStyle: {
+                  backgroundColor: currentTheme.colors.darkBackground,
+                },
+              }}
+            />
             <Stack.Screen
               name="Metadata"
               component={MetadataScreen}
@@ -1794,6 +1868,21 @@ const InnerNavigator = ({ initialRouteName }: { initialRouteName?: keyof RootSta
                 },
               }}
             />
+            <Stack.Screen
+              name="StreamRankingSettings"
+              component={StreamRankingSettingsScreen}
+              options={{
+                animation: Platform.OS === 'android' ? 'default' : 'slide_from_right',
+                animationDuration: Platform.OS === 'android' ? 250 : 300,
+                presentation: 'card',
+                gestureEnabled: true,
+                gestureDirection: 'horizontal',
+                headerShown: false,
+                contentStyle: {
+                  backgroundColor: currentTheme.colors.darkBackground,
+                },
+              }}
+            />
             <Stack.Screen
               name="AboutSettings"
               component={AboutSettingsScreen}
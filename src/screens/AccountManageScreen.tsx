@@ -9,6 +9,8 @@ import { useTheme } from '../contexts/ThemeContext';
 import { LinearGradient } from 'expo-linear-gradient';
 import * as Haptics from 'expo-haptics';
 import CustomAlert from '../components/CustomAlert';
+import { accountService } from '../services/AccountService';
+import { syncService, SyncStatus } from '../services/syncService';
 
 const AccountManageScreen: React.FC = () => {
   const navigation = useNavigation();
@@ -40,6 +42,14 @@ const AccountManageScreen: React.FC = () => {
   const [alertMessage, setAlertMessage] = useState('');
   const [alertActions, setAlertActions] = useState<any[]>([]);
 
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>(syncService.getStatus());
+  const [serverUrl, setServerUrl] = useState('');
+
+  useEffect(() => {
+    accountService.getServerUrl().then(setServerUrl);
+    return syncService.subscribe(setSyncStatus);
+  }, []);
+
   useEffect(() => {
     // Reset image error state when URL changes
     setAvatarError(false);
@@ -58,6 +68,26 @@ const AccountManageScreen: React.FC = () => {
     setSaving(false);
   };
 
+  const handleSyncNow = async () => {
+    try {
+      await syncService.syncNow();
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success).catch(() => {});
+    } catch (error: any) {
+      setAlertTitle('Sync failed');
+      setAlertMessage(error?.message || 'Could not sync with the server');
+      setAlertActions([{ label: 'OK', onPress: () => {} }]);
+      setAlertVisible(true);
+    }
+  };
+
+  const syncDescription = syncStatus.syncing
+    ? 'Syncing…'
+    : syncStatus.lastError
+      ? syncStatus.lastError
+      : syncStatus.lastSyncAt
+        ? `Last synced ${new Date(syncStatus.lastSyncAt).toLocaleString()}`
+        : 'Not synced yet';
+
   const handleSignOut = () => {
     setAlertTitle('Sign out');
     setAlertMessage('Are you sure you want to sign out?');
@@ -184,6 +214,38 @@ const AccountManageScreen: React.FC = () => {
           </View>
         </View>
 
+        {/* Sync card */}
+        <View style={[styles.card, { marginTop: 12, backgroundColor: currentTheme.colors.elevation1, borderColor: currentTheme.colors.elevation2 }]}>
+          <View style={styles.itemRow}>
+            <View style={styles.itemLeft}>
+              <MaterialIcons name="dns" size={20} color={currentTheme.colors.primary} />
+              <Text style={[styles.itemTitle, { color: currentTheme.colors.highEmphasis }]}>Server</Text>
+            </View>
+            <Text style={[styles.itemValue, { color: currentTheme.colors.mediumEmphasis }]} numberOfLines={1}>
+              {serverUrl || '—'}
+            </Text>
+          </View>
+
+          <View style={styles.divider} />
+
+          <TouchableOpacity style={styles.itemRow} onPress={handleSyncNow} disabled={syncStatus.syncing} activeOpacity={0.7}>
+            <View style={styles.itemLeft}>
+              <MaterialIcons name="sync" size={20} color={currentTheme.colors.primary} />
+              <Text style={[styles.itemTitle, { color: currentTheme.colors.highEmphasis }]}>Sync now</Text>
+            </View>
+            {syncStatus.syncing ? (
+              <ActivityIndicator size="small" color={currentTheme.colors.mediumEmphasis} />
+            ) : (
+              <Text
+                style={[styles.itemValue, { color: syncStatus.lastError ? '#ff6b6b' : currentTheme.colors.mediumEmphasis }]}
+                numberOfLines={1}
+              >
+                {syncDescription}
+              </Text>
+            )}
+          </TouchableOpacity>
+        </View>
+
         {/* Save and Sign out */}
         <TouchableOpacity
           activeOpacity={0.85}
@@ -1,6 +1,7 @@
 import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { View, TextInput, Text, TouchableOpacity, StyleSheet, ActivityIndicator, SafeAreaView, KeyboardAvoidingView, Platform, Dimensions, Animated, Easing, Keyboard } from 'react-native';
 import { mmkvStorage } from '../services/mmkvStorage';
+import { accountService } from '../services/AccountService';
 import { LinearGradient } from 'expo-linear-gradient';
 import { MaterialIcons } from '@expo/vector-icons';
 import { useTheme } from '../contexts/ThemeContext';
@@ -21,17 +22,15 @@ const AuthScreen: React.FC = () => {
   const insets = useSafeAreaInsets();
   const { showError, showSuccess } = useToast();
 
+  const [serverUrl, setServerUrl] = useState('');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
   const [showPassword, setShowPassword] = useState(false);
   const [showConfirm, setShowConfirm] = useState(false);
   const [mode, setMode] = useState<'signin' | 'signup'>('signin');
-  const signupDisabled = true; // Signup disabled due to upcoming system replacement
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
-  const [showWarningDetails, setShowWarningDetails] = useState(false);
-  const authCardOpacity = useRef(new Animated.Value(1)).current;
 
   // Subtle, performant animations
   const introOpacity = useRef(new Animated.Value(0)).current;
@@ -81,6 +80,10 @@ const AuthScreen: React.FC = () => {
     ]).start();
   }, [cardOpacity, cardTranslateY, introOpacity, introTranslateY]);
 
+  useEffect(() => {
+    accountService.getServerUrl().then(url => setServerUrl(url));
+  }, []);
+
   // Animate on mode change
   useEffect(() => {
     Animated.timing(modeAnim, {
@@ -137,24 +140,24 @@ const AuthScreen: React.FC = () => {
     };
   }, [headerHideAnim]);
 
+  const isServerUrlValid = useMemo(() => /^https?:\/\/\S+$/.test(serverUrl.trim()), [serverUrl]);
   const isEmailValid = useMemo(() => /\S+@\S+\.\S+/.test(email.trim()), [email]);
   const isPasswordValid = useMemo(() => password.length >= 6, [password]);
   const isConfirmValid = useMemo(() => (mode === 'signin') || confirmPassword.length >= 6, [confirmPassword, mode]);
   const passwordsMatch = useMemo(() => (mode === 'signin') || confirmPassword === password, [confirmPassword, password, mode]);
-  const canSubmit = isEmailValid && isPasswordValid && (mode === 'signin' || (isConfirmValid && passwordsMatch));
+  const canSubmit = isServerUrlValid && isEmailValid && isPasswordValid && (mode === 'signin' || (isConfirmValid && passwordsMatch));
 
   const handleSubmit = async () => {
     if (loading) return;
     
-    // Prevent signup if disabled
-    if (mode === 'signup' && signupDisabled) {
-      const msg = 'Sign up is currently disabled due to upcoming system changes';
+    if (!isServerUrlValid) {
+      const msg = 'Enter your sync server address, starting with http:// or https://';
       setError(msg);
-      showError('Sign Up Disabled', 'Sign up is currently disabled due to upcoming system changes');
+      showError('Invalid Server', msg);
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error).catch(() => {});
       return;
     }
-    
+
     if (!isEmailValid) {
       const msg = 'Enter a valid email address';
       setError(msg);
@@ -178,6 +181,7 @@ const AuthScreen: React.FC = () => {
     }
     setLoading(true);
     setError(null);
+    await accountService.setServerUrl(serverUrl);
     const err = mode === 'signin' ? await signIn(email.trim(), password) : await signUp(email.trim(), password);
     if (err) {
       setError(err);
@@ -201,27 +205,6 @@ const AuthScreen: React.FC = () => {
     navigation.reset({ index: 0, routes: [{ name: 'MainTabs' as never }] } as any);
   };
 
-  const toggleWarningDetails = () => {
-    if (showWarningDetails) {
-      // Fade in auth card
-      Animated.timing(authCardOpacity, {
-        toValue: 1,
-        duration: 300,
-        easing: Easing.out(Easing.cubic),
-        useNativeDriver: true,
-      }).start();
-    } else {
-      // Fade out auth card
-      Animated.timing(authCardOpacity, {
-        toValue: 0,
-        duration: 300,
-        easing: Easing.out(Easing.cubic),
-        useNativeDriver: true,
-      }).start();
-    }
-    setShowWarningDetails(!showWarningDetails);
-  };
-
   // showToast helper replaced with direct calls to toast.* API
 
   return (
@@ -289,72 +272,13 @@ const AuthScreen: React.FC = () => {
           </Text>
         </Animated.View>
 
-        {/* Important Warning Message */}
-        <Animated.View
-          style={[
-            styles.warningContainer,
-            {
-              opacity: introOpacity,
-              transform: [{ translateY: introTranslateY }],
-            },
-          ]}
-        >
-          <TouchableOpacity
-            style={[styles.warningCard, { backgroundColor: 'rgba(255, 193, 7, 0.1)', borderColor: 'rgba(255, 193, 7, 0.3)' }]}
-            onPress={toggleWarningDetails}
-            activeOpacity={0.8}
-          >
-            <MaterialIcons name="warning" size={20} color="#FFC107" style={styles.warningIcon} />
-            <View style={styles.warningContent}>
-              <Text style={[styles.warningTitle, { color: '#FFC107' }]}>
-                Important Notice
-              </Text>
-              <Text style={[styles.warningText, { color: currentTheme.colors.white }]}>
-                This authentication system will be completely replaced by local backup/restore functionality by October 8th. Please create backup files as your cloud data will be permanently destroyed.
-              </Text>
-              <Text style={[styles.readMoreText, { color: '#FFC107' }]}>
-                Read more {showWarningDetails ? '▼' : '▶'}
-              </Text>
-            </View>
-          </TouchableOpacity>
-          
-          {/* Expanded Details */}
-          {showWarningDetails && (
-            <Animated.View style={[styles.warningDetails, { backgroundColor: 'rgba(255, 193, 7, 0.05)', borderColor: 'rgba(255, 193, 7, 0.2)' }]}>
-              <View style={styles.detailsContent}>
-                <Text style={[styles.detailsTitle, { color: '#FFC107' }]}>
-                  Why is this system being discontinued?
-                </Text>
-                <Text style={[styles.detailsText, { color: currentTheme.colors.white }]}>
-                  • Lack of real-time support for addon synchronization{'\n'}
-                  • Database synchronization issues with addons and settings{'\n'}
-                  • Unreliable cloud data management{'\n'}
-                  • Performance problems with remote data access
-                </Text>
-                
-                <Text style={[styles.detailsTitle, { color: '#FFC107', marginTop: 16 }]}>
-                  Benefits of Local Backup System:
-                </Text>
-                <Text style={[styles.detailsText, { color: currentTheme.colors.white }]}>
-                  • Instant addon synchronization across devices{'\n'}
-                  • Reliable offline access to all your data{'\n'}
-                  • Complete control over your backup files{'\n'}
-                  • Faster performance with local data storage{'\n'}
-                  • No dependency on external servers{'\n'}
-                  • Easy migration between devices
-                </Text>
-              </View>
-            </Animated.View>
-          )}
-        </Animated.View>
-
         <KeyboardAvoidingView
           style={{ flex: 1 }}
           behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
           keyboardVerticalOffset={Platform.OS === 'ios' ? headerHeight : 0}
         >
-          {/* Main Card - Hide when warning details are expanded */}
-          <Animated.View style={[styles.centerContainer, { opacity: authCardOpacity }]}>
+          {/* Main Card */}
+          <Animated.View style={styles.centerContainer}>
             <Animated.View style={[styles.card, { 
               backgroundColor: Platform.OS === 'android' ? '#121212' : 'rgba(255,255,255,0.02)',
               borderColor: Platform.OS === 'android' ? '#1f1f1f' : 'rgba(255,255,255,0.06)',
@@ -406,23 +330,44 @@ const AuthScreen: React.FC = () => {
                 <TouchableOpacity
                   style={[
                     styles.switchButton,
-                    signupDisabled && styles.disabledButton,
                   ]}
-                  onPress={() => !signupDisabled && setMode('signup')}
-                  activeOpacity={signupDisabled ? 1 : 0.8}
-                  disabled={signupDisabled}
+                  onPress={() => setMode('signup')}
+                  activeOpacity={0.8}
                 >
-                  <Text style={[
-                    styles.switchText, 
-                    { 
-                      color: mode === 'signup' ? '#fff' : (signupDisabled ? 'rgba(255,255,255,0.3)' : currentTheme.colors.textMuted)
-                    }
-                  ]}>
-                    Sign Up {signupDisabled && '(Disabled)'}
+                  <Text style={[styles.switchText, { color: mode === 'signup' ? '#fff' : currentTheme.colors.textMuted }]}>
+                    Sign Up
                   </Text>
                 </TouchableOpacity>
               </View>
 
+              {/* Sync Server Input */}
+              <View style={[styles.inputContainer]}>
+                <View style={[styles.inputRow, { 
+                  backgroundColor: Platform.OS === 'android' ? '#1a1a1a' : 'rgba(255,255,255,0.03)', 
+                  borderColor: Platform.OS === 'android' ? '#2a2a2a' : (isServerUrlValid || !serverUrl ? 'rgba(255,255,255,0.08)' : 'rgba(255,107,107,0.4)'),
+                  borderWidth: 1,
+                }]}>                
+                  <View style={[styles.iconContainer, { backgroundColor: Platform.OS === 'android' ? '#222' : (isServerUrlValid ? 'rgba(46,160,67,0.15)' : 'rgba(255,255,255,0.05)') }]}>                
+                    <MaterialIcons 
+                      name="dns" 
+                      size={18} 
+                      color={Platform.OS === 'android' ? currentTheme.colors.textMuted : (isServerUrlValid ? '#2EA043' : currentTheme.colors.textMuted)} 
+                    />
+                  </View>
+                  <TextInput
+                    placeholder="Sync server (https://sync.example.com)"
+                    placeholderTextColor="rgba(255,255,255,0.4)"
+                    style={[styles.input, { color: currentTheme.colors.white }]}
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                    keyboardType="url"
+                    value={serverUrl}
+                    onChangeText={setServerUrl}
+                    returnKeyType="next"
+                  />
+                </View>
+              </View>
+
               {/* Email Input */}
               <View style={[styles.inputContainer]}>
                 <View style={[styles.inputRow, { 
@@ -583,29 +528,18 @@ const AuthScreen: React.FC = () => {
               </Animated.View>
 
               {/* Switch Mode */}
-              {!signupDisabled && (
-                <TouchableOpacity 
-                  onPress={() => setMode(mode === 'signin' ? 'signup' : 'signin')} 
-                  activeOpacity={0.7}
-                  style={{ marginTop: 16 }}
-                >
-                  <Text style={[styles.switchModeText, { color: currentTheme.colors.textMuted }]}>
-                    {mode === 'signin' ? "Don't have an account? " : 'Already have an account? '}
-                    <Text style={{ color: currentTheme.colors.primary, fontWeight: '600' }}>
-                      {mode === 'signin' ? 'Sign up' : 'Sign in'}
-                    </Text>
-                  </Text>
-                </TouchableOpacity>
-              )}
-              
-              {/* Signup disabled message */}
-              {signupDisabled && mode === 'signin' && (
-                <View style={{ marginTop: 16, alignItems: 'center' }}>
-                  <Text style={[styles.switchModeText, { color: 'rgba(255,255,255,0.5)', fontSize: 13 }]}>
-                    New account creation is temporarily disabled
+              <TouchableOpacity 
+                onPress={() => setMode(mode === 'signin' ? 'signup' : 'signin')} 
+                activeOpacity={0.7}
+                style={{ marginTop: 16 }}
+              >
+                <Text style={[styles.switchModeText, { color: currentTheme.colors.textMuted }]}>
+                  {mode === 'signin' ? "Don't have an account? " : 'Already have an account? '}
+                  <Text style={{ color: currentTheme.colors.primary, fontWeight: '600' }}>
+                    {mode === 'signin' ? 'Sign up' : 'Sign in'}
                   </Text>
-                </View>
-              )}
+                </Text>
+              </TouchableOpacity>
 
               {/* Skip sign in - more prominent when coming from onboarding */}
               <TouchableOpacity
@@ -799,63 +733,6 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '500',
   },
-  warningContainer: {
-    paddingHorizontal: 20,
-    marginTop: 24,
-    marginBottom: 8,
-  },
-  warningCard: {
-    flexDirection: 'row',
-    padding: 16,
-    borderRadius: 12,
-    borderWidth: 1,
-    alignItems: 'flex-start',
-  },
-  warningIcon: {
-    marginRight: 12,
-    marginTop: 2,
-  },
-  warningContent: {
-    flex: 1,
-  },
-  warningTitle: {
-    fontSize: 16,
-    fontWeight: '700',
-    marginBottom: 6,
-  },
-  warningText: {
-    fontSize: 14,
-    lineHeight: 20,
-    fontWeight: '500',
-  },
-  disabledButton: {
-    opacity: 0.5,
-  },
-  readMoreText: {
-    fontSize: 14,
-    fontWeight: '600',
-    marginTop: 8,
-    alignSelf: 'flex-start',
-  },
-  warningDetails: {
-    marginTop: 8,
-    borderRadius: 12,
-    borderWidth: 1,
-    overflow: 'hidden',
-  },
-  detailsContent: {
-    padding: 16,
-  },
-  detailsTitle: {
-    fontSize: 15,
-    fontWeight: '700',
-    marginBottom: 8,
-  },
-  detailsText: {
-    fontSize: 13,
-    lineHeight: 18,
-    fontWeight: '500',
-  },
 });
 
 export default AuthScreen;
@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useRef } from 'react';
+import React, { useState, useCallback, useRef, useEffect } from 'react';
 import {
   View,
   Text,
@@ -12,13 +12,17 @@ import {
   Switch,
   Animated,
   Easing,
+  Modal,
+  TextInput,
 } from 'react-native';
 import { MaterialIcons } from '@expo/vector-icons';
 import * as DocumentPicker from 'expo-document-picker';
 import * as Sharing from 'expo-sharing';
 import * as Updates from 'expo-updates';
 import { useNavigation } from '@react-navigation/native';
-import { backupService } from '../services/backupService';
+import { backupService, BackupDiff, BackupSectionDiff, RestoreMode, RestorePoint } from '../services/backupService';
+import { BackupMergeSummary } from '../services/backupMerge';
+import { autoBackupService, AutoBackupFrequency, AutoBackupSettings } from '../services/autoBackupService';
 import { useTheme } from '../contexts/ThemeContext';
 import { logger } from '../utils/logger';
 import CustomAlert from '../components/CustomAlert';
@@ -55,6 +59,32 @@ const BackupScreen: React.FC = () => {
   const [alertMessage, setAlertMessage] = useState('');
   const [alertActions, setAlertActions] = useState<Array<{ label: string; onPress: () => void; style?: object }>>([]);
 
+  // Passphrase prompt state
+  const [passphrasePrompt, setPassphrasePrompt] = useState<{
+    mode: 'create' | 'restore';
+    onSubmit: (passphrase: string) => void;
+  } | null>(null);
+
+  // Automatic backups
+  const [autoSettings, setAutoSettings] = useState<AutoBackupSettings | null>(null);
+  const [restorePoints, setRestorePoints] = useState<RestorePoint[]>([]);
+
+  const loadRestorePoints = useCallback(async () => {
+    setRestorePoints(await backupService.listRestorePoints());
+  }, []);
+
+  useEffect(() => {
+    autoBackupService.getSettings().then(setAutoSettings);
+    loadRestorePoints();
+  }, [loadRestorePoints]);
+
+  const updateAutoSetting = useCallback(async <K extends keyof AutoBackupSettings>(key: K, value: AutoBackupSettings[K]) => {
+    setAutoSettings(await autoBackupService.updateSettings({ [key]: value } as Partial<AutoBackupSettings>));
+    if (key === 'keepLast' || key === 'keepWeeklyForWeeks') {
+      loadRestorePoints();
+    }
+  }, [loadRestorePoints]);
+
   const openAlert = (
     title: string,
     message: string,
@@ -117,6 +147,194 @@ const BackupScreen: React.FC = () => {
     setExpandedSections(prev => ({ ...prev, [section]: !isExpanded }));
   }, [expandedSections, coreDataAnim, addonsAnim, settingsAnim, coreDataChevron, addonsChevron, settingsChevron]);
 
+  const createBackup = useCallback(async (passphrase?: string) => {
+    try {
+      setIsLoading(true);
+
+      const backupOptions = { ...getBackupOptions(), passphrase };
+
+      const fileUri = await backupService.createBackup(backupOptions);
+
+      // Share the backup file
+      if (await Sharing.isAvailableAsync()) {
+        await Sharing.shareAsync(fileUri, {
+          mimeType: 'application/json',
+          dialogTitle: 'Share Nuvio Backup',
+        });
+      }
+
+      openAlert(
+        t('backup.alert_backup_created_title'),
+        t('backup.alert_backup_created_msg'),
+        [{ label: t('common.ok'), onPress: () => { } }]
+      );
+    } catch (error) {
+      logger.error('[BackupScreen] Failed to create backup:', error);
+      openAlert(
+        t('backup.alert_backup_failed_title'),
+        `Failed to create backup: ${error instanceof Error ? error.message : String(error)}`,
+        [{ label: t('common.ok'), onPress: () => { } }]
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }, [openAlert, getBackupOptions, t]);
+
+  const restoreBackup = useCallback(async (fileUri: string, passphrase?: string, mode: RestoreMode = 'overwrite') => {
+    try {
+      setIsLoading(true);
+
+      const restoreOptions = { ...getBackupOptions(), passphrase, mode };
+
+      // Keep the file being restored even if the new point pushes it out of retention
+      await autoBackupService.createRestorePointIfEnabled('before_restore', [fileUri]);
+      await backupService.restoreBackup(fileUri, restoreOptions);
+      loadRestorePoints();
+
+      openAlert(
+        t('backup.alert_restore_complete_title'),
+        t('backup.alert_restore_complete_msg'),
+        [
+          { label: t('common.cancel'), onPress: () => { } },
+          {
+            label: t('backup.restart_app'),
+            onPress: restartApp,
+            style: { fontWeight: 'bold' }
+          }
+        ]
+      );
+    } catch (error) {
+      logger.error('[BackupScreen] Failed to restore backup:', error);
+      openAlert(
+        t('backup.alert_restore_failed_title'),
+        `Failed to restore backup: ${error instanceof Error ? error.message : String(error)}`,
+        [{ label: t('common.ok'), onPress: () => { } }]
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }, [openAlert, getBackupOptions, loadRestorePoints, t]);
+
+  const formatDiffLine = useCallback((label: string, diff: BackupSectionDiff) => {
+    const parts: string[] = [];
+    if (diff.onlyInBackup > 0) parts.push(t('backup.diff_restored', { count: diff.onlyInBackup }));
+    if (diff.onlyInCurrent > 0) parts.push(t('backup.diff_lost', { count: diff.onlyInCurrent }));
+    if (diff.changed > 0) parts.push(t('backup.diff_changed', { count: diff.changed }));
+    return `${label}: ${diff.current} → ${diff.backup}${parts.length > 0 ? ` (${parts.join(', ')})` : ''}`;
+  }, [t]);
+
+  const formatBackupDiff = useCallback((diff: BackupDiff) => {
+    const lines = [
+      formatDiffLine(t('backup.library_label'), diff.library),
+      formatDiffLine(t('backup.watch_progress_label'), diff.watchProgress),
+      formatDiffLine(t('backup.watched_status_label'), diff.watchedStatus),
+      formatDiffLine(t('backup.addons_label'), diff.addons),
+      formatDiffLine(t('backup.plugins_label'), diff.scrapers),
+    ];
+    if (diff.addons.orderChanged) lines.push(t('backup.diff_addon_order'));
+    if (diff.settingsChanged > 0) lines.push(t('backup.diff_settings', { count: diff.settingsChanged }));
+    return lines.join('\n');
+  }, [formatDiffLine, t]);
+
+  const formatMergeSummary = useCallback((summary: BackupMergeSummary) => {
+    const lines = [
+      t('backup.merge_library', { added: summary.library.added, conflicts: summary.library.conflicts }),
+      t('backup.merge_progress', {
+        added: summary.watchProgress.added,
+        updated: summary.watchProgress.updatedFromBackup,
+        kept: summary.watchProgress.keptCurrent,
+      }),
+      t('backup.merge_addons', { added: summary.addons.added, duplicates: summary.addons.duplicates }),
+      t('backup.merge_watched', { count: summary.watchedStatus.added }),
+    ];
+    if (summary.watchProgress.suppressed > 0) {
+      lines.push(t('backup.merge_suppressed', { count: summary.watchProgress.suppressed }));
+    }
+    return lines.join('\n');
+  }, [t]);
+
+  // Merge restores show what will be combined before anything is written
+  const confirmMergeRestore = useCallback(async (fileUri: string, passphrase?: string) => {
+    try {
+      setIsLoading(true);
+      const summary = await backupService.previewMerge(fileUri, passphrase);
+      setIsLoading(false);
+
+      openAlert(
+        t('backup.merge_summary_title'),
+        `${formatMergeSummary(summary)}\n\n${t('backup.merge_summary_note')}`,
+        [
+          { label: t('common.cancel'), onPress: () => { } },
+          { label: t('backup.action_merge'), onPress: () => restoreBackup(fileUri, passphrase, 'merge') },
+        ]
+      );
+    } catch (error) {
+      setIsLoading(false);
+      logger.error('[BackupScreen] Failed to preview merge:', error);
+      openAlert(
+        t('backup.alert_restore_failed_title'),
+        error instanceof Error ? error.message : String(error),
+        [{ label: t('common.ok'), onPress: () => { } }]
+      );
+    }
+  }, [openAlert, formatMergeSummary, restoreBackup, t]);
+
+  const handleRestorePointPress = useCallback(async (point: RestorePoint) => {
+    try {
+      setIsLoading(true);
+      const diff = await backupService.getBackupDiff(point.fileUri);
+      setIsLoading(false);
+
+      openAlert(
+        t('backup.restore_point_title', { date: new Date(point.timestamp).toLocaleString() }),
+        `${t('backup.restore_point_diff_intro')}\n\n${formatBackupDiff(diff)}`,
+        [
+          { label: t('common.cancel'), onPress: () => { } },
+          { label: t('backup.action_restore_point'), onPress: () => restoreBackup(point.fileUri) },
+        ]
+      );
+    } catch (error) {
+      setIsLoading(false);
+      logger.error('[BackupScreen] Failed to compare restore point:', error);
+      openAlert(
+        t('backup.alert_restore_failed_title'),
+        error instanceof Error ? error.message : String(error),
+        [{ label: t('common.ok'), onPress: () => { } }]
+      );
+    }
+  }, [openAlert, formatBackupDiff, restoreBackup, t]);
+
+  const handleDeleteRestorePoint = useCallback((point: RestorePoint) => {
+    openAlert(
+      t('backup.delete_restore_point_title'),
+      t('backup.delete_restore_point_msg', { date: new Date(point.timestamp).toLocaleString() }),
+      [
+        { label: t('common.cancel'), onPress: () => { } },
+        {
+          label: t('common.delete'),
+          onPress: async () => {
+            try {
+              await backupService.deleteBackup(point.fileUri);
+            } catch (error) {
+              logger.error('[BackupScreen] Failed to delete restore point:', error);
+            }
+            loadRestorePoints();
+          },
+        },
+      ]
+    );
+  }, [openAlert, loadRestorePoints, t]);
+
+  const handleCreateRestorePoint = useCallback(async () => {
+    setIsLoading(true);
+    const point = await autoBackupService.createRestorePoint('manual');
+    setIsLoading(false);
+    if (!point) {
+      openAlert(t('backup.alert_backup_failed_title'), t('backup.restore_point_failed'), [{ label: t('common.ok'), onPress: () => { } }]);
+    }
+    loadRestorePoints();
+  }, [openAlert, loadRestorePoints, t]);
+
   // Create backup
   const handleCreateBackup = useCallback(async () => {
     try {
@@ -165,36 +383,11 @@ const BackupScreen: React.FC = () => {
             { label: t('common.cancel'), onPress: () => { } },
             {
               label: t('backup.action_create'),
-              onPress: async () => {
-                try {
-                  setIsLoading(true);
-
-                  const backupOptions = getBackupOptions();
-
-                  const fileUri = await backupService.createBackup(backupOptions);
-
-                  // Share the backup file
-                  if (await Sharing.isAvailableAsync()) {
-                    await Sharing.shareAsync(fileUri, {
-                      mimeType: 'application/json',
-                      dialogTitle: 'Share Nuvio Backup',
-                    });
-                  }
-
-                  openAlert(
-                    t('backup.alert_backup_created_title'),
-                    t('backup.alert_backup_created_msg'),
-                    [{ label: t('common.ok'), onPress: () => { } }]
-                  );
-                } catch (error) {
-                  logger.error('[BackupScreen] Failed to create backup:', error);
-                  openAlert(
-                    t('backup.alert_backup_failed_title'),
-                    `Failed to create backup: ${error instanceof Error ? error.message : String(error)}`,
-                    [{ label: t('common.ok'), onPress: () => { } }]
-                  );
-                } finally {
-                  setIsLoading(false);
+              onPress: () => {
+                if (preferences.encryptBackups) {
+                  setPassphrasePrompt({ mode: 'create', onSubmit: passphrase => createBackup(passphrase) });
+                } else {
+                  createBackup();
                 }
               }
             }
@@ -210,7 +403,7 @@ const BackupScreen: React.FC = () => {
       );
       setIsLoading(false);
     }
-  }, [openAlert, preferences, getBackupOptions, t]);
+  }, [openAlert, preferences, createBackup, t]);
 
   // Restore backup
   const handleRestoreBackup = useCallback(async () => {
@@ -233,40 +426,27 @@ const BackupScreen: React.FC = () => {
         t('backup.alert_restore_confirm_title'),
         t('backup.alert_restore_confirm_msg', {
           date: new Date(backupInfo.timestamp || 0).toLocaleDateString()
-        }),
+        }) + (backupInfo.kind === 'incremental' ? `\n\n${t('backup.incremental_restore_note')}` : '')
+        + `\n\n${t('backup.restore_mode_hint')}`,
         [
           { label: t('common.cancel'), onPress: () => { } },
           {
-            label: 'Restore',
-            onPress: async () => {
-              try {
-                setIsLoading(true);
-
-                const restoreOptions = getBackupOptions();
-
-                await backupService.restoreBackup(fileUri, restoreOptions);
-
-                openAlert(
-                  t('backup.alert_restore_complete_title'),
-                  t('backup.alert_restore_complete_msg'),
-                  [
-                    { label: t('common.cancel'), onPress: () => { } },
-                    {
-                      label: t('backup.restart_app'),
-                      onPress: restartApp,
-                      style: { fontWeight: 'bold' }
-                    }
-                  ]
-                );
-              } catch (error) {
-                logger.error('[BackupScreen] Failed to restore backup:', error);
-                openAlert(
-                  t('backup.alert_restore_failed_title'),
-                  `Failed to restore backup: ${error instanceof Error ? error.message : String(error)}`,
-                  [{ label: t('common.ok'), onPress: () => { } }]
-                );
-              } finally {
-                setIsLoading(false);
+            label: t('backup.action_merge'),
+            onPress: () => {
+              if (backupInfo.encrypted) {
+                setPassphrasePrompt({ mode: 'restore', onSubmit: passphrase => confirmMergeRestore(fileUri, passphrase) });
+              } else {
+                confirmMergeRestore(fileUri);
+              }
+            }
+          },
+          {
+            label: t('backup.action_replace'),
+            onPress: () => {
+              if (backupInfo.encrypted) {
+                setPassphrasePrompt({ mode: 'restore', onSubmit: passphrase => restoreBackup(fileUri, passphrase) });
+              } else {
+                restoreBackup(fileUri);
               }
             }
           }
@@ -280,7 +460,7 @@ const BackupScreen: React.FC = () => {
         [{ label: t('common.ok'), onPress: () => { } }]
       );
     }
-  }, [openAlert, t]);
+  }, [openAlert, restoreBackup, confirmMergeRestore, t]);
 
   return (
     <SafeAreaView style={[styles.container, { backgroundColor: currentTheme.colors.darkBackground }]}>
@@ -501,6 +681,22 @@ const BackupScreen: React.FC = () => {
               {t('backup.title')}
             </Text>
 
+            <OptionToggle
+              label={t('backup.encrypt_label')}
+              description={t('backup.encrypt_desc')}
+              value={preferences.encryptBackups}
+              onValueChange={(v) => updatePreference('encryptBackups', v)}
+              theme={currentTheme}
+            />
+            <OptionToggle
+              label={t('backup.incremental_label')}
+              description={t('backup.incremental_desc')}
+              value={preferences.incrementalBackups}
+              onValueChange={(v) => updatePreference('incrementalBackups', v)}
+              theme={currentTheme}
+            />
+            <View style={styles.actionsSpacer} />
+
             <TouchableOpacity
               style={[
                 styles.actionButton,
@@ -538,6 +734,136 @@ const BackupScreen: React.FC = () => {
             </TouchableOpacity>
           </View>
 
+          {/* Automatic Backups */}
+          {autoSettings && (
+            <View style={[styles.section, { backgroundColor: currentTheme.colors.elevation1 }]}>
+              <Text style={[styles.sectionTitle, { color: currentTheme.colors.highEmphasis }]}>
+                {t('backup.auto_title')}
+              </Text>
+              <Text style={[styles.sectionDescription, { color: currentTheme.colors.mediumEmphasis }]}>
+                {t('backup.auto_desc')}
+              </Text>
+
+              <Text style={[styles.groupLabel, { color: currentTheme.colors.highEmphasis }]}>
+                {t('backup.auto_frequency')}
+              </Text>
+              <View style={styles.chipRow}>
+                {(['off', 'daily', 'weekly'] as AutoBackupFrequency[]).map(frequency => {
+                  const selected = autoSettings.frequency === frequency;
+                  return (
+                    <TouchableOpacity
+                      key={frequency}
+                      style={[
+                        styles.chip,
+                        {
+                          borderColor: selected ? currentTheme.colors.primary : currentTheme.colors.border,
+                          backgroundColor: selected ? currentTheme.colors.primary : 'transparent',
+                        }
+                      ]}
+                      onPress={() => updateAutoSetting('frequency', frequency)}
+                    >
+                      <Text style={[styles.chipText, { color: selected ? 'white' : currentTheme.colors.highEmphasis }]}>
+                        {t(`backup.auto_frequency_${frequency}`)}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+
+              <OptionToggle
+                label={t('backup.auto_background_label')}
+                description={t('backup.auto_background_desc')}
+                value={autoSettings.onBackground}
+                onValueChange={(v) => updateAutoSetting('onBackground', v)}
+                theme={currentTheme}
+              />
+              <OptionToggle
+                label={t('backup.auto_before_restore_label')}
+                description={t('backup.auto_before_restore_desc')}
+                value={autoSettings.beforeRestore}
+                onValueChange={(v) => updateAutoSetting('beforeRestore', v)}
+                theme={currentTheme}
+              />
+              <OptionToggle
+                label={t('backup.auto_before_update_label')}
+                description={t('backup.auto_before_update_desc')}
+                value={autoSettings.beforeUpdate}
+                onValueChange={(v) => updateAutoSetting('beforeUpdate', v)}
+                theme={currentTheme}
+              />
+              <OptionStepper
+                label={t('backup.retention_keep_last_label')}
+                description={t('backup.retention_keep_last_desc')}
+                value={autoSettings.keepLast}
+                min={1}
+                max={30}
+                onValueChange={(v) => updateAutoSetting('keepLast', v)}
+                theme={currentTheme}
+              />
+              <OptionStepper
+                label={t('backup.retention_weekly_label')}
+                description={t('backup.retention_weekly_desc')}
+                value={autoSettings.keepWeeklyForWeeks}
+                min={0}
+                max={52}
+                onValueChange={(v) => updateAutoSetting('keepWeeklyForWeeks', v)}
+                theme={currentTheme}
+              />
+            </View>
+          )}
+
+          {/* Restore Points */}
+          <View style={[styles.section, { backgroundColor: currentTheme.colors.elevation1 }]}>
+            <Text style={[styles.sectionTitle, { color: currentTheme.colors.highEmphasis }]}>
+              {t('backup.restore_points_title')}
+            </Text>
+            {restorePoints.length === 0 ? (
+              <Text style={[styles.sectionDescription, { color: currentTheme.colors.mediumEmphasis }]}>
+                {t('backup.restore_points_empty')}
+              </Text>
+            ) : (
+              restorePoints.map(point => (
+                <View key={point.fileUri} style={[styles.optionRow, { borderBottomColor: currentTheme.colors.border }]}>
+                  <TouchableOpacity
+                    style={styles.optionLeft}
+                    onPress={() => handleRestorePointPress(point)}
+                    disabled={isLoading}
+                  >
+                    <Text style={[styles.optionLabel, { color: currentTheme.colors.highEmphasis }]}>
+                      {new Date(point.timestamp).toLocaleString()}
+                    </Text>
+                    <Text style={[styles.optionDescription, { color: currentTheme.colors.mediumEmphasis }]}>
+                      {t(`backup.restore_point_reason_${point.reason}`)}
+                    </Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={() => handleRestorePointPress(point)} disabled={isLoading} style={styles.iconButton}>
+                    <MaterialIcons name="restore" size={22} color={currentTheme.colors.primary} />
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={() => handleDeleteRestorePoint(point)} disabled={isLoading} style={styles.iconButton}>
+                    <MaterialIcons name="delete-outline" size={22} color={currentTheme.colors.mediumEmphasis} />
+                  </TouchableOpacity>
+                </View>
+              ))
+            )}
+            <View style={styles.actionsSpacer} />
+            <TouchableOpacity
+              style={[
+                styles.actionButton,
+                {
+                  backgroundColor: currentTheme.colors.elevation2,
+                  opacity: isLoading ? 0.6 : 1
+                }
+              ]}
+              onPress={handleCreateRestorePoint}
+              disabled={isLoading}
+            >
+              <MaterialIcons name="add" size={20} color={currentTheme.colors.highEmphasis} />
+              <Text style={[styles.actionButtonText, { color: currentTheme.colors.highEmphasis }]}>
+                {t('backup.action_create_restore_point')}
+              </Text>
+            </TouchableOpacity>
+          </View>
+
           {/* Info Section */}
           <View style={[styles.section, { backgroundColor: currentTheme.colors.elevation1 }]}>
             <Text style={[styles.sectionTitle, { color: currentTheme.colors.highEmphasis }]}>
@@ -549,10 +875,165 @@ const BackupScreen: React.FC = () => {
           </View>
         </View>
       </ScrollView>
+
+      <PassphraseModal
+        visible={!!passphrasePrompt}
+        mode={passphrasePrompt?.mode || 'create'}
+        theme={currentTheme}
+        onCancel={() => setPassphrasePrompt(null)}
+        onSubmit={(passphrase) => {
+          const prompt = passphrasePrompt;
+          setPassphrasePrompt(null);
+          prompt?.onSubmit(passphrase);
+        }}
+      />
     </SafeAreaView>
   );
 };
 
+interface OptionStepperProps {
+  label: string;
+  description: string;
+  value: number;
+  min: number;
+  max: number;
+  onValueChange: (value: number) => void;
+  theme: any;
+}
+
+const OptionStepper: React.FC<OptionStepperProps> = ({ label, description, value, min, max, onValueChange, theme }) => (
+  <View style={[styles.optionRow, { borderBottomColor: theme.colors.border }]}>
+    <View style={styles.optionLeft}>
+      <Text style={[styles.optionLabel, { color: theme.colors.highEmphasis }]}>
+        {label}
+      </Text>
+      <Text style={[styles.optionDescription, { color: theme.colors.mediumEmphasis }]}>
+        {description}
+      </Text>
+    </View>
+    <View style={styles.stepper}>
+      <TouchableOpacity onPress={() => onValueChange(Math.max(min, value - 1))} disabled={value <= min} style={styles.iconButton}>
+        <MaterialIcons name="remove" size={20} color={value <= min ? theme.colors.border : theme.colors.highEmphasis} />
+      </TouchableOpacity>
+      <Text style={[styles.stepperValue, { color: theme.colors.highEmphasis }]}>{value}</Text>
+      <TouchableOpacity onPress={() => onValueChange(Math.min(max, value + 1))} disabled={value >= max} style={styles.iconButton}>
+        <MaterialIcons name="add" size={20} color={value >= max ? theme.colors.border : theme.colors.highEmphasis} />
+      </TouchableOpacity>
+    </View>
+  </View>
+);
+
+const MIN_PASSPHRASE_LENGTH = 6;
+
+interface PassphraseModalProps {
+  visible: boolean;
+  mode: 'create' | 'restore';
+  theme: any;
+  onCancel: () => void;
+  onSubmit: (passphrase: string) => void;
+}
+
+const PassphraseModal: React.FC<PassphraseModalProps> = ({ visible, mode, theme, onCancel, onSubmit }) => {
+  const { t } = useTranslation();
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const reset = () => {
+    setPassphrase('');
+    setConfirmation('');
+    setError(null);
+  };
+
+  const handleSubmit = () => {
+    if (mode === 'create') {
+      if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        setError(t('backup.passphrase_too_short', { count: MIN_PASSPHRASE_LENGTH }));
+        return;
+      }
+      if (passphrase !== confirmation) {
+        setError(t('backup.passphrase_mismatch'));
+        return;
+      }
+    } else if (!passphrase) {
+      return;
+    }
+    const value = passphrase;
+    reset();
+    onSubmit(value);
+  };
+
+  const inputStyle = [styles.passphraseInput, {
+    color: theme.colors.highEmphasis,
+    borderColor: theme.colors.border,
+    backgroundColor: theme.colors.elevation2,
+  }];
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={() => { reset(); onCancel(); }}
+    >
+      <View style={styles.modalOverlay}>
+        <View style={[styles.modalContent, { backgroundColor: theme.colors.elevation1 }]}>
+          <Text style={[styles.sectionTitle, { color: theme.colors.highEmphasis }]}>
+            {mode === 'create' ? t('backup.passphrase_create_title') : t('backup.passphrase_restore_title')}
+          </Text>
+          <Text style={[styles.sectionDescription, { color: theme.colors.mediumEmphasis }]}>
+            {mode === 'create' ? t('backup.passphrase_create_desc') : t('backup.passphrase_restore_desc')}
+          </Text>
+          <TextInput
+            style={inputStyle}
+            value={passphrase}
+            onChangeText={(v) => { setPassphrase(v); setError(null); }}
+            placeholder={t('backup.passphrase_placeholder')}
+            placeholderTextColor={theme.colors.mediumEmphasis}
+            secureTextEntry
+            autoCapitalize="none"
+            autoCorrect={false}
+            autoFocus
+          />
+          {mode === 'create' && (
+            <TextInput
+              style={inputStyle}
+              value={confirmation}
+              onChangeText={(v) => { setConfirmation(v); setError(null); }}
+              placeholder={t('backup.passphrase_confirm_placeholder')}
+              placeholderTextColor={theme.colors.mediumEmphasis}
+              secureTextEntry
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+          )}
+          {!!error && (
+            <Text style={[styles.passphraseError, { color: theme.colors.error }]}>{error}</Text>
+          )}
+          <View style={styles.modalButtons}>
+            <TouchableOpacity
+              style={[styles.modalButton, { backgroundColor: theme.colors.elevation2 }]}
+              onPress={() => { reset(); onCancel(); }}
+            >
+              <Text style={[styles.actionButtonText, { color: theme.colors.highEmphasis, marginLeft: 0 }]}>
+                {t('common.cancel')}
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.modalButton, { backgroundColor: theme.colors.primary }]}
+              onPress={handleSubmit}
+            >
+              <Text style={[styles.actionButtonText, { marginLeft: 0 }]}>
+                {mode === 'create' ? t('backup.action_create') : t('backup.action_restore')}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
 interface OptionToggleProps {
   label: string;
   description: string;
@@ -562,7 +1043,7 @@ interface OptionToggleProps {
 }
 
 const OptionToggle: React.FC<OptionToggleProps> = ({ label, description, value, onValueChange, theme }) => (
-  <View style={[styles.optionRow, { borderBottomColor: theme.colors.outline }]}>
+  <View style={[styles.optionRow, { borderBottomColor: theme.colors.border }]}>
     <View style={styles.optionLeft}>
       <Text style={[styles.optionLabel, { color: theme.colors.highEmphasis }]}>
         {label}
@@ -574,7 +1055,7 @@ const OptionToggle: React.FC<OptionToggleProps> = ({ label, description, value,
     <Switch
       value={value}
       onValueChange={onValueChange}
-      trackColor={{ false: theme.colors.outline, true: theme.colors.primary }}
+      trackColor={{ false: theme.colors.border, true: theme.colors.primary }}
       thumbColor={value ? '#fff' : '#f4f3f4'}
     />
   </View>
@@ -682,6 +1163,71 @@ const styles = StyleSheet.create({
     fontSize: 14,
     lineHeight: 20,
   },
+  actionsSpacer: {
+    height: 16,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    marginRight: 8,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  iconButton: {
+    padding: 6,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  stepperValue: {
+    fontSize: 16,
+    fontWeight: '600',
+    minWidth: 28,
+    textAlign: 'center',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  modalContent: {
+    borderRadius: 12,
+    padding: 20,
+  },
+  passphraseInput: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    marginBottom: 12,
+  },
+  passphraseError: {
+    fontSize: 13,
+    marginBottom: 12,
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 4,
+  },
+  modalButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    marginLeft: 12,
+  },
 });
 
 export default BackupScreen;
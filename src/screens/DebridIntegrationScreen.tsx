@@ -27,6 +27,15 @@ import { stremioService } from '../services/stremioService';
 import { logger } from '../utils/logger';
 import CustomAlert from '../components/CustomAlert';
 import { mmkvStorage } from '../services/mmkvStorage';
+import { useSettings } from '../hooks/useSettings';
+import { TorrentResolverMode } from '../services/torrentStreamService';
+import {
+    debridService,
+    DEBRID_PROVIDERS,
+    DebridAccountStatus,
+    DebridDeviceCode,
+    DebridProviderId,
+} from '../services/debridService';
 import axios from 'axios';
 
 const ANDROID_STATUSBAR_HEIGHT = StatusBar.currentHeight || 0;
@@ -577,6 +586,54 @@ const createStyles = (colors: any) => StyleSheet.create({
         color: colors.white,
         fontWeight: '700',
     },
+    providerHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        marginBottom: 12,
+    },
+    providerTitleRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+    },
+    providerName: {
+        fontSize: 16,
+        fontWeight: '700',
+        color: colors.white,
+    },
+    providerButtonRow: {
+        flexDirection: 'row',
+        gap: 8,
+    },
+    providerButton: {
+        flex: 1,
+        marginBottom: 0,
+    },
+    deviceCodeBox: {
+        backgroundColor: colors.elevation1,
+        borderRadius: 10,
+        padding: 16,
+        alignItems: 'center',
+        marginBottom: 12,
+    },
+    deviceCodeText: {
+        fontSize: 28,
+        fontWeight: '800',
+        color: colors.white,
+        letterSpacing: 4,
+        marginVertical: 8,
+    },
+    deviceCodeHint: {
+        fontSize: 13,
+        color: colors.mediumEmphasis,
+        textAlign: 'center',
+    },
+    deviceCodeWaiting: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        marginTop: 8,
+    },
 });
 
 const DebridIntegrationScreen = () => {
@@ -585,8 +642,25 @@ const DebridIntegrationScreen = () => {
     const { currentTheme } = useTheme();
     const colors = currentTheme.colors;
     const styles = createStyles(colors);
+    const { settings, updateSetting } = useSettings();
+
+
 
+    const [activeTab, setActiveTab] = useState<'accounts' | 'torbox'>('accounts');
 
+    // Debrid accounts state
+    const [linkedProviders, setLinkedProviders] = useState<DebridProviderId[]>([]);
+    const [accountStatuses, setAccountStatuses] = useState<Partial<Record<DebridProviderId, DebridAccountStatus>>>({});
+    const [preferredProvider, setPreferredProvider] = useState<DebridProviderId | null>(null);
+    const [linkingProvider, setLinkingProvider] = useState<DebridProviderId | null>(null);
+    const [deviceCode, setDeviceCode] = useState<DebridDeviceCode | null>(null);
+    const [providerApiKey, setProviderApiKey] = useState('');
+    const [providerBusy, setProviderBusy] = useState(false);
+    const [serverUrlInput, setServerUrlInput] = useState('');
+
+    useEffect(() => {
+        setServerUrlInput(settings.torrentServerUrl);
+    }, [settings.torrentServerUrl]);
 
     // Torbox state
     const [apiKey, setApiKey] = useState('');
@@ -674,11 +748,152 @@ const DebridIntegrationScreen = () => {
         }
     }, [config?.isConnected, fetchUserData]);
 
+    const loadAccounts = useCallback(async () => {
+        try {
+            const providers = await debridService.getLinkedProviders();
+            setLinkedProviders(providers);
+            setPreferredProvider(await debridService.getPreferredProvider());
+
+            const statuses: Partial<Record<DebridProviderId, DebridAccountStatus>> = {};
+            await Promise.all(providers.map(async provider => {
+                try {
+                    const status = await debridService.getAccountStatus(provider);
+                    if (status) statuses[provider] = status;
+                } catch (error) {
+                    logger.warn(`Failed to fetch ${provider} account status:`, error);
+                }
+            }));
+            setAccountStatuses(statuses);
+        } catch (error) {
+            logger.error('Failed to load debrid accounts:', error);
+        }
+    }, []);
+
+    useFocusEffect(
+        useCallback(() => {
+            loadAccounts();
+        }, [loadAccounts])
+    );
+
+    // Poll the pending device code until the user approves it on the provider's site
+    useEffect(() => {
+        if (!deviceCode) return;
+
+        let cancelled = false;
+        const timer = setTimeout(async () => {
+            try {
+                const account = await debridService.pollDeviceLink(deviceCode);
+                if (cancelled) return;
+                if (account) {
+                    setDeviceCode(null);
+                    setLinkingProvider(null);
+                    await loadAccounts();
+                } else {
+                    // Re-arm the effect for the next poll
+                    setDeviceCode({ ...deviceCode });
+                }
+            } catch (error: any) {
+                if (cancelled) return;
+                setDeviceCode(null);
+                showError(error?.message || t('debrid.link_failed'));
+            }
+        }, deviceCode.interval * 1000);
+
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [deviceCode, loadAccounts]);
+
     const onRefresh = useCallback(async () => {
         setRefreshing(true);
-        await Promise.all([loadConfig(), fetchUserData()]);
+        await Promise.all([loadConfig(), fetchUserData(), loadAccounts()]);
         setRefreshing(false);
-    }, [loadConfig, fetchUserData]);
+    }, [loadConfig, fetchUserData, loadAccounts]);
+
+    const showError = (message: string) => {
+        setAlertTitle(t('common.error'));
+        setAlertMessage(message);
+        setAlertActions([{ label: t('common.ok'), onPress: () => setAlertVisible(false) }]);
+        setAlertVisible(true);
+    };
+
+    // Debrid account handlers
+    const handleStartLink = (provider: DebridProviderId) => {
+        setLinkingProvider(provider);
+        setDeviceCode(null);
+        setProviderApiKey('');
+    };
+
+    const handleCancelLink = () => {
+        setLinkingProvider(null);
+        setDeviceCode(null);
+        setProviderApiKey('');
+    };
+
+    const handleStartDeviceLink = async (provider: DebridProviderId) => {
+        setProviderBusy(true);
+        try {
+            const code = await debridService.startDeviceLink(provider);
+            setDeviceCode(code);
+            Linking.openURL(code.verificationUrl).catch(() => {});
+        } catch (error: any) {
+            logger.error(`Failed to start ${provider} device link:`, error);
+            showError(error?.message || t('debrid.link_failed'));
+        } finally {
+            setProviderBusy(false);
+        }
+    };
+
+    const handleLinkApiKey = async (provider: DebridProviderId) => {
+        if (!providerApiKey.trim()) {
+            showError(t('debrid.error_api_required'));
+            return;
+        }
+        setProviderBusy(true);
+        try {
+            await debridService.linkWithApiKey(provider, providerApiKey);
+            handleCancelLink();
+            await loadAccounts();
+        } catch (error: any) {
+            logger.error(`Failed to link ${provider}:`, error);
+            showError(error?.message || t('debrid.link_failed'));
+        } finally {
+            setProviderBusy(false);
+        }
+    };
+
+    const handleSaveServerUrl = () => {
+        const trimmed = serverUrlInput.trim().replace(/\/+$/, '');
+        if (trimmed && !/^https?:\/\//i.test(trimmed)) {
+            showError(t('debrid.server_url_invalid'));
+            return;
+        }
+        updateSetting('torrentServerUrl', trimmed);
+    };
+
+    const handleSetPreferred = async (provider: DebridProviderId) => {
+        await debridService.setPreferredProvider(provider);
+        setPreferredProvider(provider);
+    };
+
+    const handleUnlink = (provider: DebridProviderId, name: string) => {
+        setAlertTitle(t('debrid.unlink_title', { provider: name }));
+        setAlertMessage(t('debrid.unlink_msg', { provider: name }));
+        setAlertActions([
+            { label: t('common.cancel'), onPress: () => setAlertVisible(false), style: { color: colors.mediumGray } },
+            {
+                label: t('debrid.unlink_button'),
+                onPress: async () => {
+                    setAlertVisible(false);
+                    await debridService.unlink(provider);
+                    await loadAccounts();
+                },
+                style: { color: colors.error || '#F44336' }
+            }
+        ]);
+        setAlertVisible(true);
+    };
 
     // Torbox handlers
     const handleConnect = async () => {
@@ -712,6 +927,11 @@ const DebridIntegrationScreen = () => {
             setConfig(newConfig);
             setApiKey('');
 
+            // Reuse the key for in-app debrid resolving
+            debridService.linkWithApiKey('torbox', newConfig.apiKey)
+                .then(loadAccounts)
+                .catch(error => logger.warn('Failed to link Torbox account:', error));
+
             setAlertTitle(t('common.success'));
             setAlertMessage(t('debrid.connected_title'));
             setAlertActions([{ label: t('common.ok'), onPress: () => setAlertVisible(false) }]);
@@ -791,6 +1011,198 @@ const DebridIntegrationScreen = () => {
         Linking.openURL('https://torbox.app/subscription?referral=493192f2-6403-440f-b414-768f72222ec7');
     };
 
+    // Render Accounts Tab
+    const renderAccountsTab = () => (
+        <>
+            <Text style={styles.description}>
+                {t('debrid.description_accounts')}
+            </Text>
+
+            <TouchableOpacity onPress={() => Linking.openURL('https://guides.viren070.me/stremio/technical-details#debrid-services')} style={styles.guideLink}>
+                <Text style={styles.guideLinkText}>{t('debrid.what_is_debrid')}</Text>
+            </TouchableOpacity>
+
+            {DEBRID_PROVIDERS.map(provider => {
+                const isLinked = linkedProviders.includes(provider.id);
+                const status = accountStatuses[provider.id];
+                const isPreferred = preferredProvider === provider.id;
+                const isLinking = linkingProvider === provider.id;
+
+                return (
+                    <View key={provider.id} style={styles.statusCard}>
+                        <View style={styles.providerHeader}>
+                            <View style={styles.providerTitleRow}>
+                                <Text style={styles.providerName}>{provider.name}</Text>
+                                {isPreferred && (
+                                    <View style={styles.recommendedBadge}>
+                                        <Text style={styles.recommendedText}>{t('debrid.preferred_badge')}</Text>
+                                    </View>
+                                )}
+                            </View>
+                            <Text style={[styles.statusValue, isLinked ? styles.statusConnected : styles.statusDisconnected]}>
+                                {isLinked ? t('debrid.status_connected') : t('debrid.status_disconnected')}
+                            </Text>
+                        </View>
+
+                        {isLinked && (
+                            <>
+                                {status?.username || status?.email ? (
+                                    <View style={styles.userDataRow}>
+                                        <Text style={styles.userDataLabel}>{t('debrid.account')}</Text>
+                                        <Text style={styles.userDataValue} numberOfLines={1}>
+                                            {status.username || status.email}
+                                        </Text>
+                                    </View>
+                                ) : null}
+
+                                <View style={styles.userDataRow}>
+                                    <Text style={styles.userDataLabel}>{t('common.status')}</Text>
+                                    <Text style={[
+                                        styles.userDataValue,
+                                        { color: status?.isPremium ? (colors.success || '#4CAF50') : colors.mediumEmphasis }
+                                    ]}>
+                                        {status ? (status.isPremium ? t('debrid.premium') : t('debrid.plan_free')) : t('debrid.plan_unknown')}
+                                    </Text>
+                                </View>
+
+                                {status?.expiresAt ? (
+                                    <View style={styles.userDataRow}>
+                                        <Text style={styles.userDataLabel}>{t('debrid.expires')}</Text>
+                                        <Text style={styles.userDataValue}>
+                                            {new Date(status.expiresAt).toLocaleDateString()}
+                                        </Text>
+                                    </View>
+                                ) : null}
+
+                                <View style={styles.divider} />
+
+                                <View style={styles.providerButtonRow}>
+                                    {!isPreferred && (
+                                        <TouchableOpacity
+                                            style={[styles.actionButton, styles.primaryButton, styles.providerButton]}
+                                            onPress={() => handleSetPreferred(provider.id)}
+                                        >
+                                            <Text style={styles.buttonText}>{t('debrid.set_preferred')}</Text>
+                                        </TouchableOpacity>
+                                    )}
+                                    <TouchableOpacity
+                                        style={[styles.actionButton, styles.dangerButton, styles.providerButton]}
+                                        onPress={() => handleUnlink(provider.id, provider.name)}
+                                    >
+                                        <Text style={styles.buttonText}>{t('debrid.unlink_button')}</Text>
+                                    </TouchableOpacity>
+                                </View>
+                            </>
+                        )}
+
+                        {!isLinked && !isLinking && (
+                            <TouchableOpacity
+                                style={[styles.actionButton, styles.primaryButton, { marginBottom: 0 }]}
+                                onPress={() => handleStartLink(provider.id)}
+                            >
+                                <Text style={styles.buttonText}>{t('debrid.link_button')}</Text>
+                            </TouchableOpacity>
+                        )}
+
+                        {!isLinked && isLinking && (
+                            <>
+                                {deviceCode?.provider === provider.id ? (
+                                    <View style={styles.deviceCodeBox}>
+                                        <Text style={styles.deviceCodeHint}>
+                                            {t('debrid.device_code_hint', { url: deviceCode.verificationUrl })}
+                                        </Text>
+                                        <Text style={styles.deviceCodeText} selectable>{deviceCode.userCode}</Text>
+                                        <TouchableOpacity onPress={() => Linking.openURL(deviceCode.verificationUrl)}>
+                                            <Text style={styles.guideLinkText}>{t('debrid.open_verification')}</Text>
+                                        </TouchableOpacity>
+                                        <View style={styles.deviceCodeWaiting}>
+                                            <ActivityIndicator size="small" color={colors.primary} />
+                                            <Text style={styles.deviceCodeHint}>{t('debrid.waiting_approval')}</Text>
+                                        </View>
+                                    </View>
+                                ) : (
+                                    <>
+                                        {debridService.supportsDeviceLink(provider.id) && (
+                                            <>
+                                                <TouchableOpacity
+                                                    style={[styles.actionButton, styles.primaryButton, providerBusy && styles.disabledButton]}
+                                                    onPress={() => handleStartDeviceLink(provider.id)}
+                                                    disabled={providerBusy}
+                                                >
+                                                    <Text style={styles.buttonText}>{t('debrid.link_device')}</Text>
+                                                </TouchableOpacity>
+                                                <Text style={[styles.deviceCodeHint, { marginBottom: 12 }]}>{t('debrid.or_api_key')}</Text>
+                                            </>
+                                        )}
+                                        <View style={styles.inputContainer}>
+                                            <Text style={styles.label}>{t('debrid.api_key_label')}</Text>
+                                            <TextInput
+                                                style={styles.input}
+                                                placeholder={t('debrid.enter_api_key')}
+                                                placeholderTextColor={colors.mediumGray}
+                                                value={providerApiKey}
+                                                onChangeText={setProviderApiKey}
+                                                autoCapitalize="none"
+                                                autoCorrect={false}
+                                                secureTextEntry
+                                            />
+                                        </View>
+                                        <TouchableOpacity
+                                            style={[styles.actionButton, styles.primaryButton, providerBusy && styles.disabledButton]}
+                                            onPress={() => handleLinkApiKey(provider.id)}
+                                            disabled={providerBusy}
+                                        >
+                                            <Text style={styles.buttonText}>
+                                                {providerBusy ? t('debrid.connecting') : t('debrid.link_api_key')}
+                                            </Text>
+                                        </TouchableOpacity>
+                                    </>
+                                )}
+                                <TouchableOpacity onPress={handleCancelLink} style={{ alignItems: 'center' }}>
+                                    <Text style={styles.selectAllText}>{t('common.cancel')}</Text>
+                                </TouchableOpacity>
+                            </>
+                        )}
+                    </View>
+                );
+            })}
+
+            <View style={styles.configSection}>
+                <Text style={styles.configSectionTitle}>{t('debrid.torrent_playback')}</Text>
+                <Text style={[styles.sectionText, { marginBottom: 12 }]}>{t('debrid.torrent_playback_desc')}</Text>
+                <View style={[styles.chipContainer, { marginBottom: 16 }]}>
+                    {(['auto', 'debrid', 'server'] as TorrentResolverMode[]).map(mode => {
+                        const selected = settings.torrentResolverMode === mode;
+                        return (
+                            <TouchableOpacity
+                                key={mode}
+                                style={[styles.chip, selected && styles.chipSelected]}
+                                onPress={() => updateSetting('torrentResolverMode', mode)}
+                            >
+                                <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                                    {t(`debrid.resolver_${mode}`)}
+                                </Text>
+                            </TouchableOpacity>
+                        );
+                    })}
+                </View>
+                <Text style={styles.label}>{t('debrid.server_url_label')}</Text>
+                <TextInput
+                    style={styles.input}
+                    placeholder="http://192.168.1.10:11470"
+                    placeholderTextColor={colors.mediumGray}
+                    value={serverUrlInput}
+                    onChangeText={setServerUrlInput}
+                    onEndEditing={handleSaveServerUrl}
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                    keyboardType="url"
+                />
+                <Text style={[styles.accordionSubtext, { marginTop: 8 }]}>{t('debrid.server_url_desc')}</Text>
+            </View>
+        </>
+    );
+
     // Render Torbox Tab
     const renderTorboxTab = () => (
         <>
@@ -991,6 +1403,21 @@ const DebridIntegrationScreen = () => {
                 <Text style={styles.headerTitle}>{t('debrid.title')}</Text>
             </View>
 
+            <View style={styles.tabContainer}>
+                <TouchableOpacity
+                    style={[styles.tab, activeTab === 'accounts' && styles.activeTab]}
+                    onPress={() => setActiveTab('accounts')}
+                >
+                    <Text style={[styles.tabText, activeTab === 'accounts' && styles.activeTabText]}>{t('debrid.tab_accounts')}</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                    style={[styles.tab, activeTab === 'torbox' && styles.activeTab]}
+                    onPress={() => setActiveTab('torbox')}
+                >
+                    <Text style={[styles.tabText, activeTab === 'torbox' && styles.activeTabText]}>{t('debrid.tab_torbox_addon')}</Text>
+                </TouchableOpacity>
+            </View>
+
             <KeyboardAvoidingView
                 behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
                 style={{ flex: 1 }}
@@ -1007,7 +1434,7 @@ const DebridIntegrationScreen = () => {
                         />
                     }
                 >
-                    {renderTorboxTab()}
+                    {activeTab === 'accounts' ? renderAccountsTab() : renderTorboxTab()}
                 </ScrollView>
             </KeyboardAvoidingView>
 
@@ -57,6 +57,7 @@ import FeaturedContent from '../components/home/FeaturedContent';
 import HeroCarousel from '../components/home/HeroCarousel';
 import AppleTVHero from '../components/home/AppleTVHero';
 import CatalogSection from '../components/home/CatalogSection';
+import LibraryListSection from '../components/home/LibraryListSection';
 import { SkeletonFeatured } from '../components/home/SkeletonLoaders';
 import LoadingSpinner from '../components/common/LoadingSpinner';
 import homeStyles, { sharedStyles } from '../styles/homeStyles';
@@ -71,6 +72,8 @@ import FirstTimeWelcome from '../components/FirstTimeWelcome';
 import { HeaderVisibility } from '../contexts/HeaderVisibility';
 import { useTrailer } from '../contexts/TrailerContext';
 import { useScrollToTop } from '../contexts/ScrollToTopContext';
+import { useLibraryLists } from '../hooks/useLibraryLists';
+import { LibraryList } from '../services/libraryListsService';
 
 // Constants
 const CATALOG_SETTINGS_KEY = 'catalog_settings';
@@ -95,6 +98,7 @@ type HomeScreenListItem =
   | { type: 'thisWeek'; key: string }
   | { type: 'continueWatching'; key: string }
   | { type: 'catalog'; catalog: CatalogContent; key: string }
+  | { type: 'libraryList'; list: LibraryList; items: StreamingContent[]; key: string }
   | { type: 'placeholder'; key: string }
   | { type: 'welcome'; key: string }
   | { type: 'loadMore'; key: string };
@@ -121,6 +125,7 @@ const HomeScreen = () => {
   const { lastUpdate } = useCatalogContext(); // Add catalog context to listen for addon changes
   const { showInfo } = useToast();
   const { setTrailerPlaying } = useTrailer();
+  const { lists: libraryLists, resolve: resolveLibraryList } = useLibraryLists();
   const [showHeroSection, setShowHeroSection] = useState(settings.showHeroSection);
   const [featuredContentSource, setFeaturedContentSource] = useState(settings.featuredContentSource);
   const refreshTimeoutRef = useRef<NodeJS.Timeout | null>(null);
@@ -208,7 +213,7 @@ const HomeScreen = () => {
 
       const [addons, addonManifests] = await Promise.all([
         catalogService.getAllAddons(),
-        stremioService.getInstalledAddonsAsync()
+        catalogService.getCatalogManifests()
       ]);
 
       // Set hasAddons state based on whether we have any addons - ensure on main thread
@@ -663,6 +668,16 @@ const HomeScreen = () => {
       data.push({ type: 'thisWeek', key: 'thisWeek' });
     }
 
+    // Library collections and smart lists pinned to home come before addon catalogs
+    libraryLists
+      .filter(list => list.pinnedToHome)
+      .forEach(list => {
+        const items = resolveLibraryList(list);
+        if (items.length > 0) {
+          data.push({ type: 'libraryList', list, items, key: `library-list-${list.id}` });
+        }
+      });
+
     // Only show a limited number of catalogs initially for performance
     const catalogsToShow = catalogs.slice(0, visibleCatalogCount);
 
@@ -681,7 +696,7 @@ const HomeScreen = () => {
     }
 
     return data;
-  }, [hasAddons, catalogs, visibleCatalogCount, settings.showThisWeekSection]);
+  }, [hasAddons, catalogs, visibleCatalogCount, settings.showThisWeekSection, libraryLists, resolveLibraryList]);
 
   const handleLoadMoreCatalogs = useCallback(() => {
     setVisibleCatalogCount(prev => Math.min(prev + 3, catalogs.length));
@@ -773,6 +788,8 @@ const HomeScreen = () => {
         return null; // Moved to ListHeaderComponent to avoid remounts on scroll
       case 'catalog':
         return <CatalogSection catalog={item.catalog} />;
+      case 'libraryList':
+        return <LibraryListSection list={item.list} items={item.items} />;
       case 'placeholder':
         return (
           <Animated.View>
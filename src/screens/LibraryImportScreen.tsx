@@ -0,0 +1,584 @@
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SectionList,
+  StatusBar,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  ActivityIndicator,
+  FlatList,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useTranslation } from 'react-i18next';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system/legacy';
+import FastImage from '@d11/react-native-fast-image';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useTheme } from '../contexts/ThemeContext';
+import ScreenHeader from '../components/common/ScreenHeader';
+import { SettingsCard, SettingItem, CustomSwitch } from './settings/SettingsComponents';
+import {
+  libraryImportService,
+  ImportMatch,
+  ImportResult,
+  ImportRow,
+  ParsedImportFile,
+} from '../services/libraryImportService';
+import { logger } from '../utils/logger';
+
+type Step = 'select' | 'resolving' | 'review' | 'importing' | 'done';
+
+const LibraryImportScreen: React.FC = () => {
+  const navigation = useNavigation();
+  const { currentTheme } = useTheme();
+  const { t } = useTranslation();
+  const insets = useSafeAreaInsets();
+
+  const [step, setStep] = useState<Step>('select');
+  const [files, setFiles] = useState<ParsedImportFile[]>([]);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [showMatched, setShowMatched] = useState(false);
+  const [addWatchedToLibrary, setAddWatchedToLibrary] = useState(false);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  // Row being matched by hand in the search modal
+  const [editingRow, setEditingRow] = useState<ImportRow | null>(null);
+  const [query, setQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<ImportMatch[]>([]);
+  const [searching, setSearching] = useState(false);
+
+  const addons = useMemo(() => files.flatMap(file => file.addons), [files]);
+
+  const handlePickFiles = async () => {
+    setFileError(null);
+    try {
+      const picked = await DocumentPicker.getDocumentAsync({
+        type: '*/*',
+        multiple: true,
+        copyToCacheDirectory: true,
+      });
+      if (picked.canceled || !picked.assets) return;
+
+      const parsed: ParsedImportFile[] = [];
+      for (const asset of picked.assets) {
+        try {
+          const content = await FileSystem.readAsStringAsync(asset.uri);
+          parsed.push(libraryImportService.parseFile(asset.name || asset.uri, content));
+        } catch (error) {
+          logger.error('[LibraryImport] Failed to read file:', error);
+          setFileError(t('library_import.file_unrecognized', { name: asset.name }));
+        }
+      }
+      setFiles(prev => [...prev, ...parsed]);
+    } catch (error) {
+      logger.error('[LibraryImport] Failed to pick files:', error);
+    }
+  };
+
+  const handleMatch = async () => {
+    const merged = libraryImportService.mergeRows(files);
+    setStep('resolving');
+    setProgress({ done: 0, total: merged.length });
+    const resolved = await libraryImportService.resolveRows(merged, (done, total) => setProgress({ done, total }));
+    setRows(resolved);
+    setStep('review');
+  };
+
+  const handleImport = async () => {
+    setStep('importing');
+    setProgress({ done: 0, total: 0 });
+    try {
+      const imported = await libraryImportService.importRows(
+        rows,
+        addons,
+        { addWatchedToLibrary },
+        (done, total) => setProgress({ done, total })
+      );
+      setResult(imported);
+    } catch (error) {
+      logger.error('[LibraryImport] Import failed:', error);
+      setResult({ addedToLibrary: 0, markedWatched: 0, addonsInstalled: 0, failed: rows.length });
+    }
+    setStep('done');
+  };
+
+  const updateRow = (key: string, partial: Partial<ImportRow>) => {
+    setRows(prev => prev.map(row => (row.key === key ? { ...row, ...partial } : row)));
+  };
+
+  const openSearch = (row: ImportRow) => {
+    setEditingRow(row);
+    setQuery(row.title);
+    setSearchResults(row.candidates);
+  };
+
+  const runSearch = async () => {
+    if (!query.trim()) return;
+    setSearching(true);
+    try {
+      setSearchResults(await libraryImportService.search(query.trim()));
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const pickMatch = (match: ImportMatch) => {
+    if (!editingRow) return;
+    updateRow(editingRow.key, { status: 'matched', match });
+    setEditingRow(null);
+  };
+
+  const matched = rows.filter(row => row.status === 'matched');
+  const needsReview = rows.filter(row => row.status === 'review');
+  const unmatched = rows.filter(row => row.status === 'unmatched');
+  const skipped = rows.filter(row => row.status === 'skipped');
+  const watchedSeries = matched.filter(row => row.match?.type === 'series' && row.actions.includes('watched'));
+
+  const sections = [
+    { key: 'review', title: t('library_import.needs_review', { count: needsReview.length }), data: needsReview },
+    { key: 'unmatched', title: t('library_import.unmatched', { count: unmatched.length }), data: unmatched },
+    { key: 'matched', title: t('library_import.matched', { count: matched.length }), data: showMatched ? matched : [] },
+    { key: 'skipped', title: t('library_import.skipped', { count: skipped.length }), data: skipped },
+  ].filter(section => section.key === 'matched' ? matched.length > 0 : section.data.length > 0);
+
+  const fileKindLabel = (file: ParsedImportFile) => t(`library_import.kinds.${file.kind}`);
+
+  const renderPoster = (poster?: string) => (
+    poster ? (
+      <FastImage source={{ uri: poster }} style={styles.poster} resizeMode={FastImage.resizeMode.cover} />
+    ) : (
+      <View style={[styles.poster, { backgroundColor: currentTheme.colors.elevation2 }]}>
+        <MaterialIcons name="movie" size={20} color={currentTheme.colors.mediumEmphasis} />
+      </View>
+    )
+  );
+
+  const renderRow = ({ item }: { item: ImportRow }) => {
+    const shown = item.status === 'matched' ? item.match : undefined;
+    return (
+      <TouchableOpacity
+        style={[styles.row, { borderBottomColor: currentTheme.colors.elevation2 }]}
+        onPress={() => openSearch(item)}
+        activeOpacity={0.7}
+      >
+        {renderPoster(shown?.poster)}
+        <View style={styles.rowText}>
+          <Text style={[styles.rowTitle, { color: currentTheme.colors.highEmphasis }]} numberOfLines={1}>
+            {item.title}{item.year ? ` (${item.year})` : ''}
+          </Text>
+          <Text style={[styles.rowSubtitle, { color: currentTheme.colors.mediumEmphasis }]} numberOfLines={1}>
+            {shown
+              ? `${shown.name}${shown.year ? ` (${shown.year})` : ''}`
+              : item.status === 'review'
+                ? t('library_import.candidates', { count: item.candidates.length })
+                : item.status === 'skipped'
+                  ? t('library_import.will_skip')
+                  : t('library_import.no_match')}
+          </Text>
+        </View>
+        {item.status !== 'skipped' ? (
+          <TouchableOpacity style={styles.rowAction} onPress={() => updateRow(item.key, { status: 'skipped' })}>
+            <MaterialIcons name="close" size={20} color={currentTheme.colors.mediumEmphasis} />
+          </TouchableOpacity>
+        ) : (
+          <TouchableOpacity
+            style={styles.rowAction}
+            onPress={() => updateRow(item.key, { status: item.match ? 'matched' : item.candidates.length > 0 ? 'review' : 'unmatched' })}
+          >
+            <MaterialIcons name="undo" size={20} color={currentTheme.colors.mediumEmphasis} />
+          </TouchableOpacity>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  const renderProgress = (label: string) => (
+    <View style={styles.centered}>
+      <ActivityIndicator size="large" color={currentTheme.colors.primary} />
+      <Text style={[styles.progressText, { color: currentTheme.colors.highEmphasis }]}>{label}</Text>
+      {progress.total > 0 && (
+        <Text style={[styles.progressCount, { color: currentTheme.colors.mediumEmphasis }]}>
+          {progress.done} / {progress.total}
+        </Text>
+      )}
+    </View>
+  );
+
+  const renderSelect = () => (
+    <FlatList
+      data={files}
+      keyExtractor={(file, index) => `${file.fileName}-${index}`}
+      contentContainerStyle={[styles.scrollContent, { paddingBottom: insets.bottom + 24 }]}
+      ListHeaderComponent={
+        <Text style={[styles.hint, { color: currentTheme.colors.mediumEmphasis }]}>
+          {t('library_import.intro')}
+        </Text>
+      }
+      renderItem={({ item, index }) => (
+        <SettingsCard>
+          <SettingItem
+            title={item.fileName}
+            description={`${fileKindLabel(item)} · ${item.kind === 'stremio_addons'
+              ? t('library_import.addon_count', { count: item.addons.length })
+              : t('library_import.row_count', { count: item.rows.length })}`}
+            icon={item.kind === 'stremio_addons' ? 'package' : 'file-text'}
+            isLast
+            renderControl={() => (
+              <TouchableOpacity onPress={() => setFiles(prev => prev.filter((_, i) => i !== index))}>
+                <MaterialIcons name="close" size={20} color={currentTheme.colors.mediumEmphasis} />
+              </TouchableOpacity>
+            )}
+          />
+        </SettingsCard>
+      )}
+      ListFooterComponent={
+        <View style={styles.footer}>
+          {fileError && <Text style={[styles.errorText, { color: currentTheme.colors.error }]}>{fileError}</Text>}
+          <TouchableOpacity
+            style={[styles.button, { borderColor: currentTheme.colors.primary, borderWidth: 1 }]}
+            onPress={handlePickFiles}
+          >
+            <Text style={[styles.buttonText, { color: currentTheme.colors.primary }]}>{t('library_import.add_files')}</Text>
+          </TouchableOpacity>
+          {files.length > 0 && (
+            <TouchableOpacity
+              style={[styles.button, { backgroundColor: currentTheme.colors.primary }]}
+              onPress={handleMatch}
+            >
+              <Text style={[styles.buttonText, { color: currentTheme.colors.white }]}>{t('library_import.match_titles')}</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      }
+    />
+  );
+
+  const renderReview = () => (
+    <SectionList
+      sections={sections}
+      keyExtractor={row => row.key}
+      renderItem={renderRow}
+      stickySectionHeadersEnabled={false}
+      initialNumToRender={20}
+      contentContainerStyle={[styles.scrollContent, { paddingBottom: insets.bottom + 24 }]}
+      ListHeaderComponent={
+        <SettingsCard title={t('library_import.section_options')}>
+          <SettingItem
+            title={t('library_import.add_watched')}
+            description={t('library_import.add_watched_desc')}
+            descriptionNumberOfLines={2}
+            icon="bookmark"
+            isLast={addons.length === 0}
+            renderControl={() => <CustomSwitch value={addWatchedToLibrary} onValueChange={setAddWatchedToLibrary} />}
+          />
+          {addons.length > 0 && (
+            <SettingItem
+              title={t('library_import.addons_to_install', { count: addons.length })}
+              icon="package"
+              isLast
+            />
+          )}
+        </SettingsCard>
+      }
+      renderSectionHeader={({ section }) => (
+        <TouchableOpacity
+          style={styles.sectionHeader}
+          disabled={section.key !== 'matched'}
+          onPress={() => setShowMatched(prev => !prev)}
+        >
+          <Text style={[styles.sectionTitle, { color: currentTheme.colors.mediumEmphasis }]}>{section.title}</Text>
+          {section.key === 'matched' && (
+            <MaterialIcons
+              name={showMatched ? 'expand-less' : 'expand-more'}
+              size={20}
+              color={currentTheme.colors.mediumEmphasis}
+            />
+          )}
+        </TouchableOpacity>
+      )}
+      ListFooterComponent={
+        <View style={styles.footer}>
+          {(needsReview.length > 0 || unmatched.length > 0) && (
+            <Text style={[styles.hint, { color: currentTheme.colors.mediumEmphasis }]}>
+              {t('library_import.review_hint')}
+            </Text>
+          )}
+          {watchedSeries.length > 0 && (
+            <Text style={[styles.hint, { color: currentTheme.colors.mediumEmphasis }]}>
+              {t('library_import.series_watched_hint', { count: watchedSeries.length })}
+            </Text>
+          )}
+          <TouchableOpacity
+            style={[styles.button, { backgroundColor: currentTheme.colors.primary }]}
+            disabled={matched.length === 0 && addons.length === 0}
+            onPress={handleImport}
+          >
+            <Text style={[styles.buttonText, { color: currentTheme.colors.white }]}>
+              {t('library_import.import_count', { count: matched.length })}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      }
+    />
+  );
+
+  const renderDone = () => (
+    <View style={styles.centered}>
+      <MaterialIcons name="check-circle" size={56} color={currentTheme.colors.primary} />
+      <Text style={[styles.progressText, { color: currentTheme.colors.highEmphasis }]}>
+        {t('library_import.done_title')}
+      </Text>
+      {result && (
+        <Text style={[styles.resultText, { color: currentTheme.colors.mediumEmphasis }]}>
+          {[
+            t('library_import.result_library', { count: result.addedToLibrary }),
+            t('library_import.result_watched', { count: result.markedWatched }),
+            result.addonsInstalled > 0 ? t('library_import.result_addons', { count: result.addonsInstalled }) : null,
+            result.failed > 0 ? t('library_import.result_failed', { count: result.failed }) : null,
+          ].filter(Boolean).join('\n')}
+        </Text>
+      )}
+      <TouchableOpacity
+        style={[styles.button, styles.doneButton, { backgroundColor: currentTheme.colors.primary }]}
+        onPress={() => navigation.goBack()}
+      >
+        <Text style={[styles.buttonText, { color: currentTheme.colors.white }]}>{t('library_import.done')}</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <View style={[styles.container, { backgroundColor: currentTheme.colors.darkBackground }]}>
+      <StatusBar barStyle="light-content" />
+      <ScreenHeader
+        title={t('library_import.title')}
+        showBackButton
+        onBackPress={() => navigation.goBack()}
+      />
+
+      {step === 'select' && renderSelect()}
+      {step === 'resolving' && renderProgress(t('library_import.matching'))}
+      {step === 'review' && renderReview()}
+      {step === 'importing' && renderProgress(t('library_import.importing'))}
+      {step === 'done' && renderDone()}
+
+      <Modal
+        visible={!!editingRow}
+        transparent
+        animationType="fade"
+        supportedOrientations={['portrait', 'landscape']}
+        onRequestClose={() => setEditingRow(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={[styles.modalContent, { backgroundColor: currentTheme.colors.elevation2 }]}>
+            <Text style={[styles.modalTitle, { color: currentTheme.colors.highEmphasis }]} numberOfLines={2}>
+              {editingRow?.title}{editingRow?.year ? ` (${editingRow.year})` : ''}
+            </Text>
+            <View style={styles.searchRow}>
+              <TextInput
+                style={[styles.searchInput, { color: currentTheme.colors.text, borderColor: currentTheme.colors.elevation1 }]}
+                value={query}
+                onChangeText={setQuery}
+                placeholder={t('library_import.search_placeholder')}
+                placeholderTextColor={currentTheme.colors.mediumEmphasis}
+                onSubmitEditing={runSearch}
+                returnKeyType="search"
+              />
+              <TouchableOpacity style={styles.rowAction} onPress={runSearch}>
+                <MaterialIcons name="search" size={24} color={currentTheme.colors.primary} />
+              </TouchableOpacity>
+            </View>
+            {searching ? (
+              <ActivityIndicator style={styles.searchSpinner} color={currentTheme.colors.primary} />
+            ) : (
+              <FlatList
+                data={searchResults}
+                keyExtractor={match => `${match.type}-${match.tmdbId ?? match.imdbId}`}
+                style={styles.searchResults}
+                ListEmptyComponent={
+                  <Text style={[styles.hint, { color: currentTheme.colors.mediumEmphasis }]}>
+                    {t('library_import.no_results')}
+                  </Text>
+                }
+                renderItem={({ item }) => (
+                  <TouchableOpacity
+                    style={[styles.row, { borderBottomColor: currentTheme.colors.elevation1 }]}
+                    onPress={() => pickMatch(item)}
+                  >
+                    {renderPoster(item.poster)}
+                    <View style={styles.rowText}>
+                      <Text style={[styles.rowTitle, { color: currentTheme.colors.highEmphasis }]} numberOfLines={1}>
+                        {item.name}
+                      </Text>
+                      <Text style={[styles.rowSubtitle, { color: currentTheme.colors.mediumEmphasis }]}>
+                        {[item.year, item.type === 'movie' ? t('search.movies') : t('search.tv_shows')].filter(Boolean).join(' · ')}
+                      </Text>
+                    </View>
+                  </TouchableOpacity>
+                )}
+              />
+            )}
+            <TouchableOpacity style={styles.modalCancel} onPress={() => setEditingRow(null)}>
+              <Text style={{ color: currentTheme.colors.mediumEmphasis }}>{t('common.cancel')}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingTop: 16,
+  },
+  hint: {
+    fontSize: 13,
+    lineHeight: 18,
+    paddingHorizontal: 16,
+    marginBottom: 16,
+  },
+  footer: {
+    paddingHorizontal: 16,
+    paddingTop: 16,
+    gap: 12,
+  },
+  button: {
+    height: 48,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  buttonText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  doneButton: {
+    alignSelf: 'stretch',
+    marginTop: 24,
+  },
+  errorText: {
+    fontSize: 13,
+    textAlign: 'center',
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  progressText: {
+    fontSize: 17,
+    fontWeight: '600',
+    marginTop: 16,
+  },
+  progressCount: {
+    fontSize: 14,
+    marginTop: 8,
+  },
+  resultText: {
+    fontSize: 14,
+    lineHeight: 22,
+    textAlign: 'center',
+    marginTop: 12,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: 20,
+    paddingBottom: 8,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  poster: {
+    width: 40,
+    height: 60,
+    borderRadius: 4,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  rowText: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  rowTitle: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  rowSubtitle: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  rowAction: {
+    padding: 8,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.7)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  modalContent: {
+    width: '100%',
+    maxWidth: 420,
+    maxHeight: '80%',
+    borderRadius: 16,
+    paddingVertical: 20,
+  },
+  modalTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    paddingHorizontal: 16,
+    marginBottom: 12,
+  },
+  searchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingLeft: 16,
+    paddingRight: 8,
+    marginBottom: 8,
+  },
+  searchInput: {
+    flex: 1,
+    height: 44,
+    borderRadius: 8,
+    borderWidth: 1,
+    paddingHorizontal: 12,
+    fontSize: 15,
+  },
+  searchSpinner: {
+    marginVertical: 24,
+  },
+  searchResults: {
+    flexGrow: 0,
+  },
+  modalCancel: {
+    alignSelf: 'center',
+    marginTop: 12,
+    padding: 8,
+  },
+});
+
+export default LibraryImportScreen;
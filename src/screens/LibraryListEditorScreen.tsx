@@ -0,0 +1,415 @@
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  StatusBar,
+  TouchableOpacity,
+  TextInput,
+} from 'react-native';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useTranslation } from 'react-i18next';
+import { useTheme } from '../contexts/ThemeContext';
+import ScreenHeader from '../components/common/ScreenHeader';
+import CustomAlert from '../components/CustomAlert';
+import { SettingsCard, SettingItem, CustomSwitch } from './settings/SettingsComponents';
+import { RootStackParamList } from '../navigation/AppNavigator';
+import { useLibraryLists } from '../hooks/useLibraryLists';
+import {
+  libraryListsService,
+  LibraryList,
+  LibraryListKind,
+  SmartListRules,
+  WatchState,
+} from '../services/libraryListsService';
+import { logger } from '../utils/logger';
+
+const ADDED_WITHIN_OPTIONS = [7, 30, 90, 365];
+
+// Empty input clears the bound
+const parseNumber = (value: string): number | undefined => {
+  const parsed = parseFloat(value.replace(',', '.'));
+  return Number.isNaN(parsed) ? undefined : parsed;
+};
+
+const LibraryListEditorScreen: React.FC = () => {
+  const navigation = useNavigation();
+  const route = useRoute<RouteProp<RootStackParamList, 'LibraryListEditor'>>();
+  const { currentTheme } = useTheme();
+  const { t } = useTranslation();
+  const insets = useSafeAreaInsets();
+  const { tags, libraryItems, resolve } = useLibraryLists();
+
+  const existing = route.params?.listId ? libraryListsService.getList(route.params.listId) : undefined;
+  const [kind, setKind] = useState<LibraryListKind>(existing?.kind ?? route.params?.kind ?? 'collection');
+  const [name, setName] = useState(existing?.name ?? '');
+  const [pinnedToHome, setPinnedToHome] = useState(existing?.pinnedToHome ?? false);
+  const [rules, setRules] = useState<SmartListRules>(existing?.rules ?? {});
+  // Numeric fields keep their raw text while editing
+  const [numbers, setNumbers] = useState({
+    yearFrom: existing?.rules.yearFrom?.toString() ?? '',
+    yearTo: existing?.rules.yearTo?.toString() ?? '',
+    minRating: existing?.rules.minRating?.toString() ?? '',
+    runtimeMin: existing?.rules.runtimeMin?.toString() ?? '',
+    runtimeMax: existing?.rules.runtimeMax?.toString() ?? '',
+  });
+  const [error, setError] = useState<string | null>(null);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const genres = useMemo(() => {
+    const all = new Set<string>();
+    libraryItems.forEach(item => item.genres?.forEach(genre => all.add(genre)));
+    return Array.from(all).sort((a, b) => a.localeCompare(b));
+  }, [libraryItems]);
+
+  const providers = useMemo(() => {
+    const all = new Set<string>();
+    libraryItems.forEach(item => item.networks?.forEach(network => all.add(network.name)));
+    return Array.from(all).sort((a, b) => a.localeCompare(b));
+  }, [libraryItems]);
+
+  const draftRules = useMemo((): SmartListRules => ({
+    ...rules,
+    yearFrom: parseNumber(numbers.yearFrom),
+    yearTo: parseNumber(numbers.yearTo),
+    minRating: parseNumber(numbers.minRating),
+    runtimeMin: parseNumber(numbers.runtimeMin),
+    runtimeMax: parseNumber(numbers.runtimeMax),
+  }), [rules, numbers]);
+
+  const matchCount = useMemo(() => {
+    const draft: LibraryList = {
+      id: existing?.id ?? 'draft',
+      name,
+      kind,
+      itemKeys: existing?.itemKeys ?? [],
+      rules: draftRules,
+      pinnedToHome,
+      createdAt: existing?.createdAt ?? Date.now(),
+    };
+    return resolve(draft).length;
+  }, [existing, name, kind, draftRules, pinnedToHome, resolve]);
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      setError(t('library_lists.name_required'));
+      return;
+    }
+    // Drop unset bounds so stored rules stay minimal
+    const cleanRules = Object.fromEntries(
+      Object.entries(draftRules).filter(([, value]) =>
+        value !== undefined && !(Array.isArray(value) && value.length === 0)
+      )
+    ) as SmartListRules;
+    try {
+      if (existing) {
+        await libraryListsService.updateList(existing.id, {
+          name,
+          pinnedToHome,
+          rules: kind === 'smart' ? cleanRules : {},
+        });
+      } else {
+        const list = await libraryListsService.createList(name, kind, cleanRules);
+        if (pinnedToHome) await libraryListsService.updateList(list.id, { pinnedToHome });
+      }
+      navigation.goBack();
+    } catch (saveError) {
+      logger.error('[LibraryListEditor] Failed to save list:', saveError);
+      setError(t('library_lists.save_failed'));
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!existing) return;
+    try {
+      await libraryListsService.deleteList(existing.id);
+      navigation.goBack();
+    } catch (deleteError) {
+      logger.error('[LibraryListEditor] Failed to delete list:', deleteError);
+    }
+  };
+
+  const toggleValue = (key: 'genres' | 'providers' | 'tags', value: string) => {
+    setRules(prev => {
+      const current = prev[key] ?? [];
+      return {
+        ...prev,
+        [key]: current.includes(value) ? current.filter(entry => entry !== value) : [...current, value],
+      };
+    });
+  };
+
+  const renderChip = (key: string, label: string, active: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[
+        styles.chip,
+        {
+          borderColor: active ? currentTheme.colors.primary : currentTheme.colors.elevation2,
+          backgroundColor: active ? `${currentTheme.colors.primary}20` : 'transparent',
+        },
+      ]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, { color: active ? currentTheme.colors.primary : currentTheme.colors.mediumEmphasis }]}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  const renderOptionBlock = (title: string, content: React.ReactNode, isLast = false) => (
+    <View
+      style={[
+        styles.optionBlock,
+        !isLast && { borderBottomWidth: StyleSheet.hairlineWidth, borderBottomColor: currentTheme.colors.elevation2 },
+      ]}
+    >
+      <Text style={[styles.optionTitle, { color: currentTheme.colors.highEmphasis }]}>{title}</Text>
+      {content}
+    </View>
+  );
+
+  const renderNumberInput = (key: keyof typeof numbers, placeholder: string) => (
+    <TextInput
+      style={[styles.numberInput, { color: currentTheme.colors.text, borderColor: currentTheme.colors.elevation2 }]}
+      value={numbers[key]}
+      onChangeText={value => setNumbers(prev => ({ ...prev, [key]: value.replace(/[^\d.,]/g, '') }))}
+      placeholder={placeholder}
+      placeholderTextColor={currentTheme.colors.mediumEmphasis}
+      keyboardType="decimal-pad"
+    />
+  );
+
+  const renderRange = (fromKey: keyof typeof numbers, toKey: keyof typeof numbers) => (
+    <View style={styles.rangeRow}>
+      {renderNumberInput(fromKey, t('library_lists.from'))}
+      <Text style={[styles.rangeDash, { color: currentTheme.colors.mediumEmphasis }]}>–</Text>
+      {renderNumberInput(toKey, t('library_lists.to'))}
+    </View>
+  );
+
+  const watchedOptions: Array<{ value: WatchState | undefined; label: string }> = [
+    { value: undefined, label: t('library_lists.any') },
+    { value: 'unwatched', label: t('library_lists.unwatched') },
+    { value: 'in_progress', label: t('library_lists.in_progress') },
+    { value: 'watched', label: t('library_lists.watched') },
+  ];
+
+  return (
+    <View style={[styles.container, { backgroundColor: currentTheme.colors.darkBackground }]}>
+      <StatusBar barStyle="light-content" />
+      <ScreenHeader
+        title={existing ? t('library_lists.edit_title') : t('library_lists.new_title')}
+        showBackButton
+        onBackPress={() => navigation.goBack()}
+        rightActionIcon="check"
+        onRightActionPress={handleSave}
+      />
+
+      <ScrollView
+        style={styles.scrollView}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+        contentContainerStyle={[styles.scrollContent, { paddingBottom: insets.bottom + 24 }]}
+      >
+        <SettingsCard title={t('library_lists.section_general')}>
+          {renderOptionBlock(
+            t('library_lists.name'),
+            <>
+              <TextInput
+                style={[styles.textInput, { color: currentTheme.colors.text, borderColor: currentTheme.colors.elevation2 }]}
+                value={name}
+                onChangeText={value => {
+                  setName(value);
+                  setError(null);
+                }}
+                placeholder={t('library_lists.name_placeholder')}
+                placeholderTextColor={currentTheme.colors.mediumEmphasis}
+                maxLength={40}
+              />
+              {error && <Text style={[styles.errorText, { color: currentTheme.colors.error }]}>{error}</Text>}
+            </>
+          )}
+          {!existing && renderOptionBlock(
+            t('library_lists.kind'),
+            <View style={styles.chipRow}>
+              {renderChip('collection', t('library_lists.kind_collection'), kind === 'collection', () => setKind('collection'))}
+              {renderChip('smart', t('library_lists.kind_smart'), kind === 'smart', () => setKind('smart'))}
+            </View>
+          )}
+          <SettingItem
+            title={t('library_lists.pin_to_home')}
+            description={t('library_lists.pin_to_home_desc')}
+            icon="home"
+            isLast
+            renderControl={() => <CustomSwitch value={pinnedToHome} onValueChange={setPinnedToHome} />}
+          />
+        </SettingsCard>
+
+        {kind === 'smart' && (
+          <SettingsCard title={t('library_lists.section_rules')}>
+            <Text style={[styles.cardHint, { color: currentTheme.colors.mediumEmphasis }]}>
+              {t('library_lists.matches', { count: matchCount })}
+            </Text>
+            {renderOptionBlock(
+              t('library_lists.type'),
+              <View style={styles.chipRow}>
+                {renderChip('all', t('library_lists.any'), !rules.type, () => setRules(prev => ({ ...prev, type: undefined })))}
+                {renderChip('movie', t('search.movies'), rules.type === 'movie', () => setRules(prev => ({ ...prev, type: 'movie' })))}
+                {renderChip('series', t('search.tv_shows'), rules.type === 'series', () => setRules(prev => ({ ...prev, type: 'series' })))}
+              </View>
+            )}
+            {genres.length > 0 && renderOptionBlock(
+              t('library_lists.genres'),
+              <View style={styles.chipRow}>
+                {genres.map(genre =>
+                  renderChip(genre, genre, !!rules.genres?.includes(genre), () => toggleValue('genres', genre))
+                )}
+              </View>
+            )}
+            {renderOptionBlock(t('library_lists.year'), renderRange('yearFrom', 'yearTo'))}
+            {renderOptionBlock(
+              t('library_lists.min_rating'),
+              <View style={styles.rangeRow}>{renderNumberInput('minRating', '7.5')}</View>
+            )}
+            {renderOptionBlock(t('library_lists.runtime'), renderRange('runtimeMin', 'runtimeMax'))}
+            {renderOptionBlock(
+              t('library_lists.watched_state'),
+              <View style={styles.chipRow}>
+                {watchedOptions.map(option =>
+                  renderChip(option.label, option.label, rules.watched === option.value, () =>
+                    setRules(prev => ({ ...prev, watched: option.value }))
+                  )
+                )}
+              </View>
+            )}
+            {renderOptionBlock(
+              t('library_lists.added'),
+              <View style={styles.chipRow}>
+                {renderChip('any', t('library_lists.any'), rules.addedWithinDays === undefined, () =>
+                  setRules(prev => ({ ...prev, addedWithinDays: undefined }))
+                )}
+                {ADDED_WITHIN_OPTIONS.map(days =>
+                  renderChip(String(days), t('library_lists.last_days', { count: days }), rules.addedWithinDays === days, () =>
+                    setRules(prev => ({ ...prev, addedWithinDays: days }))
+                  )
+                )}
+              </View>,
+              providers.length === 0 && tags.length === 0
+            )}
+            {providers.length > 0 && renderOptionBlock(
+              t('library_lists.providers'),
+              <View style={styles.chipRow}>
+                {providers.map(provider =>
+                  renderChip(provider, provider, !!rules.providers?.includes(provider), () => toggleValue('providers', provider))
+                )}
+              </View>,
+              tags.length === 0
+            )}
+            {tags.length > 0 && renderOptionBlock(
+              t('library_lists.tags'),
+              <View style={styles.chipRow}>
+                {tags.map(tag => renderChip(tag, tag, !!rules.tags?.includes(tag), () => toggleValue('tags', tag)))}
+              </View>,
+              true
+            )}
+          </SettingsCard>
+        )}
+
+        {existing && (
+          <SettingsCard>
+            <SettingItem
+              title={t('library_lists.delete')}
+              icon="trash-2"
+              onPress={() => setConfirmDelete(true)}
+              isLast
+            />
+          </SettingsCard>
+        )}
+      </ScrollView>
+
+      <CustomAlert
+        visible={confirmDelete}
+        title={t('library_lists.delete')}
+        message={t('library_lists.delete_confirm', { name: existing?.name ?? '' })}
+        actions={[
+          { label: t('common.cancel'), onPress: () => { } },
+          { label: t('library_lists.delete'), onPress: handleDelete },
+        ]}
+        onClose={() => setConfirmDelete(false)}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingTop: 16,
+  },
+  cardHint: {
+    fontSize: 13,
+    paddingHorizontal: 16,
+    paddingTop: 14,
+  },
+  optionBlock: {
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+  },
+  optionTitle: {
+    fontSize: 15,
+    fontWeight: '500',
+    marginBottom: 10,
+  },
+  textInput: {
+    height: 44,
+    borderRadius: 8,
+    borderWidth: 1,
+    paddingHorizontal: 12,
+    fontSize: 15,
+  },
+  numberInput: {
+    width: 96,
+    height: 40,
+    borderRadius: 8,
+    borderWidth: 1,
+    paddingHorizontal: 12,
+    fontSize: 15,
+  },
+  rangeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  rangeDash: {
+    marginHorizontal: 12,
+    fontSize: 16,
+  },
+  errorText: {
+    fontSize: 13,
+    marginTop: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+});
+
+export default LibraryListEditorScreen;
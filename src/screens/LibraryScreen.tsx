@@ -22,15 +22,15 @@ import {
   Image,
 } from 'react-native';
 import { FlashList } from '@shopify/flash-list';
-import { useNavigation } from '@react-navigation/native';
-import { NavigationProp } from '@react-navigation/native';
+import { useNavigation, useRoute } from '@react-navigation/native';
+import { NavigationProp, RouteProp } from '@react-navigation/native';
 import { MaterialIcons, Feather } from '@expo/vector-icons';
 import FastImage from '@d11/react-native-fast-image';
 import Animated, { FadeIn, FadeOut } from 'react-native-reanimated';
 import { LinearGradient } from 'expo-linear-gradient';
 import { catalogService } from '../services/catalogService';
 import type { StreamingContent } from '../services/catalogService';
-import { RootStackParamList } from '../navigation/AppNavigator';
+import { RootStackParamList, MainTabParamList } from '../navigation/AppNavigator';
 import { logger } from '../utils/logger';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useTheme } from '../contexts/ThemeContext';
@@ -42,6 +42,9 @@ import { TraktLoadingSpinner } from '../components/common/TraktLoadingSpinner';
 import { useSettings } from '../hooks/useSettings';
 import { useTranslation } from 'react-i18next';
 import { useScrollToTop } from '../contexts/ScrollToTopContext';
+import { useLibraryLists } from '../hooks/useLibraryLists';
+import { libraryListsService, libraryItemKey, LibraryList } from '../services/libraryListsService';
+import LibraryOrganizeModal from '../components/home/LibraryOrganizeModal';
 
 interface LibraryItem extends StreamingContent {
   progress?: number;
@@ -253,16 +256,21 @@ const SkeletonLoader = () => {
 const LibraryScreen = () => {
   const { t } = useTranslation();
   const navigation = useNavigation<NavigationProp<RootStackParamList>>();
+  const route = useRoute<RouteProp<MainTabParamList, 'Library'>>();
   const isDarkMode = useColorScheme() === 'dark';
   const { width, height } = useWindowDimensions();
   const { numColumns, itemWidth } = useMemo(() => getGridLayout(width), [width]);
   const [loading, setLoading] = useState(true);
   const [libraryItems, setLibraryItems] = useState<LibraryItem[]>([]);
-  const [filter, setFilter] = useState<'trakt' | 'simkl' | 'movies' | 'series'>('movies');
+  const [filter, setFilter] = useState<'trakt' | 'simkl' | 'lists' | 'movies' | 'series'>('movies');
   const [showTraktContent, setShowTraktContent] = useState(false);
   const [selectedTraktFolder, setSelectedTraktFolder] = useState<string | null>(null);
   const [showSimklContent, setShowSimklContent] = useState(false);
   const [selectedSimklFolder, setSelectedSimklFolder] = useState<string | null>(null);
+  const [showListsContent, setShowListsContent] = useState(false);
+  const [selectedListId, setSelectedListId] = useState<string | null>(null);
+  const [selectedTag, setSelectedTag] = useState<string | null>(null);
+  const [organizeItem, setOrganizeItem] = useState<LibraryItem | null>(null);
   const { showInfo, showError } = useToast();
   const [menuVisible, setMenuVisible] = useState(false);
   const [selectedItem, setSelectedItem] = useState<LibraryItem | null>(null);
@@ -277,6 +285,23 @@ const LibraryScreen = () => {
 
   useScrollToTop('Library', scrollToTop);
 
+  const { lists: libraryLists, tags: libraryTags, resolve: resolveLibraryList } = useLibraryLists();
+
+  // "View all" on a pinned home row opens that list here
+  useEffect(() => {
+    const listId = route.params?.listId;
+    if (!listId) return;
+    setShowTraktContent(false);
+    setShowSimklContent(false);
+    setShowListsContent(true);
+    setSelectedListId(listId);
+    navigation.setParams({ listId: undefined } as any);
+  }, [route.params?.listId, navigation]);
+
+  useEffect(() => {
+    if (selectedTag && !libraryTags.includes(selectedTag)) setSelectedTag(null);
+  }, [libraryTags, selectedTag]);
+
   const {
     isAuthenticated: traktAuthenticated,
     isLoading: traktLoading,
@@ -347,12 +372,20 @@ const LibraryScreen = () => {
         }
         return true;
       }
+      if (showListsContent) {
+        if (selectedListId) {
+          setSelectedListId(null);
+        } else {
+          setShowListsContent(false);
+        }
+        return true;
+      }
       return false;
     };
 
     const backHandler = BackHandler.addEventListener('hardwareBackPress', backAction);
     return () => backHandler.remove();
-  }, [showTraktContent, showSimklContent, selectedTraktFolder, selectedSimklFolder]);
+  }, [showTraktContent, showSimklContent, selectedTraktFolder, selectedSimklFolder, showListsContent, selectedListId]);
 
   useEffect(() => {
     const loadLibrary = async () => {
@@ -423,11 +456,22 @@ const LibraryScreen = () => {
   }, [navigation]);
 
   const filteredItems = libraryItems.filter(item => {
+    if (selectedTag && !libraryListsService.getTags(item).includes(selectedTag)) return false;
     if (filter === 'movies') return item.type === 'movie';
     if (filter === 'series') return item.type === 'series';
     return true;
   });
 
+  const selectedList = selectedListId ? libraryLists.find(list => list.id === selectedListId) : undefined;
+
+  // Resolve against the screen's items so watched badges and progress carry over
+  const getListItems = useCallback((list: LibraryList): LibraryItem[] => {
+    const byKey = new Map(libraryItems.map(item => [libraryItemKey(item), item]));
+    return resolveLibraryList(list)
+      .map(item => byKey.get(libraryItemKey(item)))
+      .filter((item): item is LibraryItem => !!item);
+  }, [libraryItems, resolveLibraryList]);
+
   const traktFolders = useMemo((): TraktFolder[] => {
     if (!traktAuthenticated) return [];
 
@@ -1335,7 +1379,136 @@ const LibraryScreen = () => {
     );
   };
 
-  const renderFilter = (filterType: 'trakt' | 'simkl' | 'movies' | 'series', label: string) => {
+  const renderListFolder = ({ list }: { list: LibraryList }) => (
+    <TouchableOpacity
+      style={[styles.itemContainer, { width: itemWidth }]}
+      onPress={() => setSelectedListId(list.id)}
+      onLongPress={() => navigation.navigate('LibraryListEditor', { listId: list.id })}
+      activeOpacity={0.7}
+    >
+      <View style={[styles.posterContainer, styles.folderContainer, { shadowColor: currentTheme.colors.black, backgroundColor: currentTheme.colors.elevation1 }]}>
+        <View style={styles.folderGradient}>
+          <MaterialIcons
+            name={list.kind === 'smart' ? 'auto-awesome' : 'folder'}
+            size={48}
+            color={currentTheme.colors.white}
+            style={{ marginBottom: 8 }}
+          />
+          <Text style={[styles.folderTitle, { color: currentTheme.colors.white }]} numberOfLines={2}>
+            {list.name}
+          </Text>
+          <Text style={styles.folderCount}>
+            {getListItems(list).length} {t('library.items')}
+          </Text>
+          {list.pinnedToHome && (
+            <MaterialIcons name="push-pin" size={14} color={currentTheme.colors.mediumGray} style={{ marginTop: 4 }} />
+          )}
+        </View>
+      </View>
+    </TouchableOpacity>
+  );
+
+  const renderListsContent = () => {
+    if (!selectedList) {
+      if (libraryLists.length === 0) {
+        return (
+          <View style={styles.emptyContainer}>
+            <MaterialIcons name="folder-open" size={64} color={currentTheme.colors.lightGray} />
+            <Text style={[styles.emptyText, { color: currentTheme.colors.white }]}>{t('library.no_lists')}</Text>
+            <Text style={[styles.emptySubtext, { color: currentTheme.colors.mediumGray }]}>
+              {t('library.no_lists_desc')}
+            </Text>
+            <TouchableOpacity
+              style={[styles.exploreButton, {
+                backgroundColor: currentTheme.colors.primary,
+                shadowColor: currentTheme.colors.black
+              }]}
+              onPress={() => navigation.navigate('LibraryListEditor', {})}
+              activeOpacity={0.7}
+            >
+              <Text style={[styles.exploreButtonText, { color: currentTheme.colors.white }]}>{t('library.new_list')}</Text>
+            </TouchableOpacity>
+          </View>
+        );
+      }
+
+      return (
+        <FlashList
+          ref={flashListRef}
+          data={libraryLists}
+          renderItem={({ item }) => renderListFolder({ list: item })}
+          keyExtractor={item => item.id}
+          numColumns={numColumns}
+          contentContainerStyle={styles.listContainer}
+          showsVerticalScrollIndicator={false}
+        />
+      );
+    }
+
+    const listItems = getListItems(selectedList);
+
+    if (listItems.length === 0) {
+      return (
+        <View style={styles.emptyContainer}>
+          <MaterialIcons
+            name={selectedList.kind === 'smart' ? 'auto-awesome' : 'folder-open'}
+            size={64}
+            color={currentTheme.colors.lightGray}
+          />
+          <Text style={[styles.emptyText, { color: currentTheme.colors.white }]}>
+            {t('library.empty_folder', { folder: selectedList.name })}
+          </Text>
+          <Text style={[styles.emptySubtext, { color: currentTheme.colors.mediumGray }]}>
+            {selectedList.kind === 'smart' ? t('library.empty_smart_list_desc') : t('library.empty_collection_desc')}
+          </Text>
+        </View>
+      );
+    }
+
+    return (
+      <FlashList
+        ref={flashListRef}
+        data={listItems}
+        renderItem={({ item }) => renderItem({ item })}
+        keyExtractor={item => `${item.type}-${item.id}`}
+        numColumns={numColumns}
+        contentContainerStyle={styles.listContainer}
+        showsVerticalScrollIndicator={false}
+      />
+    );
+  };
+
+  const renderTagFilters = () => (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      style={styles.tagFiltersContainer}
+      contentContainerStyle={styles.tagFiltersContent}
+    >
+      {libraryTags.map(tag => {
+        const isActive = selectedTag === tag;
+        return (
+          <TouchableOpacity
+            key={tag}
+            style={[
+              styles.tagChip,
+              { borderColor: isActive ? currentTheme.colors.primary : 'rgba(255,255,255,0.1)' },
+              isActive && { backgroundColor: `${currentTheme.colors.primary}30` }
+            ]}
+            onPress={() => setSelectedTag(isActive ? null : tag)}
+            activeOpacity={0.7}
+          >
+            <MaterialIcons name="label" size={14} color={isActive ? currentTheme.colors.primary : currentTheme.colors.mediumGray} />
+            <Text style={[styles.tagChipText, { color: isActive ? currentTheme.colors.primary : currentTheme.colors.mediumGray }]}>
+              {tag}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </ScrollView>
+  );
+
+  const renderFilter = (filterType: 'trakt' | 'simkl' | 'lists' | 'movies' | 'series', label: string) => {
     const isActive = filter === filterType;
 
     return (
@@ -1356,6 +1529,11 @@ const LibraryScreen = () => {
             }
             return;
           }
+          if (filterType === 'lists') {
+            setShowListsContent(true);
+            setSelectedListId(null);
+            return;
+          }
           if (filterType === 'simkl') {
             if (!simklAuthenticated) {
               navigation.navigate('Settings');
@@ -1449,10 +1627,12 @@ const LibraryScreen = () => {
             ? (selectedSimklFolder
               ? simklFolders.find(f => f.id === selectedSimklFolder)?.name || t('library.collection')
               : 'SIMKL Collections')
-            : t('library.title')
+            : showListsContent
+              ? (selectedList ? selectedList.name : t('library.lists'))
+              : t('library.title')
         }
-        showBackButton={showTraktContent || showSimklContent}
-        onBackPress={(showTraktContent || showSimklContent) ? () => {
+        showBackButton={showTraktContent || showSimklContent || showListsContent}
+        onBackPress={(showTraktContent || showSimklContent || showListsContent) ? () => {
           if (showTraktContent) {
             if (selectedTraktFolder) {
               setSelectedTraktFolder(null);
@@ -1465,25 +1645,46 @@ const LibraryScreen = () => {
             } else {
               setShowSimklContent(false);
             }
+          } else if (showListsContent) {
+            if (selectedListId) {
+              setSelectedListId(null);
+            } else {
+              setShowListsContent(false);
+            }
           }
         } : undefined}
         useMaterialIcons={showTraktContent}
-        rightActionIcon={!showTraktContent ? 'calendar' : undefined}
-        onRightActionPress={!showTraktContent ? () => navigation.navigate('Calendar') : undefined}
+        rightActionIcon={showListsContent ? (selectedList ? 'edit-2' : 'plus') : !showTraktContent ? 'calendar' : undefined}
+        onRightActionPress={showListsContent
+          ? () => navigation.navigate('LibraryListEditor', selectedList ? { listId: selectedList.id } : {})
+          : !showTraktContent ? () => navigation.navigate('Calendar') : undefined}
         isTablet={isTablet}
       />
 
       <View style={[styles.contentContainer, { backgroundColor: currentTheme.colors.darkBackground }]}>
-        {!showTraktContent && !showSimklContent && (
-          <View style={styles.filtersContainer}>
+        {!showTraktContent && !showSimklContent && !showListsContent && (
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            style={styles.filtersScroll}
+            contentContainerStyle={styles.filtersContainer}
+          >
             {renderFilter('trakt', 'Trakt')}
             {renderFilter('simkl', 'SIMKL')}
+            {renderFilter('lists', t('library.lists'))}
             {renderFilter('movies', t('search.movies'))}
             {renderFilter('series', t('search.tv_shows'))}
-          </View>
+          </ScrollView>
         )}
+        {!showTraktContent && !showSimklContent && !showListsContent && libraryTags.length > 0 && renderTagFilters()}
 
-        {showTraktContent ? renderTraktContent() : showSimklContent ? renderSimklContent() : renderContent()}
+        {showTraktContent
+          ? renderTraktContent()
+          : showSimklContent
+            ? renderSimklContent()
+            : showListsContent
+              ? renderListsContent()
+              : renderContent()}
       </View>
 
       {selectedItem && (
@@ -1493,9 +1694,13 @@ const LibraryScreen = () => {
           item={selectedItem}
           isWatched={!!selectedItem.watched}
           isSaved={true}
+          canOrganize
           onOptionSelect={async (option) => {
             if (!selectedItem) return;
             switch (option) {
+              case 'organize':
+                setOrganizeItem(selectedItem);
+                break;
               case 'library': {
                 try {
                   await catalogService.removeFromLibrary(selectedItem.type, selectedItem.id);
@@ -1538,6 +1743,12 @@ const LibraryScreen = () => {
           }}
         />
       )}
+
+      <LibraryOrganizeModal
+        visible={!!organizeItem}
+        item={organizeItem}
+        onClose={() => setOrganizeItem(null)}
+      />
     </View>
   );
 };
@@ -1557,7 +1768,11 @@ const styles = StyleSheet.create({
   contentContainer: {
     flex: 1,
   },
+  filtersScroll: {
+    flexGrow: 0,
+  },
   filtersContainer: {
+    flexGrow: 1,
     flexDirection: 'row',
     justifyContent: 'center',
     paddingHorizontal: 16,
@@ -1583,6 +1798,27 @@ const styles = StyleSheet.create({
   filterIcon: {
     marginRight: 8,
   },
+  tagFiltersContainer: {
+    flexGrow: 0,
+  },
+  tagFiltersContent: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    gap: 8,
+  },
+  tagChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  tagChipText: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
   filterText: {
     fontSize: 15,
     fontWeight: '500',
@@ -0,0 +1,492 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  StatusBar,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useTranslation } from 'react-i18next';
+import { useTheme } from '../contexts/ThemeContext';
+import ScreenHeader from '../components/common/ScreenHeader';
+import { SettingsCard, SettingItem, CustomSwitch } from './settings/SettingsComponents';
+import {
+  parentalControlsService,
+  ParentalControlsSettings,
+  RATING_SYSTEMS,
+  GUIDE_CATEGORIES,
+  GuideSeverity,
+  getCertificationAge,
+} from '../services/parentalControlsService';
+import { stremioService } from '../services/stremioService';
+import { localScraperService } from '../services/pluginService';
+
+const GUIDE_LIMIT_OPTIONS: GuideSeverity[] = ['None', 'Mild', 'Moderate'];
+
+interface ListEntry {
+  id: string;
+  name: string;
+}
+
+// Keep a comparable limit when the rating system changes
+const closestRating = (limit: string | null, kind: 'movie' | 'tv', from: string, to: string): string | null => {
+  if (!limit) return null;
+  const age = getCertificationAge(limit, kind, from);
+  if (age === null) return null;
+  const steps = RATING_SYSTEMS[to][kind].filter(step => step.age <= age);
+  return steps.length > 0 ? steps[steps.length - 1].rating : RATING_SYSTEMS[to][kind][0].rating;
+};
+
+const ParentalControlsScreen: React.FC = () => {
+  const navigation = useNavigation();
+  const { currentTheme } = useTheme();
+  const { t } = useTranslation();
+  const insets = useSafeAreaInsets();
+
+  const [settings, setSettings] = useState<ParentalControlsSettings>(parentalControlsService.getSettings());
+  const [unlocked, setUnlocked] = useState(!parentalControlsService.hasPin());
+  const [unlockPin, setUnlockPin] = useState('');
+  const [unlockError, setUnlockError] = useState(false);
+  const [pinModalVisible, setPinModalVisible] = useState(false);
+  const [newPin, setNewPin] = useState('');
+  const [pinError, setPinError] = useState<string | null>(null);
+  const [addons, setAddons] = useState<ListEntry[]>([]);
+  const [plugins, setPlugins] = useState<ListEntry[]>([]);
+
+  useEffect(() => parentalControlsService.subscribe(setSettings), []);
+
+  useEffect(() => {
+    if (!unlocked) return;
+    stremioService.getInstalledAddonsAsync(true)
+      .then(list => setAddons(list.map(addon => ({ id: addon.id, name: addon.name }))))
+      .catch(() => setAddons([]));
+    localScraperService.getInstalledScrapers()
+      .then(list => setPlugins(list.map(plugin => ({ id: plugin.id, name: plugin.name }))))
+      .catch(() => setPlugins([]));
+  }, [unlocked]);
+
+  const update = useCallback((partial: Partial<ParentalControlsSettings>) => {
+    parentalControlsService.updateSettings(partial);
+  }, []);
+
+  const handleUnlockChange = (value: string) => {
+    const digits = value.replace(/\D/g, '').slice(0, 4);
+    setUnlockPin(digits);
+    setUnlockError(false);
+    if (digits.length < 4) return;
+    if (parentalControlsService.verifyPin(digits)) {
+      setUnlocked(true);
+    } else {
+      setUnlockError(true);
+      setUnlockPin('');
+    }
+  };
+
+  const handleSavePin = async () => {
+    try {
+      await parentalControlsService.setPin(newPin);
+      setPinModalVisible(false);
+      setNewPin('');
+      setPinError(null);
+    } catch {
+      setPinError(t('parental_controls.pin_invalid'));
+    }
+  };
+
+  const handleRegionChange = (region: string) => {
+    update({
+      region,
+      maxMovieRating: closestRating(settings.maxMovieRating, 'movie', settings.region, region),
+      maxTvRating: closestRating(settings.maxTvRating, 'tv', settings.region, region),
+    });
+  };
+
+  const toggleAllowed = (list: string[] | null, id: string, all: ListEntry[]): string[] => {
+    const current = list ?? all.map(entry => entry.id);
+    return current.includes(id) ? current.filter(entry => entry !== id) : [...current, id];
+  };
+
+  const renderChips = <T extends string | null>(
+    options: Array<{ value: T; label: string }>,
+    selected: T,
+    onSelect: (value: T) => void
+  ) => (
+    <View style={styles.chipRow}>
+      {options.map(option => {
+        const active = option.value === selected;
+        return (
+          <TouchableOpacity
+            key={option.label}
+            style={[
+              styles.chip,
+              {
+                borderColor: active ? currentTheme.colors.primary : currentTheme.colors.elevation2,
+                backgroundColor: active ? `${currentTheme.colors.primary}20` : 'transparent',
+              },
+            ]}
+            onPress={() => onSelect(option.value)}
+          >
+            <Text style={[styles.chipText, { color: active ? currentTheme.colors.primary : currentTheme.colors.mediumEmphasis }]}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  const renderOptionBlock = (title: string, content: React.ReactNode, isLast = false) => (
+    <View
+      style={[
+        styles.optionBlock,
+        !isLast && { borderBottomWidth: StyleSheet.hairlineWidth, borderBottomColor: currentTheme.colors.elevation2 },
+      ]}
+    >
+      <Text style={[styles.optionTitle, { color: currentTheme.colors.highEmphasis }]}>{title}</Text>
+      {content}
+    </View>
+  );
+
+  const ratingOptions = (kind: 'movie' | 'tv') => [
+    { value: null as string | null, label: t('parental_controls.no_limit') },
+    ...RATING_SYSTEMS[settings.region][kind].map(step => ({ value: step.rating as string | null, label: step.rating })),
+  ];
+
+  const renderAllowList = (
+    entries: ListEntry[],
+    list: string[] | null,
+    key: 'addonAllowList' | 'pluginAllowList'
+  ) => {
+    if (entries.length === 0) {
+      return <SettingItem title={t('parental_controls.none_installed')} icon="slash" isLast />;
+    }
+    return entries.map((entry, index) => (
+      <SettingItem
+        key={entry.id}
+        title={entry.name}
+        icon={key === 'addonAllowList' ? 'package' : 'code'}
+        isLast={index === entries.length - 1}
+        renderControl={() => (
+          <CustomSwitch
+            value={!list || list.includes(entry.id)}
+            onValueChange={() => update({ [key]: toggleAllowed(list, entry.id, entries) })}
+          />
+        )}
+      />
+    ));
+  };
+
+  if (!unlocked) {
+    return (
+      <View style={[styles.container, { backgroundColor: currentTheme.colors.darkBackground }]}>
+        <StatusBar barStyle="light-content" />
+        <ScreenHeader title={t('parental_controls.title')} showBackButton onBackPress={() => navigation.goBack()} />
+        <View style={styles.lockedContent}>
+          <Text style={[styles.lockedText, { color: currentTheme.colors.highEmphasis }]}>
+            {t('parental_controls.enter_pin')}
+          </Text>
+          <TextInput
+            style={[
+              styles.pinInput,
+              {
+                color: currentTheme.colors.text,
+                borderColor: unlockError ? currentTheme.colors.error : currentTheme.colors.elevation2,
+              },
+            ]}
+            value={unlockPin}
+            onChangeText={handleUnlockChange}
+            keyboardType="number-pad"
+            secureTextEntry
+            maxLength={4}
+            autoFocus
+          />
+          {unlockError && (
+            <Text style={[styles.errorText, { color: currentTheme.colors.error }]}>{t('parental_controls.wrong_pin')}</Text>
+          )}
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View style={[styles.container, { backgroundColor: currentTheme.colors.darkBackground }]}>
+      <StatusBar barStyle="light-content" />
+      <ScreenHeader title={t('parental_controls.title')} showBackButton onBackPress={() => navigation.goBack()} />
+
+      <ScrollView
+        style={styles.scrollView}
+        showsVerticalScrollIndicator={false}
+        contentContainerStyle={[styles.scrollContent, { paddingBottom: insets.bottom + 24 }]}
+      >
+        <SettingsCard title={t('parental_controls.section_general')}>
+          <SettingItem
+            title={t('parental_controls.enabled')}
+            description={t('parental_controls.enabled_desc')}
+            icon="shield"
+            renderControl={() => (
+              <CustomSwitch value={settings.enabled} onValueChange={enabled => update({ enabled })} />
+            )}
+          />
+          <SettingItem
+            title={t('parental_controls.pin')}
+            description={settings.pinHash ? t('parental_controls.pin_set') : t('parental_controls.pin_not_set')}
+            descriptionNumberOfLines={2}
+            icon="lock"
+            onPress={() => setPinModalVisible(true)}
+            isLast={!settings.pinHash}
+          />
+          {!!settings.pinHash && (
+            <SettingItem
+              title={t('parental_controls.remove_pin')}
+              icon="unlock"
+              onPress={() => parentalControlsService.setPin(null)}
+              isLast
+            />
+          )}
+        </SettingsCard>
+
+        {settings.enabled && (
+          <>
+            <SettingsCard title={t('parental_controls.section_ratings')}>
+              {renderOptionBlock(
+                t('parental_controls.region'),
+                renderChips(
+                  Object.keys(RATING_SYSTEMS).map(code => ({ value: code, label: RATING_SYSTEMS[code].name })),
+                  settings.region,
+                  handleRegionChange
+                )
+              )}
+              {renderOptionBlock(
+                t('parental_controls.max_movie'),
+                renderChips(ratingOptions('movie'), settings.maxMovieRating, maxMovieRating => update({ maxMovieRating }))
+              )}
+              {renderOptionBlock(
+                t('parental_controls.max_tv'),
+                renderChips(ratingOptions('tv'), settings.maxTvRating, maxTvRating => update({ maxTvRating }))
+              )}
+              <SettingItem
+                title={t('parental_controls.block_unrated')}
+                description={t('parental_controls.block_unrated_desc')}
+                icon="help-circle"
+                isLast
+                renderControl={() => (
+                  <CustomSwitch value={settings.blockUnrated} onValueChange={blockUnrated => update({ blockUnrated })} />
+                )}
+              />
+            </SettingsCard>
+
+            <SettingsCard title={t('parental_controls.section_guide')}>
+              <Text style={[styles.cardHint, { color: currentTheme.colors.mediumEmphasis }]}>
+                {t('parental_controls.guide_desc')}
+              </Text>
+              {GUIDE_CATEGORIES.map((category, index) =>
+                <React.Fragment key={category}>
+                  {renderOptionBlock(
+                    t(`parental_controls.categories.${category}`),
+                    renderChips<GuideSeverity | null>(
+                      [
+                        { value: null, label: t('parental_controls.any') },
+                        ...GUIDE_LIMIT_OPTIONS.map(severity => ({
+                          value: severity as GuideSeverity | null,
+                          label: t(`parental_controls.severities.${severity}`),
+                        })),
+                      ],
+                      settings.guideLimits[category] ?? null,
+                      severity => {
+                        const guideLimits = { ...settings.guideLimits };
+                        if (severity) guideLimits[category] = severity;
+                        else delete guideLimits[category];
+                        update({ guideLimits });
+                      }
+                    ),
+                    index === GUIDE_CATEGORIES.length - 1
+                  )}
+                </React.Fragment>
+              )}
+            </SettingsCard>
+
+            <SettingsCard title={t('parental_controls.section_addons')}>
+              <SettingItem
+                title={t('parental_controls.limit_addons')}
+                description={t('parental_controls.limit_addons_desc')}
+                descriptionNumberOfLines={2}
+                icon="filter"
+                isLast={!settings.addonAllowList}
+                renderControl={() => (
+                  <CustomSwitch
+                    value={!!settings.addonAllowList}
+                    onValueChange={on => update({ addonAllowList: on ? addons.map(addon => addon.id) : null })}
+                  />
+                )}
+              />
+              {!!settings.addonAllowList && renderAllowList(addons, settings.addonAllowList, 'addonAllowList')}
+            </SettingsCard>
+
+            <SettingsCard title={t('parental_controls.section_plugins')}>
+              <SettingItem
+                title={t('parental_controls.limit_plugins')}
+                description={t('parental_controls.limit_plugins_desc')}
+                descriptionNumberOfLines={2}
+                icon="filter"
+                isLast={!settings.pluginAllowList}
+                renderControl={() => (
+                  <CustomSwitch
+                    value={!!settings.pluginAllowList}
+                    onValueChange={on => update({ pluginAllowList: on ? plugins.map(plugin => plugin.id) : null })}
+                  />
+                )}
+              />
+              {!!settings.pluginAllowList && renderAllowList(plugins, settings.pluginAllowList, 'pluginAllowList')}
+            </SettingsCard>
+          </>
+        )}
+      </ScrollView>
+
+      <Modal
+        visible={pinModalVisible}
+        transparent
+        animationType="fade"
+        supportedOrientations={['portrait', 'landscape']}
+        onRequestClose={() => setPinModalVisible(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={[styles.modalContent, { backgroundColor: currentTheme.colors.elevation2 }]}>
+            <Text style={[styles.optionTitle, { color: currentTheme.colors.highEmphasis, textAlign: 'center' }]}>
+              {t('parental_controls.set_pin')}
+            </Text>
+            <TextInput
+              style={[styles.pinInput, { color: currentTheme.colors.text, borderColor: currentTheme.colors.elevation1 }]}
+              value={newPin}
+              onChangeText={value => setNewPin(value.replace(/\D/g, '').slice(0, 4))}
+              placeholder={t('parental_controls.pin_placeholder')}
+              placeholderTextColor={currentTheme.colors.mediumEmphasis}
+              keyboardType="number-pad"
+              secureTextEntry
+              maxLength={4}
+              autoFocus
+            />
+            {pinError && <Text style={[styles.errorText, { color: currentTheme.colors.error }]}>{pinError}</Text>}
+            <View style={styles.modalButtons}>
+              <TouchableOpacity
+                style={styles.modalButton}
+                onPress={() => {
+                  setPinModalVisible(false);
+                  setNewPin('');
+                  setPinError(null);
+                }}
+              >
+                <Text style={{ color: currentTheme.colors.mediumEmphasis }}>{t('parental_controls.cancel')}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.modalButton, { backgroundColor: currentTheme.colors.primary }]}
+                onPress={handleSavePin}
+              >
+                <Text style={{ color: currentTheme.colors.white }}>{t('parental_controls.save')}</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingTop: 16,
+  },
+  lockedContent: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  lockedText: {
+    fontSize: 16,
+    fontWeight: '500',
+    marginBottom: 20,
+    textAlign: 'center',
+  },
+  pinInput: {
+    alignSelf: 'center',
+    width: 160,
+    height: 52,
+    borderRadius: 8,
+    borderWidth: 1,
+    fontSize: 24,
+    letterSpacing: 12,
+    textAlign: 'center',
+    marginVertical: 16,
+  },
+  errorText: {
+    fontSize: 13,
+    textAlign: 'center',
+  },
+  cardHint: {
+    fontSize: 13,
+    paddingHorizontal: 16,
+    paddingTop: 14,
+  },
+  optionBlock: {
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+  },
+  optionTitle: {
+    fontSize: 15,
+    fontWeight: '500',
+    marginBottom: 10,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.7)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  modalContent: {
+    width: '100%',
+    maxWidth: 360,
+    borderRadius: 16,
+    padding: 24,
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 12,
+  },
+  modalButton: {
+    flex: 1,
+    height: 44,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+});
+
+export default ParentalControlsScreen;
@@ -303,6 +303,47 @@ const PlayerSettingsScreen: React.FC = () => {
 
 
 
+            {/* Stats for nerds */}
+            <View style={[styles.settingItem, styles.settingItemBorder, { borderTopColor: 'rgba(255,255,255,0.08)', borderTopWidth: 1 }]}>
+              <View style={styles.settingContent}>
+                <View style={[
+                  styles.settingIconContainer,
+                  { backgroundColor: 'rgba(255,255,255,0.1)' }
+                ]}>
+                  <MaterialIcons
+                    name="insights"
+                    size={20}
+                    color={currentTheme.colors.primary}
+                  />
+                </View>
+                <View style={styles.settingText}>
+                  <Text
+                    style={[
+                      styles.settingTitle,
+                      { color: currentTheme.colors.text },
+                    ]}
+                  >
+                    {t('player.stats_button_title')}
+                  </Text>
+                  <Text
+                    style={[
+                      styles.settingDescription,
+                      { color: currentTheme.colors.textMuted },
+                    ]}
+                  >
+                    {t('player.stats_button_desc')}
+                  </Text>
+                </View>
+                <Switch
+                  value={settings.showPlayerStatsButton}
+                  onValueChange={(value) => updateSetting('showPlayerStatsButton', value)}
+                  trackColor={{ false: '#767577', true: currentTheme.colors.primary }}
+                  thumbColor={settings.showPlayerStatsButton ? '#ffffff' : '#f4f3f4'}
+                  ios_backgroundColor="#3e3e3e"
+                />
+              </View>
+            </View>
+
             {/* Video Player Engine for Android */}
             {Platform.OS === 'android' && !settings.useExternalPlayer && (
               <>
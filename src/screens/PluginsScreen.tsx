@@ -24,6 +24,7 @@ import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { RootStackParamList } from '../navigation/AppNavigator';
 import { useSettings } from '../hooks/useSettings';
 import { localScraperService, pluginService, ScraperInfo, RepositoryInfo } from '../services/pluginService';
+import { ScraperPermissionViolation } from '../services/pluginSandbox';
 import { logger } from '../utils/logger';
 import { useTheme } from '../contexts/ThemeContext';
 import { useTranslation } from 'react-i18next';
@@ -725,6 +726,20 @@ const createStyles = (colors: any) => StyleSheet.create({
     fontSize: 12,
     color: colors.mediumGray,
   },
+  pluginViolation: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    marginTop: 8,
+    padding: 10,
+    borderRadius: 8,
+    backgroundColor: 'rgba(255, 59, 48, 0.12)',
+    gap: 8,
+  },
+  pluginViolationText: {
+    flex: 1,
+    fontSize: 12,
+    color: '#FF3B30',
+  },
   emptyStateContainer: {
     alignItems: 'center',
     paddingVertical: 40,
@@ -957,6 +972,7 @@ const PluginsScreen: React.FC = () => {
   // Core state
   const [repositoryUrl, setRepositoryUrl] = useState(settings.scraperRepositoryUrl);
   const [installedPlugins, setInstalledPlugins] = useState<ScraperInfo[]>([]);
+  const [permissionViolations, setPermissionViolations] = useState<Record<string, ScraperPermissionViolation>>({});
   const [isLoading, setIsLoading] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [hasRepository, setHasRepository] = useState(false);
@@ -1045,6 +1061,7 @@ const PluginsScreen: React.FC = () => {
     if (plugin.manifestEnabled === false) return 'disabled';
     if (plugin.disabledPlatforms?.includes(Platform.OS as 'ios' | 'android')) return 'platform-disabled';
     if (plugin.limited) return 'limited';
+    if (permissionViolations[plugin.id]) return 'error';
     if (plugin.enabled) return 'enabled';
     return 'available';
   };
@@ -1066,6 +1083,11 @@ const PluginsScreen: React.FC = () => {
     }
   };
 
+  const handleDismissViolation = async (pluginId: string) => {
+    await pluginService.clearPermissionViolation(pluginId);
+    setPermissionViolations(await pluginService.getPermissionViolations());
+  };
+
   const handleUrlChange = (url: string) => {
     setNewRepositoryUrl(url);
   };
@@ -1221,6 +1243,7 @@ const PluginsScreen: React.FC = () => {
 
 
       setInstalledPlugins(scrapers);
+      setPermissionViolations(await pluginService.getPermissionViolations());
       // Detect ShowBox scraper dynamically and preload settings
       const sb = scrapers.find(s => {
         const id = (s.id || '').toLowerCase();
@@ -1594,6 +1617,18 @@ const PluginsScreen: React.FC = () => {
                           <Text style={styles.statusBadgeText}>{t('plugins.enabled')}</Text>
                         </View>
                       )}
+                      {repo.verificationStatus === 'verified' && (
+                        <View style={[styles.statusBadge, { backgroundColor: '#0A84FF' }]}>
+                          <Ionicons name="shield-checkmark" size={12} color="white" />
+                          <Text style={styles.statusBadgeText}>{t('plugins.verified_publisher')}</Text>
+                        </View>
+                      )}
+                      {repo.verificationStatus === 'tampered' && (
+                        <View style={[styles.statusBadge, { backgroundColor: '#FF3B30' }]}>
+                          <Ionicons name="alert-circle" size={12} color="white" />
+                          <Text style={styles.statusBadgeText}>{t('plugins.tampered')}</Text>
+                        </View>
+                      )}
                       {switchingRepository === repo.id && (
                         <View style={[styles.statusBadge, { backgroundColor: colors.primary }]}>
                           <ActivityIndicator size={12} color="white" />
@@ -1617,6 +1652,14 @@ const PluginsScreen: React.FC = () => {
                     <Text style={styles.repositoryMeta}>
                       {repo.scraperCount || 0} plugins • Last updated: {repo.lastUpdated ? new Date(repo.lastUpdated).toLocaleDateString() : 'Never'}
                     </Text>
+                    {repo.verificationStatus === 'verified' && repo.publisher && (
+                      <Text style={styles.repositoryMeta}>{t('plugins.signed_by', { publisher: repo.publisher })}</Text>
+                    )}
+                    {repo.verificationStatus === 'tampered' && (
+                      <Text style={[styles.repositoryMeta, { color: '#FF3B30' }]}>
+                        {t('plugins.tampered_desc', { reason: repo.verificationMessage || '' })}
+                      </Text>
+                    )}
                   </View>
                   <View style={styles.repositoryActions}>
                     <TouchableOpacity
@@ -1872,6 +1915,22 @@ const PluginsScreen: React.FC = () => {
                         </Text>
                       </View>
                     )}
+                    {plugin.resources && plugin.resources.some(resource => resource !== 'stream') && (
+                      <View style={styles.pluginCardMetaItem}>
+                        <Ionicons name="layers" size={12} color={colors.mediumGray} />
+                        <Text style={styles.pluginCardMetaText}>
+                          {plugin.resources.join(', ')}
+                        </Text>
+                      </View>
+                    )}
+                    <View style={styles.pluginCardMetaItem}>
+                      <Ionicons name="shield-checkmark" size={12} color={colors.mediumGray} />
+                      <Text style={styles.pluginCardMetaText}>
+                        {plugin.permissions?.allowedHosts?.length
+                          ? t('plugins.sandbox_hosts', { count: plugin.permissions.allowedHosts.length })
+                          : t('plugins.sandbox_no_hosts')}
+                      </Text>
+                    </View>
                     {plugin.supportsExternalPlayer === false && (
                       <View style={styles.pluginCardMetaItem}>
                         <Ionicons name="play-circle" size={12} color={colors.mediumGray} />
@@ -1890,6 +1949,19 @@ const PluginsScreen: React.FC = () => {
                     )}
                   </View>
 
+                  {/* Sandbox violation from the last run */}
+                  {permissionViolations[plugin.id] && (
+                    <View style={styles.pluginViolation}>
+                      <Ionicons name="warning" size={14} color="#FF3B30" />
+                      <Text style={styles.pluginViolationText}>
+                        {t('plugins.sandbox_violation', { message: permissionViolations[plugin.id].message })}
+                      </Text>
+                      <TouchableOpacity onPress={() => handleDismissViolation(plugin.id)}>
+                        <Ionicons name="close" size={14} color="#FF3B30" />
+                      </TouchableOpacity>
+                    </View>
+                  )}
+
                   {/* ShowBox Settings - only visible when ShowBox plugin is available */}
                   {showboxScraperId && plugin.id === showboxScraperId && settings.enableLocalScrapers && (
                     <View style={{ marginTop: 16, paddingTop: 16, borderTopWidth: 1, borderTopColor: colors.elevation3 }}>
@@ -9,35 +9,48 @@ import {
   Platform,
   SafeAreaView,
   TextInput,
-  Modal
+  Modal,
+  ScrollView
 } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
 import { MaterialIcons } from '@expo/vector-icons';
 import { useTheme } from '../contexts/ThemeContext';
-import { useTraktContext } from '../contexts/TraktContext';
-import { mmkvStorage } from '../services/mmkvStorage';
+import { profileService, Profile, PROFILE_AVATARS, PROFILE_COLORS } from '../services/profileService';
 import CustomAlert from '../components/CustomAlert';
+import { ProfileAvatar, PinPrompt } from '../components/ProfilePicker';
 
 const ANDROID_STATUSBAR_HEIGHT = StatusBar.currentHeight || 0;
-const PROFILE_STORAGE_KEY = 'user_profiles';
 
-interface Profile {
-  id: string;
+interface ProfileForm {
+  id?: string;
   name: string;
-  avatar?: string;
-  isActive: boolean;
-  createdAt: number;
+  avatar: string;
+  color: string;
+  // Only used when creating, or when changing the PIN of an existing profile
+  pin: string;
+  hasPin: boolean;
+  removePin: boolean;
 }
 
+const emptyForm = (): ProfileForm => ({
+  name: '',
+  avatar: PROFILE_AVATARS[Math.floor(Math.random() * PROFILE_AVATARS.length)],
+  color: PROFILE_COLORS[Math.floor(Math.random() * PROFILE_COLORS.length)],
+  pin: '',
+  hasPin: false,
+  removePin: false,
+});
+
 const ProfilesScreen: React.FC = () => {
   const navigation = useNavigation();
   const { currentTheme } = useTheme();
-  const { isAuthenticated, userProfile, refreshAuthStatus } = useTraktContext();
 
   const [profiles, setProfiles] = useState<Profile[]>([]);
-  const [showAddModal, setShowAddModal] = useState(false);
-  const [newProfileName, setNewProfileName] = useState('');
-  const [isLoading, setIsLoading] = useState(true);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [form, setForm] = useState<ProfileForm | null>(null);
+  const [pinProfile, setPinProfile] = useState<Profile | null>(null);
+  // What to do once the PIN prompt succeeds
+  const [pinIntent, setPinIntent] = useState<'switch' | 'edit'>('switch');
 
   // CustomAlert state
   const [alertVisible, setAlertVisible] = useState(false);
@@ -56,171 +69,181 @@ const ProfilesScreen: React.FC = () => {
     setAlertVisible(true);
   };
 
-  // Load profiles from AsyncStorage
   const loadProfiles = useCallback(async () => {
     try {
-      setIsLoading(true);
-      const storedProfiles = await mmkvStorage.getItem(PROFILE_STORAGE_KEY);
-      if (storedProfiles) {
-        setProfiles(JSON.parse(storedProfiles));
-      } else {
-        // If no profiles exist, create a default one with the Trakt username
-        const defaultProfile: Profile = {
-          id: new Date().getTime().toString(),
-          name: userProfile?.username || 'Default',
-          isActive: true,
-          createdAt: new Date().getTime()
-        };
-        setProfiles([defaultProfile]);
-        await mmkvStorage.setItem(PROFILE_STORAGE_KEY, JSON.stringify([defaultProfile]));
-      }
+      const [all, active] = await Promise.all([profileService.getProfiles(), profileService.getActiveProfile()]);
+      setProfiles(all);
+      setActiveId(active.id);
     } catch (error) {
       if (__DEV__) console.error('Error loading profiles:', error);
       openAlert('Error', 'Failed to load profiles');
-    } finally {
-      setIsLoading(false);
     }
-  }, [userProfile]);
+  }, []);
 
-  // Add a focus listener to refresh authentication status
   useEffect(() => {
-    const unsubscribe = navigation.addListener('focus', () => {
-      // Refresh the auth status when the screen comes into focus
-      refreshAuthStatus().then(() => {
-        if (isAuthenticated) {
-          loadProfiles();
-        }
-      });
-    });
-
-    return unsubscribe;
-  }, [navigation, refreshAuthStatus, isAuthenticated, loadProfiles]);
+    loadProfiles();
+  }, [loadProfiles]);
 
-  // Save profiles to AsyncStorage
-  const saveProfiles = useCallback(async (updatedProfiles: Profile[]) => {
+  const switchTo = useCallback(async (profile: Profile) => {
     try {
-      await mmkvStorage.setItem(PROFILE_STORAGE_KEY, JSON.stringify(updatedProfiles));
-    } catch (error) {
-      if (__DEV__) console.error('Error saving profiles:', error);
-      openAlert('Error', 'Failed to save profiles');
+      await profileService.switchProfile(profile.id);
+    } catch (error: any) {
+      openAlert('Error', error?.message || 'Failed to switch profile');
     }
   }, []);
 
-  useEffect(() => {
-    // Only authenticated users can access profiles
-    if (!isAuthenticated) {
-      navigation.goBack();
+  const openEditor = useCallback((profile: Profile) => {
+    setForm({
+      id: profile.id,
+      name: profile.name,
+      avatar: profile.avatar,
+      color: profile.color,
+      pin: '',
+      hasPin: !!profile.pinHash,
+      removePin: false,
+    });
+  }, []);
+
+  const handleSelectProfile = useCallback((profile: Profile) => {
+    if (profile.id === activeId) return;
+    if (profile.pinHash) {
+      setPinIntent('switch');
+      setPinProfile(profile);
       return;
     }
+    openAlert(
+      'Switch Profile',
+      `Switch to ${profile.name}? The app will restart with this profile's library, progress and accounts.`,
+      [
+        { label: 'Cancel', onPress: () => { } },
+        { label: 'Switch', onPress: () => switchTo(profile) }
+      ]
+    );
+  }, [activeId, switchTo]);
 
-    loadProfiles();
-  }, [isAuthenticated, loadProfiles, navigation]);
-
-  const handleAddProfile = useCallback(() => {
-    if (!newProfileName.trim()) {
-      openAlert('Error', 'Please enter a profile name');
+  // Editing a locked profile asks for its PIN first
+  const handleEditProfile = useCallback((profile: Profile) => {
+    if (profile.pinHash) {
+      setPinIntent('edit');
+      setPinProfile(profile);
       return;
     }
+    openEditor(profile);
+  }, [openEditor]);
 
-    const newProfile: Profile = {
-      id: new Date().getTime().toString(),
-      name: newProfileName.trim(),
-      isActive: false,
-      createdAt: new Date().getTime()
-    };
-
-    const updatedProfiles = [...profiles, newProfile];
-    setProfiles(updatedProfiles);
-    saveProfiles(updatedProfiles);
-    setNewProfileName('');
-    setShowAddModal(false);
-  }, [newProfileName, profiles, saveProfiles]);
-
-  const handleSelectProfile = useCallback((id: string) => {
-    const updatedProfiles = profiles.map(profile => ({
-      ...profile,
-      isActive: profile.id === id
-    }));
-
-    setProfiles(updatedProfiles);
-    saveProfiles(updatedProfiles);
-  }, [profiles, saveProfiles]);
-
-  const handleDeleteProfile = useCallback((id: string) => {
-    // Prevent deleting the active profile
-    const isActiveProfile = profiles.find(p => p.id === id)?.isActive;
-    if (isActiveProfile) {
-      openAlert('Error', 'Cannot delete the active profile. Switch to another profile first.');
+  const handlePinVerified = useCallback((profile: Profile) => {
+    setPinProfile(null);
+    if (pinIntent === 'edit') {
+      openEditor(profile);
+    } else {
+      switchTo(profile);
+    }
+  }, [pinIntent, openEditor, switchTo]);
+
+  const handleSaveProfile = useCallback(async () => {
+    if (!form) return;
+    if (form.pin && !/^\d{4}$/.test(form.pin)) {
+      openAlert('Error', 'PIN must be 4 digits');
       return;
     }
+    try {
+      if (form.id) {
+        await profileService.updateProfile(form.id, { name: form.name, avatar: form.avatar, color: form.color });
+        if (form.pin) {
+          await profileService.setPin(form.id, form.pin);
+        } else if (form.removePin) {
+          await profileService.setPin(form.id, null);
+        }
+      } else {
+        await profileService.createProfile({
+          name: form.name,
+          avatar: form.avatar,
+          color: form.color,
+          pin: form.pin || undefined,
+        });
+      }
+      setForm(null);
+      loadProfiles();
+    } catch (error: any) {
+      openAlert('Error', error?.message || 'Failed to save profile');
+    }
+  }, [form, loadProfiles]);
 
-    // Prevent deleting the last profile
-    if (profiles.length <= 1) {
-      openAlert('Error', 'Cannot delete the only profile');
+  const handleDeleteProfile = useCallback((profile: Profile) => {
+    if (profile.id === activeId) {
+      openAlert('Error', 'Cannot delete the active profile. Switch to another profile first.');
       return;
     }
 
     openAlert(
       'Delete Profile',
-      'Are you sure you want to delete this profile? This action cannot be undone.',
+      `Delete ${profile.name}? Its library, watch progress, settings and account connections are removed from this device.`,
       [
         { label: 'Cancel', onPress: () => { } },
         {
           label: 'Delete',
-          onPress: () => {
-            const updatedProfiles = profiles.filter(profile => profile.id !== id);
-            setProfiles(updatedProfiles);
-            saveProfiles(updatedProfiles);
+          onPress: async () => {
+            try {
+              await profileService.deleteProfile(profile.id);
+              setForm(null);
+              loadProfiles();
+            } catch (error: any) {
+              openAlert('Error', error?.message || 'Failed to delete profile');
+            }
           }
         }
       ]
     );
-  }, [profiles, saveProfiles]);
+  }, [activeId, loadProfiles]);
 
   const handleBack = () => {
     navigation.goBack();
   };
 
-  const renderItem = ({ item }: { item: Profile }) => (
-    <View style={styles.profileItem}>
-      <TouchableOpacity
-        style={[
-          styles.profileContent,
-          item.isActive && {
-            backgroundColor: `${currentTheme.colors.primary}30`,
-            borderColor: currentTheme.colors.primary
-          }
-        ]}
-        onPress={() => handleSelectProfile(item.id)}
-      >
-        <View style={styles.avatarContainer}>
-          <MaterialIcons
-            name="account-circle"
-            size={40}
-            color={item.isActive ? currentTheme.colors.primary : currentTheme.colors.text}
-          />
-        </View>
-        <View style={styles.profileInfo}>
-          <Text style={[styles.profileName, { color: currentTheme.colors.text }]}>
-            {item.name}
-          </Text>
-          {item.isActive && (
-            <Text style={[styles.activeLabel, { color: currentTheme.colors.primary }]}>
-              Active
-            </Text>
-          )}
-        </View>
-        {!item.isActive && (
+  const renderItem = ({ item }: { item: Profile }) => {
+    const isActive = item.id === activeId;
+    return (
+      <View style={styles.profileItem}>
+        <TouchableOpacity
+          style={[
+            styles.profileContent,
+            isActive && {
+              backgroundColor: `${currentTheme.colors.primary}30`,
+              borderColor: currentTheme.colors.primary
+            }
+          ]}
+          onPress={() => handleSelectProfile(item)}
+        >
+          <View style={styles.avatarContainer}>
+            <ProfileAvatar profile={item} size={44} />
+          </View>
+          <View style={styles.profileInfo}>
+            <View style={styles.nameRow}>
+              <Text style={[styles.profileName, { color: currentTheme.colors.text }]}>
+                {item.name}
+              </Text>
+              {item.pinHash && (
+                <MaterialIcons name="lock" size={14} color={currentTheme.colors.textMuted} style={styles.lockIcon} />
+              )}
+            </View>
+            {isActive && (
+              <Text style={[styles.activeLabel, { color: currentTheme.colors.primary }]}>
+                Active
+              </Text>
+            )}
+          </View>
           <TouchableOpacity
-            style={styles.deleteButton}
-            onPress={() => handleDeleteProfile(item.id)}
+            style={styles.editButton}
+            onPress={() => handleEditProfile(item)}
           >
-            <MaterialIcons name="delete" size={24} color={currentTheme.colors.error} />
+            <MaterialIcons name="edit" size={22} color={currentTheme.colors.textMuted} />
           </TouchableOpacity>
-        )}
-      </TouchableOpacity>
-    </View>
-  );
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  const editingProfile = form?.id ? profiles.find(p => p.id === form.id) : undefined;
 
   return (
     <SafeAreaView style={[styles.container, { backgroundColor: currentTheme.colors.darkBackground }]}>
@@ -255,9 +278,14 @@ const ProfilesScreen: React.FC = () => {
           keyExtractor={(item) => item.id}
           contentContainerStyle={styles.listContent}
           ListHeaderComponent={
-            <Text style={[styles.sectionTitle, { color: currentTheme.colors.textMuted }]}>
-              MANAGE PROFILES
-            </Text>
+            <>
+              <Text style={[styles.sectionTitle, { color: currentTheme.colors.textMuted }]}>
+                MANAGE PROFILES
+              </Text>
+              <Text style={[styles.sectionHint, { color: currentTheme.colors.textMuted }]}>
+                Each profile has its own library, watch progress, settings, addons and Trakt/Simkl connections.
+              </Text>
+            </>
           }
           ListFooterComponent={
             <TouchableOpacity
@@ -265,7 +293,7 @@ const ProfilesScreen: React.FC = () => {
                 styles.addButton,
                 { backgroundColor: currentTheme.colors.elevation2 }
               ]}
-              onPress={() => setShowAddModal(true)}
+              onPress={() => setForm(emptyForm())}
             >
               <MaterialIcons name="add" size={24} color={currentTheme.colors.primary} />
               <Text style={[styles.addButtonText, { color: currentTheme.colors.text }]}>
@@ -276,61 +304,141 @@ const ProfilesScreen: React.FC = () => {
         />
       </View>
 
-      {/* Modal for adding a new profile */}
+      {/* Modal for creating or editing a profile */}
       <Modal
-        visible={showAddModal}
+        visible={!!form}
         transparent
         animationType="fade"
         supportedOrientations={['portrait', 'landscape']}
-        onRequestClose={() => setShowAddModal(false)}
+        onRequestClose={() => setForm(null)}
       >
         <View style={styles.modalOverlay}>
-          <View style={[styles.modalContent, { backgroundColor: currentTheme.colors.elevation2 }]}>
-            <Text style={[styles.modalTitle, { color: currentTheme.colors.text }]}>
-              Create New Profile
-            </Text>
+          {form && (
+            <ScrollView
+              style={[styles.modalContent, { backgroundColor: currentTheme.colors.elevation2 }]}
+              contentContainerStyle={styles.modalScroll}
+              keyboardShouldPersistTaps="handled"
+            >
+              <Text style={[styles.modalTitle, { color: currentTheme.colors.text }]}>
+                {form.id ? 'Edit Profile' : 'Create New Profile'}
+              </Text>
 
-            <TextInput
-              style={[
-                styles.input,
-                {
-                  backgroundColor: `${currentTheme.colors.textMuted}20`,
-                  color: currentTheme.colors.text,
-                  borderColor: currentTheme.colors.border
-                }
-              ]}
-              placeholder="Profile Name"
-              placeholderTextColor={currentTheme.colors.textMuted}
-              value={newProfileName}
-              onChangeText={setNewProfileName}
-              autoFocus
-            />
-
-            <View style={styles.modalButtons}>
-              <TouchableOpacity
-                style={[styles.modalButton, styles.cancelButton]}
-                onPress={() => {
-                  setNewProfileName('');
-                  setShowAddModal(false);
-                }}
-              >
-                <Text style={{ color: currentTheme.colors.textMuted }}>Cancel</Text>
-              </TouchableOpacity>
-              <TouchableOpacity
+              <View style={styles.previewRow}>
+                <ProfileAvatar profile={form} size={64} />
+              </View>
+
+              <TextInput
                 style={[
-                  styles.modalButton,
-                  styles.createButton,
-                  { backgroundColor: currentTheme.colors.primary }
+                  styles.input,
+                  {
+                    backgroundColor: `${currentTheme.colors.textMuted}20`,
+                    color: currentTheme.colors.text,
+                    borderColor: currentTheme.colors.border
+                  }
                 ]}
-                onPress={handleAddProfile}
-              >
-                <Text style={{ color: '#fff' }}>Create</Text>
-              </TouchableOpacity>
-            </View>
-          </View>
+                placeholder="Profile Name"
+                placeholderTextColor={currentTheme.colors.textMuted}
+                value={form.name}
+                onChangeText={name => setForm({ ...form, name })}
+                autoFocus={!form.id}
+              />
+
+              <Text style={[styles.fieldLabel, { color: currentTheme.colors.textMuted }]}>AVATAR</Text>
+              <View style={styles.choiceRow}>
+                {PROFILE_AVATARS.map(avatar => (
+                  <TouchableOpacity
+                    key={avatar}
+                    style={[
+                      styles.avatarChoice,
+                      form.avatar === avatar && { borderColor: currentTheme.colors.primary }
+                    ]}
+                    onPress={() => setForm({ ...form, avatar })}
+                  >
+                    <Text style={styles.avatarChoiceText}>{avatar}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              <Text style={[styles.fieldLabel, { color: currentTheme.colors.textMuted }]}>COLOR</Text>
+              <View style={styles.choiceRow}>
+                {PROFILE_COLORS.map(color => (
+                  <TouchableOpacity
+                    key={color}
+                    style={[
+                      styles.colorChoice,
+                      { backgroundColor: color },
+                      form.color === color && { borderColor: currentTheme.colors.white }
+                    ]}
+                    onPress={() => setForm({ ...form, color })}
+                  />
+                ))}
+              </View>
+
+              <Text style={[styles.fieldLabel, { color: currentTheme.colors.textMuted }]}>
+                {form.hasPin && !form.removePin ? 'CHANGE PIN' : 'PIN LOCK (OPTIONAL)'}
+              </Text>
+              <TextInput
+                style={[
+                  styles.input,
+                  {
+                    backgroundColor: `${currentTheme.colors.textMuted}20`,
+                    color: currentTheme.colors.text,
+                    borderColor: currentTheme.colors.border
+                  }
+                ]}
+                placeholder="4-digit PIN"
+                placeholderTextColor={currentTheme.colors.textMuted}
+                value={form.pin}
+                onChangeText={pin => setForm({ ...form, pin: pin.replace(/\D/g, '').slice(0, 4), removePin: false })}
+                keyboardType="number-pad"
+                secureTextEntry
+                maxLength={4}
+              />
+              {form.hasPin && (
+                <TouchableOpacity
+                  style={styles.linkButton}
+                  onPress={() => setForm({ ...form, pin: '', removePin: !form.removePin })}
+                >
+                  <Text style={{ color: form.removePin ? currentTheme.colors.error : currentTheme.colors.textMuted }}>
+                    {form.removePin ? 'PIN will be removed' : 'Remove PIN'}
+                  </Text>
+                </TouchableOpacity>
+              )}
+
+              <View style={styles.modalButtons}>
+                <TouchableOpacity
+                  style={[styles.modalButton, styles.cancelButton]}
+                  onPress={() => setForm(null)}
+                >
+                  <Text style={{ color: currentTheme.colors.textMuted }}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[
+                    styles.modalButton,
+                    styles.createButton,
+                    { backgroundColor: currentTheme.colors.primary }
+                  ]}
+                  onPress={handleSaveProfile}
+                >
+                  <Text style={{ color: '#fff' }}>{form.id ? 'Save' : 'Create'}</Text>
+                </TouchableOpacity>
+              </View>
+
+              {editingProfile && editingProfile.id !== activeId && (
+                <TouchableOpacity
+                  style={[styles.linkButton, styles.deleteLink]}
+                  onPress={() => handleDeleteProfile(editingProfile)}
+                >
+                  <Text style={{ color: currentTheme.colors.error }}>Delete Profile</Text>
+                </TouchableOpacity>
+              )}
+            </ScrollView>
+          )}
         </View>
       </Modal>
 
+      <PinPrompt profile={pinProfile} onCancel={() => setPinProfile(null)} onVerified={handlePinVerified} />
+
       <CustomAlert
         visible={alertVisible}
         title={alertTitle}
@@ -370,9 +478,14 @@ const styles = StyleSheet.create({
     fontSize: 13,
     fontWeight: '600',
     marginTop: 24,
-    marginBottom: 12,
+    marginBottom: 6,
     letterSpacing: 0.5,
   },
+  sectionHint: {
+    fontSize: 13,
+    lineHeight: 18,
+    marginBottom: 16,
+  },
   listContent: {
     paddingBottom: 24,
   },
@@ -393,16 +506,23 @@ const styles = StyleSheet.create({
   profileInfo: {
     flex: 1,
   },
+  nameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
   profileName: {
     fontSize: 16,
     fontWeight: '500',
   },
+  lockIcon: {
+    marginLeft: 6,
+  },
   activeLabel: {
     fontSize: 12,
     marginTop: 4,
     fontWeight: '500',
   },
-  deleteButton: {
+  editButton: {
     padding: 8,
   },
   addButton: {
@@ -427,9 +547,61 @@ const styles = StyleSheet.create({
   },
   modalContent: {
     width: '100%',
+    maxWidth: 480,
+    flexGrow: 0,
     borderRadius: 16,
+  },
+  modalScroll: {
     padding: 24,
   },
+  previewRow: {
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  fieldLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    letterSpacing: 0.5,
+    marginBottom: 10,
+  },
+  choiceRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 20,
+  },
+  avatarChoice: {
+    width: 44,
+    height: 44,
+    borderRadius: 10,
+    borderWidth: 2,
+    borderColor: 'transparent',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  avatarChoiceText: {
+    fontSize: 24,
+  },
+  colorChoice: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    borderWidth: 2,
+    borderColor: 'transparent',
+    marginRight: 10,
+    marginBottom: 8,
+  },
+  linkButton: {
+    alignItems: 'center',
+    paddingVertical: 10,
+    marginTop: -12,
+    marginBottom: 12,
+  },
+  deleteLink: {
+    marginTop: 16,
+    marginBottom: 0,
+  },
   modalTitle: {
     fontSize: 18,
     fontWeight: '600',
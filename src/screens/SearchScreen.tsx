@@ -49,6 +49,7 @@ import { searchStyles as styles } from '../components/search/searchStyles';
 import { SearchAnimation } from '../components/search/SearchAnimation';
 import { AddonSection } from '../components/search/AddonSection';
 import { DiscoverSection } from '../components/search/DiscoverSection';
+import { useParentalFilter } from '../hooks/useParentalFilter';
 import { DiscoverBottomSheets } from '../components/search/DiscoverBottomSheets';
 
 const { width } = Dimensions.get('window');
@@ -89,6 +90,7 @@ const SearchScreen = () => {
   const [hasMore, setHasMore] = useState(true);
   const [loadingMore, setLoadingMore] = useState(false);
   const [discoverResults, setDiscoverResults] = useState<StreamingContent[]>([]);
+  const visibleDiscoverResults = useParentalFilter(discoverResults);
   const [pendingDiscoverResults, setPendingDiscoverResults] = useState<StreamingContent[]>([]);
   const [discoverLoading, setDiscoverLoading] = useState(false);
   const [discoverInitialized, setDiscoverInitialized] = useState(false);
@@ -790,7 +792,7 @@ const SearchScreen = () => {
               <DiscoverSection
                 discoverLoading={discoverLoading}
                 discoverInitialized={discoverInitialized}
-                discoverResults={discoverResults}
+                discoverResults={visibleDiscoverResults}
                 pendingDiscoverResults={pendingDiscoverResults}
                 loadingMore={loadingMore}
                 selectedCatalog={selectedCatalog}
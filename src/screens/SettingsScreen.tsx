@@ -27,6 +27,8 @@ import { RootStackParamList } from '../navigation/AppNavigator';
 import { stremioService } from '../services/stremioService';
 import { useCatalogContext } from '../contexts/CatalogContext';
 import { useTraktContext } from '../contexts/TraktContext';
+import { useAccount } from '../contexts/AccountContext';
+import { profileService, Profile } from '../services/profileService';
 import { useTheme } from '../contexts/ThemeContext';
 import { fetchTotalDownloads } from '../services/githubReleaseService';
 import * as WebBrowser from 'expo-web-browser';
@@ -206,6 +208,7 @@ const SettingsScreen: React.FC = () => {
   const { lastUpdate } = useCatalogContext();
   const { isAuthenticated, userProfile, refreshAuthStatus } = useTraktContext();
   const { isAuthenticated: isSimklAuthenticated } = useSimklIntegration();
+  const { user: syncUser } = useAccount();
   const { currentTheme } = useTheme();
 
   // Tablet-specific state
@@ -216,6 +219,7 @@ const SettingsScreen: React.FC = () => {
   const [developerModeEnabled, setDeveloperModeEnabled] = useState<boolean>(false);
   const [totalDownloads, setTotalDownloads] = useState<number>(0);
   const [displayDownloads, setDisplayDownloads] = useState<number | null>(null);
+  const [activeProfile, setActiveProfile] = useState<Profile | null>(null);
 
   // Use Realtime Config Hook
   const settingsConfig = useRealtimeConfig();
@@ -262,6 +266,8 @@ const SettingsScreen: React.FC = () => {
       const devModeEnabled = await mmkvStorage.getItem('developer_mode_enabled');
       setDeveloperModeEnabled(devModeEnabled === 'true');
 
+      setActiveProfile(await profileService.getActiveProfile());
+
       // Load GitHub total downloads
       const downloads = await fetchTotalDownloads();
       if (downloads !== null) {
@@ -376,6 +382,37 @@ const SettingsScreen: React.FC = () => {
       case 'account':
         return (
           <SettingsCard title={t('settings.sections.account')} isTablet={isTablet}>
+            {isItemVisible('profiles') && (
+              <SettingItem
+                title={t('settings.items.profiles')}
+                description={activeProfile ? `${activeProfile.avatar}  ${activeProfile.name}` : t('settings.items.profiles_desc')}
+                icon="users"
+                renderControl={() => <ChevronRight />}
+                onPress={() => navigation.navigate('Profiles')}
+                isTablet={isTablet}
+              />
+            )}
+            {isItemVisible('parental_controls') && (
+              <SettingItem
+                title={t('settings.items.parental_controls')}
+                description={t('settings.items.parental_controls_desc')}
+                icon="shield"
+                renderControl={() => <ChevronRight />}
+                onPress={() => navigation.navigate('ParentalControls')}
+                isTablet={isTablet}
+              />
+            )}
+            {isItemVisible('sync_account') && (
+              <SettingItem
+                title={t('settings.items.sync_account')}
+                description={syncUser ? (syncUser.email || syncUser.id) : t('settings.items.sync_account_desc')}
+                icon="cloud"
+                renderControl={() => <ChevronRight />}
+                onPress={() => navigation.navigate(syncUser ? 'AccountManage' : 'Account')}
+                isLast={!isItemVisible('trakt') && !isItemVisible('simkl')}
+                isTablet={isTablet}
+              />
+            )}
             {isItemVisible('trakt') && (
                     <SettingItem
                       title={t('trakt.title')}
@@ -528,6 +565,14 @@ const SettingsScreen: React.FC = () => {
               icon="archive"
               renderControl={() => <ChevronRight />}
               onPress={() => navigation.navigate('Backup')}
+              isTablet={isTablet}
+            />
+            <SettingItem
+              title={t('settings.import_library')}
+              description={t('settings.import_library_desc')}
+              icon="download"
+              renderControl={() => <ChevronRight />}
+              onPress={() => navigation.navigate('LibraryImport')}
               isLast={true}
               isTablet={isTablet}
             />
@@ -682,8 +727,36 @@ const SettingsScreen: React.FC = () => {
             contentContainerStyle={styles.scrollContent}
           >
             {/* Account */}
-            {(settingsConfig?.categories?.['account']?.visible !== false) && (isItemVisible('trakt') || isItemVisible('simkl')) && (
+            {(settingsConfig?.categories?.['account']?.visible !== false) && (isItemVisible('profiles') || isItemVisible('sync_account') || isItemVisible('trakt') || isItemVisible('simkl')) && (
               <SettingsCard title={t('settings.account').toUpperCase()}>
+                {isItemVisible('profiles') && (
+                  <SettingItem
+                    title={t('settings.items.profiles')}
+                    description={activeProfile ? `${activeProfile.avatar}  ${activeProfile.name}` : t('settings.items.profiles_desc')}
+                    icon="users"
+                    renderControl={() => <ChevronRight />}
+                    onPress={() => navigation.navigate('Profiles')}
+                  />
+                )}
+                {isItemVisible('parental_controls') && (
+                  <SettingItem
+                    title={t('settings.items.parental_controls')}
+                    description={t('settings.items.parental_controls_desc')}
+                    icon="shield"
+                    renderControl={() => <ChevronRight />}
+                    onPress={() => navigation.navigate('ParentalControls')}
+                  />
+                )}
+                {isItemVisible('sync_account') && (
+                  <SettingItem
+                    title={t('settings.items.sync_account')}
+                    description={syncUser ? (syncUser.email || syncUser.id) : t('settings.items.sync_account_desc')}
+                    icon="cloud"
+                    renderControl={() => <ChevronRight />}
+                    onPress={() => navigation.navigate(syncUser ? 'AccountManage' : 'Account')}
+                    isLast={!isItemVisible('trakt') && !isItemVisible('simkl')}
+                  />
+                )}
                 {isItemVisible('trakt') && (
                   <SettingItem
                     title={t('trakt.title')}
@@ -778,6 +851,15 @@ const SettingsScreen: React.FC = () => {
                       onPress={() => navigation.navigate('Backup')}
                     />
                   )}
+                  {(settingsConfig?.categories?.['backup']?.visible !== false) && (
+                    <SettingItem
+                      title={t('settings.import_library')}
+                      description={t('settings.import_library_desc')}
+                      icon="download"
+                      renderControl={() => <ChevronRight />}
+                      onPress={() => navigation.navigate('LibraryImport')}
+                    />
+                  )}
                   {(settingsConfig?.categories?.['updates']?.visible !== false) && (
                     <SettingItem
                       title={t('settings.app_updates')}
@@ -14,6 +14,7 @@ import {
 import { Ionicons } from '@expo/vector-icons';
 import { useTheme } from '../../contexts/ThemeContext';
 import { pluginService } from '../../services/pluginService';
+import { normalizeScraperPermissions } from '../../services/pluginSandbox';
 import axios from 'axios';
 import { getPluginTesterStyles, useIsLargeScreen } from './styles';
 import { RepoManifest, RepoScraper, RepoTestResult, RepoTestStatus } from './types';
@@ -281,6 +282,8 @@ export const RepoTester = () => {
 
             const MAX_LOG_LINES = 400;
             const result = await pluginService.testPlugin(scraperCode, params, {
+                // Same permissions the app would enforce once the repository is installed
+                permissions: normalizeScraperPermissions(scraper.permissions ?? repoManifest?.permissions) || {},
                 onLog: (line) => {
                     setRepoResults(prev => {
                         const current = prev[scraper.id] || { status: 'running' as const };
@@ -62,6 +62,15 @@ const SUBTITLE_SOURCE_OPTIONS = [
     { value: 'any', label: 'Any Available', description: 'Use first available subtitle track' },
 ];
 
+// Tapping a binge option cycles through these values
+const BINGE_TRIGGER_OPTIONS = [15, 30, 45, 60, 90, 120];
+const BINGE_STILL_WATCHING_OPTIONS = [2, 3, 4, 5, 0]; // 0 = never ask
+
+const nextOption = (options: number[], current: number): number => {
+    const index = options.indexOf(current);
+    return options[(index + 1) % options.length];
+};
+
 // Props for the reusable content component
 interface PlaybackSettingsContentProps {
     isTablet?: boolean;
@@ -81,6 +90,7 @@ export const PlaybackSettingsContent: React.FC<PlaybackSettingsContentProps> = (
     const [introDbLogoXml, setIntroDbLogoXml] = useState<string | null>(null);
     const [apiKeyInput, setApiKeyInput] = useState(settings?.introDbApiKey || '');
     const [isVerifyingKey, setIsVerifyingKey] = useState(false);
+    const [relayUrlInput, setRelayUrlInput] = useState(settings?.watchPartyRelayUrl || '');
 
     const isMounted = useRef(true);
 
@@ -95,6 +105,25 @@ export const PlaybackSettingsContent: React.FC<PlaybackSettingsContentProps> = (
         setApiKeyInput(settings?.introDbApiKey || '');
     }, [settings?.introDbApiKey]);
 
+    useEffect(() => {
+        setRelayUrlInput(settings?.watchPartyRelayUrl || '');
+    }, [settings?.watchPartyRelayUrl]);
+
+    const handleRelayUrlSubmit = () => {
+        const url = relayUrlInput.trim();
+        if (!url) {
+            updateSetting('watchPartyRelayUrl', '');
+            toastService.success(t('settings.items.watch_party_relay_cleared'));
+            return;
+        }
+        if (!/^wss?:\/\/\S+$/i.test(url)) {
+            toastService.error(t('settings.items.watch_party_relay_invalid'));
+            return;
+        }
+        updateSetting('watchPartyRelayUrl', url);
+        toastService.success(t('settings.items.watch_party_relay_saved'));
+    };
+
     const handleApiKeySubmit = async () => {
         if (!apiKeyInput.trim()) {
             updateSetting('introDbApiKey', '');
@@ -258,11 +287,86 @@ export const PlaybackSettingsContent: React.FC<PlaybackSettingsContentProps> = (
                             onValueChange={(value) => updateSetting('skipIntroEnabled', value)}
                         />
                     )}
+                    isTablet={isTablet}
+                />
+                <SettingItem
+                    title={t('settings.items.binge_mode')}
+                    description={t('settings.items.binge_mode_desc')}
+                    icon="fast-forward"
+                    renderControl={() => (
+                        <CustomSwitch
+                            value={settings?.bingeModeEnabled ?? false}
+                            onValueChange={(value) => updateSetting('bingeModeEnabled', value)}
+                        />
+                    )}
+                    isLast={!settings?.bingeModeEnabled}
+                    isTablet={isTablet}
+                />
+                {settings?.bingeModeEnabled && (
+                    <>
+                        <SettingItem
+                            title={t('settings.items.binge_trigger')}
+                            description={t('settings.items.binge_trigger_desc', { count: settings.bingeTriggerSecondsBeforeEnd })}
+                            icon="clock"
+                            renderControl={() => <ChevronRight />}
+                            onPress={() => updateSetting('bingeTriggerSecondsBeforeEnd', nextOption(BINGE_TRIGGER_OPTIONS, settings.bingeTriggerSecondsBeforeEnd))}
+                            isTablet={isTablet}
+                        />
+                        <SettingItem
+                            title={t('settings.items.binge_still_watching')}
+                            description={settings.bingeStillWatchingAfter > 0
+                                ? t('settings.items.binge_still_watching_desc', { count: settings.bingeStillWatchingAfter })
+                                : t('settings.items.binge_still_watching_never')}
+                            icon="user-check"
+                            renderControl={() => <ChevronRight />}
+                            onPress={() => updateSetting('bingeStillWatchingAfter', nextOption(BINGE_STILL_WATCHING_OPTIONS, settings.bingeStillWatchingAfter))}
+                            isLast
+                            isTablet={isTablet}
+                        />
+                    </>
+                )}
+            </SettingsCard>
+
+            <SettingsCard title={t('settings.sections.streams', { defaultValue: 'Streams' })} isTablet={isTablet}>
+                <SettingItem
+                    title={t('settings.items.stream_ranking')}
+                    description={settings?.streamRankingEnabled
+                        ? t('settings.items.stream_ranking_on', { count: (settings?.streamRankingRules || []).filter(rule => rule.enabled).length })
+                        : t('settings.items.stream_ranking_off')}
+                    icon="bar-chart-2"
+                    renderControl={() => <ChevronRight />}
+                    onPress={() => navigation.navigate('StreamRankingSettings')}
                     isLast
                     isTablet={isTablet}
                 />
             </SettingsCard>
 
+            <SettingsCard title={t('settings.sections.watch_party')} isTablet={isTablet}>
+                <View style={styles.inputContainer}>
+                    <Text style={styles.inputLabel}>
+                        {t('settings.items.watch_party_relay')}
+                    </Text>
+                    <View style={styles.apiKeyRow}>
+                        <TextInput
+                            style={[styles.input, { flex: 1, marginRight: 10, color: currentTheme.colors.highEmphasis }]}
+                            value={relayUrlInput}
+                            onChangeText={setRelayUrlInput}
+                            placeholder="wss://party.example.com"
+                            placeholderTextColor={currentTheme.colors.mediumEmphasis}
+                            autoCapitalize="none"
+                            autoCorrect={false}
+                            keyboardType="url"
+                        />
+                        <TouchableOpacity style={styles.confirmButton} onPress={handleRelayUrlSubmit}>
+                            <MaterialIcons name="check" size={24} color="black" />
+                        </TouchableOpacity>
+                    </View>
+                    <Text style={[styles.inputHint, { color: currentTheme.colors.mediumEmphasis }]}>
+                        {t('settings.items.watch_party_relay_desc')}
+                    </Text>
+                </View>
+            </SettingsCard>
+
             {/* IntroDB Contribution Section */}
             <SettingsCard title={t('settings.sections.introdb_contribution', { defaultValue: 'IntroDB Contribution' })} isTablet={isTablet}>
                 <SettingItem
@@ -347,6 +451,30 @@ export const PlaybackSettingsContent: React.FC<PlaybackSettingsContentProps> = (
                             onValueChange={(value) => updateSetting('enableSubtitleAutoSelect', value)}
                         />
                     )}
+                    isTablet={isTablet}
+                />
+                <SettingItem
+                    title={t('settings.items.prefer_hi_subs')}
+                    description={t('settings.items.prefer_hi_subs_desc')}
+                    icon="headphones"
+                    renderControl={() => (
+                        <CustomSwitch
+                            value={settings?.preferHearingImpairedSubtitles ?? false}
+                            onValueChange={(value) => updateSetting('preferHearingImpairedSubtitles', value)}
+                        />
+                    )}
+                    isTablet={isTablet}
+                />
+                <SettingItem
+                    title={t('settings.items.wyzie_subs')}
+                    description={t('settings.items.wyzie_subs_desc')}
+                    icon="globe"
+                    renderControl={() => (
+                        <CustomSwitch
+                            value={settings?.enableWyzieSubtitles ?? true}
+                            onValueChange={(value) => updateSetting('enableWyzieSubtitles', value)}
+                        />
+                    )}
                     isLast
                     isTablet={isTablet}
                 />
@@ -653,6 +781,11 @@ const styles = StyleSheet.create({
         flexDirection: 'row',
         alignItems: 'center',
     },
+    inputHint: {
+        fontSize: 12,
+        marginTop: 8,
+        marginLeft: 4,
+    },
     confirmButton: {
         backgroundColor: 'white',
         borderRadius: 12,
@@ -0,0 +1,406 @@
+import React, { useCallback, useMemo, useRef, useState } from 'react';
+import { View, StyleSheet, ScrollView, StatusBar, Text, TouchableOpacity, Dimensions, TextInput } from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { NavigationProp } from '@react-navigation/native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Feather } from '@expo/vector-icons';
+import { BottomSheetModal, BottomSheetScrollView, BottomSheetBackdrop } from '@gorhom/bottom-sheet';
+import { useTranslation } from 'react-i18next';
+import { useTheme } from '../../contexts/ThemeContext';
+import { useSettings } from '../../hooks/useSettings';
+import { RootStackParamList } from '../../navigation/AppNavigator';
+import ScreenHeader from '../../components/common/ScreenHeader';
+import { SettingsCard, SettingItem, CustomSwitch } from './SettingsComponents';
+import { DEFAULT_STREAM_RANKING_RULES, StreamRankingRule } from '../../utils/streamRanking';
+
+const { width } = Dimensions.get('window');
+
+const WEIGHT_STEP = 5;
+const MAX_WEIGHT = 100;
+
+type RuleTemplate = Omit<StreamRankingRule, 'id' | 'enabled'>;
+
+const RULE_TEMPLATES: RuleTemplate[] = [
+    { field: 'cached', operator: 'is', value: true, weight: 50 },
+    { field: 'cached', operator: 'is', value: false, weight: -20 },
+    { field: 'resolution', operator: 'atLeast', value: 2160, weight: 20 },
+    { field: 'resolution', operator: 'atLeast', value: 1080, weight: 20 },
+    { field: 'resolution', operator: 'atMost', value: 720, weight: -10 },
+    { field: 'videoCodec', operator: 'is', value: 'hevc', weight: 5 },
+    { field: 'videoCodec', operator: 'is', value: 'av1', weight: 5 },
+    { field: 'videoCodec', operator: 'is', value: 'h264', weight: 5 },
+    { field: 'hdr', operator: 'is', value: 'dv', weight: 5 },
+    { field: 'hdr', operator: 'is', value: 'hdr10+', weight: 5 },
+    { field: 'hdr', operator: 'is', value: 'hdr10', weight: 5 },
+    { field: 'hdr', operator: 'is', value: 'sdr', weight: 5 },
+    { field: 'audio', operator: 'is', value: 'atmos', weight: 5 },
+    { field: 'audio', operator: 'is', value: 'truehd', weight: 5 },
+    { field: 'audio', operator: 'is', value: 'dts-hd', weight: 5 },
+    { field: 'audio', operator: 'is', value: 'dts', weight: 5 },
+    { field: 'audio', operator: 'is', value: '7.1', weight: 5 },
+    { field: 'audio', operator: 'is', value: '5.1', weight: 5 },
+    { field: 'seeders', operator: 'atLeast', value: 10, weight: 5 },
+    { field: 'seeders', operator: 'atLeast', value: 100, weight: 5 },
+    { field: 'size', operator: 'atMost', value: 5, weight: 10 },
+    { field: 'size', operator: 'atLeast', value: 40, weight: -10 },
+];
+
+const VALUE_LABELS: Record<string, string> = {
+    hevc: 'HEVC',
+    av1: 'AV1',
+    h264: 'H.264',
+    vp9: 'VP9',
+    dv: 'Dolby Vision',
+    'hdr10+': 'HDR10+',
+    hdr10: 'HDR10',
+    hdr: 'HDR',
+    hlg: 'HLG',
+    sdr: 'SDR',
+    atmos: 'Atmos',
+    truehd: 'TrueHD',
+    'dts-hd': 'DTS-HD',
+    dts: 'DTS',
+    ddp: 'DD+',
+    dd: 'DD',
+    aac: 'AAC',
+};
+
+const describeRule = (rule: RuleTemplate, t: ReturnType<typeof useTranslation>['t']): string => {
+    const value = VALUE_LABELS[String(rule.value)] || String(rule.value);
+    switch (rule.field) {
+        case 'resolution':
+            if (rule.operator === 'atLeast') return t('stream_ranking.rule_resolution_at_least', { value });
+            if (rule.operator === 'atMost') return t('stream_ranking.rule_resolution_at_most', { value });
+            return t('stream_ranking.rule_resolution', { value });
+        case 'size':
+            return rule.operator === 'atMost'
+                ? t('stream_ranking.rule_size_at_most', { value })
+                : t('stream_ranking.rule_size_at_least', { value });
+        case 'seeders':
+            return rule.operator === 'atMost'
+                ? t('stream_ranking.rule_seeders_at_most', { value })
+                : t('stream_ranking.rule_seeders_at_least', { value });
+        case 'cached':
+            return rule.value === true ? t('stream_ranking.rule_cached') : t('stream_ranking.rule_not_cached');
+        case 'videoCodec':
+            return t('stream_ranking.rule_codec', { value });
+        case 'hdr':
+            return t('stream_ranking.rule_hdr', { value });
+        case 'audio':
+            return t('stream_ranking.rule_audio', { value });
+        case 'releaseGroup':
+            return t('stream_ranking.rule_release_group', { value });
+        default:
+            return value;
+    }
+};
+
+const formatWeight = (weight: number) => (weight > 0 ? `+${weight}` : String(weight));
+
+interface StreamRankingSettingsContentProps {
+    isTablet?: boolean;
+}
+
+export const StreamRankingSettingsContent: React.FC<StreamRankingSettingsContentProps> = ({ isTablet = false }) => {
+    const { currentTheme } = useTheme();
+    const { settings, updateSetting } = useSettings();
+    const { t } = useTranslation();
+
+    const [releaseGroupInput, setReleaseGroupInput] = useState('');
+    const addRuleSheetRef = useRef<BottomSheetModal>(null);
+    const addRuleSnapPoints = useMemo(() => ['70%'], []);
+
+    const rules = settings?.streamRankingRules || DEFAULT_STREAM_RANKING_RULES;
+
+    const saveRules = useCallback((nextRules: StreamRankingRule[]) => {
+        updateSetting('streamRankingRules', nextRules);
+    }, [updateSetting]);
+
+    const updateRule = (id: string, changes: Partial<StreamRankingRule>) => {
+        saveRules(rules.map(rule => (rule.id === id ? { ...rule, ...changes } : rule)));
+    };
+
+    const changeWeight = (rule: StreamRankingRule, delta: number) => {
+        const weight = Math.max(-MAX_WEIGHT, Math.min(MAX_WEIGHT, rule.weight + delta));
+        updateRule(rule.id, { weight });
+    };
+
+    const removeRule = (id: string) => {
+        saveRules(rules.filter(rule => rule.id !== id));
+    };
+
+    const addRule = (template: RuleTemplate) => {
+        saveRules([...rules, { ...template, id: `${template.field}-${Date.now()}`, enabled: true }]);
+        addRuleSheetRef.current?.dismiss();
+    };
+
+    const addReleaseGroupRule = () => {
+        const group = releaseGroupInput.trim();
+        if (!group) return;
+        addRule({ field: 'releaseGroup', operator: 'is', value: group, weight: 10 });
+        setReleaseGroupInput('');
+    };
+
+    const renderBackdrop = useCallback(
+        (props: any) => (
+            <BottomSheetBackdrop
+                {...props}
+                disappearsOnIndex={-1}
+                appearsOnIndex={0}
+                opacity={0.5}
+            />
+        ),
+        []
+    );
+
+    return (
+        <>
+            <SettingsCard title={t('stream_ranking.section_general')} isTablet={isTablet}>
+                <SettingItem
+                    title={t('stream_ranking.enable')}
+                    description={t('stream_ranking.enable_desc')}
+                    icon="bar-chart-2"
+                    descriptionNumberOfLines={3}
+                    renderControl={() => (
+                        <CustomSwitch
+                            value={settings?.streamRankingEnabled ?? false}
+                            onValueChange={(value) => updateSetting('streamRankingEnabled', value)}
+                        />
+                    )}
+                    isLast
+                    isTablet={isTablet}
+                />
+            </SettingsCard>
+
+            <SettingsCard title={t('stream_ranking.section_rules')} isTablet={isTablet}>
+                {rules.length === 0 && (
+                    <Text style={[styles.emptyText, { color: currentTheme.colors.mediumEmphasis }]}>
+                        {t('stream_ranking.no_rules')}
+                    </Text>
+                )}
+                {rules.map(rule => (
+                    <SettingItem
+                        key={rule.id}
+                        title={describeRule(rule, t)}
+                        description={rule.enabled
+                            ? t('stream_ranking.points', { value: formatWeight(rule.weight) })
+                            : t('stream_ranking.rule_disabled')}
+                        icon={rule.enabled ? 'check-square' : 'square'}
+                        onPress={() => updateRule(rule.id, { enabled: !rule.enabled })}
+                        renderControl={() => (
+                            <View style={styles.ruleControls}>
+                                <TouchableOpacity style={styles.weightButton} onPress={() => changeWeight(rule, -WEIGHT_STEP)}>
+                                    <Feather name="minus" size={16} color={currentTheme.colors.highEmphasis} />
+                                </TouchableOpacity>
+                                <Text style={[styles.weightText, { color: rule.weight < 0 ? currentTheme.colors.error : currentTheme.colors.primary }]}>
+                                    {formatWeight(rule.weight)}
+                                </Text>
+                                <TouchableOpacity style={styles.weightButton} onPress={() => changeWeight(rule, WEIGHT_STEP)}>
+                                    <Feather name="plus" size={16} color={currentTheme.colors.highEmphasis} />
+                                </TouchableOpacity>
+                                <TouchableOpacity style={styles.removeButton} onPress={() => removeRule(rule.id)}>
+                                    <Feather name="trash-2" size={16} color={currentTheme.colors.mediumEmphasis} />
+                                </TouchableOpacity>
+                            </View>
+                        )}
+                        isTablet={isTablet}
+                    />
+                ))}
+                <SettingItem
+                    title={t('stream_ranking.add_rule')}
+                    icon="plus"
+                    onPress={() => addRuleSheetRef.current?.present()}
+                    isTablet={isTablet}
+                />
+                <SettingItem
+                    title={t('stream_ranking.reset')}
+                    description={t('stream_ranking.reset_desc')}
+                    icon="rotate-ccw"
+                    onPress={() => saveRules(DEFAULT_STREAM_RANKING_RULES)}
+                    isLast
+                    isTablet={isTablet}
+                />
+            </SettingsCard>
+
+            <BottomSheetModal
+                ref={addRuleSheetRef}
+                index={0}
+                snapPoints={addRuleSnapPoints}
+                enableDynamicSizing={false}
+                enablePanDownToClose={true}
+                backdropComponent={renderBackdrop}
+                backgroundStyle={{ backgroundColor: '#1a1a1a' }}
+                handleIndicatorStyle={{ backgroundColor: 'rgba(255,255,255,0.3)' }}
+            >
+                <View style={styles.sheetHeader}>
+                    <Text style={styles.sheetTitle}>{t('stream_ranking.add_rule')}</Text>
+                </View>
+                <BottomSheetScrollView contentContainerStyle={styles.sheetContent}>
+                    <Text style={styles.inputLabel}>{t('stream_ranking.release_group_label')}</Text>
+                    <View style={styles.inputRow}>
+                        <TextInput
+                            style={[styles.input, { color: currentTheme.colors.highEmphasis }]}
+                            value={releaseGroupInput}
+                            onChangeText={setReleaseGroupInput}
+                            placeholder={t('stream_ranking.release_group_placeholder')}
+                            placeholderTextColor={currentTheme.colors.mediumEmphasis}
+                            autoCapitalize="none"
+                            autoCorrect={false}
+                            onSubmitEditing={addReleaseGroupRule}
+                        />
+                        <TouchableOpacity style={styles.confirmButton} onPress={addReleaseGroupRule}>
+                            <Feather name="plus" size={22} color="black" />
+                        </TouchableOpacity>
+                    </View>
+                    {RULE_TEMPLATES.map((template, index) => (
+                        <TouchableOpacity
+                            key={`${template.field}-${template.operator}-${String(template.value)}-${index}`}
+                            style={styles.templateItem}
+                            onPress={() => addRule(template)}
+                        >
+                            <Text style={styles.templateLabel}>{describeRule(template, t)}</Text>
+                            <Text style={[styles.templateWeight, { color: template.weight < 0 ? currentTheme.colors.error : currentTheme.colors.primary }]}>
+                                {formatWeight(template.weight)}
+                            </Text>
+                        </TouchableOpacity>
+                    ))}
+                </BottomSheetScrollView>
+            </BottomSheetModal>
+        </>
+    );
+};
+
+/**
+ * StreamRankingSettingsScreen - Wrapper for mobile navigation
+ * Uses StreamRankingSettingsContent internally
+ */
+const StreamRankingSettingsScreen: React.FC = () => {
+    const navigation = useNavigation<NavigationProp<RootStackParamList>>();
+    const { currentTheme } = useTheme();
+    const { t } = useTranslation();
+    const insets = useSafeAreaInsets();
+    const screenIsTablet = width >= 768;
+
+    return (
+        <View style={[styles.container, { backgroundColor: currentTheme.colors.darkBackground }]}>
+            <StatusBar barStyle="light-content" />
+            <ScreenHeader title={t('stream_ranking.title')} showBackButton onBackPress={() => navigation.goBack()} />
+
+            <ScrollView
+                style={styles.scrollView}
+                showsVerticalScrollIndicator={false}
+                contentContainerStyle={[styles.scrollContent, { paddingBottom: insets.bottom + 24 }]}
+            >
+                <StreamRankingSettingsContent isTablet={screenIsTablet} />
+            </ScrollView>
+        </View>
+    );
+};
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+    },
+    scrollView: {
+        flex: 1,
+    },
+    scrollContent: {
+        paddingTop: 16,
+    },
+    emptyText: {
+        fontSize: 14,
+        paddingHorizontal: 16,
+        paddingVertical: 16,
+    },
+    ruleControls: {
+        flexDirection: 'row',
+        alignItems: 'center',
+    },
+    weightButton: {
+        width: 28,
+        height: 28,
+        borderRadius: 8,
+        justifyContent: 'center',
+        alignItems: 'center',
+        backgroundColor: 'rgba(255,255,255,0.08)',
+    },
+    weightText: {
+        minWidth: 40,
+        textAlign: 'center',
+        fontSize: 14,
+        fontWeight: '600',
+    },
+    removeButton: {
+        marginLeft: 10,
+        padding: 4,
+    },
+    sheetHeader: {
+        paddingHorizontal: 20,
+        paddingTop: 12,
+        paddingBottom: 20,
+        borderBottomWidth: 1,
+        borderBottomColor: 'rgba(255,255,255,0.1)',
+        marginBottom: 8,
+    },
+    sheetTitle: {
+        color: '#fff',
+        fontSize: 18,
+        fontWeight: '700',
+    },
+    sheetContent: {
+        paddingHorizontal: 16,
+        paddingTop: 12,
+        paddingBottom: 24,
+    },
+    inputLabel: {
+        fontSize: 12,
+        color: 'rgba(255,255,255,0.5)',
+        marginBottom: 8,
+        marginLeft: 4,
+    },
+    inputRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        marginBottom: 16,
+    },
+    input: {
+        flex: 1,
+        marginRight: 10,
+        backgroundColor: 'rgba(255,255,255,0.08)',
+        borderRadius: 12,
+        paddingHorizontal: 16,
+        paddingVertical: 12,
+        fontSize: 14,
+        borderWidth: 1,
+        borderColor: 'rgba(255,255,255,0.1)',
+    },
+    confirmButton: {
+        backgroundColor: 'white',
+        borderRadius: 12,
+        width: 48,
+        height: 48,
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    templateItem: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingVertical: 14,
+        paddingHorizontal: 16,
+        borderRadius: 12,
+        marginVertical: 2,
+        backgroundColor: 'rgba(255,255,255,0.05)',
+    },
+    templateLabel: {
+        flex: 1,
+        color: '#fff',
+        fontSize: 15,
+        fontWeight: '500',
+    },
+    templateWeight: {
+        fontSize: 14,
+        fontWeight: '600',
+    },
+});
+
+export default StreamRankingSettingsScreen;
@@ -3,6 +3,7 @@ export { default as ContentDiscoverySettingsScreen } from './ContentDiscoverySet
 export { default as AppearanceSettingsScreen } from './AppearanceSettingsScreen';
 export { default as IntegrationsSettingsScreen } from './IntegrationsSettingsScreen';
 export { default as PlaybackSettingsScreen } from './PlaybackSettingsScreen';
+export { default as StreamRankingSettingsScreen } from './StreamRankingSettingsScreen';
 export { default as AboutSettingsScreen } from './AboutSettingsScreen';
 export { default as DeveloperSettingsScreen } from './DeveloperSettingsScreen';
 export { default as LegalScreen } from './LegalScreen';
@@ -13,6 +14,7 @@ export { ContentDiscoverySettingsContent } from './ContentDiscoverySettingsScree
 export { AppearanceSettingsContent } from './AppearanceSettingsScreen';
 export { IntegrationsSettingsContent } from './IntegrationsSettingsScreen';
 export { PlaybackSettingsContent } from './PlaybackSettingsScreen';
+export { StreamRankingSettingsContent } from './StreamRankingSettingsScreen';
 export { AboutSettingsContent, AboutFooter } from './AboutSettingsScreen';
 export { PrivacySettingsContent } from './PrivacySettingsScreen';
 
@@ -16,14 +16,21 @@ import { stremioService } from '../../services/stremioService';
 import { localScraperService } from '../../services/pluginService';
 import { VideoPlayerService } from '../../services/videoPlayerService';
 import { streamCacheService } from '../../services/streamCacheService';
+import { canResolveTorrents, getTorrentSource, isTorrentStream } from '../../services/torrentStreamService';
 import { tmdbService } from '../../services/tmdbService';
+import { debridService } from '../../services/debridService';
 import { logger } from '../../utils/logger';
+import { rankStreams } from '../../utils/streamRanking';
+import { getParsedStreamInfo } from '../../utils/streamParser';
 import { TABLET_BREAKPOINT } from './constants';
 import {
+  applyDebridAvailability,
   filterStreamsByQuality,
   filterStreamsByLanguage,
   getQualityNumeric,
+  getStreamInfoHash,
   inferVideoTypeFromUrl,
+  pickBestStream,
   sortStreamsByQuality,
 } from './utils';
 import {
@@ -95,6 +102,9 @@ export const useStreamsScreen = () => {
   // TMDB episode data
   const [tmdbEpisodeOverride, setTmdbEpisodeOverride] = useState<TMDBEpisodeOverride | null>(null);
   const [imdbRatingsMap, setImdbRatingsMap] = useState<IMDbRatingsMap>({});
+  // Which torrent streams the linked debrid account has cached, by info hash
+  const [debridAvailability, setDebridAvailability] = useState<Record<string, boolean>>({});
+  const checkedInfoHashesRef = useRef<Set<string>>(new Set());
 
   // Get metadata from hook
   const {
@@ -215,6 +225,30 @@ export const useStreamsScreen = () => {
     [settings.excludedLanguages]
   );
 
+  // Ask the debrid provider about torrent streams whose addon didn't say whether they're cached
+  useEffect(() => {
+    const streamsData = selectedEpisode ? episodeStreams : groupedStreams;
+    const pending = new Set<string>();
+    Object.values(streamsData || {}).forEach(({ streams }) => {
+      streams.forEach(stream => {
+        const hash = getStreamInfoHash(stream);
+        if (!hash || checkedInfoHashesRef.current.has(hash)) return;
+        if (getParsedStreamInfo(stream).cacheStatus === 'unknown') pending.add(hash);
+      });
+    });
+    if (pending.size === 0) return;
+
+    pending.forEach(hash => checkedInfoHashesRef.current.add(hash));
+    debridService
+      .checkInstantAvailability(Array.from(pending))
+      .then(result => {
+        if (Object.keys(result).length > 0) {
+          setDebridAvailability(prev => ({ ...prev, ...result }));
+        }
+      })
+      .catch(error => logger.warn('[StreamsScreen] Debrid availability check failed:', error));
+  }, [selectedEpisode, episodeStreams, groupedStreams]);
+
   // Get best stream for autoplay
   const getBestStream = useCallback(
     (streamsData: GroupedStreams): Stream | null => {
@@ -222,44 +256,23 @@ export const useStreamsScreen = () => {
         return null;
       }
 
-      const getProviderPriority = (addonId: string): number => {
-        const installedAddons = stremioService.getInstalledAddons();
-        const addonIndex = installedAddons.findIndex(addon => addon.id === addonId);
-        if (addonIndex !== -1) {
-          return 50 - addonIndex;
-        }
-        return 0;
-      };
-
-      const allStreams: Array<{ stream: Stream; quality: number; providerPriority: number; originalIndex: number }> = [];
-
-      Object.entries(streamsData).forEach(([addonId, { streams }]) => {
-        const qualityFiltered = filterByQuality(streams);
-        const filteredStreams = filterByLanguage(qualityFiltered);
-
-        filteredStreams.forEach((stream, index) => {
-          const quality = getQualityNumeric(stream.name || stream.title);
-          const providerPriority = getProviderPriority(addonId);
-          allStreams.push({ stream, quality, providerPriority, originalIndex: index });
-        });
+      const best = pickBestStream(streamsData, {
+        excludedQualities: settings.excludedQualities || [],
+        excludedLanguages: settings.excludedLanguages || [],
+        rankingRules: settings.streamRankingEnabled ? settings.streamRankingRules || [] : [],
+        addonOrder: stremioService.getInstalledAddons().map(addon => addon.id),
+        debridAvailability,
       });
 
-      if (allStreams.length === 0) return null;
-
-      // Sort primarily by provider priority, then respect the addon's internal order (originalIndex)
-      // This ensures if an addon lists 1080p before 4K, we pick 1080p
-      allStreams.sort((a, b) => {
-        if (a.providerPriority !== b.providerPriority) return b.providerPriority - a.providerPriority;
-        return a.originalIndex - b.originalIndex;
-      });
-
-      logger.log(
-        `🎯 Best stream selected: ${allStreams[0].stream.name || allStreams[0].stream.title} (Quality: ${allStreams[0].quality}p)`
-      );
+      if (best) {
+        logger.log(
+          `🎯 Best stream selected: ${best.name || best.title} (Quality: ${getQualityNumeric(best.name || best.title)}p)`
+        );
+      }
 
-      return allStreams[0].stream;
+      return best;
     },
-    [filterByQuality, filterByLanguage]
+    [settings.excludedQualities, settings.excludedLanguages, settings.streamRankingEnabled, settings.streamRankingRules, debridAvailability]
   );
 
   // Current episode
@@ -416,6 +429,7 @@ export const useStreamsScreen = () => {
 
       navigation.navigate(playerRoute as any, {
         uri: stream.url as any,
+        torrent: isTorrentStream(stream) ? getTorrentSource(stream) || undefined : undefined,
         title: metadata?.name || '',
         episodeTitle: (type === 'series' || type === 'other') ? currentEpisode?.name : undefined,
         season: (type === 'series' || type === 'other') ? currentEpisode?.season_number : undefined,
@@ -424,6 +438,7 @@ export const useStreamsScreen = () => {
         year: metadata?.year,
         streamProvider: resolvedStreamProvider,
         streamName,
+        releaseName: (stream as any).behaviorHints?.filename || stream.title || stream.name,
         headers: finalHeaders,
         id,
         type,
@@ -441,6 +456,20 @@ export const useStreamsScreen = () => {
   const handleStreamPress = useCallback(
     async (stream: Stream) => {
       try {
+        // Torrents are resolved inside the internal player (debrid or streaming server)
+        if (isTorrentStream(stream)) {
+          const canResolve = await canResolveTorrents(settings.torrentResolverMode, settings.torrentServerUrl);
+          if (!canResolve) {
+            openAlert(
+              'Torrent streaming unavailable',
+              'Link a debrid account or set a torrent streaming server in Debrid Integration to play torrent streams.'
+            );
+            return;
+          }
+          navigateToPlayer(stream);
+          return;
+        }
+
         if (!stream.url) return;
 
         if (__DEV__) {
@@ -461,12 +490,6 @@ export const useStreamsScreen = () => {
           });
         }
 
-        // Block magnet links
-        if (typeof stream.url === 'string' && stream.url.startsWith('magnet:')) {
-          openAlert('Not supported', 'Torrent streaming is not supported yet.');
-          return;
-        }
-
         // iOS external player
         if (Platform.OS === 'ios' && settings.preferredPlayer !== 'internal') {
           try {
@@ -546,7 +569,7 @@ export const useStreamsScreen = () => {
         navigateToPlayer(stream);
       }
     },
-    [settings.preferredPlayer, settings.useExternalPlayer, navigateToPlayer, openAlert, metadata, type, currentEpisode]
+    [settings.preferredPlayer, settings.useExternalPlayer, settings.torrentResolverMode, settings.torrentServerUrl, navigateToPlayer, openAlert, metadata, type, currentEpisode]
   );
 
   // Update providers when streams change
@@ -841,7 +864,12 @@ export const useStreamsScreen = () => {
 
   // Sections for stream list
   const sections = useMemo((): StreamSection[] => {
-    const streams = selectedEpisode ? episodeStreams : groupedStreams;
+    const streams = Object.fromEntries(
+      Object.entries(selectedEpisode ? episodeStreams : groupedStreams).map(([key, group]) => [
+        key,
+        { ...group, streams: applyDebridAvailability(group.streams, debridAvailability) },
+      ])
+    ) as GroupedStreams;
     const installedAddons = stremioService.getInstalledAddons();
 
     const filteredEntries = Object.entries(streams).filter(([key]) => {
@@ -914,7 +942,9 @@ export const useStreamsScreen = () => {
 
       let combinedStreams = [...addonStreams];
 
-      if (settings.streamSortMode === 'quality-then-scraper' && pluginStreams.length > 0) {
+      if (settings.streamRankingEnabled) {
+        combinedStreams = rankStreams([...addonStreams, ...pluginStreams], settings.streamRankingRules || []);
+      } else if (settings.streamSortMode === 'quality-then-scraper' && pluginStreams.length > 0) {
         combinedStreams.push(...sortStreamsByQuality(pluginStreams));
       } else {
         combinedStreams.push(...pluginStreams);
@@ -958,7 +988,9 @@ export const useStreamsScreen = () => {
         if (filteredStreams.length === 0) return null;
 
         let processedStreams = filteredStreams;
-        if (!isInstalledAddon && settings.streamSortMode === 'quality-then-scraper') {
+        if (settings.streamRankingEnabled) {
+          processedStreams = rankStreams(filteredStreams, settings.streamRankingRules || []);
+        } else if (!isInstalledAddon && settings.streamSortMode === 'quality-then-scraper') {
           processedStreams = sortStreamsByQuality(filteredStreams);
         }
 
@@ -991,8 +1023,11 @@ export const useStreamsScreen = () => {
     filterByLanguage,
     addonResponseOrder,
     settings.streamSortMode,
+    settings.streamRankingEnabled,
+    settings.streamRankingRules,
     selectedEpisode,
     metadata,
+    debridAvailability,
   ]);
 
   // Episode image
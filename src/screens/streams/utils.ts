@@ -1,4 +1,7 @@
 import { Stream } from '../../types/metadata';
+import { getParsedStreamInfo } from '../../utils/streamParser';
+import { scoreStream, StreamRankingRule } from '../../utils/streamRanking';
+import { getTorrentSource, isTorrentStream } from '../../services/torrentStreamService';
 
 /**
  * Language variations for filtering
@@ -113,6 +116,74 @@ export const getQualityNumeric = (title: string | undefined): number => {
   return 0;
 };
 
+// Info hash of a torrent stream, lowercased, for debrid availability lookups
+export const getStreamInfoHash = (stream: Stream): string | undefined =>
+  isTorrentStream(stream) ? getTorrentSource(stream)?.infoHash?.toLowerCase() : undefined;
+
+/**
+ * Fill in the cache status of torrent streams from a debrid availability check
+ * (keyed by lowercase info hash). Streams whose addon already marked them keep it.
+ */
+export const applyDebridAvailability = (streams: Stream[], availability: Record<string, boolean>): Stream[] => {
+  if (Object.keys(availability).length === 0) return streams;
+  return streams.map(stream => {
+    const hash = getStreamInfoHash(stream);
+    if (!hash || !(hash in availability)) return stream;
+    const parsed = getParsedStreamInfo(stream);
+    if (parsed.cacheStatus !== 'unknown') return stream;
+    return { ...stream, parsed: { ...parsed, cacheStatus: availability[hash] ? 'cached' : 'uncached' } };
+  });
+};
+
+export interface BestStreamOptions {
+  excludedQualities: string[];
+  excludedLanguages: string[];
+  rankingRules: StreamRankingRule[]; // Empty when ranking is disabled
+  addonOrder: string[]; // Installed addon ids, highest priority first
+  preferredAddonId?: string; // Provider picked by hand for this show, ranked above the addon order
+  debridAvailability?: Record<string, boolean>; // Cached torrents on the linked debrid account, by info hash
+}
+
+/**
+ * Pick the stream autoplay should start, from streams grouped by addon
+ */
+export const pickBestStream = (
+  streamsData: { [addonId: string]: { streams: Stream[] } },
+  options: BestStreamOptions
+): Stream | null => {
+  const getProviderPriority = (addonId: string): number => {
+    if (options.preferredAddonId && addonId === options.preferredAddonId) return 100;
+    const addonIndex = options.addonOrder.indexOf(addonId);
+    return addonIndex !== -1 ? 50 - addonIndex : 0;
+  };
+
+  const allStreams: Array<{ stream: Stream; score: number; providerPriority: number; originalIndex: number }> = [];
+
+  Object.entries(streamsData).forEach(([addonId, { streams }]) => {
+    const knownStreams = applyDebridAvailability(streams, options.debridAvailability || {});
+    const qualityFiltered = filterStreamsByQuality(knownStreams, options.excludedQualities);
+    const filteredStreams = filterStreamsByLanguage(qualityFiltered, options.excludedLanguages);
+
+    filteredStreams.forEach((stream, index) => {
+      const score = options.rankingRules.length > 0 ? scoreStream(stream, options.rankingRules) : 0;
+      allStreams.push({ stream, score, providerPriority: getProviderPriority(addonId), originalIndex: index });
+    });
+  });
+
+  if (allStreams.length === 0) return null;
+
+  // With ranking rules, the highest score wins; otherwise (and for ties) sort by provider
+  // priority, then respect the addon's internal order (originalIndex)
+  // This ensures if an addon lists 1080p before 4K, we pick 1080p
+  allStreams.sort((a, b) => {
+    if (a.score !== b.score) return b.score - a.score;
+    if (a.providerPriority !== b.providerPriority) return b.providerPriority - a.providerPriority;
+    return a.originalIndex - b.originalIndex;
+  });
+
+  return allStreams[0].stream;
+};
+
 /**
  * Sort streams by quality (highest first)
  */
@@ -128,8 +199,8 @@ export const sortStreamsByQuality = (streams: Stream[]): Stream[] => {
     if (isAutoA && !isAutoB) return -1;
     if (!isAutoA && isAutoB) return 1;
 
-    const qualityA = getQualityNumeric(a.name || a.title);
-    const qualityB = getQualityNumeric(b.name || b.title);
+    const qualityA = getParsedStreamInfo(a).resolution || getQualityNumeric(a.name || a.title);
+    const qualityB = getParsedStreamInfo(b).resolution || getQualityNumeric(b.name || b.title);
 
     if (qualityA !== qualityB) {
       return qualityB - qualityA;
@@ -1,4 +1,7 @@
 import { mmkvStorage } from './mmkvStorage';
+import { RestSyncBackend, SyncBackend } from './syncBackend';
+import { logger } from '../utils/logger';
+import { getProfileBoundKey } from './profileService';
 
 export type AuthUser = {
   id: string;
@@ -7,11 +10,19 @@ export type AuthUser = {
   displayName?: string;
 };
 
+// Sessions are bound per profile, see getProfileBoundKey
 const USER_DATA_KEY = '@user:data';
 const USER_SCOPE_KEY = '@user:current';
+const SESSION_TOKEN_KEY = '@user:sync_token';
+// Kept after sign out so the sign-in form remembers the server
+const SERVER_URL_KEY = 'sync_server_url';
 
 class AccountService {
   private static instance: AccountService;
+  private backend: SyncBackend | null = null;
+  private backendUrl: string | null = null;
+  // Set by setBackend(); takes precedence over the configured server URL
+  private customBackend: SyncBackend | null = null;
   private constructor() {}
 
   static getInstance(): AccountService {
@@ -19,24 +30,75 @@ class AccountService {
     return AccountService.instance;
   }
 
+  async getServerUrl(): Promise<string> {
+    return (await mmkvStorage.getItem(SERVER_URL_KEY)) || '';
+  }
+
+  async setServerUrl(url: string): Promise<void> {
+    await mmkvStorage.setItem(SERVER_URL_KEY, url.trim().replace(/\/+$/, ''));
+  }
+
+  // Swap in a different account/sync implementation, e.g. for another server API
+  setBackend(backend: SyncBackend | null): void {
+    this.customBackend = backend;
+  }
+
+  async getBackend(): Promise<SyncBackend | null> {
+    if (this.customBackend) return this.customBackend;
+    const url = await this.getServerUrl();
+    if (!url) return null;
+    if (!this.backend || this.backendUrl !== url) {
+      this.backend = new RestSyncBackend(url);
+      this.backendUrl = url;
+    }
+    return this.backend;
+  }
+
+  async getSessionToken(): Promise<string | null> {
+    return mmkvStorage.getItem(await getProfileBoundKey(SESSION_TOKEN_KEY));
+  }
+
+  private async authenticate(
+    mode: 'signin' | 'signup',
+    email: string,
+    password: string
+  ): Promise<{ user?: AuthUser; error?: string }> {
+    const backend = await this.getBackend();
+    if (!backend) return { error: 'Enter the address of your sync server first' };
+    try {
+      const session = mode === 'signin'
+        ? await backend.signIn(email, password)
+        : await backend.signUp(email, password);
+      await mmkvStorage.setItem(await getProfileBoundKey(SESSION_TOKEN_KEY), session.token);
+      await mmkvStorage.setItem(await getProfileBoundKey(USER_DATA_KEY), JSON.stringify(session.user));
+      logger.log(`[AccountService] Signed in as ${session.user.id}`);
+      return { user: session.user };
+    } catch (error: any) {
+      return { error: error?.message || 'Authentication failed' };
+    }
+  }
+
   async signUpWithEmail(email: string, password: string): Promise<{ user?: AuthUser; error?: string }> {
-    // Since signup is disabled, always return error
-    return { error: 'Sign up is currently disabled due to upcoming system changes' };
+    return this.authenticate('signup', email, password);
   }
 
   async signInWithEmail(email: string, password: string): Promise<{ user?: AuthUser; error?: string }> {
-    // Since signin is disabled, always return error
-    return { error: 'Authentication is currently disabled' };
+    return this.authenticate('signin', email, password);
   }
 
   async signOut(): Promise<void> {
-    await mmkvStorage.removeItem(USER_DATA_KEY);
-    await mmkvStorage.setItem(USER_SCOPE_KEY, 'local');
+    const [backend, token] = await Promise.all([this.getBackend(), this.getSessionToken()]);
+    if (backend && token) {
+      // Best effort; the local session goes away either way
+      await backend.signOut(token).catch(error => logger.warn('[AccountService] Server sign out failed:', error));
+    }
+    await mmkvStorage.removeItem(await getProfileBoundKey(SESSION_TOKEN_KEY));
+    await mmkvStorage.removeItem(await getProfileBoundKey(USER_DATA_KEY));
   }
 
   async getCurrentUser(): Promise<AuthUser | null> {
     try {
-      const userData = await mmkvStorage.getItem(USER_DATA_KEY);
+      const userData = await mmkvStorage.getItem(await getProfileBoundKey(USER_DATA_KEY));
       if (!userData) return null;
       return JSON.parse(userData);
     } catch {
@@ -47,13 +109,14 @@ class AccountService {
   async updateProfile(partial: { avatarUrl?: string; displayName?: string }): Promise<string | null> {
     try {
       const currentUser = await this.getCurrentUser();
-      if (!currentUser) return 'Not authenticated';
+      const [backend, token] = await Promise.all([this.getBackend(), this.getSessionToken()]);
+      if (!currentUser || !backend || !token) return 'Not authenticated';
 
-      const updatedUser = { ...currentUser, ...partial };
-      await mmkvStorage.setItem(USER_DATA_KEY, JSON.stringify(updatedUser));
+      const updatedUser = await backend.updateProfile(token, partial);
+      await mmkvStorage.setItem(await getProfileBoundKey(USER_DATA_KEY), JSON.stringify({ ...currentUser, ...updatedUser }));
       return null;
-    } catch {
-      return 'Failed to update profile';
+    } catch (error: any) {
+      return error?.message || 'Failed to update profile';
     }
   }
 
@@ -0,0 +1,199 @@
+import { AppState, AppStateStatus } from 'react-native';
+import { mmkvStorage } from './mmkvStorage';
+import { logger } from '../utils/logger';
+import { backupService, RestorePoint, RestorePointReason } from './backupService';
+
+export type AutoBackupFrequency = 'off' | 'daily' | 'weekly';
+
+export interface AutoBackupSettings {
+  frequency: AutoBackupFrequency;
+  onBackground: boolean;
+  beforeRestore: boolean;
+  beforeUpdate: boolean;
+  keepLast: number; // Most recent restore points that are always kept
+  keepWeeklyForWeeks: number; // Additionally keep the newest point of each of the last N weeks
+}
+
+export const DEFAULT_AUTO_BACKUP_SETTINGS: AutoBackupSettings = {
+  frequency: 'off',
+  onBackground: false,
+  beforeRestore: true,
+  beforeUpdate: true,
+  keepLast: 5,
+  keepWeeklyForWeeks: 4,
+};
+
+const SETTINGS_KEY = 'auto_backup_settings';
+const LAST_SCHEDULED_KEY = 'auto_backup_last_scheduled';
+const LAST_BACKGROUND_KEY = 'auto_backup_last_background';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+// Backgrounding happens constantly; one restore point per hour is plenty
+const BACKGROUND_MIN_INTERVAL_MS = 60 * 60 * 1000;
+
+const FREQUENCY_INTERVAL_MS: Record<AutoBackupFrequency, number> = {
+  off: Infinity,
+  daily: DAY_MS,
+  weekly: WEEK_MS,
+};
+
+/**
+ * Pick the restore points a retention policy drops. Points are kept if they are
+ * among the newest `keepLast`, or the newest point of one of the last
+ * `keepWeeklyForWeeks` weeks (counted back from `now`).
+ */
+export const selectRestorePointsToPrune = (
+  points: RestorePoint[],
+  policy: Pick<AutoBackupSettings, 'keepLast' | 'keepWeeklyForWeeks'>,
+  now: number = Date.now()
+): RestorePoint[] => {
+  const sorted = [...points].sort((a, b) => b.timestamp - a.timestamp);
+  const keep = new Set(sorted.slice(0, Math.max(0, policy.keepLast)).map(point => point.fileUri));
+
+  const weeksSeen = new Set<number>();
+  for (const point of sorted) {
+    const week = Math.floor((now - point.timestamp) / WEEK_MS);
+    if (week < 0 || week >= policy.keepWeeklyForWeeks || weeksSeen.has(week)) continue;
+    weeksSeen.add(week);
+    keep.add(point.fileUri);
+  }
+
+  return sorted.filter(point => !keep.has(point.fileUri));
+};
+
+class AutoBackupService {
+  private static instance: AutoBackupService;
+  private settings: AutoBackupSettings = DEFAULT_AUTO_BACKUP_SETTINGS;
+  private initialized = false;
+  private inFlight: Promise<RestorePoint | null> | null = null;
+
+  private constructor() { }
+
+  static getInstance(): AutoBackupService {
+    if (!AutoBackupService.instance) {
+      AutoBackupService.instance = new AutoBackupService();
+    }
+    return AutoBackupService.instance;
+  }
+
+  async initialize(): Promise<void> {
+    if (this.initialized) return;
+    this.initialized = true;
+
+    await this.loadSettings();
+    AppState.addEventListener('change', this.handleAppStateChange);
+    await this.runScheduledBackupIfDue();
+  }
+
+  async getSettings(): Promise<AutoBackupSettings> {
+    if (!this.initialized) {
+      await this.loadSettings();
+    }
+    return this.settings;
+  }
+
+  async updateSettings(updates: Partial<AutoBackupSettings>): Promise<AutoBackupSettings> {
+    this.settings = { ...this.settings, ...updates };
+    await mmkvStorage.setItem(SETTINGS_KEY, JSON.stringify(this.settings));
+
+    // Tightened retention applies right away
+    if (updates.keepLast !== undefined || updates.keepWeeklyForWeeks !== undefined) {
+      await this.applyRetention();
+    }
+    return this.settings;
+  }
+
+  /**
+   * Create a restore point and prune old ones. Concurrent calls share one backup.
+   * Files in `keep` (e.g. the point about to be restored) survive pruning.
+   */
+  async createRestorePoint(reason: RestorePointReason, keep: string[] = []): Promise<RestorePoint | null> {
+    if (this.inFlight) return this.inFlight;
+
+    this.inFlight = (async () => {
+      try {
+        const fileUri = await backupService.createBackup({ restorePoint: reason });
+        logger.info(`[AutoBackupService] Created ${reason} restore point`);
+        await this.applyRetention(keep);
+        const points = await backupService.listRestorePoints();
+        return points.find(point => point.fileUri === fileUri) || null;
+      } catch (error) {
+        logger.error(`[AutoBackupService] Failed to create ${reason} restore point:`, error);
+        return null;
+      } finally {
+        this.inFlight = null;
+      }
+    })();
+    return this.inFlight;
+  }
+
+  // Safety net before destructive operations; no-op when the user turned it off
+  async createRestorePointIfEnabled(reason: 'before_restore' | 'before_update', keep: string[] = []): Promise<void> {
+    const settings = await this.getSettings();
+    const enabled = reason === 'before_restore' ? settings.beforeRestore : settings.beforeUpdate;
+    if (enabled) {
+      await this.createRestorePoint(reason, keep);
+    }
+  }
+
+  async runScheduledBackupIfDue(): Promise<void> {
+    try {
+      const interval = FREQUENCY_INTERVAL_MS[this.settings.frequency];
+      if (!Number.isFinite(interval)) return;
+
+      const last = parseInt((await mmkvStorage.getItem(LAST_SCHEDULED_KEY)) || '0', 10) || 0;
+      if (Date.now() - last < interval) return;
+
+      const point = await this.createRestorePoint('scheduled');
+      if (point) {
+        await mmkvStorage.setItem(LAST_SCHEDULED_KEY, String(point.timestamp));
+      }
+    } catch (error) {
+      logger.error('[AutoBackupService] Scheduled backup check failed:', error);
+    }
+  }
+
+  async applyRetention(keep: string[] = []): Promise<void> {
+    try {
+      const points = await backupService.listRestorePoints();
+      const toPrune = selectRestorePointsToPrune(points, this.settings)
+        .filter(point => !keep.includes(point.fileUri));
+      for (const point of toPrune) {
+        await backupService.deleteBackup(point.fileUri);
+      }
+      if (toPrune.length > 0) {
+        logger.info(`[AutoBackupService] Pruned ${toPrune.length} restore point(s)`);
+      }
+    } catch (error) {
+      logger.error('[AutoBackupService] Failed to apply retention policy:', error);
+    }
+  }
+
+  private async loadSettings(): Promise<void> {
+    try {
+      const stored = await mmkvStorage.getItem(SETTINGS_KEY);
+      this.settings = stored ? { ...DEFAULT_AUTO_BACKUP_SETTINGS, ...JSON.parse(stored) } : DEFAULT_AUTO_BACKUP_SETTINGS;
+    } catch (error) {
+      logger.error('[AutoBackupService] Failed to load settings:', error);
+      this.settings = DEFAULT_AUTO_BACKUP_SETTINGS;
+    }
+  }
+
+  private handleAppStateChange = async (state: AppStateStatus) => {
+    if (state === 'active') {
+      await this.runScheduledBackupIfDue();
+      return;
+    }
+    if (state !== 'background' || !this.settings.onBackground) return;
+
+    const last = parseInt((await mmkvStorage.getItem(LAST_BACKGROUND_KEY)) || '0', 10) || 0;
+    if (Date.now() - last < BACKGROUND_MIN_INTERVAL_MS) return;
+
+    await mmkvStorage.setItem(LAST_BACKGROUND_KEY, String(Date.now()));
+    await this.createRestorePoint('background');
+  };
+}
+
+export const autoBackupService = AutoBackupService.getInstance();
+export default autoBackupService;
@@ -0,0 +1,96 @@
+import CryptoJS from 'crypto-js';
+import * as Crypto from 'expo-crypto';
+
+/**
+ * Passphrase encryption for backup files.
+ *
+ * The key material is derived with PBKDF2-SHA256 from the passphrase and a random
+ * salt, then split into an AES-256-CBC key and an HMAC-SHA256 key. The MAC covers
+ * IV + ciphertext so a wrong passphrase or an edited file fails before decrypting.
+ */
+export interface BackupEncryption {
+  algorithm: 'aes-256-cbc-hmac-sha256';
+  kdf: 'pbkdf2-sha256';
+  iterations: number;
+  salt: string; // base64
+  iv: string; // base64
+  mac: string; // hex
+}
+
+// Kept modest because crypto-js runs PBKDF2 in JS on the device
+const PBKDF2_ITERATIONS = 10000;
+
+const randomWordArray = (byteCount: number): CryptoJS.lib.WordArray =>
+  CryptoJS.lib.WordArray.create(Crypto.getRandomBytes(byteCount) as unknown as number[]);
+
+const deriveKeys = (passphrase: string, salt: CryptoJS.lib.WordArray, iterations: number) => {
+  // 512 bits: first half encrypts, second half authenticates
+  const material = CryptoJS.PBKDF2(passphrase, salt, {
+    keySize: 512 / 32,
+    iterations,
+    hasher: CryptoJS.algo.SHA256,
+  });
+  return {
+    encryptionKey: CryptoJS.lib.WordArray.create(material.words.slice(0, 8), 32),
+    macKey: CryptoJS.lib.WordArray.create(material.words.slice(8, 16), 32),
+  };
+};
+
+const computeMac = (macKey: CryptoJS.lib.WordArray, iv: CryptoJS.lib.WordArray, ciphertext: CryptoJS.lib.WordArray): string =>
+  CryptoJS.HmacSHA256(iv.clone().concat(ciphertext), macKey).toString(CryptoJS.enc.Hex);
+
+// Constant-time string comparison for MACs and PIN hashes
+export const safeEqual = (a: string, b: string): boolean => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+};
+
+export const encryptBackupPayload = (plaintext: string, passphrase: string): { encryption: BackupEncryption; payload: string } => {
+  const salt = randomWordArray(16);
+  const iv = randomWordArray(16);
+  const { encryptionKey, macKey } = deriveKeys(passphrase, salt, PBKDF2_ITERATIONS);
+
+  const encrypted = CryptoJS.AES.encrypt(plaintext, encryptionKey, {
+    iv,
+    mode: CryptoJS.mode.CBC,
+    padding: CryptoJS.pad.Pkcs7,
+  });
+
+  return {
+    encryption: {
+      algorithm: 'aes-256-cbc-hmac-sha256',
+      kdf: 'pbkdf2-sha256',
+      iterations: PBKDF2_ITERATIONS,
+      salt: salt.toString(CryptoJS.enc.Base64),
+      iv: iv.toString(CryptoJS.enc.Base64),
+      mac: computeMac(macKey, iv, encrypted.ciphertext),
+    },
+    payload: encrypted.ciphertext.toString(CryptoJS.enc.Base64),
+  };
+};
+
+export const decryptBackupPayload = (payload: string, encryption: BackupEncryption, passphrase: string): string => {
+  if (encryption?.algorithm !== 'aes-256-cbc-hmac-sha256' || encryption?.kdf !== 'pbkdf2-sha256') {
+    throw new Error(`Unsupported backup encryption: ${encryption?.algorithm || 'unknown'}`);
+  }
+
+  const salt = CryptoJS.enc.Base64.parse(encryption.salt);
+  const iv = CryptoJS.enc.Base64.parse(encryption.iv);
+  const ciphertext = CryptoJS.enc.Base64.parse(payload);
+  const { encryptionKey, macKey } = deriveKeys(passphrase, salt, encryption.iterations);
+
+  if (!safeEqual(computeMac(macKey, iv, ciphertext), encryption.mac)) {
+    throw new Error('Incorrect passphrase or corrupted backup');
+  }
+
+  const decrypted = CryptoJS.AES.decrypt(CryptoJS.lib.CipherParams.create({ ciphertext }), encryptionKey, {
+    iv,
+    mode: CryptoJS.mode.CBC,
+    padding: CryptoJS.pad.Pkcs7,
+  });
+  return decrypted.toString(CryptoJS.enc.Utf8);
+};
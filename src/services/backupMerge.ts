@@ -0,0 +1,165 @@
+/**
+ * Pure merge of two devices' user state, used by merge-mode restores.
+ *
+ * Watch progress keys here are storage-independent (`type:id[:episodeId]`), the
+ * same format tombstones and continue-watching removals use, so the caller has
+ * to strip and re-add the scoped `@watch_progress:` prefix.
+ */
+
+export interface MergeableState {
+  library: Record<string, any>; // `type:id` -> library item
+  watchProgress: Record<string, any>; // `type:id[:episodeId]` -> WatchProgress
+  tombstones: Record<string, number>;
+  continueWatchingRemoved: Record<string, number>;
+  addons: any[];
+  addonOrder: string[];
+  watchedStatus: Record<string, boolean>;
+  contentDuration: Record<string, number>;
+}
+
+export interface BackupMergeSummary {
+  library: { added: number; conflicts: number };
+  watchProgress: { added: number; updatedFromBackup: number; keptCurrent: number; suppressed: number };
+  addons: { added: number; duplicates: number };
+  watchedStatus: { added: number };
+  tombstonesAdded: number;
+  continueWatchingRemovedAdded: number;
+}
+
+export interface BackupMergeResult {
+  state: MergeableState;
+  removedWatchProgress: string[]; // Current entries that a newer tombstone now hides
+  summary: BackupMergeSummary;
+}
+
+const addonKey = (addon: any): string => addon?.installationId || addon?.id;
+
+const sameValue = (a: any, b: any): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+// Newest tombstone covering a progress key, either for the exact entry or its base content
+const tombstoneFor = (key: string, tombstones: Record<string, number>): number => {
+  const [type, id] = key.split(':');
+  return Math.max(tombstones[key] || 0, tombstones[`${type}:${id}`] || 0);
+};
+
+const mergeTimestamps = (current: Record<string, number>, incoming: Record<string, number>) => {
+  const merged = { ...current };
+  let added = 0;
+  for (const [key, at] of Object.entries(incoming)) {
+    if (merged[key] === undefined) added++;
+    if (merged[key] === undefined || at > merged[key]) merged[key] = at;
+  }
+  return { merged, added };
+};
+
+export const mergeBackupState = (current: MergeableState, incoming: MergeableState): BackupMergeResult => {
+  // Library: union by type:id; on conflict keep whichever was added more recently
+  const library = { ...current.library };
+  let libraryAdded = 0;
+  let libraryConflicts = 0;
+  for (const [key, item] of Object.entries(incoming.library)) {
+    const existing = library[key];
+    if (!existing) {
+      library[key] = item;
+      libraryAdded++;
+    } else if (!sameValue(existing, item)) {
+      libraryConflicts++;
+      if ((item?.addedToLibraryAt || 0) > (existing?.addedToLibraryAt || 0)) {
+        library[key] = item;
+      }
+    }
+  }
+
+  const { merged: tombstones, added: tombstonesAdded } = mergeTimestamps(current.tombstones, incoming.tombstones);
+
+  // Watch progress: newest lastUpdated wins, then anything a newer tombstone covers is dropped
+  const watchProgress: Record<string, any> = {};
+  const removedWatchProgress: string[] = [];
+  const progressSummary = { added: 0, updatedFromBackup: 0, keptCurrent: 0, suppressed: 0 };
+  const progressKeys = new Set([...Object.keys(current.watchProgress), ...Object.keys(incoming.watchProgress)]);
+  for (const key of progressKeys) {
+    const mine = current.watchProgress[key];
+    const theirs = incoming.watchProgress[key];
+    let winner = mine;
+    if (!mine) {
+      winner = theirs;
+    } else if (theirs && !sameValue(mine, theirs)) {
+      winner = (theirs.lastUpdated || 0) > (mine.lastUpdated || 0) ? theirs : mine;
+    }
+
+    const tombAt = tombstoneFor(key, tombstones);
+    if (tombAt && (winner?.lastUpdated == null || winner.lastUpdated <= tombAt)) {
+      progressSummary.suppressed++;
+      if (mine) removedWatchProgress.push(key);
+      continue;
+    }
+
+    watchProgress[key] = winner;
+    if (!mine) progressSummary.added++;
+    else if (winner === theirs && theirs !== mine) progressSummary.updatedFromBackup++;
+    else if (theirs && !sameValue(mine, theirs)) progressSummary.keptCurrent++;
+  }
+
+  // Continue-watching removals only stick if nothing was watched after them
+  const { merged: cwRemovedMerged } = mergeTimestamps(current.continueWatchingRemoved, incoming.continueWatchingRemoved);
+  const continueWatchingRemoved: Record<string, number> = {};
+  let continueWatchingRemovedAdded = 0;
+  for (const [baseKey, removedAt] of Object.entries(cwRemovedMerged)) {
+    const watchedAfter = Object.entries(watchProgress).some(([key, progress]) =>
+      (key === baseKey || key.startsWith(`${baseKey}:`)) && (progress?.lastUpdated || 0) > removedAt
+    );
+    if (watchedAfter) continue;
+    continueWatchingRemoved[baseKey] = removedAt;
+    if (current.continueWatchingRemoved[baseKey] === undefined) continueWatchingRemovedAdded++;
+  }
+
+  // Addons: dedup by installation, current configuration wins; new ones go after the current order
+  const addons = [...current.addons];
+  const knownAddons = new Set(current.addons.map(addonKey));
+  let addonsAdded = 0;
+  let addonDuplicates = 0;
+  for (const addon of incoming.addons) {
+    const key = addonKey(addon);
+    if (knownAddons.has(key)) {
+      addonDuplicates++;
+      continue;
+    }
+    knownAddons.add(key);
+    addons.push(addon);
+    addonsAdded++;
+  }
+  const addonOrder = [...current.addonOrder];
+  for (const key of [...incoming.addonOrder, ...addons.map(addonKey)]) {
+    if (key && knownAddons.has(key) && !addonOrder.includes(key)) addonOrder.push(key);
+  }
+
+  // Watched markers: watched on either device counts as watched
+  const watchedStatus = { ...current.watchedStatus };
+  let watchedAdded = 0;
+  for (const [key, watched] of Object.entries(incoming.watchedStatus)) {
+    if (watchedStatus[key] === undefined) watchedAdded++;
+    watchedStatus[key] = !!watchedStatus[key] || watched;
+  }
+
+  return {
+    state: {
+      library,
+      watchProgress,
+      tombstones,
+      continueWatchingRemoved,
+      addons,
+      addonOrder,
+      watchedStatus,
+      contentDuration: { ...incoming.contentDuration, ...current.contentDuration },
+    },
+    removedWatchProgress,
+    summary: {
+      library: { added: libraryAdded, conflicts: libraryConflicts },
+      watchProgress: progressSummary,
+      addons: { added: addonsAdded, duplicates: addonDuplicates },
+      watchedStatus: { added: watchedAdded },
+      tombstonesAdded,
+      continueWatchingRemovedAdded,
+    },
+  };
+};
@@ -5,6 +5,12 @@ import { logger } from '../utils/logger';
 import { AppSettings, DEFAULT_SETTINGS } from '../hooks/useSettings';
 import { StreamingContent } from './catalogService';
 import { DownloadItem } from '../contexts/DownloadsContext';
+import { canonicalizeJson, sha256Hex } from './repositoryVerification';
+import { BackupEncryption, decryptBackupPayload, encryptBackupPayload } from './backupCrypto';
+import { BackupMergeSummary, MergeableState, mergeBackupState } from './backupMerge';
+
+export type BackupKind = 'full' | 'incremental';
+export type RestoreMode = 'overwrite' | 'merge';
 
 export interface BackupData {
   version: string;
@@ -12,10 +18,15 @@ export interface BackupData {
   appVersion: string;
   platform: 'ios' | 'android';
   userScope: string;
+  kind: BackupKind;
+  snapshotId: string;
+  baseSnapshotId?: string; // Incremental backups: the snapshot whose watch progress this builds on
+  checksums: Record<string, string>; // SHA-256 of each data section's canonical JSON
   data: {
     settings: AppSettings;
     library: StreamingContent[];
-    watchProgress: Record<string, any>;
+    watchProgress: Record<string, any>; // Incremental backups only hold entries changed since the base snapshot
+    watchProgressRemoved?: string[]; // Incremental backups: progress keys deleted since the base snapshot
     addons: any[];
     downloads: DownloadItem[];
     subtitles: {
@@ -78,6 +89,59 @@ export interface BackupData {
   };
 }
 
+// Encrypted backups keep the header readable and store `data` + `checksums` as ciphertext
+export interface EncryptedBackupFile extends Omit<BackupData, 'data' | 'checksums'> {
+  encryption: BackupEncryption;
+  payload: string;
+}
+
+export type BackupInfo = Partial<BackupData> & { encrypted: boolean };
+
+interface BackupSnapshotState {
+  snapshotId: string;
+  timestamp: number;
+  watchProgress: Record<string, string>; // Key -> hash of the entry at snapshot time
+}
+
+// Upgrades a backup from the keyed version to the next one; applied in sequence up to BACKUP_VERSION
+const BACKUP_MIGRATIONS: Record<string, (backup: any) => any> = {
+  '1.0.0': backup => ({
+    ...backup,
+    version: '2.0.0',
+    kind: 'full',
+    snapshotId: `legacy-${backup.timestamp}`,
+    checksums: {}, // v1 had no checksums, so there is nothing to verify
+  }),
+};
+
+export type RestorePointReason = 'scheduled' | 'background' | 'before_restore' | 'before_update' | 'manual';
+
+// Automatic local backup kept for rollback; always a full, unencrypted snapshot without secrets
+export interface RestorePoint {
+  fileUri: string;
+  filename: string;
+  timestamp: number;
+  reason: RestorePointReason;
+}
+
+// How one section of a backup differs from what is on the device right now
+export interface BackupSectionDiff {
+  current: number;
+  backup: number;
+  onlyInBackup: number; // Would come back on restore
+  onlyInCurrent: number; // Would be lost on restore
+  changed: number; // Present in both with different values
+}
+
+export interface BackupDiff {
+  library: BackupSectionDiff;
+  watchProgress: BackupSectionDiff;
+  watchedStatus: BackupSectionDiff;
+  addons: BackupSectionDiff & { orderChanged: boolean };
+  scrapers: BackupSectionDiff;
+  settingsChanged: number;
+}
+
 export interface BackupOptions {
   includeLibrary?: boolean;
   includeWatchProgress?: boolean;
@@ -89,12 +153,18 @@ export interface BackupOptions {
   includeApiKeys?: boolean;
   includeCatalogSettings?: boolean;
   includeUserPreferences?: boolean;
+  passphrase?: string; // Encrypts the backup (create) or decrypts it (restore)
+  incremental?: boolean; // Only store watch progress changed since the last snapshot
+  restorePoint?: RestorePointReason; // Save as a local restore point instead of an exportable backup
+  mode?: RestoreMode; // Restore only: merge combines with current data instead of replacing it
 }
 
 export class BackupService {
   private static instance: BackupService;
-  private readonly BACKUP_VERSION = '1.0.0';
+  private readonly BACKUP_VERSION = '2.0.0';
   private readonly BACKUP_FILENAME_PREFIX = 'nuvio_backup_';
+  private readonly RESTORE_POINT_PREFIX = 'nuvio_restore_point_';
+  private readonly RESTORE_POINT_DIR = 'restore_points/';
 
   private constructor() { }
 
@@ -114,7 +184,18 @@ export class BackupService {
 
       const userScope = await this.getUserScope();
       const timestamp = Date.now();
-      const filename = `${this.BACKUP_FILENAME_PREFIX}${timestamp}.json`;
+      const isRestorePoint = !!options.restorePoint;
+      const filename = isRestorePoint
+        ? `${this.RESTORE_POINT_PREFIX}${timestamp}_${options.restorePoint}.json`
+        : `${this.BACKUP_FILENAME_PREFIX}${timestamp}.json`;
+      const snapshotId = `${timestamp}-${Math.random().toString(36).slice(2, 8)}`;
+
+      // Restore points must restore on their own, so they are never incremental
+      const fullWatchProgress = options.includeWatchProgress !== false ? await this.getWatchProgress() : {};
+      const previousSnapshot = options.incremental && !isRestorePoint ? await this.getSnapshotState() : null;
+      const watchProgressDelta = previousSnapshot
+        ? this.diffWatchProgress(fullWatchProgress, previousSnapshot)
+        : null;
 
       // Collect all data
       const backupData: BackupData = {
@@ -123,10 +204,15 @@ export class BackupService {
         appVersion: '1.0.0', // You might want to get this from package.json
         platform: Platform.OS as 'ios' | 'android',
         userScope,
+        kind: watchProgressDelta ? 'incremental' : 'full',
+        snapshotId,
+        baseSnapshotId: watchProgressDelta ? previousSnapshot!.snapshotId : undefined,
+        checksums: {},
         data: {
           settings: options.includeSettings !== false ? await this.getSettings() : DEFAULT_SETTINGS,
           library: options.includeLibrary !== false ? await this.getLibrary() : [],
-          watchProgress: options.includeWatchProgress !== false ? await this.getWatchProgress() : {},
+          watchProgress: watchProgressDelta ? watchProgressDelta.changed : fullWatchProgress,
+          watchProgressRemoved: watchProgressDelta ? watchProgressDelta.removed : undefined,
           addons: options.includeAddons !== false ? await this.getAddons() : [],
           downloads: options.includeDownloads !== false ? await this.getDownloads() : [],
           subtitles: await this.getSubtitleSettings(),
@@ -134,9 +220,10 @@ export class BackupService {
           continueWatchingRemoved: await this.getContinueWatchingRemoved(),
           contentDuration: await this.getContentDuration(),
           syncQueue: await this.getSyncQueue(),
-          traktSettings: options.includeTraktData !== false ? await this.getTraktSettings() : undefined,
+          // Restore points are stored unencrypted, so they leave out account tokens and API keys
+          traktSettings: options.includeTraktData !== false && !isRestorePoint ? await this.getTraktSettings() : undefined,
           localScrapers: options.includeLocalScrapers !== false ? await this.getLocalScrapers() : undefined,
-          apiKeys: options.includeApiKeys !== false ? await this.getApiKeys() : undefined,
+          apiKeys: options.includeApiKeys !== false && !isRestorePoint ? await this.getApiKeys() : undefined,
           catalogSettings: options.includeCatalogSettings !== false ? await this.getCatalogSettings() : undefined,
           addonOrder: options.includeUserPreferences !== false ? await this.getAddonOrder() : undefined,
           removedAddons: options.includeUserPreferences !== false ? await this.getRemovedAddons() : undefined,
@@ -173,11 +260,30 @@ export class BackupService {
         backupData.metadata.addonsCount +
         scraperCount;
 
+      backupData.checksums = this.computeChecksums(backupData.data);
+
       // Save to file
-      const fileUri = `${(FileSystem as any).documentDirectory || '/tmp/'}${filename}`;
-      await FileSystem.writeAsStringAsync(fileUri, JSON.stringify(backupData, null, 2));
+      const directory = isRestorePoint
+        ? await this.getRestorePointDirectory()
+        : (FileSystem as any).documentDirectory || '/tmp/';
+      const fileUri = `${directory}${filename}`;
+      let fileContent: string;
+      if (options.passphrase && !isRestorePoint) {
+        const { data, checksums, ...header } = backupData;
+        const { encryption, payload } = encryptBackupPayload(JSON.stringify({ data, checksums }), options.passphrase);
+        const encryptedFile: EncryptedBackupFile = { ...header, encryption, payload };
+        fileContent = JSON.stringify(encryptedFile, null, 2);
+      } else {
+        fileContent = JSON.stringify(backupData, null, 2);
+      }
+      await FileSystem.writeAsStringAsync(fileUri, fileContent);
 
-      logger.info(`[BackupService] Backup created successfully: ${filename}`);
+      // Later incremental backups diff against this snapshot; restore points are not part of that chain
+      if (options.includeWatchProgress !== false && !isRestorePoint) {
+        await this.saveSnapshotState(snapshotId, timestamp, fullWatchProgress);
+      }
+
+      logger.info(`[BackupService] Backup created successfully: ${filename} (${backupData.kind}${options.passphrase && !isRestorePoint ? ', encrypted' : ''})`);
       logger.info(`[BackupService] Backup contains: ${backupData.metadata.totalItems} items`);
 
       return fileUri;
@@ -245,16 +351,17 @@ export class BackupService {
     try {
       logger.info('[BackupService] Starting backup restore...');
 
-      // Read and validate backup file
-      const backupContent = await FileSystem.readAsStringAsync(fileUri);
-      const backupData: BackupData = JSON.parse(backupContent);
-
-      // Validate backup format
-      this.validateBackupData(backupData);
+      const backupData = await this.readBackup(fileUri, options.passphrase, options.includeWatchProgress !== false);
 
-      logger.info(`[BackupService] Restoring backup from ${backupData.timestamp}`);
+      logger.info(`[BackupService] Restoring ${backupData.kind} backup from ${backupData.timestamp} (${options.mode || 'overwrite'})`);
       logger.info(`[BackupService] Backup contains: ${backupData.metadata.totalItems} items`);
 
+      if (options.mode === 'merge') {
+        await this.mergeBackup(backupData, options);
+        logger.info('[BackupService] Backup merge completed successfully');
+        return;
+      }
+
       // Restore data based on options
       if (options.includeSettings !== false && backupData.data.settings) {
         await this.restoreSettings(backupData.data.settings);
@@ -265,7 +372,7 @@ export class BackupService {
       }
 
       if (options.includeWatchProgress !== false && backupData.data.watchProgress) {
-        await this.restoreWatchProgress(backupData.data.watchProgress);
+        await this.restoreWatchProgress(backupData.data.watchProgress, backupData.data.watchProgressRemoved);
       }
 
       if (options.includeAddons !== false && backupData.data.addons) {
@@ -343,10 +450,10 @@ export class BackupService {
   /**
    * Get backup file info without loading full data
    */
-  public async getBackupInfo(fileUri: string): Promise<Partial<BackupData>> {
+  public async getBackupInfo(fileUri: string): Promise<BackupInfo> {
     try {
       const backupContent = await FileSystem.readAsStringAsync(fileUri);
-      const backupData: BackupData = JSON.parse(backupContent);
+      const backupData = JSON.parse(backupContent);
 
       return {
         version: backupData.version,
@@ -354,7 +461,11 @@ export class BackupService {
         appVersion: backupData.appVersion,
         platform: backupData.platform,
         userScope: backupData.userScope,
-        metadata: backupData.metadata
+        kind: backupData.kind || 'full',
+        snapshotId: backupData.snapshotId,
+        baseSnapshotId: backupData.baseSnapshotId,
+        metadata: backupData.metadata,
+        encrypted: !!backupData.encryption,
       };
     } catch (error) {
       logger.error('[BackupService] Failed to read backup info:', error);
@@ -390,7 +501,126 @@ export class BackupService {
     }
   }
 
+  /**
+   * List automatic restore points, newest first
+   */
+  public async listRestorePoints(): Promise<RestorePoint[]> {
+    try {
+      const directory = await this.getRestorePointDirectory();
+      const files = await FileSystem.readDirectoryAsync(directory);
+      const points: RestorePoint[] = [];
+      for (const filename of files) {
+        const match = filename.match(new RegExp(`^${this.RESTORE_POINT_PREFIX}(\\d+)_([a-z_]+)\\.json$`));
+        if (!match) continue;
+        points.push({
+          fileUri: `${directory}${filename}`,
+          filename,
+          timestamp: parseInt(match[1], 10),
+          reason: match[2] as RestorePointReason,
+        });
+      }
+      return points.sort((a, b) => b.timestamp - a.timestamp);
+    } catch (error) {
+      logger.error('[BackupService] Failed to list restore points:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Compare a backup file against the current state of the device
+   */
+  public async getBackupDiff(fileUri: string, passphrase?: string): Promise<BackupDiff> {
+    const backup = await this.readBackup(fileUri, passphrase);
+
+    const [library, watchProgress, watchedStatus, addons, scrapers, addonOrder, settings] = await Promise.all([
+      this.getLibrary(),
+      this.getWatchProgress(),
+      this.getWatchedStatus(),
+      this.getAddons(),
+      this.getLocalScrapers(),
+      this.getAddonOrder(),
+      this.getSettings(),
+    ]);
+
+    const libraryKey = (item: StreamingContent) => `${item.type}:${item.id}`;
+    const addonKey = (addon: any) => addon?.installationId || addon?.id;
+    const backupAddonOrder = backup.data.addonOrder || [];
+
+    const settingsChanged = Object.keys({ ...settings, ...backup.data.settings }).filter(
+      key => canonicalizeJson((settings as any)[key]) !== canonicalizeJson((backup.data.settings as any)?.[key])
+    ).length;
+
+    return {
+      library: this.diffSection(
+        Object.fromEntries(library.map(item => [libraryKey(item), item])),
+        Object.fromEntries((backup.data.library || []).map(item => [libraryKey(item), item]))
+      ),
+      watchProgress: this.diffSection(watchProgress, backup.data.watchProgress || {}),
+      watchedStatus: this.diffSection(watchedStatus, backup.data.watchedStatus || {}),
+      addons: {
+        ...this.diffSection(
+          Object.fromEntries(addons.map(addon => [addonKey(addon), addon])),
+          Object.fromEntries((backup.data.addons || []).map(addon => [addonKey(addon), addon]))
+        ),
+        orderChanged: backupAddonOrder.length > 0 && backupAddonOrder.join('|') !== addonOrder.join('|'),
+      },
+      scrapers: this.diffSection(scrapers?.scrapers || {}, backup.data.localScrapers?.scrapers || {}),
+      settingsChanged: backup.data.settings ? settingsChanged : 0,
+    };
+  }
+
+  /**
+   * Summarize what a merge restore of this backup would change, without applying it
+   */
+  public async previewMerge(fileUri: string, passphrase?: string): Promise<BackupMergeSummary> {
+    const backupData = await this.readBackup(fileUri, passphrase);
+    const result = mergeBackupState(await this.getMergeableState(), this.toMergeableState(backupData));
+    return result.summary;
+  }
+
+  /**
+   * Read, decrypt, migrate and validate a backup file. An incremental backup only
+   * holds a watch progress delta, so its full state is rebuilt from the base chain.
+   */
+  private async readBackup(fileUri: string, passphrase?: string, resolveIncremental: boolean = true): Promise<BackupData> {
+    const backupContent = await FileSystem.readAsStringAsync(fileUri);
+    const backupData = this.validateBackupData(this.decryptBackup(JSON.parse(backupContent), passphrase));
+    if (resolveIncremental && backupData.kind === 'incremental') {
+      const resolved = await this.resolveIncrementalWatchProgress(backupData, fileUri, passphrase);
+      backupData.data.watchProgress = resolved.watchProgress;
+      backupData.data.watchProgressRemoved = resolved.removed;
+    }
+    return backupData;
+  }
+
   // Private helper methods for data collection
+  private async getRestorePointDirectory(): Promise<string> {
+    const directory = `${(FileSystem as any).documentDirectory || '/tmp/'}${this.RESTORE_POINT_DIR}`;
+    const info = await FileSystem.getInfoAsync(directory);
+    if (!info.exists) {
+      await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+    }
+    return directory;
+  }
+
+  private diffSection(current: Record<string, any>, backup: Record<string, any>): BackupSectionDiff {
+    const currentKeys = Object.keys(current);
+    const backupKeys = Object.keys(backup);
+    let changed = 0;
+    for (const key of currentKeys) {
+      if (key in backup && canonicalizeJson(current[key]) !== canonicalizeJson(backup[key])) {
+        changed++;
+      }
+    }
+    return {
+      current: currentKeys.length,
+      backup: backupKeys.length,
+      onlyInBackup: backupKeys.filter(key => !(key in current)).length,
+      onlyInCurrent: currentKeys.filter(key => !(key in backup)).length,
+      changed,
+    };
+  }
+
   private async getUserScope(): Promise<string> {
     try {
       const scope = await mmkvStorage.getItem('@user:current');
@@ -749,10 +979,13 @@ export class BackupService {
     }
   }
 
-  private async restoreWatchProgress(watchProgress: Record<string, any>): Promise<void> {
+  private async restoreWatchProgress(watchProgress: Record<string, any>, removedKeys?: string[]): Promise<void> {
     try {
       const pairs: [string, string][] = Object.entries(watchProgress).map(([key, value]) => [key, JSON.stringify(value)]);
       await mmkvStorage.multiSet(pairs);
+      if (removedKeys && removedKeys.length > 0) {
+        await mmkvStorage.multiRemove(removedKeys);
+      }
       logger.info('[BackupService] Watch progress restored');
     } catch (error) {
       logger.error('[BackupService] Failed to restore watch progress:', error);
@@ -1086,14 +1319,266 @@ export class BackupService {
     }
   }
 
-  private validateBackupData(backupData: any): void {
-    if (!backupData.version || !backupData.timestamp || !backupData.data) {
+  // Watch progress is stored under `@user:{scope}:@watch_progress:{type}:{id}[:{episodeId}]`
+  private stripWatchProgressPrefix(watchProgress: Record<string, any>): Record<string, any> {
+    return Object.fromEntries(
+      Object.entries(watchProgress).map(([key, value]) => [key.replace(/^@user:[^:]*:@watch_progress:/, ''), value])
+    );
+  }
+
+  private async getMergeableState(): Promise<MergeableState> {
+    const [library, watchProgress, tombstones, continueWatchingRemoved, addons, addonOrder, watchedStatus, contentDuration] = await Promise.all([
+      this.getLibrary(),
+      this.getWatchProgress(),
+      this.getTombstones(),
+      this.getContinueWatchingRemoved(),
+      this.getAddons(),
+      this.getAddonOrder(),
+      this.getWatchedStatus(),
+      this.getContentDuration(),
+    ]);
+    return {
+      library: Object.fromEntries(library.map(item => [`${item.type}:${item.id}`, item])),
+      watchProgress: this.stripWatchProgressPrefix(watchProgress),
+      tombstones,
+      continueWatchingRemoved,
+      addons,
+      addonOrder,
+      watchedStatus,
+      contentDuration,
+    };
+  }
+
+  private toMergeableState(backupData: BackupData): MergeableState {
+    const data = backupData.data;
+    return {
+      library: Object.fromEntries((data.library || []).map(item => [`${item.type}:${item.id}`, item])),
+      watchProgress: this.stripWatchProgressPrefix(data.watchProgress || {}),
+      tombstones: data.tombstones || {},
+      continueWatchingRemoved: data.continueWatchingRemoved || {},
+      addons: data.addons || [],
+      addonOrder: data.addonOrder || [],
+      watchedStatus: data.watchedStatus || {},
+      contentDuration: data.contentDuration || {},
+    };
+  }
+
+  /**
+   * Merge restore: combines library, watch state and addons with what is on the
+   * device. Settings, integrations, plugins and downloads stay as they are.
+   */
+  private async mergeBackup(backupData: BackupData, options: BackupOptions): Promise<void> {
+    const current = await this.getMergeableState();
+    const incoming = this.toMergeableState(backupData);
+
+    // Sections the user excluded merge against nothing, i.e. stay unchanged
+    if (options.includeLibrary === false) incoming.library = {};
+    if (options.includeWatchProgress === false) {
+      incoming.watchProgress = {};
+      incoming.watchedStatus = {};
+    }
+    if (options.includeAddons === false) {
+      incoming.addons = [];
+      incoming.addonOrder = [];
+    }
+
+    const { state, removedWatchProgress, summary } = mergeBackupState(current, incoming);
+    const scope = await this.getUserScope();
+    const progressKey = (key: string) => `@user:${scope}:@watch_progress:${key}`;
+
+    await this.restoreLibrary(Object.values(state.library));
+    await this.restoreTombstones(state.tombstones);
+    await this.restoreContinueWatchingRemoved(state.continueWatchingRemoved);
+    await this.restoreWatchProgress(
+      Object.fromEntries(Object.entries(state.watchProgress).map(([key, value]) => [progressKey(key), value])),
+      removedWatchProgress.map(progressKey)
+    );
+    await this.restoreWatchedStatus(state.watchedStatus);
+    await this.restoreContentDuration(state.contentDuration);
+    await this.restoreAddons(state.addons);
+    await this.restoreAddonOrder(state.addonOrder);
+
+    logger.info(`[BackupService] Merge summary: ${JSON.stringify(summary)}`);
+  }
+
+  // Snapshot of watch progress hashes used to build incremental backups
+  private async getSnapshotState(): Promise<BackupSnapshotState | null> {
+    try {
+      const scope = await this.getUserScope();
+      const stateJson = await mmkvStorage.getItem(`@user:${scope}:backup_snapshot_state`);
+      return stateJson ? JSON.parse(stateJson) : null;
+    } catch (error) {
+      logger.error('[BackupService] Failed to get snapshot state:', error);
+      return null;
+    }
+  }
+
+  private async saveSnapshotState(snapshotId: string, timestamp: number, watchProgress: Record<string, any>): Promise<void> {
+    try {
+      const scope = await this.getUserScope();
+      const state: BackupSnapshotState = {
+        snapshotId,
+        timestamp,
+        watchProgress: Object.fromEntries(
+          Object.entries(watchProgress).map(([key, value]) => [key, sha256Hex(canonicalizeJson(value))])
+        ),
+      };
+      await mmkvStorage.setItem(`@user:${scope}:backup_snapshot_state`, JSON.stringify(state));
+    } catch (error) {
+      logger.error('[BackupService] Failed to save snapshot state:', error);
+    }
+  }
+
+  private diffWatchProgress(
+    current: Record<string, any>,
+    snapshot: BackupSnapshotState
+  ): { changed: Record<string, any>; removed: string[] } {
+    const changed: Record<string, any> = {};
+    for (const [key, value] of Object.entries(current)) {
+      if (snapshot.watchProgress[key] !== sha256Hex(canonicalizeJson(value))) {
+        changed[key] = value;
+      }
+    }
+    const removed = Object.keys(snapshot.watchProgress).filter(key => !(key in current));
+    return { changed, removed };
+  }
+
+  private computeChecksums(data: BackupData['data']): Record<string, string> {
+    const checksums: Record<string, string> = {};
+    for (const [section, value] of Object.entries(data)) {
+      if (value !== undefined) {
+        checksums[section] = sha256Hex(canonicalizeJson(value));
+      }
+    }
+    return checksums;
+  }
+
+  /**
+   * Follow `baseSnapshotId` links back to a full backup and replay every delta
+   * on top of it. Bases are looked up next to the restored file and among the
+   * exported backups; a missing or unreadable base aborts the restore.
+   */
+  private async resolveIncrementalWatchProgress(
+    backupData: BackupData,
+    fileUri: string,
+    passphrase?: string
+  ): Promise<{ watchProgress: Record<string, any>; removed: string[] }> {
+    const documentDirectory = (FileSystem as any).documentDirectory || '/tmp/';
+    const directories = Array.from(new Set([fileUri.slice(0, fileUri.lastIndexOf('/') + 1), documentDirectory]));
+    const candidates: string[] = [];
+    for (const directory of directories) {
+      try {
+        const files = await FileSystem.readDirectoryAsync(directory);
+        files
+          .filter(file => file.startsWith(this.BACKUP_FILENAME_PREFIX) && file.endsWith('.json'))
+          .forEach(file => candidates.push(`${directory}${file}`));
+      } catch {
+        // Directory not readable (e.g. a picked file in a provider-backed location)
+      }
+    }
+
+    const chain: BackupData[] = [backupData];
+    const seen = new Set<string>([backupData.snapshotId || '']);
+    let current = backupData;
+    while (current.kind === 'incremental') {
+      const baseId = current.baseSnapshotId;
+      if (!baseId || seen.has(baseId)) {
+        throw new Error('This incremental backup has no valid base backup. Restore a full backup instead.');
+      }
+      seen.add(baseId);
+
+      let base: BackupData | null = null;
+      for (const candidate of candidates) {
+        try {
+          const info = await this.getBackupInfo(candidate);
+          if (info.snapshotId !== baseId) continue;
+        } catch {
+          continue;
+        }
+        const content = await FileSystem.readAsStringAsync(candidate);
+        base = this.validateBackupData(this.decryptBackup(JSON.parse(content), passphrase));
+        break;
+      }
+      if (!base) {
+        throw new Error(
+          `This incremental backup builds on an earlier backup (${baseId}) that could not be found. ` +
+          'Keep the earlier backups in the same folder, or restore a full backup instead.'
+        );
+      }
+      chain.unshift(base);
+      current = base;
+    }
+
+    const watchProgress: Record<string, any> = {};
+    const removed = new Set<string>();
+    for (const link of chain) {
+      for (const key of link.data.watchProgressRemoved || []) {
+        delete watchProgress[key];
+        removed.add(key);
+      }
+      for (const [key, value] of Object.entries(link.data.watchProgress || {})) {
+        watchProgress[key] = value;
+        removed.delete(key);
+      }
+    }
+    logger.info(`[BackupService] Resolved incremental backup over ${chain.length - 1} earlier backup(s)`);
+    return { watchProgress, removed: Array.from(removed) };
+  }
+
+  private decryptBackup(backupFile: any, passphrase?: string): any {
+    if (!backupFile?.encryption) {
+      return backupFile;
+    }
+    if (!passphrase) {
+      throw new Error('This backup is encrypted. Enter its passphrase to restore it.');
+    }
+
+    const { encryption, payload, ...header } = backupFile as EncryptedBackupFile;
+    const decrypted = JSON.parse(decryptBackupPayload(payload, encryption, passphrase));
+    return { ...header, data: decrypted.data, checksums: decrypted.checksums };
+  }
+
+  private compareVersions(a: string, b: string): number {
+    const pa = a.split('.').map(n => parseInt(n, 10) || 0);
+    const pb = b.split('.').map(n => parseInt(n, 10) || 0);
+    for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+      const diff = (pa[i] || 0) - (pb[i] || 0);
+      if (diff !== 0) return diff;
+    }
+    return 0;
+  }
+
+  /**
+   * Migrate a parsed (and decrypted) backup to the current version and verify
+   * its section checksums. Returns the migrated backup.
+   */
+  private validateBackupData(backupData: any): BackupData {
+    if (!backupData?.version || !backupData.timestamp || !backupData.data) {
       throw new Error('Invalid backup file format');
     }
 
-    if (backupData.version !== this.BACKUP_VERSION) {
-      throw new Error(`Unsupported backup version: ${backupData.version}`);
+    if (this.compareVersions(backupData.version, this.BACKUP_VERSION) > 0) {
+      throw new Error(`Backup version ${backupData.version} is newer than this app supports. Please update the app.`);
     }
+
+    let migrated = backupData;
+    while (migrated.version !== this.BACKUP_VERSION) {
+      const migrate = BACKUP_MIGRATIONS[migrated.version];
+      if (!migrate) {
+        throw new Error(`Unsupported backup version: ${migrated.version}`);
+      }
+      logger.info(`[BackupService] Migrating backup from version ${migrated.version}`);
+      migrated = migrate(migrated);
+    }
+
+    for (const [section, expected] of Object.entries<string>(migrated.checksums || {})) {
+      const value = migrated.data[section];
+      if (value === undefined || sha256Hex(canonicalizeJson(value)) !== expected) {
+        throw new Error(`Backup section "${section}" failed its integrity check`);
+      }
+    }
+
+    return migrated as BackupData;
   }
 }
 
@@ -0,0 +1,87 @@
+import { logger } from '../utils/logger';
+import { Stream } from '../types/metadata';
+import { stremioService } from './stremioService';
+import { streamCacheService } from './streamCacheService';
+import { BestStreamOptions, pickBestStream } from '../screens/streams/utils';
+
+/**
+ * Finds the stream binge mode starts for the next episode: the cached stream
+ * for that episode when there is one, otherwise the autoplay pick from a fresh
+ * stream search.
+ */
+
+export interface ResolveEpisodeStreamParams {
+  id: string;
+  episodeId: string;
+  options: BestStreamOptions;
+  timeoutMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 20000;
+// Once some streams are in, stop waiting for slow providers after this long without news
+const SETTLE_MS = 4000;
+const WARMUP_TIMEOUT_MS = 8000;
+
+const collectStreams = (id: string, episodeId: string, timeoutMs: number) =>
+  new Promise<{ [addonId: string]: { streams: Stream[] } }>((resolve) => {
+    const grouped: { [addonId: string]: { streams: Stream[] } } = {};
+    let done = false;
+    let settleTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const finish = () => {
+      if (done) return;
+      done = true;
+      clearTimeout(timeout);
+      if (settleTimer) clearTimeout(settleTimer);
+      resolve(grouped);
+    };
+    const timeout = setTimeout(finish, timeoutMs);
+
+    stremioService.getStreams('series', episodeId, (streams, addonId, _addonName, error) => {
+      if (done) return;
+      if (error || !streams || streams.length === 0 || !addonId) return;
+      grouped[addonId] = { streams: [...(grouped[addonId]?.streams || []), ...streams] };
+      if (settleTimer) clearTimeout(settleTimer);
+      settleTimer = setTimeout(finish, SETTLE_MS);
+    }).catch(error => {
+      logger.warn(`[BingeService] Stream search failed for ${id} ${episodeId}:`, error);
+      finish();
+    });
+  });
+
+export const bingeService = {
+  async resolveEpisodeStream({ id, episodeId, options, timeoutMs = DEFAULT_TIMEOUT_MS }: ResolveEpisodeStreamParams): Promise<Stream | null> {
+    const cached = await streamCacheService.getCachedStream(id, 'series', episodeId);
+    if (cached?.stream?.url) {
+      logger.log(`[BingeService] Using cached stream for ${episodeId}`);
+      return cached.stream as Stream;
+    }
+
+    const grouped = await collectStreams(id, episodeId, timeoutMs);
+    const best = pickBestStream(grouped, options);
+    logger.log(`[BingeService] ${best ? `Picked ${best.name || best.title}` : 'No stream'} for ${episodeId}`);
+    return best;
+  },
+
+  /**
+   * Requests the first byte of a direct stream so resolver/debrid links are
+   * generated and cached by the time the player opens them.
+   */
+  async warmUp(stream: Stream): Promise<void> {
+    if (!stream.url || !/^https?:\/\//i.test(stream.url)) return;
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), WARMUP_TIMEOUT_MS);
+    try {
+      await fetch(stream.url, {
+        headers: { ...(stream.headers as Record<string, string> | undefined), Range: 'bytes=0-0' },
+        signal: controller.signal,
+      });
+    } catch (error: any) {
+      logger.warn('[BingeService] Warm-up request failed:', error?.message || error);
+    } finally {
+      clearTimeout(timer);
+    }
+  },
+};
+
+export default bingeService;
@@ -1,6 +1,8 @@
 import { stremioService, Meta, Manifest } from './stremioService';
 import { notificationService } from './notificationService';
+import { localScraperService } from './pluginService';
 import { mmkvStorage } from './mmkvStorage';
+import { isProfileScope } from './profileService';
 import axios from 'axios';
 import { TMDBService } from './tmdbService';
 import { logger } from '../utils/logger';
@@ -219,8 +221,8 @@ class CatalogService {
       const scope = (await mmkvStorage.getItem('@user:current')) || 'local';
       const scopedKey = `@user:${scope}:stremio-library`;
       let storedLibrary = (await mmkvStorage.getItem(scopedKey));
-      if (!storedLibrary) {
-        // Fallback: read legacy and migrate into scoped
+      if (!storedLibrary && !isProfileScope(scope)) {
+        // Fallback: read legacy and migrate into scoped (added profiles start with an empty library)
         storedLibrary = await mmkvStorage.getItem(this.LEGACY_LIBRARY_KEY);
         if (storedLibrary) {
           await mmkvStorage.setItem(scopedKey, storedLibrary);
@@ -245,7 +247,7 @@ class CatalogService {
           const scopedKey = `@user:${scope}:stremio-library`;
           const libraryData = JSON.stringify(this.library);
           await mmkvStorage.setItem(scopedKey, libraryData);
-          await mmkvStorage.setItem(this.LEGACY_LIBRARY_KEY, libraryData);
+          if (!isProfileScope(scope)) await mmkvStorage.setItem(this.LEGACY_LIBRARY_KEY, libraryData);
           logger.log(`[CatalogService] Re-saved library in correct format`);
         } else {
           this.library = parsedLibrary;
@@ -277,7 +279,8 @@ class CatalogService {
       logger.log(`[CatalogService] Saving library with ${itemCount} items to scope: "${scope}" (key: ${scopedKey})`);
 
       await mmkvStorage.setItem(scopedKey, libraryData);
-      await mmkvStorage.setItem(this.LEGACY_LIBRARY_KEY, libraryData);
+      // The legacy key mirrors the original profile only
+      if (!isProfileScope(scope)) await mmkvStorage.setItem(this.LEGACY_LIBRARY_KEY, libraryData);
 
       logger.log(`[CatalogService] Library saved successfully with ${itemCount} items`);
     } catch (error: any) {
@@ -306,10 +309,22 @@ class CatalogService {
   }
 
   async getAllAddons(): Promise<StreamingAddon[]> {
-    const addons = await stremioService.getInstalledAddonsAsync();
+    const addons = await this.getCatalogManifests();
     return addons.map(addon => this.convertManifestToStreamingAddon(addon));
   }
 
+  // Installed addons plus local plugins that provide catalogs
+  async getCatalogManifests(): Promise<Manifest[]> {
+    const [addons, pluginManifests] = await Promise.all([
+      stremioService.getInstalledAddonsAsync(),
+      localScraperService.getCatalogManifests().catch(error => {
+        logger.warn('Failed to load plugin catalogs:', error);
+        return [] as Manifest[];
+      })
+    ]);
+    return [...addons, ...pluginManifests];
+  }
+
   private convertManifestToStreamingAddon(manifest: Manifest): StreamingAddon {
     return {
       id: manifest.id,
@@ -369,7 +384,7 @@ class CatalogService {
   async fetchHomeCatalog(addon: StreamingAddon, catalog: any): Promise<CatalogContent | null> {
     try {
       // Hoist manifest list retrieval and find once
-      const addonManifests = await stremioService.getInstalledAddonsAsync();
+      const addonManifests = await this.getCatalogManifests();
       const manifest = addonManifests.find(a => a.id === addon.id);
       if (!manifest) return null;
 
@@ -461,7 +476,7 @@ class CatalogService {
       for (const catalog of typeCatalogs) {
         const catalogPromise = (async () => {
           try {
-            const addonManifest = await stremioService.getInstalledAddonsAsync();
+            const addonManifest = await this.getCatalogManifests();
             const manifest = addonManifest.find(a => a.id === addon.id);
             if (!manifest) return null;
 
@@ -953,6 +968,12 @@ class CatalogService {
     return Object.values(this.library);
   }
 
+  // Re-read the library after account sync rewrote it in storage
+  public async reloadLibrary(): Promise<void> {
+    await this.loadLibrary();
+    this.notifyLibrarySubscribers();
+  }
+
   public subscribeToLibraryUpdates(callback: (items: StreamingContent[]) => void): () => void {
     this.librarySubscribers.push(callback);
     // Defer initial callback to next tick to avoid synchronous state updates during render
@@ -0,0 +1,824 @@
+import axios, { AxiosRequestConfig } from 'axios';
+import { mmkvStorage } from './mmkvStorage';
+import { logger } from '../utils/logger';
+
+export type DebridProviderId = 'realdebrid' | 'alldebrid' | 'premiumize' | 'torbox';
+
+export interface DebridAccount {
+  provider: DebridProviderId;
+  token: string;
+  tokenType: 'bearer' | 'apikey';
+  refreshToken?: string; // Real-Debrid device flow only
+  clientId?: string; // Real-Debrid device flow issues per-user client credentials
+  clientSecret?: string;
+  tokenExpiresAt?: number;
+  linkedAt: number;
+}
+
+export interface DebridAccountStatus {
+  provider: DebridProviderId;
+  username?: string;
+  email?: string;
+  isPremium: boolean;
+  expiresAt: number | null; // Premium expiry (ms), null when unknown or free
+}
+
+export interface DebridDeviceCode {
+  provider: DebridProviderId;
+  userCode: string;
+  verificationUrl: string;
+  deviceCode: string;
+  check?: string; // AllDebrid pin check id
+  interval: number; // Seconds between polls
+  expiresAt: number;
+}
+
+export interface DebridProgress {
+  provider: DebridProviderId;
+  status: string;
+  progress?: number; // 0-100
+  seeders?: number;
+  speed?: number; // Bytes per second
+}
+
+export interface DebridResolveRequest {
+  infoHash: string;
+  fileIdx?: number;
+  sources?: string[];
+  filename?: string;
+}
+
+export interface DebridResolveOptions {
+  provider?: DebridProviderId;
+  onProgress?: (progress: DebridProgress) => void;
+  maxWaitMs?: number; // How long to wait for an uncached torrent before giving up
+}
+
+export interface ResolvedDebridLink {
+  provider: DebridProviderId;
+  url: string;
+  filename?: string;
+  size?: number;
+}
+
+export const DEBRID_PROVIDERS: Array<{ id: DebridProviderId; name: string; website: string }> = [
+  { id: 'realdebrid', name: 'Real-Debrid', website: 'https://real-debrid.com' },
+  { id: 'alldebrid', name: 'AllDebrid', website: 'https://alldebrid.com' },
+  { id: 'premiumize', name: 'Premiumize', website: 'https://www.premiumize.me' },
+  { id: 'torbox', name: 'TorBox', website: 'https://torbox.app' },
+];
+
+const DEBRID_ACCOUNTS_KEY = 'debrid_accounts';
+const DEBRID_PREFERRED_KEY = 'debrid_preferred_provider';
+const LEGACY_TORBOX_STORAGE_KEY = 'torbox_debrid_config';
+
+const REAL_DEBRID_OAUTH = 'https://api.real-debrid.com/oauth/v2';
+const REAL_DEBRID_API = 'https://api.real-debrid.com/rest/1.0';
+// Real-Debrid's public client id for open source apps
+const REAL_DEBRID_CLIENT_ID = process.env.EXPO_PUBLIC_REAL_DEBRID_CLIENT_ID || 'X245A4XAIBGVM';
+const ALLDEBRID_API = 'https://api.alldebrid.com/v4';
+const ALLDEBRID_AGENT = process.env.EXPO_PUBLIC_ALLDEBRID_AGENT || 'nuvio';
+const PREMIUMIZE_API = 'https://www.premiumize.me/api';
+const PREMIUMIZE_TOKEN_URL = 'https://www.premiumize.me/token';
+// Premiumize only offers device linking to registered apps; without a client id we fall back to API keys
+const PREMIUMIZE_CLIENT_ID = process.env.EXPO_PUBLIC_PREMIUMIZE_CLIENT_ID || '';
+const TORBOX_API = 'https://api.torbox.app/v1/api';
+
+const REQUEST_TIMEOUT_MS = 15000;
+const POLL_INTERVAL_MS = 2000;
+const DEFAULT_MAX_WAIT_MS = 30000;
+const AVAILABILITY_TTL_MS = 10 * 60 * 1000;
+const VIDEO_EXTENSIONS = /\.(mkv|mp4|avi|mov|m4v|webm|ts|m2ts|wmv|flv)$/i;
+
+interface TorrentFileCandidate<T> {
+  item: T;
+  index?: number; // Position in the original torrent, comparable to Stream.fileIdx
+  name: string;
+  size: number;
+}
+
+const formEncode = (data: Record<string, string>): string =>
+  Object.entries(data)
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`)
+    .join('&');
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const buildMagnetUri = (infoHash: string, sources?: string[], name?: string): string => {
+  const trackers = (sources || [])
+    .filter(source => source.startsWith('tracker:'))
+    .map(source => `&tr=${encodeURIComponent(source.replace(/^tracker:/, ''))}`)
+    .join('');
+  const displayName = name ? `&dn=${encodeURIComponent(name)}` : '';
+  return `magnet:?xt=urn:btih:${infoHash}${displayName}${trackers}`;
+};
+
+// Pick the torrent file that matches the stream: explicit filename, then fileIdx, then the largest video
+const pickTorrentFile = <T>(files: TorrentFileCandidate<T>[], request: DebridResolveRequest): TorrentFileCandidate<T> | null => {
+  if (files.length === 0) return null;
+
+  if (request.filename) {
+    const wanted = request.filename.toLowerCase();
+    const byName = files.find(file => {
+      const name = file.name.toLowerCase();
+      return name === wanted || name.endsWith(`/${wanted}`);
+    });
+    if (byName) return byName;
+  }
+
+  if (typeof request.fileIdx === 'number') {
+    const byIndex = files.find(file => file.index === request.fileIdx);
+    if (byIndex) return byIndex;
+  }
+
+  const videos = files.filter(file => VIDEO_EXTENSIONS.test(file.name));
+  const pool = videos.length > 0 ? videos : files;
+  return pool.reduce((largest, file) => (file.size > largest.size ? file : largest), pool[0]);
+};
+
+class DebridService {
+  private static instance: DebridService;
+  private accounts: Partial<Record<DebridProviderId, DebridAccount>> = {};
+  private preferredProvider: DebridProviderId | null = null;
+  private availabilityCache = new Map<string, { available: boolean; timestamp: number }>();
+  private initPromise: Promise<void> | null = null;
+
+  private constructor() {}
+
+  static getInstance(): DebridService {
+    if (!DebridService.instance) {
+      DebridService.instance = new DebridService();
+    }
+    return DebridService.instance;
+  }
+
+  async initialize(): Promise<void> {
+    if (!this.initPromise) {
+      this.initPromise = this.loadAccounts();
+    }
+    return this.initPromise;
+  }
+
+  private async loadAccounts(): Promise<void> {
+    try {
+      const stored = await mmkvStorage.getItem(DEBRID_ACCOUNTS_KEY);
+      this.accounts = stored ? JSON.parse(stored) : {};
+      const preferred = await mmkvStorage.getItem(DEBRID_PREFERRED_KEY);
+      this.preferredProvider = (preferred as DebridProviderId) || null;
+
+      // The Torbox addon screen used to keep its own API key; reuse it for in-app resolving
+      if (!this.accounts.torbox) {
+        const legacy = await mmkvStorage.getItem(LEGACY_TORBOX_STORAGE_KEY);
+        const legacyConfig = legacy ? JSON.parse(legacy) : null;
+        if (legacyConfig?.apiKey) {
+          this.accounts.torbox = { provider: 'torbox', token: legacyConfig.apiKey, tokenType: 'bearer', linkedAt: Date.now() };
+          await this.saveAccounts();
+        }
+      }
+    } catch (error) {
+      logger.error('[DebridService] Failed to load accounts:', error);
+      this.accounts = {};
+    }
+  }
+
+  private async saveAccounts(): Promise<void> {
+    await mmkvStorage.setItem(DEBRID_ACCOUNTS_KEY, JSON.stringify(this.accounts));
+  }
+
+  async getLinkedProviders(): Promise<DebridProviderId[]> {
+    await this.initialize();
+    return DEBRID_PROVIDERS.map(p => p.id).filter(id => !!this.accounts[id]);
+  }
+
+  async hasLinkedAccount(): Promise<boolean> {
+    return (await this.getLinkedProviders()).length > 0;
+  }
+
+  async getPreferredProvider(): Promise<DebridProviderId | null> {
+    const linked = await this.getLinkedProviders();
+    if (this.preferredProvider && linked.includes(this.preferredProvider)) {
+      return this.preferredProvider;
+    }
+    return linked[0] || null;
+  }
+
+  async setPreferredProvider(provider: DebridProviderId): Promise<void> {
+    await this.initialize();
+    this.preferredProvider = provider;
+    await mmkvStorage.setItem(DEBRID_PREFERRED_KEY, provider);
+  }
+
+  supportsDeviceLink(provider: DebridProviderId): boolean {
+    if (provider === 'premiumize') return !!PREMIUMIZE_CLIENT_ID;
+    return provider === 'realdebrid' || provider === 'alldebrid';
+  }
+
+  // ---- Account linking ----
+
+  async startDeviceLink(provider: DebridProviderId): Promise<DebridDeviceCode> {
+    switch (provider) {
+      case 'realdebrid': {
+        const { data } = await axios.get(`${REAL_DEBRID_OAUTH}/device/code`, {
+          params: { client_id: REAL_DEBRID_CLIENT_ID, new_credentials: 'yes' },
+          timeout: REQUEST_TIMEOUT_MS,
+        });
+        return {
+          provider,
+          userCode: data.user_code,
+          verificationUrl: data.verification_url,
+          deviceCode: data.device_code,
+          interval: data.interval || 5,
+          expiresAt: Date.now() + (data.expires_in || 600) * 1000,
+        };
+      }
+      case 'alldebrid': {
+        const { data } = await axios.get(`${ALLDEBRID_API}/pin/get`, {
+          params: { agent: ALLDEBRID_AGENT },
+          timeout: REQUEST_TIMEOUT_MS,
+        });
+        if (data?.status !== 'success') {
+          throw new Error(data?.error?.message || 'AllDebrid did not return a PIN');
+        }
+        return {
+          provider,
+          userCode: data.data.pin,
+          verificationUrl: data.data.base_url || data.data.user_url,
+          deviceCode: data.data.pin,
+          check: data.data.check,
+          interval: 5,
+          expiresAt: Date.now() + (data.data.expires_in || 600) * 1000,
+        };
+      }
+      case 'premiumize': {
+        if (!PREMIUMIZE_CLIENT_ID) {
+          throw new Error('Premiumize device linking is not configured, use an API key instead');
+        }
+        const { data } = await axios.post(
+          PREMIUMIZE_TOKEN_URL,
+          formEncode({ response_type: 'device_code', client_id: PREMIUMIZE_CLIENT_ID }),
+          { headers: { 'Content-Type': 'application/x-www-form-urlencoded' }, timeout: REQUEST_TIMEOUT_MS }
+        );
+        return {
+          provider,
+          userCode: data.user_code,
+          verificationUrl: data.verification_uri,
+          deviceCode: data.device_code,
+          interval: data.interval || 5,
+          expiresAt: Date.now() + (data.expires_in || 600) * 1000,
+        };
+      }
+      default:
+        throw new Error(`${provider} does not support device linking`);
+    }
+  }
+
+  /**
+   * Poll once for a pending device link. Returns null while the user has not
+   * approved yet, the account once linked, and throws when the code expired.
+   */
+  async pollDeviceLink(code: DebridDeviceCode): Promise<DebridAccount | null> {
+    if (Date.now() > code.expiresAt) {
+      throw new Error('The linking code expired, please start again');
+    }
+
+    let account: DebridAccount | null = null;
+    try {
+      switch (code.provider) {
+        case 'realdebrid': {
+          const credentials = await axios.get(`${REAL_DEBRID_OAUTH}/device/credentials`, {
+            params: { client_id: REAL_DEBRID_CLIENT_ID, code: code.deviceCode },
+            timeout: REQUEST_TIMEOUT_MS,
+            validateStatus: status => status < 500,
+          });
+          if (credentials.status !== 200 || !credentials.data?.client_secret) return null;
+
+          const token = await this.requestRealDebridToken(
+            credentials.data.client_id,
+            credentials.data.client_secret,
+            code.deviceCode
+          );
+          account = {
+            provider: 'realdebrid',
+            token: token.access_token,
+            tokenType: 'bearer',
+            refreshToken: token.refresh_token,
+            clientId: credentials.data.client_id,
+            clientSecret: credentials.data.client_secret,
+            tokenExpiresAt: Date.now() + token.expires_in * 1000,
+            linkedAt: Date.now(),
+          };
+          break;
+        }
+        case 'alldebrid': {
+          const { data } = await axios.get(`${ALLDEBRID_API}/pin/check`, {
+            params: { agent: ALLDEBRID_AGENT, check: code.check, pin: code.deviceCode },
+            timeout: REQUEST_TIMEOUT_MS,
+          });
+          if (data?.status !== 'success') {
+            throw new Error(data?.error?.message || 'AllDebrid rejected the PIN');
+          }
+          if (!data.data?.activated || !data.data?.apikey) return null;
+          account = { provider: 'alldebrid', token: data.data.apikey, tokenType: 'bearer', linkedAt: Date.now() };
+          break;
+        }
+        case 'premiumize': {
+          const response = await axios.post(
+            PREMIUMIZE_TOKEN_URL,
+            formEncode({ grant_type: 'device_code', client_id: PREMIUMIZE_CLIENT_ID, code: code.deviceCode }),
+            {
+              headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+              timeout: REQUEST_TIMEOUT_MS,
+              validateStatus: status => status < 500,
+            }
+          );
+          if (response.data?.error === 'authorization_pending' || response.data?.error === 'slow_down') return null;
+          if (!response.data?.access_token) {
+            throw new Error(response.data?.error_description || response.data?.error || 'Premiumize rejected the code');
+          }
+          account = {
+            provider: 'premiumize',
+            token: response.data.access_token,
+            tokenType: 'bearer',
+            tokenExpiresAt: response.data.expires_in ? Date.now() + response.data.expires_in * 1000 : undefined,
+            linkedAt: Date.now(),
+          };
+          break;
+        }
+        default:
+          throw new Error(`${code.provider} does not support device linking`);
+      }
+    } catch (error) {
+      logger.error(`[DebridService] Device link poll failed for ${code.provider}:`, error);
+      throw error;
+    }
+
+    await this.storeAccount(account);
+    return account;
+  }
+
+  // Link with a private API token (all providers accept one)
+  async linkWithApiKey(provider: DebridProviderId, apiKey: string): Promise<DebridAccountStatus> {
+    const token = apiKey.trim();
+    if (!token) {
+      throw new Error('API key is required');
+    }
+    const account: DebridAccount = {
+      provider,
+      token,
+      tokenType: provider === 'premiumize' ? 'apikey' : 'bearer',
+      linkedAt: Date.now(),
+    };
+
+    // Validate before persisting so a typo does not leave a broken account behind
+    const status = await this.fetchAccountStatus(account);
+    await this.storeAccount(account);
+    return status;
+  }
+
+  async unlink(provider: DebridProviderId): Promise<void> {
+    await this.initialize();
+    delete this.accounts[provider];
+    if (this.preferredProvider === provider) {
+      this.preferredProvider = null;
+      await mmkvStorage.removeItem(DEBRID_PREFERRED_KEY);
+    }
+    for (const key of Array.from(this.availabilityCache.keys())) {
+      if (key.startsWith(`${provider}:`)) this.availabilityCache.delete(key);
+    }
+    await this.saveAccounts();
+    logger.log(`[DebridService] Unlinked ${provider}`);
+  }
+
+  private async storeAccount(account: DebridAccount): Promise<void> {
+    await this.initialize();
+    this.accounts[account.provider] = account;
+    await this.saveAccounts();
+    logger.log(`[DebridService] Linked ${account.provider}`);
+  }
+
+  async getAccountStatus(provider: DebridProviderId): Promise<DebridAccountStatus | null> {
+    const account = await this.getAccount(provider);
+    if (!account) return null;
+    return this.fetchAccountStatus(account);
+  }
+
+  private async fetchAccountStatus(account: DebridAccount): Promise<DebridAccountStatus> {
+    const { provider } = account;
+    switch (provider) {
+      case 'realdebrid': {
+        const data = await this.request<any>(account, { url: `${REAL_DEBRID_API}/user` });
+        return {
+          provider,
+          username: data.username,
+          email: data.email,
+          isPremium: data.type === 'premium',
+          expiresAt: data.expiration ? new Date(data.expiration).getTime() : null,
+        };
+      }
+      case 'alldebrid': {
+        const data = await this.request<any>(account, { url: `${ALLDEBRID_API}/user` });
+        const user = data.user || {};
+        return {
+          provider,
+          username: user.username,
+          email: user.email,
+          isPremium: !!user.isPremium,
+          expiresAt: user.premiumUntil ? user.premiumUntil * 1000 : null,
+        };
+      }
+      case 'premiumize': {
+        const data = await this.request<any>(account, { url: `${PREMIUMIZE_API}/account/info` });
+        return {
+          provider,
+          username: data.customer_id ? String(data.customer_id) : undefined,
+          isPremium: !!data.premium_until && data.premium_until * 1000 > Date.now(),
+          expiresAt: data.premium_until ? data.premium_until * 1000 : null,
+        };
+      }
+      case 'torbox': {
+        const data = await this.request<any>(account, { url: `${TORBOX_API}/user/me`, params: { settings: false } });
+        return {
+          provider,
+          email: data.base_email || data.email,
+          isPremium: !!data.is_subscribed,
+          expiresAt: data.premium_expires_at ? new Date(data.premium_expires_at).getTime() : null,
+        };
+      }
+    }
+  }
+
+  // ---- Availability ----
+
+  /**
+   * Check which info hashes are cached on the given (or preferred) provider.
+   * Results are keyed by lowercase info hash; unknown hashes map to false.
+   */
+  async checkInstantAvailability(infoHashes: string[], provider?: DebridProviderId): Promise<Record<string, boolean>> {
+    const target = provider || (await this.getPreferredProvider());
+    const hashes = Array.from(new Set(infoHashes.filter(Boolean).map(hash => hash.toLowerCase())));
+    const result: Record<string, boolean> = {};
+    if (!target || hashes.length === 0) return result;
+
+    const account = await this.getAccount(target);
+    if (!account) return result;
+
+    const now = Date.now();
+    const pending: string[] = [];
+    for (const hash of hashes) {
+      const cached = this.availabilityCache.get(`${target}:${hash}`);
+      if (cached && now - cached.timestamp < AVAILABILITY_TTL_MS) {
+        result[hash] = cached.available;
+      } else {
+        pending.push(hash);
+      }
+    }
+
+    // Providers cap how many hashes fit in a single request
+    for (let i = 0; i < pending.length; i += 50) {
+      const batch = pending.slice(i, i + 50);
+      let available: Set<string>;
+      try {
+        available = await this.fetchAvailability(account, batch);
+      } catch (error) {
+        logger.warn(`[DebridService] Availability check failed on ${target}:`, error);
+        continue;
+      }
+      for (const hash of batch) {
+        result[hash] = available.has(hash);
+        this.availabilityCache.set(`${target}:${hash}`, { available: result[hash], timestamp: now });
+      }
+    }
+    return result;
+  }
+
+  private async fetchAvailability(account: DebridAccount, hashes: string[]): Promise<Set<string>> {
+    const available = new Set<string>();
+    switch (account.provider) {
+      case 'realdebrid': {
+        const data = await this.request<any>(account, {
+          url: `${REAL_DEBRID_API}/torrents/instantAvailability/${hashes.join('/')}`,
+        });
+        for (const [hash, entry] of Object.entries<any>(data || {})) {
+          if (Array.isArray(entry?.rd) && entry.rd.length > 0) available.add(hash.toLowerCase());
+        }
+        break;
+      }
+      case 'alldebrid': {
+        const data = await this.request<any>(account, {
+          url: `${ALLDEBRID_API}/magnet/instant`,
+          params: { magnets: hashes },
+          paramsSerializer: { indexes: false }, // magnets[]=a&magnets[]=b
+        });
+        for (const magnet of data?.magnets || []) {
+          if (magnet.instant) available.add(String(magnet.hash || magnet.magnet).toLowerCase());
+        }
+        break;
+      }
+      case 'premiumize': {
+        const data = await this.request<any>(account, {
+          url: `${PREMIUMIZE_API}/cache/check`,
+          params: { items: hashes },
+          paramsSerializer: { indexes: false }, // items[]=a&items[]=b
+        });
+        (data?.response || []).forEach((isCached: boolean, index: number) => {
+          if (isCached) available.add(hashes[index]);
+        });
+        break;
+      }
+      case 'torbox': {
+        const data = await this.request<any>(account, {
+          url: `${TORBOX_API}/torrents/checkcached`,
+          params: { hash: hashes.join(','), format: 'list', list_files: false },
+        });
+        for (const entry of Array.isArray(data) ? data : []) {
+          if (entry?.hash) available.add(String(entry.hash).toLowerCase());
+        }
+        break;
+      }
+    }
+    return available;
+  }
+
+  // ---- Resolving ----
+
+  /**
+   * Turn a torrent (info hash + optional file index) into a direct HTTP link
+   * through the given or preferred debrid account.
+   */
+  async resolveMagnet(request: DebridResolveRequest, options: DebridResolveOptions = {}): Promise<ResolvedDebridLink> {
+    const provider = options.provider || (await this.getPreferredProvider());
+    if (!provider) {
+      throw new Error('No debrid account linked');
+    }
+    const account = await this.getAccount(provider);
+    if (!account) {
+      throw new Error(`${provider} is not linked`);
+    }
+
+    const magnet = buildMagnetUri(request.infoHash, request.sources, request.filename);
+    const deadline = Date.now() + (options.maxWaitMs ?? DEFAULT_MAX_WAIT_MS);
+    const report = (progress: Omit<DebridProgress, 'provider'>) => options.onProgress?.({ provider, ...progress });
+
+    logger.log(`[DebridService] Resolving ${request.infoHash} (file ${request.fileIdx ?? 'auto'}) via ${provider}`);
+    report({ status: 'adding' });
+
+    switch (provider) {
+      case 'realdebrid':
+        return this.resolveWithRealDebrid(account, magnet, request, deadline, report);
+      case 'alldebrid':
+        return this.resolveWithAllDebrid(account, magnet, request, deadline, report);
+      case 'premiumize':
+        return this.resolveWithPremiumize(account, magnet, request);
+      case 'torbox':
+        return this.resolveWithTorbox(account, magnet, request, deadline, report);
+    }
+  }
+
+  private async resolveWithRealDebrid(
+    account: DebridAccount,
+    magnet: string,
+    request: DebridResolveRequest,
+    deadline: number,
+    report: (progress: Omit<DebridProgress, 'provider'>) => void
+  ): Promise<ResolvedDebridLink> {
+    const added = await this.request<any>(account, {
+      method: 'POST',
+      url: `${REAL_DEBRID_API}/torrents/addMagnet`,
+      data: formEncode({ magnet }),
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    });
+    const torrentId = added.id;
+    let filesSelected = false;
+
+    while (true) {
+      const info = await this.request<any>(account, { url: `${REAL_DEBRID_API}/torrents/info/${torrentId}` });
+
+      if (info.status === 'waiting_files_selection' && !filesSelected) {
+        // Real-Debrid file ids are 1-based positions in the torrent
+        const file = pickTorrentFile<any>(
+          (info.files || []).map((f: any) => ({ item: f, index: f.id - 1, name: f.path || '', size: f.bytes || 0 })),
+          request
+        );
+        if (!file) throw new Error('Torrent has no playable files');
+        await this.request(account, {
+          method: 'POST',
+          url: `${REAL_DEBRID_API}/torrents/selectFiles/${torrentId}`,
+          data: formEncode({ files: String(file.item.id) }),
+          headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        });
+        filesSelected = true;
+        continue;
+      }
+
+      if (info.status === 'downloaded' && info.links?.length > 0) {
+        const unrestricted = await this.request<any>(account, {
+          method: 'POST',
+          url: `${REAL_DEBRID_API}/unrestrict/link`,
+          data: formEncode({ link: info.links[0] }),
+          headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        });
+        return { provider: 'realdebrid', url: unrestricted.download, filename: unrestricted.filename, size: unrestricted.filesize };
+      }
+
+      if (['error', 'magnet_error', 'virus', 'dead'].includes(info.status)) {
+        throw new Error(`Real-Debrid could not process this torrent (${info.status})`);
+      }
+
+      report({ status: info.status, progress: info.progress, seeders: info.seeders, speed: info.speed });
+      if (Date.now() > deadline) {
+        throw new Error(`Real-Debrid is still downloading this torrent (${info.progress || 0}%)`);
+      }
+      await sleep(POLL_INTERVAL_MS);
+    }
+  }
+
+  private async resolveWithAllDebrid(
+    account: DebridAccount,
+    magnet: string,
+    request: DebridResolveRequest,
+    deadline: number,
+    report: (progress: Omit<DebridProgress, 'provider'>) => void
+  ): Promise<ResolvedDebridLink> {
+    const uploaded = await this.request<any>(account, {
+      url: `${ALLDEBRID_API}/magnet/upload`,
+      params: { magnets: [magnet] },
+      paramsSerializer: { indexes: false },
+    });
+    const magnetId = uploaded?.magnets?.[0]?.id;
+    if (!magnetId) {
+      throw new Error(uploaded?.magnets?.[0]?.error?.message || 'AllDebrid rejected the magnet');
+    }
+
+    while (true) {
+      const data = await this.request<any>(account, { url: `${ALLDEBRID_API}/magnet/status`, params: { id: magnetId } });
+      const status = data?.magnets;
+
+      // statusCode 4 is "Ready"; 5 and above are errors
+      if (status?.statusCode === 4) {
+        const file = pickTorrentFile<any>(
+          (status.links || []).map((l: any) => ({ item: l, name: l.filename || '', size: l.size || 0 })),
+          request
+        );
+        if (!file) throw new Error('Torrent has no playable files');
+        const unlocked = await this.request<any>(account, { url: `${ALLDEBRID_API}/link/unlock`, params: { link: file.item.link } });
+        return { provider: 'alldebrid', url: unlocked.link, filename: unlocked.filename, size: unlocked.filesize };
+      }
+      if (status?.statusCode >= 5) {
+        throw new Error(`AllDebrid could not process this torrent (${status.status})`);
+      }
+
+      const progress = status?.size ? Math.round((status.downloaded / status.size) * 100) : undefined;
+      report({ status: status?.status || 'queued', progress, seeders: status?.seeders, speed: status?.downloadSpeed });
+      if (Date.now() > deadline) {
+        throw new Error(`AllDebrid is still downloading this torrent (${progress || 0}%)`);
+      }
+      await sleep(POLL_INTERVAL_MS);
+    }
+  }
+
+  private async resolveWithPremiumize(
+    account: DebridAccount,
+    magnet: string,
+    request: DebridResolveRequest
+  ): Promise<ResolvedDebridLink> {
+    // directdl only succeeds for cached torrents, so there is nothing to poll
+    const data = await this.request<any>(account, {
+      method: 'POST',
+      url: `${PREMIUMIZE_API}/transfer/directdl`,
+      data: formEncode({ src: magnet }),
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    });
+    const file = pickTorrentFile<any>(
+      (data?.content || []).map((c: any) => ({ item: c, name: c.path || '', size: c.size || 0 })),
+      request
+    );
+    if (!file) {
+      throw new Error('This torrent is not cached on Premiumize');
+    }
+    return {
+      provider: 'premiumize',
+      url: file.item.stream_link || file.item.link,
+      filename: file.name.split('/').pop(),
+      size: file.size,
+    };
+  }
+
+  private async resolveWithTorbox(
+    account: DebridAccount,
+    magnet: string,
+    request: DebridResolveRequest,
+    deadline: number,
+    report: (progress: Omit<DebridProgress, 'provider'>) => void
+  ): Promise<ResolvedDebridLink> {
+    const form = new FormData();
+    form.append('magnet', magnet);
+    const created = await this.request<any>(account, {
+      method: 'POST',
+      url: `${TORBOX_API}/torrents/createtorrent`,
+      data: form,
+      headers: { 'Content-Type': 'multipart/form-data' },
+    });
+    const torrentId = created?.torrent_id;
+    if (!torrentId) {
+      throw new Error('TorBox rejected the magnet');
+    }
+
+    while (true) {
+      const torrent = await this.request<any>(account, {
+        url: `${TORBOX_API}/torrents/mylist`,
+        params: { id: torrentId, bypass_cache: true },
+      });
+
+      if (torrent?.download_finished || torrent?.download_present) {
+        const file = pickTorrentFile<any>(
+          (torrent.files || []).map((f: any) => ({ item: f, index: f.id, name: f.name || f.short_name || '', size: f.size || 0 })),
+          request
+        );
+        if (!file) throw new Error('Torrent has no playable files');
+        const url = await this.request<string>(account, {
+          url: `${TORBOX_API}/torrents/requestdl`,
+          params: { token: account.token, torrent_id: torrentId, file_id: file.item.id },
+        });
+        return { provider: 'torbox', url, filename: file.name.split('/').pop(), size: file.size };
+      }
+
+      const progress = typeof torrent?.progress === 'number' ? Math.round(torrent.progress * 100) : undefined;
+      report({ status: torrent?.download_state || 'queued', progress, seeders: torrent?.seeds, speed: torrent?.download_speed });
+      if (Date.now() > deadline) {
+        throw new Error(`TorBox is still downloading this torrent (${progress || 0}%)`);
+      }
+      await sleep(POLL_INTERVAL_MS);
+    }
+  }
+
+  // ---- HTTP helpers ----
+
+  private async getAccount(provider: DebridProviderId): Promise<DebridAccount | null> {
+    await this.initialize();
+    const account = this.accounts[provider];
+    if (!account) return null;
+
+    // Real-Debrid device tokens are short-lived; refresh a minute before expiry
+    if (account.refreshToken && account.tokenExpiresAt && account.tokenExpiresAt - 60000 < Date.now()) {
+      try {
+        const token = await this.requestRealDebridToken(account.clientId!, account.clientSecret!, account.refreshToken);
+        account.token = token.access_token;
+        account.refreshToken = token.refresh_token || account.refreshToken;
+        account.tokenExpiresAt = Date.now() + token.expires_in * 1000;
+        await this.saveAccounts();
+      } catch (error) {
+        logger.error('[DebridService] Failed to refresh Real-Debrid token:', error);
+      }
+    }
+    return account;
+  }
+
+  private async requestRealDebridToken(clientId: string, clientSecret: string, code: string): Promise<any> {
+    const { data } = await axios.post(
+      `${REAL_DEBRID_OAUTH}/token`,
+      formEncode({
+        client_id: clientId,
+        client_secret: clientSecret,
+        code,
+        grant_type: 'http://oauth.net/grant_type/device/1.0',
+      }),
+      { headers: { 'Content-Type': 'application/x-www-form-urlencoded' }, timeout: REQUEST_TIMEOUT_MS }
+    );
+    return data;
+  }
+
+  // Authenticated request that unwraps each provider's response envelope
+  private async request<T = any>(account: DebridAccount, config: AxiosRequestConfig): Promise<T> {
+    const params: Record<string, any> = { ...(config.params || {}) };
+    const headers: Record<string, any> = { ...(config.headers as Record<string, any> || {}) };
+
+    if (account.tokenType === 'apikey') {
+      params.apikey = account.token;
+    } else {
+      headers.Authorization = `Bearer ${account.token}`;
+    }
+    if (account.provider === 'alldebrid') {
+      params.agent = ALLDEBRID_AGENT;
+    }
+
+    const response = await axios.request({ timeout: REQUEST_TIMEOUT_MS, ...config, params, headers });
+    const body = response.data;
+
+    switch (account.provider) {
+      case 'alldebrid':
+        if (body?.status !== 'success') throw new Error(body?.error?.message || 'AllDebrid request failed');
+        return body.data;
+      case 'premiumize':
+        if (body?.status && body.status !== 'success') throw new Error(body.message || 'Premiumize request failed');
+        return body;
+      case 'torbox':
+        if (body?.success === false) throw new Error(body.detail || body.error || 'TorBox request failed');
+        return body?.data;
+      default:
+        return body;
+    }
+  }
+}
+
+export const debridService = DebridService.getInstance();
+export default debridService;
@@ -18,7 +18,7 @@ export interface SkipInterval {
     startTime: number;
     endTime: number;
     type: SkipType;
-    provider: 'introdb' | 'aniskip';
+    provider: 'introdb' | 'aniskip' | 'local';
     skipId?: string;
 }
 
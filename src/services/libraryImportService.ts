@@ -0,0 +1,517 @@
+import { DeviceEventEmitter } from 'react-native';
+import { logger } from '../utils/logger';
+import { mmkvStorage } from './mmkvStorage';
+import { tmdbService } from './tmdbService';
+import { catalogService, StreamingContent } from './catalogService';
+import { watchedService } from './watchedService';
+import { stremioService } from './stremioService';
+
+export type ImportSource = 'letterboxd' | 'imdb' | 'stremio';
+export type ImportFileKind =
+  | 'letterboxd_watched'
+  | 'letterboxd_ratings'
+  | 'letterboxd_watchlist'
+  | 'letterboxd_diary'
+  | 'imdb_ratings'
+  | 'imdb_watchlist'
+  | 'stremio_library'
+  | 'stremio_addons';
+export type ImportAction = 'library' | 'watched';
+export type ImportStatus = 'pending' | 'matched' | 'review' | 'unmatched' | 'skipped';
+
+export interface ImportMatch {
+  type: 'movie' | 'series';
+  name: string;
+  imdbId?: string;
+  tmdbId?: number;
+  // Non-IMDb ids carried over from Stremio (e.g. kitsu:1)
+  stremioId?: string;
+  year?: number;
+  poster?: string;
+}
+
+export interface ImportRow {
+  key: string;
+  source: ImportSource;
+  title: string;
+  year?: number;
+  type?: 'movie' | 'series';
+  imdbId?: string;
+  actions: ImportAction[];
+  watchedAt?: number;
+  // Extra metadata IMDb exports carry, kept for smart lists
+  imdbRating?: string;
+  runtime?: string;
+  genres?: string[];
+  status: ImportStatus;
+  match?: ImportMatch;
+  candidates: ImportMatch[];
+}
+
+export interface ImportAddon {
+  transportUrl: string;
+  id: string;
+  name: string;
+}
+
+export interface ParsedImportFile {
+  fileName: string;
+  kind: ImportFileKind;
+  rows: ImportRow[];
+  addons: ImportAddon[];
+  // Rows that can't be imported, e.g. single episodes or games
+  skipped: number;
+}
+
+export interface ImportResult {
+  addedToLibrary: number;
+  markedWatched: number;
+  addonsInstalled: number;
+  failed: number;
+}
+
+const RESOLVE_BATCH_SIZE = 4;
+const MAX_CANDIDATES = 5;
+const PLACEHOLDER_POSTER = 'https://via.placeholder.com/300x450/cccccc/666666?text=No+Image';
+
+// RFC 4180 CSV: quoted fields may hold commas, newlines and doubled quotes
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      if (row.some(value => value !== '')) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  if (row.some(value => value !== '')) rows.push(row);
+  return rows;
+};
+
+const parseYear = (value?: string | number): number | undefined => {
+  const year = parseInt(String(value ?? '').slice(0, 4), 10);
+  return Number.isNaN(year) ? undefined : year;
+};
+
+const parseDate = (value?: string): number | undefined => {
+  if (!value) return undefined;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : time;
+};
+
+const normalizeTitle = (title: string) =>
+  title.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9]+/g, ' ').trim();
+
+const rowKey = (row: Pick<ImportRow, 'imdbId' | 'title' | 'year'>) =>
+  row.imdbId || `${normalizeTitle(row.title)}|${row.year ?? ''}`;
+
+const IMDB_TYPES: Record<string, 'movie' | 'series'> = {
+  movie: 'movie',
+  tvMovie: 'movie',
+  short: 'movie',
+  tvShort: 'movie',
+  video: 'movie',
+  tvSpecial: 'movie',
+  tvSeries: 'series',
+  tvMiniSeries: 'series',
+};
+
+const toMatch = (result: any): ImportMatch | null => {
+  const mediaType = result.media_type === 'tv' ? 'series' : result.media_type === 'movie' ? 'movie' : null;
+  if (!mediaType) return null;
+  return {
+    type: mediaType,
+    name: (mediaType === 'movie' ? result.title : result.name) || 'Unknown',
+    tmdbId: result.id,
+    year: parseYear(mediaType === 'movie' ? result.release_date : result.first_air_date),
+    poster: result.poster_path ? `https://image.tmdb.org/t/p/w500${result.poster_path}` : undefined,
+  };
+};
+
+class LibraryImportService {
+  private static instance: LibraryImportService;
+
+  private constructor() { }
+
+  static getInstance(): LibraryImportService {
+    if (!LibraryImportService.instance) {
+      LibraryImportService.instance = new LibraryImportService();
+    }
+    return LibraryImportService.instance;
+  }
+
+  /**
+   * Detect and parse a Letterboxd CSV, IMDb CSV or Stremio JSON export.
+   */
+  parseFile(fileName: string, content: string): ParsedImportFile {
+    const trimmed = content.trim();
+    if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+      return this.parseStremio(fileName, JSON.parse(trimmed));
+    }
+
+    const [header, ...records] = parseCsv(content);
+    if (!header) throw new Error('The file is empty');
+    const columns = header.map(column => column.trim());
+    const get = (record: string[], column: string) => {
+      const index = columns.indexOf(column);
+      return index >= 0 ? (record[index] ?? '').trim() : '';
+    };
+
+    if (columns.includes('Const')) {
+      return this.parseImdb(fileName, columns, records, get);
+    }
+    if (columns.includes('Name') && columns.includes('Year')) {
+      return this.parseLetterboxd(fileName, columns, records, get);
+    }
+    throw new Error('Unrecognized file format');
+  }
+
+  private parseLetterboxd(
+    fileName: string,
+    columns: string[],
+    records: string[][],
+    get: (record: string[], column: string) => string
+  ): ParsedImportFile {
+    // watched.csv and watchlist.csv share their columns, so the file name decides
+    const kind: ImportFileKind = columns.includes('Watched Date')
+      ? 'letterboxd_diary'
+      : columns.includes('Rating')
+        ? 'letterboxd_ratings'
+        : /watchlist/i.test(fileName)
+          ? 'letterboxd_watchlist'
+          : 'letterboxd_watched';
+    const action: ImportAction = kind === 'letterboxd_watchlist' ? 'library' : 'watched';
+
+    const rows = records
+      .filter(record => get(record, 'Name'))
+      .map(record => {
+        const row: ImportRow = {
+          key: '',
+          source: 'letterboxd',
+          title: get(record, 'Name'),
+          year: parseYear(get(record, 'Year')),
+          type: 'movie',
+          actions: [action],
+          watchedAt: action === 'watched'
+            ? parseDate(get(record, 'Watched Date')) ?? parseDate(get(record, 'Date'))
+            : undefined,
+          status: 'pending',
+          candidates: [],
+        };
+        row.key = rowKey(row);
+        return row;
+      });
+
+    return { fileName, kind, rows, addons: [], skipped: 0 };
+  }
+
+  private parseImdb(
+    fileName: string,
+    columns: string[],
+    records: string[][],
+    get: (record: string[], column: string) => string
+  ): ParsedImportFile {
+    // Watchlists and custom lists have a Position column, ratings don't
+    const kind: ImportFileKind = columns.includes('Position') ? 'imdb_watchlist' : 'imdb_ratings';
+    const action: ImportAction = kind === 'imdb_watchlist' ? 'library' : 'watched';
+    const rows: ImportRow[] = [];
+    let skipped = 0;
+
+    records.forEach(record => {
+      const imdbId = get(record, 'Const');
+      const type = IMDB_TYPES[get(record, 'Title Type')];
+      if (!/^tt\d+$/.test(imdbId) || !type) {
+        skipped++;
+        return;
+      }
+      const runtime = get(record, 'Runtime (mins)');
+      const genres = get(record, 'Genres');
+      const row: ImportRow = {
+        key: imdbId,
+        source: 'imdb',
+        title: get(record, 'Title'),
+        year: parseYear(get(record, 'Year')),
+        type,
+        imdbId,
+        actions: [action],
+        watchedAt: action === 'watched' ? parseDate(get(record, 'Date Rated')) : undefined,
+        imdbRating: get(record, 'IMDb Rating') || undefined,
+        runtime: runtime ? `${runtime} min` : undefined,
+        genres: genres ? genres.split(',').map(genre => genre.trim()).filter(Boolean) : undefined,
+        status: 'pending',
+        candidates: [],
+      };
+      rows.push(row);
+    });
+
+    return { fileName, kind, rows, addons: [], skipped };
+  }
+
+  private parseStremio(fileName: string, data: any): ParsedImportFile {
+    // API responses wrap the payload in `result`
+    const payload = data && !Array.isArray(data) && data.result !== undefined ? data.result : data;
+    const entries: any[] = Array.isArray(payload)
+      ? payload
+      : Array.isArray(payload?.addons)
+        ? payload.addons
+        : Array.isArray(payload?.library)
+          ? payload.library
+          : payload && typeof payload === 'object'
+            ? Object.values(payload)
+            : [];
+
+    if (entries.some(entry => entry && typeof entry.transportUrl === 'string')) {
+      const addons = entries
+        .filter(entry => entry && typeof entry.transportUrl === 'string')
+        .map(entry => ({
+          transportUrl: entry.transportUrl,
+          id: entry.manifest?.id || entry.transportUrl,
+          name: entry.manifest?.name || entry.transportUrl,
+        }));
+      return { fileName, kind: 'stremio_addons', rows: [], addons, skipped: entries.length - addons.length };
+    }
+
+    const rows: ImportRow[] = [];
+    let skipped = 0;
+    entries.forEach(entry => {
+      const id: string | undefined = entry?._id || entry?.id;
+      const type = entry?.type === 'movie' || entry?.type === 'series' ? entry.type : null;
+      // Stremio keeps removed and temporary (recently opened) items around
+      if (!id || !type || entry.removed || entry.temp) {
+        skipped++;
+        return;
+      }
+      const state = entry.state || {};
+      const watched = !!state.flaggedWatched || (type === 'movie' && (state.timesWatched || 0) > 0);
+      const match: ImportMatch = {
+        type,
+        name: entry.name || id,
+        imdbId: /^tt\d+$/.test(id) ? id : undefined,
+        stremioId: /^tt\d+$/.test(id) ? undefined : id,
+        year: parseYear(entry.year ?? entry.releaseInfo),
+        poster: entry.poster || undefined,
+      };
+      rows.push({
+        key: id,
+        source: 'stremio',
+        title: match.name,
+        year: match.year,
+        type,
+        imdbId: match.imdbId,
+        actions: watched ? ['library', 'watched'] : ['library'],
+        watchedAt: watched ? parseDate(state.lastWatched) : undefined,
+        status: 'matched',
+        match,
+        candidates: [],
+      });
+    });
+
+    if (rows.length === 0 && skipped === 0) throw new Error('Unrecognized file format');
+    return { fileName, kind: 'stremio_library', rows, addons: [], skipped };
+  }
+
+  /**
+   * Combine rows from several files, so a title that is both rated and on
+   * the watchlist is imported once with both actions.
+   */
+  mergeRows(files: ParsedImportFile[]): ImportRow[] {
+    const merged = new Map<string, ImportRow>();
+    files.forEach(file => file.rows.forEach(row => {
+      const existing = merged.get(row.key);
+      if (!existing) {
+        merged.set(row.key, { ...row, actions: [...row.actions] });
+        return;
+      }
+      row.actions.forEach(action => {
+        if (!existing.actions.includes(action)) existing.actions.push(action);
+      });
+      if (row.watchedAt && (!existing.watchedAt || row.watchedAt > existing.watchedAt)) {
+        existing.watchedAt = row.watchedAt;
+      }
+    }));
+    return Array.from(merged.values());
+  }
+
+  async search(query: string, type?: 'movie' | 'series'): Promise<ImportMatch[]> {
+    const results = await tmdbService.searchMulti(query);
+    return results
+      .map(toMatch)
+      .filter((match): match is ImportMatch => !!match && (!type || match.type === type))
+      .slice(0, MAX_CANDIDATES);
+  }
+
+  private async resolveRow(row: ImportRow): Promise<ImportRow> {
+    if (row.status === 'matched' || row.status === 'skipped') return row;
+    try {
+      if (row.imdbId) {
+        const tmdbId = await tmdbService.findTMDBIdByIMDB(row.imdbId);
+        let poster: string | undefined;
+        if (tmdbId) {
+          const details = row.type === 'series'
+            ? await tmdbService.getTVShowDetails(tmdbId)
+            : await tmdbService.getMovieDetails(String(tmdbId));
+          poster = details?.poster_path ? `https://image.tmdb.org/t/p/w500${details.poster_path}` : undefined;
+        }
+        // The IMDb id is authoritative even when TMDB doesn't know the title
+        return {
+          ...row,
+          status: 'matched',
+          match: {
+            type: row.type || 'movie',
+            name: row.title,
+            imdbId: row.imdbId,
+            tmdbId: tmdbId ?? undefined,
+            year: row.year,
+            poster,
+          },
+        };
+      }
+
+      const candidates = await this.search(row.title, row.type);
+      const title = normalizeTitle(row.title);
+      const exact = candidates.filter(candidate =>
+        normalizeTitle(candidate.name) === title &&
+        (!row.year || !candidate.year || Math.abs(candidate.year - row.year) <= 1)
+      );
+      if (exact.length === 1 || (exact.length > 1 && exact[0].year === row.year)) {
+        return { ...row, status: 'matched', match: exact[0], candidates };
+      }
+      return { ...row, status: candidates.length > 0 ? 'review' : 'unmatched', candidates };
+    } catch (error) {
+      logger.error(`[LibraryImport] Failed to resolve "${row.title}":`, error);
+      return { ...row, status: 'unmatched' };
+    }
+  }
+
+  async resolveRows(rows: ImportRow[], onProgress?: (done: number, total: number) => void): Promise<ImportRow[]> {
+    const resolved: ImportRow[] = [];
+    for (let i = 0; i < rows.length; i += RESOLVE_BATCH_SIZE) {
+      const batch = await Promise.all(rows.slice(i, i + RESOLVE_BATCH_SIZE).map(row => this.resolveRow(row)));
+      resolved.push(...batch);
+      onProgress?.(resolved.length, rows.length);
+    }
+    return resolved;
+  }
+
+  private async getContentId(match: ImportMatch): Promise<string | null> {
+    if (match.imdbId) return match.imdbId;
+    if (match.stremioId) return match.stremioId;
+    if (!match.tmdbId) return null;
+    const stremioId = await catalogService.getStremioId(match.type, String(match.tmdbId));
+    return stremioId || `tmdb:${match.tmdbId}`;
+  }
+
+  /**
+   * Write matched rows to the library and watched history, and install
+   * addons that aren't installed yet.
+   */
+  async importRows(
+    rows: ImportRow[],
+    addons: ImportAddon[],
+    options: { addWatchedToLibrary: boolean },
+    onProgress?: (done: number, total: number) => void
+  ): Promise<ImportResult> {
+    const result: ImportResult = { addedToLibrary: 0, markedWatched: 0, addonsInstalled: 0, failed: 0 };
+    const matched = rows.filter(row => row.status === 'matched' && row.match);
+    const total = matched.length + addons.length;
+    const library = await catalogService.getLibraryItems();
+    const inLibrary = new Set(library.map(item => `${item.type}:${item.id}`));
+    const watchedMovies: Array<{ id: string; watchedAt: Date }> = [];
+    let done = 0;
+
+    for (const row of matched) {
+      const match = row.match!;
+      try {
+        const id = await this.getContentId(match);
+        if (!id) throw new Error('No id for match');
+
+        const wantsLibrary = row.actions.includes('library') || options.addWatchedToLibrary;
+        if (wantsLibrary && !inLibrary.has(`${match.type}:${id}`)) {
+          const content: StreamingContent = {
+            id,
+            type: match.type,
+            name: match.name,
+            tmdbId: match.tmdbId,
+            poster: match.poster || PLACEHOLDER_POSTER,
+            posterShape: 'poster',
+            year: match.year,
+            imdbRating: row.imdbRating,
+            runtime: row.runtime,
+            genres: row.genres,
+          };
+          await catalogService.addToLibrary(content);
+          inLibrary.add(`${match.type}:${id}`);
+          result.addedToLibrary++;
+        }
+
+        if (row.actions.includes('watched')) {
+          if (match.type === 'movie') {
+            watchedMovies.push({ id, watchedAt: row.watchedAt ? new Date(row.watchedAt) : new Date() });
+          } else {
+            // Exports don't say which episodes were seen, so only flag the show
+            await mmkvStorage.setItem(`watched:series:${id}`, 'true');
+            result.markedWatched++;
+          }
+        }
+      } catch (error) {
+        logger.error(`[LibraryImport] Failed to import "${row.title}":`, error);
+        result.failed++;
+      }
+      onProgress?.(++done, total);
+    }
+
+    // One history request for all movies instead of one per row
+    if (watchedMovies.length > 0) {
+      const { success } = await watchedService.markMoviesAsWatched(watchedMovies);
+      if (success) result.markedWatched += watchedMovies.length;
+      else result.failed += watchedMovies.length;
+    }
+
+    const installed = new Set(stremioService.getInstalledAddons(true).map(addon => addon.id));
+    for (const addon of addons) {
+      if (!installed.has(addon.id)) {
+        try {
+          await stremioService.installAddon(addon.transportUrl);
+          installed.add(addon.id);
+          result.addonsInstalled++;
+        } catch (error) {
+          logger.error(`[LibraryImport] Failed to install addon ${addon.name}:`, error);
+          result.failed++;
+        }
+      }
+      onProgress?.(++done, total);
+    }
+
+    if (result.markedWatched > 0) {
+      DeviceEventEmitter.emit('watchedStatusChanged');
+    }
+    return result;
+  }
+}
+
+export const libraryImportService = LibraryImportService.getInstance();
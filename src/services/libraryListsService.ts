@@ -0,0 +1,295 @@
+import { mmkvStorage } from './mmkvStorage';
+import { logger } from '../utils/logger';
+import { storageService } from './storageService';
+import type { StreamingContent } from './catalogService';
+
+const LISTS_KEY = 'library_lists';
+// A title counts as watched once this much of it has been played
+const WATCHED_THRESHOLD = 0.85;
+
+export type LibraryListKind = 'collection' | 'smart';
+export type WatchState = 'watched' | 'in_progress' | 'unwatched';
+
+export interface SmartListRules {
+  type?: 'movie' | 'series';
+  genres?: string[];
+  yearFrom?: number;
+  yearTo?: number;
+  // Minimum IMDb rating
+  minRating?: number;
+  watched?: WatchState;
+  // Added to the library within this many days
+  addedWithinDays?: number;
+  // Runtime bounds in minutes
+  runtimeMin?: number;
+  runtimeMax?: number;
+  // Network/provider names
+  providers?: string[];
+  tags?: string[];
+}
+
+export interface LibraryList {
+  id: string;
+  name: string;
+  kind: LibraryListKind;
+  // Members of a collection, as `${type}:${id}`
+  itemKeys: string[];
+  // Rules of a smart list
+  rules: SmartListRules;
+  pinnedToHome: boolean;
+  createdAt: number;
+}
+
+interface LibraryListsState {
+  lists: LibraryList[];
+  // Free-form tags per library item, keyed `${type}:${id}`
+  tags: Record<string, string[]>;
+}
+
+export const libraryItemKey = (item: Pick<StreamingContent, 'type' | 'id'>) => `${item.type}:${item.id}`;
+
+// Runtimes come as "120", "120 min" or "2h 10min"
+export const parseRuntimeMinutes = (runtime?: string): number | null => {
+  if (!runtime) return null;
+  const hours = runtime.match(/(\d+)\s*h/i);
+  const minutes = runtime.match(/(\d+)\s*m/i);
+  if (hours || minutes) {
+    return (hours ? parseInt(hours[1], 10) * 60 : 0) + (minutes ? parseInt(minutes[1], 10) : 0);
+  }
+  const plain = parseInt(runtime, 10);
+  return Number.isNaN(plain) ? null : plain;
+};
+
+export const matchesSmartRules = (
+  item: StreamingContent,
+  rules: SmartListRules,
+  watchState: WatchState,
+  tags: string[],
+  now: number = Date.now()
+): boolean => {
+  if (rules.type && item.type !== rules.type) return false;
+
+  if (rules.genres && rules.genres.length > 0) {
+    const genres = (item.genres || []).map(genre => genre.toLowerCase());
+    if (!rules.genres.some(genre => genres.includes(genre.toLowerCase()))) return false;
+  }
+
+  if (rules.yearFrom !== undefined || rules.yearTo !== undefined) {
+    if (!item.year) return false;
+    if (rules.yearFrom !== undefined && item.year < rules.yearFrom) return false;
+    if (rules.yearTo !== undefined && item.year > rules.yearTo) return false;
+  }
+
+  if (rules.minRating !== undefined) {
+    const rating = parseFloat(item.imdbRating || '');
+    if (Number.isNaN(rating) || rating < rules.minRating) return false;
+  }
+
+  if (rules.watched && watchState !== rules.watched) return false;
+
+  if (rules.addedWithinDays !== undefined) {
+    if (!item.addedToLibraryAt) return false;
+    if (now - item.addedToLibraryAt > rules.addedWithinDays * 24 * 60 * 60 * 1000) return false;
+  }
+
+  if (rules.runtimeMin !== undefined || rules.runtimeMax !== undefined) {
+    const runtime = parseRuntimeMinutes(item.runtime);
+    if (runtime === null) return false;
+    if (rules.runtimeMin !== undefined && runtime < rules.runtimeMin) return false;
+    if (rules.runtimeMax !== undefined && runtime > rules.runtimeMax) return false;
+  }
+
+  if (rules.providers && rules.providers.length > 0) {
+    const networks = (item.networks || []).map(network => network.name.toLowerCase());
+    if (!rules.providers.some(provider => networks.includes(provider.toLowerCase()))) return false;
+  }
+
+  if (rules.tags && rules.tags.length > 0) {
+    if (!rules.tags.every(tag => tags.includes(tag))) return false;
+  }
+
+  return true;
+};
+
+class LibraryListsService {
+  private static instance: LibraryListsService;
+  private state: LibraryListsState;
+  private listeners = new Set<(state: LibraryListsState) => void>();
+
+  private constructor() {
+    this.state = this.readState();
+  }
+
+  static getInstance(): LibraryListsService {
+    if (!LibraryListsService.instance) {
+      LibraryListsService.instance = new LibraryListsService();
+    }
+    return LibraryListsService.instance;
+  }
+
+  private getStorageKey(): string {
+    const scope = mmkvStorage.getString('@user:current') || 'local';
+    return `@user:${scope}:${LISTS_KEY}`;
+  }
+
+  private readState(): LibraryListsState {
+    try {
+      const raw = mmkvStorage.getString(this.getStorageKey());
+      if (!raw) return { lists: [], tags: {} };
+      const parsed = JSON.parse(raw);
+      return {
+        lists: Array.isArray(parsed.lists) ? parsed.lists : [],
+        tags: parsed.tags && typeof parsed.tags === 'object' ? parsed.tags : {},
+      };
+    } catch (error) {
+      logger.error('[LibraryLists] Failed to read lists:', error);
+      return { lists: [], tags: {} };
+    }
+  }
+
+  private async commit(state: LibraryListsState): Promise<void> {
+    this.state = state;
+    await mmkvStorage.setItem(this.getStorageKey(), JSON.stringify(state));
+    this.listeners.forEach(listener => listener(this.state));
+  }
+
+  subscribe(listener: (state: LibraryListsState) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getLists(): LibraryList[] {
+    return this.state.lists;
+  }
+
+  getList(id: string): LibraryList | undefined {
+    return this.state.lists.find(list => list.id === id);
+  }
+
+  getPinnedLists(): LibraryList[] {
+    return this.state.lists.filter(list => list.pinnedToHome);
+  }
+
+  async createList(name: string, kind: LibraryListKind, rules: SmartListRules = {}): Promise<LibraryList> {
+    const trimmed = name.trim();
+    if (!trimmed) throw new Error('List name is required');
+    const list: LibraryList = {
+      id: `list_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+      name: trimmed,
+      kind,
+      itemKeys: [],
+      rules: kind === 'smart' ? rules : {},
+      pinnedToHome: false,
+      createdAt: Date.now(),
+    };
+    await this.commit({ ...this.state, lists: [...this.state.lists, list] });
+    return list;
+  }
+
+  async updateList(id: string, partial: Partial<Pick<LibraryList, 'name' | 'rules' | 'pinnedToHome'>>): Promise<void> {
+    if (partial.name !== undefined && !partial.name.trim()) throw new Error('List name is required');
+    const lists = this.state.lists.map(list =>
+      list.id === id ? { ...list, ...partial, name: (partial.name ?? list.name).trim() } : list
+    );
+    await this.commit({ ...this.state, lists });
+  }
+
+  async deleteList(id: string): Promise<void> {
+    await this.commit({ ...this.state, lists: this.state.lists.filter(list => list.id !== id) });
+  }
+
+  isInCollection(listId: string, item: Pick<StreamingContent, 'type' | 'id'>): boolean {
+    return !!this.getList(listId)?.itemKeys.includes(libraryItemKey(item));
+  }
+
+  async setInCollection(listId: string, item: Pick<StreamingContent, 'type' | 'id'>, included: boolean): Promise<void> {
+    const key = libraryItemKey(item);
+    const lists = this.state.lists.map(list => {
+      if (list.id !== listId || list.kind !== 'collection') return list;
+      const itemKeys = list.itemKeys.filter(existing => existing !== key);
+      return { ...list, itemKeys: included ? [...itemKeys, key] : itemKeys };
+    });
+    await this.commit({ ...this.state, lists });
+  }
+
+  getTags(item: Pick<StreamingContent, 'type' | 'id'>): string[] {
+    return this.state.tags[libraryItemKey(item)] || [];
+  }
+
+  getAllTags(): string[] {
+    const all = new Set<string>();
+    Object.values(this.state.tags).forEach(tags => tags.forEach(tag => all.add(tag)));
+    return Array.from(all).sort((a, b) => a.localeCompare(b));
+  }
+
+  async setTags(item: Pick<StreamingContent, 'type' | 'id'>, tags: string[]): Promise<void> {
+    const cleaned = Array.from(new Set(tags.map(tag => tag.trim()).filter(Boolean)));
+    const next = { ...this.state.tags };
+    if (cleaned.length > 0) {
+      next[libraryItemKey(item)] = cleaned;
+    } else {
+      delete next[libraryItemKey(item)];
+    }
+    await this.commit({ ...this.state, tags: next });
+  }
+
+  /**
+   * Watched state for each library item, from the watched flags and local
+   * watch progress (any started episode puts a show in progress).
+   */
+  async getWatchStates(items: StreamingContent[]): Promise<Record<string, WatchState>> {
+    const states: Record<string, WatchState> = {};
+    try {
+      const progress = await storageService.getAllWatchProgress();
+      const flags = await mmkvStorage.multiGet(items.map(item => `watched:${item.type}:${item.id}`));
+      const watchedFlags = new Set(flags.filter(([, value]) => value === 'true').map(([key]) => key));
+
+      items.forEach(item => {
+        const key = libraryItemKey(item);
+        if (watchedFlags.has(`watched:${key}`)) {
+          states[key] = 'watched';
+          return;
+        }
+        const entries = Object.entries(progress).filter(([progressKey]) =>
+          progressKey === key || progressKey.startsWith(`${key}:`)
+        );
+        if (entries.length === 0) {
+          states[key] = 'unwatched';
+        } else if (
+          item.type === 'movie' &&
+          entries.some(([, entry]) => entry.duration > 0 && entry.currentTime / entry.duration >= WATCHED_THRESHOLD)
+        ) {
+          states[key] = 'watched';
+        } else {
+          states[key] = 'in_progress';
+        }
+      });
+    } catch (error) {
+      logger.error('[LibraryLists] Failed to read watch states:', error);
+    }
+    return states;
+  }
+
+  resolveList(list: LibraryList, items: StreamingContent[], watchStates: Record<string, WatchState>): StreamingContent[] {
+    if (list.kind === 'collection') {
+      const byKey = new Map(items.map(item => [libraryItemKey(item), item]));
+      return list.itemKeys
+        .map(key => byKey.get(key))
+        .filter((item): item is StreamingContent => !!item);
+    }
+    const now = Date.now();
+    return items.filter(item =>
+      matchesSmartRules(
+        item,
+        list.rules,
+        watchStates[libraryItemKey(item)] || 'unwatched',
+        this.getTags(item),
+        now
+      )
+    );
+  }
+}
+
+export const libraryListsService = LibraryListsService.getInstance();
@@ -0,0 +1,205 @@
+import { mmkvStorage } from './mmkvStorage';
+import { logger } from '../utils/logger';
+import { SkipInterval, SkipType } from './introService';
+
+/**
+ * Skip segments marked by the user in the player, kept on the device.
+ *
+ * Episode segments override remote (IntroDB/AniSkip) data of the same kind.
+ * Show defaults fill in kinds that neither the episode nor the remote providers
+ * cover, so a series without IntroDB entries still gets Skip Intro and Up Next.
+ */
+
+export type LocalSegmentKind = 'intro' | 'recap' | 'credits';
+
+export interface LocalSkipSegment {
+  kind: LocalSegmentKind;
+  startTime: number;
+  endTime: number;
+  updatedAt: number;
+}
+
+// Show-wide segment; `anchor: 'end'` stores seconds before the end of the episode,
+// since credits start at a different time in every episode but last about as long
+export interface ShowSkipDefault extends LocalSkipSegment {
+  anchor: 'start' | 'end';
+}
+
+interface ShowSegmentStore {
+  defaults: ShowSkipDefault[];
+  episodes: Record<string, LocalSkipSegment[]>; // `season:episode`
+}
+
+const STORE_KEY = '@local_skip_segments:';
+
+const KIND_TYPES: Record<LocalSegmentKind, SkipType[]> = {
+  intro: ['intro', 'op', 'mixed-op'],
+  recap: ['recap'],
+  credits: ['outro', 'ed', 'mixed-ed'],
+};
+
+const KIND_SKIP_TYPE: Record<LocalSegmentKind, SkipType> = {
+  intro: 'intro',
+  recap: 'recap',
+  credits: 'outro',
+};
+
+export const kindOfSkipType = (type: SkipType): LocalSegmentKind | null =>
+  (Object.keys(KIND_TYPES) as LocalSegmentKind[]).find(kind => KIND_TYPES[kind].includes(type)) || null;
+
+const episodeKey = (season: number, episode: number) => `${season}:${episode}`;
+
+const toInterval = (segment: LocalSkipSegment, startTime = segment.startTime, endTime = segment.endTime): SkipInterval => ({
+  startTime,
+  endTime,
+  type: KIND_SKIP_TYPE[segment.kind],
+  provider: 'local',
+});
+
+// Show defaults anchored to the end need the episode duration
+const resolveDefault = (segment: ShowSkipDefault, duration: number): SkipInterval | null => {
+  if (segment.anchor === 'start') return toInterval(segment);
+  if (!duration || duration <= 0) return null;
+  return toInterval(segment, Math.max(0, duration - segment.startTime), Math.max(0, duration - segment.endTime));
+};
+
+/**
+ * Combines episode overrides, remote intervals and show defaults, in that order
+ * of priority, per kind of segment.
+ */
+export const mergeSkipSegments = (
+  remote: SkipInterval[],
+  episodeSegments: LocalSkipSegment[],
+  showDefaults: ShowSkipDefault[],
+  duration: number
+): SkipInterval[] => {
+  const overridden = new Set(episodeSegments.map(segment => segment.kind));
+  const merged: SkipInterval[] = [
+    ...episodeSegments.map(segment => toInterval(segment)),
+    ...remote.filter(interval => {
+      const kind = kindOfSkipType(interval.type);
+      return !kind || !overridden.has(kind);
+    }),
+  ];
+
+  const covered = new Set(merged.map(interval => kindOfSkipType(interval.type)));
+  for (const segment of showDefaults) {
+    if (covered.has(segment.kind)) continue;
+    const interval = resolveDefault(segment, duration);
+    if (interval && interval.endTime > interval.startTime) merged.push(interval);
+  }
+
+  return merged.sort((a, b) => a.startTime - b.startTime);
+};
+
+class LocalSkipSegmentsService {
+  private static instance: LocalSkipSegmentsService;
+
+  private constructor() { }
+
+  public static getInstance(): LocalSkipSegmentsService {
+    if (!LocalSkipSegmentsService.instance) {
+      LocalSkipSegmentsService.instance = new LocalSkipSegmentsService();
+    }
+    return LocalSkipSegmentsService.instance;
+  }
+
+  private async getUserScope(): Promise<string> {
+    try {
+      const scope = await mmkvStorage.getItem('@user:current');
+      return scope || 'local';
+    } catch {
+      return 'local';
+    }
+  }
+
+  private async getStoreKey(showId: string): Promise<string> {
+    const scope = await this.getUserScope();
+    return `@user:${scope}:${STORE_KEY}${showId}`;
+  }
+
+  private async readStore(showId: string): Promise<ShowSegmentStore> {
+    try {
+      const data = await mmkvStorage.getItem(await this.getStoreKey(showId));
+      if (data) {
+        const parsed = JSON.parse(data);
+        return { defaults: parsed.defaults || [], episodes: parsed.episodes || {} };
+      }
+    } catch (error) {
+      logger.error('[LocalSkipSegments] Error reading segments:', error);
+    }
+    return { defaults: [], episodes: {} };
+  }
+
+  private async writeStore(showId: string, store: ShowSegmentStore): Promise<void> {
+    const key = await this.getStoreKey(showId);
+    if (store.defaults.length === 0 && Object.keys(store.episodes).length === 0) {
+      await mmkvStorage.removeItem(key);
+      return;
+    }
+    await mmkvStorage.setItem(key, JSON.stringify(store));
+  }
+
+  async getSegments(showId: string, season: number, episode: number): Promise<{
+    episodeSegments: LocalSkipSegment[];
+    showDefaults: ShowSkipDefault[];
+  }> {
+    const store = await this.readStore(showId);
+    return {
+      episodeSegments: store.episodes[episodeKey(season, episode)] || [],
+      showDefaults: store.defaults,
+    };
+  }
+
+  // Replaces the episode's segment of the same kind
+  async saveEpisodeSegment(showId: string, season: number, episode: number, segment: Omit<LocalSkipSegment, 'updatedAt'>): Promise<void> {
+    if (segment.endTime <= segment.startTime) throw new Error('Segment end must be after its start');
+    const store = await this.readStore(showId);
+    const key = episodeKey(season, episode);
+    const others = (store.episodes[key] || []).filter(existing => existing.kind !== segment.kind);
+    store.episodes[key] = [...others, { ...segment, updatedAt: Date.now() }];
+    await this.writeStore(showId, store);
+    logger.log(`[LocalSkipSegments] Saved ${segment.kind} for ${showId} S${season}E${episode}`);
+  }
+
+  async removeEpisodeSegment(showId: string, season: number, episode: number, kind: LocalSegmentKind): Promise<void> {
+    const store = await this.readStore(showId);
+    const key = episodeKey(season, episode);
+    const remaining = (store.episodes[key] || []).filter(existing => existing.kind !== kind);
+    if (remaining.length > 0) store.episodes[key] = remaining;
+    else delete store.episodes[key];
+    await this.writeStore(showId, store);
+  }
+
+  /**
+   * Saves a show-wide default from a segment marked in one episode. Credits are
+   * stored relative to the end of that episode, everything else from its start.
+   */
+  async saveShowDefault(showId: string, segment: Omit<LocalSkipSegment, 'updatedAt'>, episodeDuration: number): Promise<void> {
+    if (segment.endTime <= segment.startTime) throw new Error('Segment end must be after its start');
+    const fromEnd = segment.kind === 'credits' && episodeDuration > 0;
+    const entry: ShowSkipDefault = fromEnd
+      ? {
+        kind: segment.kind,
+        startTime: episodeDuration - segment.startTime,
+        endTime: Math.max(0, episodeDuration - segment.endTime),
+        anchor: 'end',
+        updatedAt: Date.now(),
+      }
+      : { ...segment, anchor: 'start', updatedAt: Date.now() };
+
+    const store = await this.readStore(showId);
+    store.defaults = [...store.defaults.filter(existing => existing.kind !== segment.kind), entry];
+    await this.writeStore(showId, store);
+    logger.log(`[LocalSkipSegments] Saved show default ${segment.kind} for ${showId}`);
+  }
+
+  async removeShowDefault(showId: string, kind: LocalSegmentKind): Promise<void> {
+    const store = await this.readStore(showId);
+    store.defaults = store.defaults.filter(existing => existing.kind !== kind);
+    await this.writeStore(showId, store);
+  }
+}
+
+export const localSkipSegmentsService = LocalSkipSegmentsService.getInstance();
+export default localSkipSegmentsService;
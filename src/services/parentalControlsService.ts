@@ -0,0 +1,370 @@
+import { mmkvStorage } from './mmkvStorage';
+import { logger } from '../utils/logger';
+import { hashPin, isLegacyPinHash, verifyPinHash } from './pinCrypto';
+import { tmdbService } from './tmdbService';
+import { parentalGuideService, ParentalGuide } from './parentalGuideService';
+
+export type GuideCategory = keyof ParentalGuide;
+export type GuideSeverity = ParentalGuide[GuideCategory];
+
+export const GUIDE_CATEGORIES: GuideCategory[] = ['nudity', 'violence', 'profanity', 'alcohol', 'frightening'];
+export const GUIDE_SEVERITIES: GuideSeverity[] = ['None', 'Mild', 'Moderate', 'Severe'];
+
+export interface ParentalControlsSettings {
+  enabled: boolean;
+  // ISO 3166-1 code whose certification system the limits use
+  region: string;
+  // Highest allowed certification; null means no limit
+  maxMovieRating: string | null;
+  maxTvRating: string | null;
+  // Titles without a known certification count as restricted
+  blockUnrated: boolean;
+  // Highest allowed severity per parental guide category
+  guideLimits: Partial<Record<GuideCategory, GuideSeverity>>;
+  // Addon/plugin ids this profile may use; null allows all
+  addonAllowList: string[] | null;
+  pluginAllowList: string[] | null;
+  pinSalt?: string;
+  pinHash?: string;
+}
+
+export const DEFAULT_PARENTAL_CONTROLS: ParentalControlsSettings = {
+  enabled: false,
+  region: 'US',
+  maxMovieRating: 'PG-13',
+  maxTvRating: 'TV-14',
+  blockUnrated: false,
+  guideLimits: {},
+  addonAllowList: null,
+  pluginAllowList: null,
+};
+
+interface RatingStep {
+  rating: string;
+  age: number;
+}
+
+interface RegionRatings {
+  name: string;
+  movie: RatingStep[];
+  tv: RatingStep[];
+}
+
+// Certifications in ascending order with the age they correspond to
+export const RATING_SYSTEMS: Record<string, RegionRatings> = {
+  US: {
+    name: 'United States',
+    movie: [
+      { rating: 'G', age: 0 },
+      { rating: 'PG', age: 8 },
+      { rating: 'PG-13', age: 13 },
+      { rating: 'R', age: 17 },
+      { rating: 'NC-17', age: 18 },
+    ],
+    tv: [
+      { rating: 'TV-Y', age: 0 },
+      { rating: 'TV-G', age: 0 },
+      { rating: 'TV-Y7', age: 7 },
+      { rating: 'TV-PG', age: 10 },
+      { rating: 'TV-14', age: 14 },
+      { rating: 'TV-MA', age: 17 },
+    ],
+  },
+  GB: {
+    name: 'United Kingdom',
+    movie: [
+      { rating: 'U', age: 0 },
+      { rating: 'PG', age: 8 },
+      { rating: '12A', age: 12 },
+      { rating: '12', age: 12 },
+      { rating: '15', age: 15 },
+      { rating: '18', age: 18 },
+      { rating: 'R18', age: 18 },
+    ],
+    tv: [
+      { rating: 'U', age: 0 },
+      { rating: 'PG', age: 8 },
+      { rating: '12', age: 12 },
+      { rating: '15', age: 15 },
+      { rating: '18', age: 18 },
+    ],
+  },
+  DE: {
+    name: 'Germany',
+    movie: [
+      { rating: '0', age: 0 },
+      { rating: '6', age: 6 },
+      { rating: '12', age: 12 },
+      { rating: '16', age: 16 },
+      { rating: '18', age: 18 },
+    ],
+    tv: [
+      { rating: '0', age: 0 },
+      { rating: '6', age: 6 },
+      { rating: '12', age: 12 },
+      { rating: '16', age: 16 },
+      { rating: '18', age: 18 },
+    ],
+  },
+  FR: {
+    name: 'France',
+    movie: [
+      { rating: 'U', age: 0 },
+      { rating: '10', age: 10 },
+      { rating: '12', age: 12 },
+      { rating: '16', age: 16 },
+      { rating: '18', age: 18 },
+    ],
+    tv: [
+      { rating: 'NR', age: 0 },
+      { rating: '10', age: 10 },
+      { rating: '12', age: 12 },
+      { rating: '16', age: 16 },
+      { rating: '18', age: 18 },
+    ],
+  },
+  AU: {
+    name: 'Australia',
+    movie: [
+      { rating: 'G', age: 0 },
+      { rating: 'PG', age: 8 },
+      { rating: 'M', age: 15 },
+      { rating: 'MA15+', age: 15 },
+      { rating: 'R18+', age: 18 },
+      { rating: 'X18+', age: 18 },
+    ],
+    tv: [
+      { rating: 'P', age: 0 },
+      { rating: 'C', age: 0 },
+      { rating: 'G', age: 0 },
+      { rating: 'PG', age: 8 },
+      { rating: 'M', age: 15 },
+      { rating: 'MA15+', age: 15 },
+      { rating: 'AV15+', age: 15 },
+      { rating: 'R18+', age: 18 },
+    ],
+  },
+};
+
+const isTvType = (type: string): boolean => type !== 'movie';
+
+// Strip season/episode parts: tt123:1:2 -> tt123, tmdb:456:1:2 -> tmdb:456
+const baseContentId = (id: string): string =>
+  id.split(':').slice(0, id.startsWith('tmdb:') ? 2 : 1).join(':');
+
+// TMDB falls back to these when a region has no certification of its own
+const FALLBACK_RATING_REGIONS = ['US', 'GB'];
+
+/**
+ * Age a certification stands for. Only the selected region and the US/GB
+ * fallbacks are checked; ratings from any other system count as unrated.
+ */
+export const getCertificationAge = (certification: string, type: string, region: string): number | null => {
+  const normalized = certification.trim().toUpperCase();
+  const kind = isTvType(type) ? 'tv' : 'movie';
+  const regions = [region, ...FALLBACK_RATING_REGIONS.filter(code => code !== region)];
+  for (const code of regions) {
+    const system = RATING_SYSTEMS[code];
+    if (!system) continue;
+    const step = system[kind].find(s => s.rating.toUpperCase() === normalized)
+      || system[kind === 'tv' ? 'movie' : 'tv'].find(s => s.rating.toUpperCase() === normalized);
+    if (step) return step.age;
+  }
+  return null;
+};
+
+export const isCertificationAllowed = (
+  certification: string | null | undefined,
+  type: string,
+  settings: ParentalControlsSettings
+): boolean => {
+  const limit = isTvType(type) ? settings.maxTvRating : settings.maxMovieRating;
+  if (!limit) return true;
+  const age = certification ? getCertificationAge(certification, type, settings.region) : null;
+  if (age === null) return !settings.blockUnrated;
+  const maxAge = getCertificationAge(limit, type, settings.region);
+  return maxAge === null || age <= maxAge;
+};
+
+// Categories of a guide that go over the configured limits
+export const getExceededGuideCategories = (
+  guide: ParentalGuide,
+  limits: ParentalControlsSettings['guideLimits']
+): GuideCategory[] =>
+  GUIDE_CATEGORIES.filter(category => {
+    const limit = limits[category];
+    if (!limit) return false;
+    return GUIDE_SEVERITIES.indexOf(guide[category]) > GUIDE_SEVERITIES.indexOf(limit);
+  });
+
+export interface ContentRef {
+  id: string;
+  type: string;
+  tmdbId?: number;
+  imdbId?: string;
+  certification?: string;
+}
+
+export interface ContentDecision {
+  allowed: boolean;
+  reason?: string;
+}
+
+const SETTINGS_KEY = 'parental_controls';
+const ALLOWED: ContentDecision = { allowed: true };
+
+class ParentalControlsService {
+  private static instance: ParentalControlsService;
+  private settings: ParentalControlsSettings;
+  private decisions = new Map<string, Promise<ContentDecision>>();
+  // Titles unlocked with the PIN, for the rest of this session
+  private overrides = new Set<string>();
+  private listeners = new Set<(settings: ParentalControlsSettings) => void>();
+
+  private constructor() {
+    // Read synchronously so addon lists are filtered from the first render
+    this.settings = this.readSettings();
+  }
+
+  static getInstance(): ParentalControlsService {
+    if (!ParentalControlsService.instance) {
+      ParentalControlsService.instance = new ParentalControlsService();
+    }
+    return ParentalControlsService.instance;
+  }
+
+  private getStorageKey(): string {
+    const scope = mmkvStorage.getString('@user:current') || 'local';
+    return `@user:${scope}:${SETTINGS_KEY}`;
+  }
+
+  private readSettings(): ParentalControlsSettings {
+    try {
+      const raw = mmkvStorage.getString(this.getStorageKey());
+      return raw ? { ...DEFAULT_PARENTAL_CONTROLS, ...JSON.parse(raw) } : { ...DEFAULT_PARENTAL_CONTROLS };
+    } catch (error) {
+      logger.error('[ParentalControls] Failed to read settings:', error);
+      return { ...DEFAULT_PARENTAL_CONTROLS };
+    }
+  }
+
+  getSettings(): ParentalControlsSettings {
+    return this.settings;
+  }
+
+  isEnabled(): boolean {
+    return this.settings.enabled;
+  }
+
+  hasPin(): boolean {
+    return !!this.settings.pinHash;
+  }
+
+  subscribe(listener: (settings: ParentalControlsSettings) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async updateSettings(partial: Partial<ParentalControlsSettings>): Promise<void> {
+    this.settings = { ...this.settings, ...partial };
+    await mmkvStorage.setItem(this.getStorageKey(), JSON.stringify(this.settings));
+    this.decisions.clear();
+    this.listeners.forEach(listener => listener(this.settings));
+  }
+
+  async setPin(pin: string | null): Promise<void> {
+    if (!pin) {
+      await this.updateSettings({ pinSalt: undefined, pinHash: undefined });
+      return;
+    }
+    if (!/^\d{4}$/.test(pin)) throw new Error('PIN must be 4 digits');
+    await this.updateSettings(hashPin(pin));
+  }
+
+  verifyPin(pin: string): boolean {
+    const { pinSalt, pinHash } = this.settings;
+    if (!pinHash || !pinSalt) return true;
+    const valid = verifyPinHash(pin, { pinSalt, pinHash });
+    // Upgrade PINs stored with the old single SHA-256 hash
+    if (valid && isLegacyPinHash(pinHash)) {
+      this.setPin(pin).catch(error => logger.error('[ParentalControls] Failed to rehash PIN:', error));
+    }
+    return valid;
+  }
+
+  grantOverride(id: string): void {
+    this.overrides.add(baseContentId(id));
+  }
+
+  isAddonAllowed(addonId: string): boolean {
+    const { enabled, addonAllowList } = this.settings;
+    return !enabled || !addonAllowList || addonAllowList.includes(addonId);
+  }
+
+  isPluginAllowed(pluginId: string): boolean {
+    const { enabled, pluginAllowList } = this.settings;
+    return !enabled || !pluginAllowList || pluginAllowList.includes(pluginId);
+  }
+
+  /**
+   * Decide whether a title may be shown or played. Lists pass no episode, so
+   * series are judged by their first episode's parental guide there.
+   */
+  evaluate(content: ContentRef, episode?: { season: number; episode: number }): Promise<ContentDecision> {
+    const baseId = baseContentId(content.id);
+    if (!this.settings.enabled || this.overrides.has(baseId)) return Promise.resolve(ALLOWED);
+
+    const key = `${content.type}:${baseId}${episode ? `:${episode.season}:${episode.episode}` : ''}`;
+    let decision = this.decisions.get(key);
+    if (!decision) {
+      decision = this.computeDecision(content, baseId, episode).catch(error => {
+        logger.warn('[ParentalControls] Could not check content, treating as restricted:', error);
+        return { allowed: false, reason: 'Rating could not be checked' };
+      });
+      this.decisions.set(key, decision);
+    }
+    return decision;
+  }
+
+  private async computeDecision(
+    content: ContentRef,
+    baseId: string,
+    episode?: { season: number; episode: number }
+  ): Promise<ContentDecision> {
+    const { settings } = this;
+    const imdbId = content.imdbId || (baseId.startsWith('tt') ? baseId : undefined);
+
+    const needsCertification = !!(isTvType(content.type) ? settings.maxTvRating : settings.maxMovieRating);
+    if (needsCertification) {
+      let certification = content.certification || null;
+      if (!certification) {
+        let tmdbId = content.tmdbId ?? null;
+        if (!tmdbId && baseId.startsWith('tmdb:')) tmdbId = parseInt(baseId.split(':')[1], 10) || null;
+        if (!tmdbId && imdbId) tmdbId = await tmdbService.findTMDBIdByIMDB(imdbId);
+        if (tmdbId) certification = await tmdbService.getCertification(content.type, tmdbId, settings.region);
+      }
+      if (!isCertificationAllowed(certification, content.type, settings)) {
+        return { allowed: false, reason: certification ? `Rated ${certification}` : 'Not rated' };
+      }
+    }
+
+    if (imdbId && Object.values(settings.guideLimits).some(Boolean)) {
+      const response = isTvType(content.type)
+        ? await parentalGuideService.getTVGuide(imdbId, episode?.season || 1, episode?.episode || 1)
+        : await parentalGuideService.getMovieGuide(imdbId);
+      if (response?.parentalGuide) {
+        const exceeded = getExceededGuideCategories(response.parentalGuide, settings.guideLimits);
+        if (exceeded.length > 0) {
+          return { allowed: false, reason: `Contains ${exceeded.join(', ')}` };
+        }
+      }
+    }
+
+    return ALLOWED;
+  }
+}
+
+export const parentalControlsService = ParentalControlsService.getInstance();
+export default parentalControlsService;
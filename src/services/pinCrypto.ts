@@ -0,0 +1,47 @@
+import CryptoJS from 'crypto-js';
+import * as Crypto from 'expo-crypto';
+import { safeEqual } from './backupCrypto';
+import { sha256Hex } from './repositoryVerification';
+
+/**
+ * PIN hashing for profiles and parental controls.
+ *
+ * New hashes are PBKDF2-SHA256 stored as `pbkdf2$<iterations>$<hex>`, so the
+ * cost can be raised later without breaking existing PINs. Hashes written
+ * before that are a single salted SHA-256 and still verify, but callers should
+ * rehash them once the PIN has been entered correctly.
+ */
+export interface PinHash {
+  pinSalt: string;
+  pinHash: string;
+}
+
+const PIN_HASH_PREFIX = 'pbkdf2$';
+// A 4 digit PIN has few combinations, so each guess has to be expensive
+const PIN_ITERATIONS = 10000;
+
+const derive = (pin: string, salt: string, iterations: number): string =>
+  CryptoJS.PBKDF2(pin, salt, {
+    keySize: 256 / 32,
+    iterations,
+    hasher: CryptoJS.algo.SHA256,
+  }).toString(CryptoJS.enc.Hex);
+
+export const isLegacyPinHash = (pinHash: string): boolean => !pinHash.startsWith(PIN_HASH_PREFIX);
+
+export const hashPin = (pin: string): PinHash => {
+  const pinSalt = CryptoJS.lib.WordArray
+    .create(Crypto.getRandomBytes(16) as unknown as number[])
+    .toString(CryptoJS.enc.Hex);
+  return { pinSalt, pinHash: `${PIN_HASH_PREFIX}${PIN_ITERATIONS}$${derive(pin, pinSalt, PIN_ITERATIONS)}` };
+};
+
+export const verifyPinHash = (pin: string, { pinSalt, pinHash }: PinHash): boolean => {
+  if (isLegacyPinHash(pinHash)) {
+    return safeEqual(sha256Hex(`${pinSalt}:${pin}`), pinHash);
+  }
+  const [, iterations, expected] = pinHash.split('$');
+  const count = parseInt(iterations, 10);
+  if (!count || !expected) return false;
+  return safeEqual(derive(pin, pinSalt, count), expected);
+};
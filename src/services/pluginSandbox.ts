@@ -0,0 +1,542 @@
+import { logger } from '../utils/logger';
+
+// Hard ceiling for a single plugin execution, regardless of what the manifest declares
+export const MAX_PLUGIN_RUNTIME_MS = 60000;
+const DEFAULT_MAX_REQUESTS = 200;
+
+/**
+ * Permissions a scraper declares in its repository manifest.
+ * Anything left out is denied: no network hosts and no global writes. Request
+ * and runtime limits fall back to the defaults above.
+ */
+export interface ScraperPermissions {
+  allowedHosts?: string[]; // Hostnames the scraper may contact ("*.example.com" wildcards, "*" for any host)
+  maxRequests?: number; // Maximum HTTP requests per execution
+  maxRuntimeMs?: number; // Maximum wall-clock time per execution
+  allowGlobalWrites?: boolean; // Whether the scraper may define new globals inside its sandbox scope
+}
+
+export type ScraperPermissionKind = keyof ScraperPermissions;
+
+export interface ScraperPermissionViolation {
+  scraperId: string;
+  permission: ScraperPermissionKind;
+  message: string;
+  timestamp: number;
+}
+
+export class ScraperPermissionError extends Error {
+  readonly scraperId: string;
+  readonly permission: ScraperPermissionKind;
+
+  constructor(scraperId: string, permission: ScraperPermissionKind, message: string) {
+    super(message);
+    this.name = 'ScraperPermissionError';
+    this.scraperId = scraperId;
+    this.permission = permission;
+  }
+
+  toViolation(): ScraperPermissionViolation {
+    return {
+      scraperId: this.scraperId,
+      permission: this.permission,
+      message: this.message,
+      timestamp: Date.now(),
+    };
+  }
+}
+
+export const isScraperPermissionError = (error: unknown): error is ScraperPermissionError =>
+  error instanceof ScraperPermissionError;
+
+// Sanitize permissions coming from an untrusted manifest
+export const normalizeScraperPermissions = (raw: any): ScraperPermissions | undefined => {
+  if (!raw || typeof raw !== 'object') return undefined;
+
+  const permissions: ScraperPermissions = {};
+  if (Array.isArray(raw.allowedHosts)) {
+    permissions.allowedHosts = raw.allowedHosts
+      .filter((host: unknown) => typeof host === 'string' && host.trim().length > 0)
+      .map((host: string) => host.trim().toLowerCase());
+  }
+  if (typeof raw.maxRequests === 'number' && raw.maxRequests > 0) {
+    permissions.maxRequests = Math.floor(raw.maxRequests);
+  }
+  if (typeof raw.maxRuntimeMs === 'number' && raw.maxRuntimeMs > 0) {
+    permissions.maxRuntimeMs = Math.min(Math.floor(raw.maxRuntimeMs), MAX_PLUGIN_RUNTIME_MS);
+  }
+  if (typeof raw.allowGlobalWrites === 'boolean') {
+    permissions.allowGlobalWrites = raw.allowGlobalWrites;
+  }
+  return permissions;
+};
+
+export const isHostAllowed = (hostname: string, allowedHosts?: string[]): boolean => {
+  if (!allowedHosts) return false;
+  const host = hostname.toLowerCase();
+  return allowedHosts.some(pattern => {
+    if (pattern === '*') return true;
+    if (pattern.startsWith('*.')) {
+      const base = pattern.slice(2);
+      return host === base || host.endsWith(`.${base}`);
+    }
+    return host === pattern;
+  });
+};
+
+const resolveHostname = (url: string, baseURL?: string): string | null => {
+  try {
+    return new URL(url, baseURL).hostname;
+  } catch {
+    const match = (baseURL && !/^https?:\/\//i.test(url) ? baseURL : url).match(/^[a-z][a-z0-9+.-]*:\/\/([^/:?#]+)/i);
+    return match ? match[1] : null;
+  }
+};
+
+type GlobalSnapshot = Map<string, { descriptor?: PropertyDescriptor; value: unknown }>;
+
+// Captured at load, before the constructor guard below replaces what functions point at
+const NativeFunction = Function;
+
+// Standard library globals plugin code may use; every other global stays out of reach
+const SAFE_GLOBALS = new Set([
+  'Object', 'Array', 'String', 'Number', 'Boolean', 'Symbol', 'BigInt', 'Math', 'JSON', 'Date', 'RegExp', 'Intl',
+  'Error', 'TypeError', 'RangeError', 'SyntaxError', 'ReferenceError', 'EvalError', 'URIError', 'AggregateError',
+  'Map', 'Set', 'WeakMap', 'WeakSet', 'WeakRef', 'Promise', 'Proxy', 'Reflect',
+  'ArrayBuffer', 'DataView', 'Int8Array', 'Uint8Array', 'Uint8ClampedArray', 'Int16Array', 'Uint16Array',
+  'Int32Array', 'Uint32Array', 'Float32Array', 'Float64Array', 'BigInt64Array', 'BigUint64Array',
+  'NaN', 'Infinity', 'undefined', 'isNaN', 'isFinite', 'parseInt', 'parseFloat',
+  'encodeURI', 'encodeURIComponent', 'decodeURI', 'decodeURIComponent', 'escape', 'unescape', 'atob', 'btoa',
+  'URL', 'URLSearchParams', 'TextEncoder', 'TextDecoder', 'AbortController', 'AbortSignal',
+  'Headers', 'Request', 'Response', 'FormData', 'Blob', 'Buffer', 'structuredClone', 'queueMicrotask',
+  'setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'setImmediate', 'clearImmediate',
+]);
+
+// Global names that can't be used as parameter names
+const RESERVED_WORDS = new Set([
+  'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete', 'do', 'else', 'enum',
+  'export', 'extends', 'false', 'finally', 'for', 'function', 'if', 'import', 'in', 'instanceof', 'new', 'null',
+  'return', 'super', 'switch', 'this', 'throw', 'true', 'try', 'typeof', 'var', 'void', 'while', 'with',
+]);
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+const isBindableName = (name: string): boolean => IDENTIFIER.test(name) && !RESERVED_WORDS.has(name);
+
+interface FunctionKind {
+  keyword: string;
+  prototype: object;
+  native: (...args: string[]) => any;
+}
+
+// Plain, async and generator functions each have their own constructor behind `fn.constructor`
+const FUNCTION_KINDS: FunctionKind[] = (() => {
+  const kinds: FunctionKind[] = [{ keyword: 'function', prototype: NativeFunction.prototype, native: NativeFunction }];
+  for (const keyword of ['async function', 'function*', 'async function*']) {
+    try {
+      const prototype = Object.getPrototypeOf(NativeFunction(`return ${keyword} () {};`)());
+      if (kinds.some(kind => kind.prototype === prototype)) continue;
+      kinds.push({ keyword, prototype, native: prototype.constructor });
+    } catch {
+      // Not supported by this engine
+    }
+  }
+  return kinds;
+})();
+
+/**
+ * Compile `body` into a strict-mode function that only sees `scope` and
+ * SAFE_GLOBALS. Every other name on the real global object is shadowed by an
+ * undefined parameter, so free identifiers can't reach app globals.
+ */
+const compileIsolated = (
+  scope: Record<string, any>,
+  params: string[],
+  body: string,
+  kind: FunctionKind = FUNCTION_KINDS[0]
+): ((...args: any[]) => any) => {
+  const paramNames = params.join(',').split(',').map(param => param.trim()).filter(Boolean);
+  if (paramNames.some(param => !isBindableName(param))) {
+    throw new SyntaxError('Plugin functions only support plain parameter names');
+  }
+  const source = `'use strict';\n${body}`;
+  // Parse the code on its own first, so it can't close the wrapper below and run outside it
+  kind.native(...paramNames, source);
+
+  const names = Object.keys(scope).filter(isBindableName);
+  const hidden = Object.getOwnPropertyNames(globalThis).filter(name =>
+    isBindableName(name) && !SAFE_GLOBALS.has(name) && !Object.prototype.hasOwnProperty.call(scope, name)
+  );
+  const factory = NativeFunction(...names, ...hidden, `return ${kind.keyword} (${paramNames.join(', ')}) {\n${source}\n};`);
+  return factory.apply(undefined, names.map(name => scope[name]));
+};
+
+// Stand-in for Function (and its async/generator siblings) that compiles into the isolated scope
+const createIsolatedConstructor = (scope: Record<string, any>, kind: FunctionKind) => {
+  const constructor = function (...args: unknown[]) {
+    const body = args.length > 0 ? String(args[args.length - 1]) : '';
+    return compileIsolated(scope, args.slice(0, -1).map(String), body, kind);
+  };
+  Object.defineProperty(constructor, 'name', { value: kind.native.name });
+  constructor.prototype = kind.prototype;
+  return constructor;
+};
+
+// Stand-in for eval; runs in the isolated scope like indirect eval runs in the global one
+const evaluateIsolated = (scope: Record<string, any>, source: unknown): unknown => {
+  if (typeof source !== 'string') return source;
+  let run: () => unknown;
+  try {
+    run = compileIsolated(scope, [], `return (${source}\n);`);
+  } catch (error) {
+    if (!(error instanceof SyntaxError)) throw error;
+    run = compileIsolated(scope, [], source);
+  }
+  return run();
+};
+
+// The native `constructor` descriptors, put back whenever no plugin run is active
+const NATIVE_CONSTRUCTORS = FUNCTION_KINDS.map(kind => Object.getOwnPropertyDescriptor(kind.prototype, 'constructor')!);
+let activeRuns = 0;
+
+/**
+ * Point `constructor` on every function prototype at an isolated compiler, so
+ * `(() => {}).constructor('return this')()` can't reach the real global object.
+ * Only installed while a plugin run is in flight; the app sees the native one.
+ */
+const setConstructorGuard = (enabled: boolean): void => {
+  FUNCTION_KINDS.forEach((kind, index) => {
+    Object.defineProperty(kind.prototype, 'constructor', enabled
+      ? { value: createIsolatedConstructor({}, kind), writable: true, configurable: true, enumerable: false }
+      : NATIVE_CONSTRUCTORS[index]);
+  });
+};
+
+// Inherited names that code shadows by assignment (`this.name = ...`, `Child.prototype.constructor = Child`).
+// Frozen as plain values those assignments would throw, so they become accessors that shadow instead.
+const SHADOWED_NAMES = new Set<PropertyKey>([
+  'constructor', 'name', 'message', 'stack', 'toString', 'toLocaleString', 'valueOf', 'toJSON',
+  'hasOwnProperty', 'isPrototypeOf', 'propertyIsEnumerable', 'call', 'apply', 'bind',
+]);
+
+const isObjectLike = (value: unknown): value is object =>
+  (typeof value === 'object' && value !== null) || typeof value === 'function';
+
+// Never frozen: the app keeps defining globals after plugins have run
+const hardened = new WeakSet<object>([globalThis]);
+let intrinsicsHardened = false;
+
+const freezeProperty = (target: object, key: PropertyKey, descriptor: PropertyDescriptor, shadowable: boolean): void => {
+  if (shadowable && 'value' in descriptor && descriptor.writable && descriptor.configurable) {
+    const value = descriptor.value;
+    Object.defineProperty(target, key, {
+      get: () => value,
+      set(this: unknown, next: unknown) {
+        if (this === target || !isObjectLike(this)) {
+          throw new TypeError(`Cannot assign to read only property '${String(key)}'`);
+        }
+        Object.defineProperty(this, key, { value: next, writable: true, enumerable: true, configurable: true });
+      },
+      enumerable: descriptor.enumerable,
+      configurable: false,
+    });
+    return;
+  }
+  Object.defineProperty(target, key, 'value' in descriptor ? { writable: false, configurable: false } : { configurable: false });
+};
+
+// Freeze every object reachable from `roots` through properties and prototypes
+const hardenGraph = (roots: unknown[], isShadowable: (key: PropertyKey) => boolean): void => {
+  const queue = roots.filter(isObjectLike);
+  while (queue.length > 0) {
+    const target = queue.pop()!;
+    if (hardened.has(target)) continue;
+    hardened.add(target);
+
+    const prototype = Object.getPrototypeOf(target);
+    if (prototype) queue.push(prototype);
+    for (const key of Reflect.ownKeys(target)) {
+      // Swapped by setConstructorGuard for each run
+      if (key === 'constructor' && FUNCTION_KINDS.some(kind => kind.prototype === target)) continue;
+      const descriptor = Object.getOwnPropertyDescriptor(target, key);
+      if (!descriptor) continue;
+      queue.push(...[descriptor.value, descriptor.get, descriptor.set].filter(isObjectLike));
+      try {
+        freezeProperty(target, key, descriptor, isShadowable(key));
+      } catch {
+        // Host objects may refuse redefinition; the rest of the graph still gets frozen
+      }
+    }
+    Object.preventExtensions(target);
+  }
+};
+
+// Standard globals plus the prototypes only reachable through values, like array iterators
+const intrinsicRoots = (): unknown[] => {
+  const realGlobal: any = globalThis;
+  const roots: unknown[] = [];
+  SAFE_GLOBALS.forEach(name => roots.push(realGlobal[name]));
+  FUNCTION_KINDS.forEach(kind => roots.push(kind.prototype, (kind.prototype as any).prototype));
+  const samples = [
+    () => [][Symbol.iterator](),
+    () => ''[Symbol.iterator](),
+    () => new Map().entries(),
+    () => new Set().values(),
+    () => 'a'.matchAll(/a/g),
+  ];
+  for (const sample of samples) {
+    try {
+      roots.push(sample());
+    } catch {
+      // Not supported by this engine
+    }
+  }
+  return roots;
+};
+
+/**
+ * Freeze the standard library and the given shared modules before plugin code
+ * runs, so a plugin can't patch objects the app relies on too (replace
+ * CryptoJS.SHA256, wrap JSON.parse, change Array.prototype.join). Objects that
+ * are already frozen are skipped, so calling this for every run is cheap.
+ */
+export const hardenSharedModules = (...modules: unknown[]): void => {
+  if (!intrinsicsHardened) {
+    intrinsicsHardened = true;
+    hardenGraph(intrinsicRoots(), key => SHADOWED_NAMES.has(key));
+  }
+  // Module objects are shadowed far more freely (crypto-js builds instances by assignment)
+  hardenGraph(modules, () => true);
+};
+
+/**
+ * Frozen stand-in for an object like the logger or console: its methods call
+ * the original, but replacing them only changes this copy.
+ */
+export const createMethodView = <T extends object>(source: T): T => {
+  const view: Record<string, unknown> = {};
+  for (let current: any = source; current && current !== Object.prototype; current = Object.getPrototypeOf(current)) {
+    for (const key of Object.getOwnPropertyNames(current)) {
+      const value = (source as any)[key];
+      if (key !== 'constructor' && typeof value === 'function' && !(key in view)) {
+        view[key] = (...args: unknown[]) => value.apply(source, args);
+      }
+    }
+  }
+  return Object.freeze(view) as T;
+};
+
+/**
+ * Per-execution sandbox for a local scraper. Every network call a plugin makes
+ * goes through `guardRequest`, and the first violation revokes the sandbox so
+ * later calls fail even if the plugin swallows the original error.
+ */
+export class PluginSandbox {
+  readonly scraperId: string;
+  readonly permissions: ScraperPermissions;
+  private requestCount = 0;
+  private firstViolation: ScraperPermissionError | null = null;
+  private entered = false;
+
+  constructor(scraperId: string, permissions?: ScraperPermissions) {
+    this.scraperId = scraperId;
+    this.permissions = permissions || {};
+  }
+
+  get violation(): ScraperPermissionError | null {
+    return this.firstViolation;
+  }
+
+  get maxRequests(): number {
+    return this.permissions.maxRequests ?? DEFAULT_MAX_REQUESTS;
+  }
+
+  get maxRuntimeMs(): number {
+    return Math.min(this.permissions.maxRuntimeMs ?? MAX_PLUGIN_RUNTIME_MS, MAX_PLUGIN_RUNTIME_MS);
+  }
+
+  get allowGlobalWrites(): boolean {
+    return this.permissions.allowGlobalWrites === true;
+  }
+
+  fail(permission: ScraperPermissionKind, message: string): ScraperPermissionError {
+    const error = new ScraperPermissionError(this.scraperId, permission, message);
+    if (!this.firstViolation) {
+      this.firstViolation = error;
+      logger.warn(`[PluginSandbox] ${this.scraperId} violated ${permission}: ${message}`);
+    }
+    return error;
+  }
+
+  guardRequest(url: string, baseURL?: string): void {
+    if (this.firstViolation) {
+      throw this.firstViolation;
+    }
+
+    const hostname = resolveHostname(url || '', baseURL);
+    if (!hostname || !isHostAllowed(hostname, this.permissions.allowedHosts)) {
+      throw this.fail('allowedHosts', `Request to ${hostname || 'unknown host'} is not in the declared allowedHosts`);
+    }
+
+    this.requestCount += 1;
+    if (this.requestCount > this.maxRequests) {
+      throw this.fail('maxRequests', `Exceeded the limit of ${this.maxRequests} requests per run`);
+    }
+  }
+
+  // Wrap an axios-like object so every call passes through guardRequest
+  wrapAxios<T extends Record<string, any>>(client: T): T {
+    const guarded: Record<string, any> = {
+      get: async (url: string, config?: any) => {
+        this.guardRequest(url, config?.baseURL);
+        return client.get(url, config);
+      },
+      post: async (url: string, data?: any, config?: any) => {
+        this.guardRequest(url, config?.baseURL);
+        return client.post(url, data, config);
+      },
+      put: async (url: string, data?: any, config?: any) => {
+        this.guardRequest(url, config?.baseURL);
+        return client.put(url, data, config);
+      },
+      delete: async (url: string, config?: any) => {
+        this.guardRequest(url, config?.baseURL);
+        return client.delete(url, config);
+      },
+      request: async (config: any) => {
+        this.guardRequest(config?.url || '', config?.baseURL);
+        return client.request(config);
+      },
+      create: (config?: any) => {
+        const instance = client.create(config);
+        instance.interceptors.request.use((requestConfig: any) => {
+          this.guardRequest(requestConfig?.url || '', requestConfig?.baseURL);
+          return requestConfig;
+        });
+        return instance;
+      },
+    };
+    return guarded as T;
+  }
+
+  wrapFetch(fetchImpl: (input: any, init?: any) => Promise<Response>): (input: any, init?: any) => Promise<Response> {
+    return async (input: any, init?: any) => {
+      this.guardRequest(typeof input === 'string' ? input : input?.url || '');
+      return fetchImpl(input, init);
+    };
+  }
+
+  /**
+   * Start the run: the constructor guard stays installed until every entered
+   * sandbox has exited, so callbacks the plugin schedules are covered too.
+   */
+  enter(): void {
+    if (this.entered) return;
+    this.entered = true;
+    if (activeRuns++ === 0) setConstructorGuard(true);
+  }
+
+  exit(): void {
+    if (!this.entered) return;
+    this.entered = false;
+    if (--activeRuns === 0) setConstructorGuard(false);
+  }
+
+  /**
+   * Compile plugin code into a strict-mode function that only sees `bindings`,
+   * the standard globals and sandboxed `Function`/`eval`. Call the result with
+   * `this` set to the global scope from createGlobalScope, between enter() and exit().
+   */
+  compile(bindings: Record<string, any>, body: string): (...args: any[]) => any {
+    const scope: Record<string, any> = { ...bindings };
+    scope.Function = createIsolatedConstructor(scope, FUNCTION_KINDS[0]);
+    scope.eval = (source: unknown) => evaluateIsolated(scope, source);
+    return compileIsolated(scope, [], body);
+  }
+
+  /**
+   * Object handed to plugins as `global`/`globalThis`/`window`/`self`.
+   * Reads fall through to the real global only for standard globals, writes
+   * stay inside this sandbox.
+   */
+  createGlobalScope(initial: Record<string, any>): Record<string, any> {
+    const scope: Record<string, any> = { ...initial };
+    const realGlobal: any = globalThis;
+    const isSafeGlobal = (key: string | symbol) => typeof key === 'string' && SAFE_GLOBALS.has(key);
+
+    return new Proxy(scope, {
+      get: (target, key) => {
+        if (key in target) return target[key as string];
+        if (!isSafeGlobal(key)) return undefined;
+        const value = realGlobal[key];
+        return typeof value === 'function' && !/^[A-Z]/.test(String(key)) ? value.bind(realGlobal) : value;
+      },
+      has: (target, key) => key in target || isSafeGlobal(key),
+      set: (target, key, value) => {
+        if (!this.allowGlobalWrites && !(key in initial)) {
+          throw this.fail('allowGlobalWrites', `Attempted to write global "${String(key)}"`);
+        }
+        target[key as string] = value;
+        return true;
+      },
+      deleteProperty: (target, key) => {
+        delete target[key as string];
+        return true;
+      },
+    });
+  }
+
+  /**
+   * Capture the real global so tampering can be detected and reverted. Every
+   * global is read first: React Native installs lazy globals (URL, Blob,
+   * Headers...) as getters that turn into plain values on first access.
+   */
+  snapshotGlobals(): GlobalSnapshot {
+    const realGlobal: any = globalThis;
+    const snapshot: GlobalSnapshot = new Map();
+    for (const key of Object.getOwnPropertyNames(realGlobal)) {
+      let value: unknown;
+      try {
+        value = realGlobal[key];
+      } catch {
+        value = undefined;
+      }
+      snapshot.set(key, { descriptor: Object.getOwnPropertyDescriptor(realGlobal, key), value });
+    }
+    return snapshot;
+  }
+
+  /**
+   * Revert anything the plugin changed on the real global object, as a backstop
+   * should code ever get past the isolated scope. Overwriting an existing app global is
+   * always a violation; new keys are only a violation without allowGlobalWrites.
+   */
+  restoreGlobals(snapshot: GlobalSnapshot): void {
+    const realGlobal: any = globalThis;
+    for (const key of Object.getOwnPropertyNames(realGlobal)) {
+      const before = snapshot.get(key);
+      const after = Object.getOwnPropertyDescriptor(realGlobal, key);
+
+      if (!before) {
+        if (!this.allowGlobalWrites) {
+          delete realGlobal[key];
+          this.fail('allowGlobalWrites', `Attempted to write global "${key}"`);
+        }
+        continue;
+      }
+
+      // Compare values, so a lazy getter that resolved itself isn't reported
+      const changed = after && ('value' in after
+        ? !Object.is(after.value, before.value)
+        : after.get !== before.descriptor?.get || after.set !== before.descriptor?.set);
+      if (changed) {
+        try {
+          if (before.descriptor) Object.defineProperty(realGlobal, key, before.descriptor);
+        } catch (error) {
+          logger.error(`[PluginSandbox] Failed to restore global "${key}":`, error);
+        }
+        this.fail('allowGlobalWrites', `Attempted to overwrite app global "${key}"`);
+      }
+    }
+  }
+}
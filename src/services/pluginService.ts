@@ -2,10 +2,30 @@ import { mmkvStorage } from './mmkvStorage';
 import axios from 'axios';
 import { Platform } from 'react-native';
 import { logger } from '../utils/logger';
+import { parseStreamInfo } from '../utils/streamParser';
 import { Stream } from '../types/streams';
+import type { Manifest, Meta, MetaDetails, Subtitle } from './stremioService';
 import { cacheService } from './cacheService';
 import CryptoJS from 'crypto-js';
 import { safeAxiosConfig, createSafeAxiosConfig } from '../utils/axiosConfig';
+import {
+  PluginSandbox,
+  ScraperPermissions,
+  createMethodView,
+  hardenSharedModules,
+  ScraperPermissionViolation,
+  isScraperPermissionError,
+  normalizeScraperPermissions,
+} from './pluginSandbox';
+import {
+  RepositoryIntegrity,
+  RepositoryVerificationResult,
+  RepositoryVerificationStatus,
+  verifyRepositoryManifest,
+  verifyScraperFile,
+} from './repositoryVerification';
+import { parentalControlsService } from './parentalControlsService';
+import { isProfileScope } from './profileService';
 
 const MAX_CONCURRENT_SCRAPERS = 5;
 const MAX_INFLIGHT_KEYS = 30;
@@ -24,12 +44,25 @@ const VIDEO_CONTENT_TYPES = [
 
 const MAX_PREFLIGHT_SIZE = 50 * 1024 * 1024;
 
+// Virtual addon id prefix for scrapers that provide catalogs
+export const PLUGIN_ADDON_ID_PREFIX = 'local-plugin.';
+
 // Types for local scrapers
+export type ScraperResource = 'stream' | 'catalog' | 'meta' | 'subtitles';
+
+export interface ScraperCatalog {
+  type: string;
+  id: string;
+  name: string;
+}
+
 export interface ScraperManifest {
   name: string;
   version: string;
   description: string;
   author: string;
+  permissions?: ScraperPermissions; // Default permissions for scrapers that don't declare their own
+  integrity?: RepositoryIntegrity; // Per-file hashes and publisher signature
   scrapers: ScraperInfo[];
 }
 
@@ -53,6 +86,11 @@ export interface ScraperInfo {
   repositoryId?: string; // Which repository this scraper came from
   supportsExternalPlayer?: boolean; // Whether this scraper supports external players
   limited?: boolean; // Whether this scraper has limited functionality
+  permissions?: ScraperPermissions; // Declared sandbox permissions, enforced on every run
+  // Exported resources beyond getStreams: getCatalog, getMeta and getSubtitles (defaults to ['stream'])
+  resources?: ScraperResource[];
+  catalogs?: ScraperCatalog[]; // Catalogs served by getCatalog, shown as home rows
+  idPrefixes?: string[]; // Content ID prefixes handled by getMeta/getSubtitles (any ID if omitted)
 }
 
 export interface RepositoryInfo {
@@ -64,6 +102,10 @@ export interface RepositoryInfo {
   enabled: boolean;
   lastUpdated?: number;
   scraperCount?: number;
+  verificationStatus?: RepositoryVerificationStatus; // Result of the last manifest verification
+  verificationMessage?: string; // Why verification failed, if it did
+  publisher?: string;
+  publisherKey?: string; // Publisher key pinned on the first verified refresh
 }
 
 export interface LocalScraperResult {
@@ -152,6 +194,7 @@ class LocalScraperService {
   private readonly REPOSITORY_KEY = 'scraper-repository-url';
   private readonly REPOSITORIES_KEY = 'scraper-repositories';
   private readonly SCRAPER_SETTINGS_KEY = 'scraper-settings';
+  private readonly PERMISSION_VIOLATIONS_KEY = 'scraper-permission-violations';
   private installedScrapers: Map<string, ScraperInfo> = new Map();
   private scraperCode: Map<string, string> = new Map();
   private repositories: Map<string, RepositoryInfo> = new Map();
@@ -162,6 +205,9 @@ class LocalScraperService {
   private autoRefreshCompleted: boolean = false;
   private isRefreshing: boolean = false;
   private scraperSettingsCache: Record<string, any> | null = null;
+  private permissionViolations: Map<string, ScraperPermissionViolation> = new Map();
+  // Scrapers and code from before a full refresh, used to roll back repositories that fail verification
+  private refreshSnapshot: { scrapers: Map<string, ScraperInfo>; code: Map<string, string> } | null = null;
   // Single-flight map to prevent duplicate concurrent runs per scraper+title
   private inFlightByKey: Map<string, Promise<LocalScraperResult[]>> = new Map();
 
@@ -293,6 +339,12 @@ class LocalScraperService {
       // Load scraper code from cache
       await this.loadScraperCode();
 
+      // Load recorded sandbox violations
+      const violationsData = await mmkvStorage.getItem(this.PERMISSION_VIOLATIONS_KEY);
+      if (violationsData) {
+        this.permissionViolations = new Map(Object.entries(JSON.parse(violationsData)));
+      }
+
       // Auto-refresh ALL enabled repositories on app startup (non-blocking, in background)
       const enabledRepos = Array.from(this.repositories.values()).filter(r => r.enabled !== false);
       if (enabledRepos.length > 0 && !this.autoRefreshCompleted) {
@@ -312,6 +364,13 @@ class LocalScraperService {
     }
   }
 
+  // Re-read repositories after account sync rewrote them; enabled ones refresh in the background
+  async reloadRepositories(): Promise<void> {
+    this.initialized = false;
+    this.autoRefreshCompleted = false;
+    await this.initialize();
+  }
+
   private async ensureInitialized(): Promise<void> {
     if (!this.initialized) {
       await this.initialize();
@@ -622,6 +681,10 @@ class LocalScraperService {
     }
     // Store it on the instance so downloadScraper can access it
     (this as any)._previousEnabledStates = previousEnabledStates;
+    this.refreshSnapshot = {
+      scrapers: new Map(this.installedScrapers),
+      code: new Map(this.scraperCode)
+    };
 
     // Clear caches before refreshing all
     this.scraperCode.clear();
@@ -668,6 +731,7 @@ class LocalScraperService {
 
     // Clean up the temporary preserved states
     delete (this as any)._previousEnabledStates;
+    this.refreshSnapshot = null;
 
     logger.log('[LocalScraperService] Finished refreshing all enabled repositories. Total scrapers:', this.installedScrapers.size);
   }
@@ -701,17 +765,6 @@ class LocalScraperService {
     try {
       logger.log('[LocalScraperService] Fetching repository manifest from:', this.repositoryUrl);
 
-      // Clear all cached scraper code for this repository to force hard refresh
-      const cachedScraperIds = Array.from(this.installedScrapers.keys());
-      for (const scraperId of cachedScraperIds) {
-        const scraper = this.installedScrapers.get(scraperId);
-        if (scraper && scraper.repositoryId === this.currentRepositoryId) {
-          this.scraperCode.delete(scraperId);
-          await mmkvStorage.removeItem(`scraper-code-${scraperId}`);
-          logger.log('[LocalScraperService] Cleared cached code for scraper:', scraper.name);
-        }
-      }
-
       // Fetch manifest with cache busting
       const baseManifestUrl = this.repositoryUrl.endsWith('/')
         ? `${this.repositoryUrl}manifest.json`
@@ -732,6 +785,23 @@ class LocalScraperService {
         this.repositoryName = manifest.name;
       }
 
+      // Refuse the update before touching cached code if verification fails
+      const currentRepository = this.repositories.get(this.currentRepositoryId);
+      const verifiedCode = currentRepository
+        ? await this.verifyRepositoryContents(currentRepository, manifest)
+        : null;
+
+      // Clear all cached scraper code for this repository to force hard refresh
+      const cachedScraperIds = Array.from(this.installedScrapers.keys());
+      for (const scraperId of cachedScraperIds) {
+        const scraper = this.installedScrapers.get(scraperId);
+        if (scraper && scraper.repositoryId === this.currentRepositoryId) {
+          this.scraperCode.delete(scraperId);
+          await mmkvStorage.removeItem(`scraper-code-${scraperId}`);
+          logger.log('[LocalScraperService] Cleared cached code for scraper:', scraper.name);
+        }
+      }
+
       logger.log('[LocalScraperService] getAvailableScrapers - Raw manifest data:', JSON.stringify(manifest, null, 2));
       logger.log('[LocalScraperService] getAvailableScrapers - Manifest scrapers count:', manifest.scrapers?.length || 0);
 
@@ -761,11 +831,17 @@ class LocalScraperService {
       for (const scraperInfo of manifest.scrapers) {
         const isPlatformCompatible = this.isPlatformCompatible(scraperInfo);
 
-        if (isPlatformCompatible) {
+        if (isPlatformCompatible && verifiedCode && !verifiedCode.has(scraperInfo.id)) {
+          logger.warn('[LocalScraperService] Skipping scraper that could not be verified:', scraperInfo.name);
+        } else if (isPlatformCompatible) {
           // Add repository ID to scraper info
-          const scraperWithRepo = { ...scraperInfo, repositoryId: this.currentRepositoryId };
+          const scraperWithRepo = {
+            ...scraperInfo,
+            repositoryId: this.currentRepositoryId,
+            permissions: scraperInfo.permissions ?? manifest.permissions
+          };
           // Download/update the scraper (downloadScraper handles force disabling based on manifest.enabled)
-          await this.downloadScraper(scraperWithRepo);
+          await this.downloadScraper(scraperWithRepo, undefined, verifiedCode?.get(scraperInfo.id));
         } else {
           logger.log('[LocalScraperService] Skipping platform-incompatible scraper:', scraperInfo.name);
           // Remove if it was previously installed but is now platform-incompatible
@@ -829,6 +905,9 @@ class LocalScraperService {
 
       logger.log('[LocalScraperService] Repository', repo.name, 'has', manifest.scrapers?.length || 0, 'scrapers');
 
+      // Signed repositories are fetched and checked in full before anything is replaced
+      const verifiedCode = await this.verifyRepositoryContents(repo, manifest);
+
       // Get current manifest scraper IDs for this repository
       const manifestScraperIds = new Set(manifest.scrapers.map(s => s.id));
 
@@ -848,11 +927,17 @@ class LocalScraperService {
       for (const scraperInfo of manifest.scrapers) {
         const isPlatformCompatible = this.isPlatformCompatible(scraperInfo);
 
-        if (isPlatformCompatible) {
+        if (isPlatformCompatible && verifiedCode && !verifiedCode.has(scraperInfo.id)) {
+          logger.warn('[LocalScraperService] Skipping scraper that could not be verified:', scraperInfo.name);
+        } else if (isPlatformCompatible) {
           // Add repository ID to scraper info
-          const scraperWithRepo = { ...scraperInfo, repositoryId: repo.id };
+          const scraperWithRepo = {
+            ...scraperInfo,
+            repositoryId: repo.id,
+            permissions: scraperInfo.permissions ?? manifest.permissions
+          };
           // Download/update the scraper - pass repo.url explicitly for parallel-safe operation
-          await this.downloadScraper(scraperWithRepo, repo.url);
+          await this.downloadScraper(scraperWithRepo, repo.url, verifiedCode?.get(scraperInfo.id));
         } else {
           logger.log('[LocalScraperService] Skipping platform-incompatible scraper:', scraperInfo.name);
           // Remove if it was previously installed but is now platform-incompatible
@@ -880,28 +965,91 @@ class LocalScraperService {
     }
   }
 
-  // Download individual scraper (repositoryUrl passed explicitly for parallel-safe operation)
-  private async downloadScraper(scraperInfo: ScraperInfo, repositoryUrl?: string): Promise<void> {
+  // Verify a repository manifest and, for signed repositories, prefetch every scraper file and
+  // check it against its signed hash. Returns the verified code, or null for unsigned repositories.
+  private async verifyRepositoryContents(repo: RepositoryInfo, manifest: ScraperManifest): Promise<Map<string, string> | null> {
+    let verification: RepositoryVerificationResult = verifyRepositoryManifest(manifest, repo.publisherKey);
+    const verifiedCode = new Map<string, string>();
+
+    if (verification.status === 'verified' && manifest.integrity) {
+      for (const scraperInfo of manifest.scrapers.filter(s => this.isPlatformCompatible(s))) {
+        try {
+          const code = await this.fetchScraperCode(scraperInfo, repo.url);
+          if (!verifyScraperFile(manifest.integrity, scraperInfo.filename, code)) {
+            verification = { status: 'tampered', publisher: verification.publisher, reason: `${scraperInfo.filename} does not match its signed hash` };
+            break;
+          }
+          verifiedCode.set(scraperInfo.id, code);
+        } catch (error) {
+          // A file we can't download can't be verified; skip it like unsigned repositories do
+          logger.error('[LocalScraperService] Failed to download scraper for verification', scraperInfo.name, ':', error);
+        }
+      }
+    }
+
+    await this.updateRepository(repo.id, {
+      verificationStatus: verification.status,
+      verificationMessage: verification.reason,
+      publisher: verification.publisher ?? repo.publisher,
+      // Pin the key on first successful verification; keep the pinned key otherwise
+      publisherKey: verification.status === 'verified' ? verification.publicKey : repo.publisherKey
+    });
+
+    if (verification.status === 'tampered') {
+      logger.error('[LocalScraperService] Repository', repo.name, 'failed verification:', verification.reason);
+      await this.restoreRepositoryFromSnapshot(repo.id);
+      throw new Error(`Repository failed verification: ${verification.reason}`);
+    }
+
+    logger.log('[LocalScraperService] Repository', repo.name, 'verification:', verification.status);
+    return verification.status === 'verified' ? verifiedCode : null;
+  }
+
+  // Put back the scrapers a full refresh cleared for a repository whose update was refused
+  private async restoreRepositoryFromSnapshot(repoId: string): Promise<void> {
+    if (!this.refreshSnapshot) return;
+
+    for (const [scraperId, scraper] of this.refreshSnapshot.scrapers) {
+      if (scraper.repositoryId !== repoId) continue;
+      this.installedScrapers.set(scraperId, scraper);
+      const code = this.refreshSnapshot.code.get(scraperId);
+      if (code) {
+        this.scraperCode.set(scraperId, code);
+        await this.cacheScraperCode(scraperId, code);
+      }
+    }
+  }
+
+  private async fetchScraperCode(scraperInfo: ScraperInfo, repoUrl: string): Promise<string> {
+    const scraperUrl = repoUrl.endsWith('/')
+      ? `${repoUrl}${scraperInfo.filename}`
+      : `${repoUrl}/${scraperInfo.filename}`;
+
+    // Add cache-busting parameters to force fresh download
+    const scraperUrlWithCacheBust = `${scraperUrl}?t=${Date.now()}&v=${Math.random()}`;
+
+    const response = await axios.get(scraperUrlWithCacheBust, createSafeAxiosConfig(15000, {
+      headers: {
+        'Cache-Control': 'no-cache',
+        'Pragma': 'no-cache',
+        'Expires': '0'
+      },
+      // Keep the exact bytes so signed hashes can be checked
+      transformResponse: (data: any) => data
+    }));
+    return response.data;
+  }
+
+  // Download individual scraper (repositoryUrl passed explicitly for parallel-safe operation).
+  // verifiedCode is the already hash-checked file for signed repositories.
+  private async downloadScraper(scraperInfo: ScraperInfo, repositoryUrl?: string, verifiedCode?: string): Promise<void> {
     try {
       // Use passed repositoryUrl or fall back to this.repositoryUrl for backward compatibility
       const repoUrl = repositoryUrl || this.repositoryUrl;
-      const scraperUrl = repoUrl.endsWith('/')
-        ? `${repoUrl}${scraperInfo.filename}`
-        : `${repoUrl}/${scraperInfo.filename}`;
 
       logger.log('[LocalScraperService] Downloading scraper:', scraperInfo.name);
 
-      // Add cache-busting parameters to force fresh download
-      const scraperUrlWithCacheBust = `${scraperUrl}?t=${Date.now()}&v=${Math.random()}`;
-
-      const response = await axios.get(scraperUrlWithCacheBust, createSafeAxiosConfig(15000, {
-        headers: {
-          'Cache-Control': 'no-cache',
-          'Pragma': 'no-cache',
-          'Expires': '0'
-        }
-      }));
-      const scraperCode = response.data;
+      const scraperCode = verifiedCode ?? await this.fetchScraperCode(scraperInfo, repoUrl);
 
       // Store scraper info and code
       const existingScraper = this.installedScrapers.get(scraperInfo.id);
@@ -920,7 +1068,9 @@ class LocalScraperService {
         // 1. Manifest says enabled: false (globally disabled)
         // 2. Platform incompatible
         // Otherwise, preserve user's enabled state
-        enabled: scraperInfo.enabled && isPlatformCompatible ? userEnabledState : false
+        enabled: scraperInfo.enabled && isPlatformCompatible ? userEnabledState : false,
+        // Manifest values are untrusted, keep only well-formed permission fields
+        permissions: normalizeScraperPermissions(scraperInfo.permissions)
       };
 
       // Ensure contentLanguage is an array (migration for older scrapers)
@@ -944,6 +1094,13 @@ class LocalScraperService {
       if (!updatedScraperInfo.supportedFormats && updatedScraperInfo.formats) {
         updatedScraperInfo.supportedFormats = updatedScraperInfo.formats;
       }
+      // Drop malformed resource declarations so the scraper falls back to streams only
+      if (updatedScraperInfo.resources && !Array.isArray(updatedScraperInfo.resources)) {
+        delete updatedScraperInfo.resources;
+      }
+      if (updatedScraperInfo.catalogs && !Array.isArray(updatedScraperInfo.catalogs)) {
+        delete updatedScraperInfo.catalogs;
+      }
 
       this.installedScrapers.set(scraperInfo.id, updatedScraperInfo);
 
@@ -1045,9 +1202,9 @@ class LocalScraperService {
     // These are already synced with manifests during refresh
     const allScrapers = Array.from(this.installedScrapers.values())
       .filter(scraper => {
-        // Only include scrapers from enabled repositories
+        // Only include scrapers from enabled repositories that parental controls allow
         const repo = this.repositories.get(scraper.repositoryId || '');
-        return repo?.enabled !== false;
+        return repo?.enabled !== false && parentalControlsService.isPluginAllowed(scraper.id);
       });
 
     logger.log('[LocalScraperService] Found', allScrapers.length, 'scrapers from', enabledRepos.length, 'enabled repositories');
@@ -1146,7 +1303,8 @@ class LocalScraperService {
       .filter(scraper =>
         scraper.enabled &&
         scraper.manifestEnabled !== false &&
-        scraper.supportedTypes.includes(media)
+        scraper.supportedTypes.includes(media) &&
+        (scraper.resources || ['stream']).includes('stream')
       );
 
     logger.log(`[LocalScraperService] Media normalized '${type}' -> '${media}'. Enabled scrapers for this media: ${enabledScrapers.length}`);
@@ -1222,7 +1380,7 @@ class LocalScraperService {
           scraperId: scraper.id,
           settings: scraperSettings,
           requestId
-        });
+        }, undefined, scraper.permissions);
         this.inFlightByKey.set(flightKey, promise);
         // Clean up after settle; guard against races
         promise.finally(() => {
@@ -1244,9 +1402,17 @@ class LocalScraperService {
         callback(streams, scraper.id, scraper.name, null);
       }
 
+      if (this.permissionViolations.has(scraper.id)) {
+        await this.clearPermissionViolation(scraper.id);
+      }
+
     } catch (error) {
       logger.error('[LocalScraperService] Scraper', scraper.name, 'failed:', error);
 
+      if (isScraperPermissionError(error)) {
+        await this.recordPermissionViolation(error.toViolation());
+      }
+
       if (callback) {
         callback(null, scraper.id, scraper.name, error as Error);
       }
@@ -1254,13 +1420,25 @@ class LocalScraperService {
   }
 
 
-  private async executePlugin(code: string, params: any, consoleOverride?: any): Promise<LocalScraperResult[]> {
+  private async executePlugin<T = LocalScraperResult[]>(
+    code: string,
+    params: any,
+    consoleOverride?: any,
+    permissions?: ScraperPermissions
+  ): Promise<T> {
+    // Each run gets its own sandbox: request budget, host allow-list and global scope
+    const sandbox = new PluginSandbox(params?.scraperId || 'test-plugin', permissions);
+    let runtimeTimer: ReturnType<typeof setTimeout> | undefined;
+
     try {
-      const allScraperSettingsRaw = await mmkvStorage.getItem(this.SCRAPER_SETTINGS_KEY);
-      const allScraperSettings = allScraperSettingsRaw ? JSON.parse(allScraperSettingsRaw) : {};
-      let perScraperSettings = (params && params.scraperId && allScraperSettings[params.scraperId])
-        ? allScraperSettings[params.scraperId]
-        : (params?.settings || {});
+      // Only this scraper's settings, copied so the plugin can't edit the shared cache
+      const storedSettings = params?.scraperId ? await this.getScraperSettings(params.scraperId) : {};
+      let perScraperSettings = JSON.parse(JSON.stringify(
+        Object.keys(storedSettings).length > 0 ? storedSettings : (params?.settings || {})
+      ));
+      if (params) {
+        params.settings = perScraperSettings;
+      }
 
       if (params?.scraperId?.toLowerCase().includes('showbox')) {
         const token = perScraperSettings.uiToken || perScraperSettings.cookie || perScraperSettings.token;
@@ -1297,7 +1475,7 @@ class LocalScraperService {
       const MOVIEBOX_PRIMARY_KEY = process.env.EXPO_PUBLIC_MOVIEBOX_PRIMARY_KEY;
       const MOVIEBOX_TMDB_API_KEY = process.env.EXPO_PUBLIC_MOVIEBOX_TMDB_API_KEY || '439c478a771f35c05022f9feabcca01c';
 
-      const sandboxedAxios = {
+      const sizeLimitedAxios = {
         get: async (url: string, config?: any) => {
           if (!config?.skipSizeCheck) {
             await preflightSizeCheck(url, config?.timeout || 30000);
@@ -1351,6 +1529,7 @@ class LocalScraperService {
           maxBodyLength: MAX_RESPONSE_SIZE,
         }),
       };
+      const sandboxedAxios = sandbox.wrapAxios(sizeLimitedAxios);
 
       // Custom require function for backward compatibility with existing plugins
       const pluginRequire = (moduleName: string): any => {
@@ -1369,7 +1548,7 @@ class LocalScraperService {
         }
       };
 
-      const polyfilledFetch = async (url: string, options: any = {}): Promise<Response> => {
+      const polyfilledFetch = sandbox.wrapFetch(async (url: string, options: any = {}): Promise<Response> => {
         const method = (options?.method || 'GET').toString().toUpperCase();
         
         if (method === 'GET' && !options?.skipSizeCheck) {
@@ -1428,99 +1607,299 @@ class LocalScraperService {
           logger.error('[PolyfilledFetch] Native fetch error:', error.message);
           throw error;
         }
-      };
+      });
 
-      // Execution timeout (1 minute)
-      const PLUGIN_TIMEOUT_MS = 60000;
+      // Globals the plugin sees instead of the app's real global object
+      const sandboxGlobal = sandbox.createGlobalScope({
+        PRIMARY_KEY: MOVIEBOX_PRIMARY_KEY,
+        TMDB_API_KEY: MOVIEBOX_TMDB_API_KEY,
+        SCRAPER_SETTINGS: perScraperSettings,
+        SCRAPER_ID: params?.scraperId,
+        fetch: polyfilledFetch,
+        axios: sandboxedAxios,
+        XMLHttpRequest: undefined,
+        WebSocket: undefined,
+      });
 
-      const executionPromise = new Promise<LocalScraperResult[]>((resolve, reject) => {
+      const executionPromise = new Promise<T>((resolve, reject) => {
         try {
-          // Create function with full global access
-          // We pass specific utilities but the plugin has access to everything
-          const executePlugin = new Function(
-            'module',
-            'exports',
-            'require',
-            'axios',
-            'fetch',
-            'CryptoJS',
-            'cheerio',
-            'logger',
-            'console',
-            'params',
-            'PRIMARY_KEY',
-            'TMDB_API_KEY',
-            'SCRAPER_SETTINGS',
-            'SCRAPER_ID',
+          // Freeze what the app shares with plugins before any plugin code runs
+          hardenSharedModules(CryptoJS, cheerio);
+          sandbox.enter();
+
+          // Strict mode, with every route to the real global object shadowed
+          const executePlugin = sandbox.compile(
+            {
+              module: moduleObj,
+              exports: moduleExports,
+              require: pluginRequire,
+              axios: sandboxedAxios,
+              fetch: polyfilledFetch, // Use polyfilled fetch for redirect: manual support
+              CryptoJS,
+              cheerio,
+              logger: createMethodView(logger),
+              console: createMethodView(consoleOverride || console), // Expose console (or override) to plugins for debugging
+              params,
+              PRIMARY_KEY: MOVIEBOX_PRIMARY_KEY,
+              TMDB_API_KEY: MOVIEBOX_TMDB_API_KEY,
+              SCRAPER_SETTINGS: perScraperSettings,
+              SCRAPER_ID: params?.scraperId,
+              global: sandboxGlobal,
+              globalThis: sandboxGlobal,
+              window: sandboxGlobal,
+              self: sandboxGlobal,
+              XMLHttpRequest: undefined,
+              WebSocket: undefined,
+            },
             `
-            // Make env vars available globally for backward compatibility
-            const globalScope = typeof global !== 'undefined' ? global : (typeof window !== 'undefined' ? window : (typeof self !== 'undefined' ? self : this));
-            
-            if (globalScope) {
-              globalScope.PRIMARY_KEY = PRIMARY_KEY;
-              globalScope.TMDB_API_KEY = TMDB_API_KEY;
-              globalScope.SCRAPER_SETTINGS = SCRAPER_SETTINGS;
-              globalScope.SCRAPER_ID = SCRAPER_ID;
-            } else {
-               logger.error('[Plugin Sandbox] Could not find global scope to inject settings');
-            }
-
             // Plugin code
             ${code}
 
             // Find and call getStreams function
-            if (typeof getStreams === 'function') {
-              return getStreams(params.tmdbId, params.mediaType, params.season, params.episode);
-            } else if (module.exports && typeof module.exports.getStreams === 'function') {
-              return module.exports.getStreams(params.tmdbId, params.mediaType, params.season, params.episode);
-            } else if (typeof global !== 'undefined' && typeof global.getStreams === 'function') {
-              return global.getStreams(params.tmdbId, params.mediaType, params.season, params.episode);
-            } else {
-              throw new Error('No getStreams function found in plugin');
+            if (!params.entryPoint) {
+              if (typeof getStreams === 'function') {
+                return getStreams(params.tmdbId, params.mediaType, params.season, params.episode);
+              } else if (module.exports && typeof module.exports.getStreams === 'function') {
+                return module.exports.getStreams(params.tmdbId, params.mediaType, params.season, params.episode);
+              } else if (typeof global !== 'undefined' && typeof global.getStreams === 'function') {
+                return global.getStreams(params.tmdbId, params.mediaType, params.season, params.episode);
+              } else {
+                throw new Error('No getStreams function found in plugin');
+              }
             }
+
+            // Other resources (getCatalog, getMeta, getSubtitles) are called with params.args
+            const declaredEntryPoints = {
+              getCatalog: typeof getCatalog === 'function' ? getCatalog : undefined,
+              getMeta: typeof getMeta === 'function' ? getMeta : undefined,
+              getSubtitles: typeof getSubtitles === 'function' ? getSubtitles : undefined
+            };
+            const entryPoint = declaredEntryPoints[params.entryPoint]
+              || (module.exports && module.exports[params.entryPoint])
+              || (typeof global !== 'undefined' && global[params.entryPoint]);
+            if (typeof entryPoint !== 'function') {
+              throw new Error('No ' + params.entryPoint + ' function found in plugin');
+            }
+            return entryPoint.apply(null, params.args || []);
             `
           );
 
-          // Execute with full access to utilities
-          const result = executePlugin(
-            moduleObj,
-            moduleExports,
-            pluginRequire,
-            sandboxedAxios,
-            polyfilledFetch,  // Use polyfilled fetch for redirect: manual support
-            CryptoJS,
-            cheerio,
-            logger,
-            consoleOverride || console,  // Expose console (or override) to plugins for debugging
-            params,
-            MOVIEBOX_PRIMARY_KEY,
-            MOVIEBOX_TMDB_API_KEY,
-            perScraperSettings,
-            params?.scraperId
-          );
+          // Top-level plugin code runs synchronously, so any leak onto the real global can be attributed
+          const globalsBefore = sandbox.snapshotGlobals();
+          let result: any;
+          try {
+            result = executePlugin.call(sandboxGlobal);
+          } finally {
+            sandbox.restoreGlobals(globalsBefore);
+          }
 
           // Handle async results
           if (result && typeof result.then === 'function') {
             result.then(resolve).catch(reject);
           } else {
-            resolve(result || []);
+            resolve(result ?? (params?.entryPoint ? null : []));
           }
         } catch (error) {
           reject(error);
         }
       });
 
-      // Apply timeout to prevent hanging plugins
-      return await Promise.race([
+      // Apply timeout to prevent hanging plugins; a declared runtime limit counts as a permission
+      const maxRuntimeMs = sandbox.maxRuntimeMs;
+      const results = await Promise.race([
         executionPromise,
-        new Promise<never>((_, reject) =>
-          setTimeout(() => reject(new Error(`Plugin execution timed out after ${PLUGIN_TIMEOUT_MS}ms`)), PLUGIN_TIMEOUT_MS)
-        )
+        new Promise<never>((_, reject) => {
+          runtimeTimer = setTimeout(() => {
+            reject(permissions?.maxRuntimeMs
+              ? sandbox.fail('maxRuntimeMs', `Exceeded the declared runtime of ${maxRuntimeMs}ms`)
+              : new Error(`Plugin execution timed out after ${maxRuntimeMs}ms`));
+          }, maxRuntimeMs);
+        })
       ]);
 
+      // Plugins may swallow the error thrown at the violation site; still fail the run
+      if (sandbox.violation) {
+        throw sandbox.violation;
+      }
+      return results;
+
     } catch (error) {
       logger.error('[LocalScraperService] Plugin execution failed:', error);
-      throw error;
+      throw sandbox.violation || error;
+    } finally {
+      if (runtimeTimer) clearTimeout(runtimeTimer);
+      sandbox.exit();
+    }
+  }
+
+  // Scrapers that export the given resource; plain scrapers only provide streams
+  private async getResourceScrapers(resource: ScraperResource): Promise<ScraperInfo[]> {
+    const userSettings = await this.getUserScraperSettings();
+    if (!userSettings.enableLocalScrapers) {
+      return [];
+    }
+
+    const availableScrapers = await this.getAvailableScrapers();
+    return availableScrapers.filter(scraper =>
+      scraper.enabled &&
+      scraper.manifestEnabled !== false &&
+      (scraper.resources || ['stream']).includes(resource)
+    );
+  }
+
+  private supportsContentId(scraper: ScraperInfo, id: string): boolean {
+    if (!scraper.idPrefixes || scraper.idPrefixes.length === 0) return true;
+    return scraper.idPrefixes.some(prefix => id.startsWith(prefix));
+  }
+
+  // Run a non-stream entry point; failures are logged and reported as null so callers can fall back
+  private async executeResource<T>(
+    scraper: ScraperInfo,
+    entryPoint: 'getCatalog' | 'getMeta' | 'getSubtitles',
+    args: any[]
+  ): Promise<T | null> {
+    const code = this.scraperCode.get(scraper.id);
+    if (!code) {
+      logger.warn('[LocalScraperService] No code found for scraper', scraper.id);
+      return null;
+    }
+
+    try {
+      const settings = await this.getScraperSettings(scraper.id);
+      const result = await this.executePlugin<T | null>(code, {
+        scraperId: scraper.id,
+        settings,
+        entryPoint,
+        args
+      }, undefined, scraper.permissions);
+
+      if (this.permissionViolations.has(scraper.id)) {
+        await this.clearPermissionViolation(scraper.id);
+      }
+      return result;
+    } catch (error) {
+      logger.error('[LocalScraperService] Scraper', scraper.name, entryPoint, 'failed:', error);
+      if (isScraperPermissionError(error)) {
+        await this.recordPermissionViolation(error.toViolation());
+      }
+      return null;
+    }
+  }
+
+  isPluginAddonId(addonId: string): boolean {
+    return addonId.startsWith(PLUGIN_ADDON_ID_PREFIX);
+  }
+
+  // Catalog-providing scrapers as virtual Stremio manifests, so they can be listed next to addons
+  async getCatalogManifests(): Promise<Manifest[]> {
+    await this.ensureInitialized();
+    const scrapers = await this.getResourceScrapers('catalog');
+
+    return scrapers
+      .filter(scraper => scraper.catalogs && scraper.catalogs.length > 0)
+      .map(scraper => {
+        const types = Array.from(new Set(scraper.catalogs!.map(catalog => catalog.type)));
+        return {
+          id: `${PLUGIN_ADDON_ID_PREFIX}${scraper.id}`,
+          name: scraper.name,
+          version: scraper.version,
+          description: scraper.description,
+          logo: scraper.logo,
+          catalogs: scraper.catalogs!.map(catalog => ({ type: catalog.type, id: catalog.id, name: catalog.name })),
+          resources: [{ name: 'catalog', types }],
+          types
+        };
+      });
+  }
+
+  // getCatalog(type, catalogId, extra) may return Meta[] or { metas }
+  async getCatalog(
+    addonId: string,
+    type: string,
+    catalogId: string,
+    extra: { skip?: number; filters?: { title: string; value: any }[] } = {}
+  ): Promise<Meta[]> {
+    await this.ensureInitialized();
+    const scraperId = addonId.slice(PLUGIN_ADDON_ID_PREFIX.length);
+    const scraper = (await this.getResourceScrapers('catalog')).find(s => s.id === scraperId);
+    if (!scraper) {
+      return [];
+    }
+
+    const pluginExtra: Record<string, any> = { skip: extra.skip || 0 };
+    (extra.filters || []).filter(f => f && f.value).forEach(f => {
+      pluginExtra[f.title] = f.value;
+    });
+
+    const result = await this.executeResource<Meta[] | { metas?: Meta[] }>(scraper, 'getCatalog', [type, catalogId, pluginExtra]);
+    const metas = Array.isArray(result) ? result : result?.metas;
+    return Array.isArray(metas)
+      ? metas.filter(meta => meta && meta.id && meta.name).slice(0, MAX_RESULT_ITEMS)
+      : [];
+  }
+
+  // getMeta(type, id) may return a Meta or { meta }; first scraper with a result wins
+  async getMeta(type: string, id: string): Promise<MetaDetails | null> {
+    await this.ensureInitialized();
+    const scrapers = (await this.getResourceScrapers('meta')).filter(s => this.supportsContentId(s, id));
+
+    for (const scraper of scrapers) {
+      const result = await this.executeResource<MetaDetails | { meta?: MetaDetails }>(scraper, 'getMeta', [type, id]);
+      const meta = result && 'meta' in result ? result.meta : result as MetaDetails | null;
+      if (meta && meta.id) {
+        return { ...meta, type: meta.type || type };
+      }
+    }
+    return null;
+  }
+
+  // getSubtitles(type, id, videoId) may return Subtitle[] or { subtitles }
+  async getSubtitles(type: string, id: string, videoId?: string): Promise<Subtitle[]> {
+    await this.ensureInitialized();
+    const idForChecking = type === 'series' && videoId ? videoId.replace('series:', '') : id;
+    const scrapers = (await this.getResourceScrapers('subtitles')).filter(s => this.supportsContentId(s, idForChecking));
+
+    const results = await Promise.all(scrapers.map(async scraper => {
+      const result = await this.executeResource<Subtitle[] | { subtitles?: Subtitle[] }>(scraper, 'getSubtitles', [type, id, videoId]);
+      const subtitles = Array.isArray(result) ? result : result?.subtitles;
+      if (!Array.isArray(subtitles)) return [] as Subtitle[];
+
+      return subtitles
+        .filter(sub => sub && sub.url)
+        .map((sub, index) => ({
+          ...sub,
+          id: sub.id || `${scraper.id}-${sub.lang || 'unknown'}-${index}`,
+          lang: sub.lang || 'unknown',
+          addon: scraper.id,
+          addonName: scraper.name,
+        }));
+    }));
+
+    return ([] as Subtitle[]).concat(...results);
+  }
+
+  // Persist a sandbox violation so PluginsScreen can surface it
+  private async recordPermissionViolation(violation: ScraperPermissionViolation): Promise<void> {
+    this.permissionViolations.set(violation.scraperId, violation);
+    await this.savePermissionViolations();
+  }
+
+  async clearPermissionViolation(scraperId: string): Promise<void> {
+    if (this.permissionViolations.delete(scraperId)) {
+      await this.savePermissionViolations();
+    }
+  }
+
+  async getPermissionViolations(): Promise<Record<string, ScraperPermissionViolation>> {
+    await this.ensureInitialized();
+    return Object.fromEntries(this.permissionViolations);
+  }
+
+  private async savePermissionViolations(): Promise<void> {
+    try {
+      await mmkvStorage.setItem(this.PERMISSION_VIOLATIONS_KEY, JSON.stringify(Object.fromEntries(this.permissionViolations)));
+    } catch (error) {
+      logger.error('[LocalScraperService] Failed to save permission violations:', error);
     }
   }
 
@@ -1576,6 +1955,8 @@ class LocalScraperService {
         stream.headers = result.headers;
       }
 
+      stream.parsed = parseStreamInfo(stream);
+
       return stream;
     }).filter(stream => stream.url); // Filter out streams without URLs
   }
@@ -1679,7 +2060,7 @@ class LocalScraperService {
       // Get user settings from AsyncStorage (scoped with fallback)
       const scope = (await mmkvStorage.getItem('@user:current')) || 'local';
       const scopedSettingsJson = await mmkvStorage.getItem(`@user:${scope}:app_settings`);
-      const legacySettingsJson = await mmkvStorage.getItem('app_settings');
+      const legacySettingsJson = isProfileScope(scope) ? null : await mmkvStorage.getItem('app_settings');
       const settingsData = scopedSettingsJson || legacySettingsJson;
       const settings = settingsData ? JSON.parse(settingsData) : {};
 
@@ -1711,7 +2092,7 @@ class LocalScraperService {
   async testPlugin(
     code: string,
     params: { tmdbId: string; mediaType: string; season?: number; episode?: number },
-    options?: { onLog?: (line: string) => void }
+    options?: { onLog?: (line: string) => void; permissions?: ScraperPermissions }
   ): Promise<{ streams: Stream[]; logs: string[] }> {
     const logs: string[] = [];
     const emit = (line: string) => {
@@ -1749,7 +2130,9 @@ class LocalScraperService {
     };
 
     try {
-      const results = await this.executePlugin(code, params, consoleProxy);
+      // Code pasted into the tester has no manifest, so it may reach any host unless the caller says otherwise
+      const permissions = options?.permissions ?? { allowedHosts: ['*'] };
+      const results = await this.executePlugin(code, params, consoleProxy, permissions);
 
       // Convert results using a dummy scraper info since we don't have one for ad-hoc tests
       const dummyScraperInfo: ScraperInfo = {
@@ -0,0 +1,223 @@
+import * as Updates from 'expo-updates';
+import { mmkvStorage } from './mmkvStorage';
+import { logger } from '../utils/logger';
+import { hashPin, isLegacyPinHash, verifyPinHash } from './pinCrypto';
+
+export interface Profile {
+  id: string;
+  name: string;
+  avatar: string;
+  color: string;
+  // Storage scope under @user:<scope>: holding this profile's library, progress, settings and addons
+  scope: string;
+  createdAt: number;
+  pinSalt?: string;
+  pinHash?: string;
+}
+
+export const PROFILE_AVATARS = ['🍿', '🎬', '🦊', '🐼', '🐙', '🦄', '🚀', '👾', '🐸', '🌵', '🎧', '⚽'];
+export const PROFILE_COLORS = ['#E50914', '#2962FF', '#00C853', '#FF6D00', '#AA00FF', '#00B8D4', '#FFD600', '#C51162'];
+
+const PROFILES_KEY = 'user_profiles';
+const CURRENT_SCOPE_KEY = '@user:current';
+// Set right before a switch reloads the app so the picker isn't shown twice
+const SWITCHED_PROFILE_KEY = 'profile_switched_to';
+const PROFILE_SCOPE_PREFIX = 'profile_';
+const MAX_PROFILES = 8;
+
+export const isProfileScope = (scope: string | null | undefined): boolean =>
+  !!scope && scope.startsWith(PROFILE_SCOPE_PREFIX);
+
+/**
+ * Storage key for a per-profile account binding (Trakt, Simkl, sync). The
+ * original profile keeps the unscoped keys it has always used.
+ */
+export const getProfileBoundKey = async (key: string): Promise<string> => {
+  const scope = await mmkvStorage.getItem(CURRENT_SCOPE_KEY);
+  return isProfileScope(scope) ? `@user:${scope}:${key}` : key;
+};
+
+const randomId = (): string =>
+  `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+class ProfileService {
+  private static instance: ProfileService;
+
+  private constructor() { }
+
+  static getInstance(): ProfileService {
+    if (!ProfileService.instance) {
+      ProfileService.instance = new ProfileService();
+    }
+    return ProfileService.instance;
+  }
+
+  private async getCurrentScope(): Promise<string> {
+    return (await mmkvStorage.getItem(CURRENT_SCOPE_KEY)) || 'local';
+  }
+
+  private async saveProfiles(profiles: Profile[]): Promise<void> {
+    await mmkvStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+  }
+
+  async getProfiles(): Promise<Profile[]> {
+    const currentScope = await this.getCurrentScope();
+    let stored: any[] = [];
+    try {
+      const raw = await mmkvStorage.getItem(PROFILES_KEY);
+      stored = raw ? JSON.parse(raw) : [];
+    } catch (error) {
+      logger.error('[ProfileService] Failed to read profiles:', error);
+    }
+    if (!Array.isArray(stored)) stored = [];
+
+    // Older builds kept name-only profiles without their own storage; the active
+    // one takes over the current scope and the rest start out empty
+    let migrated = stored.length === 0;
+    const profiles: Profile[] = stored.map((entry, index) => {
+      if (entry && typeof entry.scope === 'string') return entry as Profile;
+      migrated = true;
+      const id = entry?.id ? String(entry.id) : randomId();
+      return {
+        id,
+        name: entry?.name || 'Profile',
+        avatar: PROFILE_AVATARS[index % PROFILE_AVATARS.length],
+        color: PROFILE_COLORS[index % PROFILE_COLORS.length],
+        scope: entry?.isActive ? currentScope : `${PROFILE_SCOPE_PREFIX}${id}`,
+        createdAt: entry?.createdAt || Date.now(),
+      };
+    });
+
+    if (!profiles.some(profile => profile.scope === currentScope)) {
+      profiles.unshift({
+        id: randomId(),
+        name: 'Main',
+        avatar: PROFILE_AVATARS[0],
+        color: PROFILE_COLORS[0],
+        scope: currentScope,
+        createdAt: Date.now(),
+      });
+      migrated = true;
+    }
+
+    if (migrated) await this.saveProfiles(profiles);
+    return profiles;
+  }
+
+  async getActiveProfile(): Promise<Profile> {
+    const [profiles, scope] = await Promise.all([this.getProfiles(), this.getCurrentScope()]);
+    return profiles.find(profile => profile.scope === scope) || profiles[0];
+  }
+
+  async createProfile(input: { name: string; avatar: string; color: string; pin?: string }): Promise<Profile> {
+    const name = input.name.trim();
+    if (!name) throw new Error('Please enter a profile name');
+
+    const profiles = await this.getProfiles();
+    if (profiles.length >= MAX_PROFILES) throw new Error(`You can have up to ${MAX_PROFILES} profiles`);
+    if (profiles.some(profile => profile.name.toLowerCase() === name.toLowerCase())) {
+      throw new Error('A profile with this name already exists');
+    }
+
+    const id = randomId();
+    let profile: Profile = {
+      id,
+      name,
+      avatar: input.avatar,
+      color: input.color,
+      scope: `${PROFILE_SCOPE_PREFIX}${id}`,
+      createdAt: Date.now(),
+    };
+    if (input.pin) profile = { ...profile, ...this.buildPin(input.pin) };
+
+    await this.saveProfiles([...profiles, profile]);
+    logger.log(`[ProfileService] Created profile ${profile.name} (${profile.scope})`);
+    return profile;
+  }
+
+  async updateProfile(id: string, partial: Partial<Pick<Profile, 'name' | 'avatar' | 'color'>>): Promise<Profile> {
+    const profiles = await this.getProfiles();
+    const index = profiles.findIndex(profile => profile.id === id);
+    if (index === -1) throw new Error('Profile not found');
+
+    const name = partial.name !== undefined ? partial.name.trim() : profiles[index].name;
+    if (!name) throw new Error('Please enter a profile name');
+    if (profiles.some(profile => profile.id !== id && profile.name.toLowerCase() === name.toLowerCase())) {
+      throw new Error('A profile with this name already exists');
+    }
+
+    profiles[index] = { ...profiles[index], ...partial, name };
+    await this.saveProfiles(profiles);
+    return profiles[index];
+  }
+
+  private buildPin(pin: string): Pick<Profile, 'pinSalt' | 'pinHash'> {
+    if (!/^\d{4}$/.test(pin)) throw new Error('PIN must be 4 digits');
+    return hashPin(pin);
+  }
+
+  // Pass null to remove the PIN
+  async setPin(id: string, pin: string | null): Promise<void> {
+    const profiles = await this.getProfiles();
+    const index = profiles.findIndex(profile => profile.id === id);
+    if (index === -1) throw new Error('Profile not found');
+
+    const { pinSalt, pinHash, ...rest } = profiles[index];
+    profiles[index] = pin ? { ...rest, ...this.buildPin(pin) } : rest;
+    await this.saveProfiles(profiles);
+  }
+
+  verifyPin(profile: Profile, pin: string): boolean {
+    if (!profile.pinHash || !profile.pinSalt) return true;
+    const valid = verifyPinHash(pin, { pinSalt: profile.pinSalt, pinHash: profile.pinHash });
+    // Upgrade PINs stored with the old single SHA-256 hash
+    if (valid && isLegacyPinHash(profile.pinHash)) {
+      this.setPin(profile.id, pin).catch(error => logger.error('[ProfileService] Failed to rehash PIN:', error));
+    }
+    return valid;
+  }
+
+  async deleteProfile(id: string): Promise<void> {
+    const [profiles, currentScope] = await Promise.all([this.getProfiles(), this.getCurrentScope()]);
+    const profile = profiles.find(p => p.id === id);
+    if (!profile) throw new Error('Profile not found');
+    if (profile.scope === currentScope) throw new Error('Switch to another profile before deleting this one');
+    if (profiles.length <= 1) throw new Error('Cannot delete the only profile');
+
+    await this.saveProfiles(profiles.filter(p => p.id !== id));
+
+    const prefix = `@user:${profile.scope}:`;
+    const keys = (await mmkvStorage.getAllKeys()).filter(key => key.startsWith(prefix));
+    if (keys.length > 0) await mmkvStorage.multiRemove(keys);
+    logger.log(`[ProfileService] Deleted profile ${profile.name} and ${keys.length} stored keys`);
+  }
+
+  async shouldShowPickerAtLaunch(): Promise<boolean> {
+    const switchedTo = await mmkvStorage.getItem(SWITCHED_PROFILE_KEY);
+    if (switchedTo) {
+      await mmkvStorage.removeItem(SWITCHED_PROFILE_KEY);
+      return false;
+    }
+    const profiles = await this.getProfiles();
+    return profiles.length > 1 || profiles.some(profile => !!profile.pinHash);
+  }
+
+  /**
+   * Make a profile active. Services load their data once at startup, so a
+   * change of profile reloads the app into the new scope.
+   */
+  async switchProfile(id: string): Promise<void> {
+    const profiles = await this.getProfiles();
+    const profile = profiles.find(p => p.id === id);
+    if (!profile) throw new Error('Profile not found');
+    if (profile.scope === await this.getCurrentScope()) return;
+
+    await mmkvStorage.setItem(CURRENT_SCOPE_KEY, profile.scope);
+    await mmkvStorage.setItem(SWITCHED_PROFILE_KEY, profile.id);
+    logger.log(`[ProfileService] Switching to profile ${profile.name}`);
+    await Updates.reloadAsync();
+  }
+}
+
+export const profileService = ProfileService.getInstance();
+export default profileService;
@@ -0,0 +1,104 @@
+import CryptoJS from 'crypto-js';
+import nacl from 'tweetnacl';
+
+export type RepositoryVerificationStatus = 'verified' | 'unsigned' | 'tampered';
+
+/**
+ * Optional `integrity` block of a scraper repository manifest.
+ *
+ * `files` maps each scraper filename to the hex SHA-256 of its contents.
+ * `signature` is a base64 Ed25519 signature made with `publicKey` over the
+ * canonical JSON of the whole manifest with `integrity.signature` removed.
+ */
+export interface RepositoryIntegrity {
+  publisher?: string;
+  publicKey: string;
+  signature: string;
+  files: Record<string, string>;
+}
+
+export interface RepositoryVerificationResult {
+  status: RepositoryVerificationStatus;
+  publisher?: string;
+  publicKey?: string;
+  reason?: string;
+}
+
+// JSON with object keys sorted recursively, so publisher tooling and the app sign/verify identical bytes
+export const canonicalizeJson = (value: any): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalizeJson(item === undefined ? null : item)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .filter(key => value[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalizeJson(value[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+export const sha256Hex = (content: string): string =>
+  CryptoJS.SHA256(content).toString(CryptoJS.enc.Hex);
+
+const wordArrayToBytes = (wordArray: CryptoJS.lib.WordArray): Uint8Array => {
+  const bytes = new Uint8Array(wordArray.sigBytes);
+  for (let i = 0; i < wordArray.sigBytes; i++) {
+    bytes[i] = (wordArray.words[i >>> 2] >>> (24 - (i % 4) * 8)) & 0xff;
+  }
+  return bytes;
+};
+
+const decodeBase64 = (value: string): Uint8Array => wordArrayToBytes(CryptoJS.enc.Base64.parse(value));
+
+/**
+ * Check the manifest signature. `pinnedKey` is the publisher key remembered from an
+ * earlier verified refresh; a different key or a dropped signature counts as tampering.
+ */
+export const verifyRepositoryManifest = (manifest: any, pinnedKey?: string): RepositoryVerificationResult => {
+  const integrity: RepositoryIntegrity | undefined = manifest?.integrity;
+
+  if (!integrity) {
+    return pinnedKey
+      ? { status: 'tampered', reason: 'Manifest is no longer signed by its publisher' }
+      : { status: 'unsigned' };
+  }
+
+  const { publicKey, signature, files, publisher } = integrity;
+  if (typeof publicKey !== 'string' || typeof signature !== 'string' || !files || typeof files !== 'object') {
+    return { status: 'tampered', reason: 'Manifest integrity block is malformed' };
+  }
+  if (pinnedKey && pinnedKey !== publicKey) {
+    return { status: 'tampered', publisher, reason: 'Manifest is signed with a different publisher key' };
+  }
+
+  try {
+    const { signature: _signature, ...unsignedIntegrity } = integrity;
+    const payload = canonicalizeJson({ ...manifest, integrity: unsignedIntegrity });
+    const valid = nacl.sign.detached.verify(
+      wordArrayToBytes(CryptoJS.enc.Utf8.parse(payload)),
+      decodeBase64(signature),
+      decodeBase64(publicKey)
+    );
+    if (!valid) {
+      return { status: 'tampered', publisher, reason: 'Manifest signature does not match' };
+    }
+  } catch (error) {
+    return { status: 'tampered', publisher, reason: `Manifest signature could not be checked: ${error instanceof Error ? error.message : String(error)}` };
+  }
+
+  // Every scraper listed in the manifest must be covered by a hash
+  const scrapers: Array<{ filename?: string }> = Array.isArray(manifest.scrapers) ? manifest.scrapers : [];
+  const missing = scrapers.find(s => !s.filename || typeof files[s.filename] !== 'string');
+  if (missing) {
+    return { status: 'tampered', publisher, reason: `No hash for ${missing.filename || 'unnamed scraper'}` };
+  }
+
+  return { status: 'verified', publisher, publicKey };
+};
+
+export const verifyScraperFile = (integrity: RepositoryIntegrity, filename: string, code: string): boolean => {
+  const expected = integrity.files[filename];
+  return typeof expected === 'string' && expected.toLowerCase() === sha256Hex(code);
+};
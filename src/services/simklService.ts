@@ -2,6 +2,7 @@ import { mmkvStorage } from './mmkvStorage';
 import { AppState, AppStateStatus } from 'react-native';
 import { logger } from '../utils/logger';
 import Constants from 'expo-constants';
+import { getProfileBoundKey } from './profileService';
 
 // Storage keys
 export const SIMKL_ACCESS_TOKEN_KEY = 'simkl_access_token';
@@ -272,7 +273,7 @@ export class SimklService {
         if (this.isInitialized) return;
 
         try {
-            const accessToken = await mmkvStorage.getItem(SIMKL_ACCESS_TOKEN_KEY);
+            const accessToken = await mmkvStorage.getItem(await getProfileBoundKey(SIMKL_ACCESS_TOKEN_KEY));
             this.accessToken = accessToken;
             this.isInitialized = true;
             logger.log('[SimklService] Initialized, authenticated:', !!this.accessToken);
@@ -340,7 +341,7 @@ export class SimklService {
     private async saveToken(accessToken: string): Promise<void> {
         this.accessToken = accessToken;
         try {
-            await mmkvStorage.setItem(SIMKL_ACCESS_TOKEN_KEY, accessToken);
+            await mmkvStorage.setItem(await getProfileBoundKey(SIMKL_ACCESS_TOKEN_KEY), accessToken);
             logger.log('[SimklService] Token saved successfully');
         } catch (error) {
             logger.error('[SimklService] Failed to save token:', error);
@@ -351,7 +352,7 @@ export class SimklService {
     public async logout(): Promise<void> {
         await this.ensureInitialized();
         this.accessToken = null;
-        await mmkvStorage.removeItem(SIMKL_ACCESS_TOKEN_KEY);
+        await mmkvStorage.removeItem(await getProfileBoundKey(SIMKL_ACCESS_TOKEN_KEY));
 
         // Clear caches
         this.cachedPlaybackStatus = [];
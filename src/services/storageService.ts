@@ -1,5 +1,6 @@
 import { mmkvStorage } from './mmkvStorage';
 import { logger } from '../utils/logger';
+import type { WyzieSubtitle } from '../components/player/utils/playerTypes';
 
 interface WatchProgress {
   currentTime: number;
@@ -14,11 +15,34 @@ interface WatchProgress {
   simklProgress?: number;
 }
 
+// Subtitle picked for a title or episode, reapplied when playback resumes
+export interface TitleSubtitleChoice {
+  subtitle: WyzieSubtitle;
+  offsetSec: number;
+  scale: number; // Framerate correction baked into the cues, 1 if none
+  updatedAt: number;
+}
+
+// Playback choices made while watching a series, consulted before the global settings
+export interface ShowPlaybackPrefs {
+  audioLanguage?: string; // ISO 639-1 where known
+  audioTrackName?: string; // e.g. "Japanese (Original)", to tell apart tracks in the same language
+  subtitleLanguage?: string;
+  subtitleSource?: 'internal' | 'external' | 'off';
+  subtitleOffsetSec?: number;
+  playbackSpeed?: number;
+  resizeMode?: 'contain' | 'cover' | 'stretch';
+  preferredProvider?: string; // Addon id of the last stream picked by hand
+  updatedAt: number;
+}
+
 class StorageService {
   private static instance: StorageService;
   private readonly WATCH_PROGRESS_KEY = '@watch_progress:';
   private readonly CONTENT_DURATION_KEY = '@content_duration:';
   private readonly SUBTITLE_SETTINGS_KEY = '@subtitle_settings';
+  private readonly TITLE_SUBTITLE_KEY = '@title_subtitle:';
+  private readonly SHOW_PLAYBACK_PREFS_KEY = '@show_playback_prefs:';
   private readonly WP_TOMBSTONES_KEY = '@wp_tombstones';
   private readonly CONTINUE_WATCHING_REMOVED_KEY = '@continue_watching_removed';
   private watchProgressSubscribers: (() => void)[] = [];
@@ -66,6 +90,16 @@ class StorageService {
     return `@user:${scope}:${this.SUBTITLE_SETTINGS_KEY}`;
   }
 
+  private async getTitleSubtitleKeyScoped(id: string, type: string, episodeId?: string): Promise<string> {
+    const scope = await this.getUserScope();
+    return `@user:${scope}:${this.TITLE_SUBTITLE_KEY}${type}:${id}${episodeId ? `:${episodeId}` : ''}`;
+  }
+
+  private async getShowPlaybackPrefsKeyScoped(showId: string): Promise<string> {
+    const scope = await this.getUserScope();
+    return `@user:${scope}:${this.SHOW_PLAYBACK_PREFS_KEY}${showId}`;
+  }
+
   private async getTombstonesKeyScoped(): Promise<string> {
     const scope = await this.getUserScope();
     return `@user:${scope}:${this.WP_TOMBSTONES_KEY}`;
@@ -332,6 +366,12 @@ class StorageService {
     }
   }
 
+  // Progress was written straight to storage (account sync); drop the cache and tell listeners
+  public notifyExternalWatchProgressChange(): void {
+    this.invalidateWatchProgressCache();
+    this.notifyWatchProgressSubscribers();
+  }
+
   public subscribeToWatchProgressUpdates(callback: () => void): () => void {
     this.watchProgressSubscribers.push(callback);
 
@@ -833,7 +873,10 @@ class StorageService {
   public async saveSubtitleSettings(settings: Record<string, any>): Promise<void> {
     try {
       const key = await this.getSubtitleSettingsKeyScoped();
-      await mmkvStorage.setItem(key, JSON.stringify(settings));
+      // Merge so primary and dual-subtitle preferences can be saved independently
+      const existing = await mmkvStorage.getItem(key);
+      const merged = { ...(existing ? JSON.parse(existing) : {}), ...settings };
+      await mmkvStorage.setItem(key, JSON.stringify(merged));
     } catch (error) {
       logger.error('Error saving subtitle settings:', error);
     }
@@ -849,6 +892,72 @@ class StorageService {
       return null;
     }
   }
+
+  public async setTitleSubtitle(
+    id: string,
+    type: string,
+    choice: TitleSubtitleChoice,
+    episodeId?: string
+  ): Promise<void> {
+    try {
+      const key = await this.getTitleSubtitleKeyScoped(id, type, episodeId);
+      await mmkvStorage.setItem(key, JSON.stringify(choice));
+    } catch (error) {
+      logger.error('Error saving title subtitle:', error);
+    }
+  }
+
+  public async getTitleSubtitle(
+    id: string,
+    type: string,
+    episodeId?: string
+  ): Promise<TitleSubtitleChoice | null> {
+    try {
+      const key = await this.getTitleSubtitleKeyScoped(id, type, episodeId);
+      const data = await mmkvStorage.getItem(key);
+      return data ? JSON.parse(data) : null;
+    } catch (error) {
+      logger.error('Error loading title subtitle:', error);
+      return null;
+    }
+  }
+
+  public async removeTitleSubtitle(id: string, type: string, episodeId?: string): Promise<void> {
+    try {
+      const key = await this.getTitleSubtitleKeyScoped(id, type, episodeId);
+      await mmkvStorage.removeItem(key);
+    } catch (error) {
+      logger.error('Error removing title subtitle:', error);
+    }
+  }
+
+  public async getShowPlaybackPrefs(showId: string): Promise<ShowPlaybackPrefs | null> {
+    try {
+      const key = await this.getShowPlaybackPrefsKeyScoped(showId);
+      const data = await mmkvStorage.getItem(key);
+      return data ? JSON.parse(data) : null;
+    } catch (error) {
+      logger.error('Error loading show playback prefs:', error);
+      return null;
+    }
+  }
+
+  // Merges into what is stored, so each control only writes its own fields
+  public async updateShowPlaybackPrefs(
+    showId: string,
+    changes: Partial<Omit<ShowPlaybackPrefs, 'updatedAt'>>
+  ): Promise<ShowPlaybackPrefs | null> {
+    try {
+      const key = await this.getShowPlaybackPrefsKeyScoped(showId);
+      const existing = await this.getShowPlaybackPrefs(showId);
+      const updated: ShowPlaybackPrefs = { ...existing, ...changes, updatedAt: Date.now() };
+      await mmkvStorage.setItem(key, JSON.stringify(updated));
+      return updated;
+    } catch (error) {
+      logger.error('Error saving show playback prefs:', error);
+      return null;
+    }
+  }
 }
 
 export const storageService = StorageService.getInstance();
@@ -1,11 +1,14 @@
 import axios from 'axios';
 import { mmkvStorage } from './mmkvStorage';
 import { logger } from '../utils/logger';
+import { parseStreamInfo, ParsedStreamInfo } from '../utils/streamParser';
 import EventEmitter from 'eventemitter3';
 import { localScraperService } from './pluginService';
 import { DEFAULT_SETTINGS, AppSettings } from '../hooks/useSettings';
 import { TMDBService } from './tmdbService';
 import { safeAxiosConfig, createSafeAxiosConfig } from '../utils/axiosConfig';
+import { parentalControlsService } from './parentalControlsService';
+import { isProfileScope } from './profileService';
 
 // Create an event emitter for addon changes
 export const addonEmitter = new EventEmitter();
@@ -111,6 +114,7 @@ export interface Stream {
   isFree?: boolean;
   isDebrid?: boolean;
   quality?: string;
+  parsed?: ParsedStreamInfo;       // Normalized release metadata, filled in by the stream services
   headers?: Record<string, string>;
 
   // Embedded subtitles per protocol
@@ -434,10 +438,12 @@ class StremioService {
 
     try {
       const scope = (await mmkvStorage.getItem('@user:current')) || 'local';
-      // Prefer scoped storage, but fall back to legacy keys to preserve older installs
+      // Prefer scoped storage, but fall back to legacy keys to preserve older installs.
+      // Profiles start from their own scope only; the legacy keys belong to the original profile.
+      const useLegacyKeys = !isProfileScope(scope);
       let storedAddons = await mmkvStorage.getItem(`@user:${scope}:${this.STORAGE_KEY}`);
-      if (!storedAddons) storedAddons = await mmkvStorage.getItem(this.STORAGE_KEY);
-      if (!storedAddons) storedAddons = await mmkvStorage.getItem(`@user:local:${this.STORAGE_KEY}`);
+      if (!storedAddons && useLegacyKeys) storedAddons = await mmkvStorage.getItem(this.STORAGE_KEY);
+      if (!storedAddons && useLegacyKeys) storedAddons = await mmkvStorage.getItem(`@user:local:${this.STORAGE_KEY}`);
 
       if (storedAddons) {
         const parsed = JSON.parse(storedAddons);
@@ -552,8 +558,8 @@ class StremioService {
 
       // Load addon order if exists (scoped first, then legacy, then @user:local for migration safety)
       let storedOrder = await mmkvStorage.getItem(`@user:${scope}:${this.ADDON_ORDER_KEY}`);
-      if (!storedOrder) storedOrder = await mmkvStorage.getItem(this.ADDON_ORDER_KEY);
-      if (!storedOrder) storedOrder = await mmkvStorage.getItem(`@user:local:${this.ADDON_ORDER_KEY}`);
+      if (!storedOrder && useLegacyKeys) storedOrder = await mmkvStorage.getItem(this.ADDON_ORDER_KEY);
+      if (!storedOrder && useLegacyKeys) storedOrder = await mmkvStorage.getItem(`@user:local:${this.ADDON_ORDER_KEY}`);
       if (storedOrder) {
         this.addonOrder = JSON.parse(storedOrder);
         // Filter out any installationIds that aren't in installedAddons
@@ -594,6 +600,13 @@ class StremioService {
     }
   }
 
+  // Re-read addons and their order after account sync rewrote them in storage
+  public async reloadFromStorage(): Promise<void> {
+    this.initialized = false;
+    await this.initialize();
+    addonEmitter.emit(ADDON_EVENTS.ORDER_CHANGED);
+  }
+
   // Ensure service is initialized before any operation
   private async ensureInitialized(): Promise<void> {
     if (!this.initialized && this.initializationPromise) {
@@ -638,10 +651,10 @@ class StremioService {
     try {
       const addonsArray = Array.from(this.installedAddons.values());
       const scope = (await mmkvStorage.getItem('@user:current')) || 'local';
-      // Write to both scoped and legacy keys for compatibility
+      // Write to both scoped and legacy keys for compatibility; profiles only touch their own scope
       await Promise.all([
         mmkvStorage.setItem(`@user:${scope}:${this.STORAGE_KEY}`, JSON.stringify(addonsArray)),
-        mmkvStorage.setItem(this.STORAGE_KEY, JSON.stringify(addonsArray)),
+        ...(isProfileScope(scope) ? [] : [mmkvStorage.setItem(this.STORAGE_KEY, JSON.stringify(addonsArray))]),
       ]);
     } catch (error) {
       // Continue even if save fails
@@ -651,10 +664,10 @@ class StremioService {
   private async saveAddonOrder(): Promise<void> {
     try {
       const scope = (await mmkvStorage.getItem('@user:current')) || 'local';
-      // Write to both scoped and legacy keys for compatibility
+      // Write to both scoped and legacy keys for compatibility; profiles only touch their own scope
       await Promise.all([
         mmkvStorage.setItem(`@user:${scope}:${this.ADDON_ORDER_KEY}`, JSON.stringify(this.addonOrder)),
-        mmkvStorage.setItem(this.ADDON_ORDER_KEY, JSON.stringify(this.addonOrder)),
+        ...(isProfileScope(scope) ? [] : [mmkvStorage.setItem(this.ADDON_ORDER_KEY, JSON.stringify(this.addonOrder))]),
       ]);
     } catch (error) {
       // Continue even if save fails
@@ -753,17 +766,18 @@ class StremioService {
     }
   }
 
-  getInstalledAddons(): Manifest[] {
+  // Addons outside the profile's parental controls allow-list are left out unless includeRestricted is set
+  getInstalledAddons(includeRestricted = false): Manifest[] {
     // Return addons in the specified order (using installationIds)
     const result = this.addonOrder
       .filter(installationId => this.installedAddons.has(installationId))
       .map(installationId => this.installedAddons.get(installationId)!);
-    return result;
+    return includeRestricted ? result : result.filter(addon => parentalControlsService.isAddonAllowed(addon.id));
   }
 
-  async getInstalledAddonsAsync(): Promise<Manifest[]> {
+  async getInstalledAddonsAsync(includeRestricted = false): Promise<Manifest[]> {
     await this.ensureInitialized();
-    return this.getInstalledAddons();
+    return this.getInstalledAddons(includeRestricted);
   }
 
   // Check if an addon is pre-installed and cannot be removed
@@ -821,12 +835,14 @@ class StremioService {
     try {
       const scope = (await mmkvStorage.getItem('@user:current')) || 'local';
 
-      // Remove from all possible addon order storage keys
-      const keys = [
-        `@user:${scope}:${this.ADDON_ORDER_KEY}`,
-        this.ADDON_ORDER_KEY,
-        `@user:local:${this.ADDON_ORDER_KEY}`
-      ];
+      // Remove from all possible addon order storage keys (a profile only owns its scoped key)
+      const keys = isProfileScope(scope)
+        ? [`@user:${scope}:${this.ADDON_ORDER_KEY}`]
+        : [
+          `@user:${scope}:${this.ADDON_ORDER_KEY}`,
+          this.ADDON_ORDER_KEY,
+          `@user:local:${this.ADDON_ORDER_KEY}`
+        ];
 
       for (const key of keys) {
         const storedOrder = await mmkvStorage.getItem(key);
@@ -891,6 +907,11 @@ class StremioService {
     const encodedId = encodeURIComponent(id);
     const pageSkip = (page - 1) * this.DEFAULT_PAGE_SIZE;
 
+    // Catalogs served by local plugins have no addon URL
+    if (localScraperService.isPluginAddonId(manifest.id)) {
+      return localScraperService.getCatalog(manifest.id, type, id, { skip: pageSkip, filters });
+    }
+
     // For all addons
     if (!manifest.url) {
       throw new Error('Addon URL is missing');
@@ -998,7 +1019,8 @@ class StremioService {
       const isValidId = await this.isValidContentId(type, id);
 
       if (!isValidId) {
-        return null;
+        // IDs no addon recognizes may still belong to a local plugin
+        return await localScraperService.getMeta(type, id);
       }
 
       const addons = this.getInstalledAddons();
@@ -1173,7 +1195,8 @@ class StremioService {
         }
       }
 
-      return null;
+      // Last resort: local plugins exporting getMeta
+      return await localScraperService.getMeta(type, id);
     } catch (error) {
       logger.error('Error in getMetaDetails:', error);
       return null;
@@ -1298,7 +1321,7 @@ class StremioService {
       // Load settings from AsyncStorage directly (scoped with fallback)
       const scope = (await mmkvStorage.getItem('@user:current')) || 'local';
       const settingsJson = (await mmkvStorage.getItem(`@user:${scope}:app_settings`))
-        || (await mmkvStorage.getItem('app_settings'));
+        || (isProfileScope(scope) ? null : await mmkvStorage.getItem('app_settings'));
       const rawSettings = settingsJson ? JSON.parse(settingsJson) : {};
       const settings: AppSettings = { ...DEFAULT_SETTINGS, ...rawSettings };
 
@@ -1806,6 +1829,15 @@ class StremioService {
           behaviorHints: behaviorHints,
         };
 
+        // Parse from the raw addon fields so nothing trimmed above is lost
+        processedStream.parsed = parseStreamInfo({
+          name: stream.name,
+          title: stream.title,
+          description: stream.description,
+          size: sizeInBytes,
+          behaviorHints: stream.behaviorHints,
+        });
+
         return processedStream;
       });
   }
@@ -1900,9 +1932,15 @@ class StremioService {
       return true;
     });
 
+    // Local plugins exporting getSubtitles run alongside addons
+    const pluginSubtitlesPromise = localScraperService.getSubtitles(type, id, videoId).catch(error => {
+      logger.error('[getSubtitles] Failed to fetch subtitles from local plugins:', error);
+      return [] as Subtitle[];
+    });
+
     if (subtitleAddons.length === 0) {
       logger.warn('No subtitle-capable addons installed that support the requested type/id');
-      return [];
+      return pluginSubtitlesPromise;
     }
 
     logger.log(`[getSubtitles] Found ${subtitleAddons.length} subtitle addons for ${type}/${id}: ${subtitleAddons.map(a => a.name).join(', ')}`);
@@ -1943,7 +1981,7 @@ class StremioService {
       return [] as Subtitle[];
     });
 
-    const all = await Promise.all(requests);
+    const all = await Promise.all([...requests, pluginSubtitlesPromise]);
     // Flatten and de-duplicate by URL
     const merged = ([] as Subtitle[]).concat(...all);
     const seen = new Set<string>();
@@ -0,0 +1,196 @@
+import axios from 'axios';
+import { logger } from '../utils/logger';
+import { stremioService } from './stremioService';
+import { WyzieSubtitle } from '../components/player/utils/playerTypes';
+import { normalizeLanguageCode } from '../components/player/utils/trackSelectionUtils';
+import { detectSubtitleFormat } from '../components/player/utils/subtitleParser';
+
+/**
+ * Merges subtitle candidates from every source (Stremio addons, local plugins
+ * and Wyzie), removes duplicates and ranks them for the stream being played.
+ */
+
+export interface SubtitleSearchContext {
+  type: string;
+  imdbId: string;
+  season?: number;
+  episode?: number;
+  releaseName?: string; // Stream filename or title, used for release matching
+  preferredLanguage?: string;
+  preferHearingImpaired?: boolean;
+  includeWyzie?: boolean;
+}
+
+const WYZIE_BASE_URL = 'https://sub.wyzie.ru';
+const WYZIE_TIMEOUT_MS = 10000;
+
+const FORMAT_SCORES: Record<string, number> = { srt: 5, ass: 4, ssa: 4, vtt: 4, ttml: 2, microdvd: 1 };
+
+const SOURCE_PATTERNS: [RegExp, string][] = [
+  [/\b(blu-?ray|bdrip|brrip|bdremux|remux)\b/, 'bluray'],
+  [/\b(web-?dl|webrip|web|amzn|nf|dsnp|hmax|atvp)\b/, 'web'],
+  [/\b(hdtv|pdtv)\b/, 'hdtv'],
+  [/\bdvd(rip)?\b/, 'dvd'],
+  [/\bhdrip\b/, 'hdrip'],
+  [/\b(cam|hdcam|telesync)\b/, 'cam'],
+];
+
+// Tokens that appear in most release names and carry no matching signal
+const NOISE_TOKENS = new Set(['mkv', 'mp4', 'avi', 'srt', 'x264', 'x265', 'h264', 'h265', 'hevc', 'aac', 'ac3', 'dts', 'ddp', 'dd', 'atmos', '5', '1', '2', '0']);
+
+interface ReleaseInfo {
+  tokens: Set<string>;
+  group?: string;
+  source?: string;
+  resolution?: string;
+  episodeTag?: string; // s01e02
+}
+
+const parseRelease = (name?: string): ReleaseInfo | null => {
+  if (!name) return null;
+  const base = name.replace(/\.(mkv|mp4|avi|m4v|webm|srt|ass|ssa|vtt|sub)$/i, '');
+  const lower = base.toLowerCase();
+  const tokens = lower.split(/[^a-z0-9]+/).filter(token => token && !NOISE_TOKENS.has(token));
+  if (tokens.length === 0) return null;
+
+  const source = SOURCE_PATTERNS.find(([pattern]) => pattern.test(lower))?.[1];
+  const group = base.match(/-([A-Za-z0-9]+)(?:\[[^\]]*\])?$/)?.[1]?.toLowerCase();
+  const episodeMatch = lower.match(/s(\d{1,2})e(\d{1,3})/);
+
+  return {
+    tokens: new Set(tokens),
+    group,
+    source,
+    resolution: lower.match(/\b(2160|1080|720|576|480)p\b/)?.[1],
+    episodeTag: episodeMatch ? `s${parseInt(episodeMatch[1], 10)}e${parseInt(episodeMatch[2], 10)}` : undefined,
+  };
+};
+
+/**
+ * Higher is better. Language dominates, then release similarity with the
+ * playing stream, then hearing-impaired preference and format.
+ */
+export const scoreSubtitle = (subtitle: WyzieSubtitle, context: SubtitleSearchContext): number => {
+  let score = 0;
+
+  const preferred = normalizeLanguageCode(context.preferredLanguage || 'en');
+  if (preferred && normalizeLanguageCode(subtitle.language) === preferred) score += 100;
+
+  const stream = parseRelease(context.releaseName);
+  const candidate = parseRelease(subtitle.release);
+  if (stream && candidate) {
+    if (stream.group && stream.group === candidate.group) score += 40;
+    if (stream.source && stream.source === candidate.source) score += 25;
+    if (stream.resolution && stream.resolution === candidate.resolution) score += 10;
+    if (stream.episodeTag && candidate.episodeTag && stream.episodeTag !== candidate.episodeTag) score -= 50;
+
+    let shared = 0;
+    candidate.tokens.forEach(token => {
+      if (stream.tokens.has(token)) shared++;
+    });
+    const union = stream.tokens.size + candidate.tokens.size - shared;
+    score += union > 0 ? Math.round((shared / union) * 20) : 0;
+  }
+
+  if (subtitle.isHearingImpaired) score += context.preferHearingImpaired ? 10 : -10;
+  score += FORMAT_SCORES[(subtitle.format || '').toLowerCase()] || 0;
+
+  return score;
+};
+
+const dedupKey = (subtitle: WyzieSubtitle): string =>
+  subtitle.hash
+    ? `hash:${subtitle.hash.toLowerCase()}`
+    : subtitle.url.trim().replace(/^https?:\/\//i, '').replace(/\/+$/, '').toLowerCase();
+
+const fetchAddonSubtitles = async (context: SubtitleSearchContext): Promise<WyzieSubtitle[]> => {
+  const stremioType = context.type === 'series' ? 'series' : 'movie';
+  const stremioVideoId = stremioType === 'series' && context.season && context.episode
+    ? `series:${context.imdbId}:${context.season}:${context.episode}`
+    : undefined;
+  const results = await stremioService.getSubtitles(stremioType, context.imdbId, stremioVideoId);
+
+  return (results || []).map((sub: any) => {
+    const format = sub.format || detectSubtitleFormat('', sub.url);
+    return {
+      id: sub.id || `${sub.lang}-${sub.url}`,
+      url: sub.url,
+      flagUrl: '',
+      format: format === 'unknown' ? 'srt' : format,
+      encoding: 'utf-8',
+      media: sub.addonName || sub.addon || '',
+      display: sub.lang || 'Unknown',
+      language: (sub.lang || '').toLowerCase(),
+      isHearingImpaired: !!(sub.hearingImpaired || sub.isHearingImpaired),
+      source: sub.addonName || sub.addon || 'Addon',
+      release: sub.release || sub.title || sub.fileName,
+      hash: sub.hash,
+    };
+  });
+};
+
+const fetchWyzieSubtitles = async (context: SubtitleSearchContext): Promise<WyzieSubtitle[]> => {
+  const params: Record<string, string | number> = { id: context.imdbId };
+  if (context.type === 'series' && context.season && context.episode) {
+    params.season = context.season;
+    params.episode = context.episode;
+  }
+  const { data } = await axios.get(`${WYZIE_BASE_URL}/search`, { params, timeout: WYZIE_TIMEOUT_MS });
+  if (!Array.isArray(data)) return [];
+
+  return data
+    .filter((sub: any) => typeof sub?.url === 'string')
+    .map((sub: any) => ({
+      id: `wyzie-${sub.id}`,
+      url: sub.url,
+      flagUrl: sub.flagUrl || '',
+      format: (sub.format || 'srt').toLowerCase(),
+      encoding: sub.encoding || 'utf-8',
+      media: sub.media || '',
+      display: sub.display || sub.language || 'Unknown',
+      language: (sub.language || '').toLowerCase(),
+      isHearingImpaired: !!sub.isHearingImpaired,
+      source: sub.source ? `Wyzie (${sub.source})` : 'Wyzie',
+      release: sub.release || sub.fileName || sub.media,
+    }));
+};
+
+export const subtitleAggregatorService = {
+  scoreSubtitle,
+
+  /**
+   * All unique candidates for a title, best first. A failing source is logged
+   * and skipped so the others still show up.
+   */
+  async searchSubtitles(context: SubtitleSearchContext): Promise<WyzieSubtitle[]> {
+    const sources: Promise<WyzieSubtitle[]>[] = [
+      fetchAddonSubtitles(context).catch(error => {
+        logger.error('[SubtitleAggregator] Addon subtitles failed:', error);
+        return [];
+      }),
+    ];
+    if (context.includeWyzie !== false) {
+      sources.push(fetchWyzieSubtitles(context).catch(error => {
+        logger.warn('[SubtitleAggregator] Wyzie subtitles failed:', error?.message || error);
+        return [];
+      }));
+    }
+
+    const seen = new Set<string>();
+    const merged = (await Promise.all(sources)).flat().filter(subtitle => {
+      if (!subtitle.url) return false;
+      const key = dedupKey(subtitle);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+
+    const ranked = merged
+      .map(subtitle => ({ ...subtitle, score: scoreSubtitle(subtitle, context) }))
+      .sort((a, b) => b.score - a.score);
+    logger.log(`[SubtitleAggregator] ${ranked.length} unique subtitles for ${context.imdbId}`);
+    return ranked;
+  },
+};
+
+export default subtitleAggregatorService;
@@ -0,0 +1,105 @@
+/**
+ * Account and sync backends. AccountService talks to whatever implements
+ * SyncBackend; RestSyncBackend speaks the contract in tools/sync-server/README.md.
+ */
+import type { AuthUser } from './AccountService';
+
+export type SyncCollection = 'library' | 'watch_progress' | 'addons' | 'addon_order' | 'scraper_repos' | 'settings';
+
+export interface SyncRecord {
+  collection: SyncCollection;
+  key: string;
+  value?: any;
+  deleted: boolean;
+  updatedAt: number;
+}
+
+export interface SyncRequest {
+  deviceId: string;
+  cursor: number;
+  changes: SyncRecord[];
+}
+
+export interface SyncResponse {
+  cursor: number;
+  serverTime: number;
+  changes: SyncRecord[];
+}
+
+export interface SyncSession {
+  token: string;
+  user: AuthUser;
+}
+
+export interface SyncBackend {
+  signUp(email: string, password: string): Promise<SyncSession>;
+  signIn(email: string, password: string): Promise<SyncSession>;
+  signOut(token: string): Promise<void>;
+  getUser(token: string): Promise<AuthUser>;
+  updateProfile(token: string, partial: { avatarUrl?: string; displayName?: string }): Promise<AuthUser>;
+  sync(token: string, request: SyncRequest): Promise<SyncResponse>;
+}
+
+const REQUEST_TIMEOUT_MS = 30000;
+
+export class RestSyncBackend implements SyncBackend {
+  private readonly baseUrl: string;
+
+  constructor(baseUrl: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  private async request<T>(method: string, path: string, token?: string, body?: any): Promise<T> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}${path}`, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+        signal: controller.signal,
+      });
+    } catch (error: any) {
+      throw new Error(error?.name === 'AbortError' ? 'Sync server did not respond' : 'Could not reach the sync server');
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (response.status === 204) return undefined as T;
+    const payload = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new Error(payload?.error || `Sync server error (${response.status})`);
+    }
+    return payload as T;
+  }
+
+  signUp(email: string, password: string): Promise<SyncSession> {
+    return this.request('POST', '/v1/auth/signup', undefined, { email, password });
+  }
+
+  signIn(email: string, password: string): Promise<SyncSession> {
+    return this.request('POST', '/v1/auth/signin', undefined, { email, password });
+  }
+
+  async signOut(token: string): Promise<void> {
+    await this.request('POST', '/v1/auth/signout', token);
+  }
+
+  async getUser(token: string): Promise<AuthUser> {
+    const { user } = await this.request<{ user: AuthUser }>('GET', '/v1/me', token);
+    return user;
+  }
+
+  async updateProfile(token: string, partial: { avatarUrl?: string; displayName?: string }): Promise<AuthUser> {
+    const { user } = await this.request<{ user: AuthUser }>('PATCH', '/v1/me', token, partial);
+    return user;
+  }
+
+  sync(token: string, request: SyncRequest): Promise<SyncResponse> {
+    return this.request('POST', '/v1/sync', token, request);
+  }
+}
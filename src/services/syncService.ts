@@ -0,0 +1,466 @@
+import { AppState, AppStateStatus } from 'react-native';
+import { mmkvStorage } from './mmkvStorage';
+import { logger } from '../utils/logger';
+import { accountService } from './AccountService';
+import { SyncCollection, SyncRecord } from './syncBackend';
+import { canonicalizeJson, sha256Hex } from './repositoryVerification';
+import { storageService } from './storageService';
+import { catalogService } from './catalogService';
+import { stremioService, addonEmitter, ADDON_EVENTS } from './stremioService';
+import { localScraperService } from './pluginService';
+import { isProfileScope } from './profileService';
+import { settingsEmitter, invalidateSettingsCache } from '../hooks/useSettings';
+
+// What this device last agreed with the server about one record
+export interface SyncIndexEntry {
+  hash: string;
+  updatedAt: number;
+  deleted?: boolean;
+}
+
+export type SyncIndex = Record<string, SyncIndexEntry>; // `collection/key` -> entry
+
+export interface LocalSyncRecord {
+  collection: SyncCollection;
+  key: string;
+  value: any;
+  updatedAt?: number; // The record's own change time, when it carries one
+}
+
+interface SyncState {
+  userId: string;
+  cursor: number;
+  lastSyncAt: number;
+  index: SyncIndex;
+}
+
+export interface SyncStatus {
+  syncing: boolean;
+  lastSyncAt: number | null;
+  lastError: string | null;
+}
+
+export interface SyncResult {
+  pushed: number;
+  pulled: number;
+}
+
+const DEVICE_ID_KEY = 'sync_device_id';
+// Local edits are batched before they go out
+const CHANGE_DEBOUNCE_MS = 30 * 1000;
+const PERIODIC_SYNC_MS = 15 * 60 * 1000;
+// Coming back to the app only syncs if the last sync is older than this
+const FOREGROUND_MIN_INTERVAL_MS = 2 * 60 * 1000;
+
+// Only the parts of a repository that mean the same thing on every device; the pinned
+// publisher key stays local so a synced record can never swap the key a device trusts
+const SYNCED_REPOSITORY_FIELDS = ['id', 'name', 'url', 'description', 'enabled'];
+
+const recordId = (collection: SyncCollection, key: string) => `${collection}/${key}`;
+
+const hashValue = (value: any): string => sha256Hex(canonicalizeJson(value));
+
+export const addonSyncKey = (addon: any): string => `${addon.id}@${addon.url || addon.originalUrl || ''}`;
+
+/**
+ * Work out what changed locally since the last sync. Edited records get a new
+ * `updatedAt`; records that disappeared become deletions. On the very first
+ * sync, records without their own timestamp go out as `updatedAt: 0` so data
+ * already on the server wins over a fresh device's defaults.
+ */
+export const diffLocalRecords = (
+  local: LocalSyncRecord[],
+  index: SyncIndex,
+  options: { now: number; firstSync: boolean; deletedAt?: (collection: SyncCollection, key: string) => number | undefined }
+): { changes: SyncRecord[]; index: SyncIndex } => {
+  const next: SyncIndex = { ...index };
+  const changes: SyncRecord[] = [];
+  const present = new Set<string>();
+
+  for (const record of local) {
+    const id = recordId(record.collection, record.key);
+    present.add(id);
+    const hash = hashValue(record.value);
+    const previous = index[id];
+    if (previous && !previous.deleted && previous.hash === hash) continue;
+
+    const own = record.updatedAt ?? (options.firstSync && !previous ? 0 : options.now);
+    const updatedAt = previous ? Math.max(own, previous.updatedAt + 1) : own;
+    next[id] = { hash, updatedAt };
+    changes.push({ collection: record.collection, key: record.key, value: record.value, deleted: false, updatedAt });
+  }
+
+  for (const [id, entry] of Object.entries(index)) {
+    if (entry.deleted || present.has(id)) continue;
+    const separator = id.indexOf('/');
+    const collection = id.slice(0, separator) as SyncCollection;
+    const key = id.slice(separator + 1);
+    const updatedAt = Math.max(options.deletedAt?.(collection, key) ?? options.now, entry.updatedAt + 1);
+    next[id] = { hash: '', updatedAt, deleted: true };
+    changes.push({ collection, key, deleted: true, updatedAt });
+  }
+
+  return { changes, index: next };
+};
+
+// Server records that are newer than what this device has; ties keep the local copy
+export const selectRemoteUpdates = (remote: SyncRecord[], index: SyncIndex): { updates: SyncRecord[]; index: SyncIndex } => {
+  const next: SyncIndex = { ...index };
+  const updates: SyncRecord[] = [];
+  for (const record of remote) {
+    const id = recordId(record.collection, record.key);
+    const current = next[id];
+    if (current && current.updatedAt >= record.updatedAt) continue;
+    next[id] = record.deleted
+      ? { hash: '', updatedAt: record.updatedAt, deleted: true }
+      : { hash: hashValue(record.value), updatedAt: record.updatedAt };
+    updates.push(record);
+  }
+  return { updates, index: next };
+};
+
+class SyncService {
+  private static instance: SyncService;
+  private inFlight: Promise<SyncResult> | null = null;
+  private status: SyncStatus = { syncing: false, lastSyncAt: null, lastError: null };
+  private listeners: ((status: SyncStatus) => void)[] = [];
+  private cleanups: (() => void)[] = [];
+  private debounceTimer: ReturnType<typeof setTimeout> | null = null;
+  // Local change events fired while we apply remote data are our own echo
+  private applying = false;
+
+  private constructor() { }
+
+  static getInstance(): SyncService {
+    if (!SyncService.instance) {
+      SyncService.instance = new SyncService();
+    }
+    return SyncService.instance;
+  }
+
+  getStatus(): SyncStatus {
+    return this.status;
+  }
+
+  subscribe(listener: (status: SyncStatus) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  /**
+   * Sync on sign-in, when the app comes back, every few minutes and shortly
+   * after local edits. Call stop() on sign-out.
+   */
+  async start(): Promise<void> {
+    if (this.cleanups.length > 0) return;
+
+    const state = await this.loadState();
+    this.setStatus({ lastSyncAt: state?.lastSyncAt || null });
+
+    const onLocalChange = () => this.scheduleSync();
+    const unsubscribeProgress = storageService.subscribeToWatchProgressUpdates(onLocalChange);
+    // The library subscription fires once immediately; only later calls are edits
+    let libraryPrimed = false;
+    const unsubscribeLibrary = catalogService.subscribeToLibraryUpdates(() => {
+      if (libraryPrimed) onLocalChange();
+      libraryPrimed = true;
+    });
+    const unsubscribeSettings = settingsEmitter.addListener(onLocalChange);
+    const addonEvents = [ADDON_EVENTS.ADDON_ADDED, ADDON_EVENTS.ADDON_REMOVED, ADDON_EVENTS.ORDER_CHANGED];
+    addonEvents.forEach(event => addonEmitter.on(event, onLocalChange));
+    const appStateSubscription = AppState.addEventListener('change', this.handleAppStateChange);
+    const interval = setInterval(() => this.syncQuietly(), PERIODIC_SYNC_MS);
+
+    this.cleanups = [
+      unsubscribeProgress,
+      unsubscribeLibrary,
+      unsubscribeSettings,
+      () => addonEvents.forEach(event => addonEmitter.off(event, onLocalChange)),
+      () => appStateSubscription.remove(),
+      () => clearInterval(interval),
+    ];
+
+    this.syncQuietly();
+  }
+
+  stop(): void {
+    this.cleanups.forEach(cleanup => cleanup());
+    this.cleanups = [];
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+    }
+    this.setStatus({ lastSyncAt: null, lastError: null });
+  }
+
+  /**
+   * Push local changes and apply newer ones from the server. Concurrent calls
+   * share one round trip.
+   */
+  async syncNow(): Promise<SyncResult> {
+    if (this.inFlight) return this.inFlight;
+
+    this.inFlight = (async () => {
+      this.setStatus({ syncing: true });
+      try {
+        const result = await this.runSync();
+        this.setStatus({ syncing: false, lastSyncAt: Date.now(), lastError: null });
+        return result;
+      } catch (error: any) {
+        this.setStatus({ syncing: false, lastError: error?.message || 'Sync failed' });
+        throw error;
+      } finally {
+        this.inFlight = null;
+      }
+    })();
+    return this.inFlight;
+  }
+
+  private syncQuietly(): void {
+    this.syncNow().catch(error => logger.warn('[SyncService] Sync failed:', error?.message || error));
+  }
+
+  private scheduleSync(): void {
+    if (this.applying || this.cleanups.length === 0) return;
+    if (this.debounceTimer) clearTimeout(this.debounceTimer);
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = null;
+      this.syncQuietly();
+    }, CHANGE_DEBOUNCE_MS);
+  }
+
+  private handleAppStateChange = (state: AppStateStatus) => {
+    if (state !== 'active') return;
+    const last = this.status.lastSyncAt || 0;
+    if (Date.now() - last >= FOREGROUND_MIN_INTERVAL_MS) this.syncQuietly();
+  };
+
+  private setStatus(partial: Partial<SyncStatus>): void {
+    this.status = { ...this.status, ...partial };
+    this.listeners.forEach(listener => listener(this.status));
+  }
+
+  private async runSync(): Promise<SyncResult> {
+    const [backend, token, user] = await Promise.all([
+      accountService.getBackend(),
+      accountService.getSessionToken(),
+      accountService.getCurrentUser(),
+    ]);
+    if (!backend || !token || !user) throw new Error('Not signed in');
+
+    const scope = await this.getScope();
+    const stored = await this.loadState();
+    // Another account synced this profile before; start over rather than mix data
+    const state: SyncState = stored && stored.userId === user.id
+      ? stored
+      : { userId: user.id, cursor: 0, lastSyncAt: 0, index: {} };
+
+    const tombstones = await this.readJson<Record<string, number>>(`@user:${scope}:@wp_tombstones`, {});
+    const local = await this.collectLocalRecords(scope);
+    const { changes, index: pushedIndex } = diffLocalRecords(local, state.index, {
+      now: Date.now(),
+      firstSync: state.cursor === 0,
+      deletedAt: (collection, key) => (collection === 'watch_progress' ? tombstones[key] : undefined),
+    });
+
+    const deviceId = await this.getDeviceId();
+    const response = await backend.sync(token, { deviceId, cursor: state.cursor, changes });
+    const { updates, index } = selectRemoteUpdates(response.changes || [], pushedIndex);
+
+    if (updates.length > 0) {
+      this.applying = true;
+      try {
+        await this.applyRemoteRecords(scope, updates);
+      } finally {
+        this.applying = false;
+      }
+    }
+
+    await this.saveState({ userId: user.id, cursor: response.cursor, lastSyncAt: Date.now(), index });
+    logger.log(`[SyncService] Pushed ${changes.length}, applied ${updates.length} (cursor ${response.cursor})`);
+    return { pushed: changes.length, pulled: updates.length };
+  }
+
+  private async collectLocalRecords(scope: string): Promise<LocalSyncRecord[]> {
+    const records: LocalSyncRecord[] = [];
+
+    const library = await this.readJson<Record<string, any> | any[]>(`@user:${scope}:stremio-library`, {});
+    for (const item of Array.isArray(library) ? library : Object.values(library)) {
+      if (!item?.id || !item?.type) continue;
+      records.push({ collection: 'library', key: `${item.type}:${item.id}`, value: item, updatedAt: item.addedToLibraryAt });
+    }
+
+    const progressPrefix = `@user:${scope}:@watch_progress:`;
+    const progressKeys = (await mmkvStorage.getAllKeys()).filter(key => key.startsWith(progressPrefix));
+    if (progressKeys.length > 0) {
+      for (const [key, value] of await mmkvStorage.multiGet(progressKeys)) {
+        if (!value) continue;
+        try {
+          const progress = JSON.parse(value);
+          records.push({
+            collection: 'watch_progress',
+            key: key.slice(progressPrefix.length),
+            value: progress,
+            updatedAt: progress?.lastUpdated,
+          });
+        } catch { }
+      }
+    }
+
+    const addons = await this.readJson<any[]>(`@user:${scope}:stremio-addons`, []);
+    for (const addon of addons) {
+      if (addon?.id) records.push({ collection: 'addons', key: addonSyncKey(addon), value: addon });
+    }
+    const addonOrder = await this.readJson<string[] | null>(`@user:${scope}:stremio-addon-order`, null);
+    if (addonOrder) records.push({ collection: 'addon_order', key: 'order', value: addonOrder });
+
+    const repositories = await this.readJson<Record<string, any>>('scraper-repositories', {});
+    for (const repository of Object.values(repositories)) {
+      if (!repository?.id) continue;
+      const synced = Object.fromEntries(SYNCED_REPOSITORY_FIELDS.map(field => [field, repository[field]]));
+      records.push({ collection: 'scraper_repos', key: repository.id, value: synced });
+    }
+
+    const settings = await this.readJson<any>(`@user:${scope}:app_settings`, null);
+    if (settings) records.push({ collection: 'settings', key: 'app', value: settings });
+
+    return records;
+  }
+
+  private async applyRemoteRecords(scope: string, updates: SyncRecord[]): Promise<void> {
+    const byCollection = (collection: SyncCollection) => updates.filter(record => record.collection === collection);
+
+    const libraryUpdates = byCollection('library');
+    if (libraryUpdates.length > 0) {
+      const stored = await this.readJson<Record<string, any> | any[]>(`@user:${scope}:stremio-library`, {});
+      const library: Record<string, any> = Array.isArray(stored)
+        ? Object.fromEntries(stored.map(item => [`${item.type}:${item.id}`, item]))
+        : stored;
+      for (const record of libraryUpdates) {
+        if (record.deleted) delete library[record.key];
+        else library[record.key] = record.value;
+      }
+      const libraryJson = JSON.stringify(library);
+      await mmkvStorage.setItem(`@user:${scope}:stremio-library`, libraryJson);
+      if (!isProfileScope(scope)) await mmkvStorage.setItem('stremio-library', libraryJson);
+      await catalogService.reloadLibrary();
+    }
+
+    const progressUpdates = byCollection('watch_progress');
+    if (progressUpdates.length > 0) {
+      const progressKey = (key: string) => `@user:${scope}:@watch_progress:${key}`;
+      const tombstonesKey = `@user:${scope}:@wp_tombstones`;
+      const tombstones = await this.readJson<Record<string, number>>(tombstonesKey, {});
+      const written = progressUpdates.filter(record => !record.deleted);
+      const removed = progressUpdates.filter(record => record.deleted);
+      if (written.length > 0) {
+        await mmkvStorage.multiSet(written.map(record => [progressKey(record.key), JSON.stringify(record.value)]));
+      }
+      if (removed.length > 0) {
+        await mmkvStorage.multiRemove(removed.map(record => progressKey(record.key)));
+      }
+      // Keep tombstones in step so Trakt/Simkl sync does not bring deleted progress back
+      for (const record of removed) tombstones[record.key] = Math.max(tombstones[record.key] || 0, record.updatedAt);
+      for (const record of written) {
+        if ((tombstones[record.key] || 0) < record.updatedAt) delete tombstones[record.key];
+      }
+      await mmkvStorage.setItem(tombstonesKey, JSON.stringify(tombstones));
+      storageService.notifyExternalWatchProgressChange();
+    }
+
+    const addonUpdates = byCollection('addons');
+    const orderUpdate = byCollection('addon_order').pop();
+    if (addonUpdates.length > 0 || orderUpdate) {
+      if (addonUpdates.length > 0) {
+        const addons = await this.readJson<any[]>(`@user:${scope}:stremio-addons`, []);
+        const byKey = new Map(addons.map(addon => [addonSyncKey(addon), addon]));
+        for (const record of addonUpdates) {
+          if (record.deleted) byKey.delete(record.key);
+          else byKey.set(record.key, record.value);
+        }
+        const addonsJson = JSON.stringify(Array.from(byKey.values()));
+        await mmkvStorage.setItem(`@user:${scope}:stremio-addons`, addonsJson);
+        if (!isProfileScope(scope)) await mmkvStorage.setItem('stremio-addons', addonsJson);
+      }
+      if (orderUpdate && !orderUpdate.deleted) {
+        const orderJson = JSON.stringify(orderUpdate.value);
+        await mmkvStorage.setItem(`@user:${scope}:stremio-addon-order`, orderJson);
+        if (!isProfileScope(scope)) await mmkvStorage.setItem('stremio-addon-order', orderJson);
+      }
+      await stremioService.reloadFromStorage();
+    }
+
+    const repositoryUpdates = byCollection('scraper_repos');
+    if (repositoryUpdates.length > 0) {
+      const repositories = await this.readJson<Record<string, any>>('scraper-repositories', {});
+      for (const record of repositoryUpdates) {
+        if (record.deleted) {
+          delete repositories[record.key];
+          continue;
+        }
+        // Verification results stay per device
+        const local = repositories[record.key];
+        const synced = Object.fromEntries(
+          SYNCED_REPOSITORY_FIELDS.filter(field => field in record.value).map(field => [field, record.value[field]])
+        );
+        const next = { ...local, ...synced };
+        // A new URL is a different source; pin its key again on the next verified refresh
+        if (local && local.url !== next.url) {
+          delete next.publisherKey;
+          delete next.verificationStatus;
+          delete next.verificationMessage;
+          delete next.publisher;
+        }
+        repositories[record.key] = next;
+      }
+      await mmkvStorage.setItem('scraper-repositories', JSON.stringify(repositories));
+      await localScraperService.reloadRepositories();
+    }
+
+    const settingsUpdate = byCollection('settings').pop();
+    if (settingsUpdate && !settingsUpdate.deleted) {
+      const settingsJson = JSON.stringify(settingsUpdate.value);
+      await mmkvStorage.setItem(`@user:${scope}:app_settings`, settingsJson);
+      if (!isProfileScope(scope)) await mmkvStorage.setItem('app_settings', settingsJson);
+      invalidateSettingsCache();
+      settingsEmitter.emit();
+    }
+  }
+
+  private async getScope(): Promise<string> {
+    return (await mmkvStorage.getItem('@user:current')) || 'local';
+  }
+
+  private async getDeviceId(): Promise<string> {
+    let deviceId = await mmkvStorage.getItem(DEVICE_ID_KEY);
+    if (!deviceId) {
+      deviceId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+      await mmkvStorage.setItem(DEVICE_ID_KEY, deviceId);
+    }
+    return deviceId;
+  }
+
+  private async readJson<T>(key: string, fallback: T): Promise<T> {
+    try {
+      const json = await mmkvStorage.getItem(key);
+      return json ? JSON.parse(json) : fallback;
+    } catch {
+      return fallback;
+    }
+  }
+
+  private async loadState(): Promise<SyncState | null> {
+    const scope = await this.getScope();
+    return this.readJson<SyncState | null>(`@user:${scope}:sync_state`, null);
+  }
+
+  private async saveState(state: SyncState): Promise<void> {
+    const scope = await this.getScope();
+    await mmkvStorage.setItem(`@user:${scope}:sync_state`, JSON.stringify(state));
+  }
+}
+
+export const syncService = SyncService.getInstance();
+export default syncService;
@@ -1258,10 +1258,12 @@ export class TMDBService {
   }
 
   /**
-   * Get content certification rating
+   * Get content certification rating, optionally for a specific region (ISO 3166-1)
    */
-  async getCertification(type: string, id: number): Promise<string | null> {
-    const cacheKey = this.generateCacheKey(`${type}_${id}_certification`);
+  async getCertification(type: string, id: number, region?: string): Promise<string | null> {
+    const cacheKey = this.generateCacheKey(`${type}_${id}_certification`, region ? { region } : undefined);
+    // Prefer the requested region, then US, then GB, then any
+    const countryPriority = Array.from(new Set([region, 'US', 'GB'].filter(Boolean) as string[]));
 
     // Check cache
     const cached = this.getCachedData<string>(cacheKey);
@@ -1277,8 +1279,6 @@ export class TMDBService {
         });
 
         if (response.data && response.data.results) {
-          // Prefer US, then GB, then any
-          const countryPriority = ['US', 'GB'];
           for (const code of countryPriority) {
             const rel = response.data.results.find((r: any) => r.iso_3166_1 === code);
             if (rel?.release_dates?.length) {
@@ -1307,8 +1307,6 @@ export class TMDBService {
         });
 
         if (response.data && response.data.results) {
-          // Prefer US, then GB, then any
-          const countryPriority = ['US', 'GB'];
           for (const code of countryPriority) {
             const rating = response.data.results.find((r: any) => r.iso_3166_1 === code);
             if (rating?.rating) {
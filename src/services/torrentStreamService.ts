@@ -0,0 +1,214 @@
+import axios from 'axios';
+import { logger } from '../utils/logger';
+import { debridService, DebridProviderId } from './debridService';
+
+/**
+ * Turns torrent streams (infoHash + fileIdx) into playable HTTP URLs, either
+ * through a linked debrid account or a Stremio server-compatible streaming
+ * server exposing `/{infoHash}/{fileIdx}`.
+ */
+
+export type TorrentResolverMode = 'auto' | 'debrid' | 'server';
+
+export interface TorrentSource {
+    infoHash: string;
+    fileIdx?: number;
+    sources?: string[];
+    filename?: string;
+}
+
+export interface TorrentResolveProgress {
+    via: 'debrid' | 'server';
+    status: string;
+    provider?: DebridProviderId;
+    progress?: number; // 0-100
+    peers?: number;
+    speed?: number; // Bytes per second
+}
+
+export interface TorrentResolveOptions {
+    mode: TorrentResolverMode;
+    serverUrl?: string;
+    onProgress?: (progress: TorrentResolveProgress) => void;
+    isCancelled?: () => boolean;
+}
+
+export interface ResolvedTorrentStream {
+    url: string;
+    via: 'debrid' | 'server';
+    provider?: DebridProviderId;
+    filename?: string;
+}
+
+const SERVER_TIMEOUT_MS = 10000;
+const SERVER_PEER_WAIT_MS = 20000;
+const SERVER_POLL_INTERVAL_MS = 1000;
+const VIDEO_EXTENSIONS = /\.(mkv|mp4|avi|mov|m4v|webm|ts|m2ts|wmv|flv)$/i;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const normalizeServerUrl = (url?: string): string => (url || '').trim().replace(/\/+$/, '');
+
+/**
+ * Extract torrent info from a stream or from a magnet URL. Returns null for
+ * regular HTTP streams.
+ */
+export function getTorrentSource(stream: {
+    url?: string;
+    infoHash?: string;
+    fileIdx?: number;
+    sources?: string[];
+    behaviorHints?: { filename?: string; infoHash?: string; fileIdx?: number };
+} | null | undefined): TorrentSource | null {
+    if (!stream) return null;
+
+    const magnet = typeof stream.url === 'string' && stream.url.startsWith('magnet:') ? stream.url : undefined;
+    const infoHash = stream.infoHash
+        || stream.behaviorHints?.infoHash
+        || magnet?.match(/btih:([a-zA-Z0-9]+)/i)?.[1];
+    if (!infoHash) return null;
+
+    // Magnets built by stremioService carry trackers as tr= params
+    const magnetTrackers = magnet
+        ? Array.from(magnet.matchAll(/[?&]tr=([^&]+)/g)).map(m => `tracker:${decodeURIComponent(m[1])}`)
+        : [];
+
+    return {
+        infoHash: infoHash.toLowerCase(),
+        fileIdx: typeof stream.fileIdx === 'number' ? stream.fileIdx : stream.behaviorHints?.fileIdx,
+        sources: stream.sources?.length ? stream.sources : magnetTrackers,
+        filename: stream.behaviorHints?.filename,
+    };
+}
+
+export function isTorrentStream(stream: Parameters<typeof getTorrentSource>[0]): boolean {
+    // Streams that already have an HTTP URL (debrid addons) play directly
+    if (typeof stream?.url === 'string' && /^https?:\/\//i.test(stream.url)) return false;
+    return getTorrentSource(stream) !== null;
+}
+
+// Whether the current settings can play torrents at all
+export async function canResolveTorrents(mode: TorrentResolverMode, serverUrl?: string): Promise<boolean> {
+    const hasServer = !!normalizeServerUrl(serverUrl);
+    if (mode === 'server') return hasServer;
+    const hasDebrid = await debridService.hasLinkedAccount();
+    return mode === 'debrid' ? hasDebrid : hasDebrid || hasServer;
+}
+
+async function resolveWithServer(source: TorrentSource, options: TorrentResolveOptions): Promise<ResolvedTorrentStream> {
+    const base = normalizeServerUrl(options.serverUrl);
+    if (!base) {
+        throw new Error('No torrent streaming server configured');
+    }
+    const report = (progress: Omit<TorrentResolveProgress, 'via'>) => options.onProgress?.({ via: 'server', ...progress });
+    report({ status: 'connecting' });
+
+    // Ask the server to start the torrent with our trackers, then read back its file list
+    let fileIdx = source.fileIdx;
+    try {
+        const { data } = await axios.post(`${base}/${source.infoHash}/create`, {
+            torrent: { infoHash: source.infoHash },
+            peerSearch: {
+                sources: [`dht:${source.infoHash}`, ...(source.sources || [])],
+                min: 40,
+                max: 150,
+            },
+            guessFileIdx: fileIdx === undefined ? {} : undefined,
+        }, { timeout: SERVER_TIMEOUT_MS });
+
+        if (fileIdx === undefined && typeof data?.guessedFileIdx === 'number') {
+            fileIdx = data.guessedFileIdx;
+        }
+        if (fileIdx === undefined && Array.isArray(data?.files)) {
+            // Largest video file, matching how debrid providers pick
+            let largest = -1;
+            data.files.forEach((file: { name?: string; path?: string; length?: number }, index: number) => {
+                const name = file.path || file.name || '';
+                if (!VIDEO_EXTENSIONS.test(name)) return;
+                if (largest === -1 || (file.length || 0) > (data.files[largest].length || 0)) largest = index;
+            });
+            if (largest >= 0) fileIdx = largest;
+        }
+    } catch (error) {
+        logger.warn('[TorrentStreamService] Streaming server create failed, falling back to direct URL:', error);
+    }
+
+    // -1 lets the server pick the main file
+    const resolvedIdx = fileIdx ?? -1;
+    const url = `${base}/${source.infoHash}/${resolvedIdx}`;
+
+    // Wait for the first peers so the player does not time out on an empty swarm
+    const deadline = Date.now() + SERVER_PEER_WAIT_MS;
+    while (Date.now() < deadline) {
+        if (options.isCancelled?.()) break;
+        try {
+            const { data: stats } = await axios.get(`${url}/stats.json`, { timeout: SERVER_TIMEOUT_MS });
+            const peers = stats?.peers ?? 0;
+            report({
+                status: peers > 0 ? 'buffering' : 'searching_peers',
+                peers,
+                speed: stats?.downloadSpeed,
+                progress: typeof stats?.streamProgress === 'number' ? Math.round(stats.streamProgress * 100) : undefined,
+            });
+            if (peers > 0 && (stats?.downloadSpeed || 0) > 0) break;
+        } catch (error) {
+            logger.warn('[TorrentStreamService] Failed to read streaming server stats:', error);
+            break;
+        }
+        await sleep(SERVER_POLL_INTERVAL_MS);
+    }
+
+    return { url, via: 'server', filename: source.filename };
+}
+
+async function resolveWithDebrid(source: TorrentSource, options: TorrentResolveOptions): Promise<ResolvedTorrentStream> {
+    const link = await debridService.resolveMagnet(source, {
+        onProgress: progress => options.onProgress?.({
+            via: 'debrid',
+            provider: progress.provider,
+            status: progress.status,
+            progress: progress.progress,
+            peers: progress.seeders,
+            speed: progress.speed,
+        }),
+    });
+    return { url: link.url, via: 'debrid', provider: link.provider, filename: link.filename };
+}
+
+export async function resolveTorrent(source: TorrentSource, options: TorrentResolveOptions): Promise<ResolvedTorrentStream> {
+    const hasServer = !!normalizeServerUrl(options.serverUrl);
+    const hasDebrid = options.mode !== 'server' && await debridService.hasLinkedAccount();
+
+    logger.log(`[TorrentStreamService] Resolving ${source.infoHash} (mode: ${options.mode}, debrid: ${hasDebrid}, server: ${hasServer})`);
+
+    if (options.mode === 'server') {
+        return resolveWithServer(source, options);
+    }
+    if (options.mode === 'debrid') {
+        if (!hasDebrid) throw new Error('No debrid account linked');
+        return resolveWithDebrid(source, options);
+    }
+
+    // Auto: debrid first, streaming server as fallback
+    if (hasDebrid) {
+        try {
+            return await resolveWithDebrid(source, options);
+        } catch (error) {
+            if (!hasServer) throw error;
+            logger.warn('[TorrentStreamService] Debrid resolve failed, trying streaming server:', error);
+        }
+    }
+    if (hasServer) {
+        return resolveWithServer(source, options);
+    }
+    throw new Error('Link a debrid account or set a torrent streaming server to play torrent streams');
+}
+
+export const torrentStreamService = {
+    getTorrentSource,
+    isTorrentStream,
+    canResolveTorrents,
+    resolveTorrent,
+};
+
+export default torrentStreamService;
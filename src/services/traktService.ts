@@ -1,6 +1,7 @@
 import { mmkvStorage } from './mmkvStorage';
 import { AppState, AppStateStatus } from 'react-native';
 import { logger } from '../utils/logger';
+import { getProfileBoundKey } from './profileService';
 
 // Storage keys
 export const TRAKT_ACCESS_TOKEN_KEY = 'trakt_access_token';
@@ -725,6 +726,15 @@ export class TraktService {
     return TraktService.instance;
   }
 
+  // Each profile binds its own Trakt account
+  private getTokenKeys(): Promise<string[]> {
+    return Promise.all([
+      getProfileBoundKey(TRAKT_ACCESS_TOKEN_KEY),
+      getProfileBoundKey(TRAKT_REFRESH_TOKEN_KEY),
+      getProfileBoundKey(TRAKT_TOKEN_EXPIRY_KEY)
+    ]);
+  }
+
   /**
    * Initialize the Trakt service by loading stored tokens
    */
@@ -734,10 +744,11 @@ export class TraktService {
     }
 
     try {
+      const [accessTokenKey, refreshTokenKey, tokenExpiryKey] = await this.getTokenKeys();
       const [accessToken, refreshToken, tokenExpiry] = await Promise.all([
-        mmkvStorage.getItem(TRAKT_ACCESS_TOKEN_KEY),
-        mmkvStorage.getItem(TRAKT_REFRESH_TOKEN_KEY),
-        mmkvStorage.getItem(TRAKT_TOKEN_EXPIRY_KEY)
+        mmkvStorage.getItem(accessTokenKey),
+        mmkvStorage.getItem(refreshTokenKey),
+        mmkvStorage.getItem(tokenExpiryKey)
       ]);
 
       this.accessToken = accessToken;
@@ -876,10 +887,11 @@ export class TraktService {
     this.tokenExpiry = Date.now() + (expiresIn * 1000);
 
     try {
+      const [accessTokenKey, refreshTokenKey, tokenExpiryKey] = await this.getTokenKeys();
       await mmkvStorage.multiSet([
-        [TRAKT_ACCESS_TOKEN_KEY, accessToken],
-        [TRAKT_REFRESH_TOKEN_KEY, refreshToken],
-        [TRAKT_TOKEN_EXPIRY_KEY, this.tokenExpiry.toString()]
+        [accessTokenKey, accessToken],
+        [refreshTokenKey, refreshToken],
+        [tokenExpiryKey, this.tokenExpiry.toString()]
       ]);
       logger.log('[TraktService] Tokens saved successfully');
     } catch (error) {
@@ -899,11 +911,7 @@ export class TraktService {
       this.refreshToken = null;
       this.tokenExpiry = 0;
 
-      await mmkvStorage.multiRemove([
-        TRAKT_ACCESS_TOKEN_KEY,
-        TRAKT_REFRESH_TOKEN_KEY,
-        TRAKT_TOKEN_EXPIRY_KEY
-      ]);
+      await mmkvStorage.multiRemove(await this.getTokenKeys());
       logger.log('[TraktService] Logged out successfully');
     } catch (error) {
       logger.error('[TraktService] Failed to logout:', error);
@@ -1665,6 +1673,36 @@ export class TraktService {
     }
   }
 
+  /**
+   * Mark multiple movies as watched on Trakt (batch operation)
+   * @param movies - IMDb IDs with the date each was watched
+   */
+  public async markMoviesAsWatched(
+    movies: Array<{ imdbId: string; watchedAt: Date }>
+  ): Promise<boolean> {
+    try {
+      if (movies.length === 0) {
+        logger.warn('[TraktService] No movies provided to mark as watched');
+        return false;
+      }
+
+      logger.log(`[TraktService] Marking ${movies.length} movies as watched`);
+
+      // Trakt resolves IMDb ids itself, so no per-movie lookup is needed
+      await this.apiRequest('/sync/history', 'POST', {
+        movies: movies.map(movie => ({
+          ids: { imdb: movie.imdbId },
+          watched_at: movie.watchedAt.toISOString()
+        }))
+      });
+      logger.log(`[TraktService] Successfully marked ${movies.length} movies as watched`);
+      return true;
+    } catch (error) {
+      logger.error('[TraktService] Failed to mark movies as watched:', error);
+      return false;
+    }
+  }
+
   /**
    * Mark entire show as watched on Trakt (all seasons and episodes)
    * @param imdbId - The IMDb ID of the show
@@ -1,5 +1,6 @@
 import * as Updates from 'expo-updates';
 import { Platform } from 'react-native';
+import { autoBackupService } from './autoBackupService';
 
 export interface UpdateInfo {
   isAvailable: boolean;
@@ -370,6 +371,9 @@ export class UpdateService {
         this.addLog(`Update found, starting download. ID: ${update.manifest?.id || 'unknown'}`, 'INFO');
         this.addLog(`Manifest details: ${JSON.stringify(update.manifest, null, 2)}`, 'INFO');
 
+        // Snapshot user data in case the new version misbehaves
+        await autoBackupService.createRestorePointIfEnabled('before_update');
+
         const downloadStartTime = Date.now();
         this.addLog('Calling Updates.fetchUpdateAsync()...', 'INFO');
 
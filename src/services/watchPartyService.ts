@@ -0,0 +1,310 @@
+import { logger } from '../utils/logger';
+
+/**
+ * Watch party sessions over a self-hosted WebSocket relay
+ * (see tools/watch-party-relay). The relay only forwards messages; which
+ * member's state wins is decided by the players.
+ */
+
+export interface WatchPartyMember {
+  id: string;
+  name: string;
+}
+
+export interface WatchPartyMedia {
+  id: string;
+  type: string;
+  episodeId?: string;
+  season?: number;
+  episode?: number;
+  title?: string;
+}
+
+export type WatchPartyAction = 'play' | 'pause' | 'seek';
+
+export type WatchPartyPayload =
+  | { kind: 'control'; action: WatchPartyAction; position: number; paused: boolean; media: WatchPartyMedia }
+  | { kind: 'state'; position: number; paused: boolean; media: WatchPartyMedia }
+  | { kind: 'request_state' };
+
+export interface WatchPartySession {
+  code: string;
+  memberId: string;
+  hostId: string;
+  members: WatchPartyMember[];
+  isHost: boolean;
+}
+
+export type WatchPartyEvent =
+  | { type: 'session'; session: WatchPartySession | null }
+  | { type: 'message'; from: string; serverTime: number; payload: WatchPartyPayload }
+  | { type: 'error'; message: string };
+
+const CONNECT_TIMEOUT_MS = 8000;
+const KEEPALIVE_MS = 25000;
+const CLOCK_SAMPLES = 5;
+const RECONNECT_DELAYS_MS = [2000, 4000, 8000];
+
+interface PendingRequest {
+  resolve: (session: WatchPartySession) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+class WatchPartyService {
+  private static instance: WatchPartyService;
+  private socket: WebSocket | null = null;
+  private session: WatchPartySession | null = null;
+  private listeners: Array<(event: WatchPartyEvent) => void> = [];
+  private pending: PendingRequest | null = null;
+  private keepAliveTimer: ReturnType<typeof setInterval> | null = null;
+  private relayUrl: string = '';
+  private displayName: string = '';
+  // Server clock minus local clock, from the ping with the shortest round trip
+  private clockOffset: number = 0;
+  private bestRoundTrip: number = Infinity;
+  private reconnecting: boolean = false;
+
+  private constructor() {}
+
+  static getInstance(): WatchPartyService {
+    if (!WatchPartyService.instance) {
+      WatchPartyService.instance = new WatchPartyService();
+    }
+    return WatchPartyService.instance;
+  }
+
+  getSession(): WatchPartySession | null {
+    return this.session;
+  }
+
+  // Current time on the relay's clock, used to age incoming positions
+  serverNow(): number {
+    return Date.now() + this.clockOffset;
+  }
+
+  subscribe(listener: (event: WatchPartyEvent) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  async host(relayUrl: string, name: string): Promise<WatchPartySession> {
+    await this.open(relayUrl, name);
+    return this.request({ type: 'create', name });
+  }
+
+  async join(relayUrl: string, code: string, name: string): Promise<WatchPartySession> {
+    await this.open(relayUrl, name);
+    return this.request({ type: 'join', code: code.trim().toUpperCase(), name });
+  }
+
+  leave(): void {
+    if (!this.session && !this.socket) return;
+    logger.log(`[WatchPartyService] Leaving session ${this.session?.code}`);
+    this.sendRaw({ type: 'leave' });
+    this.teardown();
+    this.setSession(null);
+  }
+
+  send(payload: WatchPartyPayload): void {
+    if (!this.session) return;
+    this.sendRaw({ type: 'broadcast', payload });
+  }
+
+  private notify(event: WatchPartyEvent): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        logger.error('[WatchPartyService] Listener failed:', error);
+      }
+    });
+  }
+
+  private setSession(session: WatchPartySession | null): void {
+    this.session = session;
+    this.notify({ type: 'session', session });
+  }
+
+  private sendRaw(message: object): void {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+
+  private open(relayUrl: string, name: string): Promise<void> {
+    if (!/^wss?:\/\//i.test(relayUrl)) {
+      return Promise.reject(new Error('Relay URL must start with ws:// or wss://'));
+    }
+    this.teardown();
+    this.relayUrl = relayUrl;
+    this.displayName = name;
+    this.clockOffset = 0;
+    this.bestRoundTrip = Infinity;
+
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(relayUrl);
+      this.socket = socket;
+      const timer = setTimeout(() => {
+        socket.close();
+        reject(new Error('Timed out connecting to the watch party relay'));
+      }, CONNECT_TIMEOUT_MS);
+
+      socket.onopen = () => {
+        clearTimeout(timer);
+        this.startKeepAlive();
+        resolve();
+      };
+      socket.onerror = () => {
+        clearTimeout(timer);
+        reject(new Error('Could not reach the watch party relay'));
+      };
+      socket.onmessage = event => {
+        if (socket === this.socket) this.handleMessage(event.data);
+      };
+      socket.onclose = () => {
+        if (socket === this.socket) this.handleUnexpectedClose();
+      };
+    });
+  }
+
+  private request(message: { type: 'create' | 'join'; name: string; code?: string }): Promise<WatchPartySession> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending = null;
+        reject(new Error('The watch party relay did not answer'));
+      }, CONNECT_TIMEOUT_MS);
+      this.pending = { resolve, reject, timer };
+      this.sendRaw(message);
+    });
+  }
+
+  private handleMessage(data: string): void {
+    let message: any;
+    try {
+      message = JSON.parse(data);
+    } catch {
+      logger.warn('[WatchPartyService] Ignoring malformed relay message');
+      return;
+    }
+
+    switch (message.type) {
+      case 'welcome': {
+        const session: WatchPartySession = {
+          code: message.code,
+          memberId: message.memberId,
+          hostId: message.hostId,
+          members: message.members || [],
+          isHost: message.hostId === message.memberId,
+        };
+        logger.log(`[WatchPartyService] In session ${session.code} as ${session.isHost ? 'host' : 'member'}`);
+        this.setSession(session);
+        this.syncClock();
+        if (this.pending) {
+          clearTimeout(this.pending.timer);
+          this.pending.resolve(session);
+          this.pending = null;
+        }
+        break;
+      }
+      case 'members': {
+        if (!this.session) return;
+        this.setSession({
+          ...this.session,
+          hostId: message.hostId,
+          members: message.members || [],
+          isHost: message.hostId === this.session.memberId,
+        });
+        break;
+      }
+      case 'pong': {
+        const now = Date.now();
+        const roundTrip = now - message.t;
+        if (roundTrip >= 0 && roundTrip < this.bestRoundTrip) {
+          this.bestRoundTrip = roundTrip;
+          this.clockOffset = message.serverTime - (message.t + roundTrip / 2);
+        }
+        break;
+      }
+      case 'message':
+        if (message.payload) {
+          this.notify({ type: 'message', from: message.from, serverTime: message.serverTime, payload: message.payload });
+        }
+        break;
+      case 'error': {
+        logger.warn(`[WatchPartyService] Relay error: ${message.message}`);
+        if (this.pending) {
+          clearTimeout(this.pending.timer);
+          this.pending.reject(new Error(message.message));
+          this.pending = null;
+        } else {
+          this.notify({ type: 'error', message: message.message });
+        }
+        break;
+      }
+    }
+  }
+
+  private syncClock(): void {
+    for (let i = 0; i < CLOCK_SAMPLES; i++) {
+      setTimeout(() => this.sendRaw({ type: 'ping', t: Date.now() }), i * 200);
+    }
+  }
+
+  private startKeepAlive(): void {
+    if (this.keepAliveTimer) clearInterval(this.keepAliveTimer);
+    this.keepAliveTimer = setInterval(() => this.sendRaw({ type: 'ping', t: Date.now() }), KEEPALIVE_MS);
+  }
+
+  private teardown(): void {
+    if (this.keepAliveTimer) {
+      clearInterval(this.keepAliveTimer);
+      this.keepAliveTimer = null;
+    }
+    if (this.pending) {
+      clearTimeout(this.pending.timer);
+      this.pending.reject(new Error('Connection closed'));
+      this.pending = null;
+    }
+    const socket = this.socket;
+    this.socket = null;
+    if (socket) {
+      socket.onopen = socket.onmessage = socket.onerror = socket.onclose = null;
+      socket.close();
+    }
+  }
+
+  // Phones drop sockets when backgrounded; rejoin the same code before giving up
+  private async handleUnexpectedClose(): Promise<void> {
+    const lost = this.session;
+    this.teardown();
+    if (!lost || this.reconnecting) return;
+    logger.warn(`[WatchPartyService] Lost connection to session ${lost.code}, reconnecting`);
+
+    this.reconnecting = true;
+    try {
+      for (const delay of RECONNECT_DELAYS_MS) {
+        await new Promise(resolve => setTimeout(resolve, delay));
+        // Left or started another session meanwhile
+        if (this.session !== lost) return;
+        try {
+          await this.join(this.relayUrl, lost.code, this.displayName);
+          return;
+        } catch (error: any) {
+          logger.warn('[WatchPartyService] Reconnect failed:', error?.message || error);
+        }
+      }
+    } finally {
+      this.reconnecting = false;
+    }
+    if (this.session !== lost) return;
+    this.teardown();
+    this.setSession(null);
+    this.notify({ type: 'error', message: 'Lost connection to the watch party' });
+  }
+}
+
+export const watchPartyService = WatchPartyService.getInstance();
+export default watchPartyService;
@@ -67,6 +67,59 @@ class WatchedService {
         }
     }
 
+    /**
+     * Mark several movies as watched in one sync request per service
+     * @param movies - Movie IDs with the date each was watched; only IMDb IDs are synced
+     */
+    public async markMoviesAsWatched(
+        movies: Array<{ id: string; watchedAt: Date }>
+    ): Promise<{ success: boolean; syncedToTrakt: boolean; count: number }> {
+        try {
+            if (movies.length === 0) {
+                return { success: true, syncedToTrakt: false, count: 0 };
+            }
+
+            logger.log(`[WatchedService] Marking ${movies.length} movies as watched`);
+
+            // Trakt and Simkl only understand IMDb ids; tmdb:/addon ids stay local
+            const syncable = movies
+                .filter(movie => movie.id.startsWith('tt'))
+                .map(movie => ({ imdbId: movie.id, watchedAt: movie.watchedAt }));
+
+            // Check if Trakt is authenticated
+            const isTraktAuth = await this.traktService.isAuthenticated();
+            let syncedToTrakt = false;
+
+            if (isTraktAuth && syncable.length > 0) {
+                // Sync to Trakt (batch operation)
+                syncedToTrakt = await this.traktService.markMoviesAsWatched(syncable);
+                logger.log(`[WatchedService] Trakt batch sync result: ${syncedToTrakt}`);
+            }
+
+            // Sync to Simkl
+            const isSimklAuth = await this.simklService.isAuthenticated();
+            if (isSimklAuth && syncable.length > 0) {
+                await this.simklService.addToHistory({
+                    movies: syncable.map(movie => ({
+                        ids: { imdb: movie.imdbId },
+                        watched_at: movie.watchedAt.toISOString()
+                    }))
+                });
+                logger.log(`[WatchedService] Simkl batch sync request sent`);
+            }
+
+            // Store locally as "completed" for each movie
+            for (const movie of movies) {
+                await this.setLocalWatchedStatus(movie.id, 'movie', true, undefined, movie.watchedAt);
+            }
+
+            return { success: true, syncedToTrakt, count: movies.length };
+        } catch (error) {
+            logger.error('[WatchedService] Failed to mark movies as watched:', error);
+            return { success: false, syncedToTrakt: false, count: 0 };
+        }
+    }
+
     /**
      * Mark a single episode as watched
      * @param showImdbId - The IMDb ID of the show
@@ -1,5 +1,6 @@
 import { TMDBEpisode } from '../services/tmdbService';
 import { StreamingContent } from '../services/catalogService';
+import type { ParsedStreamInfo } from '../utils/streamParser';
 
 // Re-export StreamingContent for convenience
 export { StreamingContent };
@@ -44,6 +45,7 @@ export interface Stream {
   isFree?: boolean;
   isDebrid?: boolean;
   quality?: string;
+  parsed?: ParsedStreamInfo;       // Normalized release metadata, filled in by the stream services
   type?: string;
   lang?: string;
   fileIdx?: number;
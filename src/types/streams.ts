@@ -1,3 +1,5 @@
+import type { ParsedStreamInfo } from '../utils/streamParser';
+
 // Source object for archive streams per protocol
 export interface SourceObject {
   url: string;
@@ -47,6 +49,7 @@ export interface Stream {
   isFree?: boolean;
   isDebrid?: boolean;
   quality?: string;
+  parsed?: ParsedStreamInfo;       // Normalized release metadata, filled in by the stream services
   type?: string;
   lang?: string;
   headers?: Record<string, string>;
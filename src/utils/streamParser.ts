@@ -0,0 +1,240 @@
+/**
+ * Normalizes the free-text fields addons and scrapers put on a stream (name,
+ * title, description, behaviorHints) into structured release metadata.
+ */
+
+export type SourceType = 'remux' | 'bluray' | 'web-dl' | 'webrip' | 'hdtv' | 'dvd' | 'cam';
+export type VideoCodec = 'av1' | 'hevc' | 'h264' | 'vp9';
+export type HdrFormat = 'dv' | 'hdr10+' | 'hdr10' | 'hdr' | 'hlg';
+export type AudioCodec = 'atmos' | 'truehd' | 'dts-hd' | 'dts' | 'ddp' | 'dd' | 'aac' | 'flac' | 'opus';
+export type AudioChannels = '7.1' | '5.1' | '2.0';
+export type DebridCacheStatus = 'cached' | 'uncached' | 'unknown';
+
+export interface ParsedStreamInfo {
+  resolution: number; // Vertical resolution in lines, 0 when unknown
+  sourceType?: SourceType;
+  videoCodec?: VideoCodec;
+  hdr: HdrFormat[]; // Empty for SDR
+  audioCodecs: AudioCodec[];
+  audioChannels?: AudioChannels;
+  languages: string[]; // ISO 639-1 codes, plus 'multi' for multi-audio releases
+  sizeBytes?: number;
+  seeders?: number;
+  releaseGroup?: string;
+  cacheStatus: DebridCacheStatus;
+}
+
+// Minimal shape shared by the stream types used across services and screens
+export interface ParsableStream {
+  name?: string;
+  title?: string;
+  description?: string;
+  size?: number;
+  parsed?: ParsedStreamInfo;
+  behaviorHints?: {
+    cached?: boolean;
+    filename?: string;
+    videoSize?: number;
+    [key: string]: any;
+  };
+}
+
+const SIZE_UNITS: Record<string, number> = {
+  b: 1,
+  kb: 1024,
+  mb: 1024 ** 2,
+  gb: 1024 ** 3,
+  tb: 1024 ** 4,
+};
+
+// Tokens that look like "-GROUP" suffixes but are part of the release name
+const NOT_RELEASE_GROUPS = new Set(['dl', 'rip', 'web', 'hd', 'sd', 'uhd', 'hdr', 'dv', 'x264', 'x265', 'h264', 'h265', 'hevc', 'avc', 'av1', 'mkv', 'mp4']);
+
+const LANGUAGE_FLAGS: Record<string, string> = {
+  '🇬🇧': 'en', '🇺🇸': 'en', '🇪🇸': 'es', '🇲🇽': 'es', '🇫🇷': 'fr', '🇩🇪': 'de', '🇮🇹': 'it',
+  '🇵🇹': 'pt', '🇧🇷': 'pt', '🇷🇺': 'ru', '🇯🇵': 'ja', '🇰🇷': 'ko', '🇨🇳': 'zh', '🇮🇳': 'hi',
+  '🇹🇷': 'tr', '🇸🇦': 'ar', '🇳🇱': 'nl', '🇵🇱': 'pl', '🇸🇪': 'sv', '🇺🇦': 'uk', '🇬🇷': 'el',
+};
+
+const LANGUAGE_WORDS: Array<[RegExp, string]> = [
+  [/\b(english|eng)\b/i, 'en'],
+  [/\b(spanish|español|espanol|latino|castellano|spa)\b/i, 'es'],
+  [/\b(french|français|francais|vff|vostfr|truefrench)\b/i, 'fr'],
+  [/\b(german|deutsch|ger)\b/i, 'de'],
+  [/\b(italian|italiano|ita)\b/i, 'it'],
+  [/\b(portuguese|português|portugues|dublado)\b/i, 'pt'],
+  [/\b(russian|rus)\b/i, 'ru'],
+  [/\b(japanese|jap)\b/i, 'ja'],
+  [/\b(korean|kor)\b/i, 'ko'],
+  [/\b(chinese|mandarin|cantonese)\b/i, 'zh'],
+  [/\b(hindi|hin)\b/i, 'hi'],
+  [/\b(turkish|tur)\b/i, 'tr'],
+  [/\b(arabic|ara)\b/i, 'ar'],
+  [/\b(multi|dual[ .-]?audio)\b/i, 'multi'],
+];
+
+const parsedCache = new WeakMap<object, ParsedStreamInfo>();
+
+const parseResolution = (text: string): number => {
+  if (/\b(4k|uhd)\b/i.test(text)) return 2160;
+  const match = text.match(/\b(240|360|480|576|720|1080|1440|2160|4320)[pi]\b/i);
+  if (match) return parseInt(match[1], 10);
+  if (/\b8k\b/i.test(text)) return 4320;
+  if (/\b(fhd|full ?hd)\b/i.test(text)) return 1080;
+  return 0;
+};
+
+const parseSourceType = (text: string): SourceType | undefined => {
+  if (/\bremux\b/i.test(text)) return 'remux';
+  if (/\b(blu-?ray|bdrip|brrip|bdremux)\b/i.test(text)) return 'bluray';
+  if (/\bweb[ .-]?rip\b/i.test(text)) return 'webrip';
+  if (/\bweb([ .-]?dl)?\b/i.test(text)) return 'web-dl';
+  if (/\b(hdtv|pdtv)\b/i.test(text)) return 'hdtv';
+  if (/\b(dvd[ .-]?rip|dvd)\b/i.test(text)) return 'dvd';
+  if (/\b(cam|hdcam|telesync|hdts)\b/i.test(text) || /\bTS\b/.test(text)) return 'cam';
+  return undefined;
+};
+
+const parseVideoCodec = (text: string): VideoCodec | undefined => {
+  if (/\bav1\b/i.test(text)) return 'av1';
+  if (/\b(hevc|[xh][ .]?265)\b/i.test(text)) return 'hevc';
+  if (/\bvp9\b/i.test(text)) return 'vp9';
+  if (/\b(avc|[xh][ .]?264)\b/i.test(text)) return 'h264';
+  return undefined;
+};
+
+const parseHdr = (text: string): HdrFormat[] => {
+  const formats: HdrFormat[] = [];
+  if (/\b(dv|dovi|dolby[ .]?vision)\b/i.test(text)) formats.push('dv');
+  if (/\bhdr10(\+|plus)/i.test(text)) formats.push('hdr10+');
+  else if (/\bhdr10\b/i.test(text)) formats.push('hdr10');
+  else if (/\bhdr\b/i.test(text)) formats.push('hdr');
+  if (/\bhlg\b/i.test(text)) formats.push('hlg');
+  return formats;
+};
+
+const parseAudioCodecs = (text: string): AudioCodec[] => {
+  const codecs: AudioCodec[] = [];
+  if (/\batmos\b/i.test(text)) codecs.push('atmos');
+  if (/\btrue[ .-]?hd\b/i.test(text)) codecs.push('truehd');
+  if (/\bdts[ .-]?(hd|ma|x)\b/i.test(text)) codecs.push('dts-hd');
+  else if (/\bdts\b/i.test(text)) codecs.push('dts');
+  if (/\b(ddp|dd\+|e-?ac-?3)/i.test(text)) codecs.push('ddp');
+  else if (/\b(dd|ac-?3)(?=[ .]?\d\.\d|\b)/i.test(text)) codecs.push('dd');
+  if (/\baac\b/i.test(text)) codecs.push('aac');
+  if (/\bflac\b/i.test(text)) codecs.push('flac');
+  if (/\bopus\b/i.test(text)) codecs.push('opus');
+  return codecs;
+};
+
+const parseAudioChannels = (text: string): AudioChannels | undefined => {
+  if (/(^|[^\d.])7[ .]1(?!\d)/.test(text)) return '7.1';
+  if (/(^|[^\d.])5[ .]1(?!\d)/.test(text)) return '5.1';
+  if (/(^|[^\d.])2[ .]0(?!\d)/.test(text)) return '2.0';
+  return undefined;
+};
+
+const parseLanguages = (text: string): string[] => {
+  const languages = new Set<string>();
+  for (const [flag, code] of Object.entries(LANGUAGE_FLAGS)) {
+    if (text.includes(flag)) languages.add(code);
+  }
+  for (const [pattern, code] of LANGUAGE_WORDS) {
+    if (pattern.test(text)) languages.add(code);
+  }
+  return Array.from(languages);
+};
+
+const parseSize = (text: string): number | undefined => {
+  const match = text.match(/(\d+(?:[.,]\d+)?)\s*(tb|gb|mb|kb)\b/i);
+  if (!match) return undefined;
+  const value = parseFloat(match[1].replace(',', '.'));
+  return Number.isFinite(value) ? Math.round(value * SIZE_UNITS[match[2].toLowerCase()]) : undefined;
+};
+
+const parseSeeders = (text: string): number | undefined => {
+  const match = text.match(/👤\s*(\d+)/) || text.match(/\bseed(?:er)?s?\s*[:=]?\s*(\d+)/i);
+  return match ? parseInt(match[1], 10) : undefined;
+};
+
+const parseCacheStatus = (stream: ParsableStream, text: string): DebridCacheStatus => {
+  if (stream.behaviorHints?.cached === true) return 'cached';
+  // Torrentio-style markers: "[RD+]" is cached, "[RD download]" is not
+  if (/\[(rd|ad|pm|tb|dl|oc|ed|pp)\+\]|⚡|\binstant\b/i.test(text)) return 'cached';
+  if (/\[(rd|ad|pm|tb|dl|oc|ed|pp) download\]|⏳/i.test(text)) return 'uncached';
+  if (stream.behaviorHints?.cached === false) return 'uncached';
+  return 'unknown';
+};
+
+const parseReleaseGroup = (stream: ParsableStream): string | undefined => {
+  const candidates = [
+    stream.behaviorHints?.filename,
+    ...(stream.title || '').split('\n'),
+    ...(stream.description || '').split('\n'),
+  ];
+
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    const line = candidate.trim().replace(/\.(mkv|mp4|avi|m4v|ts|webm)$/i, '');
+
+    // Anime style: "[Group] Show - 01"
+    const bracketed = line.match(/^\[([^\]]{2,30})\]/);
+    if (bracketed) return bracketed[1].trim();
+
+    // Scene style: "Show.S01E01.1080p.WEB-DL.x264-GROUP"
+    const suffixed = line.match(/[.\s][^\s-]+-([A-Za-z0-9]{2,20})$/);
+    if (suffixed && !NOT_RELEASE_GROUPS.has(suffixed[1].toLowerCase())) return suffixed[1];
+  }
+  return undefined;
+};
+
+export const parseStreamInfo = (stream: ParsableStream): ParsedStreamInfo => {
+  const cached = parsedCache.get(stream);
+  if (cached) return cached;
+
+  const text = [stream.name, stream.title, stream.description, stream.behaviorHints?.filename]
+    .filter(Boolean)
+    .join('\n');
+
+  const knownSize = stream.behaviorHints?.videoSize || stream.size;
+  const info: ParsedStreamInfo = {
+    resolution: parseResolution(text),
+    sourceType: parseSourceType(text),
+    videoCodec: parseVideoCodec(text),
+    hdr: parseHdr(text),
+    audioCodecs: parseAudioCodecs(text),
+    audioChannels: parseAudioChannels(text),
+    languages: parseLanguages(text),
+    sizeBytes: typeof knownSize === 'number' && knownSize > 0 ? knownSize : parseSize(text),
+    seeders: parseSeeders(text),
+    releaseGroup: parseReleaseGroup(stream),
+    cacheStatus: parseCacheStatus(stream, text),
+  };
+
+  parsedCache.set(stream, info);
+  return info;
+};
+
+// Streams from the services carry `parsed`; anything older (caches, history) is parsed on demand
+export const getParsedStreamInfo = (stream: ParsableStream): ParsedStreamInfo =>
+  stream.parsed || parseStreamInfo(stream);
+
+const SOURCE_TYPE_LABELS: Record<SourceType, string> = {
+  remux: 'REMUX',
+  bluray: 'BluRay',
+  'web-dl': 'WEB-DL',
+  webrip: 'WEBRip',
+  hdtv: 'HDTV',
+  dvd: 'DVD',
+  cam: 'CAM',
+};
+
+export const getSourceTypeLabel = (sourceType: SourceType): string => SOURCE_TYPE_LABELS[sourceType];
+
+export const formatStreamSize = (bytes: number): string => {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB', 'TB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+};
@@ -0,0 +1,89 @@
+import { getParsedStreamInfo, ParsableStream, ParsedStreamInfo } from './streamParser';
+
+export type StreamRankingField = 'resolution' | 'videoCodec' | 'hdr' | 'audio' | 'releaseGroup' | 'size' | 'seeders' | 'cached';
+export type StreamRankingOperator = 'is' | 'atLeast' | 'atMost';
+
+/**
+ * A single user-editable ranking rule. Every enabled rule that matches a stream
+ * adds its weight to the stream's score; negative weights push streams down.
+ */
+export interface StreamRankingRule {
+  id: string;
+  field: StreamRankingField;
+  operator: StreamRankingOperator;
+  value: string | number | boolean; // Lines for resolution, GB for size, count for seeders, token for the rest
+  weight: number;
+  enabled: boolean;
+}
+
+export const DEFAULT_STREAM_RANKING_RULES: StreamRankingRule[] = [
+  { id: 'cached', field: 'cached', operator: 'is', value: true, weight: 50, enabled: true },
+  { id: 'res-2160', field: 'resolution', operator: 'atLeast', value: 2160, weight: 20, enabled: true },
+  { id: 'res-1080', field: 'resolution', operator: 'atLeast', value: 1080, weight: 20, enabled: true },
+  { id: 'res-480', field: 'resolution', operator: 'atMost', value: 480, weight: -20, enabled: true },
+  { id: 'codec-hevc', field: 'videoCodec', operator: 'is', value: 'hevc', weight: 5, enabled: true },
+  { id: 'hdr-dv', field: 'hdr', operator: 'is', value: 'dv', weight: 5, enabled: false },
+  { id: 'audio-atmos', field: 'audio', operator: 'is', value: 'atmos', weight: 5, enabled: true },
+  { id: 'seeders-10', field: 'seeders', operator: 'atLeast', value: 10, weight: 5, enabled: true },
+  { id: 'size-40', field: 'size', operator: 'atLeast', value: 40, weight: -10, enabled: false },
+];
+
+const BYTES_PER_GB = 1024 ** 3;
+
+const compareNumber = (actual: number | undefined, operator: StreamRankingOperator, expected: number): boolean => {
+  if (actual === undefined || !Number.isFinite(expected)) return false;
+  if (operator === 'atLeast') return actual >= expected;
+  if (operator === 'atMost') return actual <= expected;
+  return actual === expected;
+};
+
+export const ruleMatches = (rule: StreamRankingRule, info: ParsedStreamInfo): boolean => {
+  const token = String(rule.value).toLowerCase();
+
+  switch (rule.field) {
+    case 'resolution':
+      // Unknown resolution should not satisfy "at most 480p"
+      return info.resolution > 0 && compareNumber(info.resolution, rule.operator, Number(rule.value));
+    case 'size':
+      return compareNumber(
+        info.sizeBytes !== undefined ? info.sizeBytes / BYTES_PER_GB : undefined,
+        rule.operator,
+        Number(rule.value)
+      );
+    case 'seeders':
+      return compareNumber(info.seeders, rule.operator, Number(rule.value));
+    case 'videoCodec':
+      return info.videoCodec === token;
+    case 'hdr':
+      return token === 'sdr' ? info.hdr.length === 0 : (info.hdr as string[]).includes(token);
+    case 'audio':
+      return (info.audioCodecs as string[]).includes(token) || info.audioChannels === token;
+    case 'releaseGroup':
+      return !!info.releaseGroup && info.releaseGroup.toLowerCase() === token;
+    case 'cached':
+      return info.cacheStatus === (rule.value === true || token === 'true' ? 'cached' : 'uncached');
+    default:
+      return false;
+  }
+};
+
+export const scoreStream = (stream: ParsableStream, rules: StreamRankingRule[]): number => {
+  const info = getParsedStreamInfo(stream);
+  return rules.reduce(
+    (score, rule) => (rule.enabled && ruleMatches(rule, info) ? score + rule.weight : score),
+    0
+  );
+};
+
+/**
+ * Order streams by score (highest first). Equal scores keep their incoming
+ * order, so addon/scraper ordering still breaks ties.
+ */
+export const rankStreams = <T extends ParsableStream>(streams: T[], rules: StreamRankingRule[]): T[] => {
+  if (!rules.some(rule => rule.enabled)) return streams;
+
+  return streams
+    .map((stream, index) => ({ stream, index, score: scoreStream(stream, rules) }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(entry => entry.stream);
+};
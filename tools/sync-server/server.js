@@ -0,0 +1,221 @@
+#!/usr/bin/env node
+// Reference implementation of the Nuvio sync contract (see README.md).
+// Plain Node, no dependencies; all state lives in one JSON file.
+
+const http = require('http');
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+
+const PORT = Number(process.env.PORT) || 8788;
+const DATA_FILE = process.env.DATA_FILE || path.join(__dirname, 'sync-data.json');
+const ALLOW_SIGNUP = process.env.ALLOW_SIGNUP !== 'false';
+const MAX_BODY_BYTES = Number(process.env.MAX_BODY_BYTES) || 20 * 1024 * 1024;
+const COLLECTIONS = new Set(['library', 'watch_progress', 'addons', 'addon_order', 'scraper_repos', 'settings']);
+
+// { users: { [id]: user }, tokens: { [token]: userId }, records: { [userId]: { seq, items: { [collection/key]: record } } } }
+let db = { users: {}, tokens: {}, records: {} };
+try {
+  db = JSON.parse(fs.readFileSync(DATA_FILE, 'utf8'));
+} catch (error) {
+  if (error.code !== 'ENOENT') throw error;
+}
+
+let saveTimer = null;
+const save = () => {
+  if (saveTimer) return;
+  saveTimer = setTimeout(() => {
+    saveTimer = null;
+    const tmp = `${DATA_FILE}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(db));
+    fs.renameSync(tmp, DATA_FILE);
+  }, 200);
+};
+
+class HttpError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const hashPassword = (password, salt = crypto.randomBytes(16).toString('hex')) =>
+  `${salt}:${crypto.scryptSync(password, salt, 64).toString('hex')}`;
+
+const checkPassword = (password, stored) => {
+  const [salt, hash] = stored.split(':');
+  const candidate = crypto.scryptSync(password, salt, 64);
+  return crypto.timingSafeEqual(candidate, Buffer.from(hash, 'hex'));
+};
+
+const publicUser = (user) => ({
+  id: user.id,
+  email: user.email,
+  displayName: user.displayName,
+  avatarUrl: user.avatarUrl,
+});
+
+const issueToken = (user) => {
+  const token = crypto.randomBytes(32).toString('hex');
+  db.tokens[token] = user.id;
+  save();
+  return { token, user: publicUser(user) };
+};
+
+const findUserByEmail = (email) => Object.values(db.users).find(user => user.email === email);
+
+const requireUser = (req) => {
+  const match = /^Bearer (\S+)$/.exec(req.headers.authorization || '');
+  const user = match && db.users[db.tokens[match[1]]];
+  if (!user) throw new HttpError(401, 'Not signed in');
+  return { user, token: match[1] };
+};
+
+const readCredentials = (body) => {
+  const email = typeof body.email === 'string' ? body.email.trim().toLowerCase() : '';
+  const password = typeof body.password === 'string' ? body.password : '';
+  if (!/^\S+@\S+\.\S+$/.test(email)) throw new HttpError(400, 'Enter a valid email address');
+  if (password.length < 6) throw new HttpError(400, 'Password must be at least 6 characters');
+  return { email, password };
+};
+
+// Last writer wins per record; ties go to the incoming change so a retry is idempotent
+const applySync = (userId, body) => {
+  const store = db.records[userId] || (db.records[userId] = { seq: 0, items: {} });
+  const cursor = Number(body.cursor) || 0;
+  const changes = Array.isArray(body.changes) ? body.changes : [];
+  const written = new Set();
+  const rejected = [];
+
+  for (const change of changes) {
+    if (!change || !COLLECTIONS.has(change.collection) || typeof change.key !== 'string') {
+      throw new HttpError(400, 'Invalid change');
+    }
+    const id = `${change.collection}/${change.key}`;
+    const updatedAt = Number(change.updatedAt) || 0;
+    const existing = store.items[id];
+    if (existing && existing.updatedAt > updatedAt) {
+      rejected.push(existing);
+      continue;
+    }
+    store.seq += 1;
+    store.items[id] = {
+      collection: change.collection,
+      key: change.key,
+      value: change.deleted ? undefined : change.value,
+      deleted: !!change.deleted,
+      updatedAt,
+      seq: store.seq,
+    };
+    written.add(id);
+  }
+  if (written.size > 0) save();
+
+  const outgoing = Object.entries(store.items)
+    .filter(([id, record]) => record.seq > cursor && !written.has(id))
+    .map(([, record]) => record);
+  for (const record of rejected) {
+    if (!outgoing.includes(record)) outgoing.push(record);
+  }
+
+  return {
+    cursor: store.seq,
+    serverTime: Date.now(),
+    changes: outgoing.map(({ seq, ...record }) => record),
+  };
+};
+
+const routes = {
+  'POST /v1/auth/signup': (req, body) => {
+    if (!ALLOW_SIGNUP) throw new HttpError(403, 'Sign up is disabled on this server');
+    const { email, password } = readCredentials(body);
+    if (findUserByEmail(email)) throw new HttpError(409, 'An account with this email already exists');
+    const user = { id: crypto.randomUUID(), email, password: hashPassword(password), createdAt: Date.now() };
+    db.users[user.id] = user;
+    return [201, issueToken(user)];
+  },
+  'POST /v1/auth/signin': (req, body) => {
+    const { email, password } = readCredentials(body);
+    const user = findUserByEmail(email);
+    if (!user || !checkPassword(password, user.password)) throw new HttpError(401, 'Incorrect email or password');
+    return [200, issueToken(user)];
+  },
+  'POST /v1/auth/signout': (req) => {
+    const { token } = requireUser(req);
+    delete db.tokens[token];
+    save();
+    return [204];
+  },
+  'GET /v1/me': (req) => [200, { user: publicUser(requireUser(req).user) }],
+  'PATCH /v1/me': (req, body) => {
+    const { user } = requireUser(req);
+    for (const field of ['displayName', 'avatarUrl']) {
+      if (field in body) user[field] = typeof body[field] === 'string' && body[field] ? body[field].slice(0, 512) : undefined;
+    }
+    save();
+    return [200, { user: publicUser(user) }];
+  },
+  'POST /v1/sync': (req, body) => [200, applySync(requireUser(req).user.id, body)],
+  'GET /': () => [200, { name: 'nuvio-sync', version: 1, signup: ALLOW_SIGNUP }],
+};
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  const chunks = [];
+  let size = 0;
+  req.on('data', chunk => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(new HttpError(413, 'Request too large'));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => {
+    if (chunks.length === 0) return resolve({});
+    try {
+      resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+    } catch {
+      reject(new HttpError(400, 'Body must be JSON'));
+    }
+  });
+  req.on('error', reject);
+});
+
+const send = (res, status, payload) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+  });
+  res.end(payload === undefined ? undefined : JSON.stringify(payload));
+};
+
+const server = http.createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, POST, PATCH, OPTIONS',
+      'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+    });
+    res.end();
+    return;
+  }
+
+  const route = routes[`${req.method} ${req.url.split('?')[0]}`];
+  try {
+    if (!route) throw new HttpError(404, 'Not found');
+    const body = req.method === 'GET' ? {} : await readBody(req);
+    const [status, payload] = route(req, body);
+    send(res, status, payload);
+  } catch (error) {
+    const status = error instanceof HttpError ? error.status : 500;
+    if (status === 500) console.error('[sync] Request failed', error);
+    send(res, status, { error: status === 500 ? 'Internal error' : error.message });
+  }
+});
+
+if (require.main === module) {
+  server.listen(PORT, () => console.log(`[sync] Listening on :${PORT}, data in ${DATA_FILE}`));
+}
+
+module.exports = { server };
@@ -0,0 +1,293 @@
+#!/usr/bin/env node
+/**
+ * Watch party relay for Nuvio.
+ *
+ * Forwards playback messages between the devices in a session. It never sees
+ * stream URLs or accounts, only session codes, display names and the JSON the
+ * apps exchange. No dependencies: run it with `node relay.js` on Node 18+.
+ *
+ *   PORT=8787 node relay.js
+ *
+ * Put it behind a TLS proxy (Caddy, nginx) to use wss:// from outside a LAN.
+ */
+const http = require('http');
+const crypto = require('crypto');
+
+const PORT = parseInt(process.env.PORT || '8787', 10);
+const MAX_MEMBERS = parseInt(process.env.MAX_MEMBERS || '16', 10);
+const MAX_PAYLOAD = 64 * 1024;
+const HEARTBEAT_MS = 30000;
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+// No 0/O or 1/I, codes get read out over calls
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+/** @type {Map<string, { hostId: string, members: Map<string, Client> }>} */
+const rooms = new Map();
+
+const log = (...args) => console.log(new Date().toISOString(), ...args);
+
+const randomCode = () => {
+  let code;
+  do {
+    code = Array.from(crypto.randomBytes(6), byte => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join('');
+  } while (rooms.has(code));
+  return code;
+};
+
+// --- Minimal RFC 6455 framing (text, close, ping/pong; no extensions) ---
+
+const encodeFrame = (opcode, payload) => {
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.alloc(2);
+    header[1] = length;
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  header[0] = 0x80 | opcode;
+  return Buffer.concat([header, payload]);
+};
+
+class Client {
+  constructor(socket) {
+    this.socket = socket;
+    this.id = crypto.randomBytes(8).toString('hex');
+    this.name = 'Guest';
+    this.code = null;
+    this.alive = true;
+    this.buffer = Buffer.alloc(0);
+    this.fragments = [];
+
+    socket.on('data', chunk => this.onData(chunk));
+    socket.on('close', () => leaveRoom(this));
+    socket.on('error', () => socket.destroy());
+  }
+
+  send(message) {
+    if (this.socket.destroyed) return;
+    this.socket.write(encodeFrame(0x1, Buffer.from(JSON.stringify(message))));
+  }
+
+  close() {
+    if (this.socket.destroyed) return;
+    this.socket.end(encodeFrame(0x8, Buffer.alloc(0)));
+  }
+
+  onData(chunk) {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    while (this.buffer.length >= 2) {
+      const first = this.buffer[0];
+      const second = this.buffer[1];
+      const fin = (first & 0x80) !== 0;
+      const opcode = first & 0x0f;
+      const masked = (second & 0x80) !== 0;
+      let length = second & 0x7f;
+      let offset = 2;
+
+      if (length === 126) {
+        if (this.buffer.length < 4) return;
+        length = this.buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (this.buffer.length < 10) return;
+        length = Number(this.buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+      if (!masked || length > MAX_PAYLOAD) {
+        this.socket.destroy();
+        return;
+      }
+      if (this.buffer.length < offset + 4 + length) return;
+
+      const mask = this.buffer.subarray(offset, offset + 4);
+      const payload = Buffer.from(this.buffer.subarray(offset + 4, offset + 4 + length));
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+      this.buffer = this.buffer.subarray(offset + 4 + length);
+
+      if (opcode === 0x8) {
+        this.close();
+        return;
+      }
+      if (opcode === 0x9) {
+        this.socket.write(encodeFrame(0xa, payload));
+        continue;
+      }
+      if (opcode === 0xa) {
+        this.alive = true;
+        continue;
+      }
+      if (opcode === 0x1 || opcode === 0x0) {
+        this.fragments.push(payload);
+        if (!fin) continue;
+        const text = Buffer.concat(this.fragments).toString('utf8');
+        this.fragments = [];
+        this.onMessage(text);
+      }
+    }
+  }
+
+  onMessage(text) {
+    let message;
+    try {
+      message = JSON.parse(text);
+    } catch {
+      this.send({ type: 'error', message: 'Invalid JSON' });
+      return;
+    }
+    handleMessage(this, message);
+  }
+}
+
+// --- Sessions ---
+
+const memberList = room =>
+  Array.from(room.members.values(), member => ({ id: member.id, name: member.name }));
+
+const broadcastMembers = room => {
+  const update = { type: 'members', hostId: room.hostId, members: memberList(room), serverTime: Date.now() };
+  room.members.forEach(member => member.send(update));
+};
+
+const welcome = (client, room) => {
+  client.send({
+    type: 'welcome',
+    code: client.code,
+    memberId: client.id,
+    hostId: room.hostId,
+    members: memberList(room),
+    serverTime: Date.now(),
+  });
+};
+
+const cleanName = name => (typeof name === 'string' && name.trim() ? name.trim().slice(0, 32) : 'Guest');
+
+function leaveRoom(client) {
+  const room = client.code ? rooms.get(client.code) : null;
+  if (!room) return;
+  room.members.delete(client.id);
+  if (room.members.size === 0) {
+    rooms.delete(client.code);
+    log(`room ${client.code} closed`);
+  } else {
+    // Oldest remaining member keeps the session going
+    if (room.hostId === client.id) room.hostId = room.members.keys().next().value;
+    broadcastMembers(room);
+  }
+  client.code = null;
+}
+
+function handleMessage(client, message) {
+  switch (message.type) {
+    case 'create': {
+      leaveRoom(client);
+      client.name = cleanName(message.name);
+      client.code = randomCode();
+      const room = { hostId: client.id, members: new Map([[client.id, client]]) };
+      rooms.set(client.code, room);
+      log(`room ${client.code} created`);
+      welcome(client, room);
+      break;
+    }
+    case 'join': {
+      const code = typeof message.code === 'string' ? message.code.trim().toUpperCase() : '';
+      const room = rooms.get(code);
+      if (!room) {
+        client.send({ type: 'error', message: 'Session not found' });
+        return;
+      }
+      if (room.members.size >= MAX_MEMBERS) {
+        client.send({ type: 'error', message: 'Session is full' });
+        return;
+      }
+      leaveRoom(client);
+      client.name = cleanName(message.name);
+      client.code = code;
+      room.members.set(client.id, client);
+      welcome(client, room);
+      broadcastMembers(room);
+      break;
+    }
+    case 'leave':
+      leaveRoom(client);
+      break;
+    case 'ping':
+      client.send({ type: 'pong', t: message.t, serverTime: Date.now() });
+      break;
+    case 'broadcast': {
+      const room = client.code ? rooms.get(client.code) : null;
+      if (!room) {
+        client.send({ type: 'error', message: 'Not in a session' });
+        return;
+      }
+      // Only the host drives playback; drop state updates from anyone else
+      if (message.payload && message.payload.kind === 'state' && room.hostId !== client.id) {
+        return;
+      }
+      const forwarded = { type: 'message', from: client.id, serverTime: Date.now(), payload: message.payload };
+      room.members.forEach(member => {
+        if (member !== client) member.send(forwarded);
+      });
+      break;
+    }
+    default:
+      client.send({ type: 'error', message: `Unknown message type: ${message.type}` });
+  }
+}
+
+// --- Server ---
+
+const clients = new Set();
+
+const server = http.createServer((req, res) => {
+  res.writeHead(200, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ service: 'nuvio-watch-party-relay', rooms: rooms.size, clients: clients.size }));
+});
+
+server.on('upgrade', (req, socket) => {
+  const key = req.headers['sec-websocket-key'];
+  if (!key || (req.headers.upgrade || '').toLowerCase() !== 'websocket') {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+  const accept = crypto.createHash('sha1').update(key + WS_GUID).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '',
+    '',
+  ].join('\r\n'));
+  socket.setNoDelay(true);
+
+  const client = new Client(socket);
+  clients.add(client);
+  socket.on('close', () => clients.delete(client));
+});
+
+// Drop connections that stopped answering pings (phones going to sleep, dead NATs)
+const heartbeat = setInterval(() => {
+  clients.forEach(client => {
+    if (!client.alive) {
+      client.socket.destroy();
+      return;
+    }
+    client.alive = false;
+    if (!client.socket.destroyed) client.socket.write(encodeFrame(0x9, Buffer.alloc(0)));
+  });
+}, HEARTBEAT_MS);
+
+server.on('close', () => clearInterval(heartbeat));
+
+if (require.main === module) {
+  server.listen(PORT, () => log(`watch party relay listening on :${PORT}`));
+}
+
+module.exports = { server };